@@ -6,6 +6,10 @@ import { QuestionPathSelector } from './panels/QuestionPathSelector';
 import { QuickQuestionInput } from './panels/QuickQuestionInput';
 import { GraphManagerPanel } from './panels/GraphManagerPanel';
 import { GenerationProgress } from './panels/GenerationProgress';
+import { GenerationReviewDialog } from './panels/GenerationReviewDialog';
+import { DomainConfigEditor } from './panels/DomainConfigEditor';
+import { ConfidenceTriagePanel } from './panels/ConfidenceTriagePanel';
+import { EditHistoryPanel } from './panels/EditHistoryPanel';
 
 import { EditModeHeader } from './graph/EditModeHeader';
 import { AddNodeDialog } from './panels/AddNodeDialog';
@@ -13,12 +17,24 @@ import { ViewModeToggle, ViewMode } from './graph/ViewModeToggle';
 import { KnowledgeGraph, QuestionPath, GraphNode, GraphEdge, SkillTier } from '@/types/graph';
 import { useGraphPersistence } from '@/hooks/useGraphPersistence';
 import { useBatchGeneration } from '@/hooks/useBatchGeneration';
+import type { GraphVersionMeta } from '@/hooks/useGraphVersions';
+import { useEditHistory } from '@/hooks/useEditHistory';
+import type { RemovedNode } from '@/hooks/useGraphPersistence';
 
 import { useSkillGrouping } from '@/hooks/useSkillGrouping';
 import { useStudentMastery } from '@/hooks/useStudentMastery';
+import { useConceptEvidence } from '@/hooks/useConceptEvidence';
+import { useDecaySettings } from '@/hooks/useDecaySettings';
+import { useCreditPolicy } from '@/hooks/useCreditPolicy';
+import { useLearningPath } from '@/hooks/useLearningPath';
+import { applyMeasuredCME, propagateMastery, type MasteryModelId } from '@/lib/mastery';
 import { buildSubtopicView, buildTopicView, type SuperNode } from '@/lib/graph/groupedView';
+import { computeGroupingDelta, isGroupingDeltaEmpty, type GroupingDelta } from '@/lib/graph/groupingDelta';
+import { collectLowConfidence, CONFIRMED_CONFIDENCE, LOW_CONFIDENCE_THRESHOLD } from '@/lib/graph/confidence';
+import { EXPORT_FORMATS, exportFileName, parseGraphFile, serializeGraph, type GraphExportFormat } from '@/lib/interchange';
+import { downloadFile } from '@/lib/download';
 import { TopicScoreTable } from './panels/TopicScoreTable';
-import { Network, Sparkles, Trash2, GraduationCap, Plus, Pencil, CheckCircle, Wand2 } from 'lucide-react';
+import { Network, Sparkles, Trash2, GraduationCap, Plus, Pencil, CheckCircle, Wand2, ShieldQuestion } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -27,9 +43,13 @@ import { toast } from '@/hooks/use-toast';
 import {
   StudentSelector,
   ClassSelector,
+  LearningPathPanel,
   MasterySidebar,
 } from './mastery';
 
+const NO_NODES: GraphNode[] = [];
+const NO_EDGES: GraphEdge[] = [];
+
 // Helper to get path array from either format (backward compatible)
 const getPathArray = (path: QuestionPath | string[]): string[] => {
   if (Array.isArray(path)) return path;
@@ -61,6 +81,11 @@ export function KnowledgeGraphApp() {
   const [isAutoGrouping, setIsAutoGrouping] = useState(false);
   const [isRecalculating, setIsRecalculating] = useState(false);
 
+  // Low-confidence triage and edge fading
+  const [showTriage, setShowTriage] = useState(false);
+  const [fadeLowConfidence, setFadeLowConfidence] = useState(false);
+  const [confidenceThreshold, setConfidenceThreshold] = useState(LOW_CONFIDENCE_THRESHOLD);
+
   // Graph persistence
   const {
     savedGraphs,
@@ -72,12 +97,17 @@ export function KnowledgeGraphApp() {
     loadGraph,
     deleteGraph,
     copyGraph,
+    importGraph,
     fetchGraphs,
     recomputeAndSaveLevels,
     addNode,
     removeNode,
+    restoreNode,
     addEdge,
     removeEdge,
+    restoreEdge,
+    setEdgeConfidence,
+    updateQuestionSkill,
   } = useGraphPersistence();
 
   const [isRecomputingLevels, setIsRecomputingLevels] = useState(false);
@@ -87,15 +117,68 @@ export function KnowledgeGraphApp() {
     graphId: currentGraphId || '',
     autoLoad: !!currentGraphId,
   });
+  const { fetchSnapshot: fetchGroupingSnapshot, applyDelta: applyGroupingDelta, loadGroupings } = groupingHook;
+
+  // Undo/redo of edits; kept across saves, cleared when another graph is loaded
+  const editHistory = useEditHistory({ resetKey: currentGraphId, enableShortcuts: !!currentGraphId });
+  const { execute: executeEdit, clear: clearEditHistory } = editHistory;
 
 
   // Student mastery hook
+  // Mastery model used by every mastery view (counting or BKT)
+  const [masteryModel, setMasteryModel] = useState<MasteryModelId>('counting');
+
+  // Per-graph retention decay settings
+  const decaySettings = useDecaySettings({
+    graphId: currentGraphId || '',
+    autoLoad: !!currentGraphId,
+  });
+
+  // Per-graph independence crediting policy
+  const creditSettings = useCreditPolicy({
+    graphId: currentGraphId || '',
+    autoLoad: !!currentGraphId,
+  });
+
   const studentMasteryHook = useStudentMastery({
     graphId: currentGraphId || '',
     studentId: selectedStudentId || '',
     autoLoad: !!currentGraphId && !!selectedStudentId,
+    decayConfig: decaySettings.decayConfig,
+    creditPolicy: creditSettings.creditPolicy,
+    model: masteryModel,
   });
 
+  // Measured CME for the selected student (or pooled across the selected class)
+  const conceptEvidenceHook = useConceptEvidence({
+    graphId: currentGraphId || '',
+    studentId: selectedStudentId,
+    classId: selectedClassId,
+    autoLoad: masteryMode && !!currentGraphId,
+  });
+
+  // Recommended study plan for the selected student
+  const [highlightFrontier, setHighlightFrontier] = useState(true);
+  const learningPathHook = useLearningPath({
+    graphId: currentGraphId || '',
+    studentId: selectedStudentId,
+    nodes: graph?.globalNodes ?? NO_NODES,
+    edges: graph?.edges ?? NO_EDGES,
+    mastery: studentMasteryHook.mastery,
+    autoLoad: masteryMode && !!currentGraphId && !!selectedStudentId,
+  });
+
+  const lowConfidenceCount = useMemo(
+    () => (graph ? collectLowConfidence(graph, confidenceThreshold).length : 0),
+    [graph, confidenceThreshold]
+  );
+
+  const skillNames = useMemo(() => {
+    const map: Record<string, string> = {};
+    (graph?.globalNodes ?? NO_NODES).forEach(n => { map[n.id] = n.name; });
+    return map;
+  }, [graph?.globalNodes]);
+
   // Get current graph name
   const currentGraphName = useMemo(
     () => savedGraphs.find(g => g.id === currentGraphId)?.name,
@@ -103,7 +186,7 @@ export function KnowledgeGraphApp() {
   );
 
   // Batch generation with progress tracking
-  const handleGraphUpdate = useCallback((newGraph: KnowledgeGraph) => {
+  const handleGraphUpdate = useCallback((newGraph: KnowledgeGraph | null) => {
     setGraph(newGraph);
     setSelectedNodeId(null);
     setSelectedQuestion(null);
@@ -112,11 +195,19 @@ export function KnowledgeGraphApp() {
   const {
     generate,
     abort,
+    cancel,
     resume,
     progress,
+    events,
+    liveNodeIds,
+    review,
+    applyReview,
+    discardReview,
+    deferReview,
+    pendingJob,
     hasCheckpoint,
     clearCheckpoint,
-  } = useBatchGeneration(graph, handleGraphUpdate, fetchGraphs);
+  } = useBatchGeneration(graph, handleGraphUpdate, fetchGraphs, currentGraphId);
 
 
   const handleClassSelect = useCallback((classId: string, className: string) => {
@@ -139,13 +230,55 @@ export function KnowledgeGraphApp() {
     });
   }, []);
 
+  // Record a grouping change as one undoable step. Undo and redo write only
+  // the rows the change touched, so groupings made since are left alone
+  const runGroupingChange = useCallback(async (label: string, change: () => Promise<boolean>) => {
+    const before = await fetchGroupingSnapshot();
+    if (!before) return false;
+    let delta: GroupingDelta | null = null;
+    let inverse: GroupingDelta | null = null;
+    return executeEdit({
+      label,
+      apply: async () => {
+        if (delta) return applyGroupingDelta(delta);
+        if (!(await change())) return false;
+        const after = await fetchGroupingSnapshot();
+        if (!after) return false;
+        delta = computeGroupingDelta(before, after);
+        inverse = computeGroupingDelta(after, before);
+        return !isGroupingDeltaEmpty(delta);
+      },
+      revert: () => (inverse ? applyGroupingDelta(inverse) : Promise.resolve(false)),
+    });
+  }, [fetchGroupingSnapshot, applyGroupingDelta, executeEdit]);
+
   // Handle creating a subtopic from selected nodes
   const handleCreateSubtopic = useCallback(async (name: string, color: string) => {
     if (selectedGroupingNodeIds.size === 0) return;
     const skillIds = Array.from(selectedGroupingNodeIds);
-    await groupingHook.createSubtopic(name, color, skillIds);
+    await runGroupingChange(`Create subtopic "${name}"`, async () => !!(await groupingHook.createSubtopic(name, color, skillIds)));
     setSelectedGroupingNodeIds(new Set());
-  }, [selectedGroupingNodeIds, groupingHook]);
+  }, [selectedGroupingNodeIds, groupingHook, runGroupingChange]);
+
+  // Topic and subtopic edits from the mastery sidebar, each one undoable
+  const handleCreateTopic = useCallback(async (name: string, color: string) => {
+    await runGroupingChange(`Create topic "${name}"`, async () => !!(await groupingHook.createTopic(name, color)));
+  }, [groupingHook, runGroupingChange]);
+
+  const handleDeleteTopic = useCallback(async (topicId: string) => {
+    const name = groupingHook.topics.find(t => t.id === topicId)?.name ?? 'topic';
+    await runGroupingChange(`Delete topic "${name}"`, () => groupingHook.deleteTopic(topicId));
+  }, [groupingHook, runGroupingChange]);
+
+  const handleDeleteSubtopic = useCallback(async (subtopicId: string) => {
+    const name = groupingHook.subtopics.find(st => st.id === subtopicId)?.name ?? 'subtopic';
+    await runGroupingChange(`Delete subtopic "${name}"`, () => groupingHook.deleteSubtopic(subtopicId));
+  }, [groupingHook, runGroupingChange]);
+
+  const handleAssignSubtopicToTopic = useCallback(async (subtopicId: string, topicId: string | null) => {
+    const name = groupingHook.subtopics.find(st => st.id === subtopicId)?.name ?? 'subtopic';
+    await runGroupingChange(`Move subtopic "${name}"`, () => groupingHook.assignSubtopicToTopic(subtopicId, topicId));
+  }, [groupingHook, runGroupingChange]);
 
   // Recompute levels and reload graph
   const handleRecomputeLevels = useCallback(async () => {
@@ -159,64 +292,164 @@ export function KnowledgeGraphApp() {
     setIsRecomputingLevels(false);
   }, [currentGraphId, recomputeAndSaveLevels, loadGraph]);
 
-  // CRUD handlers
+  // CRUD handlers. Each runs as an undoable command; the local updates are
+  // functional so undo and redo apply to the graph as it is at that time.
   const handleAddNode = useCallback(async (skillId: string, name: string, tier: SkillTier, description?: string) => {
     if (!currentGraphId || !graph) return;
-    const success = await addNode(currentGraphId, skillId, name, tier, description);
-    if (success) {
-      // Add to local state
-      const newNode: GraphNode = {
-        id: skillId,
-        name,
-        level: 0,
-        tier,
-        description,
-        knowledgePoint: { atomicityCheck: `Transferable skill: ${name}`, assessmentExample: '', targetAssessmentLevel: 3, appearsInQuestions: [] },
-        cme: { measured: false, highestConceptLevel: 0, levelLabels: ['Recognition', 'Recall (simple)', 'Recall (complex)', 'Direct application'], independence: 'Unknown', retention: 'Unknown', evidenceByLevel: {} },
-        le: { estimated: true, estimatedMinutes: 15 },
-      };
-      setGraph({
-        ...graph,
-        globalNodes: [...graph.globalNodes, newNode],
-      });
-    }
-  }, [currentGraphId, graph, addNode]);
+    const graphId = currentGraphId;
+    const newNode: GraphNode = {
+      id: skillId,
+      name,
+      level: 0,
+      tier,
+      description,
+      knowledgePoint: { atomicityCheck: `Transferable skill: ${name}`, assessmentExample: '', targetAssessmentLevel: 3, appearsInQuestions: [] },
+      cme: { measured: false, highestConceptLevel: 0, levelLabels: ['Recognition', 'Recall (simple)', 'Recall (complex)', 'Direct application'], independence: 'Unknown', retention: 'Unknown', evidenceByLevel: {} },
+      le: { estimated: true, estimatedMinutes: 15 },
+    };
+    await executeEdit({
+      label: `Add KP "${name}"`,
+      apply: async () => {
+        if (!(await addNode(graphId, skillId, name, tier, description))) return false;
+        setGraph(prev => prev && { ...prev, globalNodes: [...prev.globalNodes, newNode] });
+        return true;
+      },
+      revert: async () => {
+        if (!(await removeNode(graphId, skillId))) return false;
+        setGraph(prev => prev && { ...prev, globalNodes: prev.globalNodes.filter(n => n.id !== skillId) });
+        setSelectedNodeId(prev => (prev === skillId ? null : prev));
+        return true;
+      },
+    });
+  }, [currentGraphId, graph, addNode, removeNode, executeEdit]);
 
   const handleDeleteNode = useCallback(async (skillId: string) => {
     if (!currentGraphId || !graph) return;
-    const success = await removeNode(currentGraphId, skillId);
-    if (success) {
-      setGraph({
-        ...graph,
-        globalNodes: graph.globalNodes.filter(n => n.id !== skillId),
-        edges: graph.edges.filter(e => e.from !== skillId && e.to !== skillId),
-      });
-      setSelectedNodeId(null);
-    }
-  }, [currentGraphId, graph, removeNode]);
+    const graphId = currentGraphId;
+    const node = graph.globalNodes.find(n => n.id === skillId);
+    if (!node) return;
+    const nodeEdges = graph.edges.filter(e => e.from === skillId || e.to === skillId);
+    let removed: RemovedNode | null = null;
+    await executeEdit({
+      label: `Remove KP "${node.name}"`,
+      apply: async () => {
+        removed = await removeNode(graphId, skillId);
+        if (!removed) return false;
+        setGraph(prev => prev && {
+          ...prev,
+          globalNodes: prev.globalNodes.filter(n => n.id !== skillId),
+          edges: prev.edges.filter(e => e.from !== skillId && e.to !== skillId),
+        });
+        setSelectedNodeId(prev => (prev === skillId ? null : prev));
+        return true;
+      },
+      // Restores the skill row (with its subtopic), its edges and the questions' skill lists
+      revert: async () => {
+        if (!removed || !(await restoreNode(graphId, removed))) return false;
+        setGraph(prev => prev && {
+          ...prev,
+          globalNodes: [...prev.globalNodes, node],
+          edges: [...prev.edges, ...nodeEdges],
+        });
+        loadGroupings();
+        return true;
+      },
+    });
+  }, [currentGraphId, graph, removeNode, restoreNode, loadGroupings, executeEdit]);
 
   const handleAddEdge = useCallback(async (fromSkill: string, toSkill: string) => {
     if (!currentGraphId || !graph) return;
-    const success = await addEdge(currentGraphId, fromSkill, toSkill);
-    if (success) {
-      const newEdge: GraphEdge = { from: fromSkill, to: toSkill, reason: '' };
-      setGraph({ ...graph, edges: [...graph.edges, newEdge] });
-      // Recompute levels
-      await handleRecomputeLevels();
-    }
-  }, [currentGraphId, graph, addEdge, handleRecomputeLevels]);
+    const graphId = currentGraphId;
+    const newEdge: GraphEdge = { from: fromSkill, to: toSkill, reason: '', confidence: CONFIRMED_CONFIDENCE };
+    await executeEdit({
+      label: `Add edge ${skillNames[fromSkill] ?? fromSkill} → ${skillNames[toSkill] ?? toSkill}`,
+      apply: async () => {
+        if (!(await addEdge(graphId, fromSkill, toSkill))) return false;
+        setGraph(prev => prev && { ...prev, edges: [...prev.edges, newEdge] });
+        // Recompute levels
+        await handleRecomputeLevels();
+        return true;
+      },
+      revert: async () => {
+        if (!(await removeEdge(graphId, fromSkill, toSkill))) return false;
+        setGraph(prev => prev && { ...prev, edges: prev.edges.filter(e => !(e.from === fromSkill && e.to === toSkill)) });
+        await handleRecomputeLevels();
+        return true;
+      },
+    });
+  }, [currentGraphId, graph, skillNames, addEdge, removeEdge, handleRecomputeLevels, executeEdit]);
 
   const handleRemoveEdge = useCallback(async (fromSkill: string, toSkill: string) => {
     if (!currentGraphId || !graph) return;
-    const success = await removeEdge(currentGraphId, fromSkill, toSkill);
+    const graphId = currentGraphId;
+    const edge = graph.edges.find(e => e.from === fromSkill && e.to === toSkill);
+    if (!edge) return;
+    await executeEdit({
+      label: `Remove edge ${skillNames[fromSkill] ?? fromSkill} → ${skillNames[toSkill] ?? toSkill}`,
+      apply: async () => {
+        if (!(await removeEdge(graphId, fromSkill, toSkill))) return false;
+        setGraph(prev => prev && { ...prev, edges: prev.edges.filter(e => !(e.from === fromSkill && e.to === toSkill)) });
+        await handleRecomputeLevels();
+        return true;
+      },
+      revert: async () => {
+        if (!(await restoreEdge(graphId, edge))) return false;
+        setGraph(prev => prev && { ...prev, edges: [...prev.edges, edge] });
+        await handleRecomputeLevels();
+        return true;
+      },
+    });
+  }, [currentGraphId, graph, skillNames, removeEdge, restoreEdge, handleRecomputeLevels, executeEdit]);
+
+  const handleConfirmEdge = useCallback(async (fromSkill: string, toSkill: string) => {
+    if (!currentGraphId || !graph) return;
+    const success = await setEdgeConfidence(currentGraphId, fromSkill, toSkill, CONFIRMED_CONFIDENCE);
     if (success) {
       setGraph({
         ...graph,
-        edges: graph.edges.filter(e => !(e.from === fromSkill && e.to === toSkill)),
+        edges: graph.edges.map(e => (e.from === fromSkill && e.to === toSkill ? { ...e, confidence: CONFIRMED_CONFIDENCE } : e)),
       });
-      await handleRecomputeLevels();
     }
-  }, [currentGraphId, graph, removeEdge, handleRecomputeLevels]);
+  }, [currentGraphId, graph, setEdgeConfidence]);
+
+  const handleQuestionSkill = useCallback(async (question: string, skillId: string, action: 'confirm' | 'remove') => {
+    if (!currentGraphId || !graph) return;
+    const path = graph.questionPaths[question];
+    if (!path || Array.isArray(path)) return;
+    const success = await updateQuestionSkill(currentGraphId, question, skillId, action);
+    if (!success) return;
+
+    const skillConfidence = { ...path.skillConfidence };
+    if (action === 'confirm') {
+      skillConfidence[skillId] = CONFIRMED_CONFIDENCE;
+      setGraph({ ...graph, questionPaths: { ...graph.questionPaths, [question]: { ...path, skillConfidence } } });
+      return;
+    }
+
+    delete skillConfidence[skillId];
+    const extended = path as QuestionPath & { primarySkills?: string[]; skillWeights?: Record<string, number> };
+    const skillWeights = { ...extended.skillWeights };
+    delete skillWeights[skillId];
+    const updatedPath = {
+      ...extended,
+      requiredNodes: path.requiredNodes.filter(id => id !== skillId),
+      executionOrder: path.executionOrder.filter(id => id !== skillId),
+      primarySkills: extended.primarySkills?.filter(id => id !== skillId),
+      skillWeights,
+      skillConfidence,
+    };
+    setGraph({
+      ...graph,
+      globalNodes: graph.globalNodes.map(n => (n.id !== skillId ? n : {
+        ...n,
+        knowledgePoint: {
+          ...n.knowledgePoint,
+          appearsInQuestions: n.knowledgePoint.appearsInQuestions.filter(q => q !== question),
+        },
+      })),
+      questionPaths: { ...graph.questionPaths, [question]: updatedPath },
+    });
+  }, [currentGraphId, graph, updateQuestionSkill]);
 
   // Clear graph and start fresh
   const handleClearGraph = useCallback(() => {
@@ -233,9 +466,9 @@ export function KnowledgeGraphApp() {
     toast({ title: "Graph cleared", description: "You can start building a new knowledge graph." });
   }, [setCurrentGraphId, clearCheckpoint]);
 
-  const handleSaveGraph = useCallback(async (name: string, description?: string) => {
+  const handleSaveGraph = useCallback(async (name: string, description?: string, message?: string) => {
     if (!graph) return;
-    await saveGraph(graph, name, description, currentGraphId || undefined);
+    await saveGraph(graph, name, description, currentGraphId || undefined, { message });
   }, [graph, currentGraphId, saveGraph]);
 
   const handleLoadGraph = useCallback(async (graphId: string) => {
@@ -248,6 +481,19 @@ export function KnowledgeGraphApp() {
     }
   }, [loadGraph]);
 
+  // Restoring saves the snapshot again, so the history keeps what it replaced
+  const handleRestoreVersion = useCallback(async (snapshot: KnowledgeGraph, version: GraphVersionMeta) => {
+    const meta = savedGraphs.find(g => g.id === currentGraphId);
+    if (!currentGraphId || !meta) return;
+    const savedId = await saveGraph(snapshot, meta.name, meta.description ?? undefined, currentGraphId, {
+      message: `Restored v${version.version_number}`,
+    });
+    if (!savedId) return;
+    // Steps recorded against the replaced graph no longer apply
+    clearEditHistory();
+    await handleLoadGraph(savedId);
+  }, [savedGraphs, currentGraphId, saveGraph, handleLoadGraph, clearEditHistory]);
+
   const handleDeleteGraph = useCallback(async (graphId: string) => {
     const success = await deleteGraph(graphId);
     if (success && graphId === currentGraphId) {
@@ -257,11 +503,12 @@ export function KnowledgeGraphApp() {
     }
   }, [deleteGraph, currentGraphId]);
 
-  const handleGenerate = useCallback(async (questions: string[], domain?: string, turbo?: boolean) => {
-    await generate(questions, false, currentGraphId || undefined, domain, turbo);
+  const handleGenerate = useCallback(async (questions: string[], domain?: string, turbo?: boolean, forceRefresh?: boolean, includeTrace?: boolean) => {
+    await generate(questions, false, currentGraphId || undefined, domain, turbo, forceRefresh, includeTrace);
   }, [generate, currentGraphId]);
 
-  const handleRemoveQuestion = useCallback((questionText: string) => {
+  // Local only; the next save persists it. Undo puts back the question and any KPs it orphaned.
+  const handleRemoveQuestion = useCallback(async (questionText: string) => {
     if (!graph) return;
     const questionPath = graph.questionPaths[questionText];
     const questionSkills = new Set(
@@ -278,40 +525,129 @@ export function KnowledgeGraphApp() {
     questionSkills.forEach(skillId => {
       if (!otherQuestionsSkills.has(skillId)) orphanedSkills.add(skillId);
     });
-    const newQuestionPaths = { ...graph.questionPaths };
-    delete newQuestionPaths[questionText];
-    const newNodes = graph.globalNodes.filter(n => !orphanedSkills.has(n.id));
-    const newEdges = graph.edges.filter(e => !orphanedSkills.has(e.from) && !orphanedSkills.has(e.to));
-    newNodes.forEach(node => {
-      node.knowledgePoint.appearsInQuestions = node.knowledgePoint.appearsInQuestions.filter(q => q !== questionText);
+    const orphanedNodes = graph.globalNodes.filter(n => orphanedSkills.has(n.id));
+    const orphanedEdges = graph.edges.filter(e => orphanedSkills.has(e.from) || orphanedSkills.has(e.to));
+
+    const removed = await executeEdit({
+      label: `Remove question "${questionText.length > 40 ? `${questionText.slice(0, 40)}…` : questionText}"`,
+      apply: async () => {
+        setGraph(prev => {
+          if (!prev) return prev;
+          const newQuestionPaths = { ...prev.questionPaths };
+          delete newQuestionPaths[questionText];
+          return {
+            ...prev,
+            globalNodes: prev.globalNodes
+              .filter(n => !orphanedSkills.has(n.id))
+              .map(n => ({
+                ...n,
+                knowledgePoint: {
+                  ...n.knowledgePoint,
+                  appearsInQuestions: n.knowledgePoint.appearsInQuestions.filter(q => q !== questionText),
+                },
+              })),
+            edges: prev.edges.filter(e => !orphanedSkills.has(e.from) && !orphanedSkills.has(e.to)),
+            questionPaths: newQuestionPaths,
+          };
+        });
+        setSelectedQuestion(prev => (prev === questionText ? null : prev));
+        return true;
+      },
+      revert: async () => {
+        setGraph(prev => prev && {
+          ...prev,
+          globalNodes: [
+            ...prev.globalNodes.map(n => (!questionSkills.has(n.id) || n.knowledgePoint.appearsInQuestions.includes(questionText) ? n : {
+              ...n,
+              knowledgePoint: {
+                ...n.knowledgePoint,
+                appearsInQuestions: [...n.knowledgePoint.appearsInQuestions, questionText],
+              },
+            })),
+            ...orphanedNodes,
+          ],
+          edges: [...prev.edges, ...orphanedEdges],
+          questionPaths: { ...prev.questionPaths, [questionText]: questionPath },
+        });
+        return true;
+      },
     });
-    setGraph({ ...graph, globalNodes: newNodes, edges: newEdges, questionPaths: newQuestionPaths });
+    if (!removed) return;
     toast({
       title: 'Question removed',
       description: orphanedSkills.size > 0 ? `Removed ${orphanedSkills.size} orphaned KP(s).` : 'Question has been removed from the graph.',
     });
-  }, [graph]);
+  }, [graph, executeEdit]);
 
   const handleCopyGraph = useCallback(async (graphId: string, newName: string) => {
     const newId = await copyGraph(graphId, newName);
     if (newId) await handleLoadGraph(newId);
   }, [copyGraph, handleLoadGraph]);
 
-  const selectedNode = useMemo(
-    () => graph?.globalNodes.find((n) => n.id === selectedNodeId) || null,
-    [graph?.globalNodes, selectedNodeId]
-  );
+  const handleExportGraph = useCallback((format: GraphExportFormat) => {
+    if (!graph) return;
+    const meta = savedGraphs.find(g => g.id === currentGraphId);
+    const name = meta?.name || 'Knowledge Graph';
+    const content = serializeGraph({
+      name,
+      description: meta?.description,
+      graph,
+      grouping: {
+        topics: groupingHook.topics,
+        subtopics: groupingHook.subtopics,
+        skillSubtopics: Object.fromEntries(groupingHook.skillSubtopicMap),
+      },
+    }, format);
+    downloadFile(content, exportFileName(name, format), EXPORT_FORMATS[format].mimeType);
+  }, [graph, savedGraphs, currentGraphId, groupingHook.topics, groupingHook.subtopics, groupingHook.skillSubtopicMap]);
+
+  // Imports always become a new saved graph, which is then opened
+  const handleImportGraph = useCallback(async (file: File) => {
+    try {
+      const doc = parseGraphFile(await file.text(), file.name);
+      if (doc.graph.globalNodes.length === 0) throw new Error(`${file.name} has no skills`);
+      const newId = await importGraph(doc);
+      if (newId) await handleLoadGraph(newId);
+    } catch (error) {
+      console.error('Error importing graph:', error);
+      toast({
+        title: 'Failed to import graph',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  }, [importGraph, handleLoadGraph]);
+
+  const selectedNode = useMemo(() => {
+    const node = graph?.globalNodes.find((n) => n.id === selectedNodeId);
+    if (!node) return null;
+    return masteryMode ? applyMeasuredCME(node, conceptEvidenceHook.cmeBySkill) : node;
+  }, [graph?.globalNodes, selectedNodeId, masteryMode, conceptEvidenceHook.cmeBySkill]);
 
   const highlightedPath = useMemo(() => {
     if (!selectedQuestion || !graph?.questionPaths[selectedQuestion]) return undefined;
     return getPathArray(graph.questionPaths[selectedQuestion]);
   }, [selectedQuestion, graph?.questionPaths]);
 
+  // Heading of exported canvas images: graph, grouping level and whether mastery is shown
+  const canvasExportTitle = useMemo(() => {
+    const parts = [currentGraphName || 'Knowledge Graph'];
+    if (viewMode !== 'skills') parts.push(viewMode === 'topics' ? 'Topics' : 'Subtopics');
+    if (masteryMode && selectedStudentId) parts.push('Student mastery');
+    return parts.join(' - ');
+  }, [currentGraphName, viewMode, masteryMode, selectedStudentId]);
+
   const stats = useMemo(() => {
     if (!graph) return null;
     return { totalNodes: graph.globalNodes.length, totalEdges: graph.edges.length, totalQuestions: Object.keys(graph.questionPaths).length };
   }, [graph]);
 
+  // Measured mastery plus values inferred along prerequisite edges
+  const propagatedMastery = useMemo(() => {
+    if (!graph || !selectedStudentId) return undefined;
+    return propagateMastery(studentMasteryHook.mastery, graph.edges, graph.globalNodes.map(n => n.id));
+  }, [graph, selectedStudentId, studentMasteryHook.mastery]);
+
   // Compute grouped view data
   const groupedData = useMemo(() => {
     if (!graph || viewMode === 'skills') return null;
@@ -346,26 +682,30 @@ export function KnowledgeGraphApp() {
                 </h1>
               </div>
             </div>
-            <GraphManagerPanel
-              savedGraphs={savedGraphs}
-              currentGraphId={currentGraphId}
-              hasGraph={false}
-              isLoading={isPersistenceLoading}
-              isSaving={isSaving}
-              onSave={handleSaveGraph}
-              onLoad={handleLoadGraph}
-              onDelete={handleDeleteGraph}
-              onNew={handleClearGraph}
-              onCopy={handleCopyGraph}
-              onRecomputeLevels={handleRecomputeLevels}
-              isRecomputingLevels={isRecomputingLevels}
-            />
+            <div className="flex items-center gap-2">
+              <DomainConfigEditor />
+              <GraphManagerPanel
+                savedGraphs={savedGraphs}
+                currentGraphId={currentGraphId}
+                hasGraph={false}
+                isLoading={isPersistenceLoading}
+                isSaving={isSaving}
+                onSave={handleSaveGraph}
+                onLoad={handleLoadGraph}
+                onDelete={handleDeleteGraph}
+                onNew={handleClearGraph}
+                onCopy={handleCopyGraph}
+                onRecomputeLevels={handleRecomputeLevels}
+                isRecomputingLevels={isRecomputingLevels}
+                onImport={handleImportGraph}
+              />
+            </div>
           </div>
         </header>
         <div className="flex-1 flex items-center justify-center p-8">
           <div className="w-full max-w-2xl space-y-4">
             {(isGenerating || showCheckpointResume) && (
-              <GenerationProgress progress={progress} onPause={abort} onResume={resume} onCancel={clearCheckpoint} hasCheckpoint={showCheckpointResume} />
+              <GenerationProgress progress={progress} onPause={abort} onResume={resume} onCancel={cancel} hasCheckpoint={showCheckpointResume} pendingJob={pendingJob} events={events} />
             )}
             {!isGenerating && (
               <QuickQuestionInput onGenerate={handleGenerate} isLoading={isGenerating} isLandingMode={true} graphId={currentGraphId} />
@@ -433,6 +773,7 @@ export function KnowledgeGraphApp() {
 
             <div className="w-px h-5 bg-border" />
 
+            <DomainConfigEditor />
             <GraphManagerPanel
               savedGraphs={savedGraphs}
               currentGraphId={currentGraphId}
@@ -446,6 +787,9 @@ export function KnowledgeGraphApp() {
               onCopy={handleCopyGraph}
               onRecomputeLevels={handleRecomputeLevels}
               isRecomputingLevels={isRecomputingLevels}
+              onRestoreVersion={handleRestoreVersion}
+              onExport={handleExportGraph}
+              onImport={handleImportGraph}
             />
             <Button variant="outline" size="sm" onClick={handleClearGraph} className="gap-1.5 text-muted-foreground hover:text-destructive">
               <Trash2 className="h-3.5 w-3.5" />Clear
@@ -456,6 +800,17 @@ export function KnowledgeGraphApp() {
         {/* Header - Row 2: Contextual tools */}
         {currentGraphId && (
           <div className="flex items-center gap-2 px-4 py-1.5 border-t border-border/50 bg-muted/30 flex-wrap">
+            {/* Undo/redo and the edit history */}
+            <EditHistoryPanel
+              past={editHistory.past}
+              future={editHistory.future}
+              isApplying={editHistory.isApplying}
+              onUndo={editHistory.undo}
+              onRedo={editHistory.redo}
+              onGoTo={editHistory.goTo}
+            />
+            <div className="w-px h-4 bg-border" />
+
             {/* Auto-Group */}
             <Button
               variant="outline"
@@ -464,7 +819,7 @@ export function KnowledgeGraphApp() {
               disabled={isAutoGrouping}
               onClick={async () => {
                 setIsAutoGrouping(true);
-                await groupingHook.autoGroupSkills();
+                await runGroupingChange('Auto-group skills', groupingHook.autoGroupSkills);
                 setIsAutoGrouping(false);
               }}
             >
@@ -479,6 +834,19 @@ export function KnowledgeGraphApp() {
               </Button>
             )}
 
+            {/* Low-confidence triage and edge fading */}
+            <div className="w-px h-4 bg-border" />
+            <Button variant="outline" size="sm" className="gap-1.5 h-7 text-xs" onClick={() => setShowTriage(true)}>
+              <ShieldQuestion className="h-3 w-3" /> Triage
+              {lowConfidenceCount > 0 && (
+                <Badge variant="secondary" className="h-4 px-1 text-[10px]">{lowConfidenceCount}</Badge>
+              )}
+            </Button>
+            <div className="flex items-center gap-1.5">
+              <Switch id="fade-uncertain" checked={fadeLowConfidence} onCheckedChange={setFadeLowConfidence} className="scale-75" />
+              <Label htmlFor="fade-uncertain" className="text-xs cursor-pointer">Fade uncertain edges</Label>
+            </div>
+
             {/* Class & Student Selectors */}
             {masteryMode && (
               <>
@@ -499,6 +867,9 @@ export function KnowledgeGraphApp() {
               selectedQuestion={selectedQuestion}
               onQuestionSelect={setSelectedQuestion}
               onQuestionRemove={handleRemoveQuestion}
+              ipaByQuestion={graph.ipaByQuestion}
+              skillNames={skillNames}
+              onSkillSelect={setSelectedNodeId}
             />
           </div>
         )}
@@ -529,15 +900,23 @@ export function KnowledgeGraphApp() {
             subtopics={groupingHook.subtopics}
             skillSubtopicMap={groupingHook.skillSubtopicMap}
             studentMastery={masteryMode && selectedStudentId ? studentMasteryHook.mastery : undefined}
+            propagatedMastery={masteryMode ? propagatedMastery : undefined}
             showMasteryVisuals={masteryMode && !!selectedStudentId}
+            frontierNodeIds={masteryMode && highlightFrontier ? learningPathHook.plan?.frontier : undefined}
+            isLivePreview={isGenerating && !groupedData}
+            liveNodeIds={liveNodeIds}
+            onStopLive={cancel}
+            fadeLowConfidence={fadeLowConfidence}
+            confidenceThreshold={confidenceThreshold}
             viewMode={viewMode}
             groupedData={groupedData}
+            exportTitle={canvasExportTitle}
           />
 
           {/* Floating question input and progress */}
           <div className="absolute top-4 left-4 w-80 space-y-2">
             {(isGenerating || showCheckpointResume) && (
-              <GenerationProgress progress={progress} onPause={abort} onResume={resume} onCancel={clearCheckpoint} hasCheckpoint={showCheckpointResume} />
+              <GenerationProgress progress={progress} onPause={abort} onResume={resume} onCancel={cancel} hasCheckpoint={showCheckpointResume} pendingJob={pendingJob} events={events} />
             )}
             {!isGenerating && (
               <QuickQuestionInput onGenerate={handleGenerate} isLoading={isGenerating} isLandingMode={false} graphId={currentGraphId} />
@@ -571,6 +950,21 @@ export function KnowledgeGraphApp() {
             graphId={currentGraphId}
             onRecalculate={() => {}}
             isRecalculating={isRecalculating}
+            creditPolicy={creditSettings.creditPolicy}
+          />
+        )}
+
+        {/* Learning path for the selected student */}
+        {masteryMode && currentGraphId && selectedStudentId && (
+          <LearningPathPanel
+            plan={learningPathHook.plan}
+            loading={learningPathHook.loading}
+            studentName={selectedStudentName}
+            skillNames={skillNames}
+            selectedNodeId={selectedNodeId}
+            onSkillSelect={(id) => { setSelectedNodeId(id); setSelectedSuperNodeId(null); }}
+            highlightFrontier={highlightFrontier}
+            onHighlightFrontierChange={setHighlightFrontier}
           />
         )}
 
@@ -586,7 +980,26 @@ export function KnowledgeGraphApp() {
             isEditMode={isGroupingEditMode}
             onToggleEditMode={handleToggleGroupingEditMode}
             studentMastery={studentMasteryHook.mastery}
-            onMasteryRefresh={studentMasteryHook.loadMastery}
+            propagatedMastery={propagatedMastery}
+            onMasteryRefresh={() => {
+              studentMasteryHook.loadMastery();
+              conceptEvidenceHook.loadEvidence();
+            }}
+            decayConfig={decaySettings.decayConfig}
+            decaySaving={decaySettings.saving}
+            onDecayConfigChange={decaySettings.updateDecayConfig}
+            creditPolicy={creditSettings.creditPolicy}
+            creditSaving={creditSettings.saving}
+            onCreditPolicyChange={creditSettings.updateCreditPolicy}
+            masteryModel={masteryModel}
+            onMasteryModelChange={setMasteryModel}
+            topics={groupingHook.topics}
+            subtopics={groupingHook.subtopics}
+            skillToSubtopic={groupingHook.skillSubtopicMap}
+            onCreateTopic={handleCreateTopic}
+            onDeleteTopic={handleDeleteTopic}
+            onDeleteSubtopic={handleDeleteSubtopic}
+            onAssignSubtopicToTopic={handleAssignSubtopicToTopic}
           />
         )}
       </div>
@@ -602,6 +1015,7 @@ export function KnowledgeGraphApp() {
           masteryMode={masteryMode}
           studentMastery={selectedStudentId ? studentMasteryHook.mastery.get(selectedNode.id) : undefined}
           studentName={selectedStudentName}
+          className={selectedClassName}
           onDeleteNode={isEditMode && currentGraphId ? handleDeleteNode : undefined}
           onAddEdge={isEditMode && currentGraphId ? handleAddEdge : undefined}
           onRemoveEdge={isEditMode && currentGraphId ? handleRemoveEdge : undefined}
@@ -633,6 +1047,31 @@ export function KnowledgeGraphApp() {
         onAdd={handleAddNode}
         existingIds={graph.globalNodes.map(n => n.id)}
       />
+
+      {/* Lowest-confidence edges and mappings */}
+      {currentGraphId && (
+        <ConfidenceTriagePanel
+          open={showTriage}
+          onOpenChange={setShowTriage}
+          graph={graph}
+          skillNames={skillNames}
+          threshold={confidenceThreshold}
+          onThresholdChange={setConfidenceThreshold}
+          onConfirmEdge={handleConfirmEdge}
+          onRemoveEdge={handleRemoveEdge}
+          onConfirmMapping={(question, skillId) => handleQuestionSkill(question, skillId, 'confirm')}
+          onRemoveMapping={(question, skillId) => handleQuestionSkill(question, skillId, 'remove')}
+          onSkillSelect={(id) => { setShowTriage(false); setSelectedNodeId(id); setSelectedSuperNodeId(null); }}
+        />
+      )}
+
+      {/* Review of generated skills, merges and edges */}
+      <GenerationReviewDialog
+        review={review}
+        onApply={applyReview}
+        onDiscard={discardReview}
+        onDefer={deferReview}
+      />
     </div>
   );
 }
@@ -6,10 +6,21 @@ import { ZoomControls } from './ZoomControls';
 import { LassoSelector } from './LassoSelector';
 import { GroupingToolbar } from './GroupingToolbar';
 import { SuperNodeComponent } from './SuperNode';
+import { LivePreviewOverlay } from './LivePreviewOverlay';
+import { LevelBand } from './LevelBand';
+import { LegendSvg } from './LegendSvg';
+import { ImageExportControls } from './ImageExportControls';
 import type { SkillSubtopic } from '@/types/grouping';
 import type { KPMastery } from '@/types/mastery';
+import type { PropagatedMastery } from '@/lib/mastery/propagateMastery';
 import type { ViewMode } from './ViewModeToggle';
 import type { GroupedGraphData, SuperNode } from '@/lib/graph/groupedView';
+import { isLowConfidence, LOW_CONFIDENCE_THRESHOLD } from '@/lib/graph/confidence';
+import { LEGEND_LAYOUT, legendLayout, legendSections } from '@/lib/graph/legend';
+import { exportCanvasImage, IMAGE_EXPORT_FORMATS, type ImageExportOptions } from '@/lib/graph/imageExport';
+import { fileStem } from '@/lib/interchange';
+import { downloadFile } from '@/lib/download';
+import { toast } from '@/hooks/use-toast';
 
 interface GraphCanvasProps {
   nodes: GraphNode[];
@@ -27,10 +38,21 @@ interface GraphCanvasProps {
   skillSubtopicMap?: Map<string, string>;
   // Mastery visualization props
   studentMastery?: Map<string, KPMastery>;
+  propagatedMastery?: Map<string, PropagatedMastery>; // Measured vs inferred; overrides studentMastery
   showMasteryVisuals?: boolean;
+  frontierNodeIds?: Set<string>;  // Learning-path frontier to highlight
   // Grouped view props
   viewMode?: ViewMode;
   groupedData?: GroupedGraphData | null;
+  // Live generation preview props
+  isLivePreview?: boolean;
+  liveNodeIds?: Set<string>;      // Nodes added by the most recent batches
+  onStopLive?: () => void;
+  // Confidence rendering
+  fadeLowConfidence?: boolean;    // Fade and dash edges scored below confidenceThreshold
+  confidenceThreshold?: number;
+  // Image export
+  exportTitle?: string;           // Heading and file name of exported images
 }
 
 interface NodePosition {
@@ -63,9 +85,17 @@ export function GraphCanvas({
   subtopics = [],
   skillSubtopicMap = new Map(),
   studentMastery,
+  propagatedMastery,
   showMasteryVisuals = false,
+  frontierNodeIds,
   viewMode = 'skills',
   groupedData,
+  isLivePreview = false,
+  liveNodeIds,
+  onStopLive,
+  fadeLowConfidence = false,
+  confidenceThreshold = LOW_CONFIDENCE_THRESHOLD,
+  exportTitle,
 }: GraphCanvasProps) {
   const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
   const [transform, setTransform] = useState<Transform>({ x: 0, y: 0, scale: 1 });
@@ -185,7 +215,35 @@ export function GraphCanvas({
     return positions;
   }, [levelGroups, levels]);
 
-  // Removed level bands - no longer displaying levels
+  // Level bands and the legend are only drawn into exported images
+  const legend = useMemo(() => {
+    const shown = new Set(nodes.map(n => skillSubtopicMap.get(n.id)));
+    const sections = legendSections({
+      showMastery: showMasteryVisuals,
+      subtopics: viewMode === 'skills' ? subtopics.filter(st => shown.has(st.id)) : [],
+    });
+    return { sections, height: legendLayout(sections).height };
+  }, [nodes, skillSubtopicMap, showMasteryVisuals, viewMode, subtopics]);
+
+  const handleExportImage = useCallback(async (options: Omit<ImageExportOptions, 'title'>) => {
+    if (!svgRef.current) return;
+    try {
+      const blob = await exportCanvasImage(
+        svgRef.current,
+        { width: canvasWidth, height: canvasHeight, legendWidth: LEGEND_LAYOUT.width, legendHeight: legend.height },
+        { ...options, title: exportTitle }
+      );
+      const { extension, mimeType } = IMAGE_EXPORT_FORMATS[options.format];
+      downloadFile(blob, `${fileStem(exportTitle || '')}.${extension}`, mimeType);
+    } catch (error) {
+      console.error('Error exporting image:', error);
+      toast({
+        title: 'Failed to export image',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    }
+  }, [canvasWidth, canvasHeight, legend.height, exportTitle]);
 
   // Determine which edges should be highlighted
   const highlightedEdges = useMemo(() => {
@@ -448,8 +506,22 @@ export function GraphCanvas({
         onMouseMove={handleMouseMove}
       >
         <g
+          data-export-content
           transform={`translate(${transform.x}, ${transform.y}) scale(${transform.scale})`}
         >
+          <g data-export-layer="level-bands" display="none">
+            {levels.map((level, levelIndex) => (
+              <LevelBand
+                key={level}
+                level={level}
+                y={TOP_MARGIN + levelIndex * LEVEL_HEIGHT}
+                height={LEVEL_HEIGHT}
+                nodeCount={levelGroups[level]?.length || 0}
+                width={canvasWidth}
+              />
+            ))}
+          </g>
+
           {/* Edges */}
           <g className="edges">
             {edges.map((edge) => {
@@ -471,6 +543,7 @@ export function GraphCanvas({
                   isHighlighted={isHighlighted}
                   isHovered={isConnectedToHovered}
                   reason={edge.reason}
+                  isUncertain={fadeLowConfidence && isLowConfidence(edge.confidence, confidenceThreshold)}
                 />
               );
             })}
@@ -501,8 +574,13 @@ export function GraphCanvas({
 
               // Get mastery data for this node if in mastery mode
               const nodeMastery = showMasteryVisuals && studentMastery ? studentMastery.get(node.id) : undefined;
-              const masteryData = nodeMastery ? {
-                mastery: nodeMastery.rawMastery ?? 0,
+              const nodePropagated = showMasteryVisuals ? propagatedMastery?.get(node.id) : undefined;
+              const masteryData = nodePropagated ? {
+                mastery: nodePropagated.measured ?? nodePropagated.inferred ?? 0,
+                source: nodePropagated.source,
+                cap: nodePropagated.cap,
+              } : nodeMastery ? {
+                mastery: nodeMastery.effectiveMastery ?? nodeMastery.rawMastery ?? 0,
               } : undefined;
 
               return (
@@ -522,6 +600,8 @@ export function GraphCanvas({
                   subtopicColor={getSubtopicColor(node.id)}
                   masteryData={masteryData}
                   showMasteryIndicator={showMasteryVisuals}
+                  isFrontier={frontierNodeIds?.has(node.id)}
+                  isNew={isLivePreview && liveNodeIds?.has(node.id)}
                 />
               );
             })}
@@ -532,10 +612,17 @@ export function GraphCanvas({
             <LassoSelector rect={lassoRect} />
           )}
         </g>
+
+        <g data-export-layer="legend" display="none">
+          <LegendSvg sections={legend.sections} />
+        </g>
       </svg>
 
-      {/* Zoom Controls */}
-      <div className="absolute bottom-4 right-4 z-10">
+      {/* Zoom and export controls */}
+      <div className="absolute bottom-4 right-4 z-10 flex flex-col items-end gap-2">
+        <div className="panel-glass p-1.5">
+          <ImageExportControls onExport={handleExportImage} />
+        </div>
         <ZoomControls
           scale={transform.scale}
           onZoomIn={handleZoomIn}
@@ -545,6 +632,15 @@ export function GraphCanvas({
         />
       </div>
 
+      {isLivePreview && (
+        <LivePreviewOverlay
+          nodeCount={nodes.length}
+          edgeCount={edges.length}
+          newNodeCount={liveNodeIds?.size || 0}
+          onStop={onStopLive}
+        />
+      )}
+
       {/* Grouping Toolbar (edit mode) */}
       {isEditMode && onCreateSubtopic && (
         <GroupingToolbar
@@ -6,6 +6,7 @@ interface GraphEdgeComponentProps {
   isHighlighted: boolean;
   isHovered: boolean;
   reason: string;
+  isUncertain?: boolean;   // Low model confidence: drawn faint and dashed
 }
 
 export function GraphEdgeComponent({
@@ -15,6 +16,7 @@ export function GraphEdgeComponent({
   toY,
   isHighlighted,
   isHovered,
+  isUncertain = false,
 }: GraphEdgeComponentProps) {
   // Calculate control points for a curved path
   const midX = (fromX + toX) / 2;
@@ -43,7 +45,7 @@ export function GraphEdgeComponent({
     : 'hsl(220, 15%, 70%)';
 
   const strokeWidth = isHighlighted ? 3.5 : isHovered ? 2.5 : 1.5;
-  const opacity = isHighlighted ? 1 : isHovered ? 0.7 : 0.35;
+  const opacity = isHighlighted ? 1 : isHovered ? 0.7 : isUncertain ? 0.12 : 0.35;
 
   // Arrow marker
   const arrowSize = 8;
@@ -60,6 +62,7 @@ export function GraphEdgeComponent({
         fill="none"
         stroke={strokeColor}
         strokeWidth={strokeWidth}
+        strokeDasharray={isUncertain ? '4 4' : undefined}
         className={isHighlighted ? 'animate-draw' : ''}
       />
 
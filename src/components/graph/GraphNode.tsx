@@ -1,9 +1,12 @@
 import { GraphNode, NodeType, NODE_TYPE_COLORS, LE } from '@/types/graph';
 import { cn } from '@/lib/utils';
 import { Check } from 'lucide-react';
+import type { MasterySource } from '@/lib/mastery/propagateMastery';
 
 interface MasteryData {
   mastery: number;
+  source?: MasterySource;       // 'inferred' = no direct evidence, drawn dashed; 'none' = nothing known
+  cap?: number | null;          // Upper bound from failing prerequisites
 }
 
 interface GraphNodeComponentProps {
@@ -21,6 +24,8 @@ interface GraphNodeComponentProps {
   subtopicColor?: string | null;
   masteryData?: MasteryData;
   showMasteryIndicator?: boolean;
+  isFrontier?: boolean;         // Recommended next on the student's learning path
+  isNew?: boolean;              // Just added by a generation batch (live preview)
 }
 
 const DEFAULT_LE_MINUTES = 20;
@@ -58,17 +63,25 @@ export function GraphNodeComponent({
   subtopicColor = null,
   masteryData,
   showMasteryIndicator = false,
+  isFrontier = false,
+  isNew = false,
 }: GraphNodeComponentProps) {
   const nodeRadius = getNodeRadius(node.le);
   const nodeColor = NODE_TYPE_COLORS[nodeType];
 
+  // Skills with no measured or inferred value keep their normal look
+  const hasEstimate = showMasteryIndicator && !!masteryData && masteryData.source !== 'none';
+  const isInferred = hasEstimate && masteryData.source === 'inferred';
+  const isCapped = showMasteryIndicator && masteryData?.cap != null
+    && (masteryData.source === 'none' || masteryData.cap < masteryData.mastery);
+
   const getMasteryOpacity = () => {
-    if (!showMasteryIndicator || !masteryData) return 1;
+    if (!hasEstimate) return 1;
     return 0.3 + masteryData.mastery * 0.7;
   };
 
   const getMasteryBorderColor = () => {
-    if (!showMasteryIndicator || !masteryData) return null;
+    if (!hasEstimate) return null;
     const mastery = masteryData.mastery;
     if (mastery >= 0.8) return 'hsl(142, 76%, 36%)';
     if (mastery >= 0.6) return null;
@@ -77,7 +90,7 @@ export function GraphNodeComponent({
   };
 
   const getOpacity = () => {
-    if (showMasteryIndicator && masteryData) return getMasteryOpacity();
+    if (hasEstimate) return getMasteryOpacity();
     return state === 'dimmed' ? 0.3 : 1;
   };
 
@@ -152,6 +165,14 @@ export function GraphNodeComponent({
         </>
       )}
 
+      {isFrontier && (
+        <circle cx={0} cy={0} r={nodeRadius + 10} fill="none" stroke="hsl(199, 89%, 48%)" strokeWidth={2.5} strokeDasharray="6 4" opacity={0.8} className="animate-pulse-soft" />
+      )}
+
+      {isNew && (
+        <circle cx={0} cy={0} r={nodeRadius + 6} fill="none" stroke="hsl(142, 71%, 45%)" strokeWidth={2.5} opacity={0.8} className="animate-pulse-soft" />
+      )}
+
       {state === 'connected' && (
         <circle cx={0} cy={0} r={nodeRadius + 5} fill="none" stroke="hsl(199, 89%, 48%)" strokeWidth={1.5} strokeDasharray="4 3" opacity={0.6} />
       )}
@@ -168,6 +189,7 @@ export function GraphNodeComponent({
         fill={`url(#gradient-${node.id})`}
         stroke={state === 'default' ? (getMasteryBorderColor() || nodeColor) : getStrokeColor()}
         strokeWidth={getStrokeWidth()}
+        strokeDasharray={isInferred && state === 'default' ? '5 3' : undefined}
         className="transition-all duration-200"
         filter="drop-shadow(0 2px 4px rgba(0,0,0,0.1))"
       />
@@ -199,26 +221,42 @@ export function GraphNodeComponent({
         </foreignObject>
       )}
 
-      {/* Mastery percentage badge */}
-      {showMasteryIndicator && masteryData && (
+      {/* Mastery percentage badge (inferred values are prefixed with ~ and dashed) */}
+      {hasEstimate && (
         <foreignObject x={-24} y={nodeRadius + 36} width={48} height={20}>
-          <div className={cn(
-            "flex items-center justify-center h-5 rounded text-[10px] font-bold shadow-sm",
-            masteryData.mastery >= 0.8 
-              ? "bg-green-100 text-green-700"
-              : masteryData.mastery >= 0.6 
-                ? "bg-yellow-100 text-yellow-700"
-                : masteryData.mastery >= 0.4
-                  ? "bg-orange-100 text-orange-700"
-                  : "bg-red-100 text-red-700"
-          )}>
-            {Math.round(masteryData.mastery * 100)}%
+          <div
+            className={cn(
+              "flex items-center justify-center h-5 rounded text-[10px] font-bold shadow-sm",
+              isInferred && "border border-dashed border-current italic",
+              masteryData.mastery >= 0.8 
+                ? "bg-green-100 text-green-700"
+                : masteryData.mastery >= 0.6 
+                  ? "bg-yellow-100 text-yellow-700"
+                  : masteryData.mastery >= 0.4
+                    ? "bg-orange-100 text-orange-700"
+                    : "bg-red-100 text-red-700"
+            )}
+            title={isInferred ? 'Inferred from mastered dependent skills (no direct evidence)' : 'Measured from attempts'}
+          >
+            {isInferred && '~'}{Math.round(masteryData.mastery * 100)}%
+          </div>
+        </foreignObject>
+      )}
+
+      {/* Cap from a failing prerequisite */}
+      {isCapped && (
+        <foreignObject x={hasEstimate ? 26 : -24} y={nodeRadius + 36} width={48} height={20}>
+          <div
+            className="flex items-center justify-center h-5 rounded border border-dashed border-red-300 bg-red-50 text-[10px] font-semibold text-red-600"
+            title="Capped by a prerequisite the student keeps failing"
+          >
+            ≤{Math.round(masteryData!.cap! * 100)}%
           </div>
         </foreignObject>
       )}
 
       {/* Mastered KP glow (90%+) */}
-      {showMasteryIndicator && masteryData && masteryData.mastery >= 0.9 && (
+      {hasEstimate && !isInferred && masteryData.mastery >= 0.9 && (
         <circle cx={0} cy={0} r={nodeRadius + 6} fill="none" stroke="hsl(142, 76%, 36%)" strokeWidth={2} opacity={0.4} className="animate-pulse-soft" />
       )}
     </g>
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { ImageDown, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  EXPORT_DPI_OPTIONS,
+  IMAGE_EXPORT_FORMATS,
+  type ImageExportFormat,
+  type ImageExportOptions,
+} from '@/lib/graph/imageExport';
+import { PDF_PAGE_SIZES, type PdfPageSize } from '@/lib/graph/pdf';
+
+interface ImageExportControlsProps {
+  onExport: (options: Omit<ImageExportOptions, 'title'>) => Promise<void>;
+}
+
+export function ImageExportControls({ onExport }: ImageExportControlsProps) {
+  const [format, setFormat] = useState<ImageExportFormat>('png');
+  const [dpi, setDpi] = useState(150);
+  const [pageSize, setPageSize] = useState<PdfPageSize>('a4');
+  const [pdfLayout, setPdfLayout] = useState<ImageExportOptions['pdfLayout']>('tile');
+  const [includeLevelBands, setIncludeLevelBands] = useState(true);
+  const [includeLegend, setIncludeLegend] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport({ format, dpi, pageSize, pdfLayout, includeLevelBands, includeLegend });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title="Export image">
+          <ImageDown className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="left" align="end" className="w-72 space-y-3">
+        <div>
+          <h4 className="font-semibold text-sm">Export Image</h4>
+          <p className="text-xs text-muted-foreground">
+            The whole graph as currently shown, including mastery colors for the selected student.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-[80px_1fr] items-center gap-2">
+          <Label className="text-xs">Format</Label>
+          <Select value={format} onValueChange={(v) => setFormat(v as ImageExportFormat)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(IMAGE_EXPORT_FORMATS) as ImageExportFormat[]).map(f => (
+                <SelectItem key={f} value={f} className="text-xs">{IMAGE_EXPORT_FORMATS[f].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {format !== 'svg' && (
+            <>
+              <Label className="text-xs">Resolution</Label>
+              <Select value={String(dpi)} onValueChange={(v) => setDpi(Number(v))}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_DPI_OPTIONS.map(d => (
+                    <SelectItem key={d} value={String(d)} className="text-xs">{d} DPI</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+
+          {format === 'pdf' && (
+            <>
+              <Label className="text-xs">Paper</Label>
+              <Select value={pageSize} onValueChange={(v) => setPageSize(v as PdfPageSize)}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PDF_PAGE_SIZES) as PdfPageSize[]).map(size => (
+                    <SelectItem key={size} value={size} className="text-xs">{PDF_PAGE_SIZES[size].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Label className="text-xs">Pages</Label>
+              <Select value={pdfLayout} onValueChange={(v) => setPdfLayout(v as ImageExportOptions['pdfLayout'])}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="tile" className="text-xs">Actual size, across pages</SelectItem>
+                  <SelectItem value="fit" className="text-xs">Fit on one page</SelectItem>
+                </SelectContent>
+              </Select>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="export-level-bands" className="text-xs font-normal">Level bands</Label>
+            <Switch id="export-level-bands" checked={includeLevelBands} onCheckedChange={setIncludeLevelBands} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="export-legend" className="text-xs font-normal">Legend</Label>
+            <Switch id="export-legend" checked={includeLegend} onCheckedChange={setIncludeLegend} />
+          </div>
+        </div>
+
+        <Button size="sm" className="w-full gap-2" onClick={handleExport} disabled={isExporting}>
+          {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImageDown className="h-4 w-4" />}
+          {isExporting ? 'Exporting...' : `Export ${format.toUpperCase()}`}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,49 @@
+import { LEGEND_LAYOUT, legendLayout, type LegendSection, type LegendSwatch } from '@/lib/graph/legend';
+
+interface LegendSvgProps {
+  sections: LegendSection[];
+}
+
+function Swatch({ swatch }: { swatch: LegendSwatch }) {
+  switch (swatch.kind) {
+    case 'dot':
+      return <circle cx={8} cy={0} r={6} fill={swatch.color} />;
+    case 'ring':
+      return <circle cx={8} cy={0} r={6} fill="#ffffff" stroke={swatch.color} strokeWidth={swatch.width ?? 2} strokeDasharray={swatch.dash} />;
+    case 'line':
+      return <line x1={0} y1={0} x2={18} y2={0} stroke={swatch.color} strokeWidth={swatch.width} />;
+    case 'badge':
+      return (
+        <g>
+          <circle cx={8} cy={0} r={7} fill="hsl(210, 40%, 96%)" stroke="hsl(214, 32%, 75%)" strokeDasharray="2 2" />
+          <text x={8} y={0} fontSize={6} fontWeight={600} textAnchor="middle" dominantBaseline="central" fill="hsl(215, 16%, 47%)">
+            {swatch.text}
+          </text>
+        </g>
+      );
+  }
+}
+
+// The LegendPanel content as SVG, drawn next to the graph in image exports
+export function LegendSvg({ sections }: LegendSvgProps) {
+  const { width, padding, headerHeight, rowHeight } = LEGEND_LAYOUT;
+  const { tops, height } = legendLayout(sections);
+
+  return (
+    <g className="font-sans">
+      <rect x={8} y={8} width={width - 16} height={height - 16} rx={8} fill="#ffffff" stroke="hsl(214, 32%, 91%)" />
+      <text x={padding + 4} y={padding + 14} fontSize={13} fontWeight={600} fill="hsl(222, 47%, 11%)">Graph Legend</text>
+      {sections.map((section, i) => (
+        <g key={section.title} transform={`translate(${padding + 4}, ${tops[i]})`}>
+          <text y={12} fontSize={10} fill="hsl(215, 16%, 47%)">{section.title}</text>
+          {section.rows.map((row, r) => (
+            <g key={row.key} transform={`translate(0, ${headerHeight + r * rowHeight + rowHeight / 2})`}>
+              <Swatch swatch={row.swatch} />
+              <text x={26} y={0} fontSize={10} dominantBaseline="central" fill="hsl(222, 47%, 11%)">{row.label}</text>
+            </g>
+          ))}
+        </g>
+      ))}
+    </g>
+  );
+}
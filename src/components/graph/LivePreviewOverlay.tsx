@@ -0,0 +1,49 @@
+// Floating banner shown while a generation job is merging batches into the canvas
+
+import { Radio, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+
+interface LivePreviewOverlayProps {
+  nodeCount: number;
+  edgeCount: number;
+  newNodeCount: number;
+  onStop?: () => void;
+}
+
+export function LivePreviewOverlay({
+  nodeCount,
+  edgeCount,
+  newNodeCount,
+  onStop,
+}: LivePreviewOverlayProps) {
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 animate-fade-in">
+      <div className="flex items-center gap-2 px-4 py-2 rounded-lg bg-card border border-border shadow-lg">
+        <Badge variant="secondary" className="gap-1">
+          <Radio className="h-3 w-3 text-primary animate-pulse" />
+          Live preview
+        </Badge>
+        <span className="text-xs text-muted-foreground">
+          {nodeCount} KPs · {edgeCount} edges
+          {newNodeCount > 0 && ` · +${newNodeCount} from latest batch`}
+        </span>
+
+        {onStop && (
+          <>
+            <div className="w-px h-5 bg-border" />
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={onStop}
+              className="gap-1.5 text-destructive hover:text-destructive"
+            >
+              <Square className="h-3 w-3" />
+              Stop
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
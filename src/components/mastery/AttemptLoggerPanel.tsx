@@ -1,4 +1,4 @@
-// Manual attempt logger panel with binary scoring + granular independence
+// Manual attempt logger panel with binary or rubric scoring + granular independence
 
 import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
@@ -17,8 +17,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { ClipboardCheck } from 'lucide-react';
-import { calculateIndependenceScore } from '@/lib/mastery/constants';
-import type { QuestionWithWeights } from '@/types/mastery';
+import {
+  CODING_RUBRIC_DIMENSIONS,
+  CODING_RUBRIC_TOTAL,
+  calculateIndependenceScore,
+} from '@/lib/mastery/constants';
+import { getRubricSolutionScore, normalizeRubricMarks } from '@/lib/mastery/rubricScoring';
+import type { QuestionWithWeights, RubricMarks } from '@/types/mastery';
 
 interface AttemptLoggerPanelProps {
   graphId: string;
@@ -42,6 +47,8 @@ export function AttemptLoggerPanel({
   const [solutionViewed, setSolutionViewed] = useState(false);
   const [aiTutorCount, setAiTutorCount] = useState(0);
   const [totalSubmissions, setTotalSubmissions] = useState(1);
+  const [useRubric, setUseRubric] = useState(false);
+  const [rubricMarks, setRubricMarks] = useState<RubricMarks>({});
   const [loading, setLoading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
 
@@ -50,6 +57,13 @@ export function AttemptLoggerPanel({
     [solutionViewed, aiTutorCount, totalSubmissions]
   );
 
+  // Partial credit from the coding rubric (null when not scoring with it)
+  const scoredRubric = useMemo(
+    () => (useRubric ? normalizeRubricMarks(rubricMarks) : null),
+    [useRubric, rubricMarks]
+  );
+  const solutionScore = scoredRubric ? getRubricSolutionScore(scoredRubric) : isCorrect ? 1.0 : 0.0;
+
   // Derive independence level label
   const independenceLabel = useMemo(() => {
     if (solutionViewed) return 'Solution-Driven';
@@ -109,7 +123,8 @@ export function AttemptLoggerPanel({
         student_id: studentId,
         question_id: selectedQuestionId,
         is_correct: isCorrect,
-        solution_score: isCorrect ? 1.0 : 0.0,
+        solution_score: solutionScore,
+        rubric_marks: scoredRubric,
         independence_level: independenceLevel,
         solution_viewed: solutionViewed,
         ai_tutor_count: aiTutorCount,
@@ -122,7 +137,7 @@ export function AttemptLoggerPanel({
 
       toast({
         title: 'Attempt recorded',
-        description: `${isCorrect ? '✓ Correct' : '✗ Incorrect'} • Independence: ${independenceScore.toFixed(1)} (${independenceLabel})`,
+        description: `${isCorrect ? '✓ Correct' : '✗ Incorrect'}${scoredRubric ? ` • Rubric: ${Math.round(solutionScore * 100)}%` : ''} • Independence: ${independenceScore.toFixed(1)} (${independenceLabel})`,
       });
 
       // Reset form
@@ -131,6 +146,7 @@ export function AttemptLoggerPanel({
       setSolutionViewed(false);
       setAiTutorCount(0);
       setTotalSubmissions(1);
+      setRubricMarks({});
 
       onAttemptRecorded?.();
     } catch (err) {
@@ -183,6 +199,50 @@ export function AttemptLoggerPanel({
           <Switch id="is-correct" checked={isCorrect} onCheckedChange={setIsCorrect} />
         </div>
 
+        {/* Rubric Scoring (partial credit) */}
+        <div className="space-y-3 border rounded-lg p-3">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="use-rubric" className="text-sm font-semibold">Score with Coding Rubric</Label>
+            <Switch id="use-rubric" checked={useRubric} onCheckedChange={setUseRubric} />
+          </div>
+
+          {useRubric && (
+            <>
+              {CODING_RUBRIC_DIMENSIONS.map(dimension => (
+                <div key={dimension.key} className="flex items-center justify-between gap-2">
+                  <Label className="text-xs font-normal">
+                    {dimension.name} <span className="text-muted-foreground">/{dimension.maxMarks}</span>
+                  </Label>
+                  <Select
+                    value={rubricMarks[dimension.key] !== undefined ? String(rubricMarks[dimension.key]) : ''}
+                    onValueChange={value => setRubricMarks(prev => ({ ...prev, [dimension.key]: Number(value) }))}
+                  >
+                    <SelectTrigger className="h-7 w-40 text-xs">
+                      <SelectValue placeholder="Not scored" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {dimension.levels.map(level => (
+                        <SelectItem key={level.label} value={String(level.marks)} className="text-xs">
+                          {level.label} ({level.marks})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+
+              <div className="flex items-center justify-between bg-muted/50 rounded-md px-3 py-2">
+                <span className="text-sm font-medium">Solution Score</span>
+                <span className="text-sm font-bold">
+                  {scoredRubric
+                    ? `${(solutionScore * CODING_RUBRIC_TOTAL).toFixed(1)} / ${CODING_RUBRIC_TOTAL}`
+                    : 'Not scored'}
+                </span>
+              </div>
+            </>
+          )}
+        </div>
+
         {/* Independence Inputs */}
         <div className="space-y-3 border rounded-lg p-3">
           <Label className="text-sm font-semibold">Independence Factors</Label>
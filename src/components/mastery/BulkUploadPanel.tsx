@@ -8,12 +8,21 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { Upload, FileText, AlertCircle, CheckCircle2 } from 'lucide-react';
-import { calculateAndPersistMastery, buildQuestionsMap } from '@/lib/mastery/persistMastery';
-import type { BulkUploadRow, BulkUploadValidation, IndependenceLevel, StudentAttempt } from '@/types/mastery';
+import { rebuildMastery, getAttemptKey, loadLoggedAttemptKeys } from '@/lib/mastery/rebuildMastery';
+import {
+  CODING_RUBRIC_DIMENSIONS,
+  DEFAULT_DECAY_CONFIG,
+  type CreditPolicy,
+  type DecayConfig,
+} from '@/lib/mastery/constants';
+import { getRubricSolutionScore, parseRubricMark } from '@/lib/mastery/rubricScoring';
+import type { BulkUploadRow, BulkUploadValidation, IndependenceLevel, RubricMarks } from '@/types/mastery';
 
 interface BulkUploadPanelProps {
   graphId: string;
   classId?: string;
+  decayConfig?: DecayConfig;
+  creditPolicy?: CreditPolicy;
   onUploadComplete?: () => void;
 }
 
@@ -25,6 +34,33 @@ const EXPECTED_COLUMNS = [
   'attempted_at',
 ];
 
+// Optional partial-credit columns, one per rubric dimension (marks or level label)
+const RUBRIC_COLUMNS = CODING_RUBRIC_DIMENSIONS.map(d => ({ dimension: d, column: `rubric_${d.key}` }));
+
+// --- Read optional rubric columns; records an error for invalid cells ---
+function parseRubricCells(
+  header: string[],
+  row: string[],
+  rowNumber: number,
+  result: BulkUploadValidation
+): RubricMarks | null | undefined {
+  const marks: RubricMarks = {};
+  for (const { dimension, column } of RUBRIC_COLUMNS) {
+    const idx = header.indexOf(column);
+    const cell = idx >= 0 ? row[idx]?.trim() : '';
+    if (!cell) continue;
+
+    const value = parseRubricMark(dimension, cell);
+    if (value === null) {
+      result.errors.push({ row: rowNumber, field: column, message: `Invalid ${dimension.name} mark: ${cell}` });
+      result.valid = false;
+      return undefined;
+    }
+    marks[dimension.key] = value;
+  }
+  return Object.keys(marks).length > 0 ? marks : null;
+}
+
 // --- Robust CSV parser that handles multiline quoted fields ---
 function parseCSVRobust(text: string): string[][] {
   const rows: string[][] = [];
@@ -156,6 +192,8 @@ function parseCustomFormat(
 
     // Binary scoring: only CORRECT = true
     const isCorrect = bestScore === 'CORRECT';
+    const rubricMarks = parseRubricCells(header, row, i + 1, result);
+    if (rubricMarks === undefined) continue;
 
     // Match question to DB using lenient contains-based approach
     const normalizedContent = normalizeForMatch(questionContent);
@@ -228,9 +266,10 @@ function parseCustomFormat(
       studentName: studentName || `Student ${userId.substring(0, 6)}`,
       questionText: questionContent,
       isCorrect,
-      solutionScore: isCorrect ? 1.0 : 0.0,
+      solutionScore: rubricMarks ? getRubricSolutionScore(rubricMarks) : isCorrect ? 1.0 : 0.0,
       independenceLevel: 'independent' as IndependenceLevel,
       attemptedAt,
+      rubricMarks,
     });
   }
 
@@ -282,7 +321,6 @@ function parseStandardFormat(
 
     const independenceLevel: IndependenceLevel = 'independent';
     const isCorrect = isCorrectStr === 'true' || isCorrectStr === '1' || isCorrectStr === 'yes';
-    const solutionScore = isCorrect ? 1.0 : 0.0;
 
     if (!studentId) { result.errors.push({ row: i + 1, field: 'student_id', message: 'Student ID is required' }); result.valid = false; continue; }
     if (!studentName) { result.errors.push({ row: i + 1, field: 'student_name', message: 'Student name is required' }); result.valid = false; continue; }
@@ -315,7 +353,11 @@ function parseStandardFormat(
       continue;
     }
 
-    result.rows.push({ studentId, studentName, questionText, isCorrect, solutionScore, independenceLevel, attemptedAt });
+    const rubricMarks = parseRubricCells(header, row, i + 1, result);
+    if (rubricMarks === undefined) continue;
+    const solutionScore = rubricMarks ? getRubricSolutionScore(rubricMarks) : isCorrect ? 1.0 : 0.0;
+
+    result.rows.push({ studentId, studentName, questionText, isCorrect, solutionScore, independenceLevel, attemptedAt, rubricMarks });
   }
 
   return result;
@@ -324,6 +366,8 @@ function parseStandardFormat(
 export function BulkUploadPanel({
   graphId,
   classId,
+  decayConfig = DEFAULT_DECAY_CONFIG,
+  creditPolicy,
   onUploadComplete,
 }: BulkUploadPanelProps) {
   const { toast } = useToast();
@@ -394,7 +438,7 @@ export function BulkUploadPanel({
 
     setUploading(true);
     try {
-      // Load questions with skill mappings for mastery calculation
+      // Load questions for matching rows by text
       const { data: questionsData } = await supabase
         .from('questions')
         .select('id, graph_id, question_text, skills, primary_skills, skill_weights')
@@ -438,6 +482,7 @@ export function BulkUploadPanel({
           question_id: qId,
           is_correct: row.isCorrect,
           solution_score: row.solutionScore,
+          rubric_marks: row.rubricMarks ?? null,
           independence_level: row.independenceLevel,
           independence_score: 1.0,
           attempted_at: row.attemptedAt.toISOString(),
@@ -449,8 +494,25 @@ export function BulkUploadPanel({
         return;
       }
 
-      const { error } = await supabase.from('student_attempts').insert(attempts);
-      if (error) throw error;
+      // Skip rows already in the attempt log so re-uploading a file is a no-op
+      const studentIds = [...new Set(attempts.map(a => a.student_id as string))];
+      const loggedKeys = await loadLoggedAttemptKeys(graphId, studentIds);
+      const newAttempts = attempts.filter(a => {
+        const key = getAttemptKey({
+          studentId: a.student_id,
+          questionId: a.question_id,
+          attemptedAt: new Date(a.attempted_at),
+          isCorrect: a.is_correct,
+        });
+        if (loggedKeys.has(key)) return false;
+        loggedKeys.add(key);
+        return true;
+      });
+
+      if (newAttempts.length > 0) {
+        const { error } = await supabase.from('student_attempts').insert(newAttempts);
+        if (error) throw error;
+      }
 
       // Auto-enroll students in class
       if (classId) {
@@ -467,40 +529,13 @@ export function BulkUploadPanel({
         }
       }
 
-      // Calculate and persist mastery for each student
-      if (dbQuestions.length > 0) {
-        const questionsMap = buildQuestionsMap(dbQuestions);
-        const attemptsByStudent = new Map<string, StudentAttempt[]>();
-
-        for (const row of validation.rows) {
-          const questionId = matchQuestion(row.questionText);
-          if (!questionId) continue;
-
-          const attempt: StudentAttempt = {
-            id: crypto.randomUUID(),
-            graphId,
-            classId: classId || undefined,
-            studentId: row.studentId,
-            questionId,
-            isCorrect: row.isCorrect,
-            solutionScore: row.solutionScore,
-            independenceLevel: row.independenceLevel,
-            attemptedAt: row.attemptedAt,
-          };
-
-          const existing = attemptsByStudent.get(row.studentId) || [];
-          existing.push(attempt);
-          attemptsByStudent.set(row.studentId, existing);
-        }
-
-        for (const [sid, studentAttempts] of attemptsByStudent) {
-          await calculateAndPersistMastery(graphId, sid, studentAttempts, questionsMap);
-        }
-      }
+      // Rebuild mastery for each uploaded student from the full attempt log
+      const report = await rebuildMastery(graphId, { studentIds }, { decayConfig, creditPolicy });
+      const skipped = attempts.length - newAttempts.length;
 
       toast({
         title: 'Upload complete',
-        description: `Imported ${attempts.length} attempts and calculated mastery`,
+        description: `Imported ${newAttempts.length} attempts${skipped > 0 ? ` (${skipped} already logged)` : ''}, ${report.changes.length} mastery records changed`,
       });
 
       setValidation(null);
@@ -560,6 +595,9 @@ export function BulkUploadPanel({
           <p className="text-xs text-muted-foreground mt-2">
             Supports standard format and NxtWave platform exports
           </p>
+          <p className="text-[10px] text-muted-foreground mt-1">
+            Optional rubric columns: {RUBRIC_COLUMNS.map(c => c.column).join(', ')}
+          </p>
         </div>
 
         {/* Format Detection */}
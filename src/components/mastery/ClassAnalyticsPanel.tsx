@@ -12,12 +12,19 @@ import {
   UserX
 } from 'lucide-react';
 import type { ClassAnalytics, StudentMasterySummary } from '@/types/mastery';
+import type { MasteryModelId } from '@/lib/mastery/masteryModel';
+import { MasteryModelToggle } from './MasteryModelToggle';
 
 interface ClassAnalyticsPanelProps {
   analytics: ClassAnalytics | null;
   studentSummaries: StudentMasterySummary[];
   skillNames?: Record<string, string>;
   loading?: boolean;
+  // Optional mastery model switch
+  model?: MasteryModelId;
+  onModelChange?: (model: MasteryModelId) => void;
+  onFitParams?: () => void;
+  fitting?: boolean;
 }
 
 export function ClassAnalyticsPanel({
@@ -25,6 +32,10 @@ export function ClassAnalyticsPanel({
   studentSummaries,
   skillNames = {},
   loading = false,
+  model,
+  onModelChange,
+  onFitParams,
+  fitting = false,
 }: ClassAnalyticsPanelProps) {
   const overallClassMastery = useMemo(() => {
     if (studentSummaries.length === 0) return 0;
@@ -55,6 +66,15 @@ export function ClassAnalyticsPanel({
 
   return (
     <div className="space-y-4">
+      {model && onModelChange && (
+        <MasteryModelToggle
+          model={model}
+          onModelChange={onModelChange}
+          onFitParams={onFitParams}
+          fitting={fitting}
+        />
+      )}
+
       {/* Class Summary */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
         <Card>
@@ -21,7 +21,13 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
-import { GraduationCap, Plus, Users, Trash2 } from 'lucide-react';
+import { CalendarClock, Download, GraduationCap, Plus, Users, Trash2 } from 'lucide-react';
+import { downloadFile } from '@/lib/download';
+import {
+  loadClassReviewQueues,
+  reviewQueuesToCsv,
+  reviewQueuesToJson,
+} from '@/lib/mastery/reviewScheduler';
 import type { StudentClass, ClassStudent } from '@/types/mastery';
 
 interface ClassManagerPanelProps {
@@ -44,6 +50,9 @@ export function ClassManagerPanel({
   const [newClassName, setNewClassName] = useState('');
   const [newStudentId, setNewStudentId] = useState('');
   const [newStudentName, setNewStudentName] = useState('');
+  const [reviewDate, setReviewDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [reviewFormat, setReviewFormat] = useState<'csv' | 'json'>('csv');
+  const [exportingReviews, setExportingReviews] = useState(false);
 
   // Load classes for this graph
   useEffect(() => {
@@ -225,6 +234,48 @@ export function ClassManagerPanel({
     }
   };
 
+  const handleExportReviewQueue = async () => {
+    if (!selectedClassId) return;
+
+    setExportingReviews(true);
+    try {
+      const [queues, { data: skills, error: skillsError }] = await Promise.all([
+        loadClassReviewQueues(graphId, selectedClassId, new Date(`${reviewDate}T12:00:00`)),
+        supabase.from('skills').select('skill_id, name').eq('graph_id', graphId),
+      ]);
+
+      if (skillsError) throw skillsError;
+
+      const skillNames: Record<string, string> = {};
+      (skills || []).forEach(s => { skillNames[s.skill_id] = s.name; });
+
+      const className = (classes.find(c => c.id === selectedClassId)?.name || 'class')
+        .replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+      const filename = `review-queue-${className}-${reviewDate}.${reviewFormat}`;
+
+      if (reviewFormat === 'csv') {
+        downloadFile(reviewQueuesToCsv(queues, skillNames), filename, 'text/csv');
+      } else {
+        downloadFile(reviewQueuesToJson(queues, skillNames), filename, 'application/json');
+      }
+
+      const itemCount = queues.reduce((sum, q) => sum + q.items.length, 0);
+      toast({
+        title: 'Review queue exported',
+        description: `${itemCount} review questions for ${queues.length} students`,
+      });
+    } catch (err) {
+      console.error('Error exporting review queue:', err);
+      toast({
+        title: 'Error',
+        description: 'Failed to export review queue',
+        variant: 'destructive',
+      });
+    } finally {
+      setExportingReviews(false);
+    }
+  };
+
   const selectedClass = classes.find(c => c.id === selectedClassId);
 
   return (
@@ -368,6 +419,45 @@ export function ClassManagerPanel({
             </div>
           </div>
         )}
+
+        {/* Daily spaced-review queue export */}
+        {selectedClass && (
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <CalendarClock className="h-4 w-4" />
+              Review Queue
+            </Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={reviewDate}
+                onChange={e => setReviewDate(e.target.value)}
+                className="h-9"
+              />
+              <Select value={reviewFormat} onValueChange={value => setReviewFormat(value as 'csv' | 'json')}>
+                <SelectTrigger className="h-9 w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExportReviewQueue}
+                disabled={exportingReviews || !reviewDate || students.length === 0}
+              >
+                <Download className="h-4 w-4 mr-1" />
+                {exportingReviews ? 'Exporting...' : 'Export'}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              One question per due skill, nearest to expiring first
+            </p>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,83 @@
+// Per-graph policy for how independence scales the credit of a correct answer
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Scale } from 'lucide-react';
+import { INDEPENDENCE_MULTIPLIERS, type CreditPolicy } from '@/lib/mastery/constants';
+import { getAttemptCredit } from '@/lib/mastery/calculateMastery';
+
+interface CreditPolicyPanelProps {
+  creditPolicy: CreditPolicy;
+  saving?: boolean;
+  onChange: (policy: CreditPolicy) => void;
+}
+
+// Typical attempts, to show what a correct answer is worth under the policy
+const EXAMPLES = [
+  { label: 'Independent', independenceScore: 1.0, independenceLevel: 'independent' as const },
+  { label: '2 tutor hints', independenceScore: 0.7, independenceLevel: 'lightly_scaffolded' as const },
+  { label: 'Solution viewed', independenceScore: 0.2, independenceLevel: 'solution_driven' as const },
+];
+
+export function CreditPolicyPanel({
+  creditPolicy,
+  saving = false,
+  onChange,
+}: CreditPolicyPanelProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Scale className="h-4 w-4" />
+          Mastery Credit
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          How much a correct answer counts when the student had help
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3 pt-0">
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="credit-scale-independence" className="text-xs">
+            Scale by independence score
+          </Label>
+          <Switch
+            id="credit-scale-independence"
+            checked={creditPolicy.scaleByIndependence}
+            onCheckedChange={checked => onChange({ ...creditPolicy, scaleByIndependence: checked })}
+            disabled={saving}
+          />
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <Label
+            htmlFor="credit-level-multipliers"
+            className="text-xs"
+            title={Object.entries(INDEPENDENCE_MULTIPLIERS).map(([level, m]) => `${level}: ×${m}`).join(', ')}
+          >
+            Apply independence level multipliers
+          </Label>
+          <Switch
+            id="credit-level-multipliers"
+            checked={creditPolicy.applyLevelMultipliers}
+            onCheckedChange={checked => onChange({ ...creditPolicy, applyLevelMultipliers: checked })}
+            disabled={saving}
+          />
+        </div>
+
+        <div className="rounded-md bg-muted/30 p-2 text-xs text-muted-foreground flex justify-between">
+          {EXAMPLES.map(example => (
+            <span key={example.label}>
+              {example.label}:{' '}
+              <span className="font-medium text-foreground">
+                {getAttemptCredit({ isCorrect: true, solutionScore: 1, ...example }, creditPolicy).toFixed(2)}
+              </span>
+            </span>
+          ))}
+        </div>
+        {saving && (
+          <p className="text-xs text-muted-foreground">Saving and rebuilding mastery...</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,6 +14,8 @@ import {
 } from '@/components/ui/collapsible';
 import type { SkillTopic, SkillSubtopic, AggregatedMastery } from '@/types/grouping';
 import type { KPMastery } from '@/types/mastery';
+import type { MasteryModelId } from '@/lib/mastery/masteryModel';
+import { MasteryModelToggle } from './MasteryModelToggle';
 import {
   calculateAllGroupMastery,
   formatMasteryPercent,
@@ -30,6 +32,9 @@ interface HierarchicalMasteryViewProps {
   onDeleteTopic: (topicId: string) => Promise<void>;
   onDeleteSubtopic: (subtopicId: string) => Promise<void>;
   onAssignSubtopicToTopic: (subtopicId: string, topicId: string | null) => Promise<void>;
+  // Optional mastery model switch
+  model?: MasteryModelId;
+  onModelChange?: (model: MasteryModelId) => void;
 }
 
 export function HierarchicalMasteryView({
@@ -41,6 +46,8 @@ export function HierarchicalMasteryView({
   onDeleteTopic,
   onDeleteSubtopic,
   onAssignSubtopicToTopic,
+  model,
+  onModelChange,
 }: HierarchicalMasteryViewProps) {
   const [expandedTopics, setExpandedTopics] = useState<Set<string>>(new Set());
   const [expandedSubtopics, setExpandedSubtopics] = useState<Set<string>>(new Set());
@@ -242,6 +249,10 @@ export function HierarchicalMasteryView({
 
   return (
     <div className="space-y-4">
+      {model && onModelChange && (
+        <MasteryModelToggle model={model} onModelChange={onModelChange} />
+      )}
+
       {/* Topics */}
       {topics.length > 0 && (
         <div className="space-y-2">
@@ -0,0 +1,161 @@
+// Recommended study plan for the selected student, shown beside the mastery sidebar
+
+import { useState } from 'react';
+import { ChevronDown, Clock, FileQuestion, Route } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { cn } from '@/lib/utils';
+import type { LearningPlan } from '@/lib/mastery/learningPath';
+
+interface LearningPathPanelProps {
+  plan: LearningPlan | null;
+  loading?: boolean;
+  studentName: string | null;
+  skillNames: Record<string, string>;
+  selectedNodeId?: string | null;
+  onSkillSelect: (skillId: string) => void;
+  highlightFrontier: boolean;
+  onHighlightFrontierChange: (highlight: boolean) => void;
+}
+
+const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+};
+
+export function LearningPathPanel({
+  plan,
+  loading = false,
+  studentName,
+  skillNames,
+  selectedNodeId,
+  onSkillSelect,
+  highlightFrontier,
+  onHighlightFrontierChange,
+}: LearningPathPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  return (
+    <div className="w-80 border-l border-border bg-card/50 flex flex-col overflow-hidden">
+      <Collapsible open={isOpen} onOpenChange={setIsOpen} className="flex flex-col flex-1 min-h-0">
+        <CollapsibleTrigger asChild>
+          <button className="w-full flex items-center justify-between px-4 py-3 border-b border-border hover:bg-muted/50 transition-colors shrink-0">
+            <span className="font-medium text-sm flex items-center gap-2">
+              <Route className="h-4 w-4" />
+              Learning Path
+              {plan && plan.steps.length > 0 && (
+                <Badge variant="secondary" className="text-xs">
+                  {formatMinutes(plan.totalMinutes)}
+                </Badge>
+              )}
+            </span>
+            <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? '' : '-rotate-90'}`} />
+          </button>
+        </CollapsibleTrigger>
+
+        <CollapsibleContent className="flex-1 overflow-y-auto">
+          <div className="p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="highlight-frontier" className="text-xs text-muted-foreground">
+                Highlight ready-to-learn skills
+              </Label>
+              <Switch
+                id="highlight-frontier"
+                checked={highlightFrontier}
+                onCheckedChange={onHighlightFrontierChange}
+              />
+            </div>
+
+            {loading && !plan ? (
+              <p className="text-sm text-muted-foreground text-center py-4">Loading plan...</p>
+            ) : !plan ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                Select a student to see a study plan
+              </p>
+            ) : plan.steps.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                {studentName || 'This student'} has mastered every reachable skill
+              </p>
+            ) : (
+              <>
+                <p className="text-xs text-muted-foreground">
+                  {plan.masteredCount} mastered · {plan.frontier.size} ready now · {plan.steps.length} steps planned
+                </p>
+
+                <ol className="space-y-2">
+                  {plan.steps.map((step, idx) => {
+                    const isNewWave = idx === 0 || plan.steps[idx - 1].wave !== step.wave;
+                    return (
+                      <li key={step.skillId}>
+                        {isNewWave && (
+                          <div className="text-[10px] uppercase tracking-wide text-muted-foreground mb-1">
+                            {step.wave === 0 ? 'Ready now' : `Then (wave ${step.wave + 1})`}
+                          </div>
+                        )}
+                        <button
+                          onClick={() => onSkillSelect(step.skillId)}
+                          className={cn(
+                            "w-full text-left rounded-md border p-2 space-y-1 transition-colors hover:bg-muted/50",
+                            selectedNodeId === step.skillId ? "border-primary bg-primary/5" : "border-border"
+                          )}
+                        >
+                          <div className="flex items-start justify-between gap-2">
+                            <span className="text-xs font-medium">
+                              {idx + 1}. {step.skillName}
+                            </span>
+                            {step.currentMastery !== null && (
+                              <span className={cn(
+                                "text-[10px] font-semibold shrink-0",
+                                step.source === 'inferred' && "italic"
+                              )}>
+                                {step.source === 'inferred' && '~'}{Math.round(step.currentMastery * 100)}%
+                              </span>
+                            )}
+                          </div>
+
+                          <div className="flex flex-wrap items-center gap-x-3 gap-y-0.5 text-[10px] text-muted-foreground">
+                            <span className="flex items-center gap-1">
+                              <Clock className="h-3 w-3" />
+                              {step.estimatedMinutes > 0 ? formatMinutes(step.estimatedMinutes) : 'No estimate'}
+                            </span>
+                            {step.unlocks > 0 && <span>Unlocks {step.unlocks}</span>}
+                            {step.prerequisites.length > 0 && (
+                              <span className="truncate">
+                                After {step.prerequisites.map(id => skillNames[id] || id).join(', ')}
+                              </span>
+                            )}
+                          </div>
+
+                          {step.questions.length > 0 ? (
+                            <ul className="space-y-0.5">
+                              {step.questions.map(q => (
+                                <li key={q.id} className="flex items-start gap-1 text-[10px]">
+                                  <FileQuestion className="h-3 w-3 mt-px shrink-0 text-muted-foreground" />
+                                  <span className={cn("line-clamp-2", q.isPrimary && "font-medium")}>
+                                    {q.questionText}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-[10px] text-muted-foreground italic">
+                              No unattempted questions target this skill
+                            </p>
+                          )}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ol>
+              </>
+            )}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+}
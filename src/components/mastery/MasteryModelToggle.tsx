@@ -0,0 +1,57 @@
+// Switch between mastery models (counting vs BKT) for the current graph
+
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Sigma } from 'lucide-react';
+import { MASTERY_MODELS, type MasteryModelId } from '@/lib/mastery/masteryModel';
+
+interface MasteryModelToggleProps {
+  model: MasteryModelId;
+  onModelChange: (model: MasteryModelId) => void;
+  onFitParams?: () => void;
+  fitting?: boolean;
+}
+
+export function MasteryModelToggle({
+  model,
+  onModelChange,
+  onFitParams,
+  fitting = false,
+}: MasteryModelToggleProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <ToggleGroup
+        type="single"
+        size="sm"
+        value={model}
+        onValueChange={value => value && onModelChange(value as MasteryModelId)}
+        className="justify-start"
+      >
+        {Object.values(MASTERY_MODELS).map(m => (
+          <ToggleGroupItem
+            key={m.id}
+            value={m.id}
+            className="h-7 px-2 text-xs"
+            title={m.description}
+          >
+            {m.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {model === 'bkt' && onFitParams && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 px-2 text-xs gap-1"
+          onClick={onFitParams}
+          disabled={fitting}
+          title="Fit prior, learn, guess and slip per skill from all attempts (EM)"
+        >
+          <Sigma className="h-3.5 w-3.5" />
+          {fitting ? 'Fitting...' : 'Fit'}
+        </Button>
+      )}
+    </div>
+  );
+}
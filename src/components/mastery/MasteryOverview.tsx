@@ -8,15 +8,23 @@ import {
   Brain, 
   TrendingUp, 
   CheckCircle2,
+  Clock,
+  GitBranch,
 } from 'lucide-react';
 import { MASTERY_THRESHOLDS } from '@/lib/mastery/constants';
+import { createEmptyMastery } from '@/lib/mastery/calculateMastery';
+import type { PropagatedMastery } from '@/lib/mastery/propagateMastery';
 import type { KPMastery } from '@/types/mastery';
 
+// Decayed mastery when retention decay is enabled, raw otherwise
+const getDisplayMastery = (m: KPMastery) => m.effectiveMastery ?? m.rawMastery;
+
 interface MasteryOverviewProps {
   studentId: string;
   studentName: string;
   masteryRecords: KPMastery[];
   skillNames?: Record<string, string>;
+  propagated?: Map<string, PropagatedMastery>;  // Measured vs inferred along prerequisite edges
 }
 
 export function MasteryOverview({
@@ -24,23 +32,52 @@ export function MasteryOverview({
   studentName,
   masteryRecords,
   skillNames = {},
+  propagated,
 }: MasteryOverviewProps) {
   const summary = useMemo(() => {
     const records = masteryRecords;
     const overallMastery = records.length > 0
-      ? records.reduce((sum, m) => sum + m.rawMastery, 0) / records.length
+      ? records.reduce((sum, m) => sum + getDisplayMastery(m), 0) / records.length
       : 0;
 
     return {
       overallMastery,
-      masteredKPs: records.filter(m => m.rawMastery >= MASTERY_THRESHOLDS.mastered).length,
+      masteredKPs: records.filter(m => getDisplayMastery(m) >= MASTERY_THRESHOLDS.mastered).length,
       totalKPs: records.length,
+      agingKPs: records.filter(m => m.retentionStatus === 'aging').length,
+      expiredKPs: records.filter(m => m.retentionStatus === 'expired').length,
     };
   }, [masteryRecords]);
 
+  const propagationSummary = useMemo(() => {
+    if (!propagated) return null;
+    const entries = [...propagated.values()];
+    return {
+      measured: entries.filter(p => p.source === 'measured').length,
+      inferred: entries.filter(p => p.source === 'inferred').length,
+      capped: entries.filter(p => p.cappedBy.length > 0).length,
+    };
+  }, [propagated]);
+
+  // Skills without questions have no record but may still be inferred
   const sortedRecords = useMemo(() => {
-    return [...masteryRecords].sort((a, b) => a.rawMastery - b.rawMastery);
-  }, [masteryRecords]);
+    const records = [...masteryRecords];
+    if (propagated) {
+      const present = new Set(records.map(m => m.skillId));
+      for (const p of propagated.values()) {
+        if (p.source === 'inferred' && !present.has(p.skillId)) {
+          records.push(createEmptyMastery('', studentId, p.skillId));
+        }
+      }
+    }
+    const sortValue = (m: KPMastery) => {
+      const p = propagated?.get(m.skillId);
+      return p ? p.measured ?? p.inferred ?? 0 : getDisplayMastery(m);
+    };
+    return records.sort((a, b) => sortValue(a) - sortValue(b));
+  }, [masteryRecords, propagated, studentId]);
+
+  const nameOf = (skillId: string) => skillNames[skillId] || skillId;
 
   const getMasteryColor = (mastery: number) => {
     if (mastery >= MASTERY_THRESHOLDS.mastered) return 'text-primary';
@@ -90,36 +127,79 @@ export function MasteryOverview({
         </Card>
       </div>
 
+      {(summary.agingKPs > 0 || summary.expiredKPs > 0) && (
+        <div className="flex items-center gap-1.5 text-xs text-muted-foreground flex-shrink-0">
+          <Clock className="h-3.5 w-3.5" />
+          {summary.agingKPs} aging, {summary.expiredKPs} expired
+        </div>
+      )}
+
+      {propagationSummary && (propagationSummary.inferred > 0 || propagationSummary.capped > 0) && (
+        <div className="flex items-center gap-1.5 text-xs text-muted-foreground flex-shrink-0">
+          <GitBranch className="h-3.5 w-3.5" />
+          {propagationSummary.measured} measured, {propagationSummary.inferred} inferred, {propagationSummary.capped} capped by prerequisites
+        </div>
+      )}
+
       {/* Scrollable KP List */}
       <Card className="flex-1 min-h-0 flex flex-col">
         <CardHeader className="pb-2 flex-shrink-0">
           <CardTitle className="text-sm flex items-center gap-2">
             <Brain className="h-4 w-4" />
-            Knowledge Points ({masteryRecords.length})
+            Knowledge Points ({sortedRecords.length})
           </CardTitle>
         </CardHeader>
         <CardContent className="flex-1 min-h-0 p-0">
           <ScrollArea className="h-[calc(100vh-380px)] px-4 pb-4">
             <div className="space-y-2">
               {sortedRecords.map(record => {
-                const mastery = record.rawMastery;
-                const skillName = skillNames[record.skillId] || record.skillId;
+                const node = propagated?.get(record.skillId);
+                const isInferred = node?.source === 'inferred';
+                const isUnassessed = !!node && node.source !== 'measured';
+                const mastery = node ? node.measured ?? node.inferred ?? 0 : getDisplayMastery(record);
+                const isDecayed = record.effectiveMastery !== undefined
+                  && Math.round(record.effectiveMastery * 100) !== Math.round(record.rawMastery * 100);
+                const skillName = nameOf(record.skillId);
                 
                 return (
                   <div key={record.skillId} className="space-y-0.5">
                     <div className="flex items-center justify-between">
                       <span className="text-xs font-medium truncate mr-2">{skillName}</span>
-                      <span className={`text-xs font-bold ${getMasteryColor(mastery)}`}>
-                        {Math.round(mastery * 100)}%
-                      </span>
+                      {isInferred ? (
+                        <span
+                          className={`text-xs font-bold italic ${getMasteryColor(mastery)}`}
+                          title="Inferred from mastered dependent skills"
+                        >
+                          ~{Math.round(mastery * 100)}%
+                        </span>
+                      ) : isUnassessed ? (
+                        <span className="text-xs text-muted-foreground">Not assessed</span>
+                      ) : (
+                        <span className={`text-xs font-bold ${getMasteryColor(mastery)}`}>
+                          {Math.round(mastery * 100)}%
+                        </span>
+                      )}
                     </div>
                     <Progress 
                       value={mastery * 100} 
-                      className="h-1.5"
+                      className={isInferred ? 'h-1.5 opacity-50' : 'h-1.5'}
                     />
                     <div className="text-[10px] text-muted-foreground">
-                      {record.earnedPoints}/{record.maxPoints} questions correct
+                      {isUnassessed
+                        ? 'No attempts yet'
+                        : `${record.earnedPoints}/${record.maxPoints} questions correct`}
+                      {!isUnassessed && isDecayed && ` · ${Math.round(record.rawMastery * 100)}% before decay`}
                     </div>
+                    {isInferred && node.supportedBy.length > 0 && (
+                      <div className="text-[10px] text-muted-foreground italic">
+                        Inferred from {node.supportedBy.map(nameOf).join(', ')}
+                      </div>
+                    )}
+                    {node && node.cap !== null && (node.measured === null || node.cap < node.measured) && (
+                      <div className="text-[10px] text-destructive">
+                        Capped at {Math.round(node.cap * 100)}% by {node.cappedBy.map(nameOf).join(', ')}
+                      </div>
+                    )}
                   </div>
                 );
               })}
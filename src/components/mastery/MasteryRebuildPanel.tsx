@@ -0,0 +1,187 @@
+// Rebuild stored mastery from the attempt log and show what changed
+
+import { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Eye, RefreshCw } from 'lucide-react';
+import { rebuildMastery, type MasteryRebuildReport, type MasteryRebuildScope } from '@/lib/mastery/rebuildMastery';
+import { DEFAULT_DECAY_CONFIG, type CreditPolicy, type DecayConfig } from '@/lib/mastery/constants';
+
+type ScopeOption = 'student' | 'class' | 'graph';
+
+interface MasteryRebuildPanelProps {
+  graphId: string;
+  classId?: string;
+  studentId?: string | null;
+  studentName?: string | null;
+  decayConfig?: DecayConfig;
+  creditPolicy?: CreditPolicy;
+  skillNames?: Record<string, string>;
+  onRebuildComplete?: () => void;
+}
+
+const formatPercent = (value: number | undefined) =>
+  value === undefined ? '—' : `${Math.round(value * 100)}%`;
+
+export function MasteryRebuildPanel({
+  graphId,
+  classId,
+  studentId,
+  studentName,
+  decayConfig = DEFAULT_DECAY_CONFIG,
+  creditPolicy,
+  skillNames = {},
+  onRebuildComplete,
+}: MasteryRebuildPanelProps) {
+  const { toast } = useToast();
+  const [scopeOption, setScopeOption] = useState<ScopeOption>(studentId ? 'student' : 'class');
+  const [running, setRunning] = useState(false);
+  const [report, setReport] = useState<MasteryRebuildReport | null>(null);
+
+  const effectiveOption: ScopeOption = scopeOption === 'student' && !studentId
+    ? 'class'
+    : scopeOption === 'class' && !classId ? 'graph' : scopeOption;
+
+  const scope = useMemo((): MasteryRebuildScope => {
+    if (effectiveOption === 'student' && studentId) return { studentId };
+    if (effectiveOption === 'class' && classId) return { classId };
+    return { wholeGraph: true };
+  }, [effectiveOption, studentId, classId]);
+
+  const run = async (dryRun: boolean) => {
+    setRunning(true);
+    try {
+      const result = await rebuildMastery(graphId, scope, { decayConfig, creditPolicy, dryRun });
+      setReport(result);
+      if (!dryRun) {
+        toast({
+          title: 'Mastery rebuilt',
+          description: `${result.changes.length} records changed across ${result.studentsProcessed} students`,
+        });
+        onRebuildComplete?.();
+      }
+    } catch (err) {
+      console.error('Error rebuilding mastery:', err);
+      toast({
+        title: 'Rebuild failed',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <RefreshCw className="h-4 w-4" />
+          Rebuild From Attempts
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Recomputes mastery by replaying every logged attempt. Safe to run repeatedly.
+        </p>
+
+        <Select
+          value={effectiveOption}
+          onValueChange={v => { setScopeOption(v as ScopeOption); setReport(null); }}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {studentId && (
+              <SelectItem value="student">Student: {studentName || studentId}</SelectItem>
+            )}
+            {classId && <SelectItem value="class">Whole class</SelectItem>}
+            <SelectItem value="graph">All students in this graph</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="flex-1 gap-1.5"
+            onClick={() => run(true)}
+            disabled={running}
+          >
+            <Eye className="h-3.5 w-3.5" />
+            Preview
+          </Button>
+          <Button
+            size="sm"
+            className="flex-1 gap-1.5"
+            onClick={() => run(false)}
+            disabled={running}
+          >
+            <RefreshCw className={`h-3.5 w-3.5 ${running ? 'animate-spin' : ''}`} />
+            Rebuild
+          </Button>
+        </div>
+
+        {report && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-1.5 text-xs">
+              <Badge variant={report.dryRun ? 'outline' : 'secondary'}>
+                {report.dryRun ? 'Preview' : 'Applied'}
+              </Badge>
+              <Badge variant="outline">{report.studentsProcessed} students</Badge>
+              <Badge variant="outline">{report.attemptsReplayed} attempts</Badge>
+              {report.duplicateAttempts > 0 && (
+                <Badge variant="outline">{report.duplicateAttempts} duplicates ignored</Badge>
+              )}
+              {report.unmatchedAttempts > 0 && (
+                <Badge variant="destructive">{report.unmatchedAttempts} unmatched</Badge>
+              )}
+            </div>
+
+            {report.changes.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                No changes — {report.unchangedRecords} records already match the attempt log.
+              </p>
+            ) : (
+              <ScrollArea className="h-48 rounded-md border">
+                <div className="p-2 space-y-1">
+                  {report.changes.map(change => (
+                    <div
+                      key={`${change.studentId}:${change.skillId}`}
+                      className="flex items-center justify-between gap-2 text-xs"
+                    >
+                      <span className="truncate">
+                        {!('studentId' in scope) && (
+                          <span className="text-muted-foreground">{change.studentId} · </span>
+                        )}
+                        {skillNames[change.skillId] || change.skillId}
+                      </span>
+                      <span className="shrink-0 font-mono">
+                        {change.kind === 'added' && `+ ${formatPercent(change.after?.rawMastery)}`}
+                        {change.kind === 'removed' && `− ${formatPercent(change.before?.rawMastery)}`}
+                        {change.kind === 'updated' && (
+                          `${formatPercent(change.before?.rawMastery)} → ${formatPercent(change.after?.rawMastery)}`
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
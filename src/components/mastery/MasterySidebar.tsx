@@ -9,12 +9,23 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { AttemptLoggerPanel } from './AttemptLoggerPanel';
 import { BulkUploadPanel } from './BulkUploadPanel';
 import { MasteryOverview } from './MasteryOverview';
+import { MasteryRebuildPanel } from './MasteryRebuildPanel';
 import { ClassAnalyticsPanel } from './ClassAnalyticsPanel';
+import { CreditPolicyPanel } from './CreditPolicyPanel';
 import { HierarchicalMasteryView } from './HierarchicalMasteryView';
+import { RetentionSettingsPanel } from './RetentionSettingsPanel';
+import { RubricProfilePanel } from './RubricProfilePanel';
 import { useClassAnalytics } from '@/hooks/useClassAnalytics';
-import { useSkillGrouping } from '@/hooks/useSkillGrouping';
+import { useRubricProfiles } from '@/hooks/useRubricProfiles';
+import { useToast } from '@/hooks/use-toast';
 import type { GraphNode } from '@/types/graph';
 import type { KPMastery } from '@/types/mastery';
+import type { SkillSubtopic, SkillTopic } from '@/types/grouping';
+import type { CreditPolicy, DecayConfig } from '@/lib/mastery/constants';
+import { fitAndSaveBKTParams } from '@/lib/mastery/bkt';
+import { rebuildMastery } from '@/lib/mastery/rebuildMastery';
+import type { MasteryModelId } from '@/lib/mastery/masteryModel';
+import type { PropagatedMastery } from '@/lib/mastery/propagateMastery';
 
 
 interface MasterySidebarProps {
@@ -29,7 +40,27 @@ interface MasterySidebarProps {
   onToggleEditMode?: () => void;
   // Mastery from parent (lifted hook)
   studentMastery: Map<string, KPMastery>;
+  propagatedMastery?: Map<string, PropagatedMastery>;
   onMasteryRefresh: () => void;
+  // Retention decay settings (per graph)
+  decayConfig: DecayConfig;
+  decaySaving?: boolean;
+  onDecayConfigChange: (config: DecayConfig) => void;
+  // Independence crediting policy (per graph); resolves false if saving failed
+  creditPolicy: CreditPolicy;
+  creditSaving?: boolean;
+  onCreditPolicyChange: (policy: CreditPolicy) => Promise<boolean>;
+  // Mastery model (counting or BKT) shared by all views
+  masteryModel: MasteryModelId;
+  onMasteryModelChange: (model: MasteryModelId) => void;
+  // Skill grouping from parent, whose handlers record each change for undo
+  topics: SkillTopic[];
+  subtopics: SkillSubtopic[];
+  skillToSubtopic: Map<string, string>;
+  onCreateTopic: (name: string, color: string) => Promise<void>;
+  onDeleteTopic: (topicId: string) => Promise<void>;
+  onDeleteSubtopic: (subtopicId: string) => Promise<void>;
+  onAssignSubtopicToTopic: (subtopicId: string, topicId: string | null) => Promise<void>;
 }
 
 export function MasterySidebar({
@@ -42,10 +73,29 @@ export function MasterySidebar({
   isEditMode = false,
   onToggleEditMode,
   studentMastery,
+  propagatedMastery,
   onMasteryRefresh,
+  decayConfig,
+  decaySaving = false,
+  onDecayConfigChange,
+  creditPolicy,
+  creditSaving = false,
+  onCreditPolicyChange,
+  masteryModel,
+  onMasteryModelChange,
+  topics,
+  subtopics,
+  skillToSubtopic,
+  onCreateTopic,
+  onDeleteTopic,
+  onDeleteSubtopic,
+  onAssignSubtopicToTopic,
 }: MasterySidebarProps) {
+  const { toast } = useToast();
   const [isOpen, setIsOpen] = useState(true);
   const [activeTab, setActiveTab] = useState<string>('log');
+  const [fittingBKT, setFittingBKT] = useState(false);
+  const [rebuildingCredit, setRebuildingCredit] = useState(false);
   // Create skill names map
   const skillNames = useMemo(() => {
     const map: Record<string, string> = {};
@@ -63,11 +113,15 @@ export function MasterySidebar({
   const classAnalyticsHook = useClassAnalytics({
     classId,
     autoLoad: true,
+    decayConfig,
+    creditPolicy,
+    model: masteryModel,
   });
 
-  // Skill grouping
-  const groupingHook = useSkillGrouping({
+  // Per-dimension rubric marks for the class
+  const rubricProfilesHook = useRubricProfiles({
     graphId,
+    classId,
     autoLoad: true,
   });
 
@@ -75,27 +129,58 @@ export function MasterySidebar({
   const handleAttemptRecorded = () => {
     onMasteryRefresh();
     classAnalyticsHook.loadAnalytics();
+    rubricProfilesHook.loadProfiles();
   };
 
-  // Handle creating a topic
-  const handleCreateTopic = useCallback(async (name: string, color: string) => {
-    await groupingHook.createTopic(name, color);
-  }, [groupingHook]);
-
-  // Handle deleting a topic
-  const handleDeleteTopic = useCallback(async (topicId: string) => {
-    await groupingHook.deleteTopic(topicId);
-  }, [groupingHook]);
+  // Fit BKT parameters from the graph's attempt log, then refresh
+  const handleFitBKT = useCallback(async () => {
+    setFittingBKT(true);
+    try {
+      const results = await fitAndSaveBKTParams(graphId);
+      const fitted = [...results.values()].filter(r => r.fitted).length;
+      toast({
+        title: 'BKT parameters fitted',
+        description: `${fitted} of ${results.size} skills had enough attempts; the rest use defaults`,
+      });
+      onMasteryRefresh();
+      classAnalyticsHook.loadAnalytics();
+    } catch (err) {
+      console.error('Error fitting BKT parameters:', err);
+      toast({
+        title: 'Fitting failed',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setFittingBKT(false);
+    }
+  }, [graphId, toast, onMasteryRefresh, classAnalyticsHook]);
 
-  // Handle deleting a subtopic
-  const handleDeleteSubtopic = useCallback(async (subtopicId: string) => {
-    await groupingHook.deleteSubtopic(subtopicId);
-  }, [groupingHook]);
+  // Stored mastery is credited at write time, so a policy change rebuilds the graph
+  const handleCreditPolicyChange = useCallback(async (policy: CreditPolicy) => {
+    const saved = await onCreditPolicyChange(policy);
+    if (!saved) return;
 
-  // Handle assigning subtopic to topic
-  const handleAssignSubtopicToTopic = useCallback(async (subtopicId: string, topicId: string | null) => {
-    await groupingHook.assignSubtopicToTopic(subtopicId, topicId);
-  }, [groupingHook]);
+    setRebuildingCredit(true);
+    try {
+      const report = await rebuildMastery(graphId, { wholeGraph: true }, { decayConfig, creditPolicy: policy });
+      toast({
+        title: 'Crediting policy updated',
+        description: `${report.changes.length} mastery records changed across ${report.studentsProcessed} students`,
+      });
+      onMasteryRefresh();
+      classAnalyticsHook.loadAnalytics();
+    } catch (err) {
+      console.error('Error rebuilding mastery after policy change:', err);
+      toast({
+        title: 'Rebuild failed',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setRebuildingCredit(false);
+    }
+  }, [graphId, decayConfig, onCreditPolicyChange, toast, onMasteryRefresh, classAnalyticsHook]);
 
   return (
     <div className="w-96 border-l border-border bg-card/50 flex flex-col overflow-hidden">
@@ -150,8 +235,21 @@ export function MasterySidebar({
                 <BulkUploadPanel
                   graphId={graphId}
                   classId={classId}
+                  decayConfig={decayConfig}
+                  creditPolicy={creditPolicy}
                   onUploadComplete={handleAttemptRecorded}
                 />
+
+                <MasteryRebuildPanel
+                  graphId={graphId}
+                  classId={classId}
+                  studentId={studentId}
+                  studentName={studentName}
+                  decayConfig={decayConfig}
+                  creditPolicy={creditPolicy}
+                  skillNames={skillNames}
+                  onRebuildComplete={handleAttemptRecorded}
+                />
               </TabsContent>
 
               <TabsContent value="groups" className="mt-0 space-y-4">
@@ -174,25 +272,40 @@ export function MasterySidebar({
                 )}
 
                 <HierarchicalMasteryView
-                  topics={groupingHook.topics}
-                  subtopics={groupingHook.subtopics}
+                  topics={topics}
+                  subtopics={subtopics}
                   skillMastery={studentId ? studentMastery : new Map()}
-                  skillToSubtopic={groupingHook.skillSubtopicMap}
+                  skillToSubtopic={skillToSubtopic}
                   skillNames={skillNames}
-                  onCreateTopic={handleCreateTopic}
-                  onDeleteTopic={handleDeleteTopic}
-                  onDeleteSubtopic={handleDeleteSubtopic}
-                  onAssignSubtopicToTopic={handleAssignSubtopicToTopic}
+                  onCreateTopic={onCreateTopic}
+                  onDeleteTopic={onDeleteTopic}
+                  onDeleteSubtopic={onDeleteSubtopic}
+                  onAssignSubtopicToTopic={onAssignSubtopicToTopic}
+                  model={masteryModel}
+                  onModelChange={onMasteryModelChange}
                 />
               </TabsContent>
 
               <TabsContent value="overview" className="mt-0 space-y-4">
+                <RetentionSettingsPanel
+                  decayConfig={decayConfig}
+                  saving={decaySaving}
+                  onSave={onDecayConfigChange}
+                />
+
+                <CreditPolicyPanel
+                  creditPolicy={creditPolicy}
+                  saving={creditSaving || rebuildingCredit}
+                  onChange={handleCreditPolicyChange}
+                />
+
                 {studentId && studentName ? (
                   <MasteryOverview
                     studentId={studentId}
                     studentName={studentName}
                     masteryRecords={masteryRecords}
                     skillNames={skillNames}
+                    propagated={propagatedMastery}
                   />
                 ) : (
                   <ClassAnalyticsPanel
@@ -200,8 +313,19 @@ export function MasterySidebar({
                     studentSummaries={classAnalyticsHook.studentSummaries}
                     skillNames={skillNames}
                     loading={classAnalyticsHook.loading}
+                    model={masteryModel}
+                    onModelChange={onMasteryModelChange}
+                    onFitParams={handleFitBKT}
+                    fitting={fittingBKT}
                   />
                 )}
+
+                <RubricProfilePanel
+                  profiles={rubricProfilesHook.profiles}
+                  loading={rubricProfilesHook.loading}
+                  studentId={studentId}
+                  studentName={studentName}
+                />
               </TabsContent>
             </div>
           </Tabs>
@@ -0,0 +1,171 @@
+// Per-graph retention decay toggle and forgetting-curve parameters
+
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, Hourglass, RotateCcw, Save } from 'lucide-react';
+import { DEFAULT_DECAY_CONFIG, RETENTION_THRESHOLDS, type DecayConfig } from '@/lib/mastery/constants';
+import { calculateRetention, daysUntilRetention } from '@/lib/mastery/retentionDecay';
+
+interface RetentionSettingsPanelProps {
+  decayConfig: DecayConfig;
+  saving?: boolean;
+  onSave: (config: DecayConfig) => void;
+}
+
+type NumericKey = Exclude<keyof DecayConfig, 'enabled'>;
+
+const PARAMETER_FIELDS: { key: NumericKey; label: string; step: number; hint: string }[] = [
+  { key: 'initialStability', label: 'Initial stability (days)', step: 1, hint: 'Days until retention drops to 90% after the first correct answer' },
+  { key: 'decay', label: 'Decay exponent', step: 0.1, hint: 'More negative = steeper forgetting curve' },
+  { key: 'growth', label: 'Stability growth', step: 0.1, hint: 'How much each successful review strengthens memory' },
+  { key: 'stabilityDamping', label: 'Stability damping', step: 0.05, hint: 'Smaller gains for already stable skills' },
+  { key: 'retrievabilityGain', label: 'Retrievability gain', step: 0.1, hint: 'Bonus for recalling after partial forgetting' },
+  { key: 'lapseFactor', label: 'Lapse factor', step: 0.05, hint: 'Stability multiplier after an incorrect answer' },
+  { key: 'minStability', label: 'Minimum stability (days)', step: 0.5, hint: 'Floor applied after lapses' },
+];
+
+const PREVIEW_DAYS = [7, 30, 90];
+
+export function RetentionSettingsPanel({
+  decayConfig,
+  saving = false,
+  onSave,
+}: RetentionSettingsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<DecayConfig>(decayConfig);
+
+  // Reset draft when the stored config changes (e.g. graph switch)
+  useEffect(() => {
+    setDraft(decayConfig);
+  }, [decayConfig]);
+
+  const isDirty = useMemo(
+    () => JSON.stringify(draft) !== JSON.stringify(decayConfig),
+    [draft, decayConfig]
+  );
+
+  // Retention of a freshly learned skill after N days with the draft parameters
+  const preview = useMemo(() => {
+    const reviewedAt = new Date(0);
+    return {
+      points: PREVIEW_DAYS.map(days => ({
+        days,
+        retention: calculateRetention(
+          reviewedAt,
+          draft.initialStability,
+          new Date(days * 24 * 60 * 60 * 1000),
+          draft
+        ),
+      })),
+      daysToAging: daysUntilRetention(draft.initialStability, RETENTION_THRESHOLDS.aging, draft),
+    };
+  }, [draft]);
+
+  const handleNumberChange = (key: NumericKey, value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isNaN(parsed)) return;
+    setDraft(prev => ({ ...prev, [key]: parsed }));
+  };
+
+  // Toggling saves immediately; unsaved parameter edits stay in the draft
+  const handleToggle = (enabled: boolean) => {
+    setDraft(prev => ({ ...prev, enabled }));
+    onSave({ ...decayConfig, enabled });
+  };
+
+  return (
+    <Card>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CardHeader className="pb-2">
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <Hourglass className="h-4 w-4" />
+              Retention Decay
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="retention-decay-enabled"
+                checked={draft.enabled}
+                onCheckedChange={handleToggle}
+                disabled={saving}
+              />
+              <CollapsibleTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-6 w-6">
+                  <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? '' : '-rotate-90'}`} />
+                </Button>
+              </CollapsibleTrigger>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {draft.enabled
+              ? 'Mastery fades between successful reviews'
+              : 'Mastery is shown without decay'}
+          </p>
+        </CardHeader>
+
+        <CollapsibleContent>
+          <CardContent className="space-y-3 pt-0">
+            <div className="grid grid-cols-2 gap-2">
+              {PARAMETER_FIELDS.map(field => (
+                <div key={field.key} className="space-y-1" title={field.hint}>
+                  <Label htmlFor={`decay-${field.key}`} className="text-xs">
+                    {field.label}
+                  </Label>
+                  <Input
+                    id={`decay-${field.key}`}
+                    type="number"
+                    step={field.step}
+                    value={draft[field.key]}
+                    onChange={e => handleNumberChange(field.key, e.target.value)}
+                    className="h-8 text-xs"
+                  />
+                </div>
+              ))}
+            </div>
+
+            {/* Curve preview */}
+            <div className="rounded-md bg-muted/30 p-2 text-xs text-muted-foreground space-y-1">
+              <div className="flex justify-between">
+                {preview.points.map(p => (
+                  <span key={p.days}>
+                    {p.days}d: <span className="font-medium text-foreground">{Math.round(p.retention * 100)}%</span>
+                  </span>
+                ))}
+              </div>
+              <div>
+                Aging after ~{Math.round(preview.daysToAging)} days without review
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1 gap-1.5"
+                onClick={() => setDraft({ ...DEFAULT_DECAY_CONFIG, enabled: draft.enabled })}
+                disabled={saving}
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+                Defaults
+              </Button>
+              <Button
+                size="sm"
+                className="flex-1 gap-1.5"
+                onClick={() => onSave(draft)}
+                disabled={!isDirty || saving}
+              >
+                <Save className="h-3.5 w-3.5" />
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
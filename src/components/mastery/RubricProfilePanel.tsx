@@ -0,0 +1,97 @@
+// Per-dimension coding rubric profile for a student (against the class) or the whole class
+
+import { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ClipboardList } from 'lucide-react';
+import type { RubricProfiles } from '@/lib/mastery/rubricScoring';
+import type { RubricDimensionKey } from '@/types/mastery';
+
+interface RubricProfilePanelProps {
+  profiles: RubricProfiles | null;
+  loading?: boolean;
+  studentId?: string | null;
+  studentName?: string | null;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function RubricProfilePanel({
+  profiles,
+  loading = false,
+  studentId,
+  studentName,
+}: RubricProfilePanelProps) {
+  const cohort = profiles?.cohort ?? null;
+  const student = studentId ? profiles?.students.get(studentId) ?? null : null;
+  const profile = studentId ? student : cohort;
+
+  // How many students have each dimension as their weakest
+  const weakestCounts = useMemo(() => {
+    const counts = new Map<RubricDimensionKey, number>();
+    for (const p of profiles?.students.values() ?? []) {
+      if (p.weakest) counts.set(p.weakest, (counts.get(p.weakest) || 0) + 1);
+    }
+    return counts;
+  }, [profiles]);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <ClipboardList className="h-4 w-4" />
+          Rubric Profile
+          {profile && profile.scoredAttempts > 0 && (
+            <Badge variant="secondary" className="text-xs">
+              {profile.scoredAttempts} scored
+            </Badge>
+          )}
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          {studentId ? `${studentName || 'Student'} against the class average` : 'Class average per rubric dimension'}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3 pt-0">
+        {loading && !profiles ? (
+          <p className="text-xs text-muted-foreground text-center py-2">Loading...</p>
+        ) : !profile || profile.scoredAttempts === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-2">
+            No rubric-scored attempts yet
+          </p>
+        ) : (
+          profile.dimensions.map(dimension => {
+            const cohortDimension = cohort?.dimensions.find(d => d.key === dimension.key);
+            const isWeakest = profile.weakest === dimension.key;
+            return (
+              <div key={dimension.key} className="space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="flex items-center gap-1.5">
+                    {dimension.name}
+                    {isWeakest && (
+                      <Badge variant="outline" className="text-[9px] px-1 py-0 h-4 text-destructive border-destructive/50">
+                        Weakest
+                      </Badge>
+                    )}
+                  </span>
+                  <span className="font-medium">
+                    {dimension.scoredAttempts > 0 ? formatPercent(dimension.percent) : '—'}
+                    {studentId && cohortDimension && cohortDimension.scoredAttempts > 0 && (
+                      <span className="text-muted-foreground font-normal"> / class {formatPercent(cohortDimension.percent)}</span>
+                    )}
+                  </span>
+                </div>
+                <Progress value={dimension.percent * 100} className="h-1.5" />
+                {!studentId && (weakestCounts.get(dimension.key) ?? 0) > 0 && (
+                  <p className="text-[10px] text-muted-foreground">
+                    Weakest dimension for {weakestCounts.get(dimension.key)} of {profiles!.students.size} students
+                  </p>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,7 +4,13 @@ export { BulkUploadPanel } from './BulkUploadPanel';
 export { ClassAnalyticsPanel } from './ClassAnalyticsPanel';
 export { ClassManagerPanel } from './ClassManagerPanel';
 export { ClassSelector } from './ClassSelector';
+export { CreditPolicyPanel } from './CreditPolicyPanel';
 export { HierarchicalMasteryView } from './HierarchicalMasteryView';
+export { LearningPathPanel } from './LearningPathPanel';
+export { MasteryModelToggle } from './MasteryModelToggle';
 export { MasteryOverview } from './MasteryOverview';
+export { MasteryRebuildPanel } from './MasteryRebuildPanel';
 export { MasterySidebar } from './MasterySidebar';
+export { RetentionSettingsPanel } from './RetentionSettingsPanel';
+export { RubricProfilePanel } from './RubricProfilePanel';
 export { StudentSelector } from './StudentSelector';
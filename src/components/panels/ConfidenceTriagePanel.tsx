@@ -0,0 +1,170 @@
+import { useMemo, useState } from 'react';
+import { ArrowRight, Check, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { collectLowConfidence, type TriageItem } from '@/lib/graph/confidence';
+import type { KnowledgeGraph } from '@/types/graph';
+
+interface ConfidenceTriagePanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  graph: KnowledgeGraph;
+  skillNames: Record<string, string>;
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  onConfirmEdge: (from: string, to: string) => Promise<void>;
+  onRemoveEdge: (from: string, to: string) => Promise<void>;
+  onConfirmMapping: (question: string, skillId: string) => Promise<void>;
+  onRemoveMapping: (question: string, skillId: string) => Promise<void>;
+  onSkillSelect?: (skillId: string) => void;
+}
+
+// Longest list shown at once; confirming or removing items brings the next ones in
+const MAX_TRIAGE_ITEMS = 100;
+
+function confidenceVariant(confidence: number): 'destructive' | 'secondary' {
+  return confidence < 0.4 ? 'destructive' : 'secondary';
+}
+
+export function ConfidenceTriagePanel({
+  open,
+  onOpenChange,
+  graph,
+  skillNames,
+  threshold,
+  onThresholdChange,
+  onConfirmEdge,
+  onRemoveEdge,
+  onConfirmMapping,
+  onRemoveMapping,
+  onSkillSelect,
+}: ConfidenceTriagePanelProps) {
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const items = useMemo(
+    () => collectLowConfidence(graph, threshold, MAX_TRIAGE_ITEMS),
+    [graph, threshold]
+  );
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusyKey(key);
+    try {
+      await action();
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const confirm = (item: TriageItem) => run(item.key, () =>
+    item.kind === 'edge'
+      ? onConfirmEdge(item.edge.from, item.edge.to)
+      : onConfirmMapping(item.question, item.skillId)
+  );
+
+  const remove = (item: TriageItem) => run(item.key, () =>
+    item.kind === 'edge'
+      ? onRemoveEdge(item.edge.from, item.edge.to)
+      : onRemoveMapping(item.question, item.skillId)
+  );
+
+  const renderSkill = (skillId: string) => (
+    <button
+      className="font-medium text-foreground hover:text-primary truncate"
+      onClick={() => onSkillSelect?.(skillId)}
+    >
+      {skillNames[skillId] ?? skillId}
+    </button>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Low-confidence triage</DialogTitle>
+          <DialogDescription>
+            Prerequisite edges and question→skill mappings the model was least sure about.
+            Confirming sets the score to 100%.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <Label className="text-xs text-muted-foreground shrink-0">Below {Math.round(threshold * 100)}%</Label>
+          <Slider
+            value={[threshold]}
+            min={0.1}
+            max={1}
+            step={0.05}
+            onValueChange={([value]) => onThresholdChange(value)}
+          />
+        </div>
+
+        <ScrollArea className="h-[400px] pr-3">
+          <div className="space-y-2">
+            {items.map(item => (
+              <div key={item.key} className="flex items-start justify-between gap-2 rounded-md border border-border p-2">
+                <div className="min-w-0 space-y-0.5">
+                  <div className="flex items-center gap-1.5">
+                    <Badge variant="outline" className="h-5 text-xs shrink-0">
+                      {item.kind === 'edge' ? 'Edge' : 'Mapping'}
+                    </Badge>
+                    <Badge variant={confidenceVariant(item.confidence)} className="h-5 text-xs shrink-0">
+                      {Math.round(item.confidence * 100)}%
+                    </Badge>
+                  </div>
+                  {item.kind === 'edge' ? (
+                    <>
+                      <div className="flex items-center gap-1.5 text-sm min-w-0">
+                        {renderSkill(item.edge.from)}
+                        <ArrowRight className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                        {renderSkill(item.edge.to)}
+                      </div>
+                      {item.edge.reason && (
+                        <div className="text-xs text-muted-foreground line-clamp-2">{item.edge.reason}</div>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      <div className="text-sm">{renderSkill(item.skillId)}</div>
+                      <div className="text-xs text-muted-foreground line-clamp-2">{item.question}</div>
+                    </>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    title="Confirm"
+                    disabled={busyKey !== null}
+                    onClick={() => confirm(item)}
+                  >
+                    <Check className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    title="Remove"
+                    disabled={busyKey !== null}
+                    onClick={() => remove(item)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {items.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Nothing scored below {Math.round(threshold * 100)}%. Unscored items from older graphs are not listed.
+              </p>
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,602 @@
+// Curriculum editor for domain configs: topic sequence, skill catalog tiers,
+// mandatory edges and independent foundational skills, with live validation
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  BookOpen,
+  Plus,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Loader2,
+  AlertTriangle,
+  CheckCircle2,
+  ArrowRight,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { useDomainConfigs } from '@/hooks/useDomainConfigs';
+import {
+  computeEdgeLevels,
+  getCatalogSkillIds,
+  loadLatestDomainConfig,
+  moveCurriculumTopic,
+  removeCurriculumTopic,
+  renameSkill,
+  saveDomainConfigVersion,
+  validateDomainConfig,
+  type CatalogTier,
+  type DomainConfigRecord,
+  type EditableDomainConfig,
+} from '@/lib/domain/domainConfig';
+
+interface DomainConfigEditorProps {
+  onSaved?: (domain: string, version: number) => void;
+}
+
+const UNMAPPED = 'none';
+
+// Skill id field that commits on blur, so partial ids never collide mid-typing
+function SkillIdInput({
+  value,
+  existingIds,
+  onCommit,
+}: {
+  value: string;
+  existingIds: Set<string>;
+  onCommit: (next: string) => void;
+}) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => {
+    const next = draft.trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_');
+    if (!next || next === value) {
+      setDraft(value);
+      return;
+    }
+    if (existingIds.has(next)) {
+      toast({ title: 'Duplicate skill ID', description: `${next} is already used`, variant: 'destructive' });
+      setDraft(value);
+      return;
+    }
+    onCommit(next);
+  };
+
+  return (
+    <Input
+      value={draft}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => e.key === 'Enter' && commit()}
+      className="h-7 text-xs font-mono"
+    />
+  );
+}
+
+export function DomainConfigEditor({ onSaved }: DomainConfigEditorProps) {
+  const [open, setOpen] = useState(false);
+  const { domains, loadDomains } = useDomainConfigs({ autoLoad: false });
+  const [domain, setDomain] = useState('python');
+  const [record, setRecord] = useState<DomainConfigRecord | null>(null);
+  const [config, setConfig] = useState<EditableDomainConfig | null>(null);
+  const [label, setLabel] = useState('');
+  const [notes, setNotes] = useState('');
+  const [dirty, setDirty] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [newTopic, setNewTopic] = useState('');
+  const [newEdge, setNewEdge] = useState({ from: '', to: '', reason: '' });
+
+  const loadConfig = useCallback(async (target: string) => {
+    setLoading(true);
+    try {
+      const loaded = await loadLatestDomainConfig(target);
+      setRecord(loaded);
+      setConfig(loaded?.config ?? null);
+      setLabel(loaded?.label ?? '');
+      setNotes('');
+      setDirty(false);
+    } catch (err) {
+      console.error('Error loading domain config:', err);
+      toast({ title: 'Error', description: 'Failed to load domain config', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) loadDomains();
+  }, [open, loadDomains]);
+
+  useEffect(() => {
+    if (open) loadConfig(domain);
+  }, [open, domain, loadConfig]);
+
+  const update = (next: EditableDomainConfig) => {
+    setConfig(next);
+    setDirty(true);
+  };
+
+  const issues = useMemo(() => (config ? validateDomainConfig(config) : []), [config]);
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+  const unmappedSkills = useMemo(
+    () => new Set(issues.filter(i => i.kind === 'unmapped_skill').flatMap(i => i.skillIds)),
+    [issues]
+  );
+
+  // "from->to" keys of edges on a cycle or joining two foundational skills
+  const flaggedEdges = useMemo(() => {
+    const keys = new Set<string>();
+    for (const issue of issues) {
+      if (issue.kind === 'foundational_edge') {
+        keys.add(`${issue.skillIds[0]}->${issue.skillIds[1]}`);
+      } else if (issue.kind === 'cycle') {
+        issue.skillIds.forEach((id, idx) => {
+          keys.add(`${id}->${issue.skillIds[(idx + 1) % issue.skillIds.length]}`);
+        });
+      }
+    }
+    return keys;
+  }, [issues]);
+
+  const catalogIds = useMemo(() => (config ? getCatalogSkillIds(config.catalog) : []), [config]);
+  const knownIds = useMemo(
+    () => new Set([...catalogIds, ...Object.keys(config?.skillTopicMap ?? {})]),
+    [catalogIds, config]
+  );
+  const mappedOutsideCatalog = useMemo(() => {
+    if (!config) return [];
+    const inCatalog = new Set(catalogIds);
+    return Object.keys(config.skillTopicMap).filter(id => !inCatalog.has(id)).sort();
+  }, [config, catalogIds]);
+
+  // Mandatory edges laid out by depth, for the live DAG preview
+  const dagLevels = useMemo(() => {
+    if (!config) return null;
+    const levels = computeEdgeLevels(config.mandatoryEdges);
+    if (!levels) return null;
+    const rows: string[][] = [];
+    for (const [skillId, level] of levels) {
+      (rows[level] ||= []).push(skillId);
+    }
+    return rows.map(row => row.sort());
+  }, [config]);
+
+  const topicCounts = useMemo(() => {
+    const counts = new Map<number, number>();
+    for (const position of Object.values(config?.skillTopicMap ?? {})) {
+      counts.set(position, (counts.get(position) || 0) + 1);
+    }
+    return counts;
+  }, [config]);
+
+  const handleSave = async () => {
+    if (!config || errorCount > 0) return;
+    setSaving(true);
+    try {
+      const saved = await saveDomainConfigVersion(domain, label.trim() || domain, config, notes.trim());
+      setRecord(saved);
+      setConfig(saved.config);
+      setNotes('');
+      setDirty(false);
+      loadDomains();
+      toast({ title: 'Curriculum saved', description: `${saved.label} v${saved.version} is now used for generation` });
+      onSaved?.(saved.domain, saved.version);
+    } catch (err) {
+      console.error('Error saving domain config:', err);
+      toast({ title: 'Error', description: 'Failed to save domain config', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setSkillTopic = (skillId: string, value: string) => {
+    if (!config) return;
+    const skillTopicMap = { ...config.skillTopicMap };
+    if (value === UNMAPPED) delete skillTopicMap[skillId];
+    else skillTopicMap[skillId] = Number(value);
+    update({ ...config, skillTopicMap });
+  };
+
+  const toggleFoundational = (skillId: string, checked: boolean) => {
+    if (!config) return;
+    const independentFoundational = checked
+      ? [...config.independentFoundational, skillId]
+      : config.independentFoundational.filter(id => id !== skillId);
+    update({ ...config, independentFoundational });
+  };
+
+  const updateTier = (tierIdx: number, patch: (tier: CatalogTier) => CatalogTier) => {
+    if (!config) return;
+    update({
+      ...config,
+      catalog: {
+        ...config.catalog,
+        tiers: config.catalog.tiers.map((tier, idx) => (idx === tierIdx ? patch(tier) : tier)),
+      },
+    });
+  };
+
+  const addSkillToTier = (tierIdx: number) => {
+    let n = 1;
+    while (knownIds.has(`new_skill_${n}`)) n++;
+    updateTier(tierIdx, tier => ({ ...tier, skills: [...tier.skills, { id: `new_skill_${n}`, description: '' }] }));
+  };
+
+  const removeCatalogSkill = (tierIdx: number, skillIdx: number) => {
+    updateTier(tierIdx, tier => ({ ...tier, skills: tier.skills.filter((_, idx) => idx !== skillIdx) }));
+  };
+
+  const addEdge = () => {
+    if (!config) return;
+    const from = newEdge.from.trim();
+    const to = newEdge.to.trim();
+    if (!from || !to) return;
+    if (config.mandatoryEdges.some(e => e.from === from && e.to === to)) {
+      toast({ title: 'Edge exists', description: `${from} → ${to} is already mandatory` });
+      return;
+    }
+    update({ ...config, mandatoryEdges: [...config.mandatoryEdges, { from, to, reason: newEdge.reason.trim() }] });
+    setNewEdge({ from: '', to: '', reason: '' });
+  };
+
+  const topicSelect = (skillId: string) => (
+    <Select
+      value={config?.skillTopicMap[skillId] !== undefined ? String(config.skillTopicMap[skillId]) : UNMAPPED}
+      onValueChange={value => setSkillTopic(skillId, value)}
+    >
+      <SelectTrigger className={cn('h-7 text-xs w-48', unmappedSkills.has(skillId) && 'border-destructive')}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNMAPPED} className="text-xs text-muted-foreground">No topic</SelectItem>
+        {config?.curriculumTopics.map((topic, idx) => (
+          <SelectItem key={idx} value={String(idx + 1)} className="text-xs">
+            {idx + 1}. {topic}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1.5">
+          <BookOpen className="h-3.5 w-3.5" />Curricula
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Curriculum Editor</DialogTitle>
+          <DialogDescription>
+            Edit the topic sequence, reference skill catalog and mandatory edges used to generate graphs.
+            Saving creates a new version; generation always uses the latest.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select value={domain} onValueChange={setDomain}>
+            <SelectTrigger className="w-[200px] h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {domains.map(option => (
+                <SelectItem key={option.domain} value={option.domain}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {record && <Badge variant="secondary">v{record.version}</Badge>}
+          {dirty && <Badge variant="outline" className="text-xs">Unsaved changes</Badge>}
+          <div className="flex items-center gap-2 ml-auto">
+            <Label htmlFor="domain-label" className="text-xs text-muted-foreground">Label</Label>
+            <Input
+              id="domain-label"
+              value={label}
+              onChange={e => { setLabel(e.target.value); setDirty(true); }}
+              className="h-8 w-56 text-sm"
+            />
+          </div>
+        </div>
+
+        {loading || !config ? (
+          <div className="flex items-center justify-center py-16 text-sm text-muted-foreground">
+            {loading ? <Loader2 className="h-5 w-5 animate-spin" /> : 'No active config for this domain'}
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-4 min-h-0 flex-1">
+            <Tabs defaultValue="topics" className="col-span-2 flex flex-col min-h-0">
+              <TabsList className="shrink-0">
+                <TabsTrigger value="topics" className="flex-1">Topics ({config.curriculumTopics.length})</TabsTrigger>
+                <TabsTrigger value="catalog" className="flex-1">Catalog ({catalogIds.length})</TabsTrigger>
+                <TabsTrigger value="edges" className="flex-1">Mandatory Edges ({config.mandatoryEdges.length})</TabsTrigger>
+              </TabsList>
+
+              <ScrollArea className="h-[52vh] mt-2 pr-3">
+                {/* Curriculum topic sequence */}
+                <TabsContent value="topics" className="mt-0 space-y-1.5">
+                  {config.curriculumTopics.map((topic, idx) => (
+                    <div key={idx} className="flex items-center gap-2">
+                      <span className="w-6 text-right text-xs text-muted-foreground">{idx + 1}</span>
+                      <Input
+                        value={topic}
+                        onChange={e => update({
+                          ...config,
+                          curriculumTopics: config.curriculumTopics.map((t, i) => (i === idx ? e.target.value : t)),
+                        })}
+                        className="h-7 text-xs"
+                      />
+                      <Badge variant="outline" className="text-[10px] shrink-0">
+                        {topicCounts.get(idx + 1) || 0} skills
+                      </Badge>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" disabled={idx === 0}
+                        onClick={() => update(moveCurriculumTopic(config, idx, idx - 1))}>
+                        <ArrowUp className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" disabled={idx === config.curriculumTopics.length - 1}
+                        onClick={() => update(moveCurriculumTopic(config, idx, idx + 1))}>
+                        <ArrowDown className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                        onClick={() => update(removeCurriculumTopic(config, idx))}>
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-2 pt-2">
+                    <span className="w-6" />
+                    <Input
+                      value={newTopic}
+                      onChange={e => setNewTopic(e.target.value)}
+                      placeholder="New topic"
+                      className="h-7 text-xs"
+                    />
+                    <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" disabled={!newTopic.trim()}
+                      onClick={() => {
+                        update({ ...config, curriculumTopics: [...config.curriculumTopics, newTopic.trim()] });
+                        setNewTopic('');
+                      }}>
+                      <Plus className="h-3 w-3" />Add
+                    </Button>
+                  </div>
+                </TabsContent>
+
+                {/* Reference skill catalog tiers */}
+                <TabsContent value="catalog" className="mt-0 space-y-4">
+                  {config.catalog.tiers.map((tier, tierIdx) => (
+                    <div key={tierIdx} className="space-y-1.5 border rounded-lg p-2">
+                      <div className="flex items-center gap-2">
+                        <Input
+                          value={tier.name}
+                          onChange={e => updateTier(tierIdx, t => ({ ...t, name: e.target.value }))}
+                          className="h-7 text-xs font-semibold"
+                        />
+                        <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                          onClick={() => update({
+                            ...config,
+                            catalog: { ...config.catalog, tiers: config.catalog.tiers.filter((_, i) => i !== tierIdx) },
+                          })}>
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                      <div className="grid grid-cols-[10rem_1fr_12rem_auto_auto] gap-1.5 items-center text-[10px] text-muted-foreground px-0.5">
+                        <span>Skill ID</span><span>Description</span><span>Topic</span><span>Found.</span><span />
+                      </div>
+                      {tier.skills.map((skill, skillIdx) => (
+                        <div key={`${skill.id}-${skillIdx}`} className="grid grid-cols-[10rem_1fr_12rem_auto_auto] gap-1.5 items-center">
+                          <SkillIdInput
+                            value={skill.id}
+                            existingIds={knownIds}
+                            onCommit={next => update(renameSkill(config, skill.id, next))}
+                          />
+                          <Input
+                            value={skill.description}
+                            onChange={e => updateTier(tierIdx, t => ({
+                              ...t,
+                              skills: t.skills.map((s, i) => (i === skillIdx ? { ...s, description: e.target.value } : s)),
+                            }))}
+                            className="h-7 text-xs"
+                          />
+                          {topicSelect(skill.id)}
+                          <Checkbox
+                            checked={config.independentFoundational.includes(skill.id)}
+                            onCheckedChange={checked => toggleFoundational(skill.id, checked === true)}
+                            className="mx-2"
+                          />
+                          <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                            onClick={() => removeCatalogSkill(tierIdx, skillIdx)}>
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={() => addSkillToTier(tierIdx)}>
+                        <Plus className="h-3 w-3" />Add skill
+                      </Button>
+                    </div>
+                  ))}
+                  <Button variant="outline" size="sm" className="h-7 gap-1 text-xs"
+                    onClick={() => update({
+                      ...config,
+                      catalog: { ...config.catalog, tiers: [...config.catalog.tiers, { name: 'NEW TIER', skills: [] }] },
+                    })}>
+                    <Plus className="h-3 w-3" />Add tier
+                  </Button>
+                  <p className="text-[10px] text-muted-foreground">Tiers without skills are dropped on save.</p>
+
+                  {mappedOutsideCatalog.length > 0 && (
+                    <div className="space-y-1.5 border rounded-lg p-2">
+                      <p className="text-xs font-semibold">Mapped outside the catalog</p>
+                      <p className="text-[10px] text-muted-foreground">
+                        Skill IDs with a curriculum position that the catalog does not list.
+                      </p>
+                      {mappedOutsideCatalog.map(skillId => (
+                        <div key={skillId} className="flex items-center gap-1.5">
+                          <span className="flex-1 text-xs font-mono truncate">{skillId}</span>
+                          {topicSelect(skillId)}
+                          <Checkbox
+                            checked={config.independentFoundational.includes(skillId)}
+                            onCheckedChange={checked => toggleFoundational(skillId, checked === true)}
+                            className="mx-2"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </TabsContent>
+
+                {/* Mandatory edges */}
+                <TabsContent value="edges" className="mt-0 space-y-1.5">
+                  <datalist id="domain-skill-ids">
+                    {[...knownIds].sort().map(id => <option key={id} value={id} />)}
+                  </datalist>
+                  {config.mandatoryEdges.map((edge, idx) => {
+                    const flagged = flaggedEdges.has(`${edge.from}->${edge.to}`);
+                    return (
+                      <div key={`${edge.from}-${edge.to}-${idx}`}
+                        className={cn('flex items-center gap-1.5 rounded-md px-1', flagged && 'bg-destructive/10')}>
+                        <span className="w-40 text-xs font-mono truncate" title={edge.from}>{edge.from}</span>
+                        <ArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                        <span className="w-40 text-xs font-mono truncate" title={edge.to}>{edge.to}</span>
+                        <Input
+                          value={edge.reason}
+                          onChange={e => update({
+                            ...config,
+                            mandatoryEdges: config.mandatoryEdges.map((m, i) => (i === idx ? { ...m, reason: e.target.value } : m)),
+                          })}
+                          placeholder="Reason"
+                          className="h-7 text-xs"
+                        />
+                        <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0 text-muted-foreground hover:text-destructive"
+                          onClick={() => update({ ...config, mandatoryEdges: config.mandatoryEdges.filter((_, i) => i !== idx) })}>
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                  <div className="flex items-center gap-1.5 pt-2 px-1">
+                    <Input list="domain-skill-ids" value={newEdge.from} placeholder="Prerequisite"
+                      onChange={e => setNewEdge(prev => ({ ...prev, from: e.target.value }))}
+                      className="h-7 w-40 text-xs font-mono" />
+                    <ArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                    <Input list="domain-skill-ids" value={newEdge.to} placeholder="Dependent"
+                      onChange={e => setNewEdge(prev => ({ ...prev, to: e.target.value }))}
+                      className="h-7 w-40 text-xs font-mono" />
+                    <Input value={newEdge.reason} placeholder="Reason"
+                      onChange={e => setNewEdge(prev => ({ ...prev, reason: e.target.value }))}
+                      className="h-7 text-xs" />
+                    <Button variant="outline" size="sm" className="h-7 gap-1 text-xs shrink-0"
+                      disabled={!newEdge.from.trim() || !newEdge.to.trim()} onClick={addEdge}>
+                      <Plus className="h-3 w-3" />Add
+                    </Button>
+                  </div>
+                </TabsContent>
+              </ScrollArea>
+            </Tabs>
+
+            {/* Live validation + DAG preview */}
+            <div className="flex flex-col gap-3 min-h-0">
+              <div className="border rounded-lg p-2 space-y-1.5">
+                <p className="text-xs font-semibold flex items-center gap-1.5">
+                  {errorCount > 0 ? (
+                    <AlertTriangle className="h-3.5 w-3.5 text-destructive" />
+                  ) : (
+                    <CheckCircle2 className="h-3.5 w-3.5 text-green-600" />
+                  )}
+                  Validation
+                  {issues.length > 0 && (
+                    <Badge variant={errorCount > 0 ? 'destructive' : 'secondary'} className="text-[10px] ml-auto">
+                      {errorCount} errors · {issues.length - errorCount} warnings
+                    </Badge>
+                  )}
+                </p>
+                {issues.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Edges form a DAG, every catalog skill has a topic, and no foundational pair is joined.
+                  </p>
+                ) : (
+                  <ScrollArea className="h-40">
+                    <ul className="space-y-1 pr-2">
+                      {issues.map((issue, idx) => (
+                        <li key={idx} className={cn(
+                          'text-[11px] leading-snug',
+                          issue.severity === 'error' ? 'text-destructive' : 'text-muted-foreground'
+                        )}>
+                          {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                )}
+              </div>
+
+              <div className="border rounded-lg p-2 space-y-1.5 min-h-0 flex-1 flex flex-col">
+                <p className="text-xs font-semibold">Mandatory Edge DAG</p>
+                {dagLevels ? (
+                  <ScrollArea className="flex-1">
+                    <div className="space-y-2 pr-2">
+                      {dagLevels.map((row, level) => (
+                        <div key={level} className="space-y-1">
+                          <p className="text-[10px] text-muted-foreground">Depth {level}</p>
+                          <div className="flex flex-wrap gap-1">
+                            {row.map(skillId => (
+                              <Badge key={skillId} variant="outline" className={cn(
+                                'text-[10px] font-mono font-normal',
+                                config.independentFoundational.includes(skillId) && 'border-primary/60'
+                              )}>
+                                {skillId}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                ) : (
+                  <p className="text-xs text-destructive">Not a DAG: remove an edge from the cycle to see depths.</p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-2">
+          <Input
+            value={notes}
+            onChange={e => setNotes(e.target.value)}
+            placeholder="Change notes (optional)"
+            className="h-9 text-sm sm:mr-auto sm:max-w-sm"
+          />
+          <Button variant="outline" onClick={() => setOpen(false)}>Close</Button>
+          <Button onClick={handleSave} disabled={!config || !dirty || errorCount > 0 || saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save as v{(record?.version ?? 0) + 1}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
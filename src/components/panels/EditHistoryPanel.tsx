@@ -0,0 +1,109 @@
+import { formatDistanceToNow } from 'date-fns';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { cn } from '@/lib/utils';
+import type { EditHistoryEntry } from '@/hooks/useEditHistory';
+
+interface EditHistoryPanelProps {
+  past: EditHistoryEntry[];
+  future: EditHistoryEntry[];
+  isApplying: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onGoTo: (entryId: number | null) => void;
+}
+
+export function EditHistoryPanel({ past, future, isApplying, onUndo, onRedo, onGoTo }: EditHistoryPanelProps) {
+  // Newest first: undone steps on top, then the applied ones down to the start
+  const undone = [...future];
+  const applied = [...past].reverse();
+
+  return (
+    <div className="flex items-center gap-0.5">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        title="Undo (Ctrl+Z)"
+        disabled={past.length === 0 || isApplying}
+        onClick={onUndo}
+      >
+        <Undo2 className="h-3.5 w-3.5" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        title="Redo (Ctrl+Shift+Z)"
+        disabled={future.length === 0 || isApplying}
+        onClick={onRedo}
+      >
+        <Redo2 className="h-3.5 w-3.5" />
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="Edit history">
+            <History className="h-3.5 w-3.5" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 p-2">
+          <h4 className="font-semibold text-sm px-1 mb-1">Edit history</h4>
+          <p className="text-xs text-muted-foreground px-1 mb-2">
+            Click a step to go back or forward to it. Saving keeps the history.
+          </p>
+          <ScrollArea className="max-h-72">
+            <div className="space-y-0.5">
+              {undone.map(entry => (
+                <HistoryRow key={entry.id} entry={entry} undone disabled={isApplying} onClick={() => onGoTo(entry.id)} />
+              ))}
+              {applied.map((entry, i) => (
+                <HistoryRow key={entry.id} entry={entry} current={i === 0} disabled={isApplying} onClick={() => onGoTo(entry.id)} />
+              ))}
+              <button
+                className={cn(
+                  'w-full text-left rounded px-2 py-1 text-xs hover:bg-muted/50',
+                  applied.length === 0 ? 'font-medium text-foreground' : 'text-muted-foreground'
+                )}
+                disabled={isApplying}
+                onClick={() => onGoTo(null)}
+              >
+                Start of session
+              </button>
+            </div>
+          </ScrollArea>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
+
+function HistoryRow({
+  entry,
+  undone,
+  current,
+  disabled,
+  onClick,
+}: {
+  entry: EditHistoryEntry;
+  undone?: boolean;
+  current?: boolean;
+  disabled: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      className={cn(
+        'w-full text-left rounded px-2 py-1 hover:bg-muted/50',
+        current && 'bg-primary/5',
+        undone && 'opacity-50'
+      )}
+      disabled={disabled}
+      onClick={onClick}
+    >
+      <div className={cn('text-xs truncate', undone && 'line-through', current && 'font-medium')}>{entry.label}</div>
+      <div className="text-[10px] text-muted-foreground">{formatDistanceToNow(entry.at, { addSuffix: true })}</div>
+    </button>
+  );
+}
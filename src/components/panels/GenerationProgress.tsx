@@ -1,7 +1,9 @@
 import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
-import { Loader2, Pause, Play, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Pause, Play, RotateCcw, X } from 'lucide-react';
 import { BatchProgress } from '@/hooks/useBatchGeneration';
+import { toEventPayload, type GenerationJob, type GenerationJobEvent } from '@/hooks/useGenerationJob';
 
 interface GenerationProgressProps {
   progress: BatchProgress;
@@ -9,17 +11,97 @@ interface GenerationProgressProps {
   onResume?: () => void;
   onCancel?: () => void;
   hasCheckpoint?: boolean;
+  pendingJob?: GenerationJob | null;
+  events?: GenerationJobEvent[];
 }
 
-export function GenerationProgress({ 
-  progress, 
-  onPause, 
-  onResume, 
+// Number of recent events listed under the progress bar
+const RECENT_EVENT_COUNT = 4;
+
+const REPAIR_LABELS: Record<string, string> = {
+  topicFilter: 'Topic filter',
+  independenceRule: 'Independence rule',
+  mandatoryEdges: 'Mandatory edges',
+  stripBidirectional: 'Bidirectional strip',
+  transitiveReduce: 'Transitive reduction',
+  breakCycles: 'Cycle breaking',
+  orphanCleanup: 'Orphan cleanup',
+};
+
+/**
+ * One-line description of a streamed generate-graph event
+ */
+function describeEvent(event: GenerationJobEvent): string {
+  const payload = toEventPayload(event);
+  const batch = `Batch ${event.batch_index + 1}`;
+  switch (payload.type) {
+    case 'started':
+      return `${batch}: started with ${payload.questions} questions`;
+    case 'questions_analyzed':
+      return `${batch}: analyzed ${payload.count} questions`;
+    case 'skills_proposed': {
+      const names = payload.skills.slice(0, 3).map(s => s.name).join(', ');
+      return `${batch}: proposed ${payload.count} skills${names ? ` (${names}${payload.count > 3 ? ', …' : ''})` : ''}`;
+    }
+    case 'edges_proposed':
+      return `${batch}: proposed ${payload.count} edges`;
+    case 'repair':
+      return `${batch}: ${REPAIR_LABELS[payload.step] || payload.step} ${payload.before} → ${payload.after} ${payload.unit}`;
+    default:
+      return `${batch}: ${event.event_type}`;
+  }
+}
+
+/**
+ * Running totals across all streamed events of the job
+ */
+function summarizeEvents(events: GenerationJobEvent[]) {
+  const totals = { questionsAnalyzed: 0, skillsProposed: 0, edgesProposed: 0, edgesRepaired: 0 };
+  for (const event of events) {
+    const payload = toEventPayload(event);
+    if (payload.type === 'questions_analyzed') totals.questionsAnalyzed += payload.count;
+    else if (payload.type === 'skills_proposed') totals.skillsProposed += payload.count;
+    else if (payload.type === 'edges_proposed') totals.edgesProposed += payload.count;
+    else if (payload.type === 'repair' && payload.unit === 'edges' && payload.before > payload.after) {
+      totals.edgesRepaired += payload.before - payload.after;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Prompt for a job that is not being followed: paused, still running
+ * elsewhere, finished while away, or finished with failed batches.
+ */
+function describePendingJob(job: GenerationJob | null | undefined): { title: string; action: string; retry: boolean } {
+  if (!job) return { title: 'Resume previous generation?', action: 'Resume', retry: false };
+
+  const batches = `${job.completed_batches} of ${job.total_batches} batches`;
+  switch (job.status) {
+    case 'paused':
+      return { title: `Resume previous generation? (${batches} done)`, action: 'Resume', retry: false };
+    case 'failed':
+      return { title: `Previous generation failed${job.error ? `: ${job.error}` : ''}`, action: 'Retry', retry: true };
+    case 'completed':
+      return job.failed_batches > 0
+        ? { title: `Previous generation finished with ${job.failed_batches} failed batch(es)`, action: 'Retry failed', retry: true }
+        : { title: 'A generation finished while you were away', action: 'Load results', retry: false };
+    default:
+      return { title: `A generation is running on the server (${batches} done)`, action: 'Follow', retry: false };
+  }
+}
+
+export function GenerationProgress({
+  progress,
+  onPause,
+  onResume,
   onCancel,
-  hasCheckpoint 
+  hasCheckpoint,
+  pendingJob,
+  events = [],
 }: GenerationProgressProps) {
-  const percentage = progress.totalBatches > 0 
-    ? Math.round((progress.currentBatch / progress.totalBatches) * 100) 
+  const percentage = progress.totalBatches > 0
+    ? Math.round((progress.currentBatch / progress.totalBatches) * 100)
     : 0;
 
   if (!progress.isProcessing && !hasCheckpoint) {
@@ -28,11 +110,12 @@ export function GenerationProgress({
 
   // Show resume button if there's a checkpoint but not processing
   if (!progress.isProcessing && hasCheckpoint) {
+    const prompt = describePendingJob(pendingJob);
     return (
       <div className="rounded-lg border border-border bg-card p-4 space-y-3">
         <div className="flex items-center justify-between">
           <div className="text-sm font-medium text-foreground">
-            Resume previous generation?
+            {prompt.title}
           </div>
           <div className="flex gap-2">
             <Button size="sm" variant="outline" onClick={onCancel}>
@@ -40,8 +123,8 @@ export function GenerationProgress({
               Discard
             </Button>
             <Button size="sm" onClick={onResume}>
-              <Play className="h-3 w-3 mr-1" />
-              Resume
+              {prompt.retry ? <RotateCcw className="h-3 w-3 mr-1" /> : <Play className="h-3 w-3 mr-1" />}
+              {prompt.action}
             </Button>
           </div>
         </div>
@@ -49,26 +132,45 @@ export function GenerationProgress({
     );
   }
 
+  const statusLabel = progress.status === 'classifying'
+    ? 'Classifying questions into topics...'
+    : progress.status === 'queued' || progress.totalBatches === 0
+      ? 'Starting generation job...'
+      : `Processing batch ${progress.currentBatch} of ${progress.totalBatches}`;
+
   return (
     <div className="rounded-lg border border-border bg-card p-4 space-y-3">
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
           <Loader2 className="h-4 w-4 animate-spin text-primary" />
           <span className="text-sm font-medium text-foreground">
-            Processing batch {progress.currentBatch} of {progress.totalBatches}
+            {statusLabel}
             {progress.concurrentBatches && progress.concurrentBatches > 1 && (
               <span className="text-xs text-muted-foreground ml-1">
                 (⚡ {progress.concurrentBatches}x parallel)
               </span>
             )}
           </span>
+          {!!progress.failedBatches && (
+            <Badge variant="destructive" className="h-5 text-xs">
+              {progress.failedBatches} failed
+            </Badge>
+          )}
+        </div>
+        <div className="flex gap-1">
+          {onPause && (
+            <Button size="sm" variant="ghost" onClick={onPause}>
+              <Pause className="h-3 w-3 mr-1" />
+              Pause
+            </Button>
+          )}
+          {onCancel && (
+            <Button size="sm" variant="ghost" onClick={onCancel}>
+              <X className="h-3 w-3 mr-1" />
+              Cancel
+            </Button>
+          )}
         </div>
-        {onPause && (
-          <Button size="sm" variant="ghost" onClick={onPause}>
-            <Pause className="h-3 w-3 mr-1" />
-            Pause
-          </Button>
-        )}
       </div>
 
       <Progress value={percentage} className="h-2" />
@@ -81,6 +183,31 @@ export function GenerationProgress({
           {progress.estimatedTimeRemaining && `~${progress.estimatedTimeRemaining} remaining`}
         </span>
       </div>
+
+      {events.length > 0 && <EventFeed events={events} />}
+    </div>
+  );
+}
+
+function EventFeed({ events }: { events: GenerationJobEvent[] }) {
+  const totals = summarizeEvents(events);
+  const recent = events.slice(-RECENT_EVENT_COUNT).reverse();
+
+  return (
+    <div className="space-y-2 border-t border-border pt-2">
+      <div className="flex flex-wrap gap-1">
+        <Badge variant="secondary" className="h-5 text-xs">{totals.questionsAnalyzed} questions analyzed</Badge>
+        <Badge variant="secondary" className="h-5 text-xs">{totals.skillsProposed} skills proposed</Badge>
+        <Badge variant="secondary" className="h-5 text-xs">{totals.edgesProposed} edges proposed</Badge>
+        {totals.edgesRepaired > 0 && (
+          <Badge variant="outline" className="h-5 text-xs">{totals.edgesRepaired} edges removed by repair</Badge>
+        )}
+      </div>
+      <ul className="space-y-0.5 text-xs text-muted-foreground font-mono">
+        {recent.map(event => (
+          <li key={event.id} className="truncate">{describeEvent(event)}</li>
+        ))}
+      </ul>
     </div>
   );
 }
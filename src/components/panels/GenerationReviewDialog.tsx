@@ -0,0 +1,269 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Check, GitMerge, Pencil, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { cn } from '@/lib/utils';
+import type { GenerationReview } from '@/hooks/useBatchGeneration';
+import {
+  isEdgeApplicable,
+  type EdgeReviewItem,
+  type MergeReviewItem,
+  type ReviewDecision,
+  type ReviewItem,
+  type SkillReviewItem,
+} from '@/lib/graph/reviewQueue';
+
+interface GenerationReviewDialogProps {
+  review: GenerationReview | null;
+  onApply: (items: ReviewItem[]) => Promise<void>;
+  onDiscard: () => Promise<void>;
+  onDefer: () => void;
+}
+
+type ReviewKind = ReviewItem['kind'];
+
+const DECISION_BADGES: Record<ReviewDecision, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  pending: { label: 'Pending', variant: 'outline' },
+  accepted: { label: 'Accepted', variant: 'default' },
+  rejected: { label: 'Rejected', variant: 'destructive' },
+  renamed: { label: 'Renamed', variant: 'secondary' },
+};
+
+export function GenerationReviewDialog({ review, onApply, onDiscard, onDefer }: GenerationReviewDialogProps) {
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [renamingKey, setRenamingKey] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setItems(review?.items ?? []);
+    setRenamingKey(null);
+  }, [review]);
+
+  const byKind = useMemo(() => ({
+    skill: items.filter((i): i is SkillReviewItem => i.kind === 'skill'),
+    merge: items.filter((i): i is MergeReviewItem => i.kind === 'merge'),
+    edge: items.filter((i): i is EdgeReviewItem => i.kind === 'edge'),
+  }), [items]);
+
+  const nodeNames = useMemo(() => {
+    const names = new Map<string, string>();
+    review?.base?.globalNodes.forEach(n => names.set(n.id, n.name));
+    review?.proposed.globalNodes.forEach(n => names.set(n.id, n.name));
+    for (const item of items) {
+      if (item.kind !== 'edge' && item.decision === 'renamed' && item.renameTo) names.set(item.node.id, item.renameTo);
+    }
+    return names;
+  }, [review, items]);
+
+  // Items are copied from the review after the first render, so pick the tab from the review itself
+  const initialTab: ReviewKind = review?.items.some(i => i.kind === 'skill')
+    ? 'skill'
+    : review?.items.some(i => i.kind === 'merge') ? 'merge' : 'edge';
+
+  const pendingCount = items.filter(i => i.decision === 'pending').length;
+  const committedCount = items.filter(i =>
+    i.kind === 'edge' ? i.decision === 'accepted' && isEdgeApplicable(i, items) : i.decision === 'accepted' || i.decision === 'renamed'
+  ).length;
+
+  const decide = (key: string, decision: ReviewDecision, renameTo?: string) => {
+    setItems(prev => prev.map(i => (i.key === key ? { ...i, decision, renameTo } : i)));
+  };
+
+  const decideAll = (kind: ReviewKind, decision: 'accepted' | 'rejected') => {
+    setItems(prev => prev.map(i => (i.kind === kind ? { ...i, decision, renameTo: undefined } : i)));
+  };
+
+  const startRename = (item: SkillReviewItem | MergeReviewItem) => {
+    setRenamingKey(item.key);
+    setRenameValue(item.renameTo ?? item.node.name);
+  };
+
+  const commitRename = () => {
+    if (renamingKey && renameValue.trim()) decide(renamingKey, 'renamed', renameValue.trim());
+    setRenamingKey(null);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderDecisionButtons = (item: ReviewItem, renameLabel?: string) => (
+    <div className="flex items-center gap-1 shrink-0">
+      <Badge variant={DECISION_BADGES[item.decision].variant} className="h-5 text-xs">
+        {DECISION_BADGES[item.decision].label}
+      </Badge>
+      <Button size="icon" variant="ghost" className="h-7 w-7" title="Accept" onClick={() => decide(item.key, 'accepted')}>
+        <Check className="h-3.5 w-3.5" />
+      </Button>
+      <Button size="icon" variant="ghost" className="h-7 w-7" title="Reject" onClick={() => decide(item.key, 'rejected')}>
+        <X className="h-3.5 w-3.5" />
+      </Button>
+      {renameLabel && item.kind !== 'edge' && (
+        <Button size="icon" variant="ghost" className="h-7 w-7" title={renameLabel} onClick={() => startRename(item)}>
+          <Pencil className="h-3.5 w-3.5" />
+        </Button>
+      )}
+    </div>
+  );
+
+  const renderRenameInput = (item: SkillReviewItem | MergeReviewItem) => renamingKey === item.key && (
+    <div className="flex gap-2 mt-2">
+      <Input
+        value={renameValue}
+        onChange={(e) => setRenameValue(e.target.value)}
+        className="h-8 text-sm"
+        autoFocus
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commitRename();
+          if (e.key === 'Escape') setRenamingKey(null);
+        }}
+      />
+      <Button size="sm" className="h-8" onClick={commitRename} disabled={!renameValue.trim()}>
+        Rename
+      </Button>
+    </div>
+  );
+
+  const renderBulkActions = (kind: ReviewKind) => (
+    <div className="flex justify-end gap-2 pb-2">
+      <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => decideAll(kind, 'rejected')}>
+        Reject all
+      </Button>
+      <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => decideAll(kind, 'accepted')}>
+        Accept all
+      </Button>
+    </div>
+  );
+
+  return (
+    <Dialog open={!!review} onOpenChange={(open) => { if (!open) onDefer(); }}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Review generated changes</DialogTitle>
+          <DialogDescription>
+            Only accepted items are added to the graph. Pending items count as rejected.
+            Closing this dialog keeps the results for later review.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue={initialTab}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="skill">New skills ({byKind.skill.length})</TabsTrigger>
+            <TabsTrigger value="merge">Merges ({byKind.merge.length})</TabsTrigger>
+            <TabsTrigger value="edge">Edges ({byKind.edge.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="skill">
+            {byKind.skill.length > 0 && renderBulkActions('skill')}
+            <ScrollArea className="h-[360px] pr-3">
+              <div className="space-y-2">
+                {byKind.skill.map(item => (
+                  <div key={item.key} className="rounded-md border border-border p-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-foreground truncate">
+                          {item.decision === 'renamed' ? item.renameTo : item.node.name}
+                          {item.decision === 'renamed' && (
+                            <span className="text-xs text-muted-foreground line-through ml-2">{item.node.name}</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-muted-foreground line-clamp-2">{item.node.description}</div>
+                      </div>
+                      {renderDecisionButtons(item, 'Rename')}
+                    </div>
+                    {renderRenameInput(item)}
+                  </div>
+                ))}
+                {byKind.skill.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-8">No new skills proposed.</p>
+                )}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="merge">
+            {byKind.merge.length > 0 && renderBulkActions('merge')}
+            <ScrollArea className="h-[360px] pr-3">
+              <div className="space-y-2">
+                {byKind.merge.map(item => (
+                  <div key={item.key} className="rounded-md border border-border p-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-1.5 text-sm font-medium text-foreground">
+                          <span className="truncate">{item.decision === 'renamed' ? item.renameTo : item.node.name}</span>
+                          <GitMerge className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                          <span className={cn('truncate', item.decision === 'renamed' && 'line-through text-muted-foreground')}>
+                            {item.target.name}
+                          </span>
+                        </div>
+                        <div className="text-xs text-muted-foreground">{item.reason}</div>
+                      </div>
+                      {renderDecisionButtons(item, 'Keep as a separate skill under a new name')}
+                    </div>
+                    {renderRenameInput(item)}
+                  </div>
+                ))}
+                {byKind.merge.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-8">No merges into existing skills proposed.</p>
+                )}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="edge">
+            {byKind.edge.length > 0 && renderBulkActions('edge')}
+            <ScrollArea className="h-[360px] pr-3">
+              <div className="space-y-2">
+                {byKind.edge.map(item => {
+                  const applicable = isEdgeApplicable(item, items);
+                  return (
+                    <div key={item.key} className={cn('rounded-md border border-border p-2', !applicable && 'opacity-50')}>
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium text-foreground truncate">
+                            {nodeNames.get(item.edge.from) ?? item.edge.from} → {nodeNames.get(item.edge.to) ?? item.edge.to}
+                          </div>
+                          <div className="text-xs text-muted-foreground line-clamp-2">
+                            {applicable ? item.edge.reason : 'Dropped: an endpoint skill is not accepted'}
+                          </div>
+                        </div>
+                        {renderDecisionButtons(item)}
+                      </div>
+                    </div>
+                  );
+                })}
+                {byKind.edge.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-8">No new edges proposed.</p>
+                )}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="outline" onClick={() => run(onDiscard)} disabled={isSubmitting}>
+            Discard all
+          </Button>
+          <div className="flex items-center gap-2">
+            {pendingCount > 0 && (
+              <span className="text-xs text-muted-foreground">{pendingCount} pending</span>
+            )}
+            <Button onClick={() => run(() => onApply(items))} disabled={isSubmitting}>
+              Apply {committedCount} change{committedCount === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
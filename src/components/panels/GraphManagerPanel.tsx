@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { Save, FolderOpen, Plus, Trash2, Loader2, Copy, RefreshCw, Gauge, Layers } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Save, FolderOpen, Plus, Trash2, Loader2, Copy, RefreshCw, Gauge, Layers, Scale, AlertTriangle, History, Download, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -29,10 +29,27 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { SavedGraphMeta } from '@/hooks/useGraphPersistence';
+import type { GraphVersionMeta } from '@/hooks/useGraphVersions';
+import type { KnowledgeGraph } from '@/types/graph';
+import { GraphVersionHistoryDialog } from './GraphVersionHistoryDialog';
 import { useRegenerateWeights } from '@/hooks/useRegenerateWeights';
 import { useRegenerateDifficulty } from '@/hooks/useRegenerateDifficulty';
+import { useIrtCalibration } from '@/hooks/useIrtCalibration';
+import type { IRTModelType } from '@/lib/mastery/constants';
+import { EXPORT_FORMATS, IMPORT_FILE_TYPES, type GraphExportFormat } from '@/lib/interchange';
 import { formatDistanceToNow } from 'date-fns';
 
 interface GraphManagerPanelProps {
@@ -41,7 +58,7 @@ interface GraphManagerPanelProps {
   hasGraph: boolean;
   isLoading: boolean;
   isSaving: boolean;
-  onSave: (name: string, description?: string) => void;
+  onSave: (name: string, description?: string, message?: string) => void;
   onLoad: (graphId: string) => void;
   onDelete: (graphId: string) => void;
   onNew: () => void;
@@ -49,6 +66,9 @@ interface GraphManagerPanelProps {
   onGraphRegenerated?: () => void;
   onRecomputeLevels?: () => void;
   isRecomputingLevels?: boolean;
+  onRestoreVersion?: (snapshot: KnowledgeGraph, version: GraphVersionMeta) => Promise<void>;
+  onExport?: (format: GraphExportFormat) => void;
+  onImport?: (file: File) => void;
 }
 
 export function GraphManagerPanel({
@@ -65,28 +85,44 @@ export function GraphManagerPanel({
   onGraphRegenerated,
   onRecomputeLevels,
   isRecomputingLevels,
+  onRestoreVersion,
+  onExport,
+  onImport,
 }: GraphManagerPanelProps) {
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [copyDialogOpen, setCopyDialogOpen] = useState(false);
   const [regenerateWeightsDialogOpen, setRegenerateWeightsDialogOpen] = useState(false);
   const [regenerateDifficultyDialogOpen, setRegenerateDifficultyDialogOpen] = useState(false);
+  const [calibrationDialogOpen, setCalibrationDialogOpen] = useState(false);
+  const [irtModel, setIrtModel] = useState<IRTModelType>('2pl');
+  const [forceRefresh, setForceRefresh] = useState(false);
   const [copySourceId, setCopySourceId] = useState<string | null>(null);
   const [graphName, setGraphName] = useState('');
   const [graphDescription, setGraphDescription] = useState('');
+  const [versionMessage, setVersionMessage] = useState('');
+  const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
   const [copyName, setCopyName] = useState('');
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   
   const { progress: weightsProgress, regenerate: regenerateWeights, isRegenerating: isRegeneratingWeights } = useRegenerateWeights();
   const { progress: difficultyProgress, regenerate: regenerateDifficulty, isRegenerating: isRegeneratingDifficulty } = useRegenerateDifficulty();
+  const { calibrate, loadDisagreements, isCalibrating, disagreements } = useIrtCalibration();
+
+  // Load IRT vs AI rubric flags for the current graph
+  useEffect(() => {
+    if (currentGraphId) loadDisagreements(currentGraphId);
+  }, [currentGraphId, loadDisagreements]);
 
   const currentGraph = savedGraphs.find(g => g.id === currentGraphId);
 
   const handleSave = () => {
     if (!graphName.trim()) return;
-    onSave(graphName.trim(), graphDescription.trim() || undefined);
+    onSave(graphName.trim(), graphDescription.trim() || undefined, versionMessage.trim() || undefined);
     setSaveDialogOpen(false);
     setGraphName('');
     setGraphDescription('');
+    setVersionMessage('');
   };
 
   const handleConfirmDelete = () => {
@@ -111,9 +147,16 @@ export function GraphManagerPanel({
     }
   };
 
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires
+    e.target.value = '';
+    if (file) onImport?.(file);
+  };
+
   const handleRegenerateWeights = async () => {
     if (!currentGraphId) return;
-    const success = await regenerateWeights(currentGraphId);
+    const success = await regenerateWeights(currentGraphId, { forceRefresh });
     if (success) {
       setRegenerateWeightsDialogOpen(false);
       onGraphRegenerated?.();
@@ -122,13 +165,19 @@ export function GraphManagerPanel({
 
   const handleRegenerateDifficulty = async () => {
     if (!currentGraphId) return;
-    const success = await regenerateDifficulty(currentGraphId);
+    const success = await regenerateDifficulty(currentGraphId, { forceRefresh });
     if (success) {
       setRegenerateDifficultyDialogOpen(false);
+      loadDisagreements(currentGraphId);
       onGraphRegenerated?.();
     }
   };
 
+  const handleCalibrate = async () => {
+    if (!currentGraphId) return;
+    await calibrate(currentGraphId, irtModel);
+  };
+
   return (
     <div className="flex items-center gap-2">
       {/* Load/My Graphs Dropdown */}
@@ -162,6 +211,7 @@ export function GraphManagerPanel({
                   <div className="font-medium truncate">{graph.name}</div>
                   <div className="text-xs text-muted-foreground">
                     {graph.total_skills} KPs · {graph.total_questions} questions
+                    {graph.prompt_version && ` · prompt ${graph.prompt_version}`}
                   </div>
                   <div className="text-xs text-muted-foreground">
                     {formatDistanceToNow(new Date(graph.updated_at), { addSuffix: true })}
@@ -202,8 +252,23 @@ export function GraphManagerPanel({
             <Plus className="h-4 w-4" />
             New Graph
           </DropdownMenuItem>
+          {onImport && (
+            <DropdownMenuItem onClick={() => importInputRef.current?.click()} className="gap-2" disabled={isSaving}>
+              <Upload className="h-4 w-4" />
+              Import Graph…
+            </DropdownMenuItem>
+          )}
         </DropdownMenuContent>
       </DropdownMenu>
+      {onImport && (
+        <input
+          ref={importInputRef}
+          type="file"
+          accept={IMPORT_FILE_TYPES}
+          className="hidden"
+          onChange={handleImportFile}
+        />
+      )}
 
       {/* Save Button/Dialog */}
       <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
@@ -252,6 +317,17 @@ export function GraphManagerPanel({
                 onChange={(e) => setGraphDescription(e.target.value)}
               />
             </div>
+            <div className="space-y-2">
+              <label htmlFor="version-message" className="text-sm font-medium">
+                Version message (optional)
+              </label>
+              <Input
+                id="version-message"
+                placeholder="What changed since the last save"
+                value={versionMessage}
+                onChange={(e) => setVersionMessage(e.target.value)}
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
@@ -264,6 +340,50 @@ export function GraphManagerPanel({
         </DialogContent>
       </Dialog>
 
+      {/* Export Dropdown */}
+      {onExport && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-1.5" disabled={!hasGraph}>
+              <Download className="h-3.5 w-3.5" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Export Graph As</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {(Object.keys(EXPORT_FORMATS) as GraphExportFormat[]).map(format => (
+              <DropdownMenuItem key={format} onClick={() => onExport(format)}>
+                <span className="flex-1">{EXPORT_FORMATS[format].label}</span>
+                <span className="ml-4 text-xs text-muted-foreground">.{EXPORT_FORMATS[format].extension}</span>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {/* Version History Button/Dialog */}
+      {onRestoreVersion && (
+        <>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5"
+            disabled={!currentGraphId}
+            onClick={() => setHistoryDialogOpen(true)}
+          >
+            <History className="h-3.5 w-3.5" />
+            History
+          </Button>
+          <GraphVersionHistoryDialog
+            open={historyDialogOpen}
+            onOpenChange={setHistoryDialogOpen}
+            graphId={currentGraphId}
+            onRestore={onRestoreVersion}
+          />
+        </>
+      )}
+
       {/* Regenerate Weights Button/Dialog */}
       <Dialog open={regenerateWeightsDialogOpen} onOpenChange={setRegenerateWeightsDialogOpen}>
         <DialogTrigger asChild>
@@ -295,6 +415,18 @@ export function GraphManagerPanel({
               <p className="text-sm text-muted-foreground text-center">{weightsProgress.message}</p>
             </div>
           )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="weights-force-refresh" className="text-sm font-normal">
+              Force refresh <span className="text-muted-foreground">(ignore cached AI responses)</span>
+            </Label>
+            <Switch
+              id="weights-force-refresh"
+              checked={forceRefresh}
+              onCheckedChange={setForceRefresh}
+              disabled={isRegeneratingWeights}
+            />
+          </div>
           
           <DialogFooter>
             <Button 
@@ -372,6 +504,18 @@ export function GraphManagerPanel({
               <p className="text-sm text-muted-foreground text-center">{difficultyProgress.message}</p>
             </div>
           )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="difficulty-force-refresh" className="text-sm font-normal">
+              Force refresh <span className="text-muted-foreground">(ignore cached AI responses)</span>
+            </Label>
+            <Switch
+              id="difficulty-force-refresh"
+              checked={forceRefresh}
+              onCheckedChange={setForceRefresh}
+              disabled={isRegeneratingDifficulty}
+            />
+          </div>
           
           <DialogFooter>
             <Button 
@@ -402,6 +546,106 @@ export function GraphManagerPanel({
         </DialogContent>
       </Dialog>
 
+      {/* IRT Calibration Button/Dialog */}
+      <Dialog open={calibrationDialogOpen} onOpenChange={setCalibrationDialogOpen}>
+        <DialogTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5"
+            disabled={!currentGraphId || isCalibrating}
+          >
+            {isCalibrating ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <Scale className="h-3.5 w-3.5" />
+            )}
+            Calibrate
+            {disagreements.length > 0 && (
+              <Badge variant="destructive" className="h-4 px-1 text-[10px]">
+                {disagreements.length}
+              </Badge>
+            )}
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Calibrate Difficulty From Attempts</DialogTitle>
+            <DialogDescription>
+              Estimate each question's difficulty (and discrimination for 2PL) from students' first attempts using Item Response Theory. Questions where the empirical difficulty disagrees strongly with the AI rubric are flagged below.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3 py-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Model</span>
+              <Select value={irtModel} onValueChange={(v) => setIrtModel(v as IRTModelType)}>
+                <SelectTrigger className="h-8 w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1pl">1PL (difficulty only)</SelectItem>
+                  <SelectItem value="2pl">2PL (difficulty + discrimination)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {disagreements.length > 0 ? (
+              <div className="space-y-2">
+                <p className="text-sm font-medium flex items-center gap-1.5">
+                  <AlertTriangle className="h-4 w-4 text-destructive" />
+                  {disagreements.length} questions disagree with the AI rubric
+                </p>
+                <ScrollArea className="h-56 rounded-md border">
+                  <div className="p-2 space-y-2">
+                    {disagreements.map(d => (
+                      <div key={d.questionId} className="text-xs space-y-0.5">
+                        <p className="line-clamp-2">{d.questionText}</p>
+                        <p className="text-muted-foreground">
+                          {d.gap > 0 ? 'Harder' : 'Easier'} for students than the AI judged ·
+                          IRT b = {d.irtDifficulty.toFixed(2)} · AI multiplier = {d.weightageMultiplier.toFixed(1)}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No disagreements flagged from the last calibration.
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setCalibrationDialogOpen(false)}
+              disabled={isCalibrating}
+            >
+              Close
+            </Button>
+            <Button
+              onClick={handleCalibrate}
+              disabled={isCalibrating}
+              className="gap-2"
+            >
+              {isCalibrating ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Calibrating...
+                </>
+              ) : (
+                <>
+                  <Scale className="h-4 w-4" />
+                  Run Calibration
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation */}
       <AlertDialog open={!!deleteConfirmId} onOpenChange={() => setDeleteConfirmId(null)}>
         <AlertDialogContent>
@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowRight, Loader2, RotateCcw } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useGraphVersions, type GraphVersionMeta } from '@/hooks/useGraphVersions';
+import { diffGraphVersions, isEmptyDiff, type GraphVersionDiff } from '@/lib/graph/versionDiff';
+import type { KnowledgeGraph } from '@/types/graph';
+
+interface GraphVersionHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  graphId: string | null;
+  onRestore: (snapshot: KnowledgeGraph, version: GraphVersionMeta) => Promise<void>;
+}
+
+// Entries shown per diff section before collapsing into a count
+const MAX_DIFF_ENTRIES = 30;
+
+function versionLabel(version: GraphVersionMeta): string {
+  return version.message || (version.is_autosave ? 'Autosave' : 'Saved');
+}
+
+export function GraphVersionHistoryDialog({ open, onOpenChange, graphId, onRestore }: GraphVersionHistoryDialogProps) {
+  const { versions, loading, error, loadVersions, loadSnapshot } = useGraphVersions({ graphId, autoLoad: open });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<GraphVersionDiff | null>(null);
+  const [skillNames, setSkillNames] = useState<Map<string, string>>(new Map());
+  const [isDiffing, setIsDiffing] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const selected = versions.find(v => v.id === selectedId) ?? null;
+  const compare = versions.find(v => v.id === compareId) ?? null;
+
+  // Default to the latest version compared with the one before it
+  useEffect(() => {
+    if (!open || versions.length === 0) return;
+    if (!selectedId || !versions.some(v => v.id === selectedId)) {
+      setSelectedId(versions[0].id);
+      setCompareId(versions[1]?.id ?? null);
+    }
+  }, [open, versions, selectedId]);
+
+  useEffect(() => {
+    if (!selectedId || !compareId) {
+      setDiff(null);
+      return;
+    }
+    let cancelled = false;
+    setIsDiffing(true);
+    Promise.all([loadSnapshot(compareId), loadSnapshot(selectedId)])
+      .then(([before, after]) => {
+        if (cancelled) return;
+        setDiff(before && after ? diffGraphVersions(before, after) : null);
+        // Names from both sides, so edges and remaps of removed skills stay readable
+        setSkillNames(new Map([...(before?.globalNodes || []), ...(after?.globalNodes || [])].map(n => [n.id, n.name])));
+      })
+      .finally(() => {
+        if (!cancelled) setIsDiffing(false);
+      });
+    return () => { cancelled = true; };
+  }, [selectedId, compareId, loadSnapshot]);
+
+  const selectVersion = (version: GraphVersionMeta) => {
+    setSelectedId(version.id);
+    const previous = versions.find(v => v.version_number < version.version_number);
+    setCompareId(previous?.id ?? null);
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      const snapshot = await loadSnapshot(selected.id);
+      if (snapshot) {
+        await onRestore(snapshot, selected);
+        await loadVersions();
+      }
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const name = (id: string) => skillNames.get(id) ?? id;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            Every save is kept. Restoring a version saves it again as the newest version.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[280px_1fr] gap-4">
+          <ScrollArea className="h-[460px] pr-2">
+            <div className="space-y-1">
+              {loading && versions.length === 0 && (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                </div>
+              )}
+              {!loading && versions.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  {error || 'No versions yet. Save the graph to start its history.'}
+                </p>
+              )}
+              {versions.map(version => (
+                <button
+                  key={version.id}
+                  onClick={() => selectVersion(version)}
+                  className={cn(
+                    'w-full text-left rounded-md border p-2 transition-colors',
+                    version.id === selectedId ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50',
+                    version.id === compareId && 'border-dashed'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium truncate">v{version.version_number} · {versionLabel(version)}</span>
+                    {version.is_autosave && <Badge variant="outline" className="h-4 px-1 text-[10px] shrink-0">auto</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {version.author || 'Unknown author'} · {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {version.total_skills} KPs · {version.total_edges} edges · {version.total_questions} questions
+                  </div>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+
+          <div className="space-y-3 min-w-0">
+            {selected && (
+              <div className="flex items-center gap-2">
+                <Select value={compareId ?? undefined} onValueChange={setCompareId}>
+                  <SelectTrigger className="h-8 w-48 text-xs">
+                    <SelectValue placeholder="Compare with…" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.filter(v => v.id !== selected.id).map(v => (
+                      <SelectItem key={v.id} value={v.id} className="text-xs">
+                        v{v.version_number} · {versionLabel(v)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" />
+                <span className="text-sm font-medium">v{selected.version_number}</span>
+                <Button size="sm" className="ml-auto gap-1.5" onClick={handleRestore} disabled={isRestoring}>
+                  {isRestoring ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RotateCcw className="h-3.5 w-3.5" />}
+                  Restore v{selected.version_number}
+                </Button>
+              </div>
+            )}
+
+            <ScrollArea className="h-[420px] pr-3">
+              {isDiffing ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                </div>
+              ) : !compare ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  {selected ? 'This is the first version. Pick another version to compare with.' : 'Select a version.'}
+                </p>
+              ) : diff && isEmptyDiff(diff) ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No structural changes.</p>
+              ) : diff && (
+                <div className="space-y-3 text-sm">
+                  <DiffSection title="Added skills" tone="added" items={diff.addedSkills.map(n => n.name)} />
+                  <DiffSection title="Removed skills" tone="removed" items={diff.removedSkills.map(n => n.name)} />
+                  <DiffSection title="Renamed skills" items={diff.renamedSkills.map(r => `${r.from} → ${r.to}`)} />
+                  <DiffSection title="Added edges" tone="added" items={diff.addedEdges.map(e => `${name(e.from)} → ${name(e.to)}`)} />
+                  <DiffSection title="Removed edges" tone="removed" items={diff.removedEdges.map(e => `${name(e.from)} → ${name(e.to)}`)} />
+                  <DiffSection
+                    title="Retyped edges"
+                    items={diff.changedEdges.map(c =>
+                      `${name(c.after.from)} → ${name(c.after.to)}: ${c.before.relationshipType || 'requires'} → ${c.after.relationshipType || 'requires'}`
+                    )}
+                  />
+                  <DiffSection title="Added questions" tone="added" items={diff.addedQuestions} />
+                  <DiffSection title="Removed questions" tone="removed" items={diff.removedQuestions} />
+                  <DiffSection
+                    title="Remapped questions"
+                    items={diff.remappedQuestions.map(r => [
+                      r.question,
+                      ...r.addedSkills.map(id => `  + ${name(id)}`),
+                      ...r.removedSkills.map(id => `  − ${name(id)}`),
+                    ].join('\n'))}
+                  />
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DiffSection({ title, items, tone }: { title: string; items: string[]; tone?: 'added' | 'removed' }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <div className="text-xs font-medium text-muted-foreground mb-1">
+        {title} ({items.length})
+      </div>
+      <ul className="space-y-0.5">
+        {items.slice(0, MAX_DIFF_ENTRIES).map((item, i) => (
+          <li
+            key={i}
+            className={cn(
+              'text-xs whitespace-pre-wrap rounded px-1.5 py-0.5',
+              tone === 'added' && 'bg-green-500/10 text-green-700 dark:text-green-400',
+              tone === 'removed' && 'bg-destructive/10 text-destructive',
+              !tone && 'bg-muted/50'
+            )}
+          >
+            {item}
+          </li>
+        ))}
+        {items.length > MAX_DIFF_ENTRIES && (
+          <li className="text-xs text-muted-foreground">…and {items.length - MAX_DIFF_ENTRIES} more</li>
+        )}
+      </ul>
+    </div>
+  );
+}
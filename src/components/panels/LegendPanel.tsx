@@ -5,20 +5,7 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { Button } from '@/components/ui/button';
-import { NODE_TYPE_COLORS } from '@/types/graph';
-
-const nodeTypes = [
-  { type: 'root', color: NODE_TYPE_COLORS.root, label: 'Root', description: 'No prerequisites' },
-  { type: 'intermediate', color: NODE_TYPE_COLORS.intermediate, label: 'Intermediate', description: 'Has prerequisites & dependents' },
-  { type: 'leaf', color: NODE_TYPE_COLORS.leaf, label: 'Leaf', description: 'No dependents' },
-];
-
-const cognitiveTargets = [
-  { level: 1, label: 'Lv1 - Recall', description: 'Remember facts' },
-  { level: 2, label: 'Lv2 - Understand', description: 'Explain concepts' },
-  { level: 3, label: 'Lv3 - Apply', description: 'Use in new contexts' },
-  { level: 4, label: 'Lv4 - Analyze', description: 'Break down complexity' },
-];
+import { LEGEND_COGNITIVE_TARGETS, LEGEND_NODE_TYPES } from '@/lib/graph/legend';
 
 export function LegendPanel() {
   return (
@@ -39,7 +26,7 @@ export function LegendPanel() {
               Node Types (by position)
             </div>
             <div className="space-y-1.5">
-              {nodeTypes.map(({ type, color, label, description }) => (
+              {LEGEND_NODE_TYPES.map(({ type, color, label, description }) => (
                 <div key={type} className="flex items-center gap-2">
                   <div 
                     className="w-3 h-3 rounded-full" 
@@ -57,7 +44,7 @@ export function LegendPanel() {
               Cognitive Target (badge)
             </div>
             <div className="space-y-1.5 text-xs">
-              {cognitiveTargets.map(({ level, label, description }) => (
+              {LEGEND_COGNITIVE_TARGETS.map(({ level, label, description }) => (
                 <div key={level} className="flex items-center gap-2">
                   <div className="w-5 h-5 rounded-full bg-muted border border-dashed border-border flex items-center justify-center text-[8px] font-semibold text-muted-foreground">
                     Lv{level}
@@ -20,6 +20,7 @@ interface NodeDetailPanelProps {
   masteryMode?: boolean;
   studentMastery?: KPMastery;
   studentName?: string | null;
+  className?: string | null;
   // CRUD props
   onDeleteNode?: (nodeId: string) => void;
   onAddEdge?: (fromSkill: string, toSkill: string) => Promise<void>;
@@ -37,26 +38,6 @@ const CONCEPT_LEVELS = [
   { level: 7, name: 'Transfer', description: 'Apply to novel domains' },
 ];
 
-const INDEPENDENCE_STATUSES = ['Independent', 'Lightly Scaffolded', 'Heavily Assisted'] as const;
-const RETENTION_STATUSES = ['Current', 'Aging', 'Expired'] as const;
-
-// Generate dummy CME data
-const generateDummyCME = () => {
-  const highestLevel = Math.floor(Math.random() * 4) + 1; // 1-4 for dummy
-  const independence = INDEPENDENCE_STATUSES[Math.floor(Math.random() * 3)];
-  const retention = RETENTION_STATUSES[Math.floor(Math.random() * 3)];
-  
-  // Generate level percentages (higher levels have lower percentages)
-  const levelBreakdown: Record<number, number> = {};
-  let currentPct = 100;
-  for (let i = 1; i <= highestLevel; i++) {
-    levelBreakdown[i] = Math.max(20, currentPct - Math.floor(Math.random() * 20));
-    currentPct = levelBreakdown[i];
-  }
-  
-  return { highestLevel, independence, retention, levelBreakdown };
-};
-
 // Generate dummy LE data
 const generateDummyLE = () => {
   const passiveTime = Math.floor(Math.random() * 16) + 5; // 5-20 min
@@ -78,6 +59,7 @@ export function NodeDetailPanel({
   masteryMode = false,
   studentMastery,
   studentName,
+  className,
   onDeleteNode,
   onAddEdge,
   onRemoveEdge,
@@ -102,9 +84,13 @@ export function NodeDetailPanel({
     }))
     .filter((u) => u.node);
 
-  // Generate dummy metrics (in real app, these would come from node data)
-  const cmeData = generateDummyCME();
+  // LE is still a placeholder; CME comes from measured attempt evidence on the node
   const leData = generateDummyLE();
+  const displayMastery = studentMastery
+    ? studentMastery.effectiveMastery ?? studentMastery.rawMastery
+    : 0;
+  const cme = node.cme;
+  const highestLevel = CONCEPT_LEVELS[cme.highestConceptLevel - 1];
 
   const getRetentionColor = (status: string) => {
     switch (status) {
@@ -224,17 +210,17 @@ export function NodeDetailPanel({
                       </span>
                       <span className={cn(
                         "text-lg font-bold",
-                        studentMastery.rawMastery >= 0.8 
+                        displayMastery >= 0.8 
                           ? "text-green-600" 
-                          : studentMastery.rawMastery >= 0.5 
+                          : displayMastery >= 0.5 
                             ? "text-amber-600" 
                             : "text-red-600"
                       )}>
-                        {Math.round(studentMastery.rawMastery * 100)}%
+                        {Math.round(displayMastery * 100)}%
                       </span>
                     </div>
                     <Progress 
-                      value={studentMastery.rawMastery * 100} 
+                      value={displayMastery * 100} 
                       className="h-2.5" 
                     />
                   </div>
@@ -249,6 +235,22 @@ export function NodeDetailPanel({
                     </span>
                   </div>
 
+                  {/* Retention - only shown once decay has taken effect */}
+                  {studentMastery.retentionFactor !== undefined && studentMastery.retentionFactor < 1 && (
+                    <>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Retention:</span>
+                        <span className="font-medium capitalize">
+                          {Math.round(studentMastery.retentionFactor * 100)}% ({studentMastery.retentionStatus})
+                        </span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Before Decay:</span>
+                        <span className="font-medium">{Math.round(studentMastery.rawMastery * 100)}%</span>
+                      </div>
+                    </>
+                  )}
+
                   {studentMastery.lastReviewedAt && (
                     <div className="text-xs text-muted-foreground">
                       Last reviewed: {new Date(studentMastery.lastReviewedAt).toLocaleDateString()}
@@ -266,7 +268,7 @@ export function NodeDetailPanel({
 
           {masteryMode && studentName && <Separator />}
 
-          {/* Learning Effort & CME Sections - Only in mastery mode with student selected */}
+          {/* Learning Effort - Only in mastery mode with student selected */}
           {masteryMode && studentName && (
             <>
               {/* Learning Effort (LE) Section */}
@@ -310,77 +312,99 @@ export function NodeDetailPanel({
               </section>
 
               <Separator />
+            </>
+          )}
 
-              {/* Concept Mastery Evidence (CME) Section */}
+          {/* Concept Mastery Evidence (CME) - measured for the selected student or class */}
+          {masteryMode && (studentName || className) && (
+            <>
               <section className="space-y-3">
                 <div className="flex items-center gap-2 text-base font-semibold text-foreground">
                   <Brain className="h-5 w-5 text-accent" />
                   Concept Mastery Evidence (CME)
+                  {!studentName && className && (
+                    <Badge variant="outline" className="text-xs ml-auto">{className}</Badge>
+                  )}
                 </div>
 
-                <div className="bg-muted/30 rounded-lg p-4 space-y-4">
-                  {/* Highest Concept Level */}
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm text-muted-foreground flex items-center gap-1">
-                        <Target className="h-4 w-4" />
-                        Highest Level
-                      </span>
-                      <Badge variant="secondary" className="text-sm">
-                        L{cmeData.highestLevel}
-                      </Badge>
-                    </div>
-                    <div className="text-base font-medium">
-                      {CONCEPT_LEVELS[cmeData.highestLevel - 1]?.name}
+                {cme.measured ? (
+                  <div className="bg-muted/30 rounded-lg p-4 space-y-4">
+                    {/* Highest Concept Level */}
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground flex items-center gap-1">
+                          <Target className="h-4 w-4" />
+                          Highest Level
+                        </span>
+                        <Badge variant="secondary" className="text-sm">
+                          {highestLevel ? `L${cme.highestConceptLevel}` : '—'}
+                        </Badge>
+                      </div>
+                      {highestLevel ? (
+                        <>
+                          <div className="text-base font-medium">
+                            {highestLevel.name}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {highestLevel.description}
+                          </div>
+                        </>
+                      ) : (
+                        <div className="text-sm text-muted-foreground">
+                          No level demonstrated yet
+                        </div>
+                      )}
                     </div>
-                    <div className="text-sm text-muted-foreground">
-                      {CONCEPT_LEVELS[cmeData.highestLevel - 1]?.description}
+
+                    <Separator />
+
+                    {/* Independence & Retention Status */}
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <span className="text-sm text-muted-foreground flex items-center gap-1">
+                          <Shield className="h-4 w-4" />
+                          Independence
+                        </span>
+                        <Badge className={`text-sm ${getIndependenceColor(cme.independence)}`}>
+                          {cme.independence}
+                        </Badge>
+                      </div>
+                      <div className="space-y-2">
+                        <span className="text-sm text-muted-foreground flex items-center gap-1">
+                          <Clock className="h-4 w-4" />
+                          Retention
+                        </span>
+                        <Badge className={`text-sm ${getRetentionColor(cme.retention)}`}>
+                          {cme.retention}
+                        </Badge>
+                      </div>
                     </div>
-                  </div>
 
-                  <Separator />
+                    <Separator />
 
-                  {/* Independence & Retention Status */}
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <span className="text-sm text-muted-foreground flex items-center gap-1">
-                        <Shield className="h-4 w-4" />
-                        Independence
-                      </span>
-                      <Badge className={`text-sm ${getIndependenceColor(cmeData.independence)}`}>
-                        {cmeData.independence}
-                      </Badge>
-                    </div>
-                    <div className="space-y-2">
+                    {/* Level Breakdown */}
+                    <div className="space-y-3">
                       <span className="text-sm text-muted-foreground flex items-center gap-1">
-                        <Clock className="h-4 w-4" />
-                        Retention
+                        <Activity className="h-4 w-4" />
+                        Level Breakdown
                       </span>
-                      <Badge className={`text-sm ${getRetentionColor(cmeData.retention)}`}>
-                        {cmeData.retention}
-                      </Badge>
+                      <div className="space-y-2">
+                        {Object.entries(cme.evidenceByLevel).map(([level, pct]) => (
+                          <div key={level} className="flex items-center gap-3">
+                            <span className="text-sm w-8 text-muted-foreground">L{level}</span>
+                            <Progress value={pct} className="h-2.5 flex-1" />
+                            <span className="text-sm w-10 text-right font-medium">{pct}%</span>
+                          </div>
+                        ))}
+                      </div>
                     </div>
                   </div>
-
-                  <Separator />
-
-                  {/* Level Breakdown */}
-                  <div className="space-y-3">
-                    <span className="text-sm text-muted-foreground flex items-center gap-1">
-                      <Activity className="h-4 w-4" />
-                      Level Breakdown
-                    </span>
-                    <div className="space-y-2">
-                      {Object.entries(cmeData.levelBreakdown).map(([level, pct]) => (
-                        <div key={level} className="flex items-center gap-3">
-                          <span className="text-sm w-8 text-muted-foreground">L{level}</span>
-                          <Progress value={pct} className="h-2.5 flex-1" />
-                          <span className="text-sm w-10 text-right font-medium">{pct}%</span>
-                        </div>
-                      ))}
-                    </div>
+                ) : (
+                  <div className="bg-muted/30 rounded-lg p-4 text-center text-muted-foreground">
+                    <p className="text-sm">No evidence recorded yet</p>
+                    <p className="text-xs mt-1">CME is measured from attempts on questions mapped to this knowledge point</p>
                   </div>
-                </div>
+                )}
               </section>
 
               <Separator />
@@ -1,4 +1,4 @@
-import { ChevronDown, Route, X, Trash2 } from 'lucide-react';
+import { Brain, ChevronDown, Route, X, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -17,7 +17,9 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
-import { QuestionPath } from '@/types/graph';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { IPAStep, IPAStepType, QuestionPath } from '@/types/graph';
 import { useState } from 'react';
 
 interface QuestionPathSelectorProps {
@@ -25,8 +27,20 @@ interface QuestionPathSelectorProps {
   selectedQuestion: string | null;
   onQuestionSelect: (question: string | null) => void;
   onQuestionRemove?: (question: string) => void;
+  ipaByQuestion?: Record<string, IPAStep[]>;
+  skillNames?: Record<string, string>;
+  onSkillSelect?: (skillId: string) => void;
 }
 
+const STEP_TYPE_CLASSES: Record<IPAStepType, string> = {
+  PERCEIVE: 'bg-sky-500/15 text-sky-700 dark:text-sky-300',
+  ENCODE: 'bg-indigo-500/15 text-indigo-700 dark:text-indigo-300',
+  RETRIEVE: 'bg-violet-500/15 text-violet-700 dark:text-violet-300',
+  DECIDE: 'bg-amber-500/15 text-amber-700 dark:text-amber-300',
+  EXECUTE: 'bg-emerald-500/15 text-emerald-700 dark:text-emerald-300',
+  MONITOR: 'bg-rose-500/15 text-rose-700 dark:text-rose-300',
+};
+
 // Helper to get the path array from either format
 const getPathArray = (path: QuestionPath | string[]): string[] => {
   if (Array.isArray(path)) {
@@ -45,6 +59,9 @@ export function QuestionPathSelector({
   selectedQuestion,
   onQuestionSelect,
   onQuestionRemove,
+  ipaByQuestion,
+  skillNames = {},
+  onSkillSelect,
 }: QuestionPathSelectorProps) {
   const [deleteConfirmQuestion, setDeleteConfirmQuestion] = useState<string | null>(null);
   const questionList = Object.keys(questions);
@@ -89,6 +106,12 @@ export function QuestionPathSelector({
                   <Badge variant="secondary" className="text-xs">
                     {getStepCount(questions[question])} steps
                   </Badge>
+                  {ipaByQuestion?.[question] && (
+                    <Badge variant="outline" className="text-xs gap-1">
+                      <Brain className="h-3 w-3" />
+                      trace
+                    </Badge>
+                  )}
                   {!Array.isArray(questions[question]) && (questions[question] as QuestionPath).validationStatus && (
                     <Badge 
                       variant={(questions[question] as QuestionPath).validationStatus === 'valid' ? 'default' : 'destructive'} 
@@ -122,6 +145,13 @@ export function QuestionPathSelector({
           <span className="text-sm text-accent font-medium truncate max-w-xs">
             {selectedQuestion}
           </span>
+          {ipaByQuestion?.[selectedQuestion] && (
+            <IpaTracePopover
+              steps={ipaByQuestion[selectedQuestion]}
+              skillNames={skillNames}
+              onSkillSelect={onSkillSelect}
+            />
+          )}
           <Button
             variant="ghost"
             size="icon"
@@ -160,3 +190,72 @@ export function QuestionPathSelector({
     </div>
   );
 }
+
+/**
+ * Step-by-step IPA trace of a question; each step links to the KPs its LTA produced
+ */
+function IpaTracePopover({
+  steps,
+  skillNames,
+  onSkillSelect,
+}: {
+  steps: IPAStep[];
+  skillNames: Record<string, string>;
+  onSkillSelect?: (skillId: string) => void;
+}) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-xs">
+          <Brain className="h-3 w-3" />
+          Trace
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-[28rem] p-0">
+        <div className="px-3 py-2 border-b border-border">
+          <div className="text-sm font-medium text-foreground">Cognitive trace (IPA/LTA)</div>
+          <div className="text-xs text-muted-foreground">Why this question maps to its skills</div>
+        </div>
+        <ScrollArea className="max-h-[360px]">
+          <ol className="p-3 space-y-3">
+            {steps.map(step => (
+              <li key={step.step} className="flex gap-2">
+                <span className="text-xs text-muted-foreground w-4 shrink-0 pt-0.5">{step.step}</span>
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className={`rounded px-1.5 py-0.5 text-[10px] font-semibold ${STEP_TYPE_CLASSES[step.type] ?? 'bg-muted'}`}>
+                      {step.type}
+                    </span>
+                    <span className="text-sm text-foreground">{step.operation}</span>
+                  </div>
+                  {step.knowledgeItems && step.knowledgeItems.length > 0 && (
+                    <ul className="space-y-1">
+                      {step.knowledgeItems.map((item, i) => (
+                        <li key={`${item.id}-${i}`} className="flex items-start gap-1.5 text-xs text-muted-foreground">
+                          <button
+                            type="button"
+                            className="shrink-0"
+                            onClick={() => onSkillSelect?.(item.id)}
+                            title="Select this KP in the graph"
+                          >
+                            <Badge variant="secondary" className="text-[10px] cursor-pointer hover:bg-accent/20">
+                              {skillNames[item.id] ?? item.id}
+                            </Badge>
+                          </button>
+                          <span>
+                            <span className="italic">{item.type}</span>
+                            {item.content && ` — ${item.content}`}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -2,6 +2,8 @@ import { useState, useRef, useEffect, ChangeEvent } from 'react';
 import { Send, Loader2, Plus, ChevronDown, Upload, Check, AlertCircle, FileText, Search } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { cn } from '@/lib/utils';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { toast } from '@/hooks/use-toast';
@@ -9,11 +11,13 @@ import { supabase } from '@/integrations/supabase/client';
 import { Badge } from '@/components/ui/badge';
 import { extractCoreQuestion } from '@/lib/question/extractCore';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useDomainConfigs } from '@/hooks/useDomainConfigs';
 
-export type DomainType = 'python' | 'web';
+// Domain key of a row in domain_configs ('python', 'web', ...)
+export type DomainType = string;
 
 interface QuickQuestionInputProps {
-  onGenerate: (questions: string[], domain: DomainType, turbo?: boolean) => void;
+  onGenerate: (questions: string[], domain: DomainType, turbo?: boolean, forceRefresh?: boolean, includeTrace?: boolean) => void;
   isLoading: boolean;
   isLandingMode?: boolean;
   graphId?: string | null;
@@ -175,6 +179,9 @@ export function QuickQuestionInput({ onGenerate, isLoading, isLandingMode = fals
   const [parsedQuestions, setParsedQuestions] = useState<string[]>([]);
   const [isOpen, setIsOpen] = useState(false);
   const [domain, setDomain] = useState<DomainType>('python');
+  const { domains } = useDomainConfigs();
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [includeTrace, setIncludeTrace] = useState(false);
   const [isExtractingPdf, setIsExtractingPdf] = useState(false);
   const [duplicateCheck, setDuplicateCheck] = useState<DuplicateCheck>({ newCount: 0, duplicateCount: 0, isChecking: false });
   const [isComparing, setIsComparing] = useState(false);
@@ -251,7 +258,7 @@ export function QuickQuestionInput({ onGenerate, isLoading, isLandingMode = fals
     if (questions.length === 0) return;
     
     const turbo = questions.length > 30;
-    onGenerate(questions, domain, turbo);
+    onGenerate(questions, domain, turbo, forceRefresh, includeTrace);
     setQuestionsText('');
     setParsedQuestions([]);
     setIsOpen(false);
@@ -371,7 +378,7 @@ export function QuickQuestionInput({ onGenerate, isLoading, isLandingMode = fals
           });
 
           const { data, error } = await supabase.functions.invoke('extract-questions', {
-            body: { text: rawText, domain },
+            body: { text: rawText, domain, forceRefresh },
           });
 
           if (error) {
@@ -472,17 +479,54 @@ export function QuickQuestionInput({ onGenerate, isLoading, isLandingMode = fals
   const placeholder = domain === 'web' ? WEB_PLACEHOLDER : PYTHON_PLACEHOLDER;
 
   const DomainSelector = ({ compact = false }: { compact?: boolean }) => (
-    <Select value={domain} onValueChange={(v) => setDomain(v as DomainType)}>
+    <Select value={domain} onValueChange={setDomain}>
       <SelectTrigger className={cn(compact ? "h-7 text-xs w-[140px]" : "w-[180px]")}>
         <SelectValue />
       </SelectTrigger>
       <SelectContent>
-        <SelectItem value="python">Python</SelectItem>
-        <SelectItem value="web">HTML/CSS/JS/React/AI</SelectItem>
+        {domains.map(option => (
+          <SelectItem key={option.domain} value={option.domain}>{option.label}</SelectItem>
+        ))}
       </SelectContent>
     </Select>
   );
 
+  // Re-run AI calls instead of replaying cached responses for identical prompts
+  const ForceRefreshToggle = ({ compact = false }: { compact?: boolean }) => (
+    <div className="flex items-center gap-1.5" title="Ignore cached AI responses and ask the model again">
+      <Switch
+        id={compact ? 'force-refresh-compact' : 'force-refresh'}
+        checked={forceRefresh}
+        onCheckedChange={setForceRefresh}
+        className={cn(compact && "scale-75")}
+      />
+      <Label
+        htmlFor={compact ? 'force-refresh-compact' : 'force-refresh'}
+        className={cn("font-normal text-muted-foreground", compact ? "text-xs" : "text-sm")}
+      >
+        Force refresh
+      </Label>
+    </div>
+  );
+
+  // Keep the IPA/LTA reasoning trace per question for auditing skill mappings
+  const TraceToggle = ({ compact = false }: { compact?: boolean }) => (
+    <div className="flex items-center gap-1.5" title="Store the step-by-step IPA/LTA trace with each question">
+      <Switch
+        id={compact ? 'include-trace-compact' : 'include-trace'}
+        checked={includeTrace}
+        onCheckedChange={setIncludeTrace}
+        className={cn(compact && "scale-75")}
+      />
+      <Label
+        htmlFor={compact ? 'include-trace-compact' : 'include-trace'}
+        className={cn("font-normal text-muted-foreground", compact ? "text-xs" : "text-sm")}
+      >
+        Keep trace
+      </Label>
+    </div>
+  );
+
   if (isLandingMode) {
     return (
       <div className="w-full max-w-2xl mx-auto">
@@ -513,6 +557,8 @@ export function QuickQuestionInput({ onGenerate, isLoading, isLandingMode = fals
           <div className="flex items-center gap-2 justify-center">
             <span className="text-sm text-muted-foreground">Domain:</span>
             <DomainSelector />
+            <ForceRefreshToggle />
+            <TraceToggle />
           </div>
 
           <Textarea
@@ -669,6 +715,8 @@ export function QuickQuestionInput({ onGenerate, isLoading, isLandingMode = fals
           <div className="p-3 pt-0 space-y-2">
             <div className="flex items-center gap-2 mb-1">
               <DomainSelector compact />
+              <ForceRefreshToggle compact />
+              <TraceToggle compact />
             </div>
             <Textarea
               placeholder={domain === 'web' 
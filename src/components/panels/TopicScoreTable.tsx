@@ -7,11 +7,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { getGradeBoundaries } from '@/lib/mastery/gradeScale';
 import { calculateStudentTopicGrades, type TopicGrade } from '@/lib/mastery/studentTopicGrades';
 import { supabase } from '@/integrations/supabase/client';
+import type { CreditPolicy } from '@/lib/mastery/constants';
 
 interface TopicScoreTableProps {
   graphId: string;
   onRecalculate: () => void;
   isRecalculating?: boolean;
+  creditPolicy?: CreditPolicy;
 }
 
 interface TopicInfo {
@@ -20,7 +22,7 @@ interface TopicInfo {
   questionCount: number;
 }
 
-export function TopicScoreTable({ graphId, onRecalculate, isRecalculating }: TopicScoreTableProps) {
+export function TopicScoreTable({ graphId, onRecalculate, isRecalculating, creditPolicy }: TopicScoreTableProps) {
   const [expandedTopics, setExpandedTopics] = useState<Set<string>>(new Set());
   const [students, setStudents] = useState<Array<{ student_id: string; student_name: string }>>([]);
   const [selectedStudent, setSelectedStudent] = useState<string>('');
@@ -109,13 +111,13 @@ export function TopicScoreTable({ graphId, onRecalculate, isRecalculating }: Top
     }
     setLoadingGrades(true);
     try {
-      const grades = await calculateStudentTopicGrades(studentId, graphId);
+      const grades = await calculateStudentTopicGrades(studentId, graphId, creditPolicy);
       setTopicGrades(grades);
     } catch (err) {
       console.error('Error loading topic grades:', err);
     }
     setLoadingGrades(false);
-  }, [graphId]);
+  }, [graphId, creditPolicy]);
 
   useEffect(() => {
     if (selectedStudent) loadGrades(selectedStudent);
@@ -135,7 +137,7 @@ export function TopicScoreTable({ graphId, onRecalculate, isRecalculating }: Top
   const showStudentView = selectedStudent && topicGrades.length > 0;
 
   return (
-    <div className="w-[280px] shrink-0 border-l border-border bg-card/50 flex flex-col overflow-hidden">
+    <div className="w-[340px] shrink-0 border-l border-border bg-card/50 flex flex-col overflow-hidden">
       <div className="flex items-center justify-between px-3 py-2 border-b border-border">
         <h3 className="text-xs font-semibold text-foreground">Topic Grades</h3>
         <Button
@@ -177,13 +179,15 @@ export function TopicScoreTable({ graphId, onRecalculate, isRecalculating }: Top
               <TableRow>
                 <TableHead className="text-[10px] h-8 px-2">Topic</TableHead>
                 <TableHead className="text-[10px] h-8 px-2 text-right">Mastery</TableHead>
+                <TableHead className="text-[10px] h-8 px-1 text-right" title="Correct without meaningful help">Indep.</TableHead>
+                <TableHead className="text-[10px] h-8 px-1 text-right" title="Correct with or without help">Assist.</TableHead>
                 <TableHead className="text-[10px] h-8 px-2 text-right">Grade</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {loadingGrades ? (
                 <TableRow>
-                  <TableCell colSpan={3} className="text-center text-xs text-muted-foreground py-4">
+                  <TableCell colSpan={5} className="text-center text-xs text-muted-foreground py-4">
                     Loading...
                   </TableCell>
                 </TableRow>
@@ -197,7 +201,7 @@ export function TopicScoreTable({ graphId, onRecalculate, isRecalculating }: Top
                         className="cursor-pointer"
                         onClick={() => toggleExpand(tg.topicId)}
                       >
-                        <TableCell className="text-[11px] px-2 py-1.5 max-w-[120px]">
+                        <TableCell className="text-[11px] px-2 py-1.5 max-w-[90px]">
                           <div className="flex items-center gap-1">
                             {isExpanded ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
                             <span className="truncate" title={tg.topicName}>{tg.topicName}</span>
@@ -206,6 +210,12 @@ export function TopicScoreTable({ graphId, onRecalculate, isRecalculating }: Top
                         <TableCell className="text-[11px] px-2 py-1.5 text-right font-medium">
                           {Math.round(tg.masteryPercent * 100)}%
                         </TableCell>
+                        <TableCell className="text-[11px] px-1 py-1.5 text-right">
+                          {Math.round(tg.independentPercent * 100)}%
+                        </TableCell>
+                        <TableCell className="text-[11px] px-1 py-1.5 text-right text-muted-foreground">
+                          {Math.round(tg.assistedPercent * 100)}%
+                        </TableCell>
                         <TableCell className="text-[11px] px-2 py-1.5 text-right">
                           <Badge
                             className="text-[9px] px-1.5 py-0 h-4 font-bold border-0"
@@ -217,12 +227,18 @@ export function TopicScoreTable({ graphId, onRecalculate, isRecalculating }: Top
                       </TableRow>
                       {isExpanded && tg.subtopics.map(st => (
                         <TableRow key={st.subtopicId} className="bg-muted/30">
-                          <TableCell className="text-[10px] px-2 py-1 pl-7 max-w-[120px]">
+                          <TableCell className="text-[10px] px-2 py-1 pl-7 max-w-[90px]">
                             <span className="truncate block" title={st.subtopicName}>{st.subtopicName}</span>
                           </TableCell>
                           <TableCell className="text-[10px] px-2 py-1 text-right text-muted-foreground">
                             {Math.round(st.masteryPercent * 100)}%
                           </TableCell>
+                          <TableCell className="text-[10px] px-1 py-1 text-right text-muted-foreground">
+                            {Math.round(st.independentPercent * 100)}%
+                          </TableCell>
+                          <TableCell className="text-[10px] px-1 py-1 text-right text-muted-foreground">
+                            {Math.round(st.assistedPercent * 100)}%
+                          </TableCell>
                           <TableCell className="text-[10px] px-2 py-1 text-right" />
                         </TableRow>
                       ))}
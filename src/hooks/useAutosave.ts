@@ -1,5 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { KnowledgeGraph } from '@/types/graph';
+import type { SaveGraphOptions } from '@/hooks/useGraphPersistence';
 
 interface AutosaveOptions {
   /** Delay in ms before autosave triggers after a change (default: 30000 = 30s) */
@@ -21,7 +22,7 @@ interface UseAutosaveReturn {
 export function useAutosave(
   graph: KnowledgeGraph | null,
   currentGraphId: string | null,
-  saveGraph: (graph: KnowledgeGraph, name: string, description?: string, existingId?: string) => Promise<string | null>,
+  saveGraph: (graph: KnowledgeGraph, name: string, description?: string, existingId?: string, options?: SaveGraphOptions) => Promise<string | null>,
   graphName: string | undefined,
   options: AutosaveOptions = {}
 ): UseAutosaveReturn {
@@ -84,7 +85,7 @@ export function useAutosave(
     setStatus('saving');
 
     try {
-      const result = await saveGraph(graph, graphName, undefined, currentGraphId);
+      const result = await saveGraph(graph, graphName, undefined, currentGraphId, { autosave: true });
       if (result) {
         lastSaveTimeRef.current = Date.now();
         graphSnapshotRef.current = currentSnapshot;
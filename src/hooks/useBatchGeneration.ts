@@ -1,21 +1,23 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { KnowledgeGraph, GraphNode, CME, LE, KnowledgePoint } from '@/types/graph';
 import { mergeGraphs } from '@/lib/graph/mergeGraphs';
+import { applyReviewDecisions, buildReviewQueue, type ReviewItem } from '@/lib/graph/reviewQueue';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import {
+  useGenerationJob,
+  isJobActive,
+  type GenerationJob,
+  type GenerationJobBatch,
+  type GenerationJobStatus,
+} from '@/hooks/useGenerationJob';
 import { extractCoreQuestion } from '@/lib/question/extractCore';
 
-// Adaptive batch sizing based on existing node count
-const BASE_BATCH_SIZE = 5;
-const MIN_BATCH_SIZE = 3;
-const DELAY_BETWEEN_BATCHES_MS = 800;
-
-// Turbo mode constants
-const TURBO_BATCH_SIZE = 5;
-const TURBO_CONCURRENCY = 4;
-const TURBO_DELAY_MS = 300;
+// Runs above this size default to turbo mode (classification + parallel batches on the server)
 const TURBO_QUESTION_THRESHOLD = 30;
-const EXISTING_NODES_CAP = 80;
+
+// A job whose worker stopped heartbeating this long ago is handed to a new worker
+const STALE_JOB_MS = 90000;
 
 /**
  * Parse Topic: headers from question list.
@@ -45,15 +47,6 @@ function parseTopicHeaders(questions: string[]): {
   return { cleanQuestions, topicMap };
 }
 
-function getAdaptiveBatchSize(existingNodeCount: number): number {
-  if (existingNodeCount > 50) return MIN_BATCH_SIZE;
-  if (existingNodeCount > 20) return 4;
-  if (existingNodeCount > 10) return 5;
-  return BASE_BATCH_SIZE;
-}
-
-const LOCAL_STORAGE_KEY = 'kg-generation-checkpoint';
-
 export interface BatchProgress {
   currentBatch: number;
   totalBatches: number;
@@ -61,17 +54,8 @@ export interface BatchProgress {
   estimatedTimeRemaining: string;
   isProcessing: boolean;
   concurrentBatches?: number;
-}
-
-interface Checkpoint {
-  questions: string[];
-  processedBatches: number;
-  accumulatedNodes: { id: string; name: string; tier?: string; description?: string }[];
-  partialGraph: KnowledgeGraph | null;
-  existingGraph: KnowledgeGraph | null;
-  timestamp: number;
-  turbo?: boolean;
-  topicMap?: Record<number, string>;
+  status?: GenerationJobStatus;
+  failedBatches?: number;
 }
 
 // Default values for missing node fields
@@ -127,20 +111,11 @@ function normalizeGraphPayload(data: any): KnowledgeGraph {
     edges: data?.edges || [],
     courses: data?.courses || {},
     questionPaths: data?.questionPaths || {},
-    ipaByQuestion: undefined,
+    ipaByQuestion: data?.ipaByQuestion || undefined,
+    promptVersion: data?.promptVersion || undefined,
   };
 }
 
-function getInvokeHttpStatus(err: unknown): number | undefined {
-  const anyErr = err as any;
-  return (
-    anyErr?.context?.status ??
-    anyErr?.status ??
-    anyErr?.cause?.status ??
-    anyErr?.cause?.context?.status
-  );
-}
-
 function formatTimeRemaining(seconds: number): string {
   if (seconds < 60) return `${Math.round(seconds)}s`;
   const minutes = Math.floor(seconds / 60);
@@ -148,94 +123,282 @@ function formatTimeRemaining(seconds: number): string {
   return `${minutes}m ${secs}s`;
 }
 
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 /**
- * Auto-classify questions into curriculum topics using AI
+ * Call an action of the generation-jobs edge function
  */
-async function autoClassifyQuestions(
-  questions: string[],
-  domain: string
-): Promise<Record<number, string>> {
-  console.log(`[Turbo] Auto-classifying ${questions.length} questions for domain: ${domain}`);
-  
-  const { data, error } = await supabase.functions.invoke('classify-questions', {
-    body: { questions, domain },
+async function invokeJobAction(action: string, body: Record<string, unknown>): Promise<{ jobId?: string; requeued?: number }> {
+  const { data, error } = await supabase.functions.invoke('generation-jobs', {
+    body: { action, ...body },
   });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data;
+}
 
-  if (error) {
-    console.error('[Turbo] Classification failed:', error);
-    throw new Error('Auto-classification failed: ' + (error.message || 'Unknown error'));
-  }
-
-  if (data?.error) {
-    throw new Error('Auto-classification failed: ' + data.error);
-  }
+type CompletedBatch = Pick<GenerationJobBatch, 'id' | 'job_id' | 'status' | 'result'>;
 
-  const topicMap = data?.topicMap || {};
-  console.log(`[Turbo] Classified ${Object.keys(topicMap).length} questions into topics`);
-  return topicMap;
+interface MergedJobGraph {
+  base: KnowledgeGraph | null;       // Graph before the job; restored until its proposals are reviewed
+  graph: KnowledgeGraph | null;      // Base plus every finished batch (live preview)
+  proposed: KnowledgeGraph | null;   // Finished batches only
+  batchIds: Set<string>;             // Merged batches, including those reviewed before a resume
 }
 
 /**
- * Cap existingNodes to most recent entries to prevent payload bloat
+ * Finished job whose proposals wait for accept/reject/rename before entering the graph
  */
-function capExistingNodes(
-  nodes: { id: string; name: string; tier?: string; description?: string }[]
-): { id: string; name: string; tier?: string; description?: string }[] | undefined {
-  if (nodes.length === 0) return undefined;
-  if (nodes.length <= EXISTING_NODES_CAP) return nodes;
-  return nodes.slice(-EXISTING_NODES_CAP);
+export interface GenerationReview {
+  jobId: string;
+  base: KnowledgeGraph | null;
+  proposed: KnowledgeGraph;
+  items: ReviewItem[];
+  batchIds: string[];                // Every batch the review covers, recorded on the job once decided
+  failedBatches: number;
+  turbo: boolean;
 }
 
+/**
+ * Drives graph generation through server-side jobs. The batch loop runs in the
+ * generation-jobs edge function; this hook starts and controls jobs, follows
+ * them over realtime and merges finished batches into the graph as they land.
+ * Jobs survive closing the tab: an unfinished job for the current graph is
+ * offered for resuming (hasCheckpoint / resume). A finished job's new skills,
+ * merges and edges are held in `review` until applyReview commits the accepted ones.
+ */
 export function useBatchGeneration(
   existingGraph: KnowledgeGraph | null,
-  onGraphUpdate: (graph: KnowledgeGraph) => void,
-  onGenerationComplete?: () => void
+  onGraphUpdate: (graph: KnowledgeGraph | null) => void,
+  onGenerationComplete?: () => void,
+  currentGraphId?: string | null
 ) {
-  const [progress, setProgress] = useState<BatchProgress>({
-    currentBatch: 0,
-    totalBatches: 0,
-    skillsDiscovered: 0,
-    estimatedTimeRemaining: '',
-    isProcessing: false,
-  });
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [openJob, setOpenJob] = useState<GenerationJob | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [liveNodeIds, setLiveNodeIds] = useState<Set<string>>(new Set());
+  const [review, setReview] = useState<GenerationReview | null>(null);
+  const { job, batches, events } = useGenerationJob({ jobId });
+
+  const mergedRef = useRef<MergedJobGraph>({ base: null, graph: null, proposed: null, batchIds: new Set() });
+  const finishedJobRef = useRef<string | null>(null);
+  const lastResumeRef = useRef(0);
+
+  // Batches reviewed before (resume or retry) are already in existingGraph and are not merged again
+  const attach = useCallback((id: string, appliedBatchIds: string[] = []) => {
+    mergedRef.current = {
+      base: existingGraph,
+      graph: existingGraph,
+      proposed: null,
+      batchIds: new Set(appliedBatchIds),
+    };
+    finishedJobRef.current = null;
+    setLiveNodeIds(new Set());
+    setOpenJob(null);
+    setJobId(id);
+  }, [existingGraph]);
+
+  // An unfinished or unapplied job for this graph, e.g. started in another tab or on another machine
+  const findOpenJob = useCallback(async () => {
+    let query = supabase
+      .from('generation_jobs')
+      .select('*')
+      .is('applied_at', null)
+      .neq('status', 'cancelled')
+      .order('created_at', { ascending: false })
+      .limit(1);
+    query = currentGraphId ? query.eq('graph_id', currentGraphId) : query.is('graph_id', null);
+
+    const { data, error } = await query;
+    if (error) {
+      console.warn('Failed to look up generation jobs:', error);
+      return;
+    }
+    setOpenJob(data?.[0] ?? null);
+  }, [currentGraphId]);
 
-  const abortRef = useRef(false);
-  const batchStartTimeRef = useRef<number>(0);
+  useEffect(() => {
+    if (!jobId && !review) findOpenJob();
+  }, [jobId, review, findOpenJob]);
 
-  const getCheckpoint = useCallback((): Checkpoint | null => {
+  /**
+   * Fold newly completed batches into the merged graph. Returns true if any were added.
+   */
+  const mergeCompletedBatches = useCallback((rows: CompletedBatch[]): boolean => {
+    const merged = mergedRef.current;
+    let changed = false;
+    for (const batch of rows) {
+      if (batch.job_id !== jobId || batch.status !== 'completed' || !batch.result) continue;
+      if (merged.batchIds.has(batch.id)) continue;
+
+      const deltaGraph = normalizeGraphPayload(batch.result);
+      merged.graph = merged.graph ? mergeGraphs([merged.graph, deltaGraph]) : deltaGraph;
+      merged.proposed = mergeGraphs(merged.proposed ? [merged.proposed, deltaGraph] : [deltaGraph]);
+      merged.batchIds.add(batch.id);
+      changed = true;
+    }
+    return changed;
+  }, [jobId]);
+
+  // Live preview as batches land; nodes added by the latest batches are highlighted
+  useEffect(() => {
+    if (!jobId) return;
+    const before = new Set((mergedRef.current.graph?.globalNodes || []).map(n => n.id));
+    if (mergeCompletedBatches(batches) && mergedRef.current.graph) {
+      const added = mergedRef.current.graph.globalNodes.filter(n => !before.has(n.id)).map(n => n.id);
+      setLiveNodeIds(new Set(added));
+      onGraphUpdate(mergedRef.current.graph);
+    }
+  }, [jobId, batches, mergeCompletedBatches, onGraphUpdate]);
+
+  // Reviewed batches are recorded so a resume or retry only offers the rest.
+  // Jobs with failed batches stay unapplied, and so open for a retry.
+  const markApplied = useCallback(async (id: string, batchIds: string[], failedBatches: number) => {
+    const { error } = await supabase
+      .from('generation_jobs')
+      .update({
+        applied_batch_ids: batchIds,
+        ...(failedBatches === 0 ? { applied_at: new Date().toISOString() } : {}),
+      })
+      .eq('id', id);
+    if (error) console.warn('Failed to mark generation job as applied:', error);
+    // The offered job may have been read before this update landed
+    await findOpenJob();
+  }, [findOpenJob]);
+
+  const finishJob = useCallback(async (finished: GenerationJob) => {
+    const { base } = mergedRef.current;
     try {
-      const stored = localStorage.getItem(LOCAL_STORAGE_KEY);
-      if (!stored) return null;
-      const checkpoint = JSON.parse(stored) as Checkpoint;
-      if (Date.now() - checkpoint.timestamp > 3600000) {
-        localStorage.removeItem(LOCAL_STORAGE_KEY);
-        return null;
+      if (finished.status === 'paused') {
+        onGraphUpdate(base);
+        toast({
+          title: "Generation paused",
+          description: `Progress saved. ${finished.completed_batches} of ${finished.total_batches} batches completed.`,
+        });
+        return;
+      }
+      if (finished.status === 'cancelled') {
+        onGraphUpdate(base);
+        toast({ title: "Generation cancelled" });
+        return;
       }
-      return checkpoint;
-    } catch {
-      return null;
-    }
-  }, []);
 
-  const saveCheckpoint = useCallback((checkpoint: Checkpoint) => {
-    try {
-      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(checkpoint));
-    } catch (e) {
-      console.warn('Failed to save checkpoint:', e);
+      // Batch events can arrive after the job's status change
+      const { data: completed, error } = await supabase
+        .from('generation_job_batches')
+        .select('id, job_id, status, result')
+        .eq('job_id', finished.id)
+        .eq('status', 'completed');
+      if (error) throw error;
+      mergeCompletedBatches(completed || []);
+
+      const { proposed, batchIds } = mergedRef.current;
+      if (!proposed || finished.completed_batches === 0) {
+        onGraphUpdate(base);
+        toast({
+          title: "Generation failed",
+          description: finished.error || "Failed to generate knowledge graph.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const items = buildReviewQueue(base, proposed);
+      if (items.length === 0) {
+        // Nothing new, only question links on existing skills
+        onGraphUpdate(applyReviewDecisions(base, proposed, []));
+        await markApplied(finished.id, [...batchIds], finished.failed_batches);
+        toast({ title: "No new skills", description: "The generated skills and edges are already in the graph." });
+        onGenerationComplete?.();
+        return;
+      }
+
+      // The preview stays on the canvas while the reviewer decides
+      setReview({
+        jobId: finished.id,
+        base,
+        proposed,
+        items,
+        batchIds: [...batchIds],
+        failedBatches: finished.failed_batches,
+        turbo: finished.turbo,
+      });
+    } catch (error) {
+      console.error('Batch generation error:', error);
+      toast({
+        title: "Generation failed",
+        description: error instanceof Error ? error.message : "Failed to load generation results.",
+        variant: "destructive",
+      });
+    } finally {
+      setJobId(null);
+      setLiveNodeIds(new Set());
     }
-  }, []);
+  }, [mergeCompletedBatches, onGraphUpdate, onGenerationComplete, markApplied]);
 
-  const clearCheckpoint = useCallback(() => {
-    localStorage.removeItem(LOCAL_STORAGE_KEY);
-  }, []);
+  /**
+   * Commit the accepted and renamed items of the review to the graph
+   */
+  const applyReview = useCallback(async (items: ReviewItem[]) => {
+    if (!review) return;
+    const finalGraph = applyReviewDecisions(review.base, review.proposed, items);
+    onGraphUpdate(finalGraph);
+    setReview(null);
+
+    const baseNodeCount = review.base?.globalNodes.length || 0;
+    const rejected = items.filter(i => i.decision === 'rejected' || i.decision === 'pending').length;
+    const failedNote = review.failedBatches > 0
+      ? ` ${review.failedBatches} batch(es) failed and can be retried.`
+      : '';
+    toast({
+      title: baseNodeCount > 0 ? "Graph updated!" : "Graph generated!",
+      description: `Added ${finalGraph.globalNodes.length - baseNodeCount} skills, skipped ${rejected} proposal(s). Total: ${finalGraph.globalNodes.length} skills, ${finalGraph.edges.length} relationships.${review.turbo ? ' ⚡ Turbo Mode' : ''}${failedNote}`,
+    });
 
-  const hasCheckpoint = useCallback(() => {
-    return getCheckpoint() !== null;
-  }, [getCheckpoint]);
+    await markApplied(review.jobId, review.batchIds, review.failedBatches);
+    onGenerationComplete?.();
+  }, [review, onGraphUpdate, onGenerationComplete, markApplied]);
+
+  /**
+   * Reject every proposal and restore the graph as it was before the job
+   */
+  const discardReview = useCallback(async () => {
+    if (!review) return;
+    onGraphUpdate(review.base);
+    setReview(null);
+    toast({ title: "Generated changes discarded" });
+    await markApplied(review.jobId, review.batchIds, review.failedBatches);
+  }, [review, onGraphUpdate, markApplied]);
+
+  /**
+   * Close the review without deciding. The job stays unapplied and is offered again.
+   */
+  const deferReview = useCallback(() => {
+    if (!review) return;
+    onGraphUpdate(review.base);
+    setReview(null);
+  }, [review, onGraphUpdate]);
+
+  // Detach once the followed job stops
+  useEffect(() => {
+    if (!job || job.id !== jobId || isJobActive(job)) return;
+    if (finishedJobRef.current === job.id) return;
+    finishedJobRef.current = job.id;
+    finishJob(job);
+  }, [job, jobId, finishJob]);
+
+  // Restart the worker of a job whose lease lapsed without progress
+  useEffect(() => {
+    if (!job || job.id !== jobId || !isJobActive(job)) return;
+    const now = Date.now();
+    const leaseLive = !!job.lease_expires_at && Date.parse(job.lease_expires_at) > now;
+    const lastBeat = Date.parse(job.heartbeat_at ?? job.created_at);
+    if (leaseLive || now - lastBeat < STALE_JOB_MS || now - lastResumeRef.current < STALE_JOB_MS) return;
+
+    lastResumeRef.current = now;
+    console.warn(`[BatchGeneration] Job ${job.id} stalled, restarting its worker`);
+    invokeJobAction('resume', { jobId: job.id }).catch(err => {
+      console.error('Failed to resume stalled generation job:', err);
+    });
+  }, [job, jobId]);
 
   const checkDuplicateQuestions = useCallback(async (
     questions: string[],
@@ -279,85 +442,53 @@ export function useBatchGeneration(
     }
   }, []);
 
-  /**
-   * Call generate-graph for a single batch with retry logic
-   */
-  const callBatchGenerate = useCallback(async (
-    batch: string[],
-    batchTopicMap: Record<string, string>,
-    accumulatedNodes: { id: string; name: string; tier?: string; description?: string }[],
-    domain?: string
-  ): Promise<any> => {
-    let retries = 0;
-    const maxRetries = 3;
-
-    while (retries < maxRetries) {
-      try {
-        const hasTopics = Object.values(batchTopicMap).some(t => t !== 'General');
-        const cappedNodes = capExistingNodes(accumulatedNodes);
-        
-        const response = await supabase.functions.invoke('generate-graph', {
-          body: {
-            questions: batch,
-            existingNodes: cappedNodes,
-            ...(hasTopics ? { topicMap: batchTopicMap } : {}),
-            ...(domain ? { domain } : {}),
-          },
-        });
-
-        if (response.error) {
-          const status = getInvokeHttpStatus(response.error);
-          if (status === 429) {
-            const waitTime = Math.pow(2, retries) * 30000;
-            console.log(`Rate limited. Waiting ${waitTime / 1000}s before retry...`);
-            await sleep(waitTime);
-            retries++;
-            continue;
-          }
-          if (status === 413 && batch.length > 1) {
-            throw new Error("Batch too large. Try reducing batch size.");
-          }
-          throw response.error;
-        }
-
-        if (response.data?.error) {
-          throw new Error(response.data.error);
-        }
+  const resume = useCallback(async () => {
+    const target = openJob;
+    if (!target) return;
 
-        return response.data;
-      } catch (err) {
-        retries++;
-        if (retries >= maxRetries) throw err;
-        await sleep(5000);
+    try {
+      if (target.status === 'paused') {
+        await invokeJobAction('resume', { jobId: target.id });
+      } else if (target.status === 'failed' || target.failed_batches > 0) {
+        await invokeJobAction('retry', { jobId: target.id });
       }
+      // Running or finished-but-unapplied jobs only need following
+      attach(target.id, target.applied_batch_ids);
+    } catch (error) {
+      console.error('Failed to resume generation job:', error);
+      toast({
+        title: "Resume failed",
+        description: error instanceof Error ? error.message : "Could not resume the generation job.",
+        variant: "destructive",
+      });
     }
-  }, []);
+  }, [openJob, attach]);
 
   const generate = useCallback(async (
     questions: string[],
     resumeFromCheckpoint = false,
     graphId?: string,
     domain?: string,
-    turbo?: boolean
+    turbo?: boolean,
+    forceRefresh?: boolean,
+    includeTrace?: boolean
   ) => {
-    abortRef.current = false;
-    batchStartTimeRef.current = Date.now();
-
-    let checkpoint = resumeFromCheckpoint ? getCheckpoint() : null;
+    if (resumeFromCheckpoint) {
+      await resume();
+      return;
+    }
 
     // Parse topic headers from raw questions
-    const { cleanQuestions: parsedQuestions, topicMap: globalTopicMap } = parseTopicHeaders(
-      checkpoint?.questions || questions
-    );
+    const { cleanQuestions: parsedQuestions, topicMap: globalTopicMap } = parseTopicHeaders(questions);
 
     // Auto-detect turbo mode for large question sets
     const isTurbo = turbo ?? (parsedQuestions.length > TURBO_QUESTION_THRESHOLD);
-    
+
     // Check for duplicate questions
     let questionsToProcess = parsedQuestions;
-    let topicMapToUse = checkpoint?.topicMap || globalTopicMap;
+    let topicMapToUse = globalTopicMap;
 
-    if (!resumeFromCheckpoint && graphId) {
+    if (graphId) {
       const { uniqueQuestions, duplicates } = await checkDuplicateQuestions(parsedQuestions, graphId);
 
       if (duplicates.length > 0) {
@@ -397,357 +528,134 @@ export function useBatchGeneration(
       topicMapToUse = newTopicMap;
     }
 
-    // Auto-classify if turbo mode and no topic headers detected
-    const hasRealTopics = Object.values(topicMapToUse).some(t => t !== 'General');
-    if (isTurbo && !hasRealTopics && !checkpoint?.topicMap) {
-      try {
-        toast({
-          title: "⚡ Turbo Mode: Classifying questions...",
-          description: `Auto-detecting topics for ${questionsToProcess.length} questions. This takes ~30-60 seconds.`,
-        });
-        
-        topicMapToUse = await autoClassifyQuestions(questionsToProcess, domain || 'python');
-        
-        toast({
-          title: "✅ Classification complete",
-          description: `Questions classified into curriculum topics. Starting parallel generation...`,
-        });
-      } catch (err) {
-        console.warn('[Turbo] Classification failed, proceeding without topics:', err);
-        toast({
-          title: "Classification skipped",
-          description: "Proceeding without topic classification. Generation will still work.",
-          variant: "default",
-        });
-      }
-    }
-
-    // Initialize from checkpoint or fresh start
-    let accumulatedNodes: { id: string; name: string; tier?: string; description?: string }[] =
-      checkpoint?.accumulatedNodes ||
-      existingGraph?.globalNodes.map(n => ({
+    setIsStarting(true);
+    try {
+      const existingNodes = existingGraph?.globalNodes.map(n => ({
         id: n.id,
         name: n.name,
         tier: n.tier,
-        description: n.description
+        description: n.description,
       })) || [];
 
-    let partialGraph: KnowledgeGraph | null = checkpoint?.partialGraph || existingGraph;
-    let processedBatches = checkpoint?.processedBatches || 0;
-
-    // Calculate batch size
-    const existingNodeCount = accumulatedNodes.length;
-    const batchSize = isTurbo ? TURBO_BATCH_SIZE : getAdaptiveBatchSize(existingNodeCount);
-    const delayMs = isTurbo ? TURBO_DELAY_MS : DELAY_BETWEEN_BATCHES_MS;
-    const concurrency = isTurbo ? TURBO_CONCURRENCY : 1;
-    
-    console.log(`[BatchGeneration] Mode: ${isTurbo ? 'TURBO' : 'standard'}, batch size: ${batchSize}, concurrency: ${concurrency}`);
-
-    // Create batches with topic maps
-    const batches: string[][] = [];
-    const batchTopicMaps: Record<string, string>[] = [];
-    for (let i = 0; i < questionsToProcess.length; i += batchSize) {
-      batches.push(questionsToProcess.slice(i, i + batchSize));
-      const batchMap: Record<string, string> = {};
-      for (let j = 0; j < batchSize && i + j < questionsToProcess.length; j++) {
-        const globalIdx = i + j;
-        if (topicMapToUse[globalIdx]) {
-          batchMap[String(j)] = topicMapToUse[globalIdx];
-        }
-      }
-      batchTopicMaps.push(batchMap);
-    }
-
-    const totalBatches = batches.length;
-
-    setProgress({
-      currentBatch: processedBatches,
-      totalBatches,
-      skillsDiscovered: accumulatedNodes.length - (existingGraph?.globalNodes.length || 0),
-      estimatedTimeRemaining: 'Calculating...',
-      isProcessing: true,
-      concurrentBatches: concurrency,
-    });
-
-    try {
-      if (isTurbo) {
-        // ====== TURBO: Parallel wave processing ======
-        const allRetryBatches: number[] = [];
-        for (let waveStart = processedBatches; waveStart < batches.length; waveStart += concurrency) {
-          if (abortRef.current) {
-            toast({
-              title: "Generation paused",
-              description: `Progress saved. ${waveStart} of ${totalBatches} batches completed.`,
-            });
-            return;
-          }
-
-          const waveEnd = Math.min(waveStart + concurrency, batches.length);
-          const waveBatchIndices = Array.from({ length: waveEnd - waveStart }, (_, i) => waveStart + i);
-
-          // Update progress
-          const elapsed = (Date.now() - batchStartTimeRef.current) / 1000;
-          const completedWaves = Math.floor((waveStart - processedBatches) / concurrency);
-          const avgTimePerWave = completedWaves > 0 ? elapsed / completedWaves : 20;
-          const remainingWaves = Math.ceil((totalBatches - waveStart) / concurrency);
-
-          setProgress({
-            currentBatch: waveStart + 1,
-            totalBatches,
-            skillsDiscovered: accumulatedNodes.length - (existingGraph?.globalNodes.length || 0),
-            estimatedTimeRemaining: formatTimeRemaining(avgTimePerWave * remainingWaves),
-            isProcessing: true,
-            concurrentBatches: waveBatchIndices.length,
-          });
-
-          // Fire all batches in this wave concurrently
-          const waveStartTime = Date.now();
-          const waveResults = await Promise.allSettled(
-            waveBatchIndices.map(idx =>
-              callBatchGenerate(batches[idx], batchTopicMaps[idx], accumulatedNodes, domain)
-            )
-          );
-
-          // Check for rate limiting - if any batch got 429, back off entire wave
-          let hasRateLimit = false;
-          let waveSucceeded = 0;
-          let waveFailed = 0;
-
-          for (let j = 0; j < waveResults.length; j++) {
-            const result = waveResults[j];
-            if (result.status === 'fulfilled' && result.value) {
-              waveSucceeded++;
-              const deltaGraph = normalizeGraphPayload(result.value);
-              partialGraph = partialGraph
-                ? mergeGraphs([partialGraph, deltaGraph])
-                : deltaGraph;
-
-              for (const node of deltaGraph.globalNodes) {
-                if (!accumulatedNodes.some(n => n.id === node.id)) {
-                  accumulatedNodes.push({
-                    id: node.id,
-                    name: node.name,
-                    tier: node.tier,
-                    description: node.description
-                  });
-                }
-              }
-            } else if (result.status === 'rejected') {
-              waveFailed++;
-              const errMsg = result.reason?.message || '';
-              if (errMsg.includes('429') || errMsg.includes('rate')) {
-                hasRateLimit = true;
-              }
-              console.error(`[Turbo] Batch ${waveBatchIndices[j]} failed:`, result.reason);
-              // Push to global retry queue instead of retrying immediately
-              allRetryBatches.push(waveBatchIndices[j]);
-            }
-          }
-
-          const waveElapsed = ((Date.now() - waveStartTime) / 1000).toFixed(1);
-          const waveNum = Math.floor((waveStart - processedBatches) / concurrency) + 1;
-          console.log(`[Turbo] Wave ${waveNum} completed in ${waveElapsed}s (${waveSucceeded} succeeded, ${waveFailed} failed)`);
-
-          // Update UI after each wave
-          if (partialGraph) {
-            onGraphUpdate(partialGraph);
-          }
-
-          // Save checkpoint after each wave
-          saveCheckpoint({
-            questions: questionsToProcess,
-            processedBatches: waveEnd,
-            accumulatedNodes,
-            partialGraph,
-            existingGraph,
-            timestamp: Date.now(),
-            turbo: true,
-            topicMap: topicMapToUse,
-          });
-
-          // Rate limit backoff
-          if (hasRateLimit) {
-            console.log('[Turbo] Rate limited, backing off 30s...');
-            await sleep(30000);
-          }
-
-          // Delay between waves
-          if (waveEnd < batches.length) {
-            await sleep(delayMs);
-          }
-        }
-
-        // ====== TURBO: Final retry wave for all failed batches (capped) ======
-        const MAX_RETRY_BATCHES = 10;
-        const failureRate = allRetryBatches.length / totalBatches;
-        if (allRetryBatches.length > 0 && !abortRef.current) {
-          if (failureRate > 0.5) {
-            console.error(`[Turbo] ${allRetryBatches.length}/${totalBatches} batches failed (${(failureRate * 100).toFixed(0)}%). Skipping retry wave.`);
-            toast({
-              title: "High failure rate",
-              description: `${allRetryBatches.length} of ${totalBatches} batches failed. The API may be overloaded. Try again later.`,
-              variant: "destructive",
-            });
-          } else {
-            const retrySlice = allRetryBatches.slice(0, MAX_RETRY_BATCHES);
-            console.log(`[Turbo] Retrying ${retrySlice.length} failed batches (capped at ${MAX_RETRY_BATCHES})...`);
-            const retryWaveStart = Date.now();
-            const retryResults = await Promise.allSettled(
-              retrySlice.map(idx =>
-                callBatchGenerate(batches[idx], batchTopicMaps[idx], accumulatedNodes, domain)
-              )
-            );
-
-            let retrySucceeded = 0;
-            for (let j = 0; j < retryResults.length; j++) {
-              const result = retryResults[j];
-              if (result.status === 'fulfilled' && result.value) {
-                retrySucceeded++;
-                const deltaGraph = normalizeGraphPayload(result.value);
-                partialGraph = partialGraph
-                  ? mergeGraphs([partialGraph!, deltaGraph])
-                  : deltaGraph;
-                for (const node of deltaGraph.globalNodes) {
-                  if (!accumulatedNodes.some(n => n.id === node.id)) {
-                    accumulatedNodes.push({ id: node.id, name: node.name, tier: node.tier, description: node.description });
-                  }
-                }
-              } else {
-                console.error(`[Turbo] Final retry failed for batch ${retrySlice[j]}:`, (result as PromiseRejectedResult).reason);
-              }
-            }
-
-            const retryElapsed = ((Date.now() - retryWaveStart) / 1000).toFixed(1);
-            console.log(`[Turbo] Final retry wave completed in ${retryElapsed}s (${retrySucceeded}/${retrySlice.length} recovered)`);
-
-            if (partialGraph) {
-              onGraphUpdate(partialGraph);
-            }
-          }
-        }
-      } else {
-        // ====== STANDARD: Sequential processing ======
-        for (let i = processedBatches; i < batches.length; i++) {
-          if (abortRef.current) {
-            toast({
-              title: "Generation paused",
-              description: `Progress saved. ${i} of ${totalBatches} batches completed.`,
-            });
-            return;
-          }
-
-          const elapsed = (Date.now() - batchStartTimeRef.current) / 1000;
-          const avgTimePerBatch = i > processedBatches ? elapsed / (i - processedBatches) : 15;
-          const remaining = avgTimePerBatch * (totalBatches - i);
-
-          setProgress({
-            currentBatch: i + 1,
-            totalBatches,
-            skillsDiscovered: accumulatedNodes.length - (existingGraph?.globalNodes.length || 0),
-            estimatedTimeRemaining: formatTimeRemaining(remaining),
-            isProcessing: true,
-          });
-
-          let data;
-          try {
-            data = await callBatchGenerate(batches[i], batchTopicMaps[i], accumulatedNodes, domain);
-          } catch (batchErr) {
-            console.warn(`[Sequential] Batch ${i + 1}/${totalBatches} failed after retries, skipping:`, batchErr);
-            toast({
-              title: `Batch ${i + 1} skipped`,
-              description: `Failed after 3 retries. Continuing with remaining batches.`,
-              variant: "default",
-            });
-            // Save checkpoint and continue to next batch
-            saveCheckpoint({
-              questions: questionsToProcess,
-              processedBatches: i + 1,
-              accumulatedNodes,
-              partialGraph,
-              existingGraph,
-              timestamp: Date.now(),
-            });
-            if (i < batches.length - 1) {
-              await sleep(delayMs);
-            }
-            continue;
-          }
-          const deltaGraph = normalizeGraphPayload(data);
-
-          partialGraph = partialGraph
-            ? mergeGraphs([partialGraph, deltaGraph])
-            : deltaGraph;
-
-          onGraphUpdate(partialGraph);
-
-          for (const node of deltaGraph.globalNodes) {
-            if (!accumulatedNodes.some(n => n.id === node.id)) {
-              accumulatedNodes.push({
-                id: node.id,
-                name: node.name,
-                tier: node.tier,
-                description: node.description
-              });
-            }
-          }
-
-          saveCheckpoint({
-            questions: questionsToProcess,
-            processedBatches: i + 1,
-            accumulatedNodes,
-            partialGraph,
-            existingGraph,
-            timestamp: Date.now(),
-          });
-
-          if (i < batches.length - 1) {
-            await sleep(delayMs);
-          }
-        }
-      }
-
-      // All batches complete
-      clearCheckpoint();
-
-      const finalGraph = partialGraph!;
-      const newSkillCount = finalGraph.globalNodes.length - (existingGraph?.globalNodes.length || 0);
+      // Untagged turbo runs are classified into curriculum topics by the job itself
+      const data = await invokeJobAction('start', {
+        graphId: graphId ?? null,
+        questions: questionsToProcess,
+        topicMap: topicMapToUse,
+        domain,
+        turbo: isTurbo,
+        forceRefresh: !!forceRefresh,
+        includeTrace: !!includeTrace,
+        existingNodes,
+      });
+      attach(data.jobId);
 
       toast({
-        title: existingGraph ? "Graph updated!" : "Graph generated!",
-        description: `Added ${newSkillCount} skills. Total: ${finalGraph.globalNodes.length} skills, ${finalGraph.edges.length} relationships.${isTurbo ? ' ⚡ Turbo Mode' : ''}`,
+        title: isTurbo ? "⚡ Turbo generation started" : "Generation started",
+        description: `${questionsToProcess.length} questions queued. The run continues on the server if you close this tab.`,
       });
-
-      onGenerationComplete?.();
-
     } catch (error) {
       console.error('Batch generation error:', error);
-
       toast({
         title: "Generation failed",
-        description: error instanceof Error ? error.message : "Failed to generate knowledge graph.",
+        description: error instanceof Error ? error.message : "Failed to start graph generation.",
         variant: "destructive",
       });
     } finally {
-      setProgress(prev => ({ ...prev, isProcessing: false }));
+      setIsStarting(false);
     }
-  }, [existingGraph, onGraphUpdate, onGenerationComplete, getCheckpoint, saveCheckpoint, clearCheckpoint, checkDuplicateQuestions, callBatchGenerate]);
+  }, [existingGraph, resume, attach, checkDuplicateQuestions]);
 
-  const abort = useCallback(() => {
-    abortRef.current = true;
-  }, []);
+  const abort = useCallback(async () => {
+    if (!jobId) return;
+    try {
+      await invokeJobAction('pause', { jobId });
+    } catch (error) {
+      console.error('Failed to pause generation job:', error);
+      toast({ title: "Pause failed", description: "Could not pause the generation job.", variant: "destructive" });
+    }
+  }, [jobId]);
 
-  const resume = useCallback(async () => {
-    const checkpoint = getCheckpoint();
-    if (checkpoint) {
-      await generate(checkpoint.questions, true, undefined, undefined, checkpoint.turbo);
+  const cancel = useCallback(async () => {
+    const target = jobId ?? openJob?.id;
+    if (!target) return;
+    try {
+      await invokeJobAction('cancel', { jobId: target });
+      if (!jobId) setOpenJob(null);
+    } catch (error) {
+      console.error('Failed to cancel generation job:', error);
+      toast({ title: "Cancel failed", description: "Could not cancel the generation job.", variant: "destructive" });
     }
-  }, [generate, getCheckpoint]);
+  }, [jobId, openJob]);
+
+  const hasCheckpoint = useCallback(() => {
+    return !jobId && openJob !== null;
+  }, [jobId, openJob]);
+
+  // Discard the offered job without touching one that is being followed
+  const clearCheckpoint = useCallback(() => {
+    if (!openJob) return;
+    const discarded = openJob.id;
+    setOpenJob(null);
+    invokeJobAction('cancel', { jobId: discarded }).catch(err => {
+      console.warn('Failed to discard generation job:', err);
+    });
+  }, [openJob]);
+
+  const progress = useMemo<BatchProgress>(() => {
+    if (!jobId) {
+      return {
+        currentBatch: 0,
+        totalBatches: 0,
+        skillsDiscovered: 0,
+        estimatedTimeRemaining: '',
+        isProcessing: isStarting,
+        status: isStarting ? 'queued' : undefined,
+      };
+    }
+    if (!job || job.id !== jobId) {
+      return {
+        currentBatch: 0,
+        totalBatches: 0,
+        skillsDiscovered: 0,
+        estimatedTimeRemaining: 'Calculating...',
+        isProcessing: true,
+        status: 'queued',
+      };
+    }
+
+    const done = job.completed_batches + job.failed_batches;
+    const startedAt = job.started_at ? Date.parse(job.started_at) : null;
+    const elapsed = startedAt ? (Date.now() - startedAt) / 1000 : 0;
+    const running = batches.filter(b => b.job_id === job.id && b.status === 'running').length;
+
+    return {
+      currentBatch: job.total_batches > 0 ? Math.min(done + 1, job.total_batches) : 0,
+      totalBatches: job.total_batches,
+      skillsDiscovered: job.skills_discovered,
+      estimatedTimeRemaining: done > 0 && startedAt
+        ? formatTimeRemaining((elapsed / done) * (job.total_batches - done))
+        : 'Calculating...',
+      isProcessing: isJobActive(job),
+      concurrentBatches: running > 1 ? running : undefined,
+      status: job.status as GenerationJobStatus,
+      failedBatches: job.failed_batches,
+    };
+  }, [jobId, job, batches, isStarting]);
 
   return {
     generate,
     abort,
+    cancel,
     resume,
     progress,
+    events: jobId ? events : [],
+    liveNodeIds,
+    review,
+    applyReview,
+    discardReview,
+    deferReview,
+    pendingJob: jobId || review ? null : openJob,
     hasCheckpoint,
     clearCheckpoint,
   };
@@ -2,7 +2,16 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { calculateOverallMastery } from '@/lib/mastery';
+import {
+  calculateOverallMastery,
+  computeEffectiveMastery,
+  loadModelMastery,
+  DEFAULT_CREDIT_POLICY,
+  DEFAULT_DECAY_CONFIG,
+  type CreditPolicy,
+  type DecayConfig,
+  type MasteryModelId,
+} from '@/lib/mastery';
 import type { 
   KPMastery, 
   ClassAnalytics, 
@@ -14,6 +23,9 @@ import type {
 interface UseClassAnalyticsOptions {
   classId: string;
   autoLoad?: boolean;
+  decayConfig?: DecayConfig;
+  creditPolicy?: CreditPolicy;
+  model?: MasteryModelId;
 }
 
 interface UseClassAnalyticsReturn {
@@ -34,6 +46,9 @@ interface UseClassAnalyticsReturn {
 export function useClassAnalytics({
   classId,
   autoLoad = true,
+  decayConfig = DEFAULT_DECAY_CONFIG,
+  creditPolicy = DEFAULT_CREDIT_POLICY,
+  model = 'counting',
 }: UseClassAnalyticsOptions): UseClassAnalyticsReturn {
   const [classInfo, setClassInfo] = useState<StudentClass | null>(null);
   const [students, setStudents] = useState<ClassStudent[]>([]);
@@ -123,28 +138,41 @@ export function useClassAnalytics({
           lastReviewedAt: m.last_reviewed_at ? new Date(m.last_reviewed_at) : null,
           stability: Number(m.stability),
           retrievalCount: m.retrieval_count,
+          attemptCount: m.attempt_count ?? 0,
         };
         
         const existing = masteryByStudent.get(m.student_id) || [];
         existing.push(record);
         masteryByStudent.set(m.student_id, existing);
       });
+
+      // Non-counting models are recomputed from the attempt log
+      if (model !== 'counting') {
+        masteryByStudent.clear();
+        const modelMastery = await loadModelMastery(classRecord.graphId, studentIds, model, decayConfig, creditPolicy);
+        for (const [studentId, records] of modelMastery) {
+          masteryByStudent.set(studentId, Array.from(records.values()));
+        }
+      }
       
-      // Compute summaries using rawMastery directly (no retention decay)
+      // Compute summaries using effective mastery (decayed when enabled for the graph)
       const summaries: StudentMasterySummary[] = [];
       const allRecords: KPMastery[] = [];
       
       for (const student of studentRecords) {
-        const records = masteryByStudent.get(student.studentId) || [];
+        const records = computeEffectiveMastery(
+          masteryByStudent.get(student.studentId) || [],
+          decayConfig
+        );
         allRecords.push(...records);
         
         summaries.push({
           studentId: student.studentId,
           studentName: student.studentName,
           overallMastery: calculateOverallMastery(records),
-          masteredKPs: records.filter(m => m.rawMastery >= 0.8).length,
-          agingKPs: 0,
-          expiredKPs: 0,
+          masteredKPs: records.filter(m => (m.effectiveMastery ?? m.rawMastery) >= 0.8).length,
+          agingKPs: records.filter(m => m.retentionStatus === 'aging').length,
+          expiredKPs: records.filter(m => m.retentionStatus === 'expired').length,
           totalKPs: records.length,
         });
       }
@@ -155,7 +183,7 @@ export function useClassAnalytics({
       const skillMastery = new Map<string, number[]>();
       allRecords.forEach(m => {
         const existing = skillMastery.get(m.skillId) || [];
-        existing.push(m.rawMastery);
+        existing.push(m.effectiveMastery ?? m.rawMastery);
         skillMastery.set(m.skillId, existing);
       });
       
@@ -201,7 +229,7 @@ export function useClassAnalytics({
     } finally {
       setLoading(false);
     }
-  }, [classId]);
+  }, [classId, decayConfig, creditPolicy, model]);
 
   // Get analytics for a specific skill
   const getSkillAnalytics = useCallback((skillId: string) => {
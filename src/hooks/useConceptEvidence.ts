@@ -0,0 +1,71 @@
+// Hook for measured Concept Mastery Evidence (CME) per student or class
+
+import { useState, useCallback, useEffect } from 'react';
+import { loadConceptEvidence } from '@/lib/mastery';
+import type { CME } from '@/types/graph';
+
+interface UseConceptEvidenceOptions {
+  graphId: string;
+  studentId?: string | null;
+  classId?: string | null;
+  autoLoad?: boolean;
+}
+
+interface UseConceptEvidenceReturn {
+  cmeBySkill: Map<string, CME>;
+  loading: boolean;
+  error: string | null;
+  loadEvidence: () => Promise<void>;
+}
+
+/**
+ * Loads CME for a single student when studentId is set,
+ * otherwise pools evidence across every student in classId.
+ */
+export function useConceptEvidence({
+  graphId,
+  studentId,
+  classId,
+  autoLoad = true,
+}: UseConceptEvidenceOptions): UseConceptEvidenceReturn {
+  const [cmeBySkill, setCmeBySkill] = useState<Map<string, CME>>(new Map());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEvidence = useCallback(async () => {
+    if (!graphId || (!studentId && !classId)) {
+      setCmeBySkill(new Map());
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const evidence = await loadConceptEvidence(
+        graphId,
+        studentId ? { studentId } : { classId: classId! }
+      );
+      setCmeBySkill(evidence);
+    } catch (err) {
+      console.error('Error loading concept evidence:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load concept evidence');
+    } finally {
+      setLoading(false);
+    }
+  }, [graphId, studentId, classId]);
+
+  // Auto-load when scope changes
+  useEffect(() => {
+    if (autoLoad) {
+      loadEvidence();
+    }
+  }, [autoLoad, loadEvidence]);
+
+  return {
+    cmeBySkill,
+    loading,
+    error,
+    loadEvidence,
+  };
+}
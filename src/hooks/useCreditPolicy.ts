@@ -0,0 +1,70 @@
+// Hook for the per-graph mastery crediting policy
+
+import { useState, useCallback, useEffect } from 'react';
+import { toast } from 'sonner';
+import {
+  DEFAULT_CREDIT_POLICY,
+  loadCreditPolicy,
+  saveCreditPolicy,
+  type CreditPolicy,
+} from '@/lib/mastery';
+
+interface UseCreditPolicyOptions {
+  graphId: string;
+  autoLoad?: boolean;
+}
+
+export function useCreditPolicy({ graphId, autoLoad = true }: UseCreditPolicyOptions) {
+  const [creditPolicy, setCreditPolicy] = useState<CreditPolicy>(DEFAULT_CREDIT_POLICY);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadPolicy = useCallback(async () => {
+    if (!graphId) {
+      setCreditPolicy(DEFAULT_CREDIT_POLICY);
+      return;
+    }
+    setLoading(true);
+    try {
+      setCreditPolicy(await loadCreditPolicy(graphId));
+    } catch (error) {
+      console.error('Failed to load crediting policy:', error);
+      setCreditPolicy(DEFAULT_CREDIT_POLICY);
+    } finally {
+      setLoading(false);
+    }
+  }, [graphId]);
+
+  // Optimistically apply, then persist
+  const updateCreditPolicy = useCallback(async (policy: CreditPolicy): Promise<boolean> => {
+    if (!graphId) return false;
+    const previous = creditPolicy;
+    setCreditPolicy(policy);
+    setSaving(true);
+    try {
+      setCreditPolicy(await saveCreditPolicy(graphId, policy));
+      return true;
+    } catch (error) {
+      console.error('Failed to save crediting policy:', error);
+      toast.error('Failed to save crediting policy');
+      setCreditPolicy(previous);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [graphId, creditPolicy]);
+
+  useEffect(() => {
+    if (autoLoad) {
+      loadPolicy();
+    }
+  }, [autoLoad, loadPolicy]);
+
+  return {
+    creditPolicy,
+    loading,
+    saving,
+    loadPolicy,
+    updateCreditPolicy,
+  };
+}
@@ -0,0 +1,68 @@
+// Hook for the per-graph retention decay toggle and parameters
+
+import { useState, useCallback, useEffect } from 'react';
+import { toast } from 'sonner';
+import {
+  DEFAULT_DECAY_CONFIG,
+  loadDecayConfig,
+  saveDecayConfig,
+  type DecayConfig,
+} from '@/lib/mastery';
+
+interface UseDecaySettingsOptions {
+  graphId: string;
+  autoLoad?: boolean;
+}
+
+export function useDecaySettings({ graphId, autoLoad = true }: UseDecaySettingsOptions) {
+  const [decayConfig, setDecayConfig] = useState<DecayConfig>(DEFAULT_DECAY_CONFIG);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadSettings = useCallback(async () => {
+    if (!graphId) {
+      setDecayConfig(DEFAULT_DECAY_CONFIG);
+      return;
+    }
+    setLoading(true);
+    try {
+      setDecayConfig(await loadDecayConfig(graphId));
+    } catch (error) {
+      console.error('Failed to load decay settings:', error);
+      setDecayConfig(DEFAULT_DECAY_CONFIG);
+    } finally {
+      setLoading(false);
+    }
+  }, [graphId]);
+
+  // Optimistically apply, then persist
+  const updateDecayConfig = useCallback(async (config: DecayConfig) => {
+    if (!graphId) return;
+    const previous = decayConfig;
+    setDecayConfig(config);
+    setSaving(true);
+    try {
+      setDecayConfig(await saveDecayConfig(graphId, config));
+    } catch (error) {
+      console.error('Failed to save decay settings:', error);
+      toast.error('Failed to save retention decay settings');
+      setDecayConfig(previous);
+    } finally {
+      setSaving(false);
+    }
+  }, [graphId, decayConfig]);
+
+  useEffect(() => {
+    if (autoLoad) {
+      loadSettings();
+    }
+  }, [autoLoad, loadSettings]);
+
+  return {
+    decayConfig,
+    loading,
+    saving,
+    loadSettings,
+    updateDecayConfig,
+  };
+}
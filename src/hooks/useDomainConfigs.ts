@@ -0,0 +1,78 @@
+// Hook for the subject domains available to graph generation
+
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface DomainOption {
+  domain: string;
+  label: string;
+  version: number;             // Highest active version
+}
+
+// Used until the table loads, or when it cannot be read
+export const FALLBACK_DOMAINS: DomainOption[] = [
+  { domain: 'python', label: 'Python', version: 1 },
+  { domain: 'web', label: 'HTML/CSS/JS/React/AI', version: 1 },
+];
+
+interface UseDomainConfigsOptions {
+  autoLoad?: boolean;
+}
+
+interface UseDomainConfigsReturn {
+  domains: DomainOption[];
+  loading: boolean;
+  error: string | null;
+  loadDomains: () => Promise<void>;
+}
+
+export function useDomainConfigs({
+  autoLoad = true,
+}: UseDomainConfigsOptions = {}): UseDomainConfigsReturn {
+  const [domains, setDomains] = useState<DomainOption[]>(FALLBACK_DOMAINS);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDomains = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: loadError } = await supabase
+        .from('domain_configs')
+        .select('domain, label, version')
+        .eq('is_active', true)
+        .order('version', { ascending: false });
+      if (loadError) throw loadError;
+
+      // Rows are newest first, so the first row per domain is its latest label
+      const latest = new Map<string, DomainOption>();
+      for (const row of data || []) {
+        if (!latest.has(row.domain)) {
+          latest.set(row.domain, { domain: row.domain, label: row.label, version: row.version });
+        }
+      }
+      if (latest.size > 0) {
+        setDomains([...latest.values()].sort((a, b) => a.label.localeCompare(b.label)));
+      }
+    } catch (err) {
+      console.error('Error loading domain configs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load domain configs');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (autoLoad) {
+      loadDomains();
+    }
+  }, [autoLoad, loadDomains]);
+
+  return {
+    domains,
+    loading,
+    error,
+    loadDomains,
+  };
+}
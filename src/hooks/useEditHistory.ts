@@ -0,0 +1,163 @@
+// Hook for undo/redo of graph edits: each command records how to apply and revert itself
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { toast } from '@/hooks/use-toast';
+
+export interface EditCommand {
+  label: string;
+  apply: () => Promise<boolean>;   // Runs the edit; also used for redo
+  revert: () => Promise<boolean>;  // Undoes it
+}
+
+export interface EditHistoryEntry {
+  id: number;
+  label: string;
+  at: Date;
+}
+
+interface StackEntry extends EditHistoryEntry {
+  command: EditCommand;
+}
+
+interface UseEditHistoryOptions {
+  resetKey: string | null;        // History is cleared whenever this changes, e.g. another graph is loaded
+  limit?: number;
+  enableShortcuts?: boolean;      // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), and Ctrl+Y
+}
+
+// Undo shortcuts are left to text fields while they have focus
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+export function useEditHistory({ resetKey, limit = 100, enableShortcuts = true }: UseEditHistoryOptions) {
+  // Refs are the source of truth so chained undo/redo calls see each other's results
+  const pastRef = useRef<StackEntry[]>([]);
+  const futureRef = useRef<StackEntry[]>([]);
+  const nextIdRef = useRef(1);
+  const busyRef = useRef(false);
+  const [past, setPast] = useState<EditHistoryEntry[]>([]);
+  const [future, setFuture] = useState<EditHistoryEntry[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const sync = useCallback(() => {
+    setPast(pastRef.current.map(({ command: _command, ...entry }) => entry));
+    setFuture(futureRef.current.map(({ command: _command, ...entry }) => entry));
+  }, []);
+
+  const clear = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    sync();
+  }, [sync]);
+
+  useEffect(() => {
+    clear();
+  }, [resetKey, clear]);
+
+  // Run a command and, if it succeeds, make it the newest undoable step
+  const execute = useCallback(async (command: EditCommand): Promise<boolean> => {
+    if (busyRef.current) return false;
+    busyRef.current = true;
+    setIsApplying(true);
+    try {
+      const ok = await command.apply();
+      if (ok) {
+        pastRef.current = [
+          ...pastRef.current,
+          { id: nextIdRef.current++, label: command.label, at: new Date(), command },
+        ].slice(-limit);
+        futureRef.current = [];
+        sync();
+      }
+      return ok;
+    } finally {
+      busyRef.current = false;
+      setIsApplying(false);
+    }
+  }, [limit, sync]);
+
+  // Move one step back (undo) or forward (redo); a failed step leaves the stacks as they were
+  const step = useCallback(async (direction: 'undo' | 'redo'): Promise<boolean> => {
+    const from = direction === 'undo' ? pastRef : futureRef;
+    const to = direction === 'undo' ? futureRef : pastRef;
+    const entry = from.current[from.current.length - 1];
+    if (!entry) return false;
+
+    const ok = direction === 'undo' ? await entry.command.revert() : await entry.command.apply();
+    if (!ok) {
+      toast({
+        title: direction === 'undo' ? 'Undo failed' : 'Redo failed',
+        description: `Could not ${direction} "${entry.label}". The graph may have been changed elsewhere.`,
+        variant: 'destructive',
+      });
+      return false;
+    }
+    from.current = from.current.slice(0, -1);
+    to.current = [...to.current, entry];
+    sync();
+    return true;
+  }, [sync]);
+
+  const run = useCallback(async (steps: Array<'undo' | 'redo'>) => {
+    if (busyRef.current) return;
+    busyRef.current = true;
+    setIsApplying(true);
+    try {
+      for (const direction of steps) {
+        if (!(await step(direction))) break;
+      }
+    } finally {
+      busyRef.current = false;
+      setIsApplying(false);
+    }
+  }, [step]);
+
+  const undo = useCallback(() => run(['undo']), [run]);
+  const redo = useCallback(() => run(['redo']), [run]);
+
+  // Undo or redo until `entryId` is the newest applied step; null undoes everything
+  const goTo = useCallback((entryId: number | null) => {
+    const pastIndex = entryId === null ? -1 : pastRef.current.findIndex(e => e.id === entryId);
+    if (entryId === null || pastIndex >= 0) {
+      const count = pastRef.current.length - 1 - pastIndex;
+      return run(Array(count).fill('undo'));
+    }
+    // Future is stored oldest-undone last, so the entry nearest the present is at the end
+    const futureIndex = futureRef.current.findIndex(e => e.id === entryId);
+    if (futureIndex < 0) return Promise.resolve();
+    return run(Array(futureRef.current.length - futureIndex).fill('redo'));
+  }, [run]);
+
+  useEffect(() => {
+    if (!enableShortcuts) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === 'y' && !e.shiftKey) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enableShortcuts, undo, redo]);
+
+  return {
+    past,
+    future,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    isApplying,
+    execute,
+    undo,
+    redo,
+    goTo,
+    clear,
+  };
+}
@@ -0,0 +1,167 @@
+// Hook that follows a server-side generation job, its batches and progress events over realtime
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type GenerationJob = Tables<'generation_jobs'>;
+export type GenerationJobBatch = Tables<'generation_job_batches'>;
+export type GenerationJobEvent = Tables<'generation_job_events'>;
+
+// Mirrors GenerationEvent in supabase/functions/generate-graph
+export type GenerationRepairStep =
+  | 'topicFilter'
+  | 'independenceRule'
+  | 'mandatoryEdges'
+  | 'stripBidirectional'
+  | 'transitiveReduce'
+  | 'breakCycles'
+  | 'orphanCleanup';
+
+export type GenerationEventPayload =
+  | { type: 'started'; questions: number; domain: string; version: number; promptVersion?: string; existingSkills: number }
+  | { type: 'questions_analyzed'; count: number }
+  | { type: 'skills_proposed'; count: number; skills: { id: string; name: string }[] }
+  | { type: 'edges_proposed'; count: number }
+  | { type: 'repair'; step: GenerationRepairStep; unit: 'skills' | 'edges'; before: number; after: number };
+
+export type GenerationJobStatus =
+  | 'queued'
+  | 'classifying'
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+// Statuses in which a worker is (or should be) processing the job
+export const ACTIVE_JOB_STATUSES: GenerationJobStatus[] = ['queued', 'classifying', 'running'];
+
+// Realtime can drop events; a periodic reload keeps the view honest
+const POLL_INTERVAL_MS = 30000;
+
+// Only the tail of the event log is kept for the live feed
+const MAX_EVENTS = 50;
+
+interface UseGenerationJobOptions {
+  jobId: string | null;
+}
+
+interface UseGenerationJobReturn {
+  job: GenerationJob | null;
+  batches: GenerationJobBatch[];
+  events: GenerationJobEvent[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+export function isJobActive(job: Pick<GenerationJob, 'status'> | null): boolean {
+  return !!job && ACTIVE_JOB_STATUSES.includes(job.status as GenerationJobStatus);
+}
+
+function upsertBatch(batches: GenerationJobBatch[], batch: GenerationJobBatch): GenerationJobBatch[] {
+  const next = batches.filter(b => b.id !== batch.id);
+  next.push(batch);
+  return next.sort((a, b) => a.batch_index - b.batch_index);
+}
+
+/**
+ * Read an event row back into the payload shape emitted by generate-graph
+ */
+export function toEventPayload(event: GenerationJobEvent): GenerationEventPayload {
+  return { ...(event.payload as Record<string, unknown>), type: event.event_type } as GenerationEventPayload;
+}
+
+export function useGenerationJob({ jobId }: UseGenerationJobOptions): UseGenerationJobReturn {
+  const [job, setJob] = useState<GenerationJob | null>(null);
+  const [batches, setBatches] = useState<GenerationJobBatch[]>([]);
+  const [events, setEvents] = useState<GenerationJobEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const activeRef = useRef(false);
+
+  useEffect(() => {
+    activeRef.current = isJobActive(job);
+  }, [job]);
+
+  const refresh = useCallback(async () => {
+    if (!jobId) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [jobResult, batchResult, eventResult] = await Promise.all([
+        supabase.from('generation_jobs').select('*').eq('id', jobId).single(),
+        supabase.from('generation_job_batches').select('*').eq('job_id', jobId).order('batch_index'),
+        supabase
+          .from('generation_job_events')
+          .select('*')
+          .eq('job_id', jobId)
+          .order('created_at', { ascending: false })
+          .limit(MAX_EVENTS),
+      ]);
+      if (jobResult.error) throw jobResult.error;
+      if (batchResult.error) throw batchResult.error;
+      if (eventResult.error) throw eventResult.error;
+
+      setJob(jobResult.data);
+      setBatches(batchResult.data || []);
+      setEvents((eventResult.data || []).reverse());
+    } catch (err) {
+      console.error('Error loading generation job:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load generation job');
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    setJob(null);
+    setBatches([]);
+    setEvents([]);
+    if (!jobId) return;
+
+    refresh();
+
+    const channel = supabase
+      .channel(`generation-job-${jobId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'generation_jobs', filter: `id=eq.${jobId}` },
+        payload => setJob(payload.new as GenerationJob)
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'generation_job_batches', filter: `job_id=eq.${jobId}` },
+        payload => {
+          if (payload.eventType === 'DELETE') return;
+          setBatches(prev => upsertBatch(prev, payload.new as GenerationJobBatch));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'generation_job_events', filter: `job_id=eq.${jobId}` },
+        payload => setEvents(prev => [...prev, payload.new as GenerationJobEvent].slice(-MAX_EVENTS))
+      )
+      .subscribe();
+
+    const poll = setInterval(() => {
+      if (activeRef.current) refresh();
+    }, POLL_INTERVAL_MS);
+
+    return () => {
+      clearInterval(poll);
+      supabase.removeChannel(channel);
+    };
+  }, [jobId, refresh]);
+
+  return {
+    job,
+    batches,
+    events,
+    loading,
+    error,
+    refresh,
+  };
+}
@@ -1,7 +1,20 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { KnowledgeGraph, GraphNode, GraphEdge } from '@/types/graph';
+import { KnowledgeGraph, GraphNode, GraphEdge, IPAStep } from '@/types/graph';
+import type { Json, Tables } from '@/integrations/supabase/types';
 import { toast } from '@/hooks/use-toast';
+import { CONFIRMED_CONFIDENCE } from '@/lib/graph/confidence';
+import {
+  computeSaveDelta,
+  emptyRows,
+  graphToRows,
+  isGraphConflict,
+  keepRowsMissingFromGraph,
+  keysToRows,
+  type GraphRows,
+} from '@/lib/graph/saveDelta';
+import type { GraphDocument } from '@/lib/interchange';
+import { fetchAllRows } from '@/lib/mastery';
 
 export interface SavedGraphMeta {
   id: string;
@@ -9,15 +22,80 @@ export interface SavedGraphMeta {
   description: string | null;
   total_skills: number;
   total_questions: number;
+  prompt_version: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// Rows deleted or rewritten by removeNode, kept so the removal can be undone
+export interface RemovedNode {
+  skill: Tables<'skills'>;
+  edges: Tables<'skill_edges'>[];
+  questionSkills: Array<{ id: string; skills: string[] }>;  // Skill lists before the removal
+}
+
+export interface SaveGraphOptions {
+  message?: string;      // Shown in the version history
+  autosave?: boolean;    // Recorded on the version; also suppresses the success toast
+}
+
+// What a delta save is computed against: the graph's rows as last loaded or saved
+interface SaveBase {
+  graphId: string;
+  revision: number;
+  rows: GraphRows;
+}
+
+interface SaveGraphDeltaResult {
+  graph_id: string;
+  revision: number;
+  version_number: number | null;
+}
+
+/**
+ * Revision and row keys of a saved graph, for saving over a graph that was not loaded here
+ */
+async function fetchSaveBase(graphId: string): Promise<SaveBase> {
+  const [skillRows, edgeRows, questionRows, graphRes] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase.from('skills').select('skill_id').eq('graph_id', graphId).order('id').range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase.from('skill_edges').select('from_skill, to_skill').eq('graph_id', graphId).order('id').range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase.from('questions').select('question_text').eq('graph_id', graphId).order('id').range(from, to)
+    ),
+    supabase.from('knowledge_graphs').select('revision').eq('id', graphId).single(),
+  ]);
+
+  if (graphRes.error) throw graphRes.error;
+
+  return {
+    graphId,
+    revision: graphRes.data.revision,
+    rows: keysToRows(
+      skillRows.map(s => s.skill_id),
+      edgeRows,
+      questionRows.map(q => q.question_text)
+    ),
+  };
+}
+
+/**
+ * Who saved a version: the signed-in user's email, if any
+ */
+async function getVersionAuthor(): Promise<string | null> {
+  const { data } = await supabase.auth.getUser();
+  return data.user?.email ?? null;
+}
+
 export function useGraphPersistence() {
   const [savedGraphs, setSavedGraphs] = useState<SavedGraphMeta[]>([]);
   const [currentGraphId, setCurrentGraphId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const baseRef = useRef<SaveBase | null>(null);
 
   // Fetch list of saved graphs
   const fetchGraphs = useCallback(async () => {
@@ -25,7 +103,7 @@ export function useGraphPersistence() {
     try {
       const { data, error } = await supabase
         .from('knowledge_graphs')
-        .select('id, name, description, total_skills, total_questions, created_at, updated_at')
+        .select('id, name, description, total_skills, total_questions, prompt_version, created_at, updated_at')
         .order('updated_at', { ascending: false });
 
       if (error) throw error;
@@ -47,231 +125,111 @@ export function useGraphPersistence() {
     fetchGraphs();
   }, [fetchGraphs]);
 
-  // Save graph to database
+  // Save graph to database. Only rows changed since the graph was loaded (or last
+  // saved) are sent; save_graph_delta applies them and records the version atomically.
   const saveGraph = useCallback(async (
     graph: KnowledgeGraph,
     name: string,
     description?: string,
-    existingId?: string
+    existingId?: string,
+    options: SaveGraphOptions = {}
   ): Promise<string | null> => {
     setIsSaving(true);
     try {
       const questionCount = Object.keys(graph.questionPaths || {}).length;
       const skillCount = graph.globalNodes.length;
 
-      let graphId = existingId;
-      const subtopicMap = new Map<string, string>();
-
+      let base: SaveBase | null = null;
       if (existingId) {
-        // Update existing graph
-        const updatePayload: any = {
-          name,
-          description: description || null,
-          total_skills: skillCount,
-        };
-        // Only update total_questions if the in-memory graph actually has questions
-        if (questionCount > 0) {
-          updatePayload.total_questions = questionCount;
-        }
-
-        const { error: updateError } = await supabase
-          .from('knowledge_graphs')
-          .update(updatePayload)
-          .eq('id', existingId);
-
-        if (updateError) throw updateError;
-
-        // Preserve subtopic_id mappings before deleting skills
-        const { data: existingSkillMappings } = await supabase
-          .from('skills')
-          .select('skill_id, subtopic_id')
-          .eq('graph_id', existingId)
-          .not('subtopic_id', 'is', null);
-
-        (existingSkillMappings || []).forEach(s => {
-          if (s.subtopic_id) subtopicMap.set(s.skill_id, s.subtopic_id);
-        });
-
-        // Safety check: refuse to delete edges/questions if DB has data but in-memory is empty
-        let skipEdgeDeletion = false;
-        let skipQuestionDeletion = false;
-
-        if (graph.edges.length === 0) {
-          const { count: dbEdgeCount } = await supabase
-            .from('skill_edges')
-            .select('*', { count: 'exact', head: true })
-            .eq('graph_id', existingId);
-          if (dbEdgeCount && dbEdgeCount > 0) {
-            console.warn(`[saveGraph] Refusing to delete ${dbEdgeCount} edges: DB has data but in-memory graph has 0`);
-            skipEdgeDeletion = true;
-          }
-        }
-
-        if (Object.keys(graph.questionPaths || {}).length === 0) {
-          const { count: dbQuestionCount } = await supabase
-            .from('questions')
-            .select('*', { count: 'exact', head: true })
-            .eq('graph_id', existingId);
-          if (dbQuestionCount && dbQuestionCount > 0) {
-            console.warn(`[saveGraph] Refusing to delete ${dbQuestionCount} questions: DB has data but in-memory graph has 0`);
-            skipQuestionDeletion = true;
-          }
-        }
-
-        // Delete existing skills (always re-inserted with subtopic restoration)
-        const deleteOps = [
-          supabase.from('skills').delete().eq('graph_id', existingId).then(),
-        ];
-
-        // Only delete edges if graph has edges to re-insert AND safety check passed
-        if (graph.edges.length > 0 && !skipEdgeDeletion) {
-          deleteOps.push(supabase.from('skill_edges').delete().eq('graph_id', existingId).then());
-        }
-
-        // Only delete questions if graph has questions to re-insert AND safety check passed
-        if (Object.keys(graph.questionPaths || {}).length > 0 && !skipQuestionDeletion) {
-          deleteOps.push(supabase.from('questions').delete().eq('graph_id', existingId).then());
-        }
-
-        await Promise.all(deleteOps);
-      } else {
-        // Create new graph
-        const { data: newGraph, error: createError } = await supabase
-          .from('knowledge_graphs')
-          .insert({
-            name,
-            description: description || null,
-            total_skills: skillCount,
-            total_questions: questionCount,
-          })
-          .select('id')
-          .single();
-
-        if (createError) throw createError;
-        graphId = newGraph.id;
+        base = baseRef.current?.graphId === existingId ? baseRef.current : await fetchSaveBase(existingId);
       }
+      const baseRows = base?.rows ?? emptyRows();
+      // Safety check: refuse to delete edges/questions if DB has data but in-memory is empty
+      const nextRows = keepRowsMissingFromGraph(baseRows, graphToRows(graph));
 
-      if (!graphId) throw new Error('Failed to get graph ID');
-
-      // Insert skills
-      if (graph.globalNodes.length > 0) {
-        const skillsToInsert = graph.globalNodes.map((node: GraphNode) => ({
-          graph_id: graphId,
-          skill_id: node.id,
-          name: node.name,
-          tier: node.tier || 'core',
-          level: node.level,
-          description: node.description || null,
-          transferable_contexts: node.transferableContexts || [],
-        }));
-
-        const { error: skillsError } = await supabase
-          .from('skills')
-          .insert(skillsToInsert);
-
-        if (skillsError) throw skillsError;
-
-        // Restore subtopic_id mappings after re-insert
-        if (existingId && subtopicMap.size > 0) {
-          for (const [skillId, subtopicId] of subtopicMap.entries()) {
-            await supabase
-              .from('skills')
-              .update({ subtopic_id: subtopicId })
-              .eq('graph_id', graphId!)
-              .eq('skill_id', skillId);
-          }
-        }
-      }
+      const delta = computeSaveDelta(baseRows, nextRows);
 
-      // Insert edges
-      if (graph.edges.length > 0) {
-        const edgesToInsert = graph.edges.map((edge: GraphEdge) => ({
-          graph_id: graphId,
-          from_skill: edge.from,
-          to_skill: edge.to,
-          relationship_type: edge.relationshipType || 'requires',
-          reason: edge.reason || null,
-        }));
+      const { data, error } = await supabase.rpc('save_graph_delta', {
+        p_graph_id: existingId ?? null,
+        p_expected_revision: base?.revision ?? null,
+        p_graph: {
+          name,
+          description: description || null,
+          total_skills: skillCount,
+          // Only update total_questions if the in-memory graph actually has questions
+          total_questions: existingId && questionCount === 0 ? null : questionCount,
+          // Keep the recorded prompt version when saving a graph with no new generated content
+          prompt_version: graph.promptVersion ?? null,
+        },
+        p_upsert_skills: delta.upsertSkills as unknown as Json,
+        p_delete_skills: delta.deleteSkills,
+        p_upsert_edges: delta.upsertEdges as unknown as Json,
+        p_delete_edges: delta.deleteEdges,
+        p_upsert_questions: delta.upsertQuestions as unknown as Json,
+        p_delete_questions: delta.deleteQuestions,
+        // Immutable snapshot of what was just saved
+        p_version: {
+          author: await getVersionAuthor(),
+          message: options.message || null,
+          is_autosave: !!options.autosave,
+          snapshot: graph as unknown as Json,
+          total_skills: skillCount,
+          total_edges: graph.edges.length,
+          total_questions: questionCount,
+        },
+      });
 
-        const { error: edgesError } = await supabase
-          .from('skill_edges')
-          .insert(edgesToInsert);
+      if (error) throw error;
+      const result = data as unknown as SaveGraphDeltaResult;
+      baseRef.current = { graphId: result.graph_id, revision: result.revision, rows: nextRows };
 
-        if (edgesError) throw edgesError;
-      }
+      setCurrentGraphId(result.graph_id);
+      await fetchGraphs();
 
-      // Insert questions
-      const questions = Object.entries(graph.questionPaths || {});
-      if (questions.length > 0) {
-        const questionsToInsert = questions.map(([text, path]) => {
-          const skills = Array.isArray(path) ? path : path.requiredNodes || [];
-          // Handle both legacy single primarySkill and new primarySkills array
-          let primarySkills: string[] = [];
-          if (Array.isArray(path)) {
-            primarySkills = skills.length > 0 ? [skills[0]] : [];
-          } else {
-            const pathObj = path as any;
-            if (Array.isArray(pathObj.primarySkills)) {
-              primarySkills = pathObj.primarySkills;
-            } else if (pathObj.primarySkill) {
-              primarySkills = [pathObj.primarySkill];
-            } else if (skills.length > 0) {
-              primarySkills = [skills[0]];
-            }
-          }
-          return {
-            graph_id: graphId,
-            question_text: text,
-            skills,
-            primary_skills: primarySkills.slice(0, 2), // Ensure max 2
-            skill_weights: (path as any).skillWeights || {},
-            test_cases: (path as any).testCases || null,
-          };
+      if (!options.autosave) {
+        toast({
+          title: existingId ? 'Graph updated' : 'Graph saved',
+          description: `"${name}" with ${skillCount} skills and ${questionCount} questions.`,
         });
-
-        const { error: questionsError } = await supabase
-          .from('questions')
-          .insert(questionsToInsert);
-
-        if (questionsError) throw questionsError;
       }
 
-      setCurrentGraphId(graphId);
-      await fetchGraphs();
-
-      toast({
-        title: existingId ? 'Graph updated' : 'Graph saved',
-        description: `"${name}" with ${skillCount} skills and ${questionCount} questions.`,
-      });
-
-      return graphId;
+      return result.graph_id;
     } catch (error) {
       console.error('Error saving graph:', error);
-      toast({
-        title: 'Failed to save graph',
-        description: error instanceof Error ? error.message : 'Unknown error',
-        variant: 'destructive',
-      });
+      if (isGraphConflict(error)) {
+        toast({
+          title: 'Graph changed since you loaded it',
+          description: 'Another save landed first. Reload the graph and reapply your changes.',
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: 'Failed to save graph',
+          description: error instanceof Error ? error.message : 'Unknown error',
+          variant: 'destructive',
+        });
+      }
       return null;
     } finally {
       setIsSaving(false);
     }
   }, [fetchGraphs]);
-
   // Load graph from database
   const loadGraph = useCallback(async (graphId: string): Promise<KnowledgeGraph | null> => {
     setIsLoading(true);
     try {
       // Fetch all data in parallel
-      const [skillsRes, edgesRes, questionsRes] = await Promise.all([
+      const [skillsRes, edgesRes, questionsRes, graphRes] = await Promise.all([
         supabase.from('skills').select('*').eq('graph_id', graphId),
         supabase.from('skill_edges').select('*').eq('graph_id', graphId),
         supabase.from('questions').select('*').eq('graph_id', graphId),
+        supabase.from('knowledge_graphs').select('prompt_version, revision').eq('id', graphId).single(),
       ]);
 
       if (skillsRes.error) throw skillsRes.error;
       if (edgesRes.error) throw edgesRes.error;
       if (questionsRes.error) throw questionsRes.error;
+      if (graphRes.error) throw graphRes.error;
 
       // Transform skills to GraphNode format
       const globalNodes: GraphNode[] = (skillsRes.data || []).map((skill: any) => ({
@@ -307,17 +265,23 @@ export function useGraphPersistence() {
         to: edge.to_skill,
         reason: edge.reason || '',
         relationshipType: edge.relationship_type || 'requires',
+        ...(edge.confidence != null && { confidence: edge.confidence }),
       }));
 
       // Transform questions to questionPaths
       const questionPaths: Record<string, any> = {};
+      const ipaByQuestion: Record<string, IPAStep[]> = {};
       (questionsRes.data || []).forEach((q: any) => {
+        if (Array.isArray(q.ipa_trace) && q.ipa_trace.length > 0) {
+          ipaByQuestion[q.question_text] = q.ipa_trace;
+        }
         questionPaths[q.question_text] = {
           requiredNodes: q.skills || [],
           executionOrder: q.skills || [],
           validationStatus: 'valid',
           primarySkills: q.primary_skills || [],
           skillWeights: q.skill_weights || {},
+          ...(q.skill_confidence && { skillConfidence: q.skill_confidence }),
         };
         // Update appearsInQuestions for each skill
         (q.skills || []).forEach((skillId: string) => {
@@ -335,7 +299,10 @@ export function useGraphPersistence() {
         edges,
         courses: { Default: { nodes: globalNodes.map(n => ({ id: n.id, inCourse: true })) } },
         questionPaths,
+        ipaByQuestion: Object.keys(ipaByQuestion).length > 0 ? ipaByQuestion : undefined,
+        promptVersion: graphRes.data.prompt_version ?? undefined,
       };
+      baseRef.current = { graphId, revision: graphRes.data.revision, rows: graphToRows(loadedGraph) };
 
       toast({
         title: 'Graph loaded',
@@ -416,6 +383,7 @@ export function useGraphPersistence() {
           description: sourceGraph.description,
           total_skills: sourceGraph.total_skills,
           total_questions: sourceGraph.total_questions,
+          prompt_version: sourceGraph.prompt_version,
         })
         .select('id')
         .single();
@@ -450,6 +418,7 @@ export function useGraphPersistence() {
           to_skill: edge.to_skill,
           relationship_type: edge.relationship_type,
           reason: edge.reason,
+          confidence: edge.confidence ?? null,
         }));
 
         const { error: edgesError } = await supabase
@@ -467,6 +436,8 @@ export function useGraphPersistence() {
           skills: q.skills,
           primary_skills: q.primary_skills || [],
           skill_weights: q.skill_weights || {},
+          skill_confidence: q.skill_confidence ?? null,
+          ipa_trace: q.ipa_trace ?? null,
         }));
 
         const { error: questionsError } = await supabase
@@ -497,6 +468,69 @@ export function useGraphPersistence() {
     }
   }, [fetchGraphs]);
 
+  // Save an imported graph as a new graph, then recreate its topics and subtopics
+  // under fresh ids. A failed grouping step keeps the graph and warns.
+  const importGraph = useCallback(async (doc: GraphDocument): Promise<string | null> => {
+    const newGraphId = await saveGraph(doc.graph, doc.name, doc.description || undefined, undefined, { message: 'Imported' });
+    if (!newGraphId) return null;
+
+    const { topics, subtopics, skillSubtopics } = doc.grouping;
+    if (subtopics.length === 0 && topics.length === 0) return newGraphId;
+
+    try {
+      const topicIds = new Map(topics.map(t => [t.id, crypto.randomUUID()]));
+      const subtopicIds = new Map(subtopics.map(st => [st.id, crypto.randomUUID()]));
+
+      if (topics.length > 0) {
+        const { error } = await supabase.from('skill_topics').insert(topics.map(t => ({
+          id: topicIds.get(t.id)!,
+          graph_id: newGraphId,
+          name: t.name,
+          color: t.color,
+          display_order: t.displayOrder,
+        })));
+        if (error) throw error;
+      }
+
+      if (subtopics.length > 0) {
+        const { error } = await supabase.from('skill_subtopics').insert(subtopics.map(st => ({
+          id: subtopicIds.get(st.id)!,
+          graph_id: newGraphId,
+          topic_id: st.topicId ? topicIds.get(st.topicId) ?? null : null,
+          name: st.name,
+          color: st.color,
+          display_order: st.displayOrder,
+        })));
+        if (error) throw error;
+      }
+
+      const skillsBySubtopic = new Map<string, string[]>();
+      for (const [skillId, subtopicId] of Object.entries(skillSubtopics)) {
+        const newId = subtopicIds.get(subtopicId);
+        if (!newId) continue;
+        if (!skillsBySubtopic.has(newId)) skillsBySubtopic.set(newId, []);
+        skillsBySubtopic.get(newId)!.push(skillId);
+      }
+      for (const [subtopicId, skillIds] of skillsBySubtopic) {
+        const { error } = await supabase
+          .from('skills')
+          .update({ subtopic_id: subtopicId })
+          .eq('graph_id', newGraphId)
+          .in('skill_id', skillIds);
+        if (error) throw error;
+      }
+    } catch (error) {
+      console.error('Error importing groupings:', error);
+      toast({
+        title: 'Topics not imported',
+        description: 'The graph was saved, but its topics and subtopics could not be recreated.',
+        variant: 'destructive',
+      });
+    }
+
+    return newGraphId;
+  }, [saveGraph]);
+
   // Recompute and save levels from edges (topological sort)
   const recomputeAndSaveLevels = useCallback(async (graphId: string): Promise<boolean> => {
     setIsLoading(true);
@@ -609,12 +643,30 @@ export function useGraphPersistence() {
     }
   }, []);
 
-  // Remove a node and its connected edges
+  // Remove a node and its connected edges. Returns what was removed, so it can be restored.
   const removeNode = useCallback(async (
     graphId: string,
     skillId: string
-  ): Promise<boolean> => {
+  ): Promise<RemovedNode | null> => {
     try {
+      // Capture the rows this removal deletes or rewrites
+      const [skillRes, fromRes, toRes, questionsRes] = await Promise.all([
+        supabase.from('skills').select('*').eq('graph_id', graphId).eq('skill_id', skillId).single(),
+        supabase.from('skill_edges').select('*').eq('graph_id', graphId).eq('from_skill', skillId),
+        supabase.from('skill_edges').select('*').eq('graph_id', graphId).eq('to_skill', skillId),
+        supabase.from('questions').select('id, skills').eq('graph_id', graphId),
+      ]);
+      if (skillRes.error) throw skillRes.error;
+      if (fromRes.error) throw fromRes.error;
+      if (toRes.error) throw toRes.error;
+      if (questionsRes.error) throw questionsRes.error;
+
+      const removed: RemovedNode = {
+        skill: skillRes.data,
+        edges: [...(fromRes.data || []), ...(toRes.data || [])],
+        questionSkills: (questionsRes.data || []).filter(q => q.skills?.includes(skillId)),
+      };
+
       // Delete edges connected to this node
       await Promise.all([
         supabase.from('skill_edges').delete().eq('graph_id', graphId).eq('from_skill', skillId),
@@ -626,22 +678,47 @@ export function useGraphPersistence() {
       if (error) throw error;
 
       // Remove skill from questions' skill arrays
-      const { data: questions } = await supabase.from('questions').select('id, skills').eq('graph_id', graphId);
-      if (questions) {
-        for (const q of questions) {
-          if (q.skills?.includes(skillId)) {
-            await supabase.from('questions').update({
-              skills: q.skills.filter((s: string) => s !== skillId),
-            }).eq('id', q.id);
-          }
-        }
+      for (const q of removed.questionSkills) {
+        await supabase.from('questions').update({
+          skills: q.skills.filter((s: string) => s !== skillId),
+        }).eq('id', q.id);
       }
 
       toast({ title: 'Skill removed', description: `Skill and its edges have been removed.` });
-      return true;
+      return removed;
     } catch (error) {
       console.error('Error removing node:', error);
       toast({ title: 'Failed to remove skill', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
+      return null;
+    }
+  }, []);
+
+  // Put back a node removed by removeNode: the skill row, its edges and the question skill lists
+  const restoreNode = useCallback(async (
+    graphId: string,
+    removed: RemovedNode
+  ): Promise<boolean> => {
+    try {
+      const { error } = await supabase.from('skills').insert({ ...removed.skill, graph_id: graphId });
+      if (error) throw error;
+
+      if (removed.edges.length > 0) {
+        const { error: edgesError } = await supabase
+          .from('skill_edges')
+          .insert(removed.edges.map(edge => ({ ...edge, graph_id: graphId })));
+        if (edgesError) throw edgesError;
+      }
+
+      for (const q of removed.questionSkills) {
+        const { error: questionError } = await supabase.from('questions').update({ skills: q.skills }).eq('id', q.id);
+        if (questionError) throw questionError;
+      }
+
+      toast({ title: 'Skill restored', description: `"${removed.skill.name}" and its edges are back in the graph.` });
+      return true;
+    } catch (error) {
+      console.error('Error restoring node:', error);
+      toast({ title: 'Failed to restore skill', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
       return false;
     }
   }, []);
@@ -706,6 +783,7 @@ export function useGraphPersistence() {
         to_skill: toSkill,
         reason: reason || null,
         relationship_type: 'requires',
+        confidence: CONFIRMED_CONFIDENCE,
       });
       if (error) throw error;
 
@@ -742,6 +820,101 @@ export function useGraphPersistence() {
     }
   }, []);
 
+  // Put back a removed edge with its original reason, type and confidence
+  const restoreEdge = useCallback(async (
+    graphId: string,
+    edge: GraphEdge
+  ): Promise<boolean> => {
+    try {
+      const { error } = await supabase.from('skill_edges').insert({
+        graph_id: graphId,
+        from_skill: edge.from,
+        to_skill: edge.to,
+        reason: edge.reason || null,
+        relationship_type: edge.relationshipType || 'requires',
+        confidence: edge.confidence ?? null,
+      });
+      if (error) throw error;
+
+      toast({ title: 'Edge restored', description: 'Prerequisite relationship restored.' });
+      return true;
+    } catch (error) {
+      console.error('Error restoring edge:', error);
+      toast({ title: 'Failed to restore edge', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
+      return false;
+    }
+  }, []);
+
+  // Mark an AI-proposed edge as reviewed by setting its confidence
+  const setEdgeConfidence = useCallback(async (
+    graphId: string,
+    fromSkill: string,
+    toSkill: string,
+    confidence: number = CONFIRMED_CONFIDENCE
+  ): Promise<boolean> => {
+    try {
+      const { error } = await supabase
+        .from('skill_edges')
+        .update({ confidence })
+        .eq('graph_id', graphId)
+        .eq('from_skill', fromSkill)
+        .eq('to_skill', toSkill);
+      if (error) throw error;
+
+      toast({ title: 'Edge confirmed', description: 'Prerequisite relationship marked as reviewed.' });
+      return true;
+    } catch (error) {
+      console.error('Error updating edge confidence:', error);
+      toast({ title: 'Failed to confirm edge', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
+      return false;
+    }
+  }, []);
+
+  // Confirm or remove a question→skill mapping
+  const updateQuestionSkill = useCallback(async (
+    graphId: string,
+    questionText: string,
+    skillId: string,
+    action: 'confirm' | 'remove'
+  ): Promise<boolean> => {
+    try {
+      const { data: question, error: fetchError } = await supabase
+        .from('questions')
+        .select('id, skills, primary_skills, skill_weights, skill_confidence')
+        .eq('graph_id', graphId)
+        .eq('question_text', questionText)
+        .single();
+      if (fetchError) throw fetchError;
+
+      const confidence = { ...((question.skill_confidence as Record<string, number> | null) || {}) };
+      if (action === 'confirm') {
+        confidence[skillId] = CONFIRMED_CONFIDENCE;
+        const { error } = await supabase.from('questions').update({ skill_confidence: confidence }).eq('id', question.id);
+        if (error) throw error;
+        toast({ title: 'Mapping confirmed', description: 'The question is confirmed to require this skill.' });
+        return true;
+      }
+
+      delete confidence[skillId];
+      const weights = { ...((question.skill_weights as Record<string, number> | null) || {}) };
+      delete weights[skillId];
+      const { error } = await supabase.from('questions').update({
+        skills: (question.skills || []).filter(s => s !== skillId),
+        primary_skills: (question.primary_skills || []).filter(s => s !== skillId),
+        skill_weights: weights,
+        skill_confidence: confidence,
+      }).eq('id', question.id);
+      if (error) throw error;
+
+      toast({ title: 'Mapping removed', description: 'The skill is no longer linked to this question.' });
+      return true;
+    } catch (error) {
+      console.error('Error updating question mapping:', error);
+      toast({ title: 'Failed to update mapping', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
+      return false;
+    }
+  }, []);
+
   return {
     savedGraphs,
     currentGraphId,
@@ -753,10 +926,15 @@ export function useGraphPersistence() {
     loadGraph,
     deleteGraph,
     copyGraph,
+    importGraph,
     recomputeAndSaveLevels,
     addNode,
     removeNode,
+    restoreNode,
     addEdge,
     removeEdge,
+    restoreEdge,
+    setEdgeConfidence,
+    updateQuestionSkill,
   };
 }
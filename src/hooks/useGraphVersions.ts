@@ -0,0 +1,81 @@
+// Hook for the saved versions of a graph: list, load snapshots and diff them
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { KnowledgeGraph } from '@/types/graph';
+
+// Version rows without their snapshot, for the history list
+export type GraphVersionMeta = Omit<Tables<'graph_versions'>, 'snapshot'>;
+
+const VERSION_LIST_COLUMNS =
+  'id, graph_id, version_number, author, message, is_autosave, total_skills, total_edges, total_questions, created_at';
+
+interface UseGraphVersionsOptions {
+  graphId: string | null;
+  autoLoad?: boolean;
+}
+
+export function useGraphVersions({ graphId, autoLoad = true }: UseGraphVersionsOptions) {
+  const [versions, setVersions] = useState<GraphVersionMeta[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Snapshots never change, so each is fetched at most once
+  const snapshotCache = useRef(new Map<string, KnowledgeGraph>());
+
+  const loadVersions = useCallback(async () => {
+    if (!graphId) {
+      setVersions([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('graph_versions')
+        .select(VERSION_LIST_COLUMNS)
+        .eq('graph_id', graphId)
+        .order('version_number', { ascending: false });
+      if (fetchError) throw fetchError;
+      setVersions(data || []);
+    } catch (err) {
+      console.error('Error loading graph versions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load versions');
+    } finally {
+      setLoading(false);
+    }
+  }, [graphId]);
+
+  const loadSnapshot = useCallback(async (versionId: string): Promise<KnowledgeGraph | null> => {
+    const cached = snapshotCache.current.get(versionId);
+    if (cached) return cached;
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('graph_versions')
+        .select('snapshot')
+        .eq('id', versionId)
+        .single();
+      if (fetchError) throw fetchError;
+      const snapshot = data.snapshot as unknown as KnowledgeGraph;
+      snapshotCache.current.set(versionId, snapshot);
+      return snapshot;
+    } catch (err) {
+      console.error('Error loading graph version:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load version');
+      return null;
+    }
+  }, []);
+
+  useEffect(() => {
+    snapshotCache.current.clear();
+    if (autoLoad) loadVersions();
+  }, [autoLoad, loadVersions]);
+
+  return {
+    versions,
+    loading,
+    error,
+    loadVersions,
+    loadSnapshot,
+  };
+}
@@ -0,0 +1,80 @@
+// Hook for calibrating question difficulty from attempt data (IRT)
+
+import { useState, useCallback } from 'react';
+import { toast } from '@/hooks/use-toast';
+import {
+  calibrateQuestionDifficulty,
+  loadDifficultyDisagreements,
+  type DifficultyDisagreement,
+  type IRTCalibrationReport,
+  type IRTModelType,
+} from '@/lib/mastery';
+
+interface UseIrtCalibrationReturn {
+  calibrate: (graphId: string, model: IRTModelType) => Promise<boolean>;
+  loadDisagreements: (graphId: string) => Promise<void>;
+  isCalibrating: boolean;
+  report: IRTCalibrationReport | null;
+  disagreements: DifficultyDisagreement[];
+}
+
+export function useIrtCalibration(): UseIrtCalibrationReturn {
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [report, setReport] = useState<IRTCalibrationReport | null>(null);
+  const [disagreements, setDisagreements] = useState<DifficultyDisagreement[]>([]);
+
+  // Flags from the last stored calibration
+  const loadDisagreements = useCallback(async (graphId: string) => {
+    if (!graphId) return;
+    try {
+      setDisagreements(await loadDifficultyDisagreements(graphId));
+    } catch (error) {
+      console.error('[useIrtCalibration] Failed to load disagreements:', error);
+    }
+  }, []);
+
+  const calibrate = useCallback(async (graphId: string, model: IRTModelType): Promise<boolean> => {
+    if (!graphId) return false;
+
+    setIsCalibrating(true);
+    try {
+      const result = await calibrateQuestionDifficulty(graphId, model);
+      setReport(result);
+      setDisagreements(result.disagreements);
+
+      if (result.calibrated === 0) {
+        toast({
+          title: 'Not enough attempt data',
+          description: 'No question has enough student responses to calibrate yet.',
+          variant: 'destructive',
+        });
+        return false;
+      }
+
+      const skippedMsg = result.skipped > 0 ? `, ${result.skipped} skipped (too few responses)` : '';
+      toast({
+        title: 'Difficulty calibration complete',
+        description: `Calibrated ${result.calibrated} questions with ${model.toUpperCase()}${skippedMsg}. ${result.disagreements.length} disagree with the AI rubric.`,
+      });
+      return true;
+    } catch (error) {
+      console.error('[useIrtCalibration] Calibration failed:', error);
+      toast({
+        title: 'Calibration failed',
+        description: error instanceof Error ? error.message : 'Failed to calibrate difficulty.',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setIsCalibrating(false);
+    }
+  }, []);
+
+  return {
+    calibrate,
+    loadDisagreements,
+    isCalibrating,
+    report,
+    disagreements,
+  };
+}
@@ -0,0 +1,106 @@
+// Hook for a student's recommended learning path through the graph
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  buildLearningPath,
+  fetchAllRows,
+  type LearningPathQuestionSource,
+  type LearningPlan,
+} from '@/lib/mastery';
+import type { GraphEdge, GraphNode } from '@/types/graph';
+import type { KPMastery } from '@/types/mastery';
+
+interface UseLearningPathOptions {
+  graphId: string;
+  studentId: string | null;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  mastery: Map<string, KPMastery>;
+  autoLoad?: boolean;
+}
+
+interface UseLearningPathReturn {
+  plan: LearningPlan | null;
+  loading: boolean;
+  error: string | null;
+  loadQuestions: () => Promise<void>;
+}
+
+/**
+ * Loads the graph's questions and the student's attempted question IDs,
+ * and recomputes the plan whenever mastery or the graph changes.
+ */
+export function useLearningPath({
+  graphId,
+  studentId,
+  nodes,
+  edges,
+  mastery,
+  autoLoad = true,
+}: UseLearningPathOptions): UseLearningPathReturn {
+  const [questions, setQuestions] = useState<LearningPathQuestionSource[]>([]);
+  const [attemptedIds, setAttemptedIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQuestions = useCallback(async () => {
+    if (!graphId || !studentId) {
+      setQuestions([]);
+      setAttemptedIds(new Set());
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [questionRows, attemptRows] = await Promise.all([
+        fetchAllRows((from, to) =>
+          supabase
+            .from('questions')
+            .select('id, question_text, skills, primary_skills')
+            .eq('graph_id', graphId)
+            .order('id')
+            .range(from, to)
+        ),
+        fetchAllRows((from, to) =>
+          supabase
+            .from('student_attempts')
+            .select('question_id')
+            .eq('graph_id', graphId)
+            .eq('student_id', studentId)
+            .order('question_id')
+            .range(from, to)
+        ),
+      ]);
+
+      setQuestions(questionRows);
+      setAttemptedIds(new Set(attemptRows.map(a => a.question_id)));
+    } catch (err) {
+      console.error('Error loading learning path data:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load learning path');
+    } finally {
+      setLoading(false);
+    }
+  }, [graphId, studentId]);
+
+  // Reload when the student changes or their mastery is refreshed
+  useEffect(() => {
+    if (autoLoad) {
+      loadQuestions();
+    }
+  }, [autoLoad, loadQuestions, mastery]);
+
+  const plan = useMemo(() => {
+    if (!studentId || nodes.length === 0) return null;
+    return buildLearningPath(nodes, edges, mastery, questions, attemptedIds);
+  }, [studentId, nodes, edges, mastery, questions, attemptedIds]);
+
+  return {
+    plan,
+    loading,
+    error,
+    loadQuestions,
+  };
+}
@@ -3,6 +3,7 @@
 import { useState, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import type { RegenerateOptions } from '@/hooks/useRegenerateWeights';
 
 interface RegenerateProgress {
   phase: 'idle' | 'loading' | 'analyzing' | 'updating' | 'complete' | 'error';
@@ -22,7 +23,7 @@ interface DifficultyResult {
 
 interface UseRegenerateDifficultyReturn {
   progress: RegenerateProgress;
-  regenerate: (graphId: string) => Promise<boolean>;
+  regenerate: (graphId: string, options?: RegenerateOptions) => Promise<boolean>;
   isRegenerating: boolean;
 }
 
@@ -37,7 +38,7 @@ export function useRegenerateDifficulty(): UseRegenerateDifficultyReturn {
     message: '',
   });
 
-  const regenerate = useCallback(async (graphId: string): Promise<boolean> => {
+  const regenerate = useCallback(async (graphId: string, { forceRefresh = false }: RegenerateOptions = {}): Promise<boolean> => {
     if (!graphId) return false;
 
     console.log(`[useRegenerateDifficulty] ===== Starting regeneration for graph: ${graphId} =====`);
@@ -98,6 +99,7 @@ export function useRegenerateDifficulty(): UseRegenerateDifficultyReturn {
                 id: q.id,
                 questionText: q.question_text,
               })),
+              forceRefresh,
             },
           });
 
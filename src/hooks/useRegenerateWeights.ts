@@ -11,9 +11,13 @@ interface RegenerateProgress {
   message: string;
 }
 
+export interface RegenerateOptions {
+  forceRefresh?: boolean;      // Ignore cached AI responses
+}
+
 interface UseRegenerateWeightsReturn {
   progress: RegenerateProgress;
-  regenerate: (graphId: string) => Promise<boolean>;
+  regenerate: (graphId: string, options?: RegenerateOptions) => Promise<boolean>;
   isRegenerating: boolean;
 }
 
@@ -28,7 +32,7 @@ export function useRegenerateWeights(): UseRegenerateWeightsReturn {
     message: '',
   });
 
-  const regenerate = useCallback(async (graphId: string): Promise<boolean> => {
+  const regenerate = useCallback(async (graphId: string, { forceRefresh = false }: RegenerateOptions = {}): Promise<boolean> => {
     if (!graphId) return false;
 
     console.log(`[useRegenerateWeights] ===== Starting regeneration for graph: ${graphId} =====`);
@@ -90,6 +94,7 @@ export function useRegenerateWeights(): UseRegenerateWeightsReturn {
                 questionText: q.question_text,
                 skills: q.skills || [],
               })),
+              forceRefresh,
             },
           });
 
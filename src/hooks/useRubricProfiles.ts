@@ -0,0 +1,70 @@
+// Hook for per-dimension coding rubric profiles of a class and its students
+
+import { useState, useCallback, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { loadRubricProfiles, type RubricProfiles } from '@/lib/mastery';
+
+interface UseRubricProfilesOptions {
+  graphId: string;
+  classId?: string;            // Omit to profile every student in the graph
+  autoLoad?: boolean;
+}
+
+interface UseRubricProfilesReturn {
+  profiles: RubricProfiles | null;
+  loading: boolean;
+  error: string | null;
+  loadProfiles: () => Promise<void>;
+}
+
+export function useRubricProfiles({
+  graphId,
+  classId,
+  autoLoad = true,
+}: UseRubricProfilesOptions): UseRubricProfilesReturn {
+  const [profiles, setProfiles] = useState<RubricProfiles | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfiles = useCallback(async () => {
+    if (!graphId) {
+      setProfiles(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      let studentIds: string[] | undefined;
+      if (classId) {
+        const { data, error: enrolledError } = await supabase
+          .from('class_students')
+          .select('student_id')
+          .eq('class_id', classId);
+        if (enrolledError) throw enrolledError;
+        studentIds = (data || []).map(s => s.student_id);
+      }
+
+      setProfiles(await loadRubricProfiles(graphId, studentIds));
+    } catch (err) {
+      console.error('Error loading rubric profiles:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load rubric profiles');
+    } finally {
+      setLoading(false);
+    }
+  }, [graphId, classId]);
+
+  useEffect(() => {
+    if (autoLoad) {
+      loadProfiles();
+    }
+  }, [autoLoad, loadProfiles]);
+
+  return {
+    profiles,
+    loading,
+    error,
+    loadProfiles,
+  };
+}
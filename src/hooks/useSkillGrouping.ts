@@ -2,7 +2,8 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import type { SkillTopic, SkillSubtopic } from '@/types/grouping';
+import type { SkillTopic, SkillSubtopic, GroupingSnapshot } from '@/types/grouping';
+import type { GroupingDelta } from '@/lib/graph/groupingDelta';
 import { toast } from 'sonner';
 
 interface UseSkillGroupingOptions {
@@ -10,6 +11,68 @@ interface UseSkillGroupingOptions {
   autoLoad?: boolean;
 }
 
+/**
+ * Read the topics, subtopics and skill→subtopic links of a graph
+ */
+async function fetchGroupings(graphId: string): Promise<GroupingSnapshot> {
+  // Fetch topics
+  const { data: topicsData, error: topicsError } = await supabase
+    .from('skill_topics')
+    .select('*')
+    .eq('graph_id', graphId)
+    .order('display_order', { ascending: true });
+
+  if (topicsError) throw topicsError;
+
+  // Fetch subtopics
+  const { data: subtopicsData, error: subtopicsError } = await supabase
+    .from('skill_subtopics')
+    .select('*')
+    .eq('graph_id', graphId)
+    .order('display_order', { ascending: true });
+
+  if (subtopicsError) throw subtopicsError;
+
+  // Fetch skill-subtopic mappings
+  const { data: skillsData, error: skillsError } = await supabase
+    .from('skills')
+    .select('skill_id, subtopic_id')
+    .eq('graph_id', graphId)
+    .not('subtopic_id', 'is', null);
+
+  if (skillsError) throw skillsError;
+
+  // Transform to app types
+  const topics: SkillTopic[] = (topicsData || []).map(t => ({
+    id: t.id,
+    graphId: t.graph_id,
+    name: t.name,
+    color: t.color,
+    displayOrder: t.display_order,
+    createdAt: t.created_at,
+  }));
+
+  const subtopics: SkillSubtopic[] = (subtopicsData || []).map(st => ({
+    id: st.id,
+    graphId: st.graph_id,
+    topicId: st.topic_id,
+    name: st.name,
+    color: st.color,
+    displayOrder: st.display_order,
+    createdAt: st.created_at,
+  }));
+
+  // Build skill -> subtopic map
+  const skillSubtopics: Record<string, string> = {};
+  (skillsData || []).forEach(s => {
+    if (s.subtopic_id) {
+      skillSubtopics[s.skill_id] = s.subtopic_id;
+    }
+  });
+
+  return { topics, subtopics, skillSubtopics };
+}
+
 export function useSkillGrouping({ graphId, autoLoad = true }: UseSkillGroupingOptions) {
   const [topics, setTopics] = useState<SkillTopic[]>([]);
   const [subtopics, setSubtopics] = useState<SkillSubtopic[]>([]);
@@ -22,64 +85,10 @@ export function useSkillGrouping({ graphId, autoLoad = true }: UseSkillGroupingO
     setLoading(true);
 
     try {
-      // Fetch topics
-      const { data: topicsData, error: topicsError } = await supabase
-        .from('skill_topics')
-        .select('*')
-        .eq('graph_id', graphId)
-        .order('display_order', { ascending: true });
-
-      if (topicsError) throw topicsError;
-
-      // Fetch subtopics
-      const { data: subtopicsData, error: subtopicsError } = await supabase
-        .from('skill_subtopics')
-        .select('*')
-        .eq('graph_id', graphId)
-        .order('display_order', { ascending: true });
-
-      if (subtopicsError) throw subtopicsError;
-
-      // Fetch skill-subtopic mappings
-      const { data: skillsData, error: skillsError } = await supabase
-        .from('skills')
-        .select('skill_id, subtopic_id')
-        .eq('graph_id', graphId)
-        .not('subtopic_id', 'is', null);
-
-      if (skillsError) throw skillsError;
-
-      // Transform to app types
-      const transformedTopics: SkillTopic[] = (topicsData || []).map(t => ({
-        id: t.id,
-        graphId: t.graph_id,
-        name: t.name,
-        color: t.color,
-        displayOrder: t.display_order,
-        createdAt: t.created_at,
-      }));
-
-      const transformedSubtopics: SkillSubtopic[] = (subtopicsData || []).map(st => ({
-        id: st.id,
-        graphId: st.graph_id,
-        topicId: st.topic_id,
-        name: st.name,
-        color: st.color,
-        displayOrder: st.display_order,
-        createdAt: st.created_at,
-      }));
-
-      // Build skill -> subtopic map
-      const skillMap = new Map<string, string>();
-      (skillsData || []).forEach(s => {
-        if (s.subtopic_id) {
-          skillMap.set(s.skill_id, s.subtopic_id);
-        }
-      });
-
-      setTopics(transformedTopics);
-      setSubtopics(transformedSubtopics);
-      setSkillSubtopicMap(skillMap);
+      const snapshot = await fetchGroupings(graphId);
+      setTopics(snapshot.topics);
+      setSubtopics(snapshot.subtopics);
+      setSkillSubtopicMap(new Map(Object.entries(snapshot.skillSubtopics)));
     } catch (error) {
       console.error('Failed to load groupings:', error);
       toast.error('Failed to load skill groupings');
@@ -448,12 +457,91 @@ export function useSkillGrouping({ graphId, autoLoad = true }: UseSkillGroupingO
     }
   }, [graphId, loadGroupings]);
 
+  // Capture the current groupings, for undoing a grouping change
+  const fetchSnapshot = useCallback(async (): Promise<GroupingSnapshot | null> => {
+    if (!graphId) return null;
+    try {
+      return await fetchGroupings(graphId);
+    } catch (error) {
+      console.error('Failed to read groupings:', error);
+      toast.error('Failed to read skill groupings');
+      return null;
+    }
+  }, [graphId]);
+
+  // Write the rows of a grouping delta (see computeGroupingDelta). Rows keep
+  // their ids, so topic score ranges and recorded deltas that refer to them
+  // stay valid; groupings the delta doesn't mention are left alone.
+  const applyDelta = useCallback(async (delta: GroupingDelta): Promise<boolean> => {
+    if (!graphId) return false;
+
+    try {
+      if (delta.upsertTopics.length > 0) {
+        const { error } = await supabase.from('skill_topics').upsert(delta.upsertTopics.map(t => ({
+          id: t.id,
+          graph_id: graphId,
+          name: t.name,
+          color: t.color,
+          display_order: t.displayOrder,
+        })));
+        if (error) throw error;
+      }
+
+      if (delta.upsertSubtopics.length > 0) {
+        const { error } = await supabase.from('skill_subtopics').upsert(delta.upsertSubtopics.map(st => ({
+          id: st.id,
+          graph_id: graphId,
+          topic_id: st.topicId,
+          name: st.name,
+          color: st.color,
+          display_order: st.displayOrder,
+        })));
+        if (error) throw error;
+      }
+
+      // Relink skills per target subtopic (null = ungrouped)
+      const skillsBySubtopic = new Map<string | null, string[]>();
+      for (const [skillId, subtopicId] of Object.entries(delta.skillLinks)) {
+        if (!skillsBySubtopic.has(subtopicId)) skillsBySubtopic.set(subtopicId, []);
+        skillsBySubtopic.get(subtopicId)!.push(skillId);
+      }
+      for (const [subtopicId, skillIds] of skillsBySubtopic) {
+        const { error } = await supabase
+          .from('skills')
+          .update({ subtopic_id: subtopicId })
+          .eq('graph_id', graphId)
+          .in('skill_id', skillIds);
+        if (error) throw error;
+      }
+
+      if (delta.deleteSubtopics.length > 0) {
+        const { error } = await supabase.from('skill_subtopics').delete().in('id', delta.deleteSubtopics);
+        if (error) throw error;
+      }
+
+      if (delta.deleteTopics.length > 0) {
+        const { error } = await supabase.from('skill_topics').delete().in('id', delta.deleteTopics);
+        if (error) throw error;
+      }
+
+      await loadGroupings();
+      return true;
+    } catch (error) {
+      console.error('Failed to apply grouping change:', error);
+      toast.error('Failed to update skill groupings');
+      await loadGroupings();
+      return false;
+    }
+  }, [graphId, loadGroupings]);
+
   return {
     topics,
     subtopics,
     skillSubtopicMap,
     loading,
     loadGroupings,
+    fetchSnapshot,
+    applyDelta,
     createSubtopic,
     createTopic,
     assignSubtopicToTopic,
@@ -1,11 +1,17 @@
 // Hook for managing individual student mastery data
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { 
   processAttempt, 
   calculateOverallMastery,
-  createEmptyMastery,
+  computeEffectiveMastery,
+  loadModelMastery,
+  DEFAULT_CREDIT_POLICY,
+  DEFAULT_DECAY_CONFIG,
+  type CreditPolicy,
+  type DecayConfig,
+  type MasteryModelId,
 } from '@/lib/mastery';
 import type { 
   KPMastery, 
@@ -19,6 +25,9 @@ interface UseStudentMasteryOptions {
   graphId: string;
   studentId: string;
   autoLoad?: boolean;
+  decayConfig?: DecayConfig;
+  creditPolicy?: CreditPolicy;
+  model?: MasteryModelId;
 }
 
 interface UseStudentMasteryReturn {
@@ -40,12 +49,25 @@ export function useStudentMastery({
   graphId,
   studentId,
   autoLoad = true,
+  decayConfig = DEFAULT_DECAY_CONFIG,
+  creditPolicy = DEFAULT_CREDIT_POLICY,
+  model = 'counting',
 }: UseStudentMasteryOptions): UseStudentMasteryReturn {
-  const [mastery, setMastery] = useState<Map<string, KPMastery>>(new Map());
+  // Stored records (raw mastery + stability); effective values are derived below
+  const [storedMastery, setStoredMastery] = useState<Map<string, KPMastery>>(new Map());
+  // Records computed by a non-counting model (e.g. BKT) from the attempt log
+  const [modelMastery, setModelMastery] = useState<Map<string, KPMastery>>(new Map());
   const [questionsMap, setQuestionsMap] = useState<Map<string, QuestionWithWeights>>(new Map());
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Apply retention decay (or pass-through when disabled for this graph)
+  const mastery = useMemo(() => {
+    const source = model === 'counting' ? storedMastery : modelMastery;
+    const effective = computeEffectiveMastery(Array.from(source.values()), decayConfig);
+    return new Map(effective.map(m => [m.skillId, m]));
+  }, [storedMastery, modelMastery, model, decayConfig]);
+
   // Load mastery data from database
   const loadMastery = useCallback(async () => {
     if (!graphId || !studentId) return;
@@ -86,7 +108,7 @@ export function useStudentMastery({
       
       if (masteryError) throw masteryError;
       
-      // Convert to map — use rawMastery directly (no retention decay)
+      // Convert to map — effective mastery is derived from decay config
       const masteryMap = new Map<string, KPMastery>();
       (masteryData || []).forEach(m => {
         masteryMap.set(m.skill_id, {
@@ -97,23 +119,26 @@ export function useStudentMastery({
           earnedPoints: Number(m.earned_points),
           maxPoints: Number(m.max_points),
           rawMastery: Number(m.raw_mastery),
-          effectiveMastery: Number(m.raw_mastery),
-          retentionFactor: 1.0,
-          retentionStatus: 'current',
           lastReviewedAt: m.last_reviewed_at ? new Date(m.last_reviewed_at) : null,
           stability: Number(m.stability),
           retrievalCount: m.retrieval_count,
+          attemptCount: m.attempt_count ?? 0,
         });
       });
       
-      setMastery(masteryMap);
+      setStoredMastery(masteryMap);
+
+      if (model !== 'counting') {
+        const byStudent = await loadModelMastery(graphId, [studentId], model, decayConfig, creditPolicy);
+        setModelMastery(byStudent.get(studentId) || new Map());
+      }
     } catch (err) {
       console.error('Error loading mastery:', err);
       setError(err instanceof Error ? err.message : 'Failed to load mastery data');
     } finally {
       setLoading(false);
     }
-  }, [graphId, studentId]);
+  }, [graphId, studentId, model, decayConfig, creditPolicy]);
 
   // Record a new attempt
   const recordAttempt = useCallback(async (
@@ -159,7 +184,7 @@ export function useStudentMastery({
       if (attemptError) throw attemptError;
       
       // Update local mastery state
-      const updatedMastery = processAttempt(attempt, question, new Map(mastery));
+      const updatedMastery = processAttempt(attempt, question, new Map(storedMastery), decayConfig, creditPolicy);
       
       // Upsert mastery records to database
       for (const [skillId, m] of updatedMastery) {
@@ -175,6 +200,7 @@ export function useStudentMastery({
             last_reviewed_at: m.lastReviewedAt?.toISOString(),
             stability: m.stability,
             retrieval_count: m.retrievalCount,
+            attempt_count: m.attemptCount,
           }, {
             onConflict: 'graph_id,student_id,skill_id',
           });
@@ -182,23 +208,19 @@ export function useStudentMastery({
         if (upsertError) throw upsertError;
       }
       
-      // Update local state with rawMastery as effective
-      const newMap = new Map<string, KPMastery>();
-      for (const [skillId, m] of updatedMastery) {
-        newMap.set(skillId, {
-          ...m,
-          effectiveMastery: m.rawMastery,
-          retentionFactor: 1.0,
-          retentionStatus: 'current',
-        });
+      setStoredMastery(updatedMastery);
+
+      // Other models are recomputed from the attempt log
+      if (model !== 'counting') {
+        const byStudent = await loadModelMastery(graphId, [studentId], model, decayConfig, creditPolicy);
+        setModelMastery(byStudent.get(studentId) || new Map());
       }
-      setMastery(newMap);
       
     } catch (err) {
       console.error('Error recording attempt:', err);
       setError(err instanceof Error ? err.message : 'Failed to record attempt');
     }
-  }, [graphId, studentId, mastery, questionsMap]);
+  }, [graphId, studentId, storedMastery, questionsMap, decayConfig, creditPolicy, model]);
 
   // Get mastery for a specific skill
   const getMastery = useCallback((skillId: string) => {
@@ -217,9 +239,9 @@ export function useStudentMastery({
       studentId,
       studentName: '',
       overallMastery: calculateOverallMastery(records),
-      masteredKPs: records.filter(m => m.rawMastery >= 0.8).length,
-      agingKPs: 0,
-      expiredKPs: 0,
+      masteredKPs: records.filter(m => (m.effectiveMastery ?? m.rawMastery) >= 0.8).length,
+      agingKPs: records.filter(m => m.retentionStatus === 'aging').length,
+      expiredKPs: records.filter(m => m.retentionStatus === 'expired').length,
       totalKPs: records.length,
     };
   }, [mastery, studentId]);
@@ -14,6 +14,48 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_response_cache: {
+        Row: {
+          cache_key: string
+          content: string
+          created_at: string
+          finish_reason: string | null
+          function_name: string
+          hit_count: number
+          id: string
+          last_used_at: string
+          model: string
+          provider: string
+          request_params: Json | null
+        }
+        Insert: {
+          cache_key: string
+          content: string
+          created_at?: string
+          finish_reason?: string | null
+          function_name: string
+          hit_count?: number
+          id?: string
+          last_used_at?: string
+          model: string
+          provider: string
+          request_params?: Json | null
+        }
+        Update: {
+          cache_key?: string
+          content?: string
+          created_at?: string
+          finish_reason?: string | null
+          function_name?: string
+          hit_count?: number
+          id?: string
+          last_used_at?: string
+          model?: string
+          provider?: string
+          request_params?: Json | null
+        }
+        Relationships: []
+      }
       class_students: {
         Row: {
           class_id: string
@@ -78,36 +120,400 @@ export type Database = {
           },
         ]
       }
+      domain_configs: {
+        Row: {
+          config: Json
+          created_at: string
+          domain: string
+          id: string
+          is_active: boolean
+          label: string
+          notes: string | null
+          version: number
+        }
+        Insert: {
+          config: Json
+          created_at?: string
+          domain: string
+          id?: string
+          is_active?: boolean
+          label: string
+          notes?: string | null
+          version: number
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          domain?: string
+          id?: string
+          is_active?: boolean
+          label?: string
+          notes?: string | null
+          version?: number
+        }
+        Relationships: []
+      }
+      generation_job_batches: {
+        Row: {
+          attempts: number
+          batch_index: number
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          job_id: string
+          questions: Json
+          result: Json | null
+          retry_after: string | null
+          skills_proposed: number
+          started_at: string | null
+          status: string
+          topic_map: Json | null
+        }
+        Insert: {
+          attempts?: number
+          batch_index: number
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          job_id: string
+          questions: Json
+          result?: Json | null
+          retry_after?: string | null
+          skills_proposed?: number
+          started_at?: string | null
+          status?: string
+          topic_map?: Json | null
+        }
+        Update: {
+          attempts?: number
+          batch_index?: number
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          job_id?: string
+          questions?: Json
+          result?: Json | null
+          retry_after?: string | null
+          skills_proposed?: number
+          started_at?: string | null
+          status?: string
+          topic_map?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_job_batches_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "generation_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      generation_job_events: {
+        Row: {
+          batch_index: number
+          created_at: string
+          event_type: string
+          id: string
+          job_id: string
+          payload: Json
+        }
+        Insert: {
+          batch_index: number
+          created_at?: string
+          event_type: string
+          id?: string
+          job_id: string
+          payload?: Json
+        }
+        Update: {
+          batch_index?: number
+          created_at?: string
+          event_type?: string
+          id?: string
+          job_id?: string
+          payload?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_job_events_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "generation_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      generation_jobs: {
+        Row: {
+          applied_at: string | null
+          applied_batch_ids: string[]
+          completed_at: string | null
+          completed_batches: number
+          created_at: string
+          domain: string | null
+          error: string | null
+          existing_nodes: Json
+          failed_batches: number
+          force_refresh: boolean
+          graph_id: string | null
+          heartbeat_at: string | null
+          id: string
+          include_trace: boolean
+          lease_expires_at: string | null
+          prompt_version: string | null
+          questions: Json
+          skills_discovered: number
+          started_at: string | null
+          status: string
+          topic_map: Json | null
+          total_batches: number
+          turbo: boolean
+          updated_at: string
+        }
+        Insert: {
+          applied_at?: string | null
+          applied_batch_ids?: string[]
+          completed_at?: string | null
+          completed_batches?: number
+          created_at?: string
+          domain?: string | null
+          error?: string | null
+          existing_nodes?: Json
+          failed_batches?: number
+          force_refresh?: boolean
+          graph_id?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          include_trace?: boolean
+          lease_expires_at?: string | null
+          prompt_version?: string | null
+          questions: Json
+          skills_discovered?: number
+          started_at?: string | null
+          status?: string
+          topic_map?: Json | null
+          total_batches?: number
+          turbo?: boolean
+          updated_at?: string
+        }
+        Update: {
+          applied_at?: string | null
+          applied_batch_ids?: string[]
+          completed_at?: string | null
+          completed_batches?: number
+          created_at?: string
+          domain?: string | null
+          error?: string | null
+          existing_nodes?: Json
+          failed_batches?: number
+          force_refresh?: boolean
+          graph_id?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          include_trace?: boolean
+          lease_expires_at?: string | null
+          prompt_version?: string | null
+          questions?: Json
+          skills_discovered?: number
+          started_at?: string | null
+          status?: string
+          topic_map?: Json | null
+          total_batches?: number
+          turbo?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_jobs_graph_id_fkey"
+            columns: ["graph_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_graphs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      graph_versions: {
+        Row: {
+          author: string | null
+          created_at: string
+          graph_id: string
+          id: string
+          is_autosave: boolean
+          message: string | null
+          snapshot: Json
+          total_edges: number
+          total_questions: number
+          total_skills: number
+          version_number: number
+        }
+        Insert: {
+          author?: string | null
+          created_at?: string
+          graph_id: string
+          id?: string
+          is_autosave?: boolean
+          message?: string | null
+          snapshot: Json
+          total_edges?: number
+          total_questions?: number
+          total_skills?: number
+          version_number?: number
+        }
+        Update: {
+          author?: string | null
+          created_at?: string
+          graph_id?: string
+          id?: string
+          is_autosave?: boolean
+          message?: string | null
+          snapshot?: Json
+          total_edges?: number
+          total_questions?: number
+          total_skills?: number
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "graph_versions_graph_id_fkey"
+            columns: ["graph_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_graphs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       knowledge_graphs: {
         Row: {
           created_at: string | null
+          credit_policy: Json | null
+          decay_config: Json | null
           description: string | null
           id: string
           name: string
+          prompt_version: string | null
+          revision: number
           total_questions: number | null
           total_skills: number | null
           updated_at: string | null
         }
         Insert: {
           created_at?: string | null
+          credit_policy?: Json | null
+          decay_config?: Json | null
           description?: string | null
           id?: string
           name: string
+          prompt_version?: string | null
+          revision?: number
           total_questions?: number | null
           total_skills?: number | null
           updated_at?: string | null
         }
         Update: {
           created_at?: string | null
+          credit_policy?: Json | null
+          decay_config?: Json | null
           description?: string | null
           id?: string
           name?: string
+          prompt_version?: string | null
+          revision?: number
           total_questions?: number | null
           total_skills?: number | null
           updated_at?: string | null
         }
         Relationships: []
       }
+      prompt_eval_runs: {
+        Row: {
+          batch_size: number
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          eval_set_id: string
+          force_refresh: boolean
+          heartbeat_at: string
+          id: string
+          lease_expires_at: string | null
+          progress: Json
+          report: Json | null
+          status: string
+          version_a: string
+          version_b: string
+        }
+        Insert: {
+          batch_size?: number
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          eval_set_id: string
+          force_refresh?: boolean
+          heartbeat_at?: string
+          id?: string
+          lease_expires_at?: string | null
+          progress?: Json
+          report?: Json | null
+          status?: string
+          version_a: string
+          version_b: string
+        }
+        Update: {
+          batch_size?: number
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          eval_set_id?: string
+          force_refresh?: boolean
+          heartbeat_at?: string
+          id?: string
+          lease_expires_at?: string | null
+          progress?: Json
+          report?: Json | null
+          status?: string
+          version_a?: string
+          version_b?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prompt_eval_runs_eval_set_id_fkey"
+            columns: ["eval_set_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_eval_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prompt_eval_sets: {
+        Row: {
+          created_at: string
+          domain: string | null
+          gold_graph: Json | null
+          id: string
+          name: string
+          questions: Json
+        }
+        Insert: {
+          created_at?: string
+          domain?: string | null
+          gold_graph?: Json | null
+          id?: string
+          name: string
+          questions: Json
+        }
+        Update: {
+          created_at?: string
+          domain?: string | null
+          gold_graph?: Json | null
+          id?: string
+          name?: string
+          questions?: Json
+        }
+        Relationships: []
+      }
       questions: {
         Row: {
           algorithmic_demands: number | null
@@ -115,9 +521,16 @@ export type Database = {
           created_at: string | null
           graph_id: string
           id: string
+          ipa_trace: Json | null
+          irt_calibrated_at: string | null
+          irt_difficulty: number | null
+          irt_discrimination: number | null
+          irt_model: string | null
+          irt_response_count: number | null
           primary_skills: string[] | null
           question_text: string
           scope_integration: number | null
+          skill_confidence: Json | null
           skill_weights: Json | null
           skills: string[]
           task_structure: number | null
@@ -130,9 +543,16 @@ export type Database = {
           created_at?: string | null
           graph_id: string
           id?: string
+          ipa_trace?: Json | null
+          irt_calibrated_at?: string | null
+          irt_difficulty?: number | null
+          irt_discrimination?: number | null
+          irt_model?: string | null
+          irt_response_count?: number | null
           primary_skills?: string[] | null
           question_text: string
           scope_integration?: number | null
+          skill_confidence?: Json | null
           skill_weights?: Json | null
           skills?: string[]
           task_structure?: number | null
@@ -145,9 +565,16 @@ export type Database = {
           created_at?: string | null
           graph_id?: string
           id?: string
+          ipa_trace?: Json | null
+          irt_calibrated_at?: string | null
+          irt_difficulty?: number | null
+          irt_discrimination?: number | null
+          irt_model?: string | null
+          irt_response_count?: number | null
           primary_skills?: string[] | null
           question_text?: string
           scope_integration?: number | null
+          skill_confidence?: Json | null
           skill_weights?: Json | null
           skills?: string[]
           task_structure?: number | null
@@ -164,8 +591,56 @@ export type Database = {
           },
         ]
       }
+      skill_bkt_params: {
+        Row: {
+          fitted_at: string
+          graph_id: string
+          guess: number
+          id: string
+          learn: number
+          log_likelihood: number | null
+          observation_count: number
+          prior: number
+          skill_id: string
+          slip: number
+        }
+        Insert: {
+          fitted_at?: string
+          graph_id: string
+          guess: number
+          id?: string
+          learn: number
+          log_likelihood?: number | null
+          observation_count?: number
+          prior: number
+          skill_id: string
+          slip: number
+        }
+        Update: {
+          fitted_at?: string
+          graph_id?: string
+          guess?: number
+          id?: string
+          learn?: number
+          log_likelihood?: number | null
+          observation_count?: number
+          prior?: number
+          skill_id?: string
+          slip?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "skill_bkt_params_graph_id_fkey"
+            columns: ["graph_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_graphs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       skill_edges: {
         Row: {
+          confidence: number | null
           from_skill: string
           graph_id: string
           id: string
@@ -174,6 +649,7 @@ export type Database = {
           to_skill: string
         }
         Insert: {
+          confidence?: number | null
           from_skill: string
           graph_id: string
           id?: string
@@ -182,6 +658,7 @@ export type Database = {
           to_skill: string
         }
         Update: {
+          confidence?: number | null
           from_skill?: string
           graph_id?: string
           id?: string
@@ -344,6 +821,7 @@ export type Database = {
           independence_score: number
           is_correct: boolean
           question_id: string
+          rubric_marks: Json | null
           solution_score: number
           solution_viewed: boolean
           student_id: string
@@ -359,6 +837,7 @@ export type Database = {
           independence_score?: number
           is_correct: boolean
           question_id: string
+          rubric_marks?: Json | null
           solution_score?: number
           solution_viewed?: boolean
           student_id: string
@@ -374,6 +853,7 @@ export type Database = {
           independence_score?: number
           is_correct?: boolean
           question_id?: string
+          rubric_marks?: Json | null
           solution_score?: number
           solution_viewed?: boolean
           student_id?: string
@@ -405,6 +885,7 @@ export type Database = {
       }
       student_kp_mastery: {
         Row: {
+          attempt_count: number
           earned_points: number
           graph_id: string
           id: string
@@ -417,6 +898,7 @@ export type Database = {
           student_id: string
         }
         Insert: {
+          attempt_count?: number
           earned_points?: number
           graph_id: string
           id?: string
@@ -429,6 +911,7 @@ export type Database = {
           student_id: string
         }
         Update: {
+          attempt_count?: number
           earned_points?: number
           graph_id?: string
           id?: string
@@ -503,7 +986,21 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      save_graph_delta: {
+        Args: {
+          p_delete_edges?: Json
+          p_delete_questions?: string[]
+          p_delete_skills?: string[]
+          p_expected_revision: number
+          p_graph: Json
+          p_graph_id: string
+          p_upsert_edges?: Json
+          p_upsert_questions?: Json
+          p_upsert_skills?: Json
+          p_version?: Json
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,464 @@
+// Editable domain (curriculum) configs: catalog parsing, validation and versioned saves
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface MandatoryEdge {
+  from: string;
+  to: string;
+  reason: string;
+}
+
+export interface CatalogSkill {
+  id: string;
+  description: string;
+}
+
+export interface CatalogTier {
+  name: string;                // e.g. "FOUNDATIONAL (Level 0)" or "CSS"
+  skills: CatalogSkill[];
+}
+
+// The reference skill catalog is prompt text; tiers sit between a free-text header and footer
+export interface SkillCatalog {
+  header: string;
+  tiers: CatalogTier[];
+  footer: string;
+}
+
+/**
+ * The parts of a domain config the curriculum editor changes. Everything
+ * else in the stored config (prompt text, grouping) is carried through
+ * untouched in `rest`.
+ */
+export interface EditableDomainConfig {
+  curriculumTopics: string[];
+  skillTopicMap: Record<string, number>;     // skill_id -> 1-based position in curriculumTopics
+  catalog: SkillCatalog;
+  mandatoryEdges: MandatoryEdge[];
+  independentFoundational: string[];
+  rest: Record<string, unknown>;
+}
+
+export interface DomainConfigRecord {
+  id: string;
+  domain: string;
+  version: number;
+  label: string;
+  notes: string | null;
+  config: EditableDomainConfig;
+}
+
+export type DomainConfigIssueKind =
+  | 'cycle'
+  | 'unmapped_skill'
+  | 'foundational_edge'
+  | 'unknown_edge_skill'
+  | 'duplicate_skill';
+
+export interface DomainConfigIssue {
+  kind: DomainConfigIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+  skillIds: string[];
+}
+
+const SKILL_LINE = /^- ([A-Za-z0-9_]+):\s*(.*)$/;
+const TIER_LINE = /^(\S.*):\s*$/;
+
+/**
+ * Split catalog prompt text into header, tiers and footer. A tier is a
+ * "NAME:" line followed by "- skill_id: description" lines.
+ */
+export function parseSkillCatalog(text: string): SkillCatalog {
+  const lines = (text || '').split('\n');
+  const nextContentLine = (from: number) => {
+    for (let i = from; i < lines.length; i++) {
+      if (lines[i].trim() !== '') return lines[i];
+    }
+    return '';
+  };
+
+  let i = 0;
+  while (i < lines.length && !(TIER_LINE.test(lines[i]) && SKILL_LINE.test(nextContentLine(i + 1)))) i++;
+  if (i === lines.length) return { header: text || '', tiers: [], footer: '' };
+
+  const header = lines.slice(0, i).join('\n');
+  const tiers: CatalogTier[] = [];
+  let lastTierLine = i;
+
+  for (; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim() === '') continue;
+
+    const skill = line.match(SKILL_LINE);
+    if (skill && tiers.length > 0) {
+      tiers[tiers.length - 1].skills.push({ id: skill[1], description: skill[2] });
+      lastTierLine = i;
+      continue;
+    }
+
+    const tier = line.match(TIER_LINE);
+    if (tier && SKILL_LINE.test(nextContentLine(i + 1))) {
+      tiers.push({ name: tier[1], skills: [] });
+      lastTierLine = i;
+      continue;
+    }
+    break;
+  }
+
+  // The footer keeps the blank lines that separate it from the last tier
+  return { header, tiers, footer: lines.slice(lastTierLine + 1).join('\n') };
+}
+
+/**
+ * Inverse of parseSkillCatalog
+ */
+export function serializeSkillCatalog(catalog: SkillCatalog): string {
+  const filled = catalog.tiers.filter(t => t.skills.length > 0);
+  if (filled.length === 0) return catalog.header;
+
+  const tiers = filled
+    .map(t => [`${t.name}:`, ...t.skills.map(s => `- ${s.id}: ${s.description}`)].join('\n'))
+    .join('\n\n');
+  return [catalog.header, tiers, catalog.footer].join('\n');
+}
+
+export function getCatalogSkillIds(catalog: SkillCatalog): string[] {
+  return catalog.tiers.flatMap(t => t.skills.map(s => s.id));
+}
+
+/**
+ * Find one cycle among the edges, as a closed path (first id repeated at the
+ * end). Returns null when the edges form a DAG.
+ */
+export function findEdgeCycle(edges: Array<Pick<MandatoryEdge, 'from' | 'to'>>): string[] | null {
+  const adjacency = new Map<string, string[]>();
+  for (const e of edges) {
+    const list = adjacency.get(e.from) || [];
+    list.push(e.to);
+    adjacency.set(e.from, list);
+  }
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (node: string): string[] | null => {
+    state.set(node, 'visiting');
+    stack.push(node);
+    for (const next of adjacency.get(node) || []) {
+      if (state.get(next) === 'visiting') {
+        return [...stack.slice(stack.indexOf(next)), next];
+      }
+      if (!state.has(next)) {
+        const cycle = visit(next);
+        if (cycle) return cycle;
+      }
+    }
+    stack.pop();
+    state.set(node, 'done');
+    return null;
+  };
+
+  for (const node of adjacency.keys()) {
+    if (!state.has(node)) {
+      const cycle = visit(node);
+      if (cycle) return cycle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Longest-path depth of every skill in an acyclic edge set (roots are 0).
+ * Returns null when the edges contain a cycle.
+ */
+export function computeEdgeLevels(edges: Array<Pick<MandatoryEdge, 'from' | 'to'>>): Map<string, number> | null {
+  if (findEdgeCycle(edges)) return null;
+
+  const incoming = new Map<string, string[]>();
+  for (const e of edges) {
+    if (!incoming.has(e.from)) incoming.set(e.from, []);
+    const list = incoming.get(e.to) || [];
+    list.push(e.from);
+    incoming.set(e.to, list);
+  }
+
+  const levels = new Map<string, number>();
+  const levelOf = (node: string): number => {
+    const cached = levels.get(node);
+    if (cached !== undefined) return cached;
+    const parents = incoming.get(node) || [];
+    const level = parents.length === 0 ? 0 : Math.max(...parents.map(levelOf)) + 1;
+    levels.set(node, level);
+    return level;
+  };
+
+  for (const node of incoming.keys()) levelOf(node);
+  return levels;
+}
+
+/**
+ * Check a config before saving. Errors block the save:
+ * - mandatory edges must form a DAG
+ * - every catalog skill needs a position in the curriculum topics
+ * - no mandatory edge may join two independent foundational skills
+ */
+export function validateDomainConfig(config: EditableDomainConfig): DomainConfigIssue[] {
+  const issues: DomainConfigIssue[] = [];
+  const catalogIds = getCatalogSkillIds(config.catalog);
+  const topicCount = config.curriculumTopics.length;
+
+  const cycle = findEdgeCycle(config.mandatoryEdges);
+  if (cycle) {
+    issues.push({
+      kind: 'cycle',
+      severity: 'error',
+      message: `Mandatory edges form a cycle: ${cycle.join(' → ')}`,
+      skillIds: cycle.slice(0, -1),
+    });
+  }
+
+  const seen = new Set<string>();
+  for (const id of catalogIds) {
+    if (seen.has(id)) {
+      issues.push({
+        kind: 'duplicate_skill',
+        severity: 'warning',
+        message: `${id} appears more than once in the catalog`,
+        skillIds: [id],
+      });
+      continue;
+    }
+    seen.add(id);
+
+    const position = config.skillTopicMap[id];
+    if (position === undefined) {
+      issues.push({
+        kind: 'unmapped_skill',
+        severity: 'error',
+        message: `${id} has no curriculum topic`,
+        skillIds: [id],
+      });
+    } else if (position < 1 || position > topicCount) {
+      issues.push({
+        kind: 'unmapped_skill',
+        severity: 'error',
+        message: `${id} points at topic ${position}, but there are ${topicCount} topics`,
+        skillIds: [id],
+      });
+    }
+  }
+
+  const foundational = new Set(config.independentFoundational);
+  const knownSkills = new Set([...catalogIds, ...Object.keys(config.skillTopicMap)]);
+  for (const edge of config.mandatoryEdges) {
+    if (foundational.has(edge.from) && foundational.has(edge.to)) {
+      issues.push({
+        kind: 'foundational_edge',
+        severity: 'error',
+        message: `${edge.from} → ${edge.to} joins two independent foundational skills`,
+        skillIds: [edge.from, edge.to],
+      });
+    }
+    const unknown = [edge.from, edge.to].filter(id => !knownSkills.has(id));
+    if (unknown.length > 0) {
+      issues.push({
+        kind: 'unknown_edge_skill',
+        severity: 'warning',
+        message: `${edge.from} → ${edge.to} uses ${unknown.join(' and ')}, which is not in the catalog or topic map`,
+        skillIds: unknown,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Move a curriculum topic, keeping skill positions attached to their topic
+ */
+export function moveCurriculumTopic(config: EditableDomainConfig, from: number, to: number): EditableDomainConfig {
+  if (to < 0 || to >= config.curriculumTopics.length || from === to) return config;
+
+  const order = config.curriculumTopics.map((_, idx) => idx);
+  const [moved] = order.splice(from, 1);
+  order.splice(to, 0, moved);
+
+  // Old 1-based position -> new 1-based position
+  const remap = new Map(order.map((oldIdx, newIdx) => [oldIdx + 1, newIdx + 1]));
+  const skillTopicMap: Record<string, number> = {};
+  for (const [skillId, position] of Object.entries(config.skillTopicMap)) {
+    skillTopicMap[skillId] = remap.get(position) ?? position;
+  }
+
+  return {
+    ...config,
+    curriculumTopics: order.map(idx => config.curriculumTopics[idx]),
+    skillTopicMap,
+  };
+}
+
+/**
+ * Remove a curriculum topic. Its skills lose their position; later skills shift up.
+ */
+export function removeCurriculumTopic(config: EditableDomainConfig, index: number): EditableDomainConfig {
+  const removed = index + 1;
+  const skillTopicMap: Record<string, number> = {};
+  for (const [skillId, position] of Object.entries(config.skillTopicMap)) {
+    if (position === removed) continue;
+    skillTopicMap[skillId] = position > removed ? position - 1 : position;
+  }
+
+  return {
+    ...config,
+    curriculumTopics: config.curriculumTopics.filter((_, idx) => idx !== index),
+    skillTopicMap,
+  };
+}
+
+/**
+ * Rename a skill everywhere it appears: catalog, topic map, foundational
+ * list and mandatory edges
+ */
+export function renameSkill(config: EditableDomainConfig, oldId: string, newId: string): EditableDomainConfig {
+  if (oldId === newId) return config;
+  const swap = (id: string) => (id === oldId ? newId : id);
+
+  const skillTopicMap: Record<string, number> = {};
+  for (const [skillId, position] of Object.entries(config.skillTopicMap)) {
+    skillTopicMap[swap(skillId)] = position;
+  }
+
+  return {
+    ...config,
+    skillTopicMap,
+    catalog: {
+      ...config.catalog,
+      tiers: config.catalog.tiers.map(t => ({
+        ...t,
+        skills: t.skills.map(s => ({ ...s, id: swap(s.id) })),
+      })),
+    },
+    mandatoryEdges: config.mandatoryEdges.map(e => ({ ...e, from: swap(e.from), to: swap(e.to) })),
+    independentFoundational: config.independentFoundational.map(swap),
+  };
+}
+
+const asStringArray = (value: unknown) =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+/**
+ * Split a stored config into the editable parts and everything else
+ */
+export function toEditableConfig(raw: unknown): EditableDomainConfig {
+  const {
+    curriculumTopics,
+    skillTopicMap,
+    skillCatalog,
+    mandatoryEdges,
+    independentFoundational,
+    ...rest
+  } = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  const topicMap: Record<string, number> = {};
+  if (skillTopicMap && typeof skillTopicMap === 'object') {
+    for (const [key, value] of Object.entries(skillTopicMap as Record<string, unknown>)) {
+      if (typeof value === 'number' && Number.isFinite(value)) topicMap[key] = value;
+    }
+  }
+
+  return {
+    curriculumTopics: asStringArray(curriculumTopics),
+    skillTopicMap: topicMap,
+    catalog: parseSkillCatalog(typeof skillCatalog === 'string' ? skillCatalog : ''),
+    mandatoryEdges: Array.isArray(mandatoryEdges)
+      ? (mandatoryEdges as MandatoryEdge[])
+          .filter(e => e && typeof e.from === 'string' && typeof e.to === 'string')
+          .map(e => ({ from: e.from, to: e.to, reason: typeof e.reason === 'string' ? e.reason : '' }))
+      : [],
+    independentFoundational: asStringArray(independentFoundational),
+    rest,
+  };
+}
+
+/**
+ * Inverse of toEditableConfig
+ */
+export function fromEditableConfig(config: EditableDomainConfig): Record<string, unknown> {
+  return {
+    ...config.rest,
+    skillCatalog: serializeSkillCatalog(config.catalog),
+    curriculumTopics: config.curriculumTopics,
+    skillTopicMap: config.skillTopicMap,
+    independentFoundational: config.independentFoundational,
+    mandatoryEdges: config.mandatoryEdges.map(e => ({ from: e.from, to: e.to, reason: e.reason })),
+  };
+}
+
+/**
+ * Load the highest active version of a domain's config
+ */
+export async function loadLatestDomainConfig(domain: string): Promise<DomainConfigRecord | null> {
+  const { data, error } = await supabase
+    .from('domain_configs')
+    .select('id, domain, version, label, notes, config')
+    .eq('domain', domain)
+    .eq('is_active', true)
+    .order('version', { ascending: false })
+    .limit(1);
+
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row) return null;
+
+  return {
+    id: row.id,
+    domain: row.domain,
+    version: row.version,
+    label: row.label,
+    notes: row.notes,
+    config: toEditableConfig(row.config),
+  };
+}
+
+/**
+ * Save a config as the next version of its domain. Earlier versions are kept
+ * (and stay active), but edge functions pick the highest one.
+ */
+export async function saveDomainConfigVersion(
+  domain: string,
+  label: string,
+  config: EditableDomainConfig,
+  notes?: string
+): Promise<DomainConfigRecord> {
+  const { data: latest, error: versionError } = await supabase
+    .from('domain_configs')
+    .select('version')
+    .eq('domain', domain)
+    .order('version', { ascending: false })
+    .limit(1);
+  if (versionError) throw versionError;
+
+  const { data, error } = await supabase
+    .from('domain_configs')
+    .insert({
+      domain,
+      version: (latest?.[0]?.version ?? 0) + 1,
+      label,
+      notes: notes || null,
+      config: fromEditableConfig(config) as Json,
+    })
+    .select('id, domain, version, label, notes, config')
+    .single();
+  if (error) throw error;
+
+  return {
+    id: data.id,
+    domain: data.domain,
+    version: data.version,
+    label: data.label,
+    notes: data.notes,
+    config: toEditableConfig(data.config),
+  };
+}
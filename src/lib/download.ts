@@ -0,0 +1,15 @@
+// Trigger a browser download for generated content
+
+/**
+ * Save text or binary content as a file via a temporary object URL
+ */
+export function downloadFile(content: BlobPart, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,65 @@
+// Confidence scores on edges and question→skill mappings, and the low-confidence triage list
+
+import type { GraphEdge, KnowledgeGraph, QuestionPath } from '@/types/graph';
+
+// Items scored below this are surfaced for review and faded on the canvas
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Score given to edges and mappings a reviewer has confirmed
+export const CONFIRMED_CONFIDENCE = 1;
+
+export type TriageItem =
+  | { kind: 'edge'; key: string; confidence: number; edge: GraphEdge }
+  | { kind: 'mapping'; key: string; confidence: number; question: string; skillId: string };
+
+/**
+ * Whether a score counts as low. Unscored items (older graphs) are never low.
+ */
+export function isLowConfidence(confidence: number | undefined, threshold = LOW_CONFIDENCE_THRESHOLD): boolean {
+  return typeof confidence === 'number' && confidence < threshold;
+}
+
+/**
+ * Re-key per-skill scores after skill ids were merged or dropped.
+ * When two skills fold into one, the higher score is kept.
+ */
+export function remapSkillConfidence(
+  scores: Record<string, number> | undefined,
+  mapId: (id: string) => string | null
+): Record<string, number> | undefined {
+  if (!scores) return undefined;
+  const remapped: Record<string, number> = {};
+  for (const [skillId, confidence] of Object.entries(scores)) {
+    const id = mapId(skillId);
+    if (!id) continue;
+    remapped[id] = Math.max(remapped[id] ?? 0, confidence);
+  }
+  return Object.keys(remapped).length > 0 ? remapped : undefined;
+}
+
+/**
+ * Lowest-confidence edges and question→skill mappings below `threshold`, least certain first
+ */
+export function collectLowConfidence(
+  graph: KnowledgeGraph,
+  threshold = LOW_CONFIDENCE_THRESHOLD,
+  limit = 100
+): TriageItem[] {
+  const items: TriageItem[] = [];
+
+  for (const edge of graph.edges) {
+    if (!isLowConfidence(edge.confidence, threshold)) continue;
+    items.push({ kind: 'edge', key: `edge:${edge.from}:${edge.to}`, confidence: edge.confidence!, edge });
+  }
+
+  for (const [question, path] of Object.entries(graph.questionPaths || {})) {
+    if (Array.isArray(path)) continue;
+    const required = new Set((path as QuestionPath).requiredNodes || []);
+    for (const [skillId, confidence] of Object.entries((path as QuestionPath).skillConfidence || {})) {
+      if (!required.has(skillId) || !isLowConfidence(confidence, threshold)) continue;
+      items.push({ kind: 'mapping', key: `mapping:${question}:${skillId}`, confidence, question, skillId });
+    }
+  }
+
+  return items.sort((a, b) => a.confidence - b.confidence).slice(0, limit);
+}
@@ -0,0 +1,55 @@
+// Row-level delta between two grouping snapshots, for undoing one grouping change
+
+import type { GroupingSnapshot, SkillSubtopic, SkillTopic } from '@/types/grouping';
+
+export interface GroupingDelta {
+  upsertTopics: SkillTopic[];
+  deleteTopics: string[];
+  upsertSubtopics: SkillSubtopic[];
+  deleteSubtopics: string[];
+  skillLinks: Record<string, string | null>;   // skill_id -> subtopic id, null = ungrouped
+}
+
+const topicKey = (t: SkillTopic) => JSON.stringify([t.name, t.color, t.displayOrder]);
+const subtopicKey = (st: SkillSubtopic) => JSON.stringify([st.topicId, st.name, st.color, st.displayOrder]);
+
+function diffGroups<T extends { id: string }>(from: T[], to: T[], key: (row: T) => string): { upsert: T[]; deleted: string[] } {
+  const before = new Map(from.map(row => [row.id, key(row)]));
+  const after = new Set(to.map(row => row.id));
+  return {
+    upsert: to.filter(row => before.get(row.id) !== key(row)),
+    deleted: from.filter(row => !after.has(row.id)).map(row => row.id),
+  };
+}
+
+/**
+ * Rows to write to turn grouping `from` into `to`. Only rows that differ
+ * are listed, so applying the delta leaves groupings neither snapshot
+ * mentions (e.g. ones created after `to` was taken) alone.
+ */
+export function computeGroupingDelta(from: GroupingSnapshot, to: GroupingSnapshot): GroupingDelta {
+  const topics = diffGroups(from.topics, to.topics, topicKey);
+  const subtopics = diffGroups(from.subtopics, to.subtopics, subtopicKey);
+
+  const skillLinks: Record<string, string | null> = {};
+  for (const skillId of new Set([...Object.keys(from.skillSubtopics), ...Object.keys(to.skillSubtopics)])) {
+    const next = to.skillSubtopics[skillId] ?? null;
+    if ((from.skillSubtopics[skillId] ?? null) !== next) skillLinks[skillId] = next;
+  }
+
+  return {
+    upsertTopics: topics.upsert,
+    deleteTopics: topics.deleted,
+    upsertSubtopics: subtopics.upsert,
+    deleteSubtopics: subtopics.deleted,
+    skillLinks,
+  };
+}
+
+export function isGroupingDeltaEmpty(delta: GroupingDelta): boolean {
+  return delta.upsertTopics.length === 0
+    && delta.deleteTopics.length === 0
+    && delta.upsertSubtopics.length === 0
+    && delta.deleteSubtopics.length === 0
+    && Object.keys(delta.skillLinks).length === 0;
+}
@@ -0,0 +1,392 @@
+// Export the rendered graph canvas as standalone SVG, PNG or a tiled PDF.
+// The live SVG is cloned with computed styles inlined and its HTML labels
+// redrawn as SVG text, so the file renders the same outside the app.
+
+import { buildImagePdf, PDF_PAGE_SIZES, type PdfImagePage, type PdfPageSize } from './pdf';
+
+export type ImageExportFormat = 'svg' | 'png' | 'pdf';
+
+export const IMAGE_EXPORT_FORMATS: Record<ImageExportFormat, { label: string; extension: string; mimeType: string }> = {
+  svg: { label: 'SVG (vector)', extension: 'svg', mimeType: 'image/svg+xml' },
+  png: { label: 'PNG (image)', extension: 'png', mimeType: 'image/png' },
+  pdf: { label: 'PDF (printable)', extension: 'pdf', mimeType: 'application/pdf' },
+};
+
+export const EXPORT_DPI_OPTIONS = [72, 150, 300, 600];
+
+export interface ImageExportOptions {
+  format: ImageExportFormat;
+  dpi: number;                       // PNG and PDF resolution; the canvas is laid out at 96 dpi
+  pageSize: PdfPageSize;
+  pdfLayout: 'tile' | 'fit';         // Split across pages at print size, or shrink onto one page
+  includeLevelBands: boolean;
+  includeLegend: boolean;
+  title?: string;
+}
+
+// Layout of the canvas being exported, in SVG user units
+export interface CanvasExportLayout {
+  width: number;
+  height: number;
+  legendWidth: number;
+  legendHeight: number;
+}
+
+// Elements carrying these attributes are found and rearranged in the export
+export const EXPORT_CONTENT_ATTR = 'data-export-content';
+export const EXPORT_LAYER_ATTR = 'data-export-layer';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CSS_PX_PER_INCH = 96;
+const PT_PER_CSS_PX = 0.75;
+const TITLE_HEIGHT = 40;
+const PDF_MARGIN = 36;
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384;
+
+const INLINED_PROPERTIES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-dasharray', 'stroke-opacity', 'stroke-linecap',
+  'opacity', 'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor', 'dominant-baseline', 'filter',
+];
+
+interface StandaloneSvg {
+  root: SVGSVGElement;
+  width: number;
+  height: number;
+}
+
+function svgEl<K extends keyof SVGElementTagNameMap>(tag: K, attrs: Record<string, string | number> = {}): SVGElementTagNameMap[K] {
+  const el = document.createElementNS(SVG_NS, tag);
+  for (const [key, value] of Object.entries(attrs)) el.setAttribute(key, String(value));
+  return el;
+}
+
+const isTransparent = (color: string) => !color || color === 'transparent' || /rgba\(.*,\s*0\)$/.test(color);
+
+/**
+ * SVG shapes and text equivalent to the HTML inside a foreignObject, from its
+ * current layout: boxes with a background or border become rects, text becomes
+ * one <text> per rendered line.
+ */
+function foreignObjectToSvg(live: SVGForeignObjectElement): SVGGElement | null {
+  const box = live.getBoundingClientRect();
+  const width = live.width.baseVal.value;
+  if (box.width === 0 || width === 0) return null;
+  const ratio = box.width / width;
+  const originX = live.x.baseVal.value;
+  const originY = live.y.baseVal.value;
+  const toLocal = (rect: DOMRect) => ({
+    x: originX + (rect.left - box.left) / ratio,
+    y: originY + (rect.top - box.top) / ratio,
+    width: rect.width / ratio,
+    height: rect.height / ratio,
+  });
+
+  const group = svgEl('g');
+  const walk = (node: Node) => {
+    if (node instanceof HTMLElement) {
+      const style = getComputedStyle(node);
+      if (style.display === 'none' || style.visibility === 'hidden') return;
+      const hasBackground = !isTransparent(style.backgroundColor);
+      const borderWidth = parseFloat(style.borderTopWidth) || 0;
+      if (hasBackground || (borderWidth > 0 && style.borderTopStyle !== 'none')) {
+        const r = toLocal(node.getBoundingClientRect());
+        group.appendChild(svgEl('rect', {
+          x: r.x, y: r.y, width: r.width, height: r.height,
+          rx: parseFloat(style.borderTopLeftRadius) || 0,
+          fill: hasBackground ? style.backgroundColor : 'none',
+          ...(borderWidth > 0 && {
+            stroke: style.borderTopColor,
+            'stroke-width': borderWidth,
+            ...(style.borderTopStyle === 'dashed' && { 'stroke-dasharray': '3 2' }),
+          }),
+        }));
+      }
+      node.childNodes.forEach(walk);
+    } else if (node.nodeType === Node.TEXT_NODE && node.textContent?.trim()) {
+      const parent = node.parentElement!;
+      const style = getComputedStyle(parent);
+      // Split into rendered lines by measuring each word
+      const lines: Array<{ text: string; rect: DOMRect }> = [];
+      const text = node.textContent;
+      const range = document.createRange();
+      for (const match of text.matchAll(/\S+/g)) {
+        range.setStart(node, match.index!);
+        range.setEnd(node, match.index! + match[0].length);
+        const rect = range.getBoundingClientRect();
+        const line = lines.find(l => Math.abs(l.rect.top - rect.top) < rect.height / 2);
+        if (line) {
+          line.text += ` ${match[0]}`;
+          line.rect = new DOMRect(line.rect.left, line.rect.top, rect.right - line.rect.left, Math.max(line.rect.height, rect.height));
+        } else {
+          lines.push({ text: match[0], rect });
+        }
+      }
+      for (const line of lines) {
+        const r = toLocal(line.rect);
+        const textEl = svgEl('text', {
+          x: r.x + r.width / 2,
+          y: r.y + r.height / 2,
+          'text-anchor': 'middle',
+          'dominant-baseline': 'central',
+          fill: style.color,
+          'font-family': style.fontFamily,
+          'font-size': style.fontSize,
+          'font-weight': style.fontWeight,
+          'font-style': style.fontStyle,
+        });
+        textEl.textContent = line.text;
+        group.appendChild(textEl);
+      }
+    }
+  };
+  live.childNodes.forEach(walk);
+  return group;
+}
+
+// Copy computed styles onto the clone, walking both trees in step
+function inlineStyles(live: Element, clone: Element) {
+  if (live instanceof SVGForeignObjectElement) {
+    const replacement = foreignObjectToSvg(live);
+    if (replacement) clone.replaceWith(replacement);
+    else clone.remove();
+    return;
+  }
+  if (live instanceof SVGElement) {
+    const computed = getComputedStyle(live);
+    const declarations = INLINED_PROPERTIES
+      .map(prop => [prop, computed.getPropertyValue(prop)] as const)
+      .filter(([prop, value]) => value && !(prop === 'filter' && value === 'none'))
+      .map(([prop, value]) => `${prop}: ${value}`);
+    // CSS transforms (node positions) become transform attributes, which every SVG reader supports
+    const cssTransform = live.style.transform;
+    if (cssTransform) clone.setAttribute('transform', cssTransform.replace(/px/g, ''));
+    clone.setAttribute('style', declarations.join('; '));
+    clone.removeAttribute('class');
+  }
+  const liveChildren = Array.from(live.children);
+  const cloneChildren = Array.from(clone.children);
+  liveChildren.forEach((child, i) => inlineStyles(child, cloneChildren[i]));
+}
+
+/**
+ * A self-contained copy of the canvas: white background, optional title, the
+ * whole graph at 1:1 and the legend to its right
+ */
+export function buildStandaloneSvg(
+  svg: SVGSVGElement,
+  layout: CanvasExportLayout,
+  options: Pick<ImageExportOptions, 'includeLevelBands' | 'includeLegend' | 'title'>
+): StandaloneSvg {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  inlineStyles(svg, clone);
+
+  const content = clone.querySelector(`[${EXPORT_CONTENT_ATTR}]`);
+  if (!content) throw new Error('Nothing to export');
+  const levelBands = clone.querySelector(`[${EXPORT_LAYER_ATTR}="level-bands"]`);
+  const legend = clone.querySelector(`[${EXPORT_LAYER_ATTR}="legend"]`);
+
+  const titleHeight = options.title ? TITLE_HEIGHT : 0;
+  const legendWidth = options.includeLegend && legend ? layout.legendWidth : 0;
+  const width = layout.width + legendWidth;
+  const height = titleHeight + Math.max(layout.height, legendWidth > 0 ? layout.legendHeight : 0);
+
+  const root = svgEl('svg', { xmlns: SVG_NS, width, height, viewBox: `0 0 ${width} ${height}` });
+  root.appendChild(svgEl('rect', { x: 0, y: 0, width, height, fill: '#ffffff' }));
+  if (options.title) {
+    const title = svgEl('text', { x: 16, y: 26, 'font-family': 'Helvetica, Arial, sans-serif', 'font-size': 16, 'font-weight': 600, fill: '#0f172a' });
+    title.textContent = options.title;
+    root.appendChild(title);
+  }
+
+  // The pan/zoom transform is dropped so the whole graph is exported
+  content.setAttribute('transform', `translate(0, ${titleHeight})`);
+  if (levelBands) {
+    if (options.includeLevelBands) levelBands.removeAttribute('display');
+    else levelBands.remove();
+  }
+  root.appendChild(content);
+
+  if (legend && legendWidth > 0) {
+    legend.removeAttribute('display');
+    legend.setAttribute('transform', `translate(${layout.width}, ${titleHeight})`);
+    root.appendChild(legend);
+  }
+
+  return { root, width, height };
+}
+
+// Region of the standalone SVG, in its user units
+interface SvgRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * The SVG as a file; with a region, only that part of it, scaled to the given pixel size
+ */
+function serialize(svg: StandaloneSvg, region?: SvgRegion, pixelWidth?: number, pixelHeight?: number): string {
+  const root = svg.root.cloneNode(true) as SVGSVGElement;
+  const { x, y, width, height } = region ?? { x: 0, y: 0, width: svg.width, height: svg.height };
+  root.setAttribute('viewBox', `${x} ${y} ${width} ${height}`);
+  root.setAttribute('width', String(pixelWidth ?? width));
+  root.setAttribute('height', String(pixelHeight ?? height));
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(root)}`;
+}
+
+// Load a region of the SVG at the pixel size it will be drawn at, so it rasterizes sharply
+async function loadSvgImage(svg: StandaloneSvg, region: SvgRegion, pixelWidth: number, pixelHeight: number): Promise<HTMLImageElement> {
+  if (pixelWidth > MAX_CANVAS_SIDE || pixelHeight > MAX_CANVAS_SIDE || pixelWidth * pixelHeight > MAX_CANVAS_AREA) {
+    throw new Error(`The graph is too large to render at this resolution (${pixelWidth}×${pixelHeight} px). Choose a lower DPI.`);
+  }
+  const url = URL.createObjectURL(new Blob([serialize(svg, region, pixelWidth, pixelHeight)], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode the image'))), type, quality);
+  });
+}
+
+function drawImage(image: HTMLImageElement, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas rendering is not available');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  return canvas;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Record the DPI in a PNG's pHYs chunk, placed right after the header chunk
+ */
+async function withPngDpi(png: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4);  // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1;                           // Unit: meter
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  const headerEnd = 8 + 25;                // Signature + IHDR chunk
+  return new Blob([bytes.subarray(0, headerEnd), chunk, bytes.subarray(headerEnd)], { type: 'image/png' });
+}
+
+async function renderPng(svg: StandaloneSvg, dpi: number): Promise<Blob> {
+  const scale = dpi / CSS_PX_PER_INCH;
+  const pixelWidth = Math.round(svg.width * scale);
+  const pixelHeight = Math.round(svg.height * scale);
+  const image = await loadSvgImage(svg, { x: 0, y: 0, width: svg.width, height: svg.height }, pixelWidth, pixelHeight);
+  const canvas = drawImage(image, pixelWidth, pixelHeight);
+  return withPngDpi(await canvasToBlob(canvas, 'image/png'), dpi);
+}
+
+/**
+ * Rasterize one page's region on its own, so the canvas size limit applies
+ * per page rather than to the whole graph
+ */
+async function jpegPage(
+  svg: StandaloneSvg,
+  region: SvgRegion,
+  pixelScale: number,
+  page: Omit<PdfImagePage, 'jpeg' | 'pixelWidth' | 'pixelHeight'>
+): Promise<PdfImagePage> {
+  const pixelWidth = Math.max(1, Math.round(region.width * pixelScale));
+  const pixelHeight = Math.max(1, Math.round(region.height * pixelScale));
+  const image = await loadSvgImage(svg, region, pixelWidth, pixelHeight);
+  const canvas = drawImage(image, pixelWidth, pixelHeight);
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+  return { ...page, jpeg, pixelWidth, pixelHeight };
+}
+
+async function renderPdf(svg: StandaloneSvg, options: ImageExportOptions): Promise<Blob> {
+  const size = PDF_PAGE_SIZES[options.pageSize];
+  const landscape = svg.width > svg.height;
+  const pageWidth = landscape ? size.height : size.width;
+  const pageHeight = landscape ? size.width : size.height;
+  const printableWidth = pageWidth - PDF_MARGIN * 2;
+  const printableHeight = pageHeight - PDF_MARGIN * 2;
+  const caption = options.title || 'Knowledge graph';
+
+  // Print size is 1 CSS px = 0.75 pt; "fit" shrinks further when needed
+  const fitScale = Math.min(PT_PER_CSS_PX, printableWidth / svg.width, printableHeight / svg.height);
+  const ptPerPx = options.pdfLayout === 'fit' ? fitScale : PT_PER_CSS_PX;
+  const tileWidth = printableWidth / ptPerPx;   // CSS px per page
+  const tileHeight = printableHeight / ptPerPx;
+  const columns = Math.ceil(svg.width / tileWidth);
+  const rows = Math.ceil(svg.height / tileHeight);
+  // Pixels per CSS px that give the chosen DPI at the printed size
+  const pixelScale = (ptPerPx / 72) * options.dpi;
+
+  const pages: PdfImagePage[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = column * tileWidth;
+      const y = row * tileHeight;
+      const width = Math.min(tileWidth, svg.width - x);
+      const height = Math.min(tileHeight, svg.height - y);
+      pages.push(await jpegPage(svg, { x, y, width, height }, pixelScale, {
+        width: pageWidth,
+        height: pageHeight,
+        placement: {
+          x: PDF_MARGIN,
+          y: pageHeight - PDF_MARGIN - height * ptPerPx,
+          width: width * ptPerPx,
+          height: height * ptPerPx,
+        },
+        caption: rows * columns > 1
+          ? `${caption} - page ${pages.length + 1} of ${rows * columns} (row ${row + 1}, column ${column + 1})`
+          : caption,
+      }));
+    }
+  }
+  return buildImagePdf(pages);
+}
+
+/**
+ * Render the canvas in the chosen format
+ */
+export async function exportCanvasImage(
+  svg: SVGSVGElement,
+  layout: CanvasExportLayout,
+  options: ImageExportOptions
+): Promise<Blob> {
+  const standalone = buildStandaloneSvg(svg, layout, options);
+  switch (options.format) {
+    case 'svg': return new Blob([serialize(standalone)], { type: IMAGE_EXPORT_FORMATS.svg.mimeType });
+    case 'png': return renderPng(standalone, options.dpi);
+    case 'pdf': return renderPdf(standalone, options);
+  }
+}
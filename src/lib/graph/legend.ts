@@ -0,0 +1,112 @@
+// Graph legend content, shared by the LegendPanel popover and the legend drawn into image exports
+
+import { NODE_TYPE_COLORS } from '@/types/graph';
+import type { SkillSubtopic } from '@/types/grouping';
+
+export const LEGEND_NODE_TYPES = [
+  { type: 'root', color: NODE_TYPE_COLORS.root, label: 'Root', description: 'No prerequisites' },
+  { type: 'intermediate', color: NODE_TYPE_COLORS.intermediate, label: 'Intermediate', description: 'Has prerequisites & dependents' },
+  { type: 'leaf', color: NODE_TYPE_COLORS.leaf, label: 'Leaf', description: 'No dependents' },
+];
+
+export const LEGEND_COGNITIVE_TARGETS = [
+  { level: 1, label: 'Lv1 - Recall', description: 'Remember facts' },
+  { level: 2, label: 'Lv2 - Understand', description: 'Explain concepts' },
+  { level: 3, label: 'Lv3 - Apply', description: 'Use in new contexts' },
+  { level: 4, label: 'Lv4 - Analyze', description: 'Break down complexity' },
+];
+
+export type LegendSwatch =
+  | { kind: 'dot'; color: string }
+  | { kind: 'ring'; color: string; width?: number; dash?: string }
+  | { kind: 'line'; color: string; width: number }
+  | { kind: 'badge'; text: string };
+
+export interface LegendSection {
+  title: string;
+  rows: Array<{ key: string; swatch: LegendSwatch; label: string }>;
+}
+
+// Layout of the exported legend, in SVG user units
+export const LEGEND_LAYOUT = {
+  width: 300,
+  padding: 16,
+  titleHeight: 28,
+  headerHeight: 20,
+  rowHeight: 20,
+  sectionGap: 10,
+};
+
+/**
+ * Legend sections for the exported canvas; mastery and subtopic colors only when shown
+ */
+export function legendSections({ showMastery, subtopics }: { showMastery: boolean; subtopics: SkillSubtopic[] }): LegendSection[] {
+  const sections: LegendSection[] = [
+    {
+      title: 'Node Types (by position)',
+      rows: LEGEND_NODE_TYPES.map(({ type, color, label, description }) => ({
+        key: type,
+        swatch: { kind: 'dot', color },
+        label: `${label} — ${description}`,
+      })),
+    },
+    {
+      title: 'Cognitive Target (badge)',
+      rows: LEGEND_COGNITIVE_TARGETS.map(({ level, description }) => ({
+        key: `lv${level}`,
+        swatch: { kind: 'badge', text: `Lv${level}` },
+        label: description,
+      })),
+    },
+    {
+      title: 'Highlights',
+      rows: [
+        { key: 'selected', swatch: { kind: 'ring', color: 'hsl(45, 93%, 47%)', width: 3 }, label: 'Selected Node' },
+        { key: 'path', swatch: { kind: 'line', color: 'hsl(173, 58%, 39%)', width: 3.5 }, label: 'Highlighted Path' },
+        { key: 'edge', swatch: { kind: 'line', color: 'hsl(220, 15%, 70%)', width: 1.5 }, label: 'Prerequisite Link' },
+      ],
+    },
+  ];
+
+  if (showMastery) {
+    sections.push({
+      title: 'Student Mastery',
+      rows: [
+        { key: 'mastered', swatch: { kind: 'ring', color: 'hsl(142, 76%, 36%)' }, label: '80% or more' },
+        { key: 'developing', swatch: { kind: 'ring', color: 'hsl(215, 16%, 65%)' }, label: '60–79% (node type color)' },
+        { key: 'struggling', swatch: { kind: 'ring', color: 'hsl(38, 92%, 50%)' }, label: '40–59%' },
+        { key: 'low', swatch: { kind: 'ring', color: 'hsl(0, 84%, 60%)' }, label: 'Below 40%' },
+        { key: 'inferred', swatch: { kind: 'ring', color: 'hsl(220, 15%, 55%)', dash: '3 2' }, label: 'Inferred (~), no direct evidence' },
+        { key: 'frontier', swatch: { kind: 'ring', color: 'hsl(199, 89%, 48%)', dash: '4 3' }, label: 'Next on learning path' },
+      ],
+    });
+  }
+
+  if (subtopics.length > 0) {
+    sections.push({
+      title: 'Subtopics',
+      rows: subtopics.map(st => ({
+        key: st.id,
+        swatch: { kind: 'ring', color: st.color, width: 3 },
+        label: st.name.length > 32 ? `${st.name.slice(0, 30)}…` : st.name,
+      })),
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * Top offset of each section and the total legend height
+ */
+export function legendLayout(sections: LegendSection[]): { tops: number[]; height: number } {
+  const { padding, titleHeight, headerHeight, rowHeight, sectionGap } = LEGEND_LAYOUT;
+  const tops: number[] = [];
+  let y = padding + titleHeight;
+  sections.forEach((section, i) => {
+    if (i > 0) y += sectionGap;
+    tops.push(y);
+    y += headerHeight + section.rows.length * rowHeight;
+  });
+  return { tops, height: y + padding };
+}
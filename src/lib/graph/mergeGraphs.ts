@@ -1,4 +1,5 @@
-import type { GraphEdge, GraphNode, KnowledgeGraph, QuestionPath, CME, LE, KnowledgePoint } from "@/types/graph";
+import type { GraphEdge, GraphNode, KnowledgeGraph, QuestionPath, CME, LE, KnowledgePoint, IPAStep } from "@/types/graph";
+import { CONFIRMED_CONFIDENCE, remapSkillConfidence } from "./confidence";
 
 // Default values for missing node fields
 const DEFAULT_CME: CME = {
@@ -48,7 +49,12 @@ function normalizeNode(node: Partial<GraphNode> & { id: string; name: string }):
     transferableContexts: node.transferableContexts ?? [],
   };
 }
-function areSemanticallyEquivalent(a: GraphNode, b: GraphNode): boolean {
+
+/**
+ * Why two nodes count as the same skill, or null if they are distinct.
+ * The reason is shown to reviewers when a new skill is proposed as a merge.
+ */
+export function getSemanticEquivalenceReason(a: GraphNode, b: GraphNode): string | null {
   // Normalize names for comparison
   const normalize = (s: string) => s.toLowerCase()
     .replace(/[_-]/g, ' ')
@@ -59,21 +65,27 @@ function areSemanticallyEquivalent(a: GraphNode, b: GraphNode): boolean {
   const nameB = normalize(b.name);
   
   // Exact match after normalization
-  if (nameA === nameB) return true;
+  if (nameA === nameB) return `Same name after normalization ("${nameA}")`;
   
   // Check word overlap
   const wordsA = new Set(nameA.split(' ').filter(w => w.length > 2));
   const wordsB = new Set(nameB.split(' ').filter(w => w.length > 2));
   
-  if (wordsA.size === 0 || wordsB.size === 0) return false;
+  if (wordsA.size === 0 || wordsB.size === 0) return null;
   
   // If 60%+ word overlap and same tier, likely duplicate
   const intersection = [...wordsA].filter(w => wordsB.has(w));
   const overlapRatio = intersection.length / Math.max(wordsA.size, wordsB.size);
   
-  if (overlapRatio >= 0.6 && a.tier === b.tier) return true;
+  if (overlapRatio >= 0.6 && a.tier === b.tier) {
+    return `${Math.round(overlapRatio * 100)}% word overlap (${intersection.join(', ')}) and same tier (${a.tier})`;
+  }
   
-  return false;
+  return null;
+}
+
+function areSemanticallyEquivalent(a: GraphNode, b: GraphNode): boolean {
+  return getSemanticEquivalenceReason(a, b) !== null;
 }
 
 const MANDATORY_EDGES: Array<{from: string; to: string; reason: string}> = [
@@ -119,7 +131,7 @@ function injectMandatoryEdges(nodes: GraphNode[], edges: GraphEdge[]): GraphEdge
     if (nodeIds.has(me.from) && nodeIds.has(me.to)) {
       const key = `${me.from}:${me.to}`;
       if (!edgeSet.has(key)) {
-        result.push({ from: me.from, to: me.to, reason: me.reason, relationshipType: 'requires' });
+        result.push({ from: me.from, to: me.to, reason: me.reason, relationshipType: 'requires', confidence: CONFIRMED_CONFIDENCE });
         edgeSet.add(key);
         console.log(`[mergeGraphs] Injected mandatory edge: ${me.from} -> ${me.to}`);
       }
@@ -135,7 +147,12 @@ function deduplicateSemanticDuplicates(
   nodes: GraphNode[], 
   edges: GraphEdge[], 
   questionPaths: Record<string, QuestionPath | string[]>
-): { nodes: GraphNode[]; edges: GraphEdge[]; questionPaths: Record<string, QuestionPath | string[]> } {
+): {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  questionPaths: Record<string, QuestionPath | string[]>;
+  idMapping: Map<string, string>;
+} {
   const idMapping = new Map<string, string>(); // old ID → canonical ID
   const canonicalNodes: GraphNode[] = [];
   
@@ -193,11 +210,12 @@ function deduplicateSemanticDuplicates(
         ...path,
         requiredNodes: path.requiredNodes?.map(id => idMapping.get(id) || id) || [],
         executionOrder: path.executionOrder?.map(id => idMapping.get(id) || id) || [],
+        skillConfidence: remapSkillConfidence(path.skillConfidence, id => idMapping.get(id) || id),
       };
     }
   }
   
-  return { nodes: canonicalNodes, edges: remappedEdges, questionPaths: remappedPaths };
+  return { nodes: canonicalNodes, edges: remappedEdges, questionPaths: remappedPaths, idMapping };
 }
 
 /**
@@ -342,27 +360,59 @@ function validateQuestionPaths(
       const filteredRequired = (path.requiredNodes || []).filter(id => nodeIds.has(id));
       const filteredOrder = (path.executionOrder || []).filter(id => nodeIds.has(id));
       if (filteredRequired.length > 0) {
-        validated[question] = { ...path, requiredNodes: filteredRequired, executionOrder: filteredOrder };
+        const skillConfidence = remapSkillConfidence(path.skillConfidence, id => (nodeIds.has(id) ? id : null));
+        validated[question] = { ...path, requiredNodes: filteredRequired, executionOrder: filteredOrder, skillConfidence };
       }
     }
   }
   return validated;
 }
 
+export interface MergeGraphsOptions {
+  /** Fold near-duplicate names into one node (default true). Off when a reviewer already decided. */
+  semanticDedup?: boolean;
+}
+
+/**
+ * Keep IPA traces of questions still in the graph; knowledge items follow
+ * merged skill ids and are dropped if their skill no longer exists.
+ */
+function remapIpaTraces(
+  traces: Record<string, IPAStep[]>,
+  idMapping: Map<string, string>,
+  nodeIds: Set<string>,
+  questions: Set<string>
+): Record<string, IPAStep[]> | undefined {
+  const remapped: Record<string, IPAStep[]> = {};
+  for (const [question, steps] of Object.entries(traces)) {
+    if (!questions.has(question)) continue;
+    remapped[question] = steps.map(step => ({
+      ...step,
+      knowledgeItems: step.knowledgeItems
+        ?.map(item => ({ ...item, id: idMapping.get(item.id) || item.id }))
+        .filter(item => nodeIds.has(item.id)),
+    }));
+  }
+  return Object.keys(remapped).length > 0 ? remapped : undefined;
+}
+
 /**
  * Merge multiple KnowledgeGraph payloads produced from question batches.
  * - Dedupe nodes by id (merge appearsInQuestions)
  * - Dedupe edges by from+to
- * - Merge courses, questionPaths, ipaByQuestion
+ * - Merge courses, questionPaths, ipaByQuestion; keep the latest promptVersion
  * - Apply semantic deduplication as final pass
  * - Normalize all nodes to ensure required fields exist
  */
-export function mergeGraphs(graphs: KnowledgeGraph[]): KnowledgeGraph {
+export function mergeGraphs(graphs: KnowledgeGraph[], options: MergeGraphsOptions = {}): KnowledgeGraph {
+  const { semanticDedup = true } = options;
   const nodeMap = new Map<string, GraphNode>();
   const edgeSet = new Set<string>();
   const edges: GraphEdge[] = [];
   const courses: KnowledgeGraph["courses"] = {};
   const questionPaths: Record<string, QuestionPath | string[]> = {};
+  const ipaByQuestion: Record<string, IPAStep[]> = {};
+  let promptVersion: string | undefined;
 
   for (const graph of graphs) {
     // Merge nodes (dedupe by id) - normalize each node
@@ -406,16 +456,16 @@ export function mergeGraphs(graphs: KnowledgeGraph[]): KnowledgeGraph {
       }
     }
 
-    // Merge question paths
+    // Merge question paths and IPA traces (later batches win)
     Object.assign(questionPaths, graph.questionPaths || {});
+    Object.assign(ipaByQuestion, graph.ipaByQuestion || {});
+    promptVersion = graph.promptVersion ?? promptVersion;
   }
 
   // After initial merge, apply semantic deduplication to catch near-duplicates
-  const dedupResult = deduplicateSemanticDuplicates(
-    Array.from(nodeMap.values()),
-    edges,
-    questionPaths
-  );
+  const dedupResult = semanticDedup
+    ? deduplicateSemanticDuplicates(Array.from(nodeMap.values()), edges, questionPaths)
+    : { nodes: Array.from(nodeMap.values()), edges, questionPaths, idMapping: new Map<string, string>() };
 
   // Independence rule: strip edges where the TARGET is foundational — foundational skills must have NO prerequisites
   const independenceFiltered = dedupResult.edges.filter(e => {
@@ -454,6 +504,7 @@ export function mergeGraphs(graphs: KnowledgeGraph[]): KnowledgeGraph {
     edges: cleanEdges,
     courses,
     questionPaths: validatedPaths,
-    ipaByQuestion: undefined,
+    ipaByQuestion: remapIpaTraces(ipaByQuestion, dedupResult.idMapping, nodeIds, new Set(Object.keys(validatedPaths))),
+    ...(promptVersion && { promptVersion }),
   };
 }
@@ -0,0 +1,85 @@
+// Minimal PDF writer for image pages: each page holds one JPEG and a caption line
+
+export type PdfPageSize = 'a4' | 'letter';
+
+// Portrait width and height in points
+export const PDF_PAGE_SIZES: Record<PdfPageSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  letter: { label: 'US Letter', width: 612, height: 792 },
+};
+
+export interface PdfImagePage {
+  width: number;               // Page size in points
+  height: number;
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+  placement: { x: number; y: number; width: number; height: number };  // Points, origin bottom-left
+  caption?: string;
+}
+
+const encoder = new TextEncoder();
+
+// Captions use the standard Helvetica font, so keep them to printable ASCII
+function pdfString(text: string): string {
+  const ascii = text.replace(/[^\x20-\x7e]/g, '?');
+  return `(${ascii.replace(/[\\()]/g, c => `\\${c}`)})`;
+}
+
+const num = (n: number) => Number(n.toFixed(2)).toString();
+
+/**
+ * Assemble a PDF with one image per page
+ */
+export function buildImagePdf(pages: PdfImagePage[]): Blob {
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    push(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      push('stream\n');
+      push(stream);
+      push('\nendstream\n');
+    }
+    push('endobj\n');
+  };
+
+  // 1: catalog, 2: page tree, 3: font, then page, content and image per page
+  const pageIds = pages.map((_, i) => 4 + i * 3);
+  push('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+
+  pages.forEach((page, i) => {
+    const pageId = pageIds[i];
+    const { x, y, width, height } = page.placement;
+    const content = encoder.encode([
+      `q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(y)} cm /Im0 Do Q`,
+      page.caption ? `BT /F1 8 Tf 0.4 g ${num(x)} ${num(Math.max(12, y - 16))} Td ${pdfString(page.caption)} Tj ET` : '',
+    ].join('\n'));
+
+    object(pageId, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+      `/Resources << /Font << /F1 3 0 R >> /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`);
+    object(pageId + 1, `<< /Length ${content.length} >>`, content);
+    object(pageId + 2, `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`, page.jpeg);
+  });
+
+  const xrefOffset = length;
+  const objectCount = 4 + pages.length * 3;
+  push(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  push(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+}
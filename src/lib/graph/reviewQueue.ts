@@ -0,0 +1,234 @@
+// Review queue for AI-proposed skills, merges and edges before they enter the graph
+
+import type { GraphEdge, GraphNode, IPAStep, KnowledgeGraph } from '@/types/graph';
+import { getSemanticEquivalenceReason, mergeGraphs } from './mergeGraphs';
+import { remapSkillConfidence } from './confidence';
+import type { StoredQuestionPath } from './saveDelta';
+
+export type ReviewDecision = 'pending' | 'accepted' | 'rejected' | 'renamed';
+
+interface ReviewItemBase {
+  key: string;
+  decision: ReviewDecision;
+  renameTo?: string;           // New skill name when decision is 'renamed'
+}
+
+// A skill with no counterpart in the graph
+export interface SkillReviewItem extends ReviewItemBase {
+  kind: 'skill';
+  node: GraphNode;
+}
+
+// A skill that would be folded into an existing one. Accept merges it,
+// rename keeps it as a separate skill under the new name.
+export interface MergeReviewItem extends ReviewItemBase {
+  kind: 'merge';
+  node: GraphNode;
+  target: GraphNode;
+  reason: string;
+}
+
+// A prerequisite edge not yet in the graph
+export interface EdgeReviewItem extends ReviewItemBase {
+  kind: 'edge';
+  edge: GraphEdge;
+}
+
+export type ReviewItem = SkillReviewItem | MergeReviewItem | EdgeReviewItem;
+
+const EMPTY_GRAPH: KnowledgeGraph = { globalNodes: [], edges: [], courses: {}, questionPaths: {} };
+
+const edgeKey = (from: string, to: string) => `${from}:${to}`;
+
+/**
+ * List what a generation run would add to `base`: new skills, semantic merges
+ * into existing skills, and new edges. Skills whose id already exists are
+ * not listed; their question links are merged on apply.
+ */
+export function buildReviewQueue(base: KnowledgeGraph | null, proposed: KnowledgeGraph): ReviewItem[] {
+  const baseNodes = base?.globalNodes || [];
+  const baseIds = new Set(baseNodes.map(n => n.id));
+  const items: ReviewItem[] = [];
+  const mergeTargets = new Map<string, string>();
+
+  for (const node of proposed.globalNodes) {
+    if (baseIds.has(node.id)) continue;
+
+    let match: { target: GraphNode; reason: string } | null = null;
+    for (const candidate of baseNodes) {
+      const reason = getSemanticEquivalenceReason(candidate, node);
+      if (reason) {
+        match = { target: candidate, reason };
+        break;
+      }
+    }
+
+    if (match) {
+      mergeTargets.set(node.id, match.target.id);
+      items.push({ kind: 'merge', key: `merge:${node.id}`, node, target: match.target, reason: match.reason, decision: 'pending' });
+    } else {
+      items.push({ kind: 'skill', key: `skill:${node.id}`, node, decision: 'pending' });
+    }
+  }
+
+  // Edges are compared after applying the proposed merges
+  const baseEdges = new Set((base?.edges || []).map(e => edgeKey(e.from, e.to)));
+  const listed = new Set<string>();
+  for (const edge of proposed.edges) {
+    const from = mergeTargets.get(edge.from) || edge.from;
+    const to = mergeTargets.get(edge.to) || edge.to;
+    const key = edgeKey(edge.from, edge.to);
+    if (from === to || baseEdges.has(edgeKey(from, to)) || baseEdges.has(edgeKey(to, from)) || listed.has(key)) continue;
+    listed.add(key);
+    items.push({ kind: 'edge', key: `edge:${key}`, edge, decision: 'pending' });
+  }
+
+  return items;
+}
+
+/**
+ * Whether an edge item can still be applied given the current skill decisions.
+ * Edges touching a rejected or undecided skill are dropped regardless of their own decision.
+ */
+export function isEdgeApplicable(item: EdgeReviewItem, items: ReviewItem[]): boolean {
+  const rejected = new Set(
+    items
+      .filter((i): i is SkillReviewItem | MergeReviewItem => i.kind !== 'edge')
+      .filter(i => i.decision === 'rejected' || i.decision === 'pending')
+      .map(i => i.node.id)
+  );
+  return !rejected.has(item.edge.from) && !rejected.has(item.edge.to);
+}
+
+/**
+ * Re-key per-skill question weights after skill ids were merged or dropped.
+ * When two skills fold into one, their weights add up.
+ */
+function remapSkillWeights(
+  weights: Record<string, number>,
+  mapId: (id: string) => string | null
+): Record<string, number> {
+  const remapped: Record<string, number> = {};
+  for (const [skillId, weight] of Object.entries(weights)) {
+    const id = mapId(skillId);
+    if (id) remapped[id] = (remapped[id] ?? 0) + weight;
+  }
+  return remapped;
+}
+
+function remapPath(path: StoredQuestionPath | string[], mapId: (id: string) => string | null): StoredQuestionPath | string[] {
+  const remap = (ids: string[] = []) => [...new Set(ids.map(mapId).filter((id): id is string => !!id))];
+  if (Array.isArray(path)) return remap(path);
+  const { primarySkill, ...rest } = path;
+  const primary = primarySkill ? mapId(primarySkill) : null;
+  return {
+    ...rest,
+    requiredNodes: remap(path.requiredNodes),
+    executionOrder: remap(path.executionOrder),
+    skillConfidence: remapSkillConfidence(path.skillConfidence, mapId),
+    ...(path.primarySkills && { primarySkills: remap(path.primarySkills) }),
+    ...(primary && { primarySkill: primary }),
+    ...(path.skillWeights && { skillWeights: remapSkillWeights(path.skillWeights, mapId) }),
+  };
+}
+
+/**
+ * Build the graph that results from committing only the accepted (or renamed)
+ * items of the queue on top of `base`.
+ */
+export function applyReviewDecisions(
+  base: KnowledgeGraph | null,
+  proposed: KnowledgeGraph,
+  items: ReviewItem[]
+): KnowledgeGraph {
+  const knownIds = new Set([...(base?.globalNodes || []), ...proposed.globalNodes].map(n => n.id));
+  const idMap = new Map<string, string | null>();   // proposed id → committed id (null = dropped)
+  const renames = new Map<string, string>();
+
+  for (const item of items) {
+    if (item.kind === 'edge') continue;
+    const id = item.node.id;
+    if (item.decision === 'accepted') {
+      idMap.set(id, item.kind === 'merge' ? item.target.id : id);
+    } else if (item.decision === 'renamed' && item.renameTo?.trim()) {
+      idMap.set(id, id);
+      renames.set(id, item.renameTo.trim());
+    } else {
+      idMap.set(id, null);
+    }
+  }
+
+  const mapId = (id: string): string | null => {
+    if (idMap.has(id)) return idMap.get(id)!;
+    return knownIds.has(id) ? id : null;
+  };
+
+  // Nodes: new and renamed skills are added; merged ones contribute their question links
+  const nodes: GraphNode[] = [];
+  const mergedQuestions = new Map<string, string[]>();
+  for (const node of proposed.globalNodes) {
+    const target = mapId(node.id);
+    if (!target) continue;
+    if (target === node.id) {
+      nodes.push(renames.has(node.id) ? { ...node, name: renames.get(node.id)! } : node);
+    } else {
+      const questions = mergedQuestions.get(target) || [];
+      mergedQuestions.set(target, [...questions, ...(node.knowledgePoint?.appearsInQuestions || [])]);
+    }
+  }
+  for (const [targetId, questions] of mergedQuestions) {
+    const target = base?.globalNodes.find(n => n.id === targetId);
+    if (!target) continue;
+    nodes.push({
+      ...target,
+      knowledgePoint: {
+        ...target.knowledgePoint,
+        appearsInQuestions: [...new Set([...(target.knowledgePoint?.appearsInQuestions || []), ...questions])],
+      },
+    });
+  }
+
+  // Edges: only accepted ones whose endpoints survived
+  const edgeItems = items.filter((i): i is EdgeReviewItem => i.kind === 'edge');
+  const listedEdges = new Set(edgeItems.map(i => edgeKey(i.edge.from, i.edge.to)));
+  const acceptedEdges = new Set(
+    edgeItems.filter(i => i.decision === 'accepted').map(i => edgeKey(i.edge.from, i.edge.to))
+  );
+  const edges: GraphEdge[] = [];
+  for (const edge of proposed.edges) {
+    const from = mapId(edge.from);
+    const to = mapId(edge.to);
+    if (!from || !to || from === to) continue;
+    const key = edgeKey(edge.from, edge.to);
+    if (listedEdges.has(key) && !acceptedEdges.has(key)) continue;
+    edges.push({ ...edge, from, to });
+  }
+
+  const questionPaths: KnowledgeGraph['questionPaths'] = {};
+  for (const [question, path] of Object.entries(proposed.questionPaths || {})) {
+    questionPaths[question] = remapPath(path, mapId);
+  }
+
+  // Trace steps keep their text; links to rejected skills are dropped
+  const ipaByQuestion: Record<string, IPAStep[]> = {};
+  for (const [question, steps] of Object.entries(proposed.ipaByQuestion || {})) {
+    ipaByQuestion[question] = steps.map(step => ({
+      ...step,
+      knowledgeItems: step.knowledgeItems
+        ?.map(item => ({ ...item, id: mapId(item.id) }))
+        .filter((item): item is typeof item & { id: string } => !!item.id),
+    }));
+  }
+
+  const courses: KnowledgeGraph['courses'] = {};
+  for (const [courseName, course] of Object.entries(proposed.courses || {})) {
+    const courseNodes = course.nodes
+      .map(n => ({ ...n, id: mapId(n.id) }))
+      .filter((n): n is { id: string; inCourse: boolean } => !!n.id);
+    courses[courseName] = { nodes: courseNodes };
+  }
+
+  // Reviewers already decided on merges, so near-duplicate folding stays off
+  const accepted: KnowledgeGraph = { globalNodes: nodes, edges, courses, questionPaths, ipaByQuestion, promptVersion: proposed.promptVersion };
+  return mergeGraphs([base || EMPTY_GRAPH, accepted], { semanticDedup: false });
+}
@@ -0,0 +1,193 @@
+// Row-level delta between the graph as last loaded/saved and the graph being saved
+
+import type { Json } from '@/integrations/supabase/types';
+import type { GraphEdge, GraphNode, KnowledgeGraph, QuestionPath } from '@/types/graph';
+
+// SQLSTATE raised by save_graph_delta when the graph was saved elsewhere since it was loaded
+export const GRAPH_CONFLICT_CODE = 'PT409';
+
+/**
+ * Whether a save failed because the graph was saved elsewhere since it was loaded
+ */
+export function isGraphConflict(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === GRAPH_CONFLICT_CODE;
+}
+
+export interface SkillRow {
+  skill_id: string;
+  name: string;
+  tier: string;
+  level: number;
+  description: string | null;
+  transferable_contexts: string[];
+}
+
+export interface EdgeRow {
+  from_skill: string;
+  to_skill: string;
+  relationship_type: string;
+  reason: string | null;
+  confidence: number | null;
+}
+
+export interface QuestionRow {
+  question_text: string;
+  skills: string[];
+  primary_skills: string[];
+  skill_weights: Record<string, number>;
+  skill_confidence: Record<string, number> | null;
+  test_cases: Json | null;
+  ipa_trace: Json | null;
+}
+
+// Rows keyed the way the database identifies them within a graph
+export interface GraphRows {
+  skills: Map<string, SkillRow>;
+  edges: Map<string, EdgeRow>;
+  questions: Map<string, QuestionRow>;
+}
+
+export interface SaveDelta {
+  upsertSkills: SkillRow[];
+  deleteSkills: string[];
+  upsertEdges: EdgeRow[];
+  deleteEdges: Array<{ from_skill: string; to_skill: string }>;
+  upsertQuestions: QuestionRow[];
+  deleteQuestions: string[];
+}
+
+// Question paths as stored by older graphs and by generation, beyond the typed fields
+export type StoredQuestionPath = QuestionPath & {
+  primarySkills?: string[];
+  primarySkill?: string;
+  skillWeights?: Record<string, number>;
+  testCases?: Json;
+};
+
+const edgeKey = (from: string, to: string) => `${from}:${to}`;
+
+function skillRow(node: GraphNode): SkillRow {
+  return {
+    skill_id: node.id,
+    name: node.name,
+    tier: node.tier || 'core',
+    level: node.level,
+    description: node.description || null,
+    transferable_contexts: node.transferableContexts || [],
+  };
+}
+
+function edgeRow(edge: GraphEdge): EdgeRow {
+  return {
+    from_skill: edge.from,
+    to_skill: edge.to,
+    relationship_type: edge.relationshipType || 'requires',
+    reason: edge.reason || null,
+    confidence: edge.confidence ?? null,
+  };
+}
+
+function questionRow(text: string, path: StoredQuestionPath | string[], ipaTrace: unknown): QuestionRow {
+  const skills = Array.isArray(path) ? path : path.requiredNodes || [];
+  // Handle both legacy single primarySkill and new primarySkills array
+  let primarySkills: string[] = [];
+  if (Array.isArray(path)) {
+    primarySkills = skills.length > 0 ? [skills[0]] : [];
+  } else if (Array.isArray(path.primarySkills)) {
+    primarySkills = path.primarySkills;
+  } else if (path.primarySkill) {
+    primarySkills = [path.primarySkill];
+  } else if (skills.length > 0) {
+    primarySkills = [skills[0]];
+  }
+  return {
+    question_text: text,
+    skills,
+    primary_skills: primarySkills.slice(0, 2), // Ensure max 2
+    skill_weights: (Array.isArray(path) ? undefined : path.skillWeights) || {},
+    skill_confidence: Array.isArray(path) ? null : path.skillConfidence ?? null,
+    test_cases: (Array.isArray(path) ? undefined : path.testCases) || null,
+    ipa_trace: (ipaTrace ?? null) as Json,
+  };
+}
+
+/**
+ * Project a graph onto the rows saveGraph writes for it
+ */
+export function graphToRows(graph: KnowledgeGraph): GraphRows {
+  const questionPaths = (graph.questionPaths || {}) as Record<string, StoredQuestionPath | string[]>;
+  return {
+    skills: new Map(graph.globalNodes.map(node => [node.id, skillRow(node)])),
+    edges: new Map(graph.edges.map(edge => [edgeKey(edge.from, edge.to), edgeRow(edge)])),
+    questions: new Map(
+      Object.entries(questionPaths).map(([text, path]) => [text, questionRow(text, path, graph.ipaByQuestion?.[text])])
+    ),
+  };
+}
+
+/**
+ * Base for a graph whose rows are known only by key: every row in the next
+ * save counts as changed, and keys missing from it are deleted.
+ */
+export function keysToRows(
+  skillIds: string[],
+  edges: Array<{ from_skill: string; to_skill: string }>,
+  questions: string[]
+): GraphRows {
+  return {
+    skills: new Map(skillIds.map(id => [id, { skill_id: id } as SkillRow])),
+    edges: new Map(edges.map(e => [edgeKey(e.from_skill, e.to_skill), { from_skill: e.from_skill, to_skill: e.to_skill } as EdgeRow])),
+    questions: new Map(questions.map(text => [text, { question_text: text } as QuestionRow])),
+  };
+}
+
+/**
+ * Base for a graph that has no rows yet
+ */
+export function emptyRows(): GraphRows {
+  return { skills: new Map(), edges: new Map(), questions: new Map() };
+}
+
+/**
+ * Keep the base edges/questions when the graph being saved has none of them
+ * but the database does, so a partially loaded graph can't wipe them
+ */
+export function keepRowsMissingFromGraph(base: GraphRows, next: GraphRows): GraphRows {
+  const kept = { ...next };
+  if (next.edges.size === 0 && base.edges.size > 0) {
+    console.warn(`[saveGraph] Refusing to delete ${base.edges.size} edges: DB has data but in-memory graph has 0`);
+    kept.edges = base.edges;
+  }
+  if (next.questions.size === 0 && base.questions.size > 0) {
+    console.warn(`[saveGraph] Refusing to delete ${base.questions.size} questions: DB has data but in-memory graph has 0`);
+    kept.questions = base.questions;
+  }
+  return kept;
+}
+
+function diffRows<T>(base: Map<string, T>, next: Map<string, T>): { upsert: T[]; deleted: T[] } {
+  const upsert: T[] = [];
+  for (const [key, row] of next) {
+    const previous = base.get(key);
+    if (!previous || JSON.stringify(previous) !== JSON.stringify(row)) upsert.push(row);
+  }
+  const deleted = [...base].filter(([key]) => !next.has(key)).map(([, row]) => row);
+  return { upsert, deleted };
+}
+
+/**
+ * Rows to upsert and keys to delete to turn `base` into `next`
+ */
+export function computeSaveDelta(base: GraphRows, next: GraphRows): SaveDelta {
+  const skills = diffRows(base.skills, next.skills);
+  const edges = diffRows(base.edges, next.edges);
+  const questions = diffRows(base.questions, next.questions);
+  return {
+    upsertSkills: skills.upsert,
+    deleteSkills: skills.deleted.map(row => row.skill_id),
+    upsertEdges: edges.upsert,
+    deleteEdges: edges.deleted.map(({ from_skill, to_skill }) => ({ from_skill, to_skill })),
+    upsertQuestions: questions.upsert,
+    deleteQuestions: questions.deleted.map(row => row.question_text),
+  };
+}
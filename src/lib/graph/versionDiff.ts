@@ -0,0 +1,97 @@
+// Structural diff between two saved versions of a knowledge graph
+
+import type { GraphEdge, GraphNode, KnowledgeGraph, QuestionPath } from '@/types/graph';
+
+export interface RenamedSkill {
+  id: string;
+  from: string;
+  to: string;
+}
+
+export interface ChangedEdge {
+  before: GraphEdge;
+  after: GraphEdge;
+}
+
+export interface QuestionRemap {
+  question: string;
+  addedSkills: string[];
+  removedSkills: string[];
+}
+
+export interface GraphVersionDiff {
+  addedSkills: GraphNode[];
+  removedSkills: GraphNode[];
+  renamedSkills: RenamedSkill[];
+  addedEdges: GraphEdge[];
+  removedEdges: GraphEdge[];
+  changedEdges: ChangedEdge[];        // Same endpoints, different relationship type
+  addedQuestions: string[];
+  removedQuestions: string[];
+  remappedQuestions: QuestionRemap[];
+}
+
+const edgeKey = (e: GraphEdge) => `${e.from}:${e.to}`;
+
+function requiredSkills(path: QuestionPath | string[] | undefined): string[] {
+  if (!path) return [];
+  return Array.isArray(path) ? path : path.requiredNodes || [];
+}
+
+/**
+ * Compare `before` with `after`. Skills are matched by id, so a changed name
+ * on the same id is a rename; edges are matched by endpoints.
+ */
+export function diffGraphVersions(before: KnowledgeGraph, after: KnowledgeGraph): GraphVersionDiff {
+  const beforeNodes = new Map(before.globalNodes.map(n => [n.id, n]));
+  const afterNodes = new Map(after.globalNodes.map(n => [n.id, n]));
+
+  const renamedSkills: RenamedSkill[] = [];
+  for (const [id, node] of afterNodes) {
+    const previous = beforeNodes.get(id);
+    if (previous && previous.name !== node.name) renamedSkills.push({ id, from: previous.name, to: node.name });
+  }
+
+  const beforeEdges = new Map(before.edges.map(e => [edgeKey(e), e]));
+  const afterEdges = new Map(after.edges.map(e => [edgeKey(e), e]));
+  const changedEdges: ChangedEdge[] = [];
+  for (const [key, edge] of afterEdges) {
+    const previous = beforeEdges.get(key);
+    if (previous && (previous.relationshipType || 'requires') !== (edge.relationshipType || 'requires')) {
+      changedEdges.push({ before: previous, after: edge });
+    }
+  }
+
+  const beforeQuestions = before.questionPaths || {};
+  const afterQuestions = after.questionPaths || {};
+  const remappedQuestions: QuestionRemap[] = [];
+  for (const [question, path] of Object.entries(afterQuestions)) {
+    if (!(question in beforeQuestions)) continue;
+    const was = new Set(requiredSkills(beforeQuestions[question]));
+    const now = new Set(requiredSkills(path));
+    const addedSkills = [...now].filter(id => !was.has(id));
+    const removedSkills = [...was].filter(id => !now.has(id));
+    if (addedSkills.length > 0 || removedSkills.length > 0) {
+      remappedQuestions.push({ question, addedSkills, removedSkills });
+    }
+  }
+
+  return {
+    addedSkills: after.globalNodes.filter(n => !beforeNodes.has(n.id)),
+    removedSkills: before.globalNodes.filter(n => !afterNodes.has(n.id)),
+    renamedSkills,
+    addedEdges: after.edges.filter(e => !beforeEdges.has(edgeKey(e))),
+    removedEdges: before.edges.filter(e => !afterEdges.has(edgeKey(e))),
+    changedEdges,
+    addedQuestions: Object.keys(afterQuestions).filter(q => !(q in beforeQuestions)),
+    removedQuestions: Object.keys(beforeQuestions).filter(q => !(q in afterQuestions)),
+    remappedQuestions,
+  };
+}
+
+/**
+ * Whether the two versions are structurally identical
+ */
+export function isEmptyDiff(diff: GraphVersionDiff): boolean {
+  return Object.values(diff).every(list => list.length === 0);
+}
@@ -0,0 +1,97 @@
+// Graphviz DOT export: topics and subtopics become nested clusters, questions
+// are note-shaped nodes with numbered dotted links to the skills they use
+
+import type { GraphEdge, GraphNode } from '@/types/graph';
+import type { SkillSubtopic, SkillTopic } from '@/types/grouping';
+import { groupingTree, questionRecords, TIER_COLORS, type GraphDocument, type SubtopicBranch } from './model';
+
+const EDGE_STYLES: Record<NonNullable<GraphEdge['relationshipType']>, string> = {
+  requires: 'solid',
+  builds_on: 'dashed',
+  extends: 'bold',
+};
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function attrs(values: Record<string, string | number | undefined>): string {
+  const parts = Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${typeof value === 'number' ? value : quote(value)}`);
+  return parts.length > 0 ? ` [${parts.join(', ')}]` : '';
+}
+
+/**
+ * Serialize a graph as a Graphviz digraph. Tier, level and relationship type are
+ * kept as custom attributes besides driving the styling.
+ */
+export function graphToDot(doc: GraphDocument): string {
+  const { graph, grouping } = doc;
+  const tree = groupingTree(graph.globalNodes, grouping);
+  const lines: string[] = [
+    `digraph ${quote(doc.name)} {`,
+    `  graph${attrs({ label: doc.description || doc.name, labelloc: 't', rankdir: 'LR', compound: 'true' })};`,
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+
+  const skillNode = (node: GraphNode, indent: string) => {
+    const tier = node.tier || 'core';
+    lines.push(`${indent}${quote(node.id)}${attrs({
+      label: `${node.name}\nL${node.level} · ${tier}`,
+      tooltip: node.description,
+      fillcolor: TIER_COLORS[tier],
+      tier,
+      level: node.level,
+    })};`);
+  };
+
+  const cluster = (kind: 'topic' | 'subtopic', group: SkillTopic | SkillSubtopic, indent: string, children: (indent: string) => void) => {
+    lines.push(`${indent}subgraph ${quote(`cluster_${kind}_${group.id}`)} {`);
+    lines.push(`${indent}  graph${attrs({ label: group.name, color: group.color, style: kind === 'topic' ? 'bold' : 'rounded', kind })};`);
+    children(`${indent}  `);
+    lines.push(`${indent}}`);
+  };
+
+  const subtopicCluster = (branch: SubtopicBranch, indent: string) =>
+    cluster('subtopic', branch.subtopic, indent, inner => branch.skills.forEach(n => skillNode(n, inner)));
+
+  tree.topics.forEach(({ topic, subtopics }) => cluster('topic', topic, '  ', inner => subtopics.forEach(b => subtopicCluster(b, inner))));
+  tree.subtopics.forEach(b => subtopicCluster(b, '  '));
+  tree.skills.forEach(n => skillNode(n, '  '));
+
+  for (const edge of graph.edges) {
+    const relationshipType = edge.relationshipType || 'requires';
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${attrs({
+      style: EDGE_STYLES[relationshipType],
+      tooltip: edge.reason,
+      relationshipType,
+      confidence: edge.confidence,
+    })};`);
+  }
+
+  const questions = questionRecords(graph);
+  if (questions.length > 0) {
+    lines.push('  subgraph "cluster_questions" {');
+    lines.push('    graph [label="Questions", style=dashed, color="#94a3b8"];');
+    questions.forEach((q, i) => {
+      lines.push(`    ${quote(`question:${i + 1}`)}${attrs({ label: q.text, shape: 'note', fillcolor: '#f8fafc', validationStatus: q.validationStatus })};`);
+    });
+    lines.push('  }');
+    questions.forEach((q, i) => {
+      for (const skillId of q.requiredNodes) {
+        const position = q.executionOrder.indexOf(skillId);
+        lines.push(`  ${quote(`question:${i + 1}`)} -> ${quote(skillId)}${attrs({
+          style: 'dotted',
+          arrowhead: 'none',
+          color: '#94a3b8',
+          label: position >= 0 ? String(position + 1) : undefined,
+        })};`);
+      }
+    });
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
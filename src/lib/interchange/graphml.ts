@@ -0,0 +1,303 @@
+// GraphML export and import. Topics and subtopics are nested graphs (shown as
+// groups in yEd); questions are nodes linked to their skills by "assesses" edges.
+
+import type { GraphEdge, GraphNode, SkillTier } from '@/types/graph';
+import type { GroupingSnapshot, SkillSubtopic, SkillTopic } from '@/types/grouping';
+import {
+  buildGraph,
+  createGraphNode,
+  groupingTree,
+  questionRecords,
+  RELATIONSHIP_TYPES,
+  SKILL_TIERS,
+  type GraphDocument,
+  type QuestionRecord,
+  type SubtopicBranch,
+} from './model';
+
+interface KeyDef {
+  id: string;
+  for: 'graph' | 'node' | 'edge';
+  name: string;
+  type: 'string' | 'int' | 'double' | 'boolean';
+}
+
+const KEYS: KeyDef[] = [
+  { id: 'g_name', for: 'graph', name: 'name', type: 'string' },
+  { id: 'g_description', for: 'graph', name: 'description', type: 'string' },
+  { id: 'g_promptVersion', for: 'graph', name: 'promptVersion', type: 'string' },
+  { id: 'n_kind', for: 'node', name: 'kind', type: 'string' },             // skill | topic | subtopic | question
+  { id: 'n_label', for: 'node', name: 'label', type: 'string' },
+  { id: 'n_description', for: 'node', name: 'description', type: 'string' },
+  { id: 'n_tier', for: 'node', name: 'tier', type: 'string' },
+  { id: 'n_level', for: 'node', name: 'level', type: 'int' },
+  { id: 'n_transferableContexts', for: 'node', name: 'transferableContexts', type: 'string' }, // JSON array
+  { id: 'n_topic', for: 'node', name: 'topic', type: 'string' },
+  { id: 'n_subtopic', for: 'node', name: 'subtopic', type: 'string' },
+  { id: 'n_color', for: 'node', name: 'color', type: 'string' },
+  { id: 'n_displayOrder', for: 'node', name: 'displayOrder', type: 'int' },
+  { id: 'n_validationStatus', for: 'node', name: 'validationStatus', type: 'string' },
+  { id: 'e_kind', for: 'edge', name: 'kind', type: 'string' },             // prerequisite | assesses
+  { id: 'e_relationshipType', for: 'edge', name: 'relationshipType', type: 'string' },
+  { id: 'e_reason', for: 'edge', name: 'reason', type: 'string' },
+  { id: 'e_confidence', for: 'edge', name: 'confidence', type: 'double' },
+  { id: 'e_position', for: 'edge', name: 'position', type: 'int' },        // Step in the question's execution order
+  { id: 'e_primary', for: 'edge', name: 'primary', type: 'boolean' },
+  { id: 'e_weight', for: 'edge', name: 'weight', type: 'double' },
+];
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function dataLines(prefix: 'g' | 'n' | 'e', values: Record<string, string | number | boolean | null | undefined>, indent: string): string[] {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([name, value]) => `${indent}<data key="${prefix}_${name}">${escapeXml(String(value))}</data>`);
+}
+
+/**
+ * Serialize a graph, its groupings and question paths as GraphML
+ */
+export function graphToGraphML(doc: GraphDocument): string {
+  const { graph, grouping } = doc;
+  const tree = groupingTree(graph.globalNodes, grouping);
+  const topicNames = new Map(grouping.topics.map(t => [t.id, t.name]));
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...KEYS.map(k => `  <key id="${k.id}" for="${k.for}" attr.name="${k.name}" attr.type="${k.type}"/>`),
+    '  <graph id="G" edgedefault="directed">',
+    ...dataLines('g', { name: doc.name, description: doc.description, promptVersion: graph.promptVersion }, '    '),
+  ];
+
+  const skillNode = (node: GraphNode, indent: string, subtopic?: SkillSubtopic) => {
+    lines.push(`${indent}<node id="${escapeXml(node.id)}">`);
+    lines.push(...dataLines('n', {
+      kind: 'skill',
+      label: node.name,
+      description: node.description,
+      tier: node.tier,
+      level: node.level,
+      transferableContexts: node.transferableContexts?.length ? JSON.stringify(node.transferableContexts) : undefined,
+      // Flat copies of the grouping, for partitioning in tools that ignore nesting
+      subtopic: subtopic?.name,
+      topic: subtopic?.topicId ? topicNames.get(subtopic.topicId) : undefined,
+    }, `${indent}  `));
+    lines.push(`${indent}</node>`);
+  };
+
+  const groupNode = (
+    kind: 'topic' | 'subtopic',
+    group: SkillTopic | SkillSubtopic,
+    indent: string,
+    children: (indent: string) => void
+  ) => {
+    const id = `${kind}:${group.id}`;
+    lines.push(`${indent}<node id="${escapeXml(id)}">`);
+    lines.push(...dataLines('n', { kind, label: group.name, color: group.color, displayOrder: group.displayOrder }, `${indent}  `));
+    lines.push(`${indent}  <graph id="${escapeXml(id)}:" edgedefault="directed">`);
+    children(`${indent}    `);
+    lines.push(`${indent}  </graph>`);
+    lines.push(`${indent}</node>`);
+  };
+
+  const subtopicNode = (branch: SubtopicBranch, indent: string) =>
+    groupNode('subtopic', branch.subtopic, indent, inner => branch.skills.forEach(n => skillNode(n, inner, branch.subtopic)));
+
+  tree.topics.forEach(({ topic, subtopics }) =>
+    groupNode('topic', topic, '    ', inner => subtopics.forEach(b => subtopicNode(b, inner)))
+  );
+  tree.subtopics.forEach(b => subtopicNode(b, '    '));
+  tree.skills.forEach(n => skillNode(n, '    '));
+
+  const questions = questionRecords(graph);
+  questions.forEach((q, i) => {
+    lines.push(`    <node id="question:${i + 1}">`);
+    lines.push(...dataLines('n', { kind: 'question', label: q.text, validationStatus: q.validationStatus }, '      '));
+    lines.push('    </node>');
+  });
+
+  let edgeIndex = 0;
+  for (const edge of graph.edges) {
+    lines.push(`    <edge id="e${++edgeIndex}" source="${escapeXml(edge.from)}" target="${escapeXml(edge.to)}">`);
+    lines.push(...dataLines('e', {
+      kind: 'prerequisite',
+      relationshipType: edge.relationshipType || 'requires',
+      reason: edge.reason,
+      confidence: edge.confidence,
+    }, '      '));
+    lines.push('    </edge>');
+  }
+
+  questions.forEach((q, i) => {
+    for (const skillId of q.requiredNodes) {
+      const position = q.executionOrder.indexOf(skillId);
+      lines.push(`    <edge id="e${++edgeIndex}" source="question:${i + 1}" target="${escapeXml(skillId)}">`);
+      lines.push(...dataLines('e', {
+        kind: 'assesses',
+        position: position >= 0 ? position + 1 : undefined,
+        primary: q.primarySkills.includes(skillId) || undefined,
+        weight: q.skillWeights[skillId],
+        confidence: q.skillConfidence?.[skillId],
+      }, '      '));
+      lines.push('    </edge>');
+    }
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+}
+
+function childElements(el: Element, localName: string): Element[] {
+  return Array.from(el.children).filter(child => child.localName === localName);
+}
+
+/**
+ * Read a GraphML document written by graphToGraphML. Files from other tools
+ * load too: nodes without a kind are skills and edges between them prerequisites.
+ */
+export function parseGraphML(xml: string): GraphDocument {
+  const dom = new DOMParser().parseFromString(xml, 'application/xml');
+  if (dom.getElementsByTagName('parsererror').length > 0) throw new Error('The file is not valid XML');
+  const root = dom.documentElement;
+  if (root.localName !== 'graphml') throw new Error('The file is not a GraphML document');
+  const graphEl = childElements(root, 'graph')[0];
+  if (!graphEl) throw new Error('The GraphML document has no graph');
+
+  // Data is read by attribute name, so key ids from other tools work too
+  const keyNames = new Map<string, string>();
+  for (const key of childElements(root, 'key')) {
+    keyNames.set(key.getAttribute('id') || '', key.getAttribute('attr.name') || key.getAttribute('id') || '');
+  }
+  const dataOf = (el: Element): Record<string, string> => {
+    const data: Record<string, string> = {};
+    for (const d of childElements(el, 'data')) {
+      const key = d.getAttribute('key') || '';
+      data[keyNames.get(key) ?? key] = d.textContent ?? '';
+    }
+    return data;
+  };
+  const number = (value: string | undefined) => (value === undefined || value === '' ? undefined : Number(value));
+
+  const graphData = dataOf(graphEl);
+  const nodes: GraphNode[] = [];
+  const topics: SkillTopic[] = [];
+  const subtopics: SkillSubtopic[] = [];
+  const skillSubtopics: Record<string, string> = {};
+  const questionText = new Map<string, string>();
+  const questionStatus = new Map<string, QuestionRecord['validationStatus']>();
+
+  // Group node ids are written as `topic:<id>` / `subtopic:<id>` so they can't clash with skill ids
+  const groupId = (id: string, kind: 'topic' | 'subtopic') => (id.startsWith(`${kind}:`) ? id.slice(kind.length + 1) : id);
+
+  // The group node an element is nested in, if any
+  const parentGroup = (el: Element): Element | null => {
+    const parent = el.parentElement?.parentElement;
+    return parent && parent.localName === 'node' ? parent : null;
+  };
+
+  for (const el of Array.from(graphEl.getElementsByTagName('*')).filter(e => e.localName === 'node')) {
+    const id = el.getAttribute('id') || '';
+    const data = dataOf(el);
+    const kind = data.kind || (childElements(el, 'graph').length > 0 ? 'subtopic' : 'skill');
+    const parent = parentGroup(el);
+    const parentId = parent?.getAttribute('id') || null;
+
+    if (kind === 'topic' || kind === 'subtopic') {
+      const group = {
+        id: groupId(id, kind),
+        graphId: '',
+        name: data.label || id,
+        color: data.color || '#94a3b8',
+        displayOrder: number(data.displayOrder) ?? (kind === 'topic' ? topics.length : subtopics.length),
+      };
+      if (kind === 'topic') topics.push(group);
+      else subtopics.push({ ...group, topicId: parentId && groupId(parentId, 'topic') });
+    } else if (kind === 'question') {
+      questionText.set(id, data.label || id);
+      questionStatus.set(id, (data.validationStatus as QuestionRecord['validationStatus']) || 'valid');
+    } else {
+      let transferableContexts: string[] = [];
+      try {
+        transferableContexts = data.transferableContexts ? JSON.parse(data.transferableContexts) : [];
+      } catch {
+        transferableContexts = [];
+      }
+      nodes.push(createGraphNode({
+        id,
+        name: data.label || id,
+        level: number(data.level) ?? 0,
+        description: data.description || undefined,
+        tier: SKILL_TIERS.includes(data.tier as SkillTier) ? (data.tier as SkillTier) : 'core',
+        transferableContexts,
+      }));
+      if (parentId) skillSubtopics[id] = groupId(parentId, 'subtopic');
+    }
+  }
+
+  const skillIds = new Set(nodes.map(n => n.id));
+  const edges: GraphEdge[] = [];
+  const questionSteps = new Map<string, Array<{ skillId: string; position?: number; primary: boolean; weight?: number; confidence?: number }>>();
+
+  for (const el of Array.from(graphEl.getElementsByTagName('*')).filter(e => e.localName === 'edge')) {
+    const source = el.getAttribute('source') || '';
+    const target = el.getAttribute('target') || '';
+    const data = dataOf(el);
+
+    if (questionText.has(source) && skillIds.has(target)) {
+      if (!questionSteps.has(source)) questionSteps.set(source, []);
+      questionSteps.get(source)!.push({
+        skillId: target,
+        position: number(data.position),
+        primary: data.primary === 'true',
+        weight: number(data.weight),
+        confidence: number(data.confidence),
+      });
+    } else if (skillIds.has(source) && skillIds.has(target)) {
+      const relationshipType = RELATIONSHIP_TYPES.find(t => t === data.relationshipType) ?? 'requires';
+      const confidence = number(data.confidence);
+      edges.push({
+        from: source,
+        to: target,
+        reason: data.reason || '',
+        relationshipType,
+        ...(confidence !== undefined && { confidence }),
+      });
+    }
+  }
+
+  const questions: QuestionRecord[] = [...questionText].map(([id, text]) => {
+    const steps = questionSteps.get(id) || [];
+    const ordered = steps.filter(s => s.position !== undefined).sort((a, b) => a.position! - b.position!);
+    const confidence = steps.filter(s => s.confidence !== undefined);
+    return {
+      text,
+      validationStatus: questionStatus.get(id) || 'valid',
+      requiredNodes: steps.map(s => s.skillId),
+      executionOrder: ordered.length > 0 ? ordered.map(s => s.skillId) : steps.map(s => s.skillId),
+      primarySkills: steps.filter(s => s.primary).map(s => s.skillId),
+      skillWeights: Object.fromEntries(steps.filter(s => s.weight !== undefined).map(s => [s.skillId, s.weight!])),
+      ...(confidence.length > 0 && { skillConfidence: Object.fromEntries(confidence.map(s => [s.skillId, s.confidence!])) }),
+    };
+  });
+
+  const grouping: GroupingSnapshot = {
+    topics,
+    // Subtopics nested in something other than a topic are treated as top-level
+    subtopics: subtopics.map(st => ({ ...st, topicId: topics.some(t => t.id === st.topicId) ? st.topicId : null })),
+    skillSubtopics: Object.fromEntries(Object.entries(skillSubtopics).filter(([, st]) => subtopics.some(s => s.id === st))),
+  };
+
+  return {
+    name: graphData.name || 'Imported graph',
+    description: graphData.description || null,
+    graph: buildGraph(nodes, edges, questions, graphData.promptVersion || undefined),
+    grouping,
+  };
+}
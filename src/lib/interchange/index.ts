@@ -0,0 +1,37 @@
+// Graph export and import in standard interchange formats
+
+import { graphToDot } from './dot';
+import { graphToGraphML, parseGraphML } from './graphml';
+import { graphToJsonLd, parseJsonLd } from './jsonld';
+import { graphToMermaid } from './mermaid';
+import type { GraphDocument, GraphExportFormat } from './model';
+
+export * from './model';
+export * from './graphml';
+export * from './dot';
+export * from './mermaid';
+export * from './jsonld';
+
+export const IMPORT_FILE_TYPES = '.graphml,.xml,.jsonld,.json';
+
+/**
+ * Serialize a graph in the given export format
+ */
+export function serializeGraph(doc: GraphDocument, format: GraphExportFormat): string {
+  switch (format) {
+    case 'graphml': return graphToGraphML(doc);
+    case 'dot': return graphToDot(doc);
+    case 'mermaid': return graphToMermaid(doc);
+    case 'jsonld': return graphToJsonLd(doc);
+  }
+}
+
+/**
+ * Parse an imported GraphML or JSON-LD file, detected from its content
+ */
+export function parseGraphFile(text: string, filename: string): GraphDocument {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('<')) return parseGraphML(text);
+  if (trimmed.startsWith('{')) return parseJsonLd(text);
+  throw new Error(`${filename} is not a GraphML or JSON-LD file`);
+}
@@ -0,0 +1,253 @@
+// JSON-LD export and import.
+//
+// Schema (vocabulary urn:knowledge-graph:v1#, name/description from schema.org):
+//
+//   KnowledgeGraph  name, description?, promptVersion?, topics[], subtopics[], skills[], edges[], questions[]
+//   Topic           @id topic:<id>, name, color, displayOrder
+//   Subtopic        @id subtopic:<id>, name, color, displayOrder, inTopic? (Topic @id)
+//   Skill           @id skill:<id>, name, description?, level, tier, transferableContexts[], inSubtopic? (Subtopic @id)
+//   Prerequisite    from, to (Skill @id), relationshipType (requires | builds_on | extends), reason, confidence?
+//   Question        text, validationStatus, requiredSkills (ordered list), executionOrder (ordered list),
+//                   primarySkills[], skillWeights [{ forSkill, weight }], skillConfidence? [{ forSkill, confidence }]
+//
+// Prerequisite edges point from the prerequisite to the skill that needs it.
+
+import type { GraphEdge, SkillTier } from '@/types/graph';
+import type { GroupingSnapshot } from '@/types/grouping';
+import {
+  buildGraph,
+  createGraphNode,
+  questionRecords,
+  RELATIONSHIP_TYPES,
+  SKILL_TIERS,
+  type GraphDocument,
+  type QuestionRecord,
+} from './model';
+
+const VOCAB = 'urn:knowledge-graph:v1#';
+
+export const JSONLD_CONTEXT = {
+  '@vocab': VOCAB,
+  schema: 'https://schema.org/',
+  skill: 'urn:knowledge-graph:skill:',
+  topic: 'urn:knowledge-graph:topic:',
+  subtopic: 'urn:knowledge-graph:subtopic:',
+  name: 'schema:name',
+  description: 'schema:description',
+  text: 'schema:text',
+  inTopic: { '@type': '@id' },
+  inSubtopic: { '@type': '@id' },
+  from: { '@type': '@id' },
+  to: { '@type': '@id' },
+  forSkill: { '@type': '@id' },
+  requiredSkills: { '@type': '@id', '@container': '@list' },
+  executionOrder: { '@type': '@id', '@container': '@list' },
+  primarySkills: { '@type': '@id' },
+} as const;
+
+interface JsonLdGroup {
+  '@id': string;
+  name: string;
+  color?: string;
+  displayOrder?: number;
+  inTopic?: string;
+}
+
+interface JsonLdSkill {
+  '@id': string;
+  name: string;
+  description?: string;
+  level?: number;
+  tier?: string;
+  transferableContexts?: string[];
+  inSubtopic?: string;
+}
+
+interface JsonLdEdge {
+  from: string;
+  to: string;
+  relationshipType?: string;
+  reason?: string;
+  confidence?: number;
+}
+
+interface JsonLdQuestion {
+  text: string;
+  validationStatus?: string;
+  requiredSkills?: string[];
+  executionOrder?: string[];
+  primarySkills?: string[];
+  skillWeights?: Array<{ forSkill: string; weight: number }>;
+  skillConfidence?: Array<{ forSkill: string; confidence: number }>;
+}
+
+interface JsonLdGraph {
+  '@context'?: unknown;
+  '@type'?: string;
+  name?: string;
+  description?: string;
+  promptVersion?: string;
+  topics?: JsonLdGroup[];
+  subtopics?: JsonLdGroup[];
+  skills?: JsonLdSkill[];
+  edges?: JsonLdEdge[];
+  questions?: JsonLdQuestion[];
+}
+
+const skillIri = (id: string) => `skill:${id}`;
+
+// Accept both compact (skill:x) and expanded (urn:knowledge-graph:skill:x) ids
+function localId(iri: string, prefix: 'skill' | 'topic' | 'subtopic'): string {
+  for (const p of [`${prefix}:`, `urn:knowledge-graph:${prefix}:`]) {
+    if (iri.startsWith(p)) return iri.slice(p.length);
+  }
+  return iri;
+}
+
+/**
+ * Serialize a graph as a JSON-LD document following the schema above
+ */
+export function graphToJsonLd(doc: GraphDocument): string {
+  const { graph, grouping } = doc;
+  const document: JsonLdGraph = {
+    '@context': JSONLD_CONTEXT,
+    '@type': 'KnowledgeGraph',
+    name: doc.name,
+    ...(doc.description && { description: doc.description }),
+    ...(graph.promptVersion && { promptVersion: graph.promptVersion }),
+    topics: grouping.topics.map(t => ({
+      '@id': `topic:${t.id}`,
+      '@type': 'Topic',
+      name: t.name,
+      color: t.color,
+      displayOrder: t.displayOrder,
+    })),
+    subtopics: grouping.subtopics.map(st => ({
+      '@id': `subtopic:${st.id}`,
+      '@type': 'Subtopic',
+      name: st.name,
+      color: st.color,
+      displayOrder: st.displayOrder,
+      ...(st.topicId && { inTopic: `topic:${st.topicId}` }),
+    })),
+    skills: graph.globalNodes.map(n => ({
+      '@id': skillIri(n.id),
+      '@type': 'Skill',
+      name: n.name,
+      ...(n.description && { description: n.description }),
+      level: n.level,
+      tier: n.tier || 'core',
+      transferableContexts: n.transferableContexts || [],
+      ...(grouping.skillSubtopics[n.id] && { inSubtopic: `subtopic:${grouping.skillSubtopics[n.id]}` }),
+    })),
+    edges: graph.edges.map(e => ({
+      '@type': 'Prerequisite',
+      from: skillIri(e.from),
+      to: skillIri(e.to),
+      relationshipType: e.relationshipType || 'requires',
+      reason: e.reason,
+      ...(e.confidence !== undefined && { confidence: e.confidence }),
+    })),
+    questions: questionRecords(graph).map(q => ({
+      '@type': 'Question',
+      text: q.text,
+      validationStatus: q.validationStatus,
+      requiredSkills: q.requiredNodes.map(skillIri),
+      executionOrder: q.executionOrder.map(skillIri),
+      primarySkills: q.primarySkills.map(skillIri),
+      skillWeights: Object.entries(q.skillWeights).map(([id, weight]) => ({ forSkill: skillIri(id), weight })),
+      ...(q.skillConfidence && {
+        skillConfidence: Object.entries(q.skillConfidence).map(([id, confidence]) => ({ forSkill: skillIri(id), confidence })),
+      }),
+    })),
+  };
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * Read a JSON-LD document written by graphToJsonLd
+ */
+export function parseJsonLd(text: string): GraphDocument {
+  let document: JsonLdGraph;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!document || typeof document !== 'object' || !Array.isArray(document.skills)) {
+    throw new Error('The file is not a knowledge graph JSON-LD document');
+  }
+
+  const topics = (document.topics || []).map((t, i) => ({
+    id: localId(t['@id'], 'topic'),
+    graphId: '',
+    name: t.name,
+    color: t.color || '#94a3b8',
+    displayOrder: t.displayOrder ?? i,
+  }));
+  const topicIds = new Set(topics.map(t => t.id));
+  const subtopics = (document.subtopics || []).map((st, i) => {
+    const topicId = st.inTopic ? localId(st.inTopic, 'topic') : null;
+    return {
+      id: localId(st['@id'], 'subtopic'),
+      graphId: '',
+      topicId: topicId && topicIds.has(topicId) ? topicId : null,
+      name: st.name,
+      color: st.color || '#94a3b8',
+      displayOrder: st.displayOrder ?? i,
+    };
+  });
+  const subtopicIds = new Set(subtopics.map(st => st.id));
+
+  const skillSubtopics: Record<string, string> = {};
+  const nodes = document.skills.map(s => {
+    const id = localId(s['@id'], 'skill');
+    const subtopicId = s.inSubtopic ? localId(s.inSubtopic, 'subtopic') : null;
+    if (subtopicId && subtopicIds.has(subtopicId)) skillSubtopics[id] = subtopicId;
+    return createGraphNode({
+      id,
+      name: s.name || id,
+      level: s.level ?? 0,
+      description: s.description,
+      tier: SKILL_TIERS.includes(s.tier as SkillTier) ? (s.tier as SkillTier) : 'core',
+      transferableContexts: s.transferableContexts || [],
+    });
+  });
+  const skillIds = new Set(nodes.map(n => n.id));
+  const toSkill = (iri: string) => localId(iri, 'skill');
+
+  const edges: GraphEdge[] = (document.edges || [])
+    .map(e => ({
+      from: toSkill(e.from),
+      to: toSkill(e.to),
+      reason: e.reason || '',
+      relationshipType: RELATIONSHIP_TYPES.find(t => t === e.relationshipType) ?? 'requires',
+      ...(typeof e.confidence === 'number' && { confidence: e.confidence }),
+    }))
+    .filter(e => skillIds.has(e.from) && skillIds.has(e.to));
+
+  const known = (ids: string[] | undefined) => (ids || []).map(toSkill).filter(id => skillIds.has(id));
+  const questions: QuestionRecord[] = (document.questions || []).map(q => {
+    const requiredNodes = known(q.requiredSkills);
+    const executionOrder = known(q.executionOrder);
+    return {
+      text: q.text,
+      validationStatus: (q.validationStatus as QuestionRecord['validationStatus']) || 'valid',
+      requiredNodes,
+      executionOrder: executionOrder.length > 0 ? executionOrder : requiredNodes,
+      primarySkills: known(q.primarySkills),
+      skillWeights: Object.fromEntries((q.skillWeights || []).map(w => [toSkill(w.forSkill), w.weight])),
+      ...(q.skillConfidence && {
+        skillConfidence: Object.fromEntries(q.skillConfidence.map(c => [toSkill(c.forSkill), c.confidence])),
+      }),
+    };
+  });
+
+  const grouping: GroupingSnapshot = { topics, subtopics, skillSubtopics };
+  return {
+    name: document.name || 'Imported graph',
+    description: document.description || null,
+    graph: buildGraph(nodes, edges, questions.filter(q => q.text), document.promptVersion),
+    grouping,
+  };
+}
@@ -0,0 +1,92 @@
+// Mermaid flowchart export: subgraphs for topics and subtopics, a class per
+// tier, one arrow style per relationship type and a subgraph of questions
+
+import type { GraphEdge, GraphNode } from '@/types/graph';
+import { groupingTree, questionRecords, SKILL_TIERS, TIER_COLORS, type GraphDocument, type SubtopicBranch } from './model';
+
+const ARROWS: Record<NonNullable<GraphEdge['relationshipType']>, string> = {
+  requires: '-->',
+  builds_on: '-.->',
+  extends: '==>',
+};
+
+// Mermaid ids are restricted, so every node gets a generated one
+function idFactory(prefix: string) {
+  const ids = new Map<string, string>();
+  return (key: string) => {
+    if (!ids.has(key)) ids.set(key, `${prefix}${ids.size + 1}`);
+    return ids.get(key)!;
+  };
+}
+
+function escapeText(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;').replace(/\n/g, ' ');
+}
+
+// Quoted label; markup is only allowed in the part passed as html
+function label(text: string, html = ''): string {
+  return `"${escapeText(text)}${html}"`;
+}
+
+/**
+ * Serialize a graph as a Mermaid flowchart
+ */
+export function graphToMermaid(doc: GraphDocument): string {
+  const { graph, grouping } = doc;
+  const tree = groupingTree(graph.globalNodes, grouping);
+  const skillId = idFactory('s');
+  const groupId = idFactory('g');
+  const lines: string[] = [
+    '---',
+    `title: ${doc.name.replace(/\n/g, ' ')}`,
+    '---',
+    'flowchart LR',
+    ...SKILL_TIERS.map(tier => `  classDef ${tier} fill:${TIER_COLORS[tier]},stroke:#64748b`),
+    '  classDef question fill:#f8fafc,stroke:#94a3b8,stroke-dasharray:3 3',
+  ];
+
+  const skillNode = (node: GraphNode, indent: string) => {
+    const tier = node.tier || 'core';
+    lines.push(`${indent}${skillId(node.id)}[${label(node.name, `<br/><small>L${node.level} · ${tier}</small>`)}]:::${tier}`);
+  };
+
+  const subtopicGraph = (branch: SubtopicBranch, indent: string) => {
+    lines.push(`${indent}subgraph ${groupId(`subtopic:${branch.subtopic.id}`)}[${label(branch.subtopic.name)}]`);
+    branch.skills.forEach(n => skillNode(n, `${indent}  `));
+    lines.push(`${indent}end`);
+  };
+
+  tree.topics.forEach(({ topic, subtopics }) => {
+    lines.push(`  subgraph ${groupId(`topic:${topic.id}`)}[${label(topic.name)}]`);
+    subtopics.forEach(b => subtopicGraph(b, '    '));
+    lines.push('  end');
+  });
+  tree.subtopics.forEach(b => subtopicGraph(b, '  '));
+  tree.skills.forEach(n => skillNode(n, '  '));
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${skillId(edge.from)} ${ARROWS[edge.relationshipType || 'requires']} ${skillId(edge.to)}`);
+  }
+
+  const questions = questionRecords(graph);
+  if (questions.length > 0) {
+    const questionId = idFactory('q');
+    lines.push(`  subgraph ${groupId('questions')}["Questions"]`);
+    questions.forEach(q => lines.push(`    ${questionId(q.text)}[${label(q.text)}]:::question`));
+    lines.push('  end');
+    for (const q of questions) {
+      for (const id of q.requiredNodes) {
+        const position = q.executionOrder.indexOf(id);
+        lines.push(`  ${questionId(q.text)} -. ${position >= 0 ? position + 1 : '·'} .- ${skillId(id)}`);
+      }
+    }
+  }
+
+  // Topic and subtopic colors
+  for (const { topic } of tree.topics) lines.push(`  style ${groupId(`topic:${topic.id}`)} stroke:${topic.color},stroke-width:2px`);
+  for (const { subtopic } of [...tree.topics.flatMap(t => t.subtopics), ...tree.subtopics]) {
+    lines.push(`  style ${groupId(`subtopic:${subtopic.id}`)} stroke:${subtopic.color}`);
+  }
+
+  return lines.join('\n');
+}
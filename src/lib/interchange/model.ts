@@ -0,0 +1,164 @@
+// Format-neutral view of a graph shared by the exporters and importers
+
+import type { GraphEdge, GraphNode, KnowledgeGraph, QuestionPath, SkillTier } from '@/types/graph';
+import type { GroupingSnapshot, SkillSubtopic, SkillTopic } from '@/types/grouping';
+
+export type GraphExportFormat = 'graphml' | 'dot' | 'mermaid' | 'jsonld';
+
+export const EXPORT_FORMATS: Record<GraphExportFormat, { label: string; extension: string; mimeType: string }> = {
+  graphml: { label: 'GraphML (Gephi, yEd)', extension: 'graphml', mimeType: 'application/graphml+xml' },
+  dot: { label: 'Graphviz DOT', extension: 'dot', mimeType: 'text/vnd.graphviz' },
+  mermaid: { label: 'Mermaid flowchart', extension: 'mmd', mimeType: 'text/plain' },
+  jsonld: { label: 'JSON-LD', extension: 'jsonld', mimeType: 'application/ld+json' },
+};
+
+// A graph with everything the interchange formats carry
+export interface GraphDocument {
+  name: string;
+  description?: string | null;
+  graph: KnowledgeGraph;
+  grouping: GroupingSnapshot;
+}
+
+// One question path, with the per-skill fields generation stores alongside it
+export interface QuestionRecord {
+  text: string;
+  validationStatus: QuestionPath['validationStatus'];
+  requiredNodes: string[];
+  executionOrder: string[];
+  primarySkills: string[];
+  skillWeights: Record<string, number>;
+  skillConfidence?: Record<string, number>;
+}
+
+// Fill colors for DOT and Mermaid node styling
+export const TIER_COLORS: Record<SkillTier, string> = {
+  foundational: '#dcfce7',
+  core: '#dbeafe',
+  applied: '#f3e8ff',
+  advanced: '#ffedd5',
+};
+
+export const SKILL_TIERS: SkillTier[] = ['foundational', 'core', 'applied', 'advanced'];
+
+export const RELATIONSHIP_TYPES: NonNullable<GraphEdge['relationshipType']>[] = ['requires', 'builds_on', 'extends'];
+
+type StoredQuestionPath = QuestionPath & { primarySkills?: string[]; skillWeights?: Record<string, number> };
+
+/**
+ * Question paths as records, upgrading the legacy string[] form
+ */
+export function questionRecords(graph: KnowledgeGraph): QuestionRecord[] {
+  return Object.entries(graph.questionPaths || {}).map(([text, path]) => {
+    if (Array.isArray(path)) {
+      return { text, validationStatus: 'valid', requiredNodes: path, executionOrder: path, primarySkills: path.slice(0, 1), skillWeights: {} };
+    }
+    const stored = path as StoredQuestionPath;
+    return {
+      text,
+      validationStatus: stored.validationStatus || 'valid',
+      requiredNodes: stored.requiredNodes || [],
+      executionOrder: stored.executionOrder || stored.requiredNodes || [],
+      primarySkills: stored.primarySkills || [],
+      skillWeights: stored.skillWeights || {},
+      ...(stored.skillConfidence && { skillConfidence: stored.skillConfidence }),
+    };
+  });
+}
+
+/**
+ * A skill node with the same placeholder KP/CME/LE data a loaded graph gets
+ */
+export function createGraphNode(fields: Pick<GraphNode, 'id' | 'name' | 'level' | 'description' | 'tier' | 'transferableContexts'>): GraphNode {
+  return {
+    ...fields,
+    transferableContexts: fields.transferableContexts || [],
+    knowledgePoint: {
+      atomicityCheck: `Transferable skill: ${fields.name}`,
+      assessmentExample: '',
+      targetAssessmentLevel: 3,
+      appearsInQuestions: [],
+    },
+    cme: {
+      measured: false,
+      highestConceptLevel: 0,
+      levelLabels: ['Recognition', 'Recall (simple)', 'Recall (complex)', 'Direct application'],
+      independence: 'Unknown',
+      retention: 'Unknown',
+      evidenceByLevel: {},
+    },
+    le: { estimated: true, estimatedMinutes: 15 },
+  };
+}
+
+/**
+ * Assemble an imported graph: question paths, appearsInQuestions and the default course
+ */
+export function buildGraph(nodes: GraphNode[], edges: GraphEdge[], questions: QuestionRecord[], promptVersion?: string): KnowledgeGraph {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const questionPaths: KnowledgeGraph['questionPaths'] = {};
+  for (const q of questions) {
+    const path: StoredQuestionPath = {
+      requiredNodes: q.requiredNodes,
+      executionOrder: q.executionOrder,
+      validationStatus: q.validationStatus,
+      primarySkills: q.primarySkills,
+      skillWeights: q.skillWeights,
+      ...(q.skillConfidence && { skillConfidence: q.skillConfidence }),
+    };
+    questionPaths[q.text] = path;
+    q.requiredNodes.forEach(id => nodeById.get(id)?.knowledgePoint.appearsInQuestions.push(q.text));
+  }
+  return {
+    globalNodes: nodes,
+    edges,
+    courses: { Default: { nodes: nodes.map(n => ({ id: n.id, inCourse: true })) } },
+    questionPaths,
+    ...(promptVersion && { promptVersion }),
+  };
+}
+
+export interface SubtopicBranch {
+  subtopic: SkillSubtopic;
+  skills: GraphNode[];
+}
+
+// Skills nested under their subtopics and topics, for formats with clusters
+export interface GroupingTree {
+  topics: Array<{ topic: SkillTopic; subtopics: SubtopicBranch[] }>;
+  subtopics: SubtopicBranch[];   // Subtopics outside any topic
+  skills: GraphNode[];           // Skills outside any subtopic
+}
+
+export function groupingTree(nodes: GraphNode[], grouping: GroupingSnapshot): GroupingTree {
+  const branches = new Map<string, SubtopicBranch>(grouping.subtopics.map(st => [st.id, { subtopic: st, skills: [] }]));
+  const ungroupedSkills: GraphNode[] = [];
+  for (const node of nodes) {
+    const branch = branches.get(grouping.skillSubtopics[node.id]);
+    if (branch) branch.skills.push(node);
+    else ungroupedSkills.push(node);
+  }
+
+  const topicIds = new Set(grouping.topics.map(t => t.id));
+  const byOrder = <T extends { displayOrder: number }>(a: T, b: T) => a.displayOrder - b.displayOrder;
+  const sortedBranches = [...branches.values()].sort((a, b) => byOrder(a.subtopic, b.subtopic));
+  return {
+    topics: [...grouping.topics].sort(byOrder).map(topic => ({
+      topic,
+      subtopics: sortedBranches.filter(b => b.subtopic.topicId === topic.id),
+    })),
+    subtopics: sortedBranches.filter(b => !b.subtopic.topicId || !topicIds.has(b.subtopic.topicId)),
+    skills: ungroupedSkills,
+  };
+}
+
+/**
+ * Safe file name stem for a graph name
+ */
+export function fileStem(name: string): string {
+  return name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'knowledge-graph';
+}
+
+export function exportFileName(name: string, format: GraphExportFormat): string {
+  return `${fileStem(name)}.${EXPORT_FORMATS[format].extension}`;
+}
@@ -32,9 +32,9 @@ export function calculateSubtopicMastery(
       
       const sqrtWeight = Math.sqrt(mastery.maxPoints);
       sqrtWeightSum += sqrtWeight;
-      weightedMastery += mastery.rawMastery * sqrtWeight;
+      weightedMastery += (mastery.effectiveMastery ?? mastery.rawMastery) * sqrtWeight;
       
-      if (mastery.rawMastery >= 0.8) {
+      if ((mastery.effectiveMastery ?? mastery.rawMastery) >= 0.8) {
         masteredCount++;
       }
     }
@@ -134,9 +134,9 @@ export function calculateAllGroupMastery(
       
       const sqrtWeight = Math.sqrt(mastery.maxPoints);
       ungroupedSqrtWeightSum += sqrtWeight;
-      ungroupedWeightedMastery += mastery.rawMastery * sqrtWeight;
+      ungroupedWeightedMastery += (mastery.effectiveMastery ?? mastery.rawMastery) * sqrtWeight;
       
-      if (mastery.rawMastery >= 0.8) {
+      if ((mastery.effectiveMastery ?? mastery.rawMastery) >= 0.8) {
         ungroupedMasteredCount++;
       }
     }
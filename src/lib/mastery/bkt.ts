@@ -0,0 +1,335 @@
+// Bayesian Knowledge Tracing: per-skill hidden Markov model of knowing a skill
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  BKT_FIT_CONFIG,
+  BKT_PARAM_BOUNDS,
+  DEFAULT_BKT_PARAMS,
+  DEFAULT_CREDIT_POLICY,
+  DEFAULT_DECAY_CONFIG,
+  type BKTParams,
+  type CreditPolicy,
+  type DecayConfig,
+} from './constants';
+import { buildQuestionsMap, fetchAllRows, mapAttemptRow } from './persistMastery';
+import { dedupeAttempts, recomputeStudentMastery } from './rebuildMastery';
+import type { KPMastery, QuestionWithWeights, StudentAttempt } from '@/types/mastery';
+
+export interface BKTFitResult {
+  params: BKTParams;
+  logLikelihood: number;
+  iterations: number;
+  observationCount: number;
+  fitted: boolean;             // false = too little evidence, defaults kept
+}
+
+/**
+ * Probability of answering correctly given P(known)
+ */
+export function predictCorrect(pKnown: number, params: BKTParams): number {
+  return pKnown * (1 - params.slip) + (1 - pKnown) * params.guess;
+}
+
+/**
+ * Update P(known) after observing one attempt, then apply the learning transition
+ *
+ * Posterior:  P(L | correct)   = P(L)(1-S) / (P(L)(1-S) + (1-P(L))G)
+ *             P(L | incorrect) = P(L)S / (P(L)S + (1-P(L))(1-G))
+ * Transition: P(L') = P(L | obs) + (1 - P(L | obs)) × T
+ */
+export function updateKnowledge(pKnown: number, isCorrect: boolean, params: BKTParams): number {
+  const likelihoodKnown = isCorrect ? 1 - params.slip : params.slip;
+  const likelihoodUnknown = isCorrect ? params.guess : 1 - params.guess;
+  const evidence = pKnown * likelihoodKnown + (1 - pKnown) * likelihoodUnknown;
+  const posterior = evidence > 0 ? (pKnown * likelihoodKnown) / evidence : pKnown;
+
+  return posterior + (1 - posterior) * params.learn;
+}
+
+/**
+ * Run a sequence of outcomes through the model, starting from the prior
+ */
+export function traceKnowledge(outcomes: boolean[], params: BKTParams): number {
+  return outcomes.reduce((pKnown, isCorrect) => updateKnowledge(pKnown, isCorrect, params), params.prior);
+}
+
+/**
+ * Group attempts into ordered correct/incorrect sequences per skill and student.
+ * Every skill mapped to a question receives the attempt's outcome.
+ */
+export function buildSkillSequences(
+  attempts: StudentAttempt[],
+  questionsMap: Map<string, QuestionWithWeights>
+): Map<string, Map<string, boolean[]>> {
+  const { attempts: ordered } = dedupeAttempts(attempts);
+  const sequences = new Map<string, Map<string, boolean[]>>(); // skillId -> studentId -> outcomes
+
+  for (const attempt of ordered) {
+    const question = questionsMap.get(attempt.questionId);
+    if (!question) continue;
+
+    for (const skillId of question.skills) {
+      if (!sequences.has(skillId)) sequences.set(skillId, new Map());
+      const byStudent = sequences.get(skillId)!;
+      const outcomes = byStudent.get(attempt.studentId) || [];
+      outcomes.push(attempt.isCorrect);
+      byStudent.set(attempt.studentId, outcomes);
+    }
+  }
+
+  return sequences;
+}
+
+function clampParam(key: keyof BKTParams, value: number): number {
+  const { min, max } = BKT_PARAM_BOUNDS[key];
+  return Math.min(max, Math.max(min, Number.isFinite(value) ? value : DEFAULT_BKT_PARAMS[key]));
+}
+
+/**
+ * Fit BKT parameters for one skill with expectation-maximisation (Baum-Welch).
+ *
+ * Each sequence is one student's outcomes on the skill in time order.
+ * The E-step runs a scaled forward-backward pass over the two hidden
+ * states (unknown, known); the M-step re-estimates prior, learn, guess
+ * and slip from the expected state occupancies and transitions.
+ *
+ * @param sequences - Outcome sequences, one per student
+ * @param initial - Starting parameters
+ * @returns Fitted parameters (or the initial ones when evidence is too thin)
+ */
+export function fitBKTParams(
+  sequences: boolean[][],
+  initial: BKTParams = DEFAULT_BKT_PARAMS
+): BKTFitResult {
+  const usable = sequences.filter(seq => seq.length > 0);
+  const observationCount = usable.reduce((sum, seq) => sum + seq.length, 0);
+
+  if (observationCount < BKT_FIT_CONFIG.minObservations) {
+    return { params: { ...initial }, logLikelihood: 0, iterations: 0, observationCount, fitted: false };
+  }
+
+  let params = { ...initial };
+  let logLikelihood = -Infinity;
+  let iterations = 0;
+
+  for (; iterations < BKT_FIT_CONFIG.maxIterations; iterations++) {
+    let priorSum = 0;
+    let learnNum = 0;
+    let learnDen = 0;
+    let guessNum = 0;
+    let guessDen = 0;
+    let slipNum = 0;
+    let slipDen = 0;
+    let ll = 0;
+
+    for (const seq of usable) {
+      const n = seq.length;
+      const emitKnown = seq.map(c => (c ? 1 - params.slip : params.slip));
+      const emitUnknown = seq.map(c => (c ? params.guess : 1 - params.guess));
+
+      // Forward pass (scaled): alpha[t] = [P(unknown), P(known)]
+      const alpha: [number, number][] = [];
+      const scale: number[] = [];
+      let a0U = (1 - params.prior) * emitUnknown[0];
+      let a0K = params.prior * emitKnown[0];
+      scale.push(a0U + a0K);
+      a0U /= scale[0];
+      a0K /= scale[0];
+      alpha.push([a0U, a0K]);
+
+      for (let t = 1; t < n; t++) {
+        const [pU, pK] = alpha[t - 1];
+        let aU = pU * (1 - params.learn) * emitUnknown[t];
+        let aK = (pK + pU * params.learn) * emitKnown[t];
+        const c = aU + aK;
+        scale.push(c);
+        aU /= c;
+        aK /= c;
+        alpha.push([aU, aK]);
+      }
+
+      // Backward pass (scaled with the same factors)
+      const beta: [number, number][] = new Array(n);
+      beta[n - 1] = [1, 1];
+      for (let t = n - 2; t >= 0; t--) {
+        const [bU, bK] = beta[t + 1];
+        const c = scale[t + 1];
+        beta[t] = [
+          ((1 - params.learn) * emitUnknown[t + 1] * bU + params.learn * emitKnown[t + 1] * bK) / c,
+          (emitKnown[t + 1] * bK) / c,
+        ];
+      }
+
+      for (let t = 0; t < n; t++) {
+        const gU = alpha[t][0] * beta[t][0];
+        const gK = alpha[t][1] * beta[t][1];
+        const norm = gU + gK;
+        const gammaU = gU / norm;
+        const gammaK = gK / norm;
+
+        if (t === 0) priorSum += gammaK;
+
+        if (seq[t]) {
+          guessNum += gammaU;
+        } else {
+          slipNum += gammaK;
+        }
+        guessDen += gammaU;
+        slipDen += gammaK;
+
+        if (t < n - 1) {
+          // Expected unknown -> known transitions between t and t+1
+          const xiUK = alpha[t][0] * params.learn * emitKnown[t + 1] * beta[t + 1][1] / scale[t + 1];
+          learnNum += xiUK;
+          learnDen += gammaU;
+        }
+      }
+
+      ll += scale.reduce((sum, c) => sum + Math.log(c), 0);
+    }
+
+    const next: BKTParams = {
+      prior: clampParam('prior', priorSum / usable.length),
+      learn: clampParam('learn', learnDen > 0 ? learnNum / learnDen : params.learn),
+      guess: clampParam('guess', guessDen > 0 ? guessNum / guessDen : params.guess),
+      slip: clampParam('slip', slipDen > 0 ? slipNum / slipDen : params.slip),
+    };
+
+    const maxDelta = Math.max(
+      Math.abs(next.prior - params.prior),
+      Math.abs(next.learn - params.learn),
+      Math.abs(next.guess - params.guess),
+      Math.abs(next.slip - params.slip)
+    );
+
+    params = next;
+    logLikelihood = ll;
+
+    if (maxDelta < BKT_FIT_CONFIG.tolerance) {
+      iterations += 1;
+      break;
+    }
+  }
+
+  return { params, logLikelihood, iterations, observationCount, fitted: true };
+}
+
+/**
+ * Fit parameters for every skill that appears in the attempt log
+ */
+export function fitAllBKTParams(
+  attempts: StudentAttempt[],
+  questionsMap: Map<string, QuestionWithWeights>
+): Map<string, BKTFitResult> {
+  const results = new Map<string, BKTFitResult>();
+  for (const [skillId, byStudent] of buildSkillSequences(attempts, questionsMap)) {
+    results.set(skillId, fitBKTParams([...byStudent.values()]));
+  }
+  return results;
+}
+
+/**
+ * Compute BKT mastery for one student.
+ *
+ * rawMastery is P(known) after tracing the student's attempts on each skill
+ * (the prior for skills with no attempts). Counts, stability and review
+ * dates come from the counting replay so retention decay still applies;
+ * the crediting policy only affects those counts, not P(known).
+ */
+export function computeBKTMastery(
+  graphId: string,
+  studentId: string,
+  attempts: StudentAttempt[],
+  questionsMap: Map<string, QuestionWithWeights>,
+  paramsBySkill: Map<string, BKTParams>,
+  decayConfig: DecayConfig = DEFAULT_DECAY_CONFIG,
+  creditPolicy: CreditPolicy = DEFAULT_CREDIT_POLICY
+): Map<string, KPMastery> {
+  const mastery = recomputeStudentMastery(graphId, studentId, attempts, questionsMap, decayConfig, creditPolicy);
+  const sequences = buildSkillSequences(attempts, questionsMap);
+
+  for (const [skillId, record] of mastery) {
+    const params = paramsBySkill.get(skillId) ?? DEFAULT_BKT_PARAMS;
+    const outcomes = sequences.get(skillId)?.get(studentId) ?? [];
+    record.rawMastery = traceKnowledge(outcomes, params);
+  }
+
+  return mastery;
+}
+
+/**
+ * Load stored BKT parameters for a graph (skills without a fit are absent)
+ */
+export async function loadBKTParams(graphId: string): Promise<Map<string, BKTParams>> {
+  const { data, error } = await supabase
+    .from('skill_bkt_params')
+    .select('skill_id, prior, learn, guess, slip')
+    .eq('graph_id', graphId);
+
+  if (error) throw error;
+
+  const params = new Map<string, BKTParams>();
+  (data || []).forEach(row => {
+    params.set(row.skill_id, {
+      prior: Number(row.prior),
+      learn: Number(row.learn),
+      guess: Number(row.guess),
+      slip: Number(row.slip),
+    });
+  });
+  return params;
+}
+
+/**
+ * Fit BKT parameters from every attempt logged for the graph and store them.
+ * Skills with too few observations are not stored and fall back to defaults.
+ */
+export async function fitAndSaveBKTParams(graphId: string): Promise<Map<string, BKTFitResult>> {
+  const [attemptRows, questionRows] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase
+        .from('student_attempts')
+        .select('*')
+        .eq('graph_id', graphId)
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('questions')
+        .select('id, graph_id, question_text, skills, primary_skills, skill_weights, weightage_multiplier')
+        .eq('graph_id', graphId)
+        .order('id')
+        .range(from, to)
+    ),
+  ]);
+
+  const results = fitAllBKTParams(
+    attemptRows.map(mapAttemptRow),
+    buildQuestionsMap(questionRows)
+  );
+
+  const fittedAt = new Date().toISOString();
+  const rows = [...results]
+    .filter(([, result]) => result.fitted)
+    .map(([skillId, result]) => ({
+      graph_id: graphId,
+      skill_id: skillId,
+      prior: result.params.prior,
+      learn: result.params.learn,
+      guess: result.params.guess,
+      slip: result.params.slip,
+      observation_count: result.observationCount,
+      log_likelihood: result.logLikelihood,
+      fitted_at: fittedAt,
+    }));
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('skill_bkt_params')
+      .upsert(rows, { onConflict: 'graph_id,skill_id' });
+    if (error) throw error;
+  }
+
+  return results;
+}
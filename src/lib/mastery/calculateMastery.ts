@@ -1,8 +1,18 @@
 // Core mastery calculation functions
 
 import { 
-  INITIAL_STABILITY 
+  INITIAL_STABILITY,
+  INDEPENDENCE_MULTIPLIERS,
+  DEFAULT_CREDIT_POLICY,
+  DEFAULT_DECAY_CONFIG,
+  type CreditPolicy,
+  type DecayConfig,
 } from './constants';
+import {
+  updateStability,
+  applyLapse,
+  calculateEffectiveMastery,
+} from './retentionDecay';
 import type { 
   KPMastery, 
   StudentAttempt, 
@@ -16,7 +26,8 @@ import type {
 export function createEmptyMastery(
   graphId: string,
   studentId: string,
-  skillId: string
+  skillId: string,
+  initialStability: number = INITIAL_STABILITY
 ): KPMastery {
   return {
     graphId,
@@ -26,50 +37,90 @@ export function createEmptyMastery(
     maxPoints: 0,
     rawMastery: 0,
     lastReviewedAt: null,
-    stability: INITIAL_STABILITY,
+    stability: initialStability,
     retrievalCount: 0,
+    attemptCount: 0,
   };
 }
 
+/**
+ * Credit earned by an attempt under a crediting policy.
+ * Rubric-scored attempts earn their solution score as partial credit;
+ * others earn 1 when correct and 0 when not. Attempts logged before
+ * independence was recorded count as independent.
+ */
+export function getAttemptCredit(
+  attempt: Pick<StudentAttempt, 'isCorrect' | 'solutionScore' | 'rubricMarks' | 'independenceScore' | 'independenceLevel'>,
+  policy: CreditPolicy = DEFAULT_CREDIT_POLICY
+): number {
+  let credit = attempt.rubricMarks
+    ? Math.min(1, Math.max(0, attempt.solutionScore || 0))
+    : attempt.isCorrect ? 1 : 0;
+  if (credit === 0) return 0;
+
+  if (policy.scaleByIndependence) {
+    const score = attempt.independenceScore;
+    credit *= score !== undefined && Number.isFinite(score) ? Math.min(1, Math.max(0, score)) : 1;
+  }
+  if (policy.applyLevelMultipliers) {
+    credit *= INDEPENDENCE_MULTIPLIERS[attempt.independenceLevel] ?? 1;
+  }
+  return credit;
+}
+
 /**
  * Process a single attempt and update mastery records
  * 
- * New formula:
- *   contribution = weight × weightageMultiplier × solutionScore × ISQ
- *   earned += contribution
- *   max += weight × weightageMultiplier
+ * Formula:
+ *   max += 1
+ *   earned += credit (rubric solution score, or 1 if correct / 0 if not,
+ *             scaled by the crediting policy)
+ * 
+ * Stability is updated on every attempt: successful recalls grow it
+ * (more so when retention had decayed), failed recalls shrink it.
  * 
  * @param attempt - The student's attempt record
  * @param question - The question with skill weights
  * @param currentMastery - Map of current mastery records by skill ID
+ * @param decayConfig - Stability model parameters
+ * @param creditPolicy - How independence scales the credit for a correct answer
  * @returns Updated mastery map
  */
 export function processAttempt(
   attempt: StudentAttempt,
   question: QuestionWithWeights,
-  currentMastery: Map<string, KPMastery>
+  currentMastery: Map<string, KPMastery>,
+  decayConfig: DecayConfig = DEFAULT_DECAY_CONFIG,
+  creditPolicy: CreditPolicy = DEFAULT_CREDIT_POLICY
 ): Map<string, KPMastery> {
   
-  // Binary scoring: 1 if correct, 0 if not
+  // Binary correctness drives stability; credit drives earned points
   const binaryScore = attempt.isCorrect ? 1 : 0;
+  const credit = getAttemptCredit(attempt, creditPolicy);
   
-  // Each KP mapped to this question gets +1 max, +1 earned if correct
+  // Each KP mapped to this question gets +1 max, +credit earned
   // No fractional weight splitting — every KP counts whole questions
   for (const skillId of question.skills) {
     // Get or create mastery record
-    let mastery = currentMastery.get(skillId) || 
-      createEmptyMastery(attempt.graphId, attempt.studentId, skillId);
+    const mastery = { ...(currentMastery.get(skillId) || 
+      createEmptyMastery(attempt.graphId, attempt.studentId, skillId, decayConfig.initialStability)) };
     
     // Each question adds 1 to max for this KP
     mastery.maxPoints += 1;
+    mastery.attemptCount += 1;
     
-    // Earned = 1 if correct, 0 if not (no independence multiplier)
-    mastery.earnedPoints += binaryScore;
+    // Earned = partial or full credit (0 for an incorrect, unscored attempt)
+    mastery.earnedPoints += credit;
     
-    // Update review timestamp
+    // Update memory stability and review timestamp
     if (binaryScore > 0) {
+      mastery.stability = updateStability(
+        mastery.stability, mastery.lastReviewedAt, attempt.attemptedAt, decayConfig
+      );
       mastery.retrievalCount += 1;
       mastery.lastReviewedAt = attempt.attemptedAt;
+    } else {
+      mastery.stability = applyLapse(mastery.stability, mastery.lastReviewedAt, decayConfig);
     }
     
     // Recalculate raw mastery
@@ -89,7 +140,9 @@ export function processAttempt(
 export function processAttemptsBatch(
   attempts: StudentAttempt[],
   questionsMap: Map<string, QuestionWithWeights>,
-  initialMastery: Map<string, KPMastery>
+  initialMastery: Map<string, KPMastery>,
+  decayConfig: DecayConfig = DEFAULT_DECAY_CONFIG,
+  creditPolicy: CreditPolicy = DEFAULT_CREDIT_POLICY
 ): Map<string, KPMastery> {
   let mastery = new Map(initialMastery);
   
@@ -102,24 +155,39 @@ export function processAttemptsBatch(
     const question = questionsMap.get(attempt.questionId);
     if (!question) continue;
     
-    mastery = processAttempt(attempt, question, mastery);
+    mastery = processAttempt(attempt, question, mastery, decayConfig, creditPolicy);
   }
   
   return mastery;
 }
 
 /**
- * Compute effective mastery with retention decay for all records
+ * Compute effective mastery with retention decay for all records.
+ * When decay is disabled for the graph, effective mastery = raw mastery.
  */
 export function computeEffectiveMastery(
-  masteryRecords: KPMastery[]
+  masteryRecords: KPMastery[],
+  decayConfig: DecayConfig = DEFAULT_DECAY_CONFIG,
+  now: Date = new Date()
 ): KPMastery[] {
-  // No retention decay — effective mastery = raw mastery
+  if (!decayConfig.enabled) {
+    return masteryRecords.map(mastery => ({
+      ...mastery,
+      effectiveMastery: mastery.rawMastery,
+      retentionFactor: 1.0,
+      retentionStatus: 'current' as const,
+    }));
+  }
+
   return masteryRecords.map(mastery => ({
     ...mastery,
-    effectiveMastery: mastery.rawMastery,
-    retentionFactor: 1.0,
-    retentionStatus: 'current' as const,
+    ...calculateEffectiveMastery(
+      mastery.rawMastery,
+      mastery.lastReviewedAt,
+      mastery.stability,
+      now,
+      decayConfig
+    ),
   }));
 }
 
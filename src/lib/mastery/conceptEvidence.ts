@@ -0,0 +1,243 @@
+// Concept Mastery Evidence (CME) derived from real student attempts
+
+import { supabase } from '@/integrations/supabase/client';
+import { LEVEL_LABELS, type CME, type GraphNode } from '@/types/graph';
+import {
+  CME_THRESHOLDS,
+  DEFAULT_CONCEPT_LEVEL,
+  DEFAULT_DECAY_CONFIG,
+  type DecayConfig,
+} from './constants';
+import { calculateRetention, getRetentionStatus } from './retentionDecay';
+import { loadDecayConfig } from './decayConfig';
+import { buildQuestionsMap, fetchAllRows, mapAttemptRow, mapMasteryRow } from './persistMastery';
+import type {
+  KPMastery,
+  StudentAttempt,
+  QuestionWithWeights,
+} from '@/types/mastery';
+
+// Bloom's level (cognitive_complexity 1-4) -> base concept level (1-7)
+const BLOOM_TO_CONCEPT_LEVEL: Record<number, number> = {
+  1: 2, // Remember/Understand -> Recall
+  2: 4, // Apply -> Direct Application
+  3: 5, // Analyze -> Adapted Application
+  4: 6, // Evaluate/Create -> Integration
+};
+
+const MAX_CONCEPT_LEVEL = 7;
+
+/**
+ * Map a question's difficulty dimensions to the concept level it evidences.
+ *
+ * Base level comes from cognitive complexity; ill-defined tasks and
+ * system-level scope each push the question one level higher.
+ * Questions without rubric scores fall back to DEFAULT_CONCEPT_LEVEL.
+ */
+export function getQuestionConceptLevel(
+  question: Pick<QuestionWithWeights, 'cognitiveComplexity' | 'taskStructure' | 'scopeIntegration'>
+): number {
+  if (!question.cognitiveComplexity) return DEFAULT_CONCEPT_LEVEL;
+
+  let level = BLOOM_TO_CONCEPT_LEVEL[question.cognitiveComplexity] ?? DEFAULT_CONCEPT_LEVEL;
+  if (question.taskStructure === 3) level += 1;
+  if (question.scopeIntegration === 3) level += 1;
+
+  return Math.min(MAX_CONCEPT_LEVEL, Math.max(1, level));
+}
+
+/**
+ * Map an average independence score (0-1) to the CME independence label
+ */
+export function getIndependenceStatus(averageScore: number): CME['independence'] {
+  if (averageScore >= CME_THRESHOLDS.independent) return 'Independent';
+  if (averageScore >= CME_THRESHOLDS.lightlyScaffolded) return 'Lightly Scaffolded';
+  return 'Heavily Assisted';
+}
+
+const RETENTION_LABELS: Record<string, CME['retention']> = {
+  current: 'Current',
+  aging: 'Aging',
+  expired: 'Expired',
+};
+
+/**
+ * Compute CME for every skill touched by the given attempts.
+ *
+ * Works for one student or a pooled cohort:
+ * - evidenceByLevel: % of attempts answered correctly at each concept level
+ * - highestConceptLevel: highest level with success >= CME_THRESHOLDS.demonstrated
+ * - independence: average independence score across all attempts
+ * - retention: mean retention across students, measured from each student's
+ *   last correct attempt and their stored stability for the skill
+ *
+ * @param attempts - Attempts for one or more students
+ * @param questionsMap - Questions with difficulty dimensions, keyed by ID
+ * @param masteryRecords - Optional stored mastery (used for per-student stability)
+ * @param decayConfig - The graph's forgetting-curve settings
+ * @returns Map of skill ID -> measured CME
+ */
+export function computeConceptEvidence(
+  attempts: StudentAttempt[],
+  questionsMap: Map<string, QuestionWithWeights>,
+  masteryRecords: KPMastery[] = [],
+  decayConfig: DecayConfig = DEFAULT_DECAY_CONFIG
+): Map<string, CME> {
+  const stabilityByStudentSkill = new Map<string, number>();
+  for (const m of masteryRecords) {
+    stabilityByStudentSkill.set(`${m.studentId}:${m.skillId}`, m.stability);
+  }
+
+  // Accumulate per skill
+  const levelTotals = new Map<string, Map<number, { correct: number; total: number }>>();
+  const independenceSums = new Map<string, { sum: number; count: number }>();
+  const lastCorrectByStudent = new Map<string, Map<string, Date>>(); // skillId -> studentId -> date
+
+  for (const attempt of attempts) {
+    const question = questionsMap.get(attempt.questionId);
+    if (!question) continue;
+
+    const level = getQuestionConceptLevel(question);
+    const independence = attempt.independenceScore ?? 1.0;
+
+    for (const skillId of question.skills) {
+      if (!levelTotals.has(skillId)) levelTotals.set(skillId, new Map());
+      const byLevel = levelTotals.get(skillId)!;
+      const bucket = byLevel.get(level) || { correct: 0, total: 0 };
+      bucket.total += 1;
+      if (attempt.isCorrect) bucket.correct += 1;
+      byLevel.set(level, bucket);
+
+      const indep = independenceSums.get(skillId) || { sum: 0, count: 0 };
+      indep.sum += independence;
+      indep.count += 1;
+      independenceSums.set(skillId, indep);
+
+      if (attempt.isCorrect) {
+        if (!lastCorrectByStudent.has(skillId)) lastCorrectByStudent.set(skillId, new Map());
+        const byStudent = lastCorrectByStudent.get(skillId)!;
+        const previous = byStudent.get(attempt.studentId);
+        if (!previous || attempt.attemptedAt > previous) {
+          byStudent.set(attempt.studentId, attempt.attemptedAt);
+        }
+      }
+    }
+  }
+
+  const result = new Map<string, CME>();
+
+  for (const [skillId, byLevel] of levelTotals) {
+    const evidenceByLevel: Record<number, number> = {};
+    let highestConceptLevel = 0;
+
+    for (const level of [...byLevel.keys()].sort((a, b) => a - b)) {
+      const { correct, total } = byLevel.get(level)!;
+      const successRate = total > 0 ? correct / total : 0;
+      evidenceByLevel[level] = Math.round(successRate * 100);
+      if (successRate >= CME_THRESHOLDS.demonstrated) {
+        highestConceptLevel = level;
+      }
+    }
+
+    const indep = independenceSums.get(skillId);
+    const independence = indep && indep.count > 0
+      ? getIndependenceStatus(indep.sum / indep.count)
+      : 'Unknown';
+
+    let retention: CME['retention'] = 'Unknown';
+    const lastCorrect = lastCorrectByStudent.get(skillId);
+    if (lastCorrect && lastCorrect.size > 0) {
+      let retentionSum = 0;
+      for (const [studentId, reviewedAt] of lastCorrect) {
+        const stability = stabilityByStudentSkill.get(`${studentId}:${skillId}`) ?? decayConfig.initialStability;
+        retentionSum += calculateRetention(reviewedAt, stability, new Date(), decayConfig);
+      }
+      retention = RETENTION_LABELS[getRetentionStatus(retentionSum / lastCorrect.size)];
+    }
+
+    result.set(skillId, {
+      measured: true,
+      highestConceptLevel,
+      levelLabels: [...LEVEL_LABELS],
+      independence,
+      retention,
+      evidenceByLevel,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Return the node with its measured CME applied (if any evidence exists)
+ */
+export function applyMeasuredCME(
+  node: GraphNode,
+  cmeBySkill: Map<string, CME>
+): GraphNode {
+  const cme = cmeBySkill.get(node.id);
+  return cme ? { ...node, cme } : node;
+}
+
+/**
+ * Load attempts, questions and stored stability, then compute CME.
+ *
+ * Scope is either a single student or every student enrolled in a class.
+ */
+export async function loadConceptEvidence(
+  graphId: string,
+  scope: { studentId: string } | { classId: string }
+): Promise<Map<string, CME>> {
+  let studentIds: string[];
+
+  if ('studentId' in scope) {
+    studentIds = [scope.studentId];
+  } else {
+    const { data: studentsData, error: studentsError } = await supabase
+      .from('class_students')
+      .select('student_id')
+      .eq('class_id', scope.classId);
+
+    if (studentsError) throw studentsError;
+    studentIds = (studentsData || []).map(s => s.student_id);
+  }
+
+  if (studentIds.length === 0) return new Map();
+
+  const [attemptRows, questionRows, masteryRows, decayConfig] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase
+        .from('student_attempts')
+        .select('*')
+        .eq('graph_id', graphId)
+        .in('student_id', studentIds)
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('questions')
+        .select('id, graph_id, question_text, skills, primary_skills, skill_weights, cognitive_complexity, task_structure, algorithmic_demands, scope_integration, weightage_multiplier')
+        .eq('graph_id', graphId)
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('student_kp_mastery')
+        .select('*')
+        .eq('graph_id', graphId)
+        .in('student_id', studentIds)
+        .order('id')
+        .range(from, to)
+    ),
+    loadDecayConfig(graphId),
+  ]);
+
+  return computeConceptEvidence(
+    attemptRows.map(mapAttemptRow),
+    buildQuestionsMap(questionRows),
+    masteryRows.map(mapMasteryRow),
+    decayConfig
+  );
+}
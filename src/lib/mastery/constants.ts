@@ -1,5 +1,7 @@
 // Mastery calculation constants
 
+import type { RubricDimensionKey } from '@/types/mastery';
+
 // Independence multipliers - how much credit for each scaffolding level
 export const INDEPENDENCE_MULTIPLIERS = {
   independent: 1.0,
@@ -8,6 +10,20 @@ export const INDEPENDENCE_MULTIPLIERS = {
   solution_driven: 0.2,
 } as const;
 
+// Credit earned for a correct answer
+//   credit = 1 × independence_score            (if scaleByIndependence)
+//              × INDEPENDENCE_MULTIPLIERS[level] (if applyLevelMultipliers)
+// independence_score already reflects solution_viewed, AI tutor use and
+// submission count, so the level multiplier is off by default.
+export interface CreditPolicy {
+  scaleByIndependence: boolean;
+  applyLevelMultipliers: boolean;
+}
+
+export const DEFAULT_CREDIT_POLICY: CreditPolicy = {
+  scaleByIndependence: true,
+  applyLevelMultipliers: false,
+};
 
 // Retention thresholds (Ebbinghaus curve)
 export const RETENTION_THRESHOLDS = {
@@ -16,15 +32,78 @@ export const RETENTION_THRESHOLDS = {
   // Below 50% = Expired
 } as const;
 
+// Spaced review scheduling
+//   A skill is due once its retention falls to dueRetention; within a day's
+//   queue, skills whose retention is closest to RETENTION_THRESHOLDS.aging
+//   come first (about to expire, or only just expired).
+export const REVIEW_SCHEDULE_CONFIG = {
+  dueRetention: RETENTION_THRESHOLDS.current,
+  maxItemsPerDay: 10,        // Questions in one student's daily queue
+} as const;
+
 // Initial stability for memory strength (in days)
 export const INITIAL_STABILITY = 14.0;
 
-// Stability curve parameters (multiplicative formula)
-// S_new = S_old × (A × S_old^(-B) × e^(C × R) + D)
-export const STABILITY_A = 1.2;
-export const STABILITY_B = 0.25;
-export const STABILITY_C = 1.5;
-export const STABILITY_D = 0.1;
+// Retention decay model (FSRS-style power-law forgetting curve)
+//   R(t) = (1 + F × t / S)^DECAY, with F chosen so that R(S) = 0.9
+// Stability after a successful recall:
+//   S_new = S × (1 + GROWTH × S^(-DAMPING) × (e^(GAIN × (1 - R)) - 1))
+// Stability after a failed recall:
+//   S_new = max(MIN, S × LAPSE)
+export interface DecayConfig {
+  enabled: boolean;            // Apply decay to effective mastery (stability is always tracked)
+  initialStability: number;    // Days until retention falls to 90% after first learning
+  decay: number;               // Power-law exponent (negative)
+  growth: number;              // Stability growth rate on successful recall
+  stabilityDamping: number;    // Stable memories grow more slowly
+  retrievabilityGain: number;  // Recalls at low retention grow stability more
+  lapseFactor: number;         // Stability multiplier after a failed recall
+  minStability: number;        // Floor for stability after lapses (days)
+}
+
+export const DEFAULT_DECAY_CONFIG: DecayConfig = {
+  enabled: false,
+  initialStability: INITIAL_STABILITY,
+  decay: -0.5,
+  growth: 3.0,
+  stabilityDamping: 0.2,
+  retrievabilityGain: 1.5,
+  lapseFactor: 0.5,
+  minStability: 1.0,
+};
+
+// Bayesian Knowledge Tracing (BKT) parameters per skill
+//   prior: P(L0) - skill already known before the first attempt
+//   learn: P(T)  - chance of learning the skill after each attempt
+//   guess: P(G)  - correct answer without knowing the skill
+//   slip:  P(S)  - incorrect answer despite knowing the skill
+export interface BKTParams {
+  prior: number;
+  learn: number;
+  guess: number;
+  slip: number;
+}
+
+export const DEFAULT_BKT_PARAMS: BKTParams = {
+  prior: 0.3,
+  learn: 0.1,
+  guess: 0.2,
+  slip: 0.1,
+};
+
+// Bounds applied during EM fitting (guess/slip capped to avoid degenerate models)
+export const BKT_PARAM_BOUNDS: Record<keyof BKTParams, { min: number; max: number }> = {
+  prior: { min: 0.01, max: 0.99 },
+  learn: { min: 0.01, max: 0.5 },
+  guess: { min: 0.01, max: 0.4 },
+  slip: { min: 0.01, max: 0.4 },
+};
+
+export const BKT_FIT_CONFIG = {
+  maxIterations: 100,
+  tolerance: 1e-4,             // Stop when no parameter moves more than this
+  minObservations: 10,         // Fewer attempts on a skill = keep defaults
+} as const;
 
 // Mastery level thresholds for visualization
 export const MASTERY_THRESHOLDS = {
@@ -34,6 +113,55 @@ export const MASTERY_THRESHOLDS = {
   // Below 40% = needs work
 } as const;
 
+// Prerequisite-aware inference across the skill DAG
+//   Support: strong mastery of a dependent implies its unassessed prerequisites
+//            are at least partly known (discounted per hop).
+//   Cap:     persistent failure on a prerequisite bounds belief in everything
+//            that builds on it.
+export const PROPAGATION_CONFIG = {
+  strongEvidence: 0.7,      // Dependent mastery at or above this supports prerequisites
+  supportDecay: 0.85,       // Multiplier applied per hop of support
+  failureThreshold: 0.4,    // Prerequisite mastery below this counts as failing...
+  minFailedAttempts: 2,     // ...once it has at least this many attempts
+  capMargin: 0.2,           // Dependents are capped at prerequisite mastery + margin
+} as const;
+
+// Learning-path recommender
+export const LEARNING_PATH_CONFIG = {
+  maxSteps: 12,             // Skills listed in one study plan
+  maxQuestionsPerStep: 3,   // Unattempted questions suggested per skill
+} as const;
+
+// Concept Mastery Evidence (CME) thresholds
+export const CME_THRESHOLDS = {
+  demonstrated: 0.6,        // >= 60% success at a concept level = level demonstrated
+  independent: 0.9,         // avg independence >= 0.9 = Independent
+  lightlyScaffolded: 0.6,   // 0.6-0.89 = Lightly Scaffolded
+  // Below 0.6 = Heavily Assisted
+} as const;
+
+// Concept level assumed for questions without difficulty rubric scores (Direct Application)
+export const DEFAULT_CONCEPT_LEVEL = 4;
+
+// Item Response Theory (IRT) calibration of question difficulty
+//   1PL: P(correct) = σ(θ - b)
+//   2PL: P(correct) = σ(a × (θ - b))
+// Fitted by joint MAP estimation with weak normal priors so items that
+// everyone (or no one) answers correctly still get finite estimates.
+export type IRTModelType = '1pl' | '2pl';
+
+export const IRT_CONFIG = {
+  maxIterations: 200,
+  tolerance: 1e-3,              // Stop when no estimate moves more than this
+  maxStep: 1.0,                 // Cap on a single Newton step (logits)
+  abilityPriorSd: 1.0,          // θ ~ N(0, 1)
+  difficultyPriorSd: 2.0,       // b ~ N(0, 2²)
+  discriminationPriorSd: 0.5,   // a ~ N(1, 0.5²)
+  discriminationRange: { min: 0.2, max: 4.0 },
+  minResponsesPerItem: 5,       // Fewer responses = question left uncalibrated
+  disagreementThreshold: 1.5,   // |z(IRT) - z(AI)| at or above this is flagged
+} as const;
+
 // Coding Solution Scoring Rubric
 export interface RubricLevel {
   label: string;
@@ -41,6 +169,7 @@ export interface RubricLevel {
 }
 
 export interface RubricDimension {
+  key: RubricDimensionKey;       // Stored in student_attempts.rubric_marks and CSV columns (rubric_<key>)
   name: string;
   maxMarks: number;
   levels: RubricLevel[];
@@ -48,6 +177,7 @@ export interface RubricDimension {
 
 export const CODING_RUBRIC_DIMENSIONS: RubricDimension[] = [
   {
+    key: 'programming',
     name: 'Programming Abilities',
     maxMarks: 3,
     levels: [
@@ -58,6 +188,7 @@ export const CODING_RUBRIC_DIMENSIONS: RubricDimension[] = [
     ],
   },
   {
+    key: 'analytical',
     name: 'Analytical Skills',
     maxMarks: 4,
     levels: [
@@ -69,6 +200,7 @@ export const CODING_RUBRIC_DIMENSIONS: RubricDimension[] = [
     ],
   },
   {
+    key: 'optimization',
     name: 'Optimization Skills',
     maxMarks: 1,
     levels: [
@@ -78,6 +210,7 @@ export const CODING_RUBRIC_DIMENSIONS: RubricDimension[] = [
     ],
   },
   {
+    key: 'design',
     name: 'Applications Design',
     maxMarks: 2,
     levels: [
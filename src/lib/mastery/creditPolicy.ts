@@ -0,0 +1,55 @@
+// Load and save per-graph mastery crediting policy
+
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_CREDIT_POLICY, type CreditPolicy } from './constants';
+import type { Json } from '@/integrations/supabase/types';
+
+/**
+ * Merge a stored (possibly partial or malformed) policy over the defaults
+ */
+export function normalizeCreditPolicy(stored: unknown): CreditPolicy {
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+    return { ...DEFAULT_CREDIT_POLICY };
+  }
+
+  const raw = stored as Record<string, unknown>;
+  const bool = (key: keyof CreditPolicy): boolean =>
+    typeof raw[key] === 'boolean' ? (raw[key] as boolean) : DEFAULT_CREDIT_POLICY[key];
+
+  return {
+    scaleByIndependence: bool('scaleByIndependence'),
+    applyLevelMultipliers: bool('applyLevelMultipliers'),
+  };
+}
+
+/**
+ * Load the crediting policy for a graph (defaults when none is stored)
+ */
+export async function loadCreditPolicy(graphId: string): Promise<CreditPolicy> {
+  const { data, error } = await supabase
+    .from('knowledge_graphs')
+    .select('credit_policy')
+    .eq('id', graphId)
+    .single();
+
+  if (error) throw error;
+  return normalizeCreditPolicy(data?.credit_policy);
+}
+
+/**
+ * Persist the crediting policy for a graph
+ */
+export async function saveCreditPolicy(
+  graphId: string,
+  policy: CreditPolicy
+): Promise<CreditPolicy> {
+  const normalized = normalizeCreditPolicy(policy);
+
+  const { error } = await supabase
+    .from('knowledge_graphs')
+    .update({ credit_policy: normalized as unknown as Json })
+    .eq('id', graphId);
+
+  if (error) throw error;
+  return normalized;
+}
@@ -0,0 +1,64 @@
+// Load and save per-graph retention decay settings
+
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_DECAY_CONFIG, type DecayConfig } from './constants';
+import type { Json } from '@/integrations/supabase/types';
+
+/**
+ * Merge a stored (possibly partial or malformed) config over the defaults
+ */
+export function normalizeDecayConfig(stored: unknown): DecayConfig {
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+    return { ...DEFAULT_DECAY_CONFIG };
+  }
+
+  const raw = stored as Record<string, unknown>;
+  const num = (key: keyof DecayConfig, min: number, max: number): number => {
+    const value = Number(raw[key]);
+    if (!Number.isFinite(value)) return DEFAULT_DECAY_CONFIG[key] as number;
+    return Math.min(max, Math.max(min, value));
+  };
+
+  return {
+    enabled: raw.enabled === true,
+    initialStability: num('initialStability', 0.5, 365),
+    decay: num('decay', -5, -0.05),
+    growth: num('growth', 0, 20),
+    stabilityDamping: num('stabilityDamping', 0, 1),
+    retrievabilityGain: num('retrievabilityGain', 0, 10),
+    lapseFactor: num('lapseFactor', 0.05, 1),
+    minStability: num('minStability', 0.1, 30),
+  };
+}
+
+/**
+ * Load the decay config for a graph (defaults when none is stored)
+ */
+export async function loadDecayConfig(graphId: string): Promise<DecayConfig> {
+  const { data, error } = await supabase
+    .from('knowledge_graphs')
+    .select('decay_config')
+    .eq('id', graphId)
+    .single();
+
+  if (error) throw error;
+  return normalizeDecayConfig(data?.decay_config);
+}
+
+/**
+ * Persist the decay config for a graph
+ */
+export async function saveDecayConfig(
+  graphId: string,
+  config: DecayConfig
+): Promise<DecayConfig> {
+  const normalized = normalizeDecayConfig(config);
+
+  const { error } = await supabase
+    .from('knowledge_graphs')
+    .update({ decay_config: normalized as unknown as Json })
+    .eq('id', graphId);
+
+  if (error) throw error;
+  return normalized;
+}
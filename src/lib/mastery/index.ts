@@ -4,5 +4,16 @@ export * from './calculateWeights';
 export * from './calculateMastery';
 export * from './retentionDecay';
 export * from './persistMastery';
+export * from './decayConfig';
+export * from './creditPolicy';
+export * from './rebuildMastery';
+export * from './bkt';
+export * from './masteryModel';
+export * from './irtCalibration';
+export * from './propagateMastery';
+export * from './learningPath';
+export * from './reviewScheduler';
+export * from './conceptEvidence';
+export * from './rubricScoring';
 
 export * from './studentTopicGrades';
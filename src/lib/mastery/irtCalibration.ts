@@ -0,0 +1,296 @@
+// Item Response Theory calibration of question difficulty from student attempts
+
+import { supabase } from '@/integrations/supabase/client';
+import { IRT_CONFIG, type IRTModelType } from './constants';
+import { fetchAllRows, mapAttemptRow } from './persistMastery';
+import { dedupeAttempts } from './rebuildMastery';
+import type { StudentAttempt } from '@/types/mastery';
+
+const DB_BATCH_SIZE = 10; // Parallel question updates
+
+export interface IRTResponse {
+  studentId: string;
+  questionId: string;
+  correct: boolean;
+}
+
+export interface IRTItemEstimate {
+  questionId: string;
+  difficulty: number;          // b, higher = harder
+  discrimination: number;      // a (1.0 under 1PL)
+  responseCount: number;
+  proportionCorrect: number;
+}
+
+export interface IRTFitResult {
+  model: IRTModelType;
+  items: Map<string, IRTItemEstimate>;
+  abilities: Map<string, number>;
+  iterations: number;
+  converged: boolean;
+}
+
+export interface DifficultyDisagreement {
+  questionId: string;
+  questionText: string;
+  irtDifficulty: number;
+  weightageMultiplier: number;
+  irtZ: number;
+  aiZ: number;
+  gap: number;                 // irtZ - aiZ; positive = harder than the AI judged
+}
+
+export interface IRTCalibrationReport {
+  fit: IRTFitResult;
+  calibrated: number;
+  skipped: number;             // Questions with too few responses
+  disagreements: DifficultyDisagreement[];
+}
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+const clampStep = (step: number) => Math.max(-IRT_CONFIG.maxStep, Math.min(IRT_CONFIG.maxStep, step));
+
+/**
+ * One response per student and question: the first attempt, before any
+ * learning from retries or feedback.
+ */
+export function buildIRTResponses(attempts: StudentAttempt[]): IRTResponse[] {
+  const { attempts: ordered } = dedupeAttempts(attempts);
+  const seen = new Set<string>();
+  const responses: IRTResponse[] = [];
+
+  for (const attempt of ordered) {
+    const key = `${attempt.studentId}|${attempt.questionId}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    responses.push({ studentId: attempt.studentId, questionId: attempt.questionId, correct: attempt.isCorrect });
+  }
+
+  return responses;
+}
+
+/**
+ * Fit a 1PL (Rasch) or 2PL model by joint MAP estimation.
+ *
+ * Alternates Newton steps on student abilities (θ) and item parameters
+ * (b, and a for 2PL). Normal priors keep estimates finite for items
+ * answered all-correct or all-incorrect.
+ *
+ * @param responses - One binary response per student/question pair
+ * @param model - '1pl' fixes discrimination at 1.0
+ */
+export function fitIRT(responses: IRTResponse[], model: IRTModelType = '2pl'): IRTFitResult {
+  const byItem = new Map<string, IRTResponse[]>();
+  const byStudent = new Map<string, IRTResponse[]>();
+  for (const r of responses) {
+    if (!byItem.has(r.questionId)) byItem.set(r.questionId, []);
+    byItem.get(r.questionId)!.push(r);
+    if (!byStudent.has(r.studentId)) byStudent.set(r.studentId, []);
+    byStudent.get(r.studentId)!.push(r);
+  }
+
+  const theta = new Map<string, number>([...byStudent.keys()].map(id => [id, 0]));
+  const b = new Map<string, number>();
+  const a = new Map<string, number>([...byItem.keys()].map(id => [id, 1]));
+
+  // Start difficulties at the (smoothed) logit of the proportion incorrect
+  for (const [questionId, items] of byItem) {
+    const p = (items.filter(r => r.correct).length + 0.5) / (items.length + 1);
+    b.set(questionId, Math.log((1 - p) / p));
+  }
+
+  const thetaPrecision = 1 / IRT_CONFIG.abilityPriorSd ** 2;
+  const bPrecision = 1 / IRT_CONFIG.difficultyPriorSd ** 2;
+  const aPrecision = 1 / IRT_CONFIG.discriminationPriorSd ** 2;
+
+  let iterations = 0;
+  let converged = false;
+
+  for (; iterations < IRT_CONFIG.maxIterations && !converged; iterations++) {
+    let maxDelta = 0;
+
+    // Abilities (convergence is judged on item parameters, which are what we store)
+    for (const [studentId, items] of byStudent) {
+      const t = theta.get(studentId)!;
+      let grad = -t * thetaPrecision;
+      let hess = -thetaPrecision;
+      for (const r of items) {
+        const ai = a.get(r.questionId)!;
+        const p = sigmoid(ai * (t - b.get(r.questionId)!));
+        grad += ai * ((r.correct ? 1 : 0) - p);
+        hess -= ai * ai * p * (1 - p);
+      }
+      theta.set(studentId, t + clampStep(-grad / hess));
+    }
+
+    // 2PL scale is only identified up to a linear transform of θ:
+    // fix it by standardising abilities to mean 0, sd 1
+    if (model === '2pl' && theta.size > 1) {
+      const values = [...theta.values()];
+      const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+      const sd = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+      if (sd > 0) {
+        for (const [studentId, t] of theta) theta.set(studentId, (t - mean) / sd);
+      }
+    }
+
+    // Item parameters
+    for (const [questionId, items] of byItem) {
+      const bi = b.get(questionId)!;
+      const ai = a.get(questionId)!;
+
+      let gradB = -bi * bPrecision;
+      let hessB = -bPrecision;
+      let gradA = -(ai - 1) * aPrecision;
+      let hessA = -aPrecision;
+
+      for (const r of items) {
+        const diff = theta.get(r.studentId)! - bi;
+        const p = sigmoid(ai * diff);
+        const residual = (r.correct ? 1 : 0) - p;
+        const info = p * (1 - p);
+        gradB -= ai * residual;
+        hessB -= ai * ai * info;
+        gradA += diff * residual;
+        hessA -= diff * diff * info;
+      }
+
+      const stepB = clampStep(-gradB / hessB);
+      b.set(questionId, bi + stepB);
+      maxDelta = Math.max(maxDelta, Math.abs(stepB));
+
+      if (model === '2pl') {
+        const { min, max } = IRT_CONFIG.discriminationRange;
+        const nextA = Math.min(max, Math.max(min, ai + clampStep(-gradA / hessA)));
+        a.set(questionId, nextA);
+        maxDelta = Math.max(maxDelta, Math.abs(nextA - ai));
+      }
+    }
+
+    converged = maxDelta < IRT_CONFIG.tolerance;
+  }
+
+  const items = new Map<string, IRTItemEstimate>();
+  for (const [questionId, itemResponses] of byItem) {
+    items.set(questionId, {
+      questionId,
+      difficulty: b.get(questionId)!,
+      discrimination: a.get(questionId)!,
+      responseCount: itemResponses.length,
+      proportionCorrect: itemResponses.filter(r => r.correct).length / itemResponses.length,
+    });
+  }
+
+  return { model, items, abilities: theta, iterations, converged };
+}
+
+function zScores(values: number[]): number[] {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  const sd = Math.sqrt(variance);
+  return values.map(v => (sd > 0 ? (v - mean) / sd : 0));
+}
+
+/**
+ * Compare empirical difficulty with the AI rubric's weightage multiplier.
+ *
+ * Both are standardised across the questions that have both values, so
+ * the comparison is about relative ordering rather than units. Questions
+ * whose z-scores differ by at least IRT_CONFIG.disagreementThreshold are
+ * returned, largest gap first.
+ */
+export function findDifficultyDisagreements(
+  questions: Array<{
+    id: string;
+    question_text: string;
+    irt_difficulty: number | null;
+    weightage_multiplier: number | null;
+  }>,
+  threshold: number = IRT_CONFIG.disagreementThreshold
+): DifficultyDisagreement[] {
+  const comparable = questions.filter(q => q.irt_difficulty !== null && q.weightage_multiplier !== null);
+  if (comparable.length < 3) return [];
+
+  const irtZ = zScores(comparable.map(q => Number(q.irt_difficulty)));
+  const aiZ = zScores(comparable.map(q => Number(q.weightage_multiplier)));
+
+  return comparable
+    .map((q, i) => ({
+      questionId: q.id,
+      questionText: q.question_text,
+      irtDifficulty: Number(q.irt_difficulty),
+      weightageMultiplier: Number(q.weightage_multiplier),
+      irtZ: irtZ[i],
+      aiZ: aiZ[i],
+      gap: irtZ[i] - aiZ[i],
+    }))
+    .filter(d => Math.abs(d.gap) >= threshold)
+    .sort((x, y) => Math.abs(y.gap) - Math.abs(x.gap));
+}
+
+/**
+ * Load stored calibration for a graph and return flagged questions
+ */
+export async function loadDifficultyDisagreements(graphId: string): Promise<DifficultyDisagreement[]> {
+  const questions = await fetchAllRows((from, to) =>
+    supabase
+      .from('questions')
+      .select('id, question_text, irt_difficulty, weightage_multiplier')
+      .eq('graph_id', graphId)
+      .order('id')
+      .range(from, to)
+  );
+
+  return findDifficultyDisagreements(questions);
+}
+
+/**
+ * Calibrate every question in a graph from its attempt log and store
+ * difficulty/discrimination on the questions table.
+ */
+export async function calibrateQuestionDifficulty(
+  graphId: string,
+  model: IRTModelType = '2pl'
+): Promise<IRTCalibrationReport> {
+  const attemptRows = await fetchAllRows((from, to) =>
+    supabase
+      .from('student_attempts')
+      .select('*')
+      .eq('graph_id', graphId)
+      .order('id')
+      .range(from, to)
+  );
+
+  const fit = fitIRT(buildIRTResponses(attemptRows.map(mapAttemptRow)), model);
+
+  const calibratedAt = new Date().toISOString();
+  const estimates = [...fit.items.values()]
+    .filter(item => item.responseCount >= IRT_CONFIG.minResponsesPerItem);
+
+  for (let i = 0; i < estimates.length; i += DB_BATCH_SIZE) {
+    const batch = estimates.slice(i, i + DB_BATCH_SIZE);
+    const results = await Promise.all(
+      batch.map(item =>
+        supabase
+          .from('questions')
+          .update({
+            irt_difficulty: item.difficulty,
+            irt_discrimination: item.discrimination,
+            irt_model: model,
+            irt_response_count: item.responseCount,
+            irt_calibrated_at: calibratedAt,
+          })
+          .eq('id', item.questionId)
+      )
+    );
+    const failed = results.find(r => r.error);
+    if (failed?.error) throw failed.error;
+  }
+
+  return {
+    fit,
+    calibrated: estimates.length,
+    skipped: fit.items.size - estimates.length,
+    disagreements: await loadDifficultyDisagreements(graphId),
+  };
+}
@@ -0,0 +1,165 @@
+// Personalised learning-path recommender built on the skill DAG
+
+import { LEARNING_PATH_CONFIG, MASTERY_THRESHOLDS } from './constants';
+import { propagateMastery, type MasterySource } from './propagateMastery';
+import type { GraphEdge, GraphNode } from '@/types/graph';
+import type { KPMastery } from '@/types/mastery';
+
+export interface LearningPathQuestionSource {
+  id: string;
+  question_text: string;
+  skills: string[] | null;
+  primary_skills: string[] | null;
+}
+
+export interface LearningPathQuestion {
+  id: string;
+  questionText: string;
+  isPrimary: boolean;          // Skill is one of the question's primary skills
+}
+
+export interface LearningPathStep {
+  skillId: string;
+  skillName: string;
+  wave: number;                // 0 = prerequisites mastered now; n = after earlier waves
+  currentMastery: number | null;
+  source: MasterySource;
+  prerequisites: string[];
+  unlocks: number;             // Unmastered skills that directly depend on this one
+  questions: LearningPathQuestion[];
+  estimatedMinutes: number;    // From the skill's learning-effort estimate
+}
+
+export interface LearningPlan {
+  steps: LearningPathStep[];
+  frontier: Set<string>;       // Wave 0: ready to study right now
+  masteredCount: number;
+  totalMinutes: number;
+}
+
+export interface LearningPathOptions {
+  masteryThreshold?: number;
+  maxSteps?: number;
+  maxQuestionsPerStep?: number;
+}
+
+/**
+ * Unattempted questions targeting a skill: primary-skill questions first,
+ * then the most focused (fewest mapped skills).
+ */
+function pickQuestions(
+  skillId: string,
+  questions: LearningPathQuestionSource[],
+  attemptedQuestionIds: Set<string>,
+  limit: number
+): LearningPathQuestion[] {
+  return questions
+    .filter(q => !attemptedQuestionIds.has(q.id) && (q.skills || []).includes(skillId))
+    .map(q => ({
+      id: q.id,
+      questionText: q.question_text,
+      isPrimary: (q.primary_skills || []).includes(skillId),
+      skillCount: (q.skills || []).length,
+    }))
+    .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary) || a.skillCount - b.skillCount)
+    .slice(0, limit)
+    .map(({ id, questionText, isPrimary }) => ({ id, questionText, isPrimary }));
+}
+
+/**
+ * Build an ordered study plan for one student.
+ *
+ * A skill is mastered when its propagated estimate (measured, or inferred
+ * from mastered dependents, after prerequisite caps) reaches the threshold.
+ * Wave 0 is the frontier: unmastered skills whose prerequisites are all
+ * mastered. Later waves assume the earlier ones get mastered, so the plan
+ * keeps walking down the DAG until maxSteps is reached.
+ *
+ * Within a wave, skills that unlock more unmastered dependents come first,
+ * then those closest to mastery, then the quickest to learn.
+ */
+export function buildLearningPath(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  mastery: Map<string, KPMastery>,
+  questions: LearningPathQuestionSource[],
+  attemptedQuestionIds: Set<string>,
+  options: LearningPathOptions = {}
+): LearningPlan {
+  const {
+    masteryThreshold = MASTERY_THRESHOLDS.mastered,
+    maxSteps = LEARNING_PATH_CONFIG.maxSteps,
+    maxQuestionsPerStep = LEARNING_PATH_CONFIG.maxQuestionsPerStep,
+  } = options;
+
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const propagated = propagateMastery(mastery, edges, nodeById.keys());
+
+  const prerequisites = new Map<string, string[]>();
+  const dependents = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (!nodeById.has(edge.from) || !nodeById.has(edge.to)) continue;
+    prerequisites.set(edge.to, [...(prerequisites.get(edge.to) || []), edge.from]);
+    dependents.set(edge.from, [...(dependents.get(edge.from) || []), edge.to]);
+  }
+
+  const mastered = new Set(
+    [...propagated.values()]
+      .filter(p => p.estimate !== null && p.estimate >= masteryThreshold)
+      .map(p => p.skillId)
+  );
+
+  const done = new Set(mastered);
+  const steps: LearningPathStep[] = [];
+  let frontier = new Set<string>();
+
+  for (let wave = 0; steps.length < maxSteps; wave++) {
+    const ready = nodes.filter(n =>
+      !done.has(n.id) && (prerequisites.get(n.id) || []).every(id => done.has(id))
+    );
+    if (ready.length === 0) break;
+
+    const candidates = ready.map(node => {
+      const estimate = propagated.get(node.id);
+      return {
+        node,
+        currentMastery: estimate?.estimate ?? null,
+        source: estimate?.source ?? 'none',
+        unlocks: (dependents.get(node.id) || []).filter(id => !done.has(id)).length,
+        estimatedMinutes: node.le?.estimatedMinutes ?? 0,
+      };
+    });
+
+    candidates.sort((a, b) =>
+      b.unlocks - a.unlocks
+      || (b.currentMastery ?? 0) - (a.currentMastery ?? 0)
+      || a.estimatedMinutes - b.estimatedMinutes
+    );
+
+    if (wave === 0) frontier = new Set(candidates.map(c => c.node.id));
+
+    for (const c of candidates.slice(0, maxSteps - steps.length)) {
+      steps.push({
+        skillId: c.node.id,
+        skillName: c.node.name,
+        wave,
+        currentMastery: c.currentMastery,
+        source: c.source,
+        prerequisites: prerequisites.get(c.node.id) || [],
+        unlocks: c.unlocks,
+        questions: pickQuestions(c.node.id, questions, attemptedQuestionIds, maxQuestionsPerStep),
+        estimatedMinutes: c.estimatedMinutes,
+      });
+    }
+
+    // Later waves assume this one is mastered (including skills beyond maxSteps)
+    ready.forEach(n => done.add(n.id));
+  }
+
+  return {
+    steps,
+    frontier,
+    masteredCount: mastered.size,
+    totalMinutes: steps.reduce((sum, s) => sum + s.estimatedMinutes, 0),
+  };
+}
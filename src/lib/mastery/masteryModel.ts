@@ -0,0 +1,123 @@
+// Pluggable mastery models: counting (correct/total) and Bayesian Knowledge Tracing
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DEFAULT_CREDIT_POLICY,
+  DEFAULT_DECAY_CONFIG,
+  type BKTParams,
+  type CreditPolicy,
+  type DecayConfig,
+} from './constants';
+import { buildQuestionsMap, fetchAllRows, mapAttemptRow } from './persistMastery';
+import { recomputeStudentMastery } from './rebuildMastery';
+import { computeBKTMastery, loadBKTParams } from './bkt';
+import type { KPMastery, QuestionWithWeights, StudentAttempt } from '@/types/mastery';
+
+export type MasteryModelId = 'counting' | 'bkt';
+
+export interface MasteryModelInput {
+  graphId: string;
+  studentId: string;
+  attempts: StudentAttempt[];
+  questionsMap: Map<string, QuestionWithWeights>;
+  decayConfig: DecayConfig;
+  creditPolicy: CreditPolicy;
+}
+
+/**
+ * A mastery model turns a student's attempt log into per-skill records.
+ * Params are whatever the model fits for a graph (loaded once, shared by all students).
+ */
+export interface MasteryModel<P = unknown> {
+  id: MasteryModelId;
+  label: string;
+  description: string;
+  loadParams: (graphId: string) => Promise<P>;
+  computeStudentMastery: (input: MasteryModelInput, params: P) => Map<string, KPMastery>;
+}
+
+export const countingModel: MasteryModel<null> = {
+  id: 'counting',
+  label: 'Counting',
+  description: 'Share of mapped questions answered correctly',
+  loadParams: async () => null,
+  computeStudentMastery: ({ graphId, studentId, attempts, questionsMap, decayConfig, creditPolicy }) =>
+    recomputeStudentMastery(graphId, studentId, attempts, questionsMap, decayConfig, creditPolicy),
+};
+
+export const bktModel: MasteryModel<Map<string, BKTParams>> = {
+  id: 'bkt',
+  label: 'BKT',
+  description: 'Probability the skill is known, accounting for order, guessing and slipping',
+  loadParams: loadBKTParams,
+  computeStudentMastery: ({ graphId, studentId, attempts, questionsMap, decayConfig, creditPolicy }, params) =>
+    computeBKTMastery(graphId, studentId, attempts, questionsMap, params, decayConfig, creditPolicy),
+};
+
+export const MASTERY_MODELS: Record<MasteryModelId, MasteryModel> = {
+  counting: countingModel as MasteryModel,
+  bkt: bktModel as MasteryModel,
+};
+
+export function getMasteryModel(id: MasteryModelId): MasteryModel {
+  return MASTERY_MODELS[id] ?? countingModel;
+}
+
+/**
+ * Load attempts for the given students and compute their mastery with a model.
+ *
+ * @returns Map of student ID -> mastery records by skill ID
+ */
+export async function loadModelMastery(
+  graphId: string,
+  studentIds: string[],
+  modelId: MasteryModelId,
+  decayConfig: DecayConfig = DEFAULT_DECAY_CONFIG,
+  creditPolicy: CreditPolicy = DEFAULT_CREDIT_POLICY
+): Promise<Map<string, Map<string, KPMastery>>> {
+  const result = new Map<string, Map<string, KPMastery>>();
+  if (studentIds.length === 0) return result;
+
+  const model = getMasteryModel(modelId);
+
+  const [attemptRows, questionRows, params] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase
+        .from('student_attempts')
+        .select('*')
+        .eq('graph_id', graphId)
+        .in('student_id', studentIds)
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('questions')
+        .select('id, graph_id, question_text, skills, primary_skills, skill_weights, weightage_multiplier')
+        .eq('graph_id', graphId)
+        .order('id')
+        .range(from, to)
+    ),
+    model.loadParams(graphId),
+  ]);
+
+  const questionsMap = buildQuestionsMap(questionRows);
+
+  const attemptsByStudent = new Map<string, StudentAttempt[]>();
+  for (const row of attemptRows) {
+    const attempt = mapAttemptRow(row);
+    const list = attemptsByStudent.get(attempt.studentId) || [];
+    list.push(attempt);
+    attemptsByStudent.set(attempt.studentId, list);
+  }
+
+  for (const studentId of studentIds) {
+    const attempts = attemptsByStudent.get(studentId) || [];
+    // Students without attempts have no records, as with stored mastery
+    result.set(studentId, attempts.length > 0
+      ? model.computeStudentMastery({ graphId, studentId, attempts, questionsMap, decayConfig, creditPolicy }, params)
+      : new Map());
+  }
+
+  return result;
+}
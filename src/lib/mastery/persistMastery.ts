@@ -2,7 +2,17 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { processAttemptsBatch, createEmptyMastery } from './calculateMastery';
-import type { StudentAttempt, QuestionWithWeights, KPMastery } from '@/types/mastery';
+import {
+  DEFAULT_CREDIT_POLICY,
+  DEFAULT_DECAY_CONFIG,
+  type CreditPolicy,
+  type DecayConfig,
+} from './constants';
+import { normalizeRubricMarks } from './rubricScoring';
+import type { Tables } from '@/integrations/supabase/types';
+import type { StudentAttempt, QuestionWithWeights, KPMastery, IndependenceLevel } from '@/types/mastery';
+
+const PAGE_SIZE = 1000;
 
 /**
  * Calculate mastery for a student and persist to database.
@@ -10,12 +20,19 @@ import type { StudentAttempt, QuestionWithWeights, KPMastery } from '@/types/mas
  * IMPORTANT: maxPoints for each KP is set to the TOTAL number of questions
  * in the graph that map to that KP, not just the attempted ones.
  * This ensures unattempted questions count as 0 (incorrect).
+ * 
+ * Stability evolves with each attempt according to the graph's decay config.
+ * 
+ * This is incremental: attempts are added on top of the stored records.
+ * Use rebuildMastery to recompute records from the full attempt log.
  */
 export async function calculateAndPersistMastery(
   graphId: string,
   studentId: string,
   attempts: StudentAttempt[],
-  questionsMap: Map<string, QuestionWithWeights>
+  questionsMap: Map<string, QuestionWithWeights>,
+  decayConfig: DecayConfig = DEFAULT_DECAY_CONFIG,
+  creditPolicy: CreditPolicy = DEFAULT_CREDIT_POLICY
 ): Promise<void> {
   if (attempts.length === 0) return;
 
@@ -29,24 +46,48 @@ export async function calculateAndPersistMastery(
   // Convert to Map<skillId, KPMastery>
   const masteryMap = new Map<string, KPMastery>();
   (existingMastery || []).forEach(m => {
-    masteryMap.set(m.skill_id, {
-      id: m.id,
-      graphId: m.graph_id,
-      studentId: m.student_id,
-      skillId: m.skill_id,
-      earnedPoints: Number(m.earned_points),
-      maxPoints: Number(m.max_points),
-      rawMastery: Number(m.raw_mastery),
-      lastReviewedAt: m.last_reviewed_at ? new Date(m.last_reviewed_at) : null,
-      stability: Number(m.stability),
-      retrievalCount: m.retrieval_count,
-    });
+    masteryMap.set(m.skill_id, mapMasteryRow(m));
   });
 
   // 2. Process all attempts through the mastery calculation
-  const updatedMastery = processAttemptsBatch(attempts, questionsMap, masteryMap);
+  const updatedMastery = processAttemptsBatch(attempts, questionsMap, masteryMap, decayConfig, creditPolicy);
 
-  // 3. Fix maxPoints: for each KP, set maxPoints = total questions in graph mapped to that KP
+  // 3. Fix maxPoints and add empty records for unattempted KPs
+  applyQuestionTotals(updatedMastery, questionsMap, graphId, studentId, decayConfig);
+
+  // 4. Upsert each mastery record to database
+  for (const [skillId, mastery] of updatedMastery) {
+    await supabase
+      .from('student_kp_mastery')
+      .upsert({
+        graph_id: graphId,
+        student_id: studentId,
+        skill_id: skillId,
+        earned_points: mastery.earnedPoints,
+        max_points: mastery.maxPoints,
+        raw_mastery: mastery.rawMastery,
+        last_reviewed_at: mastery.lastReviewedAt?.toISOString() || null,
+        stability: mastery.stability,
+        retrieval_count: mastery.retrievalCount,
+        attempt_count: mastery.attemptCount,
+      }, {
+        onConflict: 'graph_id,student_id,skill_id',
+      });
+  }
+}
+
+/**
+ * Set maxPoints for each KP to the total number of questions in the graph
+ * mapped to it, recalculate rawMastery, and create empty records for KPs
+ * that have questions but no attempts. Mutates and returns the map.
+ */
+export function applyQuestionTotals(
+  mastery: Map<string, KPMastery>,
+  questionsMap: Map<string, QuestionWithWeights>,
+  graphId: string,
+  studentId: string,
+  decayConfig: DecayConfig = DEFAULT_DECAY_CONFIG
+): Map<string, KPMastery> {
   // Build a map: skillId -> count of questions that include it
   const skillQuestionCount = new Map<string, number>();
   for (const question of questionsMap.values()) {
@@ -56,42 +97,82 @@ export async function calculateAndPersistMastery(
   }
 
   // Apply the correct maxPoints and recalculate rawMastery
-  for (const [skillId, mastery] of updatedMastery) {
-    const totalQuestions = skillQuestionCount.get(skillId) || mastery.maxPoints;
-    mastery.maxPoints = totalQuestions;
-    mastery.rawMastery = totalQuestions > 0
-      ? mastery.earnedPoints / totalQuestions
+  for (const [skillId, record] of mastery) {
+    const totalQuestions = skillQuestionCount.get(skillId) || record.maxPoints;
+    record.maxPoints = totalQuestions;
+    record.rawMastery = totalQuestions > 0
+      ? record.earnedPoints / totalQuestions
       : 0;
   }
 
   // Also create mastery records for KPs that have questions but no attempts
   for (const [skillId, count] of skillQuestionCount) {
-    if (!updatedMastery.has(skillId)) {
-      const empty = createEmptyMastery(graphId, studentId, skillId);
+    if (!mastery.has(skillId)) {
+      const empty = createEmptyMastery(graphId, studentId, skillId, decayConfig.initialStability);
       empty.maxPoints = count;
       empty.rawMastery = 0;
-      updatedMastery.set(skillId, empty);
+      mastery.set(skillId, empty);
     }
   }
 
-  // 4. Upsert each mastery record to database
-  for (const [skillId, mastery] of updatedMastery) {
-    await supabase
-      .from('student_kp_mastery')
-      .upsert({
-        graph_id: graphId,
-        student_id: studentId,
-        skill_id: skillId,
-        earned_points: mastery.earnedPoints,
-        max_points: mastery.maxPoints,
-        raw_mastery: mastery.rawMastery,
-        last_reviewed_at: mastery.lastReviewedAt?.toISOString() || null,
-        stability: 14.0,
-        retrieval_count: mastery.retrievalCount,
-      }, {
-        onConflict: 'graph_id,student_id,skill_id',
-      });
+  return mastery;
+}
+
+/**
+ * Fetch every row of a query, page by page (PostgREST caps single responses)
+ */
+export async function fetchAllRows<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
   }
+  return rows;
+}
+
+/**
+ * Map a student_kp_mastery row to a KPMastery record
+ */
+export function mapMasteryRow(m: Tables<'student_kp_mastery'>): KPMastery {
+  return {
+    id: m.id,
+    graphId: m.graph_id,
+    studentId: m.student_id,
+    skillId: m.skill_id,
+    earnedPoints: Number(m.earned_points),
+    maxPoints: Number(m.max_points),
+    rawMastery: Number(m.raw_mastery),
+    lastReviewedAt: m.last_reviewed_at ? new Date(m.last_reviewed_at) : null,
+    stability: Number(m.stability),
+    retrievalCount: m.retrieval_count,
+    attemptCount: m.attempt_count ?? 0,
+  };
+}
+
+/**
+ * Map a student_attempts row to a StudentAttempt record
+ */
+export function mapAttemptRow(a: Tables<'student_attempts'>): StudentAttempt {
+  return {
+    id: a.id,
+    graphId: a.graph_id,
+    classId: a.class_id ?? undefined,
+    studentId: a.student_id,
+    questionId: a.question_id,
+    isCorrect: a.is_correct,
+    solutionScore: Number(a.solution_score),
+    independenceLevel: a.independence_level as IndependenceLevel,
+    attemptedAt: new Date(a.attempted_at),
+    solutionViewed: a.solution_viewed,
+    aiTutorCount: a.ai_tutor_count,
+    totalSubmissions: a.total_submissions,
+    independenceScore: Number(a.independence_score),
+    rubricMarks: normalizeRubricMarks(a.rubric_marks),
+  };
 }
 
 /**
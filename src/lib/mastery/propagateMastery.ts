@@ -0,0 +1,180 @@
+// Prerequisite-aware mastery inference across the skill DAG
+
+import { PROPAGATION_CONFIG } from './constants';
+import type { GraphEdge } from '@/types/graph';
+import type { KPMastery } from '@/types/mastery';
+
+export type PropagationConfig = { [K in keyof typeof PROPAGATION_CONFIG]: number };
+
+export type MasterySource = 'measured' | 'inferred' | 'none';
+
+export interface PropagatedMastery {
+  skillId: string;
+  measured: number | null;     // Direct evidence (effective mastery); null = unassessed
+  inferred: number | null;     // Supported by mastered dependents (unassessed skills only)
+  cap: number | null;          // Upper bound from failing prerequisites
+  estimate: number | null;     // Best combined belief, null when nothing is known
+  source: MasterySource;
+  supportedBy: string[];       // Dependents the inferred value comes from
+  cappedBy: string[];          // Failing prerequisites, direct or further upstream
+}
+
+/**
+ * A record carries direct evidence once the student has attempted a
+ * question mapped to the skill. Rows stored before attempt counts were
+ * tracked fall back to having earned any points.
+ */
+export function hasDirectEvidence(record: KPMastery | undefined): boolean {
+  if (!record) return false;
+  return record.attemptCount > 0 || record.earnedPoints > 0;
+}
+
+/**
+ * Order skills so every prerequisite comes before its dependents.
+ * Skills caught in a cycle are appended in input order.
+ */
+function topologicalOrder(skillIds: string[], edges: Pick<GraphEdge, 'from' | 'to'>[]): string[] {
+  const inDegree = new Map(skillIds.map(id => [id, 0]));
+  const children = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (!inDegree.has(edge.from) || !inDegree.has(edge.to)) continue;
+    inDegree.set(edge.to, inDegree.get(edge.to)! + 1);
+    children.set(edge.from, [...(children.get(edge.from) || []), edge.to]);
+  }
+
+  const queue = skillIds.filter(id => inDegree.get(id) === 0);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const child of children.get(id) || []) {
+      const remaining = inDegree.get(child)! - 1;
+      inDegree.set(child, remaining);
+      if (remaining === 0) queue.push(child);
+    }
+  }
+
+  if (order.length < skillIds.length) {
+    const placed = new Set(order);
+    order.push(...skillIds.filter(id => !placed.has(id)));
+  }
+  return order;
+}
+
+/**
+ * Infer mastery for skills without direct evidence from their neighbours
+ * in the prerequisite graph (edge from = prerequisite, to = dependent).
+ *
+ * Support flows down to prerequisites: a dependent at or above
+ * config.strongEvidence implies its unassessed prerequisites are known to
+ * at least that level × supportDecay per hop. Inferred values only pass
+ * further upstream while they are themselves strong.
+ *
+ * Caps flow up to dependents: a prerequisite measured below
+ * config.failureThreshold over at least config.minFailedAttempts attempts
+ * bounds every skill built on it at its mastery + capMargin. Caps apply to
+ * measured and inferred skills alike; measured values are never changed.
+ *
+ * @param mastery - Mastery records by skill ID (effective mastery is used when present)
+ * @param edges - Prerequisite edges of the graph
+ * @param skillIds - All skills in the graph, including those without records
+ * @returns Propagated view by skill ID
+ */
+export function propagateMastery(
+  mastery: Map<string, KPMastery>,
+  edges: Pick<GraphEdge, 'from' | 'to'>[],
+  skillIds: Iterable<string> = mastery.keys(),
+  config: PropagationConfig = PROPAGATION_CONFIG
+): Map<string, PropagatedMastery> {
+  const ids = [...new Set(skillIds)];
+  const known = new Set(ids);
+
+  const prerequisites = new Map<string, string[]>();
+  const dependents = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (!known.has(edge.from) || !known.has(edge.to) || edge.from === edge.to) continue;
+    prerequisites.set(edge.to, [...(prerequisites.get(edge.to) || []), edge.from]);
+    dependents.set(edge.from, [...(dependents.get(edge.from) || []), edge.to]);
+  }
+
+  const result = new Map<string, PropagatedMastery>();
+  for (const skillId of ids) {
+    const record = mastery.get(skillId);
+    const measured = hasDirectEvidence(record)
+      ? record!.effectiveMastery ?? record!.rawMastery
+      : null;
+    result.set(skillId, {
+      skillId,
+      measured,
+      inferred: null,
+      cap: null,
+      estimate: null,
+      source: measured !== null ? 'measured' : 'none',
+      supportedBy: [],
+      cappedBy: [],
+    });
+  }
+
+  const order = topologicalOrder(ids, edges);
+
+  // Support a dependent passes to its prerequisites, if strong enough
+  const supportFrom = (skillId: string): number | null => {
+    const node = result.get(skillId)!;
+    const value = node.measured ?? node.inferred;
+    return value !== null && value >= config.strongEvidence ? value : null;
+  };
+
+  // Dependents before prerequisites
+  for (const skillId of [...order].reverse()) {
+    const node = result.get(skillId)!;
+    if (node.measured !== null) continue;
+
+    let best: number | null = null;
+    for (const dependentId of dependents.get(skillId) || []) {
+      const support = supportFrom(dependentId);
+      if (support === null) continue;
+      node.supportedBy.push(dependentId);
+      best = Math.max(best ?? 0, support * config.supportDecay);
+    }
+
+    if (best !== null) {
+      node.inferred = best;
+      node.source = 'inferred';
+    }
+  }
+
+  const isFailing = (skillId: string): boolean => {
+    const node = result.get(skillId)!;
+    const record = mastery.get(skillId);
+    return node.measured !== null
+      && node.measured < config.failureThreshold
+      && (record?.attemptCount ?? 0) >= config.minFailedAttempts;
+  };
+
+  // Prerequisites before dependents
+  for (const skillId of order) {
+    const node = result.get(skillId)!;
+    const cappedBy = new Set<string>();
+
+    for (const prerequisiteId of prerequisites.get(skillId) || []) {
+      const prerequisite = result.get(prerequisiteId)!;
+      let limit = prerequisite.cap;
+      prerequisite.cappedBy.forEach(id => cappedBy.add(id));
+
+      if (isFailing(prerequisiteId)) {
+        const own = Math.min(1, prerequisite.measured! + config.capMargin);
+        limit = limit === null ? own : Math.min(limit, own);
+        cappedBy.add(prerequisiteId);
+      }
+
+      if (limit !== null) node.cap = node.cap === null ? limit : Math.min(node.cap, limit);
+    }
+
+    node.cappedBy = [...cappedBy];
+
+    const base = node.measured ?? node.inferred;
+    node.estimate = base === null ? null : Math.min(base, node.cap ?? 1);
+  }
+
+  return result;
+}
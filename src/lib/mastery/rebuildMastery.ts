@@ -0,0 +1,329 @@
+// Deterministic recomputation of student_kp_mastery from the attempt log
+
+import { supabase } from '@/integrations/supabase/client';
+import { processAttemptsBatch } from './calculateMastery';
+import {
+  DEFAULT_CREDIT_POLICY,
+  DEFAULT_DECAY_CONFIG,
+  type CreditPolicy,
+  type DecayConfig,
+} from './constants';
+import { loadCreditPolicy } from './creditPolicy';
+import {
+  applyQuestionTotals,
+  buildQuestionsMap,
+  fetchAllRows,
+  mapAttemptRow,
+  mapMasteryRow,
+} from './persistMastery';
+import type { KPMastery, QuestionWithWeights, StudentAttempt } from '@/types/mastery';
+
+const EPSILON = 1e-9;
+
+// Which students to rebuild
+export type MasteryRebuildScope =
+  | { studentId: string }
+  | { studentIds: string[] }
+  | { classId: string }
+  | { wholeGraph: true };
+
+export interface MasteryChange {
+  studentId: string;
+  skillId: string;
+  kind: 'added' | 'updated' | 'removed';
+  before: KPMastery | null;
+  after: KPMastery | null;
+  changedFields: (keyof KPMastery)[];
+}
+
+export interface MasteryRebuildReport {
+  dryRun: boolean;
+  studentsProcessed: number;
+  attemptsReplayed: number;
+  duplicateAttempts: number;       // Identical log entries counted once
+  unmatchedAttempts: number;       // Attempts whose question no longer exists
+  unchangedRecords: number;
+  changes: MasteryChange[];
+}
+
+export interface MasteryRebuildOptions {
+  decayConfig?: DecayConfig;
+  creditPolicy?: CreditPolicy;     // Defaults to the graph's stored policy
+  dryRun?: boolean;                // Compute the diff without writing
+}
+
+const COMPARED_FIELDS: (keyof KPMastery)[] = [
+  'earnedPoints',
+  'maxPoints',
+  'rawMastery',
+  'stability',
+  'retrievalCount',
+  'attemptCount',
+  'lastReviewedAt',
+];
+
+/**
+ * Identity of an attempt event. Re-uploading the same CSV produces rows
+ * with the same student, question, timestamp and outcome.
+ */
+export function getAttemptKey(
+  attempt: Pick<StudentAttempt, 'studentId' | 'questionId' | 'attemptedAt' | 'isCorrect'>
+): string {
+  return `${attempt.studentId}|${attempt.questionId}|${attempt.attemptedAt.getTime()}|${attempt.isCorrect ? 1 : 0}`;
+}
+
+/**
+ * Drop repeated log entries and put the rest in a stable order
+ * (by timestamp, then ID) so replay is deterministic.
+ */
+export function dedupeAttempts(attempts: StudentAttempt[]): {
+  attempts: StudentAttempt[];
+  duplicates: number;
+} {
+  const sorted = [...attempts].sort((a, b) =>
+    a.attemptedAt.getTime() - b.attemptedAt.getTime() || a.id.localeCompare(b.id)
+  );
+
+  const seen = new Set<string>();
+  const unique: StudentAttempt[] = [];
+  for (const attempt of sorted) {
+    const key = getAttemptKey(attempt);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    unique.push(attempt);
+  }
+
+  return { attempts: unique, duplicates: attempts.length - unique.length };
+}
+
+/**
+ * Recompute every KP record for one student from scratch.
+ * Pure: the same attempts and questions always yield the same records.
+ */
+export function recomputeStudentMastery(
+  graphId: string,
+  studentId: string,
+  attempts: StudentAttempt[],
+  questionsMap: Map<string, QuestionWithWeights>,
+  decayConfig: DecayConfig = DEFAULT_DECAY_CONFIG,
+  creditPolicy: CreditPolicy = DEFAULT_CREDIT_POLICY
+): Map<string, KPMastery> {
+  const { attempts: unique } = dedupeAttempts(attempts);
+  const mastery = processAttemptsBatch(unique, questionsMap, new Map(), decayConfig, creditPolicy);
+  return applyQuestionTotals(mastery, questionsMap, graphId, studentId, decayConfig);
+}
+
+function valuesDiffer(a: KPMastery[keyof KPMastery], b: KPMastery[keyof KPMastery]): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return (a instanceof Date ? a.getTime() : null) !== (b instanceof Date ? b.getTime() : null);
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) > EPSILON;
+  }
+  return a !== b;
+}
+
+/**
+ * Compare stored records with recomputed ones for a single student
+ */
+export function diffMastery(
+  studentId: string,
+  before: KPMastery[],
+  after: Map<string, KPMastery>
+): { changes: MasteryChange[]; unchanged: number } {
+  const changes: MasteryChange[] = [];
+  let unchanged = 0;
+  const beforeBySkill = new Map(before.map(m => [m.skillId, m]));
+
+  for (const [skillId, next] of after) {
+    const previous = beforeBySkill.get(skillId);
+    if (!previous) {
+      changes.push({ studentId, skillId, kind: 'added', before: null, after: next, changedFields: [...COMPARED_FIELDS] });
+      continue;
+    }
+    const changedFields = COMPARED_FIELDS.filter(f => valuesDiffer(previous[f], next[f]));
+    if (changedFields.length > 0) {
+      changes.push({ studentId, skillId, kind: 'updated', before: previous, after: next, changedFields });
+    } else {
+      unchanged += 1;
+    }
+  }
+
+  for (const [skillId, previous] of beforeBySkill) {
+    if (!after.has(skillId)) {
+      changes.push({ studentId, skillId, kind: 'removed', before: previous, after: null, changedFields: [] });
+    }
+  }
+
+  return { changes, unchanged };
+}
+
+/**
+ * Keys (see getAttemptKey) of every attempt already logged for these students
+ */
+export async function loadLoggedAttemptKeys(
+  graphId: string,
+  studentIds: string[]
+): Promise<Set<string>> {
+  if (studentIds.length === 0) return new Set();
+
+  const rows = await fetchAllRows((from, to) =>
+    supabase
+      .from('student_attempts')
+      .select('id, student_id, question_id, attempted_at, is_correct')
+      .eq('graph_id', graphId)
+      .in('student_id', studentIds)
+      .order('id')
+      .range(from, to)
+  );
+
+  return new Set(rows.map(r => getAttemptKey({
+    studentId: r.student_id,
+    questionId: r.question_id,
+    attemptedAt: new Date(r.attempted_at),
+    isCorrect: r.is_correct,
+  })));
+}
+
+async function resolveStudentIds(
+  scope: MasteryRebuildScope
+): Promise<string[] | null> {
+  if ('studentId' in scope) return [scope.studentId];
+  if ('studentIds' in scope) return [...new Set(scope.studentIds)];
+  if ('classId' in scope) {
+    const { data, error } = await supabase
+      .from('class_students')
+      .select('student_id')
+      .eq('class_id', scope.classId);
+    if (error) throw error;
+    return (data || []).map(s => s.student_id);
+  }
+  return null; // Whole graph: every student with attempts or stored mastery
+}
+
+/**
+ * Rebuild student_kp_mastery for a student, class or whole graph by
+ * replaying student_attempts as an event log.
+ *
+ * Stored records are replaced rather than added to, so running this
+ * repeatedly gives the same result. Records for skills no longer mapped
+ * to any question (or attempted) are removed. Returns a diff of what changed.
+ */
+export async function rebuildMastery(
+  graphId: string,
+  scope: MasteryRebuildScope,
+  { decayConfig = DEFAULT_DECAY_CONFIG, creditPolicy, dryRun = false }: MasteryRebuildOptions = {}
+): Promise<MasteryRebuildReport> {
+  const studentIds = await resolveStudentIds(scope);
+  const policy = creditPolicy ?? await loadCreditPolicy(graphId);
+  const report: MasteryRebuildReport = {
+    dryRun,
+    studentsProcessed: 0,
+    attemptsReplayed: 0,
+    duplicateAttempts: 0,
+    unmatchedAttempts: 0,
+    unchangedRecords: 0,
+    changes: [],
+  };
+  if (studentIds && studentIds.length === 0) return report;
+
+  const [attemptRows, masteryRows, questionRows] = await Promise.all([
+    fetchAllRows((from, to) => {
+      let query = supabase.from('student_attempts').select('*').eq('graph_id', graphId);
+      if (studentIds) query = query.in('student_id', studentIds);
+      return query.order('id').range(from, to);
+    }),
+    fetchAllRows((from, to) => {
+      let query = supabase.from('student_kp_mastery').select('*').eq('graph_id', graphId);
+      if (studentIds) query = query.in('student_id', studentIds);
+      return query.order('id').range(from, to);
+    }),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('questions')
+        .select('id, graph_id, question_text, skills, primary_skills, skill_weights, cognitive_complexity, task_structure, algorithmic_demands, scope_integration, weightage_multiplier')
+        .eq('graph_id', graphId)
+        .order('id')
+        .range(from, to)
+    ),
+  ]);
+
+  const questionsMap = buildQuestionsMap(questionRows);
+
+  // Group the log and the stored records by student
+  const attemptsByStudent = new Map<string, StudentAttempt[]>();
+  for (const row of attemptRows) {
+    const attempt = mapAttemptRow(row);
+    const list = attemptsByStudent.get(attempt.studentId) || [];
+    list.push(attempt);
+    attemptsByStudent.set(attempt.studentId, list);
+  }
+
+  const storedByStudent = new Map<string, KPMastery[]>();
+  for (const row of masteryRows) {
+    const record = mapMasteryRow(row);
+    const list = storedByStudent.get(record.studentId) || [];
+    list.push(record);
+    storedByStudent.set(record.studentId, list);
+  }
+
+  const targets = studentIds ?? [...new Set([...attemptsByStudent.keys(), ...storedByStudent.keys()])];
+
+  for (const studentId of [...targets].sort()) {
+    const log = attemptsByStudent.get(studentId) || [];
+    const stored = storedByStudent.get(studentId) || [];
+
+    const { attempts, duplicates } = dedupeAttempts(log);
+    report.duplicateAttempts += duplicates;
+    report.unmatchedAttempts += attempts.filter(a => !questionsMap.has(a.questionId)).length;
+    report.attemptsReplayed += attempts.length;
+
+    // No evidence at all: the student should have no records
+    const rebuilt = attempts.length > 0
+      ? recomputeStudentMastery(graphId, studentId, attempts, questionsMap, decayConfig, policy)
+      : new Map<string, KPMastery>();
+
+    const { changes, unchanged } = diffMastery(studentId, stored, rebuilt);
+    report.changes.push(...changes);
+    report.unchangedRecords += unchanged;
+    report.studentsProcessed += 1;
+
+    if (dryRun) continue;
+
+    const upserts = changes
+      .filter(c => c.after)
+      .map(c => ({
+        graph_id: graphId,
+        student_id: studentId,
+        skill_id: c.skillId,
+        earned_points: c.after!.earnedPoints,
+        max_points: c.after!.maxPoints,
+        raw_mastery: c.after!.rawMastery,
+        last_reviewed_at: c.after!.lastReviewedAt?.toISOString() || null,
+        stability: c.after!.stability,
+        retrieval_count: c.after!.retrievalCount,
+        attempt_count: c.after!.attemptCount,
+      }));
+
+    if (upserts.length > 0) {
+      const { error } = await supabase
+        .from('student_kp_mastery')
+        .upsert(upserts, { onConflict: 'graph_id,student_id,skill_id' });
+      if (error) throw error;
+    }
+
+    const removedIds = changes
+      .filter(c => c.kind === 'removed' && c.before?.id)
+      .map(c => c.before!.id!);
+
+    if (removedIds.length > 0) {
+      const { error } = await supabase
+        .from('student_kp_mastery')
+        .delete()
+        .in('id', removedIds);
+      if (error) throw error;
+    }
+  }
+
+  return report;
+}
@@ -1,60 +1,97 @@
-// Ebbinghaus forgetting curve implementation
-
-import { 
-  INITIAL_STABILITY, 
-  STABILITY_A,
-  STABILITY_B,
-  STABILITY_C,
-  STABILITY_D,
-  RETENTION_THRESHOLDS 
+// FSRS-style forgetting curve and stability model
+
+import {
+  DEFAULT_DECAY_CONFIG,
+  RETENTION_THRESHOLDS,
+  type DecayConfig,
 } from './constants';
 import type { RetentionStatus } from '@/types/mastery';
 
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
 /**
- * Calculate retention using Ebbinghaus forgetting curve
- * R(t) = e^(-t/S)
- * 
+ * Curve factor F such that R(S) = 0.9 for the configured decay exponent
+ */
+function getCurveFactor(config: DecayConfig): number {
+  return Math.pow(0.9, 1 / config.decay) - 1;
+}
+
+/**
+ * Days elapsed between two dates (never negative)
+ */
+function daysBetween(from: Date, to: Date): number {
+  return Math.max(0, (to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Calculate retention using a power-law forgetting curve
+ * R(t) = (1 + F × t / S)^DECAY
+ *
  * @param lastReviewedAt - Date of last successful attempt
- * @param stability - Memory strength (grows with successful recalls)
+ * @param stability - Memory strength in days (grows with successful recalls)
+ * @param now - Moment at which to evaluate retention
+ * @param config - Decay parameters
  * @returns Retention factor between 0 and 1
  */
 export function calculateRetention(
   lastReviewedAt: Date | null,
-  stability: number
+  stability: number,
+  now: Date = new Date(),
+  config: DecayConfig = DEFAULT_DECAY_CONFIG
 ): number {
   // If never reviewed, assume full retention (no decay yet)
   if (!lastReviewedAt) return 1.0;
-  
-  const now = new Date();
-  const daysSince = (now.getTime() - lastReviewedAt.getTime()) / (1000 * 60 * 60 * 24);
-  
-  // Ensure stability is at least the initial value
-  const effectiveStability = Math.max(stability, INITIAL_STABILITY);
-  
-  // R(t) = e^(-t/S)
-  return Math.exp(-daysSince / effectiveStability);
+
+  const daysSince = daysBetween(lastReviewedAt, now);
+  const effectiveStability = Math.max(stability, config.minStability);
+
+  return Math.pow(1 + getCurveFactor(config) * daysSince / effectiveStability, config.decay);
 }
 
 /**
- * Update stability after a successful retrieval using multiplicative formula
- * S_new = S_old × (A × S_old^(-B) × e^(C × R) + D)
- * 
- * Where R = retention at the moment of review (computed from time since last review)
- * 
+ * Update stability after a successful retrieval
+ * S_new = S × (1 + GROWTH × S^(-DAMPING) × (e^(GAIN × (1 - R)) - 1))
+ *
+ * Where R = retention at the moment of review. Recalling right after the
+ * last review (R ≈ 1) barely changes stability; recalling after the memory
+ * has decayed grows it the most.
+ *
  * @param currentStability - Current memory strength
  * @param lastReviewedAt - Date of last review (to compute retention at review time)
+ * @param reviewedAt - Date of this review
+ * @param config - Decay parameters
  * @returns New stability value
  */
 export function updateStability(
   currentStability: number,
-  lastReviewedAt: Date | null
+  lastReviewedAt: Date | null,
+  reviewedAt: Date = new Date(),
+  config: DecayConfig = DEFAULT_DECAY_CONFIG
+): number {
+  // First successful recall establishes the memory at its initial stability
+  if (!lastReviewedAt) return Math.max(currentStability, config.minStability);
+
+  const R = calculateRetention(lastReviewedAt, currentStability, reviewedAt, config);
+  const increase = config.growth
+    * Math.pow(currentStability, -config.stabilityDamping)
+    * (Math.exp(config.retrievabilityGain * (1 - R)) - 1);
+
+  return currentStability * (1 + increase);
+}
+
+/**
+ * Update stability after a failed retrieval
+ * S_new = max(MIN, S × LAPSE)
+ *
+ * A failure before anything was recalled is not a lapse and leaves stability unchanged.
+ */
+export function applyLapse(
+  currentStability: number,
+  lastReviewedAt: Date | null,
+  config: DecayConfig = DEFAULT_DECAY_CONFIG
 ): number {
-  // Compute retention at the moment of this review
-  const R = calculateRetention(lastReviewedAt, currentStability);
-  
-  // S_new = S_old × (A × S_old^(-B) × e^(C × R) + D)
-  const multiplier = STABILITY_A * Math.pow(currentStability, -STABILITY_B) * Math.exp(STABILITY_C * R) + STABILITY_D;
-  return currentStability * multiplier;
+  if (!lastReviewedAt) return currentStability;
+  return Math.max(config.minStability, currentStability * config.lapseFactor);
 }
 
 /**
@@ -66,29 +103,43 @@ export function getRetentionStatus(retention: number): RetentionStatus {
   return 'expired';
 }
 
+/**
+ * Days after the last review at which retention falls to the target value
+ * t = S × (target^(1/DECAY) - 1) / F
+ */
+export function daysUntilRetention(
+  stability: number,
+  targetRetention: number,
+  config: DecayConfig = DEFAULT_DECAY_CONFIG
+): number {
+  const effectiveStability = Math.max(stability, config.minStability);
+  return effectiveStability * (Math.pow(targetRetention, 1 / config.decay) - 1) / getCurveFactor(config);
+}
+
 /**
  * Calculate days until knowledge "expires" (drops below aging threshold)
- * 
+ *
  * @param stability - Current memory strength
- * @param currentRetention - Current retention factor
+ * @param lastReviewedAt - Date of last successful review
+ * @param now - Moment from which to count
+ * @param config - Decay parameters
  * @returns Days until expiry, or null if already expired
  */
 export function daysUntilExpiry(
   stability: number,
-  currentRetention: number
+  lastReviewedAt: Date | null,
+  now: Date = new Date(),
+  config: DecayConfig = DEFAULT_DECAY_CONFIG
 ): number | null {
+  const currentRetention = calculateRetention(lastReviewedAt, stability, now, config);
   if (currentRetention < RETENTION_THRESHOLDS.aging) {
     return null; // Already expired
   }
-  
-  // Solve for t when R(t) = threshold
-  // threshold = e^(-t/S)
-  // ln(threshold) = -t/S
-  // t = -S * ln(threshold)
-  const daysToAging = -stability * Math.log(RETENTION_THRESHOLDS.aging);
-  const daysSince = 0;
-  
-  return Math.max(0, daysToAging - daysSince);
+
+  const daysToExpiry = daysUntilRetention(stability, RETENTION_THRESHOLDS.aging, config);
+  const daysSince = lastReviewedAt ? daysBetween(lastReviewedAt, now) : 0;
+
+  return Math.max(0, daysToExpiry - daysSince);
 }
 
 /**
@@ -97,11 +148,13 @@ export function daysUntilExpiry(
 export function calculateEffectiveMastery(
   rawMastery: number,
   lastReviewedAt: Date | null,
-  stability: number
+  stability: number,
+  now: Date = new Date(),
+  config: DecayConfig = DEFAULT_DECAY_CONFIG
 ): { effectiveMastery: number; retentionFactor: number; retentionStatus: RetentionStatus } {
-  const retentionFactor = calculateRetention(lastReviewedAt, stability);
+  const retentionFactor = calculateRetention(lastReviewedAt, stability, now, config);
   const effectiveMastery = rawMastery * retentionFactor;
   const retentionStatus = getRetentionStatus(retentionFactor);
-  
+
   return { effectiveMastery, retentionFactor, retentionStatus };
 }
@@ -0,0 +1,297 @@
+// Spaced-review scheduling: due dates from stability and daily per-student queues
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DEFAULT_DECAY_CONFIG,
+  RETENTION_THRESHOLDS,
+  REVIEW_SCHEDULE_CONFIG,
+  type DecayConfig,
+} from './constants';
+import { calculateRetention, daysUntilRetention } from './retentionDecay';
+import { fetchAllRows, mapAttemptRow, mapMasteryRow } from './persistMastery';
+import { loadDecayConfig } from './decayConfig';
+import type { LearningPathQuestionSource } from './learningPath';
+import type { KPMastery, StudentAttempt } from '@/types/mastery';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export interface DueReview {
+  skillId: string;
+  retention: number;           // On the queue date
+  dueDate: Date;
+  daysOverdue: number;         // Whole days past the due date (0 = due today)
+}
+
+export interface ReviewItem extends DueReview {
+  questionId: string;
+  questionText: string;
+  alsoReviews: string[];       // Other due skills the same question covers
+}
+
+export interface ReviewQueue {
+  studentId: string;
+  studentName?: string;
+  date: Date;
+  items: ReviewItem[];
+  dueSkillCount: number;       // Due skills, including any beyond the daily limit
+  unscheduledSkills: string[]; // Due skills with no question to review them
+}
+
+export interface ReviewQueueOptions {
+  date?: Date;
+  decayConfig?: DecayConfig;
+  maxItems?: number;
+}
+
+/**
+ * Date on which retention falls to the review threshold.
+ * Skills never answered correctly have nothing to review yet.
+ */
+export function getReviewDueDate(
+  record: KPMastery,
+  decayConfig: DecayConfig = DEFAULT_DECAY_CONFIG
+): Date | null {
+  if (!record.lastReviewedAt) return null;
+  const days = daysUntilRetention(record.stability, REVIEW_SCHEDULE_CONFIG.dueRetention, decayConfig);
+  return new Date(record.lastReviewedAt.getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * Skills due for review by the end of the given day, highest priority first.
+ *
+ * Priority is the distance between current retention and the aging
+ * boundary: a review just before a skill expires (or just after) does the
+ * most good, while long-expired skills need relearning rather than review.
+ * The forgetting curve is applied even when decay is disabled for mastery
+ * display, since stability is always tracked.
+ */
+export function getDueReviews(
+  records: KPMastery[],
+  date: Date = new Date(),
+  decayConfig: DecayConfig = DEFAULT_DECAY_CONFIG
+): DueReview[] {
+  const endOfDay = new Date(date);
+  endOfDay.setHours(23, 59, 59, 999);
+
+  const due: DueReview[] = [];
+  for (const record of records) {
+    const dueDate = getReviewDueDate(record, decayConfig);
+    if (!dueDate || dueDate > endOfDay) continue;
+
+    due.push({
+      skillId: record.skillId,
+      retention: calculateRetention(record.lastReviewedAt, record.stability, date, decayConfig),
+      dueDate,
+      daysOverdue: Math.max(0, Math.floor((date.getTime() - dueDate.getTime()) / MS_PER_DAY)),
+    });
+  }
+
+  const distance = (d: DueReview) => Math.abs(d.retention - RETENTION_THRESHOLDS.aging);
+  return due.sort((a, b) => distance(a) - distance(b) || b.daysOverdue - a.daysOverdue);
+}
+
+/**
+ * Build one student's review queue for a day.
+ *
+ * Each due skill gets one question mapped to it, preferring questions the
+ * student has answered correctly before (retrieval of something learned),
+ * least recently attempted first, then primary-skill questions. A question
+ * that also covers other due skills reviews them too, so they are not
+ * queued separately.
+ */
+export function buildReviewQueue(
+  studentId: string,
+  records: KPMastery[],
+  questions: LearningPathQuestionSource[],
+  attempts: StudentAttempt[],
+  options: ReviewQueueOptions = {}
+): ReviewQueue {
+  const {
+    date = new Date(),
+    decayConfig = DEFAULT_DECAY_CONFIG,
+    maxItems = REVIEW_SCHEDULE_CONFIG.maxItemsPerDay,
+  } = options;
+
+  const due = getDueReviews(records, date, decayConfig);
+  const dueIds = new Set(due.map(d => d.skillId));
+
+  // Last attempt per question, and whether it was ever answered correctly
+  const lastAttempted = new Map<string, number>();
+  const answeredCorrectly = new Set<string>();
+  for (const attempt of attempts) {
+    if (attempt.studentId !== studentId) continue;
+    const time = attempt.attemptedAt.getTime();
+    lastAttempted.set(attempt.questionId, Math.max(lastAttempted.get(attempt.questionId) ?? 0, time));
+    if (attempt.isCorrect) answeredCorrectly.add(attempt.questionId);
+  }
+
+  const covered = new Set<string>();
+  const usedQuestions = new Set<string>();
+  const items: ReviewItem[] = [];
+  const unscheduledSkills: string[] = [];
+
+  for (const review of due) {
+    if (items.length >= maxItems) break;
+    if (covered.has(review.skillId)) continue;
+
+    const candidates = questions
+      .filter(q => !usedQuestions.has(q.id) && (q.skills || []).includes(review.skillId))
+      .sort((a, b) =>
+        Number(answeredCorrectly.has(b.id)) - Number(answeredCorrectly.has(a.id))
+        || (lastAttempted.get(a.id) ?? 0) - (lastAttempted.get(b.id) ?? 0)
+        || Number((b.primary_skills || []).includes(review.skillId)) - Number((a.primary_skills || []).includes(review.skillId))
+      );
+
+    const question = candidates[0];
+    if (!question) {
+      unscheduledSkills.push(review.skillId);
+      continue;
+    }
+
+    const alsoReviews = (question.skills || [])
+      .filter(id => id !== review.skillId && dueIds.has(id) && !covered.has(id));
+
+    covered.add(review.skillId);
+    alsoReviews.forEach(id => covered.add(id));
+    usedQuestions.add(question.id);
+
+    items.push({
+      ...review,
+      questionId: question.id,
+      questionText: question.question_text,
+      alsoReviews,
+    });
+  }
+
+  return { studentId, date, items, dueSkillCount: due.length, unscheduledSkills };
+}
+
+/**
+ * Build review queues for every student enrolled in a class
+ */
+export async function loadClassReviewQueues(
+  graphId: string,
+  classId: string,
+  date: Date = new Date()
+): Promise<ReviewQueue[]> {
+  const { data: enrolled, error: enrolledError } = await supabase
+    .from('class_students')
+    .select('student_id, student_name')
+    .eq('class_id', classId)
+    .order('student_name');
+
+  if (enrolledError) throw enrolledError;
+  const studentIds = (enrolled || []).map(s => s.student_id);
+  if (studentIds.length === 0) return [];
+
+  const [masteryRows, attemptRows, questions, decayConfig] = await Promise.all([
+    fetchAllRows((from, to) =>
+      supabase
+        .from('student_kp_mastery')
+        .select('*')
+        .eq('graph_id', graphId)
+        .in('student_id', studentIds)
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('student_attempts')
+        .select('*')
+        .eq('graph_id', graphId)
+        .in('student_id', studentIds)
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllRows((from, to) =>
+      supabase
+        .from('questions')
+        .select('id, question_text, skills, primary_skills')
+        .eq('graph_id', graphId)
+        .order('id')
+        .range(from, to)
+    ),
+    loadDecayConfig(graphId),
+  ]);
+
+  const attempts = attemptRows.map(mapAttemptRow);
+
+  const recordsByStudent = new Map<string, KPMastery[]>();
+  for (const row of masteryRows) {
+    const list = recordsByStudent.get(row.student_id) || [];
+    list.push(mapMasteryRow(row));
+    recordsByStudent.set(row.student_id, list);
+  }
+
+  return (enrolled || []).map(student => ({
+    ...buildReviewQueue(
+      student.student_id,
+      recordsByStudent.get(student.student_id) || [],
+      questions,
+      attempts,
+      { date, decayConfig }
+    ),
+    studentName: student.student_name,
+  }));
+}
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per queued question
+ */
+export function reviewQueuesToCsv(queues: ReviewQueue[], skillNames: Record<string, string> = {}): string {
+  const header = [
+    'date', 'student_id', 'student_name', 'position', 'skill_id', 'skill_name',
+    'retention', 'due_date', 'days_overdue', 'question_id', 'question_text', 'also_reviews',
+  ];
+  const rows = queues.flatMap(queue =>
+    queue.items.map((item, idx) => [
+      toDateString(queue.date),
+      queue.studentId,
+      queue.studentName ?? '',
+      idx + 1,
+      item.skillId,
+      skillNames[item.skillId] ?? '',
+      item.retention.toFixed(3),
+      toDateString(item.dueDate),
+      item.daysOverdue,
+      item.questionId,
+      item.questionText,
+      item.alsoReviews.join(';'),
+    ])
+  );
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+/**
+ * Queues grouped by student
+ */
+export function reviewQueuesToJson(queues: ReviewQueue[], skillNames: Record<string, string> = {}): string {
+  return JSON.stringify(
+    queues.map(queue => ({
+      date: toDateString(queue.date),
+      studentId: queue.studentId,
+      studentName: queue.studentName ?? null,
+      dueSkillCount: queue.dueSkillCount,
+      unscheduledSkills: queue.unscheduledSkills,
+      items: queue.items.map(item => ({
+        skillId: item.skillId,
+        skillName: skillNames[item.skillId] ?? null,
+        retention: Number(item.retention.toFixed(3)),
+        dueDate: toDateString(item.dueDate),
+        daysOverdue: item.daysOverdue,
+        questionId: item.questionId,
+        questionText: item.questionText,
+        alsoReviews: item.alsoReviews,
+      })),
+    })),
+    null,
+    2
+  );
+}
@@ -0,0 +1,156 @@
+// Coding rubric marks: partial credit for attempts and per-dimension profiles
+
+import { supabase } from '@/integrations/supabase/client';
+import { CODING_RUBRIC_DIMENSIONS, type RubricDimension } from './constants';
+import { fetchAllRows } from './persistMastery';
+import type { RubricDimensionKey, RubricMarks, StudentAttempt } from '@/types/mastery';
+
+export interface RubricDimensionStats {
+  key: RubricDimensionKey;
+  name: string;
+  earned: number;
+  max: number;
+  percent: number;             // earned / max (0 when never scored)
+  scoredAttempts: number;
+}
+
+export interface RubricProfile {
+  dimensions: RubricDimensionStats[];
+  scoredAttempts: number;      // Attempts with at least one dimension scored
+  weakest: RubricDimensionKey | null;
+}
+
+export interface RubricProfiles {
+  cohort: RubricProfile;
+  students: Map<string, RubricProfile>;
+}
+
+/**
+ * Clamp stored or entered marks to each dimension's range.
+ * Returns null when no dimension is scored.
+ */
+export function normalizeRubricMarks(raw: unknown): RubricMarks | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const source = raw as Record<string, unknown>;
+  const marks: RubricMarks = {};
+
+  for (const dimension of CODING_RUBRIC_DIMENSIONS) {
+    const rawValue = source[dimension.key];
+    if (rawValue === null || rawValue === undefined) continue;
+    const value = Number(rawValue);
+    if (!Number.isFinite(value)) continue;
+    marks[dimension.key] = Math.min(dimension.maxMarks, Math.max(0, value));
+  }
+
+  return Object.keys(marks).length > 0 ? marks : null;
+}
+
+/**
+ * Solution score (0-1) from rubric marks: marks earned over the maximum of
+ * the dimensions that were scored. With every dimension scored this is the
+ * total out of CODING_RUBRIC_TOTAL.
+ */
+export function getRubricSolutionScore(marks: RubricMarks): number {
+  let earned = 0;
+  let max = 0;
+  for (const dimension of CODING_RUBRIC_DIMENSIONS) {
+    const value = marks[dimension.key];
+    if (value === undefined) continue;
+    earned += value;
+    max += dimension.maxMarks;
+  }
+  return max > 0 ? earned / max : 0;
+}
+
+/**
+ * Parse one rubric cell: a number of marks or a level label ("Good").
+ * Returns null when the text is neither.
+ */
+export function parseRubricMark(dimension: RubricDimension, text: string): number | null {
+  const trimmed = text.trim();
+  const level = dimension.levels.find(l => l.label.toLowerCase() === trimmed.toLowerCase());
+  if (level) return level.marks;
+
+  const value = Number(trimmed);
+  if (trimmed === '' || !Number.isFinite(value) || value < 0 || value > dimension.maxMarks) return null;
+  return value;
+}
+
+/**
+ * Per-dimension share of marks earned across rubric-scored attempts.
+ * The weakest dimension is the lowest share among those scored.
+ */
+export function buildRubricProfile(attempts: Array<Pick<StudentAttempt, 'rubricMarks'>>): RubricProfile {
+  const dimensions: RubricDimensionStats[] = CODING_RUBRIC_DIMENSIONS.map(d => ({
+    key: d.key,
+    name: d.name,
+    earned: 0,
+    max: 0,
+    percent: 0,
+    scoredAttempts: 0,
+  }));
+  let scoredAttempts = 0;
+
+  for (const attempt of attempts) {
+    if (!attempt.rubricMarks) continue;
+    let scored = false;
+    CODING_RUBRIC_DIMENSIONS.forEach((dimension, idx) => {
+      const value = attempt.rubricMarks![dimension.key];
+      if (value === undefined) return;
+      dimensions[idx].earned += value;
+      dimensions[idx].max += dimension.maxMarks;
+      dimensions[idx].scoredAttempts += 1;
+      scored = true;
+    });
+    if (scored) scoredAttempts += 1;
+  }
+
+  let weakest: RubricDimensionStats | null = null;
+  for (const stats of dimensions) {
+    if (stats.max === 0) continue;
+    stats.percent = stats.earned / stats.max;
+    if (!weakest || stats.percent < weakest.percent) weakest = stats;
+  }
+
+  return { dimensions, scoredAttempts, weakest: weakest?.key ?? null };
+}
+
+/**
+ * Load rubric profiles for a graph: one per student and one pooled across
+ * them. Pass studentIds to restrict to a class.
+ */
+export async function loadRubricProfiles(
+  graphId: string,
+  studentIds?: string[]
+): Promise<RubricProfiles> {
+  if (studentIds && studentIds.length === 0) {
+    return { cohort: buildRubricProfile([]), students: new Map() };
+  }
+
+  const rows = await fetchAllRows((from, to) => {
+    let query = supabase
+      .from('student_attempts')
+      .select('id, student_id, rubric_marks')
+      .eq('graph_id', graphId)
+      .not('rubric_marks', 'is', null);
+    if (studentIds) query = query.in('student_id', studentIds);
+    return query.order('id').range(from, to);
+  });
+
+  const byStudent = new Map<string, Array<Pick<StudentAttempt, 'rubricMarks'>>>();
+  const all: Array<Pick<StudentAttempt, 'rubricMarks'>> = [];
+  for (const row of rows) {
+    const attempt = { rubricMarks: normalizeRubricMarks(row.rubric_marks) };
+    all.push(attempt);
+    const list = byStudent.get(row.student_id) || [];
+    list.push(attempt);
+    byStudent.set(row.student_id, list);
+  }
+
+  const students = new Map<string, RubricProfile>();
+  for (const [studentId, attempts] of byStudent) {
+    students.set(studentId, buildRubricProfile(attempts));
+  }
+
+  return { cohort: buildRubricProfile(all), students };
+}
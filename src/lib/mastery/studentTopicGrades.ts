@@ -2,19 +2,30 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { getGradeForPercent, type GradeDefinition } from './gradeScale';
+import { CME_THRESHOLDS, type CreditPolicy } from './constants';
+import { getAttemptCredit } from './calculateMastery';
+import { loadCreditPolicy } from './creditPolicy';
+import { normalizeRubricMarks } from './rubricScoring';
+import type { IndependenceLevel } from '@/types/mastery';
 
 export interface KPGrade {
   skillId: string;
   skillName: string;
-  correct: number;
+  correct: number;              // Answered correctly, with or without help
+  independentCorrect: number;   // Answered correctly without meaningful help
+  credit: number;               // Best credit per question under the crediting policy
   total: number;
-  mastery: number;
+  mastery: number;              // credit / total
+  independentMastery: number;   // independentCorrect / total
+  assistedMastery: number;      // correct / total
 }
 
 export interface SubtopicGrade {
   subtopicId: string;
   subtopicName: string;
   masteryPercent: number;
+  independentPercent: number;
+  assistedPercent: number;
   kps: KPGrade[];
 }
 
@@ -22,27 +33,58 @@ export interface TopicGrade {
   topicId: string;
   topicName: string;
   masteryPercent: number;
+  independentPercent: number;
+  assistedPercent: number;
   grade: string;
   gradeColor: string;
   subtopics: SubtopicGrade[];
 }
 
+type MasteryFields = Pick<KPGrade, 'mastery' | 'independentMastery' | 'assistedMastery'>;
+
+// Sqrt-weighted average of each mastery field over weighted items
+function sqrtWeightedMastery(items: Array<{ values: MasteryFields; weight: number }>): MasteryFields {
+  let sqrtWeightSum = 0;
+  const sums: MasteryFields = { mastery: 0, independentMastery: 0, assistedMastery: 0 };
+  for (const { values, weight } of items) {
+    if (weight <= 0) continue;
+    const w = Math.sqrt(weight);
+    sqrtWeightSum += w;
+    sums.mastery += values.mastery * w;
+    sums.independentMastery += values.independentMastery * w;
+    sums.assistedMastery += values.assistedMastery * w;
+  }
+  if (sqrtWeightSum === 0) return { mastery: 0, independentMastery: 0, assistedMastery: 0 };
+  return {
+    mastery: sums.mastery / sqrtWeightSum,
+    independentMastery: sums.independentMastery / sqrtWeightSum,
+    assistedMastery: sums.assistedMastery / sqrtWeightSum,
+  };
+}
+
 /**
  * Calculate per-student topic grades using sqrt-weighted rollup.
  * 
- * KP mastery = correct / total questions mapped to KP
+ * KP mastery = best credit per question (partial for rubric-scored attempts)
+ *             / total questions mapped to KP
  * Subtopic mastery = sqrt-weighted avg of KP masteries
  * Topic mastery = sqrt-weighted avg of subtopic masteries
+ *
+ * Independent and assisted mastery are rolled up the same way: a question
+ * counts as independent when some correct attempt had an independence
+ * score of at least CME_THRESHOLDS.independent, and as assisted when it
+ * was answered correctly at all.
  */
 export async function calculateStudentTopicGrades(
   studentId: string,
-  graphId: string
+  graphId: string,
+  creditPolicy?: CreditPolicy
 ): Promise<TopicGrade[]> {
   // Fetch all needed data in parallel
-  const [attemptsRes, questionsRes, skillsRes, subtopicsRes, topicsRes] = await Promise.all([
+  const [attemptsRes, questionsRes, skillsRes, subtopicsRes, topicsRes, policy] = await Promise.all([
     supabase
       .from('student_attempts')
-      .select('question_id, is_correct')
+      .select('question_id, is_correct, solution_score, rubric_marks, independence_score, independence_level')
       .eq('graph_id', graphId)
       .eq('student_id', studentId),
     supabase
@@ -61,6 +103,7 @@ export async function calculateStudentTopicGrades(
       .from('skill_topics')
       .select('id, name, display_order')
       .eq('graph_id', graphId),
+    creditPolicy ?? loadCreditPolicy(graphId),
   ]);
 
   const attempts = attemptsRes.data || [];
@@ -91,26 +134,43 @@ export async function calculateStudentTopicGrades(
     if (st.topic_id) subtopicTopicMap.set(st.id, st.topic_id);
   }
 
-  // Count correct and total per KP
-  // Use a Set to track unique questions per KP for max, and correct answers
-  const kpQuestionCorrect = new Map<string, Set<string>>(); // skillId -> set of correctly answered question IDs
-  const kpQuestionTotal = new Map<string, Set<string>>();   // skillId -> set of all question IDs attempted
+  // Best outcome per question across the student's attempts
+  const questionCredit = new Map<string, number>();
+  const questionCorrect = new Set<string>();
+  const questionIndependent = new Set<string>();
 
   for (const attempt of attempts) {
-    const questionSkills = questionSkillsMap.get(attempt.question_id);
-    if (!questionSkills) continue;
+    if (!questionSkillsMap.has(attempt.question_id)) continue;
 
-    for (const skillId of questionSkills) {
-      if (!kpQuestionTotal.has(skillId)) kpQuestionTotal.set(skillId, new Set());
-      kpQuestionTotal.get(skillId)!.add(attempt.question_id);
+    const credit = getAttemptCredit({
+      isCorrect: attempt.is_correct,
+      solutionScore: Number(attempt.solution_score),
+      rubricMarks: normalizeRubricMarks(attempt.rubric_marks),
+      independenceScore: Number(attempt.independence_score),
+      independenceLevel: attempt.independence_level as IndependenceLevel,
+    }, policy);
+    questionCredit.set(attempt.question_id, Math.max(questionCredit.get(attempt.question_id) ?? 0, credit));
 
-      if (attempt.is_correct) {
-        if (!kpQuestionCorrect.has(skillId)) kpQuestionCorrect.set(skillId, new Set());
-        kpQuestionCorrect.get(skillId)!.add(attempt.question_id);
+    if (attempt.is_correct) {
+      questionCorrect.add(attempt.question_id);
+      if (Number(attempt.independence_score) >= CME_THRESHOLDS.independent) {
+        questionIndependent.add(attempt.question_id);
       }
     }
   }
 
+  // Credit and correct counts per KP over its answered questions
+  const kpCredit = new Map<string, number>();
+  const kpCorrect = new Map<string, number>();
+  const kpIndependent = new Map<string, number>();
+  for (const [questionId, credit] of questionCredit) {
+    for (const skillId of questionSkillsMap.get(questionId) || []) {
+      kpCredit.set(skillId, (kpCredit.get(skillId) || 0) + credit);
+      if (questionCorrect.has(questionId)) kpCorrect.set(skillId, (kpCorrect.get(skillId) || 0) + 1);
+      if (questionIndependent.has(questionId)) kpIndependent.set(skillId, (kpIndependent.get(skillId) || 0) + 1);
+    }
+  }
+
   // Also count total questions mapped (not just attempted) for max
   const kpTotalMapped = new Map<string, number>();
   for (const q of questions) {
@@ -125,13 +185,19 @@ export async function calculateStudentTopicGrades(
   
   for (const skillId of allKpIds) {
     const total = kpTotalMapped.get(skillId) || 0;
-    const correct = kpQuestionCorrect.get(skillId)?.size || 0;
+    const correct = kpCorrect.get(skillId) || 0;
+    const independentCorrect = kpIndependent.get(skillId) || 0;
+    const credit = kpCredit.get(skillId) || 0;
     kpGrades.set(skillId, {
       skillId,
       skillName: skillNameMap.get(skillId) || skillId,
       correct,
+      independentCorrect,
+      credit,
       total,
-      mastery: total > 0 ? correct / total : 0,
+      mastery: total > 0 ? credit / total : 0,
+      independentMastery: total > 0 ? independentCorrect / total : 0,
+      assistedMastery: total > 0 ? correct / total : 0,
     });
   }
 
@@ -147,19 +213,13 @@ export async function calculateStudentTopicGrades(
   // Calculate subtopic grades with sqrt weighting
   const subtopicGrades = new Map<string, SubtopicGrade>();
   for (const [subtopicId, kps] of subtopicKPs) {
-    let sqrtWeightSum = 0;
-    let weightedMastery = 0;
-    for (const kp of kps) {
-      if (kp.total > 0) {
-        const w = Math.sqrt(kp.total);
-        sqrtWeightSum += w;
-        weightedMastery += kp.mastery * w;
-      }
-    }
+    const rolled = sqrtWeightedMastery(kps.map(kp => ({ values: kp, weight: kp.total })));
     subtopicGrades.set(subtopicId, {
       subtopicId,
       subtopicName: subtopicNameMap.get(subtopicId) || subtopicId,
-      masteryPercent: sqrtWeightSum > 0 ? weightedMastery / sqrtWeightSum : 0,
+      masteryPercent: rolled.mastery,
+      independentPercent: rolled.independentMastery,
+      assistedPercent: rolled.assistedMastery,
       kps,
     });
   }
@@ -179,25 +239,24 @@ export async function calculateStudentTopicGrades(
 
   for (const topic of sortedTopics) {
     const subs = topicSubtopics.get(topic.id) || [];
-    let sqrtWeightSum = 0;
-    let weightedMastery = 0;
-
-    for (const sub of subs) {
-      const totalQs = sub.kps.reduce((sum, kp) => sum + kp.total, 0);
-      if (totalQs > 0) {
-        const w = Math.sqrt(totalQs);
-        sqrtWeightSum += w;
-        weightedMastery += sub.masteryPercent * w;
-      }
-    }
+    const rolled = sqrtWeightedMastery(subs.map(sub => ({
+      values: {
+        mastery: sub.masteryPercent,
+        independentMastery: sub.independentPercent,
+        assistedMastery: sub.assistedPercent,
+      },
+      weight: sub.kps.reduce((sum, kp) => sum + kp.total, 0),
+    })));
 
-    const masteryPercent = sqrtWeightSum > 0 ? weightedMastery / sqrtWeightSum : 0;
+    const masteryPercent = rolled.mastery;
     const gradeInfo = getGradeForPercent(masteryPercent);
 
     result.push({
       topicId: topic.id,
       topicName: topic.name,
       masteryPercent,
+      independentPercent: rolled.independentMastery,
+      assistedPercent: rolled.assistedMastery,
       grade: gradeInfo.grade,
       gradeColor: gradeInfo.color,
       subtopics: subs,
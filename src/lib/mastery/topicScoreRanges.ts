@@ -1,6 +1,8 @@
 // Calculate and persist topic score ranges (min/max)
 
 import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_CREDIT_POLICY, type CreditPolicy } from './constants';
+import { getAttemptCredit } from './calculateMastery';
 import type { TopicScoreRange } from '@/types/grouping';
 
 /**
@@ -10,12 +12,18 @@ import type { TopicScoreRange } from '@/types/grouping';
  * 1. Find subtopics in that topic
  * 2. Find skills in those subtopics
  * 3. Find questions that contain any of those skills
- * 4. Count unique questions → max_score (binary scoring, full independence = 1.0)
+ * 4. max_score = unique questions × credit for an independent correct answer
  * 5. min_score = 0 always
  */
 export async function calculateAndPersistTopicScoreRanges(
-  graphId: string
+  graphId: string,
+  creditPolicy: CreditPolicy = DEFAULT_CREDIT_POLICY
 ): Promise<TopicScoreRange[]> {
+  const fullCredit = getAttemptCredit(
+    { isCorrect: true, solutionScore: 1, independenceScore: 1, independenceLevel: 'independent' },
+    creditPolicy
+  );
+
   // 1. Load topics
   const { data: topics, error: topicsErr } = await supabase
     .from('skill_topics')
@@ -89,7 +97,7 @@ export async function calculateAndPersistTopicScoreRanges(
       topicId: topic.id,
       topicName: topic.name,
       minScore: 0,
-      maxScore: uniqueQs.size,
+      maxScore: uniqueQs.size * fullCredit,
       uniqueQuestions: uniqueQs.size,
     };
 
@@ -100,7 +108,7 @@ export async function calculateAndPersistTopicScoreRanges(
         topic_id: topic.id,
         topic_name: topic.name,
         min_score: 0,
-        max_score: uniqueQs.size,
+        max_score: uniqueQs.size * fullCredit,
         unique_questions: uniqueQs.size,
         updated_at: new Date().toISOString(),
       }, {
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import {
+  buildSkillSequences,
+  fitAllBKTParams,
+  fitBKTParams,
+  traceKnowledge,
+  updateKnowledge,
+} from "@/lib/mastery/bkt";
+import { BKT_FIT_CONFIG, BKT_PARAM_BOUNDS, DEFAULT_BKT_PARAMS, type BKTParams } from "@/lib/mastery/constants";
+import type { QuestionWithWeights, StudentAttempt } from "@/types/mastery";
+import { mulberry32 } from "./random";
+
+function simulate(params: BKTParams, students: number, length: number, seed = 1): boolean[][] {
+  const random = mulberry32(seed);
+  return Array.from({ length: students }, () => {
+    let known = random() < params.prior;
+    return Array.from({ length }, () => {
+      const correct = known ? random() >= params.slip : random() < params.guess;
+      if (!known && random() < params.learn) known = true;
+      return correct;
+    });
+  });
+}
+
+const question = (id: string, skills: string[]): QuestionWithWeights => ({
+  id,
+  graphId: "g",
+  questionText: id,
+  skills,
+  primarySkills: skills.slice(0, 1),
+  skillWeights: {},
+  weightageMultiplier: 1,
+});
+
+const attempt = (id: string, studentId: string, questionId: string, isCorrect: boolean, minute: number): StudentAttempt => ({
+  id,
+  graphId: "g",
+  studentId,
+  questionId,
+  isCorrect,
+  solutionScore: isCorrect ? 1 : 0,
+  independenceLevel: "independent",
+  attemptedAt: new Date(Date.UTC(2026, 0, 1, 0, minute)),
+});
+
+describe("updateKnowledge", () => {
+  it("raises P(known) after a correct answer and lowers it after an incorrect one", () => {
+    const params = { prior: 0.3, learn: 0, guess: 0.2, slip: 0.1 };
+
+    // P(L | correct) = 0.3 × 0.9 / (0.3 × 0.9 + 0.7 × 0.2)
+    expect(updateKnowledge(0.3, true, params)).toBeCloseTo(0.27 / 0.41, 10);
+    // P(L | incorrect) = 0.3 × 0.1 / (0.3 × 0.1 + 0.7 × 0.8)
+    expect(updateKnowledge(0.3, false, params)).toBeCloseTo(0.03 / 0.59, 10);
+  });
+
+  it("applies the learning transition after the posterior", () => {
+    const params = { ...DEFAULT_BKT_PARAMS, learn: 0.25 };
+    const posterior = updateKnowledge(0.5, false, { ...params, learn: 0 });
+
+    expect(updateKnowledge(0.5, false, params)).toBeCloseTo(posterior + (1 - posterior) * 0.25, 10);
+  });
+
+  it("starts tracing from the prior", () => {
+    expect(traceKnowledge([], DEFAULT_BKT_PARAMS)).toBe(DEFAULT_BKT_PARAMS.prior);
+    expect(traceKnowledge([true, true, true], DEFAULT_BKT_PARAMS)).toBeGreaterThan(0.9);
+  });
+});
+
+describe("fitBKTParams", () => {
+  it("keeps the initial parameters when evidence is too thin", () => {
+    const result = fitBKTParams([[true, false], [true]]);
+
+    expect(result.fitted).toBe(false);
+    expect(result.params).toEqual(DEFAULT_BKT_PARAMS);
+    expect(result.observationCount).toBe(3);
+  });
+
+  it("recovers the parameters that generated the data", () => {
+    const truth = { prior: 0.25, learn: 0.15, guess: 0.15, slip: 0.08 };
+    const result = fitBKTParams(simulate(truth, 400, 12));
+
+    expect(result.fitted).toBe(true);
+    expect(result.params.prior).toBeCloseTo(truth.prior, 1);
+    expect(result.params.learn).toBeCloseTo(truth.learn, 1);
+    expect(result.params.guess).toBeCloseTo(truth.guess, 1);
+    expect(result.params.slip).toBeCloseTo(truth.slip, 1);
+  });
+
+  it("converges: refitting from the estimate leaves it in place", () => {
+    const sequences = simulate({ prior: 0.4, learn: 0.2, guess: 0.25, slip: 0.1 }, 60, 8, 7);
+    const first = fitBKTParams(sequences);
+    const refit = fitBKTParams(sequences, first.params);
+
+    expect(first.iterations).toBeLessThan(BKT_FIT_CONFIG.maxIterations);
+    expect(refit.logLikelihood).toBeGreaterThanOrEqual(first.logLikelihood - 1e-6);
+    for (const key of Object.keys(first.params) as (keyof BKTParams)[]) {
+      expect(refit.params[key]).toBeCloseTo(first.params[key], 2);
+    }
+  });
+
+  it("keeps parameters inside their bounds on degenerate data", () => {
+    const result = fitBKTParams(Array.from({ length: 20 }, () => [true, true, true]));
+
+    for (const key of Object.keys(BKT_PARAM_BOUNDS) as (keyof BKTParams)[]) {
+      expect(result.params[key]).toBeGreaterThanOrEqual(BKT_PARAM_BOUNDS[key].min);
+      expect(result.params[key]).toBeLessThanOrEqual(BKT_PARAM_BOUNDS[key].max);
+    }
+  });
+});
+
+describe("buildSkillSequences", () => {
+  it("orders each student's outcomes by time and credits every mapped skill", () => {
+    const questions = new Map([
+      ["q1", question("q1", ["a", "b"])],
+      ["q2", question("q2", ["b"])],
+    ]);
+    const attempts = [
+      attempt("3", "s1", "q2", true, 3),
+      attempt("1", "s1", "q1", false, 1),
+      attempt("2", "s2", "q1", true, 2),
+      attempt("4", "s1", "missing", true, 4),
+    ];
+
+    const sequences = buildSkillSequences(attempts, questions);
+
+    expect(sequences.get("a")).toEqual(new Map([["s1", [false]], ["s2", [true]]]));
+    expect(sequences.get("b")).toEqual(new Map([["s1", [false, true]], ["s2", [true]]]));
+    expect(fitAllBKTParams(attempts, questions).get("b")?.fitted).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { computeGroupingDelta, isGroupingDeltaEmpty } from "@/lib/graph/groupingDelta";
+import type { GroupingSnapshot, SkillSubtopic, SkillTopic } from "@/types/grouping";
+
+const topic = (id: string, extra: Partial<SkillTopic> = {}): SkillTopic => ({
+  id,
+  graphId: "g",
+  name: id,
+  color: "#000",
+  displayOrder: 0,
+  ...extra,
+});
+
+const subtopic = (id: string, topicId: string | null, extra: Partial<SkillSubtopic> = {}): SkillSubtopic => ({
+  id,
+  graphId: "g",
+  topicId,
+  name: id,
+  color: "#000",
+  displayOrder: 0,
+  ...extra,
+});
+
+const before: GroupingSnapshot = {
+  topics: [topic("t1")],
+  subtopics: [subtopic("s1", "t1")],
+  skillSubtopics: { a: "s1", b: "s1" },
+};
+
+// Creating subtopic s2 from skills b and c
+const after: GroupingSnapshot = {
+  topics: [topic("t1")],
+  subtopics: [subtopic("s1", "t1"), subtopic("s2", null)],
+  skillSubtopics: { a: "s1", b: "s2", c: "s2" },
+};
+
+describe("computeGroupingDelta", () => {
+  it("lists only the rows and skill links a change touched", () => {
+    expect(computeGroupingDelta(before, after)).toEqual({
+      upsertTopics: [],
+      deleteTopics: [],
+      upsertSubtopics: [subtopic("s2", null)],
+      deleteSubtopics: [],
+      skillLinks: { b: "s2", c: "s2" },
+    });
+  });
+
+  it("inverts a change by deleting what it created and restoring previous links", () => {
+    expect(computeGroupingDelta(after, before)).toEqual({
+      upsertTopics: [],
+      deleteTopics: [],
+      upsertSubtopics: [],
+      deleteSubtopics: ["s2"],
+      skillLinks: { b: "s1", c: null },
+    });
+  });
+
+  it("restores a deleted topic and the subtopics it held", () => {
+    const deleted: GroupingSnapshot = {
+      topics: [],
+      subtopics: [subtopic("s1", null)],
+      skillSubtopics: before.skillSubtopics,
+    };
+
+    const inverse = computeGroupingDelta(deleted, before);
+
+    expect(inverse.upsertTopics).toEqual([topic("t1")]);
+    expect(inverse.upsertSubtopics).toEqual([subtopic("s1", "t1")]);
+    expect(inverse.skillLinks).toEqual({});
+  });
+
+  it("is empty when nothing changed", () => {
+    const edited = { ...before, topics: [topic("t1", { createdAt: "2026-01-01" })] };
+
+    expect(isGroupingDeltaEmpty(computeGroupingDelta(before, edited))).toBe(true);
+    expect(isGroupingDeltaEmpty(computeGroupingDelta(before, after))).toBe(false);
+  });
+});
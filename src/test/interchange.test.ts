@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildGraph,
+  createGraphNode,
+  graphToGraphML,
+  graphToJsonLd,
+  parseGraphFile,
+  parseGraphML,
+  parseJsonLd,
+  type GraphDocument,
+} from "@/lib/interchange";
+
+// Ids and text full of characters XML and IRIs treat specially
+const SKILL_A = `a&b<1>`;
+const SKILL_B = `"quoted" 'skill'`;
+const SKILL_C = "plain";
+const QUESTION = `Is 1 < 2 && "x" > 'y'? <b>bold</b> &amp; done`;
+
+function makeDocument(): GraphDocument {
+  const nodes = [
+    createGraphNode({
+      id: SKILL_A,
+      name: "Compare <numbers> & strings",
+      level: 0,
+      description: `Uses "<" and '>' & friends`,
+      tier: "foundational",
+      transferableContexts: ["<ctx>", "a & b"],
+    }),
+    createGraphNode({ id: SKILL_B, name: SKILL_B, level: 1, description: undefined, tier: "core", transferableContexts: [] }),
+    createGraphNode({ id: SKILL_C, name: "Plain", level: 2, description: undefined, tier: "advanced", transferableContexts: [] }),
+  ];
+  const edges = [
+    { from: SKILL_A, to: SKILL_B, reason: `needs <a> & "b"`, relationshipType: "builds_on" as const, confidence: 0.75 },
+    { from: SKILL_B, to: SKILL_C, reason: "", relationshipType: "requires" as const },
+  ];
+  const graph = buildGraph(
+    nodes,
+    edges,
+    [
+      {
+        text: QUESTION,
+        validationStatus: "missing_prereqs",
+        requiredNodes: [SKILL_A, SKILL_B, SKILL_C],
+        executionOrder: [SKILL_C, SKILL_A, SKILL_B],
+        primarySkills: [SKILL_A],
+        skillWeights: { [SKILL_A]: 0.5, [SKILL_B]: 0.3, [SKILL_C]: 0.2 },
+        skillConfidence: { [SKILL_A]: 1, [SKILL_B]: 0.4, [SKILL_C]: 0.9 },
+      },
+    ],
+    "ipa-lta-2"
+  );
+
+  return {
+    name: `Graph <"one"> & 'two'`,
+    description: "Round <trip> & back",
+    graph,
+    grouping: {
+      topics: [{ id: "t&1", graphId: "", name: "Topic <1>", color: "#6366f1", displayOrder: 0 }],
+      subtopics: [
+        { id: `s"1"`, graphId: "", topicId: "t&1", name: "Sub & one", color: "#ec4899", displayOrder: 0 },
+        { id: "s<2>", graphId: "", topicId: null, name: "Loose <sub>", color: "#f43f5e", displayOrder: 1 },
+      ],
+      skillSubtopics: { [SKILL_A]: `s"1"`, [SKILL_B]: "s<2>" },
+    },
+  };
+}
+
+const sortById = <T extends { id: string }>(items: T[]) => [...items].sort((a, b) => a.id.localeCompare(b.id));
+
+function expectRoundTrip(parsed: GraphDocument, original: GraphDocument) {
+  expect(parsed.name).toBe(original.name);
+  expect(parsed.description).toBe(original.description);
+  expect(parsed.graph.promptVersion).toBe(original.graph.promptVersion);
+  expect(sortById(parsed.graph.globalNodes)).toEqual(sortById(original.graph.globalNodes));
+  expect(parsed.graph.edges).toEqual(original.graph.edges);
+  expect(parsed.graph.questionPaths).toEqual(original.graph.questionPaths);
+  expect(sortById(parsed.grouping.topics)).toEqual(sortById(original.grouping.topics));
+  expect(sortById(parsed.grouping.subtopics)).toEqual(sortById(original.grouping.subtopics));
+  expect(parsed.grouping.skillSubtopics).toEqual(original.grouping.skillSubtopics);
+}
+
+describe("GraphML", () => {
+  it("round-trips a graph with XML-special characters in ids and text", () => {
+    const doc = makeDocument();
+    const xml = graphToGraphML(doc);
+
+    expect(new DOMParser().parseFromString(xml, "application/xml").getElementsByTagName("parsererror")).toHaveLength(0);
+    expectRoundTrip(parseGraphML(xml), doc);
+  });
+
+  it("rejects documents that are not GraphML", () => {
+    expect(() => parseGraphML("<graphml><unclosed></graphml>")).toThrow("not valid XML");
+    expect(() => parseGraphML("<svg/>")).toThrow("not a GraphML document");
+  });
+});
+
+describe("JSON-LD", () => {
+  it("round-trips a graph with XML-special characters in ids and text", () => {
+    const doc = makeDocument();
+    expectRoundTrip(parseJsonLd(graphToJsonLd(doc)), doc);
+  });
+
+  it("rejects documents that are not knowledge graphs", () => {
+    expect(() => parseJsonLd("{not json")).toThrow("not valid JSON");
+    expect(() => parseJsonLd('{"name": "x"}')).toThrow("not a knowledge graph");
+  });
+});
+
+describe("parseGraphFile", () => {
+  it("detects the format from the content", () => {
+    const doc = makeDocument();
+    expectRoundTrip(parseGraphFile(graphToGraphML(doc), "graph.xml"), doc);
+    expectRoundTrip(parseGraphFile(graphToJsonLd(doc), "graph.json"), doc);
+    expect(() => parseGraphFile("digraph {}", "graph.dot")).toThrow("graph.dot is not a GraphML or JSON-LD file");
+  });
+});
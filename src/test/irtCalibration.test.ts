@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import {
+  buildIRTResponses,
+  findDifficultyDisagreements,
+  fitIRT,
+  type IRTResponse,
+} from "@/lib/mastery/irtCalibration";
+import { IRT_CONFIG } from "@/lib/mastery/constants";
+import type { StudentAttempt } from "@/types/mastery";
+import { mulberry32 } from "./random";
+
+// Standard normal draws (Box-Muller) from the seeded generator
+function normals(count: number, random: () => number): number[] {
+  return Array.from({ length: count }, () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random()));
+}
+
+function simulate(difficulties: number[], students: number, seed = 3): IRTResponse[] {
+  const random = mulberry32(seed);
+  const abilities = normals(students, random);
+  return abilities.flatMap((theta, s) =>
+    difficulties.map((b, q) => ({
+      studentId: `s${s}`,
+      questionId: `q${q}`,
+      correct: random() < 1 / (1 + Math.exp(-(theta - b))),
+    }))
+  );
+}
+
+const attempt = (id: string, studentId: string, questionId: string, isCorrect: boolean, minute: number): StudentAttempt => ({
+  id,
+  graphId: "g",
+  studentId,
+  questionId,
+  isCorrect,
+  solutionScore: isCorrect ? 1 : 0,
+  independenceLevel: "independent",
+  attemptedAt: new Date(Date.UTC(2026, 0, 1, 0, minute)),
+});
+
+describe("buildIRTResponses", () => {
+  it("keeps each student's first attempt at a question", () => {
+    const responses = buildIRTResponses([
+      attempt("2", "s1", "q1", true, 5),
+      attempt("1", "s1", "q1", false, 1),
+      attempt("3", "s2", "q1", true, 2),
+      attempt("4", "s1", "q2", true, 3),
+    ]);
+
+    expect(responses).toEqual([
+      { studentId: "s1", questionId: "q1", correct: false },
+      { studentId: "s2", questionId: "q1", correct: true },
+      { studentId: "s1", questionId: "q2", correct: true },
+    ]);
+  });
+});
+
+describe("fitIRT", () => {
+  const difficulties = [-1.5, -0.5, 0, 0.5, 1.5];
+
+  it("recovers the ordering and scale of item difficulty under 1PL", () => {
+    const fit = fitIRT(simulate(difficulties, 500), "1pl");
+
+    expect(fit.converged).toBe(true);
+    const estimates = difficulties.map((_, q) => fit.items.get(`q${q}`)!);
+    const fitted = estimates.map(e => e.difficulty);
+    expect(fitted).toEqual([...fitted].sort((a, b) => a - b));
+    fitted.forEach((b, q) => expect(Math.abs(b - difficulties[q])).toBeLessThan(0.35));
+    estimates.forEach(e => {
+      expect(e.discrimination).toBe(1);
+      expect(e.responseCount).toBe(500);
+    });
+  });
+
+  it("standardises abilities and keeps discrimination in range under 2PL", () => {
+    const fit = fitIRT(simulate(difficulties, 300, 11), "2pl");
+    const abilities = [...fit.abilities.values()];
+    const mean = abilities.reduce((sum, v) => sum + v, 0) / abilities.length;
+
+    expect(fit.model).toBe("2pl");
+    expect(Math.abs(mean)).toBeLessThan(0.05);
+    for (const item of fit.items.values()) {
+      expect(item.discrimination).toBeGreaterThanOrEqual(IRT_CONFIG.discriminationRange.min);
+      expect(item.discrimination).toBeLessThanOrEqual(IRT_CONFIG.discriminationRange.max);
+    }
+    expect(fit.items.get("q0")!.difficulty).toBeLessThan(fit.items.get("q4")!.difficulty);
+  });
+
+  it("keeps estimates finite for items everyone gets right or wrong", () => {
+    const responses: IRTResponse[] = [];
+    for (let s = 0; s < 10; s++) {
+      responses.push({ studentId: `s${s}`, questionId: "easy", correct: true });
+      responses.push({ studentId: `s${s}`, questionId: "hard", correct: false });
+      responses.push({ studentId: `s${s}`, questionId: "mixed", correct: s % 2 === 0 });
+    }
+
+    const fit = fitIRT(responses, "1pl");
+    const easy = fit.items.get("easy")!;
+    const hard = fit.items.get("hard")!;
+
+    expect(Number.isFinite(easy.difficulty)).toBe(true);
+    expect(Number.isFinite(hard.difficulty)).toBe(true);
+    expect(easy.difficulty).toBeLessThan(fit.items.get("mixed")!.difficulty);
+    expect(hard.difficulty).toBeGreaterThan(fit.items.get("mixed")!.difficulty);
+    expect(easy.proportionCorrect).toBe(1);
+    expect(hard.proportionCorrect).toBe(0);
+  });
+});
+
+describe("findDifficultyDisagreements", () => {
+  const question = (id: string, irt: number | null, multiplier: number | null) => ({
+    id,
+    question_text: `Question ${id}`,
+    irt_difficulty: irt,
+    weightage_multiplier: multiplier,
+  });
+
+  it("flags questions whose standardised difficulties disagree, largest gap first", () => {
+    const disagreements = findDifficultyDisagreements([
+      question("a", -1, 1),
+      question("b", 0, 2),
+      question("c", 1, 3),
+      question("d", 2, 1),
+      question("e", null, 2),
+    ], 1);
+
+    expect(disagreements.map(d => d.questionId)).toEqual(["d", "c"]);
+    expect(disagreements[0].gap).toBeGreaterThan(0);
+    expect(disagreements[1].gap).toBeLessThan(0);
+  });
+
+  it("needs at least three comparable questions", () => {
+    expect(findDifficultyDisagreements([question("a", -3, 3), question("b", 3, 1), question("c", null, 2)], 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { hasDirectEvidence, propagateMastery } from "@/lib/mastery/propagateMastery";
+import { PROPAGATION_CONFIG } from "@/lib/mastery/constants";
+import type { KPMastery } from "@/types/mastery";
+
+const record = (skillId: string, rawMastery: number, attemptCount = 3, extra: Partial<KPMastery> = {}): KPMastery => ({
+  graphId: "g",
+  studentId: "s",
+  skillId,
+  earnedPoints: rawMastery * attemptCount,
+  maxPoints: attemptCount,
+  rawMastery,
+  lastReviewedAt: null,
+  stability: 14,
+  retrievalCount: 0,
+  attemptCount,
+  ...extra,
+});
+
+const masteryOf = (...records: KPMastery[]) => new Map(records.map(r => [r.skillId, r]));
+
+// a is a prerequisite of b, b of c
+const CHAIN = [{ from: "a", to: "b" }, { from: "b", to: "c" }];
+
+describe("hasDirectEvidence", () => {
+  it("counts attempts, or earned points on rows stored before attempts were tracked", () => {
+    expect(hasDirectEvidence(undefined)).toBe(false);
+    expect(hasDirectEvidence(record("a", 0, 0))).toBe(false);
+    expect(hasDirectEvidence(record("a", 0, 2))).toBe(true);
+    expect(hasDirectEvidence(record("a", 0.5, 0, { earnedPoints: 1 }))).toBe(true);
+  });
+});
+
+describe("propagateMastery", () => {
+  it("infers unassessed prerequisites from a strong dependent, decaying per hop", () => {
+    const result = propagateMastery(masteryOf(record("c", 0.9)), CHAIN, ["a", "b", "c"]);
+    const decay = PROPAGATION_CONFIG.supportDecay;
+
+    expect(result.get("c")).toMatchObject({ source: "measured", measured: 0.9, estimate: 0.9 });
+    expect(result.get("b")).toMatchObject({ source: "inferred", measured: null, supportedBy: ["c"] });
+    expect(result.get("b")!.inferred).toBeCloseTo(0.9 * decay, 10);
+    expect(result.get("a")!.inferred).toBeCloseTo(0.9 * decay * decay, 10);
+    expect(result.get("a")!.estimate).toBeCloseTo(0.9 * decay * decay, 10);
+  });
+
+  it("stops passing support upstream once the inferred value is weak", () => {
+    const result = propagateMastery(masteryOf(record("c", 0.8)), CHAIN, ["a", "b", "c"]);
+
+    expect(result.get("b")!.inferred).toBeCloseTo(0.8 * PROPAGATION_CONFIG.supportDecay, 10);
+    expect(result.get("a")).toMatchObject({ source: "none", inferred: null, estimate: null, supportedBy: [] });
+  });
+
+  it("never overrides measured values with inferred support", () => {
+    const result = propagateMastery(masteryOf(record("b", 0.3, 1), record("c", 1)), CHAIN);
+
+    expect(result.get("b")).toMatchObject({ source: "measured", measured: 0.3, inferred: null });
+  });
+
+  it("caps dependents of a failing prerequisite, directly and further downstream", () => {
+    const result = propagateMastery(masteryOf(record("a", 0.2), record("b", 0.9), record("c", 0.95)), CHAIN);
+    const cap = 0.2 + PROPAGATION_CONFIG.capMargin;
+
+    expect(result.get("a")).toMatchObject({ cap: null, estimate: 0.2, cappedBy: [] });
+    expect(result.get("b")).toMatchObject({ measured: 0.9, cappedBy: ["a"] });
+    expect(result.get("b")!.cap).toBeCloseTo(cap, 10);
+    expect(result.get("b")!.estimate).toBeCloseTo(cap, 10);
+    expect(result.get("c")!.estimate).toBeCloseTo(cap, 10);
+    expect(result.get("c")!.cappedBy).toEqual(["a"]);
+  });
+
+  it("does not cap on too few failed attempts", () => {
+    const result = propagateMastery(masteryOf(record("a", 0.1, 1), record("b", 0.9)), CHAIN);
+
+    expect(result.get("b")).toMatchObject({ cap: null, estimate: 0.9, cappedBy: [] });
+  });
+
+  it("prefers effective mastery over raw mastery", () => {
+    const result = propagateMastery(masteryOf(record("a", 0.9, 3, { effectiveMastery: 0.6 })), []);
+
+    expect(result.get("a")!.measured).toBe(0.6);
+  });
+
+  it("tolerates cycles, self-loops and edges to unknown skills", () => {
+    const edges = [...CHAIN, { from: "c", to: "a" }, { from: "b", to: "b" }, { from: "x", to: "a" }];
+    const result = propagateMastery(masteryOf(record("c", 0.9)), edges, ["a", "b", "c"]);
+
+    expect([...result.keys()].sort()).toEqual(["a", "b", "c"]);
+    expect(result.get("b")!.source).toBe("inferred");
+    expect(result.has("x")).toBe(false);
+  });
+});
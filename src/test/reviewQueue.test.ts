@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { applyReviewDecisions, type ReviewItem } from "@/lib/graph/reviewQueue";
+import type { StoredQuestionPath } from "@/lib/graph/saveDelta";
+import { createGraphNode } from "@/lib/interchange";
+import type { KnowledgeGraph } from "@/types/graph";
+
+const node = (id: string, name = id) =>
+  createGraphNode({ id, name, level: 1, description: undefined, tier: "core", transferableContexts: [] });
+
+const base: KnowledgeGraph = {
+  globalNodes: [node("loops", "Loops")],
+  edges: [],
+  courses: {},
+  questionPaths: {},
+};
+
+// Generation proposes "for-loops" (a duplicate of "loops") and "recursion"
+const proposed: KnowledgeGraph = {
+  globalNodes: [node("for-loops", "For loops"), node("recursion", "Recursion"), node("arrays", "Arrays")],
+  edges: [],
+  courses: {},
+  questionPaths: {
+    "Sum an array": {
+      requiredNodes: ["arrays", "for-loops", "loops", "recursion"],
+      executionOrder: ["arrays", "for-loops", "recursion"],
+      validationStatus: "valid",
+      primarySkills: ["for-loops", "recursion"],
+      skillWeights: { arrays: 0.2, "for-loops": 0.3, loops: 0.1, recursion: 0.4 },
+      skillConfidence: { arrays: 0.9, "for-loops": 0.6, recursion: 0.8 },
+    } as StoredQuestionPath,
+    "Legacy question": {
+      requiredNodes: ["recursion", "arrays"],
+      executionOrder: ["recursion", "arrays"],
+      validationStatus: "valid",
+      primarySkill: "recursion",
+    } as StoredQuestionPath,
+  },
+};
+
+const items: ReviewItem[] = [
+  { kind: "merge", key: "merge:for-loops", node: proposed.globalNodes[0], target: base.globalNodes[0], reason: "same skill", decision: "accepted" },
+  { kind: "skill", key: "skill:recursion", node: proposed.globalNodes[1], decision: "rejected" },
+  { kind: "skill", key: "skill:arrays", node: proposed.globalNodes[2], decision: "accepted" },
+];
+
+describe("applyReviewDecisions", () => {
+  it("remaps every per-skill field of question paths through merges and rejections", () => {
+    const graph = applyReviewDecisions(base, proposed, items);
+    const path = graph.questionPaths["Sum an array"] as StoredQuestionPath;
+
+    expect(graph.globalNodes.map(n => n.id).sort()).toEqual(["arrays", "loops"]);
+    expect(path.requiredNodes).toEqual(["arrays", "loops"]);
+    expect(path.executionOrder).toEqual(["arrays", "loops"]);
+    expect(path.primarySkills).toEqual(["loops"]);
+    // The merged skill's weight adds to its target's; the rejected skill's is dropped
+    expect(path.skillWeights).toEqual({ arrays: 0.2, loops: 0.4 });
+    expect(path.skillConfidence).toEqual({ arrays: 0.9, loops: 0.6 });
+  });
+
+  it("drops a legacy primary skill that was rejected", () => {
+    const graph = applyReviewDecisions(base, proposed, items);
+    const path = graph.questionPaths["Legacy question"] as StoredQuestionPath;
+
+    expect(path.requiredNodes).toEqual(["arrays"]);
+    expect(path.primarySkill).toBeUndefined();
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  computeSaveDelta,
+  emptyRows,
+  graphToRows,
+  keepRowsMissingFromGraph,
+  keysToRows,
+  type StoredQuestionPath,
+} from "@/lib/graph/saveDelta";
+import type { GraphEdge, GraphNode, KnowledgeGraph } from "@/types/graph";
+
+const node = (id: string, extra: Partial<GraphNode> = {}) =>
+  ({ id, name: id.toUpperCase(), level: 1, ...extra }) as GraphNode;
+
+const edge = (from: string, to: string, extra: Partial<GraphEdge> = {}): GraphEdge => ({
+  from,
+  to,
+  reason: `${from} before ${to}`,
+  ...extra,
+});
+
+// A stored path with the primary-skill fields generation and older graphs add
+const storedPath = (path: Partial<StoredQuestionPath>): StoredQuestionPath => ({
+  requiredNodes: [],
+  executionOrder: [],
+  validationStatus: "valid",
+  ...path,
+});
+
+function makeGraph(overrides: Partial<KnowledgeGraph> = {}): KnowledgeGraph {
+  return {
+    globalNodes: [node("a"), node("b"), node("c")],
+    edges: [edge("a", "b"), edge("b", "c")],
+    courses: {},
+    questionPaths: {
+      "Q1": { requiredNodes: ["a", "b"], executionOrder: ["a", "b"], validationStatus: "valid" },
+      "Q2": ["b", "c"],
+    },
+    ...overrides,
+  };
+}
+
+describe("graphToRows", () => {
+  it("fills row defaults for missing node and edge fields", () => {
+    const rows = graphToRows(makeGraph());
+
+    expect(rows.skills.get("a")).toEqual({
+      skill_id: "a",
+      name: "A",
+      tier: "core",
+      level: 1,
+      description: null,
+      transferable_contexts: [],
+    });
+    expect(rows.edges.get("a:b")).toEqual({
+      from_skill: "a",
+      to_skill: "b",
+      relationship_type: "requires",
+      reason: "a before b",
+      confidence: null,
+    });
+  });
+
+  it("reads primary skills from both question path formats", () => {
+    const rows = graphToRows(makeGraph({
+      questionPaths: {
+        "Q1": { requiredNodes: ["a", "b"], executionOrder: [], validationStatus: "valid" },
+        "Q2": ["b", "c"],
+        "Q3": storedPath({ requiredNodes: ["a", "b", "c"], primarySkills: ["c", "b", "a"] }),
+        "Q4": storedPath({ requiredNodes: ["a", "c"], primarySkill: "c" }),
+      },
+    }));
+
+    expect(rows.questions.get("Q1")?.primary_skills).toEqual(["a"]);
+    expect(rows.questions.get("Q2")).toMatchObject({ skills: ["b", "c"], primary_skills: ["b"], skill_confidence: null });
+    expect(rows.questions.get("Q3")?.primary_skills).toEqual(["c", "b"]);
+    expect(rows.questions.get("Q4")?.primary_skills).toEqual(["c"]);
+  });
+});
+
+describe("computeSaveDelta", () => {
+  it("upserts every row of a new graph and deletes nothing", () => {
+    const delta = computeSaveDelta(emptyRows(), graphToRows(makeGraph()));
+
+    expect(delta.upsertSkills.map(s => s.skill_id)).toEqual(["a", "b", "c"]);
+    expect(delta.upsertEdges).toHaveLength(2);
+    expect(delta.upsertQuestions.map(q => q.question_text)).toEqual(["Q1", "Q2"]);
+    expect(delta.deleteSkills).toEqual([]);
+    expect(delta.deleteEdges).toEqual([]);
+    expect(delta.deleteQuestions).toEqual([]);
+  });
+
+  it("is empty when nothing changed", () => {
+    const graph = makeGraph();
+    const delta = computeSaveDelta(graphToRows(graph), graphToRows(graph));
+
+    expect(delta).toEqual({
+      upsertSkills: [],
+      deleteSkills: [],
+      upsertEdges: [],
+      deleteEdges: [],
+      upsertQuestions: [],
+      deleteQuestions: [],
+    });
+  });
+
+  it("upserts changed rows and deletes removed ones", () => {
+    const base = graphToRows(makeGraph());
+    const next = graphToRows(makeGraph({
+      globalNodes: [node("a", { description: "changed" }), node("b"), node("d")],
+      edges: [edge("a", "b", { confidence: 1 }), edge("b", "d")],
+      questionPaths: { "Q2": ["b", "c"], "Q3": ["d"] },
+    }));
+
+    const delta = computeSaveDelta(base, next);
+
+    expect(delta.upsertSkills.map(s => s.skill_id)).toEqual(["a", "d"]);
+    expect(delta.deleteSkills).toEqual(["c"]);
+    expect(delta.upsertEdges.map(e => `${e.from_skill}:${e.to_skill}`)).toEqual(["a:b", "b:d"]);
+    expect(delta.deleteEdges).toEqual([{ from_skill: "b", to_skill: "c" }]);
+    expect(delta.upsertQuestions.map(q => q.question_text)).toEqual(["Q3"]);
+    expect(delta.deleteQuestions).toEqual(["Q1"]);
+  });
+
+  it("treats every row as changed against a base known only by key", () => {
+    const base = keysToRows(
+      ["a", "b", "stale"],
+      [{ from_skill: "a", to_skill: "b" }, { from_skill: "a", to_skill: "stale" }],
+      ["Q1", "Old question"]
+    );
+
+    const delta = computeSaveDelta(base, graphToRows(makeGraph()));
+
+    expect(delta.upsertSkills.map(s => s.skill_id)).toEqual(["a", "b", "c"]);
+    expect(delta.deleteSkills).toEqual(["stale"]);
+    expect(delta.upsertEdges).toHaveLength(2);
+    expect(delta.deleteEdges).toEqual([{ from_skill: "a", to_skill: "stale" }]);
+    expect(delta.upsertQuestions.map(q => q.question_text)).toEqual(["Q1", "Q2"]);
+    expect(delta.deleteQuestions).toEqual(["Old question"]);
+  });
+});
+
+describe("keepRowsMissingFromGraph", () => {
+  it("keeps stored edges and questions when the graph being saved has none", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const base = keysToRows(["a", "b"], [{ from_skill: "a", to_skill: "b" }], ["Q1"]);
+    const next = graphToRows(makeGraph({ globalNodes: [node("a")], edges: [], questionPaths: {} }));
+
+    const delta = computeSaveDelta(base, keepRowsMissingFromGraph(base, next));
+
+    expect(delta.deleteEdges).toEqual([]);
+    expect(delta.deleteQuestions).toEqual([]);
+    // Skills are not protected: the graph still lists which ones it has
+    expect(delta.deleteSkills).toEqual(["b"]);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it("leaves non-empty tables alone", () => {
+    const base = keysToRows(["a"], [{ from_skill: "a", to_skill: "b" }], ["Q1"]);
+    const next = graphToRows(makeGraph());
+
+    expect(keepRowsMissingFromGraph(base, next)).toEqual(next);
+    expect(keepRowsMissingFromGraph(emptyRows(), emptyRows())).toEqual(emptyRows());
+  });
+});
@@ -53,6 +53,7 @@ export interface GraphEdge {
   to: string;
   reason: string;
   relationshipType?: 'requires' | 'builds_on' | 'extends';
+  confidence?: number;             // 0-1, model's certainty in the prerequisite; 1 once a reviewer confirms it
 }
 
 // Enhanced question path with validation
@@ -61,6 +62,7 @@ export interface QuestionPath {
   executionOrder: string[];
   validationStatus: 'valid' | 'missing_prereqs' | 'invalid_order';
   validationErrors?: string[];
+  skillConfidence?: Record<string, number>;  // 0-1 per required skill; 1 once a reviewer confirms it
 }
 
 export interface CourseView {
@@ -73,29 +75,31 @@ export interface CourseView {
 // IPA step types from IPA/LTA methodology
 export type IPAStepType = 'PERCEIVE' | 'ENCODE' | 'RETRIEVE' | 'DECIDE' | 'EXECUTE' | 'MONITOR';
 
-// IPA step for transparent cognitive analysis
-export interface IPAStep {
-  step: number;
-  type: IPAStepType;
-  operation: string;
-}
-
 // LTA knowledge types
 export type LTAKnowledgeType = 'declarative' | 'procedural' | 'conditional' | 'strategic';
 
 // LTA knowledge item extracted from IPA steps
 export interface LTAKnowledgeItem {
-  id: string;
+  id: string;                  // Skill (KP) the knowledge was normalized into
   type: LTAKnowledgeType;
   content: string;
 }
 
+// IPA step for transparent cognitive analysis
+export interface IPAStep {
+  step: number;
+  type: IPAStepType;
+  operation: string;
+  knowledgeItems?: LTAKnowledgeItem[];  // LTA for this step (opt-in traces only)
+}
+
 export interface KnowledgeGraph {
   globalNodes: GraphNode[];
   edges: GraphEdge[];
   courses: Record<string, CourseView>;
   questionPaths: Record<string, QuestionPath | string[]>; // Support both formats for backwards compat
   ipaByQuestion?: Record<string, IPAStep[]>; // Raw IPA analysis (optional)
+  promptVersion?: string;       // generate-graph prompt version of the latest generated content
 }
 
 export const LEVEL_LABELS = [
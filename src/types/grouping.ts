@@ -19,6 +19,13 @@ export interface SkillSubtopic {
   createdAt?: string;
 }
 
+// Full grouping state of a graph, as captured before and after an undoable change
+export interface GroupingSnapshot {
+  topics: SkillTopic[];
+  subtopics: SkillSubtopic[];
+  skillSubtopics: Record<string, string>;  // skill_id -> subtopic id, grouped skills only
+}
+
 export interface GroupingEditState {
   isEditMode: boolean;
   selectedNodeIds: Set<string>;
@@ -3,6 +3,12 @@
 // Independence levels for attempts
 export type IndependenceLevel = 'independent' | 'lightly_scaffolded' | 'heavily_assisted' | 'solution_driven';
 
+// Coding rubric dimensions (see CODING_RUBRIC_DIMENSIONS)
+export type RubricDimensionKey = 'programming' | 'analytical' | 'optimization' | 'design';
+
+// Marks awarded per rubric dimension; unscored dimensions are omitted
+export type RubricMarks = Partial<Record<RubricDimensionKey, number>>;
+
 // Retention status based on decay
 export type RetentionStatus = 'current' | 'aging' | 'expired';
 
@@ -14,9 +20,10 @@ export interface StudentAttempt {
   studentId: string;
   questionId: string;
   isCorrect: boolean;
-  solutionScore: number;           // 0-1, legacy field kept for backward compat
+  solutionScore: number;           // 0-1; rubric share of maximum when rubricMarks is set
   independenceLevel: IndependenceLevel;
   attemptedAt: Date;
+  rubricMarks?: RubricMarks | null;
   // New granular independence inputs
   solutionViewed?: boolean;
   aiTutorCount?: number;
@@ -36,6 +43,7 @@ export interface KPMastery {
   lastReviewedAt: Date | null;
   stability: number;            // Memory strength (starts at 14.0)
   retrievalCount: number;       // Successful recalls
+  attemptCount: number;         // Attempts on questions mapped to this KP (0 = unassessed)
   // Computed fields (not stored in DB)
   retentionFactor?: number;     // Current decay (0-1)
   effectiveMastery?: number;    // rawMastery * retention
@@ -85,6 +93,7 @@ export interface BulkUploadRow {
   solutionScore: number;          // 0-1
   independenceLevel: IndependenceLevel;
   attemptedAt: Date;
+  rubricMarks?: RubricMarks | null;
 }
 
 // Validation result for bulk upload
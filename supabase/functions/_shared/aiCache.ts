@@ -0,0 +1,115 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { createServiceClient } from "./domainConfig.ts";
+import { sha256Hex, type CompletionRequest, type CompletionResult, type LlmProvider } from "./llm.ts";
+
+// ============================================================
+// AI RESPONSE CACHE (record and replay)
+// ============================================================
+//
+// Replies are stored in public.ai_response_cache keyed by a hash of the model,
+// prompt and sampling parameters. A repeated call replays the stored reply, so
+// regenerating a graph from the same questions is free and deterministic.
+// `forceRefresh` asks the model again and overwrites the entry. Set
+// AI_CACHE=off to bypass the cache entirely. Cache failures never fail a call.
+
+export interface ResponseCacheOptions {
+  functionName: string;        // Edge function recorded with each entry
+  forceRefresh?: boolean;
+  supabase?: SupabaseClient;
+}
+
+interface CacheRow {
+  id: string;
+  content: string;
+  finish_reason: string | null;
+  hit_count: number;
+}
+
+/**
+ * Cache key: model + messages + the parameters that change the reply
+ */
+export function hashCompletionRequest(model: string, request: CompletionRequest): Promise<string> {
+  return sha256Hex(JSON.stringify({
+    model,
+    messages: request.messages.map(m => [m.role, m.content]),
+    temperature: request.temperature ?? null,
+    maxTokens: request.maxTokens ?? null,
+  }));
+}
+
+/**
+ * Wrap a provider so replies are read from and written to the response cache.
+ * Fixture replay is already deterministic and is returned unwrapped.
+ */
+export function withResponseCache(provider: LlmProvider, options: ResponseCacheOptions): LlmProvider {
+  if (provider.name === "fixture" || Deno.env.get("AI_CACHE") === "off") return provider;
+
+  const tag = `[ai-cache:${options.functionName}]`;
+  let client: SupabaseClient | null = options.supabase ?? null;
+  const getClient = () => (client ??= createServiceClient());
+
+  const complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+    const cacheKey = await hashCompletionRequest(provider.model, request);
+
+    if (!options.forceRefresh && !request.skipCache) {
+      try {
+        const { data, error } = await getClient()
+          .from("ai_response_cache")
+          .select("id, content, finish_reason, hit_count")
+          .eq("cache_key", cacheKey)
+          .maybeSingle();
+        if (error) throw error;
+
+        const row = data as CacheRow | null;
+        if (row) {
+          console.log(`${tag} Hit ${cacheKey.substring(0, 12)} (${row.hit_count + 1} replays)`);
+          await getClient()
+            .from("ai_response_cache")
+            .update({ hit_count: row.hit_count + 1, last_used_at: new Date().toISOString() })
+            .eq("id", row.id);
+          request.stream?.start();
+          request.stream?.delta(row.content);
+          return {
+            content: row.content,
+            finishReason: row.finish_reason,
+            model: provider.model,
+            provider: provider.name,
+            cached: true,
+          };
+        }
+      } catch (lookupErr) {
+        console.error(`${tag} Lookup failed, calling the model:`, lookupErr);
+      }
+    }
+
+    const result = await provider.complete(request);
+
+    try {
+      const { error } = await getClient()
+        .from("ai_response_cache")
+        .upsert({
+          cache_key: cacheKey,
+          function_name: options.functionName,
+          provider: provider.name,
+          model: provider.model,
+          request_params: {
+            temperature: request.temperature ?? null,
+            maxTokens: request.maxTokens ?? null,
+            promptChars: request.messages.reduce((sum, m) => sum + m.content.length, 0),
+          },
+          content: result.content,
+          finish_reason: result.finishReason,
+          hit_count: 0,
+          last_used_at: new Date().toISOString(),
+        }, { onConflict: "cache_key" });
+      if (error) throw error;
+      console.log(`${tag} ${options.forceRefresh || request.skipCache ? "Refreshed" : "Recorded"} ${cacheKey.substring(0, 12)}`);
+    } catch (writeErr) {
+      console.error(`${tag} Write failed:`, writeErr);
+    }
+
+    return result;
+  };
+
+  return { ...provider, complete };
+}
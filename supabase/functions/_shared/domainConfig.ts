@@ -0,0 +1,149 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+// ============================================================
+// DOMAIN CONFIGURATION (shared by generate-graph, classify-questions, auto-group-skills)
+// ============================================================
+//
+// Configs are versioned rows in public.domain_configs. Each function loads
+// the highest active version of a domain (or a requested version), so new
+// tracks (Java, SQL, DSA, ...) are added by inserting a row, not by deploying.
+
+export interface MandatoryEdge {
+  from: string;
+  to: string;
+  reason: string;
+}
+
+// Fixed topic/subtopic layout used by auto-group-skills instead of AI clustering
+export interface DomainGrouping {
+  topics: string[];
+  subtopics: Array<{ name: string; topic: number }>;   // topic: 1-based index into topics
+  skillSubtopicMap: Record<string, number>;            // skill_id -> 0-based index into subtopics
+}
+
+export interface DomainConfig {
+  domain: string;
+  version: number;
+  label: string;
+  skillCatalog: string;
+  scopeConstraint: string;
+  curriculumSequence: string;
+  inputFormatDescription: string;
+  exampleIPA: string;
+  curriculumTopics: string[];                // Classification topics, in teaching order
+  skillTopicMap: Record<string, number>;     // skill_id -> 1-based position in curriculumTopics
+  independentFoundational: Set<string>;      // Skills that never receive prerequisite edges
+  mandatoryEdges: MandatoryEdge[];
+  grouping: DomainGrouping | null;           // null = group by curriculum topic with AI subtopics
+}
+
+export const DEFAULT_DOMAIN = "python";
+
+interface DomainConfigRow {
+  domain: string;
+  version: number;
+  label: string;
+  config: Record<string, unknown>;
+}
+
+const asString = (value: unknown) => (typeof value === "string" ? value : "");
+const asStringArray = (value: unknown) =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+const asNumberMap = (value: unknown): Record<string, number> => {
+  const result: Record<string, number> = {};
+  if (value && typeof value === "object") {
+    for (const [key, n] of Object.entries(value as Record<string, unknown>)) {
+      if (typeof n === "number" && Number.isFinite(n)) result[key] = n;
+    }
+  }
+  return result;
+};
+
+/**
+ * Turn a stored row into a DomainConfig, tolerating missing sections
+ */
+export function parseDomainConfig(row: DomainConfigRow): DomainConfig {
+  const c = row.config || {};
+  const rawGrouping = c.grouping as Record<string, unknown> | null | undefined;
+
+  return {
+    domain: row.domain,
+    version: row.version,
+    label: row.label,
+    skillCatalog: asString(c.skillCatalog),
+    scopeConstraint: asString(c.scopeConstraint),
+    curriculumSequence: asString(c.curriculumSequence),
+    inputFormatDescription: asString(c.inputFormatDescription),
+    exampleIPA: asString(c.exampleIPA),
+    curriculumTopics: asStringArray(c.curriculumTopics),
+    skillTopicMap: asNumberMap(c.skillTopicMap),
+    independentFoundational: new Set(asStringArray(c.independentFoundational)),
+    mandatoryEdges: Array.isArray(c.mandatoryEdges)
+      ? (c.mandatoryEdges as MandatoryEdge[]).filter(e => e && typeof e.from === "string" && typeof e.to === "string")
+          .map(e => ({ from: e.from, to: e.to, reason: asString(e.reason) }))
+      : [],
+    grouping: rawGrouping && typeof rawGrouping === "object"
+      ? {
+          topics: asStringArray(rawGrouping.topics),
+          subtopics: Array.isArray(rawGrouping.subtopics)
+            ? (rawGrouping.subtopics as Array<{ name: string; topic: number }>)
+                .filter(s => s && typeof s.name === "string" && typeof s.topic === "number")
+            : [],
+          skillSubtopicMap: asNumberMap(rawGrouping.skillSubtopicMap),
+        }
+      : null,
+  };
+}
+
+/**
+ * Service-role client for reading configs from inside an edge function
+ */
+export function createServiceClient(): SupabaseClient {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+}
+
+/**
+ * Load a domain's config: the requested version, or the highest active one.
+ * Throws when the domain has no (matching) config.
+ */
+export async function loadDomainConfig(
+  supabase: SupabaseClient,
+  domain: string = DEFAULT_DOMAIN,
+  version?: number
+): Promise<DomainConfig> {
+  let query = supabase
+    .from("domain_configs")
+    .select("domain, version, label, config")
+    .eq("domain", domain);
+
+  query = version !== undefined
+    ? query.eq("version", version)
+    : query.eq("is_active", true).order("version", { ascending: false }).limit(1);
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load domain config "${domain}": ${error.message}`);
+  if (!data || data.length === 0) {
+    throw new Error(`No ${version !== undefined ? `version ${version} of the ` : "active "}domain config for "${domain}"`);
+  }
+
+  return parseDomainConfig(data[0] as DomainConfigRow);
+}
+
+/**
+ * Highest active version of every domain
+ */
+export async function loadActiveDomainConfigs(supabase: SupabaseClient): Promise<DomainConfig[]> {
+  const { data, error } = await supabase
+    .from("domain_configs")
+    .select("domain, version, label, config")
+    .eq("is_active", true)
+    .order("version", { ascending: false });
+
+  if (error) throw new Error(`Failed to load domain configs: ${error.message}`);
+
+  const latest = new Map<string, DomainConfig>();
+  for (const row of (data || []) as DomainConfigRow[]) {
+    if (!latest.has(row.domain)) latest.set(row.domain, parseDomainConfig(row));
+  }
+  return [...latest.values()];
+}
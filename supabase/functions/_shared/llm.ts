@@ -0,0 +1,620 @@
+// ============================================================
+// LLM PROVIDERS (shared by every function that calls a model)
+// ============================================================
+//
+// Selected with environment variables:
+//
+//   LLM_PROVIDER          openrouter (default) | openai-compatible | fixture
+//   LLM_MODEL             model id (default deepseek/deepseek-v3.2 on OpenRouter)
+//   LLM_CONTEXT_WINDOW    tokens the model accepts, prompt + output (used for budgeting)
+//   OPENROUTER_API_KEY    required for openrouter
+//   LLM_BASE_URL          openai-compatible server, e.g. http://localhost:11434/v1 (Ollama)
+//                         or http://localhost:8080/v1 (llama.cpp server)
+//   LLM_API_KEY           optional bearer token for the openai-compatible server
+//   LLM_FIXTURE_DIR       fixture provider: directory of <prompt-hash>.json replies
+//   LLM_FIXTURE_RECORD    fixture provider: provider used to record missing fixtures
+//                         (openrouter | openai-compatible); unset = replay only
+//
+// Fixtures are keyed by a hash of the prompt messages, so graph generation,
+// classification and difficulty analysis can be replayed offline.
+
+export type LlmProviderName = "openrouter" | "openai-compatible" | "fixture";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Receives a reply while it is generated. `start` is called at the beginning
+ * of every attempt (a retry discards what was streamed before); replays from
+ * fixtures or the cache deliver the whole reply as one delta.
+ */
+export interface CompletionStream {
+  start: () => void;
+  delta: (text: string) => void;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  maxTokens?: number;          // Desired output budget; capped to the context window
+  temperature?: number;
+  maxRetries?: number;         // Attempts for transient failures (default 3)
+  skipCache?: boolean;         // Ask the model even when a cached reply exists (see aiCache.ts)
+  stream?: CompletionStream;   // Stream the reply from the provider as it is written
+}
+
+export interface CompletionResult {
+  content: string;
+  finishReason: string | null;
+  model: string;
+  provider: LlmProviderName;
+  cached?: boolean;            // Served from the response cache
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  contextWindow: number;
+  complete: (request: CompletionRequest) => Promise<CompletionResult>;
+}
+
+export type LlmErrorCode =
+  | "config"
+  | "rate_limited"
+  | "credits"
+  | "auth"
+  | "context"
+  | "empty"
+  | "upstream"
+  | "fixture_missing"
+  | "parse";
+
+/**
+ * Provider failure carrying the HTTP status an edge function should answer
+ * with and a message that is safe to show to users
+ */
+export class LlmError extends Error {
+  code: LlmErrorCode;
+  status: number;
+
+  constructor(code: LlmErrorCode, status: number, message: string) {
+    super(message);
+    this.name = "LlmError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const OPENROUTER_URL = "https://openrouter.ai/api/v1";
+const DEFAULT_OPENROUTER_MODEL = "deepseek/deepseek-v3.2";
+const DEFAULT_CONTEXT_WINDOWS: Record<LlmProviderName, number> = {
+  "openrouter": 163840,
+  "openai-compatible": 8192,
+  "fixture": 163840,
+};
+const DEFAULT_MAX_RETRIES = 3;
+const PROMPT_MARGIN_TOKENS = 256;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// ─── Token budgeting ───
+
+/**
+ * Rough token count (about four characters per token); good enough for budgeting
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Output tokens to request: the desired budget, capped to what the context
+ * window leaves after the prompt. Throws when the prompt alone does not fit.
+ */
+export function budgetMaxTokens(messages: ChatMessage[], desired: number, contextWindow: number): number {
+  const promptTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content) + 4, 0);
+  const available = contextWindow - promptTokens - PROMPT_MARGIN_TOKENS;
+  if (available <= 0) {
+    throw new LlmError(
+      "context",
+      413,
+      `Prompt is too long for the model (about ${promptTokens} tokens, context window ${contextWindow}). Try fewer questions per batch.`
+    );
+  }
+  return Math.min(desired, available);
+}
+
+// ─── Prompt hashing (fixture and cache keys) ───
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * SHA-256 of the prompt messages, hex encoded
+ */
+export function hashPrompt(messages: ChatMessage[]): Promise<string> {
+  return sha256Hex(JSON.stringify(messages.map(m => [m.role, m.content])));
+}
+
+// ─── Error mapping ───
+
+function mapHttpError(status: number, providerMessage: string): LlmError {
+  if (status === 429) return new LlmError("rate_limited", 429, "Too many requests. Please wait a moment and try again.");
+  if (status === 402) return new LlmError("credits", 402, "AI credits depleted. Please add credits to the AI provider account.");
+  if (status === 401 || status === 403) return new LlmError("auth", 401, "AI authentication failed. Please contact support.");
+  return new LlmError("upstream", status >= 500 ? 502 : 500, providerMessage || `AI error (${status})`);
+}
+
+/**
+ * JSON error response for a failed request: LlmErrors keep their status,
+ * anything else is a 500
+ */
+export function llmErrorResponse(error: unknown, headers: Record<string, string>): Response {
+  const status = error instanceof LlmError ? error.status : 500;
+  const message = error instanceof Error ? error.message : "Unknown error";
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+}
+
+// ─── OpenAI-compatible chat completions (OpenRouter, Ollama, llama.cpp, ...) ───
+
+interface ChatCompletionBody {
+  choices?: Array<{
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+    error?: { message?: string };
+  }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+    error?: { message?: string };
+  }>;
+  error?: { message?: string };
+}
+
+interface StreamedCompletion {
+  content: string;
+  finishReason: string | null;
+  errorMessage?: string;
+}
+
+/**
+ * Read a server-sent-events chat completion, passing content on as it arrives
+ */
+async function readCompletionStream(response: Response, stream: CompletionStream): Promise<StreamedCompletion> {
+  const completion: StreamedCompletion = { content: "", finishReason: null };
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+
+  const handleLine = (line: string) => {
+    // Anything else is a keep-alive comment
+    if (!line.startsWith("data:")) return;
+    const payload = line.slice(5).trim();
+    if (!payload || payload === "[DONE]") return;
+
+    let chunk: ChatCompletionChunk;
+    try {
+      chunk = JSON.parse(payload);
+    } catch {
+      return;
+    }
+    const choice = chunk.choices?.[0];
+    const errorMessage = chunk.error?.message ?? choice?.error?.message;
+    if (errorMessage) completion.errorMessage = errorMessage;
+    const text = choice?.delta?.content;
+    if (text) {
+      completion.content += text;
+      stream.delta(text);
+    }
+    if (choice?.finish_reason) completion.finishReason = choice.finish_reason;
+  };
+
+  stream.start();
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+  handleLine(buffered);
+  return completion;
+}
+
+interface ChatProviderOptions {
+  name: Exclude<LlmProviderName, "fixture">;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  contextWindow: number;
+  tag: string;
+}
+
+function createChatProvider(options: ChatProviderOptions): LlmProvider {
+  const { name, baseUrl, apiKey, model, contextWindow, tag } = options;
+  const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+    const maxRetries = request.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const maxTokens = request.maxTokens !== undefined
+      ? budgetMaxTokens(request.messages, request.maxTokens, contextWindow)
+      : undefined;
+    let lastError: LlmError = new LlmError("upstream", 502, "AI processing failed");
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      const isLast = attempt === maxRetries;
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "POST",
+          headers: {
+            ...(apiKey ? { "Authorization": `Bearer ${apiKey}` } : {}),
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            model,
+            messages: request.messages,
+            ...(maxTokens !== undefined ? { max_tokens: maxTokens } : {}),
+            ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+            ...(request.stream ? { stream: true } : {}),
+          }),
+        });
+      } catch (fetchErr) {
+        console.error(`${tag} ${name} request failed (attempt ${attempt}/${maxRetries}):`, fetchErr);
+        lastError = new LlmError("upstream", 502, `AI service unreachable (${fetchErr instanceof Error ? fetchErr.message : "network error"})`);
+        if (!isLast) { await sleep(attempt * 2000); continue; }
+        throw lastError;
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.error(`${tag} ${name} error (attempt ${attempt}/${maxRetries}):`, response.status, JSON.stringify(errorData));
+        lastError = mapHttpError(response.status, errorData.error?.message);
+
+        if (response.status === 429 && !isLast) {
+          const retryAfter = response.headers.get("Retry-After");
+          const waitMs = retryAfter ? parseInt(retryAfter) * 1000 : Math.pow(2, attempt) * 10000;
+          console.log(`${tag} Rate limited (429). Waiting ${waitMs / 1000}s before retry ${attempt + 1}/${maxRetries}...`);
+          await sleep(waitMs);
+          continue;
+        }
+        if (response.status >= 500 && !isLast) {
+          console.log(`${tag} Retrying in ${attempt * 2000}ms...`);
+          await sleep(attempt * 2000);
+          continue;
+        }
+        throw lastError;
+      }
+
+      let completion: StreamedCompletion;
+      let rawSummary = "";
+      try {
+        if (request.stream) {
+          completion = await readCompletionStream(response, request.stream);
+          rawSummary = completion.content;
+        } else {
+          const rawText = await response.text();
+          const data: ChatCompletionBody | null = rawText.trim() ? JSON.parse(rawText) : null;
+          const choice = data?.choices?.[0];
+          completion = {
+            content: choice?.message?.content ?? "",
+            finishReason: choice?.finish_reason ?? null,
+            errorMessage: choice?.error ? choice.error.message || "Unknown provider error" : undefined,
+          };
+          rawSummary = JSON.stringify(data);
+        }
+      } catch (readErr) {
+        console.error(`${tag} Invalid response body (attempt ${attempt}/${maxRetries}):`, readErr);
+        completion = { content: "", finishReason: null };
+      }
+
+      const { content, finishReason } = completion;
+
+      if (content.trim() === "") {
+        if (completion.errorMessage) {
+          const providerMsg = completion.errorMessage;
+          console.warn(`${tag} Upstream provider error on attempt ${attempt}/${maxRetries}: ${providerMsg}`);
+          lastError = new LlmError("upstream", 503, `AI service temporarily unavailable (${providerMsg}). Please try again.`);
+        } else {
+          console.warn(`${tag} No content on attempt ${attempt}/${maxRetries}. Response: ${rawSummary.substring(0, 200)}`);
+          lastError = new LlmError("empty", 502, "AI returned an empty response after multiple attempts. Please try again.");
+        }
+        if (!isLast) { await sleep(attempt * 2000); continue; }
+        throw lastError;
+      }
+
+      console.log(`${tag} ${name} (${model}) finish reason: ${finishReason}`);
+      if (finishReason === "length") {
+        console.warn(`${tag} Response was truncated due to max tokens limit`);
+      }
+      return { content, finishReason, model, provider: name };
+    }
+
+    throw lastError;
+  };
+
+  return { name, model, contextWindow, complete };
+}
+
+// ─── Fixture replay (offline development and tests) ───
+
+interface FixtureFile {
+  content: string;
+  finishReason?: string | null;
+  model?: string;
+  messages?: ChatMessage[];    // Stored for humans reading the fixture; not used on replay
+}
+
+function createFixtureProvider(dir: string, recorder: LlmProvider | null, tag: string): LlmProvider {
+  const complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+    const hash = await hashPrompt(request.messages);
+    const path = `${dir.replace(/\/+$/, "")}/${hash}.json`;
+
+    try {
+      const fixture = JSON.parse(await Deno.readTextFile(path)) as FixtureFile;
+      console.log(`${tag} Replaying fixture ${hash}`);
+      request.stream?.start();
+      request.stream?.delta(fixture.content);
+      return {
+        content: fixture.content,
+        finishReason: fixture.finishReason ?? "stop",
+        model: fixture.model ?? "fixture",
+        provider: "fixture",
+      };
+    } catch (readErr) {
+      if (!(readErr instanceof Deno.errors.NotFound)) throw readErr;
+    }
+
+    if (!recorder) {
+      throw new LlmError("fixture_missing", 500, `No LLM fixture for prompt ${hash} in ${dir}`);
+    }
+
+    const result = await recorder.complete(request);
+    const fixture: FixtureFile = {
+      content: result.content,
+      finishReason: result.finishReason,
+      model: result.model,
+      messages: request.messages,
+    };
+    await Deno.mkdir(dir, { recursive: true });
+    await Deno.writeTextFile(path, JSON.stringify(fixture, null, 2));
+    console.log(`${tag} Recorded fixture ${hash} from ${recorder.name}`);
+    return result;
+  };
+
+  return {
+    name: "fixture",
+    model: recorder?.model ?? "fixture",
+    contextWindow: recorder?.contextWindow ?? DEFAULT_CONTEXT_WINDOWS.fixture,
+    complete,
+  };
+}
+
+// ─── Provider selection ───
+
+function createNetworkProvider(name: string, tag: string): LlmProvider {
+  const contextOverride = parseInt(Deno.env.get("LLM_CONTEXT_WINDOW") || "", 10);
+
+  if (name === "openrouter") {
+    const apiKey = Deno.env.get("OPENROUTER_API_KEY");
+    if (!apiKey) throw new LlmError("config", 500, "OPENROUTER_API_KEY is not configured");
+    return createChatProvider({
+      name: "openrouter",
+      baseUrl: OPENROUTER_URL,
+      apiKey,
+      model: Deno.env.get("LLM_MODEL") || DEFAULT_OPENROUTER_MODEL,
+      contextWindow: contextOverride > 0 ? contextOverride : DEFAULT_CONTEXT_WINDOWS.openrouter,
+      tag,
+    });
+  }
+
+  if (name === "openai-compatible") {
+    const baseUrl = Deno.env.get("LLM_BASE_URL");
+    if (!baseUrl) throw new LlmError("config", 500, "LLM_BASE_URL is not configured");
+    const model = Deno.env.get("LLM_MODEL");
+    if (!model) throw new LlmError("config", 500, "LLM_MODEL is not configured");
+    return createChatProvider({
+      name: "openai-compatible",
+      baseUrl,
+      apiKey: Deno.env.get("LLM_API_KEY") || undefined,
+      model,
+      contextWindow: contextOverride > 0 ? contextOverride : DEFAULT_CONTEXT_WINDOWS["openai-compatible"],
+      tag,
+    });
+  }
+
+  throw new LlmError("config", 500, `Unknown LLM_PROVIDER "${name}"`);
+}
+
+/**
+ * Provider configured by the environment. `tag` prefixes log lines, e.g. "[IPA/LTA]".
+ */
+export function createLlmProvider(tag: string): LlmProvider {
+  const name = Deno.env.get("LLM_PROVIDER") || "openrouter";
+
+  if (name === "fixture") {
+    const dir = Deno.env.get("LLM_FIXTURE_DIR");
+    if (!dir) throw new LlmError("config", 500, "LLM_FIXTURE_DIR is not configured");
+    const recordWith = Deno.env.get("LLM_FIXTURE_RECORD");
+    return createFixtureProvider(dir, recordWith ? createNetworkProvider(recordWith, tag) : null, tag);
+  }
+
+  return createNetworkProvider(name, tag);
+}
+
+// ─── JSON extraction ───
+
+/**
+ * Whether brackets are unbalanced, i.e. the model stopped mid-document
+ */
+export function isLikelyTruncatedJson(text: string): boolean {
+  const openCurly = (text.match(/\{/g) || []).length;
+  const closeCurly = (text.match(/\}/g) || []).length;
+  const openSquare = (text.match(/\[/g) || []).length;
+  const closeSquare = (text.match(/\]/g) || []).length;
+  return openCurly !== closeCurly || openSquare !== closeSquare;
+}
+
+/**
+ * Best-effort repair of truncated JSON: cut back to the last closed bracket,
+ * close what is still open and drop trailing commas. Returns null on failure.
+ */
+export function attemptJsonRepair(text: string, tag = "[llm]"): unknown {
+  console.log(`${tag} Attempting JSON repair for truncated response...`);
+  let repaired = text.trim();
+  let openCurly = 0;
+  let openSquare = 0;
+  let lastValidPos = 0;
+  let inString = false;
+  let escapeNext = false;
+
+  for (let i = 0; i < repaired.length; i++) {
+    const char = repaired[i];
+    if (escapeNext) { escapeNext = false; continue; }
+    if (char === '\\') { escapeNext = true; continue; }
+    if (char === '"') { inString = !inString; continue; }
+    if (inString) continue;
+
+    if (char === '{') openCurly++;
+    else if (char === '}') {
+      openCurly--;
+      if (openCurly >= 0 && openSquare >= 0) lastValidPos = i + 1;
+    }
+    else if (char === '[') openSquare++;
+    else if (char === ']') {
+      openSquare--;
+      if (openCurly >= 0 && openSquare >= 0) lastValidPos = i + 1;
+    }
+  }
+
+  if (lastValidPos > 0 && lastValidPos < repaired.length) {
+    repaired = repaired.substring(0, lastValidPos);
+  }
+
+  // Recount after the cut so only brackets that are still open get closed
+  openCurly = (repaired.match(/\{/g) || []).length - (repaired.match(/\}/g) || []).length;
+  openSquare = (repaired.match(/\[/g) || []).length - (repaired.match(/\]/g) || []).length;
+  while (openSquare > 0) { repaired += ']'; openSquare--; }
+  while (openCurly > 0) { repaired += '}'; openCurly--; }
+
+  repaired = repaired.replace(/,\s*}/g, '}').replace(/,\s*]/g, ']');
+
+  try {
+    const parsed = JSON.parse(repaired);
+    console.log(`${tag} JSON repair successful!`);
+    return parsed;
+  } catch (e) {
+    console.error(`${tag} JSON repair failed:`, (e as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Drop ASCII control characters, which JSON does not allow unescaped inside strings
+ */
+function stripControlCharacters(text: string): string {
+  let result = "";
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code > 0x1f && code !== 0x7f) result += char;
+  }
+  return result;
+}
+
+/**
+ * Parse the JSON object or array in a model reply, tolerating code fences,
+ * surrounding prose, trailing commas and control characters. Truncated
+ * replies are repaired where possible.
+ */
+export function extractJsonFromResponse(response: string, tag = "[llm]"): unknown {
+  let cleaned = response
+    .replace(/```json\s*/gi, "")
+    .replace(/```\s*/g, "")
+    .trim();
+
+  // Whichever of { or [ opens first is the outer value
+  const objectStart = cleaned.indexOf("{");
+  const arrayStart = cleaned.indexOf("[");
+  const useArray = arrayStart !== -1 && (objectStart === -1 || arrayStart < objectStart);
+  const start = useArray ? arrayStart : objectStart;
+  const end = useArray ? cleaned.lastIndexOf("]") : cleaned.lastIndexOf("}");
+
+  if (start === -1) {
+    throw new LlmError("parse", 502, "No JSON object or array found in AI response");
+  }
+  cleaned = end > start ? cleaned.substring(start, end + 1) : cleaned.substring(start);
+
+  cleaned = cleaned
+    .replace(/\r\n/g, "\n")
+    .replace(/\r/g, "\n")
+    .replace(/\n+/g, " ")
+    .replace(/\t+/g, " ")
+    .trim();
+
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    cleaned = stripControlCharacters(cleaned
+      .replace(/,\s*}/g, "}")
+      .replace(/,\s*]/g, "]"));
+
+    try {
+      return JSON.parse(cleaned);
+    } catch (secondError) {
+      console.error(`${tag} Failed to parse JSON even after fixes. First 500 chars:`, cleaned.substring(0, 500));
+      console.error(`${tag} Last 500 chars:`, cleaned.substring(Math.max(0, cleaned.length - 500)));
+
+      if (isLikelyTruncatedJson(cleaned)) {
+        const repaired = attemptJsonRepair(cleaned, tag);
+        if (repaired) {
+          console.log(`${tag} Successfully recovered partial response`);
+          return repaired;
+        }
+        throw new LlmError(
+          "parse",
+          502,
+          "AI response appears truncated (incomplete JSON). Try reducing the number of questions or splitting them into smaller batches."
+        );
+      }
+
+      throw new LlmError("parse", 502, `Failed to parse AI response as JSON: ${(secondError as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Complete and parse the reply as JSON, asking again (up to parseRetries
+ * times in total) when the model returns malformed JSON
+ */
+export async function completeJson<T = unknown>(
+  provider: LlmProvider,
+  request: CompletionRequest,
+  options: { parseRetries?: number; tag?: string } = {}
+): Promise<{ data: T; result: CompletionResult }> {
+  const parseRetries = options.parseRetries ?? 1;
+  const tag = options.tag ?? "[llm]";
+
+  for (let parseAttempt = 1; ; parseAttempt++) {
+    // A malformed reply may be the cached one, so retries always ask the model
+    const result = await provider.complete(parseAttempt > 1 ? { ...request, skipCache: true } : request);
+    try {
+      return { data: extractJsonFromResponse(result.content, tag) as T, result };
+    } catch (parseError) {
+      console.error(`${tag} JSON extraction error (attempt ${parseAttempt}/${parseRetries}):`, parseError);
+      if (parseAttempt >= parseRetries) {
+        throw parseRetries > 1
+          ? new LlmError("parse", 502, "AI returned malformed JSON after multiple attempts. Please try again.")
+          : parseError;
+      }
+      console.log(`${tag} Re-requesting AI response due to malformed JSON...`);
+    }
+  }
+}
@@ -0,0 +1,21 @@
+// ============================================================
+// PROMPT VERSION IDS
+// ============================================================
+//
+// The generate-graph prompt versions, by id. generate-graph maps each id to
+// its prompt builders; generation-jobs and evaluate-prompts validate the
+// versions they are asked for against this list before doing any work.
+
+export const PROMPT_VERSION_IDS = ["ipa-lta-1", "ipa-lta-2"] as const;
+
+export type PromptVersionId = typeof PROMPT_VERSION_IDS[number];
+
+export const CURRENT_PROMPT_VERSION: PromptVersionId = "ipa-lta-1";
+
+export function isPromptVersion(value: unknown): value is PromptVersionId {
+  return typeof value === "string" && (PROMPT_VERSION_IDS as readonly string[]).includes(value);
+}
+
+export function unknownPromptVersionMessage(value: string): string {
+  return `Unknown prompt version "${value}". Known: ${PROMPT_VERSION_IDS.join(", ")}`;
+}
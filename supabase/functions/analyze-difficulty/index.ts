@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { withResponseCache } from "../_shared/aiCache.ts";
+import { createLlmProvider, extractJsonFromResponse, llmErrorResponse } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -98,55 +100,6 @@ function sanitizeQuestionText(text: string): string {
     .trim();
 }
 
-function isLikelyTruncatedJson(text: string): boolean {
-  const openCurly = (text.match(/\{/g) || []).length;
-  const closeCurly = (text.match(/\}/g) || []).length;
-  const openSquare = (text.match(/\[/g) || []).length;
-  const closeSquare = (text.match(/\]/g) || []).length;
-  return openCurly !== closeCurly || openSquare !== closeSquare;
-}
-
-function attemptJsonRepair(text: string): any | null {
-  let repaired = text.trim();
-  let openCurly = 0;
-  let openSquare = 0;
-  let lastValidPos = 0;
-  let inString = false;
-  let escapeNext = false;
-
-  for (let i = 0; i < repaired.length; i++) {
-    const char = repaired[i];
-    if (escapeNext) { escapeNext = false; continue; }
-    if (char === '\\') { escapeNext = true; continue; }
-    if (char === '"') { inString = !inString; continue; }
-    if (inString) continue;
-
-    if (char === '{') openCurly++;
-    else if (char === '}') {
-      openCurly--;
-      if (openCurly >= 0 && openSquare >= 0) lastValidPos = i + 1;
-    } else if (char === '[') openSquare++;
-    else if (char === ']') {
-      openSquare--;
-      if (openCurly >= 0 && openSquare >= 0) lastValidPos = i + 1;
-    }
-  }
-
-  if (lastValidPos > 0 && lastValidPos < repaired.length) {
-    repaired = repaired.substring(0, lastValidPos);
-  }
-
-  openCurly = (repaired.match(/\{/g) || []).length - (repaired.match(/\}/g) || []).length;
-  openSquare = (repaired.match(/\[/g) || []).length - (repaired.match(/\]/g) || []).length;
-
-  while (openSquare > 0) { repaired += ']'; openSquare--; }
-  while (openCurly > 0) { repaired += '}'; openCurly--; }
-
-  repaired = repaired.replace(/,\s*}/g, '}').replace(/,\s*]/g, ']');
-
-  try { return JSON.parse(repaired); } catch { return null; }
-}
-
 function getDefaultDifficultyResult(): DifficultyResult {
   return {
     cognitiveComplexity: 2,
@@ -158,57 +111,6 @@ function getDefaultDifficultyResult(): DifficultyResult {
   };
 }
 
-function extractJsonFromResponse(response: string): any {
-  let cleaned = response
-    .replace(/```json\s*/gi, "")
-    .replace(/```\s*/g, "")
-    .trim();
-
-  const jsonStart = cleaned.indexOf("{");
-  const jsonEnd = cleaned.lastIndexOf("}");
-
-  if (jsonStart === -1 || jsonEnd === -1) {
-    throw new Error("No JSON object found in response");
-  }
-  
-  cleaned = cleaned.substring(jsonStart, jsonEnd + 1);
-  cleaned = cleaned
-    .replace(/\r\n/g, "\n")
-    .replace(/\r/g, "\n")
-    .replace(/\n+/g, " ")
-    .replace(/\t+/g, " ")
-    .trim();
-
-  try {
-    return JSON.parse(cleaned);
-  } catch (e) {
-    console.log("[analyze-difficulty] First parse failed, attempting cleanup...");
-    cleaned = cleaned
-      .replace(/,\s*}/g, "}")
-      .replace(/,\s*]/g, "]")
-      .replace(/[\x00-\x1F\x7F]/g, "");
-
-    try {
-      return JSON.parse(cleaned);
-    } catch (secondError) {
-      console.error("[analyze-difficulty] Parse failed. First 500 chars:", cleaned.substring(0, 500));
-      console.error("[analyze-difficulty] Last 500 chars:", cleaned.substring(Math.max(0, cleaned.length - 500)));
-
-      if (isLikelyTruncatedJson(cleaned)) {
-        console.log("[analyze-difficulty] Detected truncated JSON, attempting repair...");
-        const repaired = attemptJsonRepair(cleaned);
-        if (repaired) {
-          console.log("[analyze-difficulty] JSON repair successful");
-          return repaired;
-        }
-        throw new Error("AI response truncated - try smaller batch size");
-      }
-
-      throw new Error(`JSON parse failed: ${(secondError as Error).message}`);
-    }
-  }
-}
-
 function validateAndNormalize(result: any): DifficultyResult {
   if (!result || typeof result !== 'object') {
     return getDefaultDifficultyResult();
@@ -231,7 +133,7 @@ serve(async (req) => {
   }
 
   try {
-    let body: { questions?: QuestionInput[] };
+    let body: { questions?: QuestionInput[]; forceRefresh?: boolean };
     try {
       const text = await req.text();
       if (!text || text.trim() === '') {
@@ -249,7 +151,7 @@ serve(async (req) => {
       );
     }
     
-    const { questions } = body;
+    const { questions, forceRefresh = false } = body;
     
     if (!questions || !Array.isArray(questions) || questions.length === 0) {
       return new Response(
@@ -258,11 +160,7 @@ serve(async (req) => {
       );
     }
     
-    const OPENROUTER_API_KEY = Deno.env.get("OPENROUTER_API_KEY");
-    
-    if (!OPENROUTER_API_KEY) {
-      throw new Error("OPENROUTER_API_KEY is not configured");
-    }
+    const llm = withResponseCache(createLlmProvider("[analyze-difficulty]"), { functionName: "analyze-difficulty", forceRefresh });
 
     console.log(`[analyze-difficulty] Analyzing ${questions.length} questions for difficulty`);
 
@@ -295,75 +193,22 @@ For each question:
 
 Return JSON with the NUMERIC INDEX (1, 2, 3, etc.) as keys. Do NOT use any other identifiers.`;
 
-    const model = "deepseek/deepseek-v3.2";
     const maxTokens = Math.min(4000 + questions.length * 150, 16000);
-    
-    const MAX_RETRIES = 3;
-    let response: Response | null = null;
-
-    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-      response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${OPENROUTER_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model,
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userPrompt },
-          ],
-          max_tokens: maxTokens,
-          temperature: 0.1,
-        }),
-      });
-
-      if (response.ok) break;
-
-      const errorData = await response.json().catch(() => ({}));
-      console.error(`[analyze-difficulty] AI error (attempt ${attempt}/${MAX_RETRIES}):`, response.status, JSON.stringify(errorData));
-
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Too many requests. Please wait and try again." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
 
-      // Retry on 5xx errors (transient)
-      if (response.status >= 500 && attempt < MAX_RETRIES) {
-        const delay = attempt * 2000; // 2s, 4s
-        console.log(`[analyze-difficulty] Retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        continue;
-      }
-
-      return new Response(JSON.stringify({ error: errorData.error?.message || "AI processing failed" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    if (!response || !response.ok) {
-      return new Response(JSON.stringify({ error: "AI processing failed after retries" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-
-    if (!content) {
-      throw new Error("No content in AI response");
-    }
+    const { content } = await llm.complete({
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      maxTokens,
+      temperature: 0.1,
+    });
 
     let rawResults: Record<string, any>;
     let usedFallbacks = 0;
     
     try {
-      rawResults = extractJsonFromResponse(content);
+      rawResults = extractJsonFromResponse(content, "[analyze-difficulty]") as typeof rawResults;
     } catch (parseError) {
       console.error("[analyze-difficulty] Complete parse failure, using defaults for all questions:", parseError);
       rawResults = {};
@@ -398,12 +243,6 @@ Return JSON with the NUMERIC INDEX (1, 2, 3, etc.) as keys. Do NOT use any other
     });
   } catch (error) {
     console.error("[analyze-difficulty] error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return llmErrorResponse(error, corsHeaders);
   }
 });
@@ -1,4 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { DEFAULT_DOMAIN, createServiceClient, loadDomainConfig } from "../_shared/domainConfig.ts";
+import { withResponseCache } from "../_shared/aiCache.ts";
+import { completeJson, createLlmProvider, llmErrorResponse, type LlmProvider } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,73 +9,10 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
-const WEB_TOPICS = [
-  "Introduction to HTML",
-  "HTML Elements",
-  "HTML Forms and Tables",
-  "HTML Attributes and General",
-  "Introduction To CSS And CSS Selectors",
-  "CSS Properties",
-  "CSS Display And Position",
-  "CSS Layouts And Box Model",
-  "CSS Selectors",
-  "CSS Flexbox",
-  "CSS Grid",
-  "CSS Media Queries",
-  "CSS General",
-  "Introduction to JavaScript",
-  "DOM And Events",
-  "Schedulers & Callback Functions",
-  "Storage Mechanisms",
-  "Network & HTTP Requests",
-  "Asynchronous JS and Error Handling",
-  "JS General",
-  "Variables",
-  "Data Types",
-  "Operators",
-  "Conditional Statements",
-  "Functions",
-  "Loops",
-  "Recursion",
-  "Introduction to React",
-  "React Components & Props",
-  "useState Hook",
-  "useEffect Hook",
-  "More React Hooks",
-  "React Router",
-  "Authentication & Authorisation",
-  "React Lists & Forms",
-  "React General",
-];
-
-const PYTHON_TOPICS = [
-  "Introduction to Python",
-  "I/O Basics",
-  "Operators & Conditional Statements",
-  "Nested Conditions",
-  "Loops",
-  "Loop Control Statements",
-  "Comparing Strings & Naming Variables",
-  "Lists",
-  "Functions",
-  "Recursion",
-  "Tuples & Sets",
-  "Intro to Matrices & Shorthand Expressions",
-  "Dictionaries",
-  "Introduction to Object Oriented Programming",
-  "Abstraction and Polymorphism",
-  "Miscellaneous Topics",
-  "Problem Solving",
-];
-
-function getTopicsForDomain(domain: string): string[] {
-  return domain === 'web' ? WEB_TOPICS : PYTHON_TOPICS;
-}
-
 async function classifyChunk(
   questions: { index: number; summary: string }[],
   topics: string[],
-  apiKey: string
+  llm: LlmProvider
 ): Promise<Record<number, string>> {
   const topicList = topics.map((t, i) => `${i + 1}. ${t}`).join('\n');
   
@@ -96,40 +36,19 @@ Rules:
 - Pick the BEST matching topic based on what skills the question tests
 - Return ONLY the JSON array, no other text`;
 
-  const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: "deepseek/deepseek-v3.2",
-      messages: [
-        { role: "system", content: "You are a curriculum classifier. Return only valid JSON." },
-        { role: "user", content: prompt },
-      ],
-      temperature: 0.1,
-    }),
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    console.error("Classification API error:", response.status, text);
-    throw new Error(`Classification failed: ${response.status}`);
-  }
+  const { data: classifications } = await completeJson<Array<{ idx: number; topic: string }>>(llm, {
+    messages: [
+      { role: "system", content: "You are a curriculum classifier. Return only valid JSON." },
+      { role: "user", content: prompt },
+    ],
+    temperature: 0.1,
+  }, { tag: "[classify-questions]" });
 
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content || "";
-  
-  // Extract JSON from response
-  const jsonMatch = content.match(/\[[\s\S]*\]/);
-  if (!jsonMatch) {
-    console.error("No JSON array found in classification response:", content);
+  if (!Array.isArray(classifications)) {
+    console.error("Classification response is not an array:", classifications);
     throw new Error("Classification returned invalid format");
   }
 
-  const classifications = JSON.parse(jsonMatch[0]) as Array<{ idx: number; topic: string }>;
-  
   const result: Record<number, string> = {};
   for (const c of classifications) {
     const originalIndex = questions[c.idx]?.index;
@@ -149,7 +68,7 @@ serve(async (req) => {
   }
 
   try {
-    const { questions, domain = "python" } = await req.json();
+    const { questions, domain = DEFAULT_DOMAIN, domainVersion, forceRefresh = false } = await req.json();
     
     if (!questions || !Array.isArray(questions) || questions.length === 0) {
       return new Response(
@@ -158,12 +77,16 @@ serve(async (req) => {
       );
     }
 
-    const apiKey = Deno.env.get("OPENROUTER_API_KEY");
-    if (!apiKey) {
-      throw new Error("OPENROUTER_API_KEY not configured");
-    }
+    const llm = withResponseCache(createLlmProvider("[classify-questions]"), { functionName: "classify-questions", forceRefresh });
 
-    const topics = getTopicsForDomain(domain);
+    const config = await loadDomainConfig(createServiceClient(), domain, domainVersion);
+    const topics = config.curriculumTopics;
+    if (topics.length === 0) {
+      return new Response(
+        JSON.stringify({ error: `Domain "${domain}" has no curriculum topics to classify into` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
     
     // Create summaries (first 200 chars of each question)
     const summaries = questions.map((q: string, i: number) => ({
@@ -181,7 +104,7 @@ serve(async (req) => {
       let retries = 0;
       while (retries < 3) {
         try {
-          const chunkResult = await classifyChunk(chunk, topics, apiKey);
+          const chunkResult = await classifyChunk(chunk, topics, llm);
           Object.assign(topicMap, chunkResult);
           break;
         } catch (err) {
@@ -214,9 +137,6 @@ serve(async (req) => {
     );
   } catch (error) {
     console.error("classify-questions error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Classification failed" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return llmErrorResponse(error, corsHeaders);
   }
 });
@@ -0,0 +1,552 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { createServiceClient } from "../_shared/domainConfig.ts";
+import { CURRENT_PROMPT_VERSION, isPromptVersion, unknownPromptVersionMessage } from "../_shared/promptVersions.ts";
+
+// ============================================================
+// PROMPT EVALUATION
+// ============================================================
+//
+// A/B comparison of two generate-graph prompt versions over a fixed question
+// set (prompt_eval_sets). Each version runs the set in incremental batches,
+// as generation jobs do, so both buildSystemPrompt and the incremental prompt
+// are exercised. The run row in prompt_eval_runs is created immediately and
+// its report filled in when both versions finish.
+//
+//   supabase functions invoke evaluate-prompts \
+//     --body '{"evalSet":"python-basics","versionA":"ipa-lta-1","versionB":"ipa-lta-2"}'
+//
+// then poll with {"action":"status","runId":...} until the run is completed
+// or failed. Omitting versionA uses generate-graph's current version. Pass
+// forceRefresh to bypass the AI cache.
+//
+// Like generation jobs, a worker invocation holds the run's lease, saves the
+// progress of each version after every batch and hands the run to a fresh
+// invocation ("continue") once its time budget is spent. A run whose worker
+// stops heartbeating is marked failed the next time the function is called.
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+// Same batch size and existing-skill cap as generation jobs
+const DEFAULT_BATCH_SIZE = 5;
+const EXISTING_NODES_CAP = 80;
+
+// Worker lifetime, as in generation-jobs
+const WORKER_BUDGET_MS = 60_000;       // No new batch starts after this; the run is handed on
+const LEASE_MS = 5 * 60_000;           // Longer than any single invocation can run
+const STALL_MS = 10 * 60_000;          // No heartbeat for this long: the run is marked failed
+
+interface EvalNode {
+  id: string;
+  name: string;
+  tier?: string;
+  description?: string;
+}
+
+interface EvalEdge {
+  from: string;
+  to: string;
+}
+
+type EvalPath = { requiredNodes?: string[] } | string[];
+
+interface EvalGraph {
+  globalNodes: EvalNode[];
+  edges: EvalEdge[];
+  questionPaths: Record<string, EvalPath>;
+  promptVersion?: string;
+}
+
+interface RepairTotals {
+  cyclesBroken: number;            // Edges removed by breakCycles
+  transitiveEdgesRemoved: number;  // Edges removed by transitiveReduce
+}
+
+interface GoldAgreement {
+  skillPrecision: number;   // Generated skills that match a gold skill
+  skillRecall: number;      // Gold skills that were generated
+  edgePrecision: number;
+  edgeRecall: number;
+  edgeF1: number;
+  mappingJaccard: number;   // Mean per-question overlap of required skills
+}
+
+// Saved on the run after every batch so a fresh invocation can pick up
+interface VersionProgress {
+  nextBatch: number;
+  batches: number;
+  failedBatches: number;
+  graph: EvalGraph;
+  totals: RepairTotals;
+}
+
+interface RunProgress {
+  a?: VersionProgress;
+  b?: VersionProgress;
+}
+
+interface EvalRunRow {
+  id: string;
+  status: string;
+  version_a: string;
+  version_b: string;
+  batch_size: number;
+  force_refresh: boolean;
+  progress: RunProgress;
+  eval_set: { questions: string[]; domain: string | null; gold_graph: EvalGraph | null };
+}
+
+interface VersionMetrics extends RepairTotals {
+  promptVersion: string;
+  batches: number;
+  failedBatches: number;
+  skillCount: number;
+  edgeCount: number;
+  targetMinSkills: number;
+  targetMaxSkills: number;
+  skillCountInRange: boolean;
+  reuseRatio: number;       // Skills required by 2+ questions / skills required by any question
+  gold: GoldAgreement | null;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+const ratio = (part: number, whole: number) => (whole > 0 ? round(part / whole) : 0);
+
+function requiredSkills(path: EvalPath | undefined): string[] {
+  if (!path) return [];
+  return Array.isArray(path) ? path : path.requiredNodes || [];
+}
+
+/**
+ * Run one batch through generate-graph in streaming mode, totalling the repair events
+ */
+async function runBatch(body: Record<string, unknown>, totals: RepairTotals): Promise<EvalGraph> {
+  const res = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/generate-graph`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+  });
+
+  if (!res.ok || !res.body) {
+    const errBody = await res.json().catch(() => null) as { error?: string } | null;
+    throw new Error(errBody?.error || `generate-graph returned ${res.status}`);
+  }
+
+  const text = await res.text();
+  let graph: EvalGraph | null = null;
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    const event = JSON.parse(line) as {
+      type: string;
+      step?: string;
+      before?: number;
+      after?: number;
+      graph?: EvalGraph;
+      error?: string;
+    };
+    if (event.type === "result") graph = event.graph ?? null;
+    else if (event.type === "error") throw new Error(event.error || "Unknown error");
+    else if (event.type === "repair" && event.before !== undefined && event.after !== undefined) {
+      const removed = Math.max(0, event.before - event.after);
+      if (event.step === "breakCycles") totals.cyclesBroken += removed;
+      if (event.step === "transitiveReduce") totals.transitiveEdgesRemoved += removed;
+    }
+  }
+  if (!graph) throw new Error("Stream ended without a result");
+  return graph;
+}
+
+/**
+ * Generate the next batch of the question set with one prompt version,
+ * merging its result into the version's accumulated graph
+ */
+async function runNextBatch(
+  questions: string[],
+  state: VersionProgress,
+  options: { promptVersion: string; domain: string | null; batchSize: number; forceRefresh: boolean }
+) {
+  const { graph, totals } = state;
+  const start = state.nextBatch * options.batchSize;
+  const existing = graph.globalNodes.slice(-EXISTING_NODES_CAP);
+  state.batches++;
+  try {
+    const result = await runBatch({
+      questions: questions.slice(start, start + options.batchSize),
+      ...(existing.length > 0 ? { existingNodes: existing } : {}),
+      ...(options.domain ? { domain: options.domain } : {}),
+      promptVersion: options.promptVersion,
+      ...(options.forceRefresh ? { forceRefresh: true } : {}),
+    }, totals);
+
+    graph.promptVersion = result.promptVersion ?? graph.promptVersion;
+    const known = new Set(graph.globalNodes.map(n => n.id));
+    for (const node of result.globalNodes || []) {
+      if (!known.has(node.id)) graph.globalNodes.push({ id: node.id, name: node.name, tier: node.tier, description: node.description });
+    }
+    const edgeKeys = new Set(graph.edges.map(e => `${e.from}:${e.to}`));
+    for (const edge of result.edges || []) {
+      const key = `${edge.from}:${edge.to}`;
+      if (edgeKeys.has(key) || edgeKeys.has(`${edge.to}:${edge.from}`)) continue;
+      edgeKeys.add(key);
+      graph.edges.push({ from: edge.from, to: edge.to });
+    }
+    Object.assign(graph.questionPaths, result.questionPaths || {});
+  } catch (err) {
+    state.failedBatches++;
+    console.error(`[evaluate-prompts] ${options.promptVersion} batch ${state.batches} failed:`, err);
+  }
+  state.nextBatch++;
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+
+/**
+ * Agreement with the gold graph. Generated skills match gold skills by id,
+ * falling back to normalized name; edges and mappings are compared after matching.
+ */
+function compareWithGold(graph: EvalGraph, gold: EvalGraph): GoldAgreement {
+  const goldIds = new Set(gold.globalNodes.map(n => n.id));
+  const goldByName = new Map(gold.globalNodes.map(n => [normalizeName(n.name), n.id]));
+  const toGold = new Map<string, string>();
+  for (const node of graph.globalNodes) {
+    const match = goldIds.has(node.id) ? node.id : goldByName.get(normalizeName(node.name));
+    if (match) toGold.set(node.id, match);
+  }
+
+  const matchedGold = new Set(toGold.values());
+  const goldEdges = new Set(gold.edges.map(e => `${e.from}:${e.to}`));
+  const mappedEdges = new Set<string>();
+  for (const edge of graph.edges) {
+    const from = toGold.get(edge.from);
+    const to = toGold.get(edge.to);
+    mappedEdges.add(from && to ? `${from}:${to}` : `unmatched:${edge.from}:${edge.to}`);
+  }
+  const edgeHits = [...mappedEdges].filter(key => goldEdges.has(key)).length;
+  const edgePrecision = ratio(edgeHits, mappedEdges.size);
+  const edgeRecall = ratio(edgeHits, goldEdges.size);
+
+  const overlaps: number[] = [];
+  for (const [question, goldPath] of Object.entries(gold.questionPaths || {})) {
+    const expected = new Set(requiredSkills(goldPath));
+    const actual = new Set(requiredSkills(graph.questionPaths[question]).map(id => toGold.get(id) ?? `unmatched:${id}`));
+    const union = new Set([...expected, ...actual]);
+    const intersection = [...expected].filter(id => actual.has(id)).length;
+    overlaps.push(union.size > 0 ? intersection / union.size : 1);
+  }
+
+  return {
+    skillPrecision: ratio(toGold.size, graph.globalNodes.length),
+    skillRecall: ratio(matchedGold.size, goldIds.size),
+    edgePrecision,
+    edgeRecall,
+    edgeF1: edgePrecision + edgeRecall > 0 ? round((2 * edgePrecision * edgeRecall) / (edgePrecision + edgeRecall)) : 0,
+    mappingJaccard: ratio(overlaps.reduce((sum, o) => sum + o, 0), overlaps.length),
+  };
+}
+
+function computeMetrics(
+  questions: string[],
+  run: VersionProgress,
+  requestedVersion: string,
+  gold: EvalGraph | null
+): VersionMetrics {
+  const { graph } = run;
+  // Same targets generate-graph puts in its prompt
+  const targetMinSkills = Math.ceil(questions.length / 15);
+  const targetMaxSkills = Math.ceil(questions.length / 5);
+
+  const usage = new Map<string, number>();
+  for (const path of Object.values(graph.questionPaths)) {
+    for (const id of new Set(requiredSkills(path))) usage.set(id, (usage.get(id) || 0) + 1);
+  }
+  const reused = [...usage.values()].filter(count => count >= 2).length;
+
+  return {
+    promptVersion: graph.promptVersion ?? requestedVersion,
+    batches: run.batches,
+    failedBatches: run.failedBatches,
+    skillCount: graph.globalNodes.length,
+    edgeCount: graph.edges.length,
+    targetMinSkills,
+    targetMaxSkills,
+    skillCountInRange: graph.globalNodes.length >= targetMinSkills && graph.globalNodes.length <= targetMaxSkills,
+    reuseRatio: ratio(reused, usage.size),
+    ...run.totals,
+    gold: gold ? compareWithGold(graph, gold) : null,
+  };
+}
+
+/**
+ * B minus A for every numeric metric, including gold agreement
+ */
+function diffMetrics(a: VersionMetrics, b: VersionMetrics): Record<string, number> {
+  const flatten = (m: VersionMetrics) => ({ ...m, ...(m.gold ? Object.fromEntries(Object.entries(m.gold).map(([k, v]) => [`gold.${k}`, v])) : {}) });
+  const fa = flatten(a) as Record<string, unknown>;
+  const fb = flatten(b) as Record<string, unknown>;
+  const diff: Record<string, number> = {};
+  for (const [key, value] of Object.entries(fb)) {
+    if (typeof value === "number" && typeof fa[key] === "number") diff[key] = round(value - (fa[key] as number));
+  }
+  return diff;
+}
+
+// ─── Run state ───
+
+async function loadRun(supabase: SupabaseClient, runId: string): Promise<EvalRunRow | null> {
+  const { data, error } = await supabase
+    .from("prompt_eval_runs")
+    .select("id, status, version_a, version_b, batch_size, force_refresh, progress, eval_set:prompt_eval_sets(questions, domain, gold_graph)")
+    .eq("id", runId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as unknown as EvalRunRow | null;
+}
+
+async function updateRun(supabase: SupabaseClient, runId: string, fields: Record<string, unknown>) {
+  const { error } = await supabase.from("prompt_eval_runs").update(fields).eq("id", runId);
+  if (error) throw error;
+}
+
+/**
+ * Take the run's lease. Fails when another live worker holds it or the run
+ * is no longer running.
+ */
+async function claimLease(supabase: SupabaseClient, runId: string): Promise<boolean> {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from("prompt_eval_runs")
+    .update({
+      lease_expires_at: new Date(now.getTime() + LEASE_MS).toISOString(),
+      heartbeat_at: now.toISOString(),
+    })
+    .eq("id", runId)
+    .eq("status", "running")
+    .or(`lease_expires_at.is.null,lease_expires_at.lt.${now.toISOString()}`)
+    .select("id");
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+function heartbeat(supabase: SupabaseClient, runId: string, fields: Record<string, unknown> = {}) {
+  const now = Date.now();
+  return updateRun(supabase, runId, {
+    ...fields,
+    heartbeat_at: new Date(now).toISOString(),
+    lease_expires_at: new Date(now + LEASE_MS).toISOString(),
+  });
+}
+
+/**
+ * Mark running runs whose worker stopped heartbeating as failed
+ */
+async function failStalledRuns(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from("prompt_eval_runs")
+    .update({ status: "failed", error: "Evaluation worker stopped responding", lease_expires_at: null })
+    .eq("status", "running")
+    .lt("heartbeat_at", new Date(Date.now() - STALL_MS).toISOString())
+    .select("id");
+  if (error) throw error;
+  for (const row of data || []) console.warn(`[evaluate-prompts] ${row.id}: stalled, marked failed`);
+}
+
+// ─── Worker ───
+
+const emptyProgress = (): VersionProgress => ({
+  nextBatch: 0,
+  batches: 0,
+  failedBatches: 0,
+  graph: { globalNodes: [], edges: [], questionPaths: {} },
+  totals: { cyclesBroken: 0, transitiveEdgesRemoved: 0 },
+});
+
+async function handOff(runId: string) {
+  const res = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/evaluate-prompts`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+    },
+    body: JSON.stringify({ action: "continue", runId }),
+  });
+  await res.body?.cancel();
+}
+
+async function runEvaluation(runId: string) {
+  const supabase = createServiceClient();
+  const startedAt = Date.now();
+
+  if (!await claimLease(supabase, runId)) {
+    console.log(`[evaluate-prompts] ${runId}: lease held elsewhere or run finished`);
+    return;
+  }
+
+  let handedOff = false;
+  try {
+    const run = await loadRun(supabase, runId);
+    if (!run) return;
+
+    const { questions, domain, gold_graph: gold } = run.eval_set;
+    const progress = run.progress;
+    const shared = { domain, batchSize: run.batch_size, forceRefresh: run.force_refresh };
+    const totalBatches = Math.ceil(questions.length / run.batch_size);
+
+    // Sequential so both versions see the same rate limits
+    for (const side of ["a", "b"] as const) {
+      const promptVersion = side === "a" ? run.version_a : run.version_b;
+      const state = progress[side] ??= emptyProgress();
+
+      while (state.nextBatch < totalBatches) {
+        if (Date.now() - startedAt > WORKER_BUDGET_MS) {
+          await updateRun(supabase, runId, { progress, lease_expires_at: null });
+          handedOff = true;
+          await handOff(runId);
+          return;
+        }
+        await runNextBatch(questions, state, { ...shared, promptVersion });
+        await heartbeat(supabase, runId, { progress });
+      }
+    }
+
+    const runA = progress.a!;
+    const runB = progress.b!;
+    if (runA.failedBatches === runA.batches || runB.failedBatches === runB.batches) {
+      throw new Error("Every batch of a version failed; see function logs");
+    }
+
+    const a = computeMetrics(questions, runA, run.version_a, gold);
+    const b = computeMetrics(questions, runB, run.version_b, gold);
+    const report = { questions: questions.length, a, b, diff: diffMetrics(a, b) };
+
+    await updateRun(supabase, runId, {
+      status: "completed",
+      report,
+      completed_at: new Date().toISOString(),
+      lease_expires_at: null,
+    });
+    console.log(`[evaluate-prompts] ${runId}: ${a.promptVersion} vs ${b.promptVersion}`, JSON.stringify(report.diff));
+  } catch (err) {
+    console.error(`[evaluate-prompts] ${runId}: failed:`, err);
+    await updateRun(supabase, runId, {
+      status: "failed",
+      error: err instanceof Error ? err.message : "Evaluation failed",
+      completed_at: new Date().toISOString(),
+      lease_expires_at: null,
+    }).catch(() => {});
+  } finally {
+    if (!handedOff) {
+      await supabase.from("prompt_eval_runs").update({ lease_expires_at: null }).eq("id", runId);
+    }
+  }
+}
+
+// ─── Actions ───
+
+async function startRun(supabase: SupabaseClient, body: Record<string, unknown>) {
+  const evalSetId = body.evalSetId as string | undefined;
+  const evalSet = body.evalSet as string | undefined;     // Name, as an alternative to evalSetId
+  const versionA = (body.versionA as string | undefined) ?? CURRENT_PROMPT_VERSION;
+  const versionB = body.versionB as string | undefined;
+  const batchSize = Number(body.batchSize ?? DEFAULT_BATCH_SIZE);
+
+  if (!versionB) return jsonResponse({ error: "versionB is required" }, 400);
+  for (const version of [versionA, versionB]) {
+    if (!isPromptVersion(version)) return jsonResponse({ error: unknownPromptVersionMessage(version) }, 400);
+  }
+  if (!evalSetId && !evalSet) return jsonResponse({ error: "evalSetId or evalSet is required" }, 400);
+
+  const query = supabase.from("prompt_eval_sets").select("id, questions");
+  const { data: set, error: setError } = await (evalSetId ? query.eq("id", evalSetId) : query.eq("name", evalSet!)).maybeSingle();
+  if (setError) throw setError;
+  if (!set) return jsonResponse({ error: "Evaluation set not found" }, 404);
+
+  const questions = set.questions as string[];
+  if (!Array.isArray(questions) || questions.length === 0) {
+    return jsonResponse({ error: "Evaluation set has no questions" }, 400);
+  }
+
+  const { data: run, error: runError } = await supabase
+    .from("prompt_eval_runs")
+    .insert({
+      eval_set_id: set.id,
+      version_a: versionA,
+      version_b: versionB,
+      batch_size: Number.isFinite(batchSize) ? Math.max(1, Math.floor(batchSize)) : DEFAULT_BATCH_SIZE,
+      force_refresh: !!body.forceRefresh,
+    })
+    .select("id")
+    .single();
+  if (runError) throw runError;
+
+  EdgeRuntime.waitUntil(runEvaluation(run.id));
+  return jsonResponse({ runId: run.id });
+}
+
+async function runStatus(supabase: SupabaseClient, runId: string) {
+  const { data, error } = await supabase
+    .from("prompt_eval_runs")
+    .select("id, status, version_a, version_b, report, error, progress, heartbeat_at, completed_at")
+    .eq("id", runId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return jsonResponse({ error: "Run not found" }, 404);
+
+  const { progress, ...run } = data as typeof data & { progress: RunProgress };
+  return jsonResponse({
+    ...run,
+    batchesDone: { a: progress.a?.nextBatch ?? 0, b: progress.b?.nextBatch ?? 0 },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid JSON in request body" }, 400);
+    }
+
+    const supabase = createServiceClient();
+    await failStalledRuns(supabase);
+
+    const action = (body.action as string | undefined) ?? "start";
+    if (action === "start") return await startRun(supabase, body);
+
+    const runId = body.runId as string | undefined;
+    if (!runId) return jsonResponse({ error: "runId required" }, 400);
+
+    switch (action) {
+      case "continue":
+        EdgeRuntime.waitUntil(runEvaluation(runId));
+        return jsonResponse({ runId });
+      case "status":
+        return await runStatus(supabase, runId);
+      default:
+        return jsonResponse({ error: `Unknown action "${action}"` }, 400);
+    }
+  } catch (error) {
+    console.error("[evaluate-prompts] error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { withResponseCache } from "../_shared/aiCache.ts";
+import { completeJson, createLlmProvider, llmErrorResponse } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -29,7 +31,7 @@ serve(async (req) => {
   }
 
   try {
-    let body: { text?: string; domain?: string };
+    let body: { text?: string; domain?: string; forceRefresh?: boolean };
     try {
       body = await req.json();
     } catch {
@@ -39,7 +41,7 @@ serve(async (req) => {
       );
     }
 
-    const { text, domain } = body;
+    const { text, domain, forceRefresh = false } = body;
 
     if (!text || text.trim().length === 0) {
       return new Response(
@@ -48,10 +50,7 @@ serve(async (req) => {
       );
     }
 
-    const OPENROUTER_API_KEY = Deno.env.get("OPENROUTER_API_KEY");
-    if (!OPENROUTER_API_KEY) {
-      throw new Error("OPENROUTER_API_KEY is not configured");
-    }
+    const llm = withResponseCache(createLlmProvider("[extract-questions]"), { functionName: "extract-questions", forceRefresh });
 
     console.log(`[extract-questions] Processing ${text.length} chars of text (domain: ${domain || 'auto'})`);
 
@@ -61,74 +60,21 @@ serve(async (req) => {
       ? "\nThese are Python programming questions. They may follow a structured format with Question/Input/Output/Explanation sections."
       : "";
 
-    const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${OPENROUTER_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "deepseek/deepseek-v3.2",
-        messages: [
-          { role: "system", content: systemPrompt + domainHint },
-          { role: "user", content: `Extract individual questions from this text:\n\n${text.substring(0, 50000)}` },
-        ],
-        max_tokens: 16000,
-        temperature: 0.1,
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limited. Please try again shortly." }), {
-          status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "AI credits depleted. Please add credits." }), {
-          status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      const errText = await response.text();
-      console.error("[extract-questions] AI error:", response.status, errText);
-      throw new Error(`AI service error (${response.status})`);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-
-    if (!content) {
-      throw new Error("AI returned empty response");
-    }
-
-    // Parse the JSON array from response
-    let cleaned = content.trim()
-      .replace(/```json\s*/gi, "")
-      .replace(/```\s*/g, "")
-      .trim();
-
-    const arrayStart = cleaned.indexOf("[");
-    const arrayEnd = cleaned.lastIndexOf("]");
-    if (arrayStart === -1 || arrayEnd === -1) {
-      throw new Error("Could not find question array in AI response");
-    }
-    cleaned = cleaned.substring(arrayStart, arrayEnd + 1);
-
-    let questions: string[];
-    try {
-      questions = JSON.parse(cleaned);
-    } catch {
-      // Try fixing trailing commas
-      cleaned = cleaned.replace(/,\s*]/g, "]");
-      questions = JSON.parse(cleaned);
-    }
+    const { data } = await completeJson<unknown>(llm, {
+      messages: [
+        { role: "system", content: systemPrompt + domainHint },
+        { role: "user", content: `Extract individual questions from this text:\n\n${text.substring(0, 50000)}` },
+      ],
+      maxTokens: 16000,
+      temperature: 0.1,
+    }, { tag: "[extract-questions]" });
 
-    if (!Array.isArray(questions)) {
+    if (!Array.isArray(data)) {
       throw new Error("AI response is not an array");
     }
 
     // Filter empty entries
-    questions = questions.filter(q => typeof q === 'string' && q.trim().length > 0);
+    const questions = data.filter((q): q is string => typeof q === 'string' && q.trim().length > 0);
 
     console.log(`[extract-questions] Extracted ${questions.length} questions`);
 
@@ -137,9 +83,6 @@ serve(async (req) => {
     });
   } catch (error) {
     console.error("[extract-questions] Error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return llmErrorResponse(error, corsHeaders);
   }
 });
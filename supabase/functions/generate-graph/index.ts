@@ -1,4 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  DEFAULT_DOMAIN,
+  createServiceClient,
+  loadDomainConfig,
+  type DomainConfig,
+} from "../_shared/domainConfig.ts";
+import { withResponseCache } from "../_shared/aiCache.ts";
+import { LlmError, completeJson, createLlmProvider, llmErrorResponse, type LlmProvider } from "../_shared/llm.ts";
+import {
+  CURRENT_PROMPT_VERSION,
+  isPromptVersion,
+  unknownPromptVersionMessage,
+  type PromptVersionId,
+} from "../_shared/promptVersions.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,606 +21,30 @@ const corsHeaders = {
 };
 
 // ============================================================
-// DOMAIN CONFIGURATION TYPES
-// ============================================================
-
-interface DomainConfig {
-  skillCatalog: string;
-  scopeConstraint: string;
-  curriculumSequence: string;
-  inputFormatDescription: string;
-  exampleIPA: string;
-  skillTopicMap: Record<string, number>;
-  independentFoundational: Set<string>;
-  mandatoryEdges: Array<{ from: string; to: string; reason: string }>;
-  curriculumTopics: string[];
-}
-
-// ============================================================
-// PYTHON DOMAIN CONFIG
+// SHARED PROMPT SECTIONS
 // ============================================================
 
-const PYTHON_CONFIG: DomainConfig = {
-  skillCatalog: `
-=== REFERENCE SKILL CATALOG (MAP TO THESE FIRST) ===
-
-Before creating ANY new skill, check if it maps to this catalog:
-
-FOUNDATIONAL (Level 0):
-- variable_assignment: Storing values in named containers
-- arithmetic_operations: +, -, *, /, %, //
-- comparison_operators: ==, !=, <, >, <=, >=
-- boolean_logic: and, or, not operations
-- type_recognition: Identifying int, str, list, dict, etc.
-
-CORE (Level 1-2):
-- conditional_branching: if/elif/else control flow
-- loop_iteration: for and while loops
-- list_operations: indexing, slicing, append, extend
-- dictionary_operations: key access, update, iteration
-- string_methods: split, join, strip, replace, find
-- function_definition: def, parameters, return
-- function_calls: invoking functions with arguments
-
-APPLIED (Level 3-4):
-- nested_iteration: loops within loops
-- accumulator_pattern: building results through iteration
-- search_pattern: finding elements in collections
-- filter_pattern: selecting elements by condition
-- transform_pattern: mapping elements to new values
-- input_parsing: converting string input to structured data
-- output_formatting: building formatted string output
-
-ADVANCED (Level 5+):
-- recursion: self-referential function calls
-- list_comprehension: compact list building syntax
-- file_io: reading and writing files
-- exception_handling: try/except/finally
-- class_definition: OOP class creation
-- object_methods: instance methods and attributes
-
-ONLY create a new skill if NONE of the above apply.
-When creating new skills, they must be AT THIS SAME LEVEL of abstraction.
-
-IMPORTANT: The catalog is for NAMING CONSISTENCY only. Do NOT create nodes
-for skills that are not required by the given questions. If no question
-requires loop_iteration, do NOT include it in the output. The catalog
-tells you WHAT TO CALL a skill if you need it, not which skills to include.
-
-CURRICULUM AWARENESS: When questions are tagged with a topic, do NOT
-create skill nodes from topics that come LATER in the curriculum sequence.
-For example, if all questions are from "Operators & Conditional Statements"
-(Topic 3), do NOT create loop_iteration (Topic 5), function_calls (Topic 9),
-or any other skill that belongs to a later topic. Only create skills that
-a student would have encountered BY that point in the curriculum.`,
-
-  scopeConstraint: `
-=== PROGRAMMING FOUNDATIONS SCOPE CONSTRAINT ===
-
-This is a Programming Foundations course. Students solve problems using 
-bruteforce methods ONLY. Do NOT create skills for advanced algorithmic 
-patterns: Sliding Window, Two Pointers, Greedy Algorithm, Dynamic 
-Programming, Kadane's Algorithm, Divide and Conquer, Binary Search 
-optimization, Backtracking, Graph Algorithms, or Trie structures.
-
-If a problem could be solved with an advanced pattern, map it to the 
-fundamental bruteforce skills (e.g., nested_iteration, accumulator_pattern, 
-search_pattern, filter_pattern).
-
-REPETITION WITHOUT LOOPS: If a problem asks to repeat an action a small 
-fixed number of times (e.g., "print Hello 3 times"), and the question 
-belongs to a topic BEFORE "Loops" (Topic 5) in the curriculum, map it 
-to basic_output (repeated print statements), NOT to loop_iteration. 
-Only use loop_iteration when the question is FROM Topic 5 or later, 
-OR when the repetition count is variable/large.`,
-
-  curriculumSequence: `
-=== CURRICULUM SEQUENCE ===
-
-Topics are taught in this order. Use this to inform prerequisite edges -- 
-skills from earlier topics should generally be prerequisites for skills 
-in later topics:
-
-1. Introduction to Python
-2. I/O Basics
-3. Operators & Conditional Statements
-4. Nested Conditions
-5. Loops
-6. Loop Control Statements
-7. Comparing Strings & Naming Variables
-8. Lists
-9. Functions
-10. Recursion
-11. Tuples & Sets
-12. Intro to Matrices & Shorthand Expressions
-13. Dictionaries
-14. Introduction to Object Oriented Programming
-15. Abstraction and Polymorphism
-16. Miscellaneous Topics
-17. Problem Solving`,
-
-  inputFormatDescription: `
-=== INPUT FORMAT ===
-
-Questions are provided in a simple structured format with these sections:
-- Question: The task description
-- Input: Expected input format/types
-- Output: Expected output format/types  
-- Explanation: Solution approach, algorithm description, or hints
-
-Multiple questions are separated by new "Question:" sections.
-
-Use ALL sections when performing IPA analysis:
-- Explanation informs the DECIDE and EXECUTE steps with solution strategy
-- Input/Output sections clarify data type handling requirements`,
-
-  exampleIPA: `
-=== EXAMPLE IPA/LTA ANALYSIS ===
-
-Question (structured format):
-Question: Count frequency of each word in a sentence.
-Input: A string containing words separated by spaces.
-Output: A dictionary mapping each word to its frequency count.
-Explanation: Split the string by spaces, iterate through words, and use a dictionary to track counts. Normalize case for consistency.
-
-IPA Trace:
-1. PERCEIVE: Input is a string with spaces separating words (from Input section)
-2. ENCODE: Split string into list of words, normalize case (from Explanation)
-3. RETRIEVE: Dictionary can map word → count (from Output section)
-4. DECIDE: Use accumulator pattern with dictionary (from Explanation)
-5. EXECUTE: For each word, check if in dict, then increment or initialize
-6. MONITOR: Verify counts are correct, handle empty input
-
-LTA Extraction:
-- PERCEIVE step requires: string_recognition (declarative)
-- ENCODE step requires: string_split_method (procedural)
-- RETRIEVE step requires: dictionary_concept (declarative)
-- DECIDE step requires: accumulator_pattern_selection (strategic)
-- EXECUTE step requires: dictionary_operations (procedural), loop_iteration (procedural)
-- MONITOR step requires: edge_case_handling (conditional)
-
-After normalization, this maps to skills like:
-- string_methods (core, procedural)
-- dictionary_operations (core, procedural)
-- loop_iteration (core, procedural)
-- accumulator_pattern (applied, strategic)`,
-
-  curriculumTopics: [
-    "Introduction to Python",
-    "I/O Basics",
-    "Operators & Conditional Statements",
-    "Nested Conditions",
-    "Loops",
-    "Loop Control Statements",
-    "Comparing Strings & Naming Variables",
-    "Lists",
-    "Functions",
-    "Recursion",
-    "Tuples & Sets",
-    "Intro to Matrices & Shorthand Expressions",
-    "Dictionaries",
-    "Introduction to Object Oriented Programming",
-    "Abstraction and Polymorphism",
-    "Miscellaneous Topics",
-    "Problem Solving",
-  ],
-
-  skillTopicMap: {
-    variable_assignment: 1,
-    type_recognition: 1,
-    basic_output: 2,
-    basic_input: 2,
-    type_conversion: 2,
-    string_concatenation: 2,
-    string_indexing: 2,
-    string_slicing: 2,
-    string_repetition: 2,
-    sequence_length_retrieval: 2,
-    arithmetic_operations: 3,
-    comparison_operators: 3,
-    boolean_logic: 3,
-    conditional_branching: 3,
-    conditional_expression: 3,
-    numeric_rounding: 3,
-    nested_conditions: 4,
-    loop_iteration: 5,
-    accumulator_pattern: 5,
-    search_pattern: 5,
-    filter_pattern: 5,
-    transform_pattern: 5,
-    input_parsing: 5,
-    nested_iteration: 5,
-    geometric_pattern_generation: 5,
-    integer_digit_extraction: 5,
-    loop_control_statements: 6,
-    string_methods: 7,
-    formatted_output: 7,
-    output_formatting: 7,
-    character_encoding_conversion: 7,
-    list_operations: 8,
-    list_comprehension: 8,
-    list_aggregation: 8,
-    list_sorting: 8,
-    sequence_rotation: 8,
-    function_definition: 9,
-    function_calls: 9,
-    recursion: 10,
-    tuple_operations: 11,
-    set_operations: 11,
-    matrix_operations: 12,
-    matrix_construction: 12,
-    matrix_element_access: 12,
-    matrix_transposition: 12,
-    matrix_rotation: 12,
-    matrix_diagonal_traversal: 12,
-    dictionary_operations: 13,
-    class_definition: 14,
-    object_methods: 14,
-    encapsulation_concepts: 14,
-    abstraction: 15,
-    polymorphism: 15,
-    inheritance: 15,
-    class_inheritance: 15,
-    abstract_class_interaction: 15,
-    method_overriding: 15,
-    file_io: 16,
-    exception_handling: 16,
-    datetime_manipulation: 16,
-    problem_solving: 17,
-    algorithmic_thinking: 17,
-    debugging: 17,
-    backtracking_pattern: 17,
-    deferred_modification_pattern: 17,
-    stateful_computation_simulation: 17,
-    subproblem_enumeration_pattern: 17,
-  },
-
-  independentFoundational: new Set([
-    'variable_assignment', 'basic_output', 'arithmetic_operations', 'type_recognition'
-  ]),
-
-  mandatoryEdges: [
-    { from: 'variable_assignment', to: 'basic_input', reason: 'input() requires storing the result in a variable' },
-    { from: 'variable_assignment', to: 'type_conversion', reason: 'type conversion operates on values stored in variables' },
-    { from: 'variable_assignment', to: 'string_concatenation', reason: 'concatenation operates on values in variables' },
-    { from: 'variable_assignment', to: 'string_indexing', reason: 'indexing requires a string stored in a variable' },
-    { from: 'variable_assignment', to: 'string_repetition', reason: 'repetition operates on strings in variables' },
-    { from: 'variable_assignment', to: 'sequence_length_retrieval', reason: 'len() operates on values stored in variables' },
-    { from: 'type_recognition', to: 'type_conversion', reason: 'must recognize types before converting between them' },
-    { from: 'arithmetic_operations', to: 'comparison_operators', reason: 'comparisons often involve computed values' },
-    { from: 'comparison_operators', to: 'conditional_branching', reason: 'conditions use comparison operators' },
-    { from: 'conditional_branching', to: 'nested_conditions', reason: 'nesting requires understanding single conditions' },
-    { from: 'variable_assignment', to: 'loop_iteration', reason: 'loops operate on variables' },
-    { from: 'loop_iteration', to: 'accumulator_pattern', reason: 'accumulating requires looping' },
-    { from: 'loop_iteration', to: 'search_pattern', reason: 'searching requires iterating' },
-    { from: 'string_indexing', to: 'string_slicing', reason: 'slicing builds on indexing concepts' },
-    { from: 'conditional_branching', to: 'filter_pattern', reason: 'filtering requires if/else logic' },
-    { from: 'basic_output', to: 'formatted_output', reason: 'formatted output builds on basic print knowledge' },
-    { from: 'loop_iteration', to: 'nested_iteration', reason: 'nested loops require understanding single loops' },
-    { from: 'loop_iteration', to: 'set_operations', reason: 'building sets requires iteration' },
-    { from: 'list_operations', to: 'set_operations', reason: 'sets are often created from lists' },
-    { from: 'loop_iteration', to: 'list_operations', reason: 'list building requires looping' },
-    { from: 'loop_iteration', to: 'filter_pattern', reason: 'filtering requires iterating' },
-    { from: 'loop_iteration', to: 'transform_pattern', reason: 'transforming requires iterating' },
-    { from: 'conditional_branching', to: 'loop_iteration', reason: 'loops use conditions for termination' },
-    { from: 'class_definition', to: 'abstraction', reason: 'abstraction builds on class concepts' },
-    { from: 'class_definition', to: 'polymorphism', reason: 'polymorphism requires OOP basics' },
-    { from: 'class_definition', to: 'inheritance', reason: 'inheritance requires class knowledge' },
-  ],
-};
+// Output rules for the opt-in IPA/LTA trace (request `includeTrace`)
+const NO_TRACE_OUTPUT_RULE = `IMPORTANT: Do NOT include "ipaByQuestion" in your output. Output ONLY these fields:`;
 
-// ============================================================
-// WEB DOMAIN CONFIG (HTML/CSS/JS/React/GenAI)
-// ============================================================
+const TRACE_OUTPUT_RULE = `IMPORTANT: Include your IPA trace for EVERY question in "ipaByQuestion", keyed by the exact question text used in "questionPaths". Each step lists the LTA knowledge items it requires; every knowledge item "id" MUST be a skill id from "globalNodes" or the existing skills list. Output these fields:`;
 
-const WEB_CONFIG: DomainConfig = {
-  skillCatalog: `
-=== REFERENCE SKILL CATALOG (MAP TO THESE FIRST) ===
-
-Before creating ANY new skill, check if it maps to this catalog:
-
-HTML:
-- html_document_structure: DOCTYPE, html, head, body tags
-- html_elements: headings, paragraphs, lists, links, images, div, span
-- html_attributes: id, class, src, href, alt, style attributes
-- html_forms: form, input, textarea, select, button, labels
-- html_tables: table, tr, td, th, thead, tbody
-- html_semantic_elements: header, footer, nav, main, section, article, aside
-
-CSS:
-- css_selectors: element, class, id, descendant, pseudo-class selectors
-- css_properties: color, font, background, border, margin, padding
-- css_box_model: margin, border, padding, content, width/height
-- css_flexbox: display flex, justify-content, align-items, flex-direction
-- css_grid: display grid, grid-template, gap, grid areas
-- css_positioning: static, relative, absolute, fixed, sticky, z-index
-- css_responsive_design: media queries, viewport units, fluid layouts
-- css_media_queries: breakpoints, min-width, max-width queries
-- css_animations: keyframes, animation properties, timing functions
-- css_transitions: transition properties, hover effects, timing
-
-JavaScript:
-- js_variables: let, const, var, data types, scope
-- js_operators: arithmetic, comparison, logical, ternary
-- js_conditionals: if/else, switch, ternary expressions
-- js_loops: for, while, do-while, for...of, for...in
-- js_arrays: creation, methods (push, pop, map, filter, reduce)
-- js_objects: creation, properties, methods, destructuring
-- js_functions: declaration, expression, arrow functions, parameters
-- js_string_methods: split, join, trim, replace, includes, template literals
-- js_dom_manipulation: querySelector, createElement, innerHTML, classList
-- js_event_handling: addEventListener, event types, event delegation
-- js_async_await: async functions, await, error handling
-- js_promises: creation, then/catch, Promise.all
-- js_fetch_api: fetch, GET/POST requests, response handling
-- js_modules: import/export, default exports, named exports
-- js_classes: class syntax, constructor, methods, inheritance
-- js_error_handling: try/catch/finally, custom errors
-
-React:
-- react_components: functional components, JSX syntax
-- react_jsx: JSX expressions, conditional rendering, lists
-- react_state: useState, state management, immutability
-- react_props: prop passing, destructuring, children
-- react_effects: useEffect, side effects, cleanup
-- react_routing: React Router, routes, navigation
-- react_lists_keys: rendering lists, key prop
-
-Gen AI:
-- ai_prompt_engineering: prompt design, context, instructions
-- ai_api_integration: calling AI APIs, handling responses
-- ai_workflow_design: chaining AI calls, processing pipelines
-
-ONLY create a new skill if NONE of the above apply.
-When creating new skills, they must be AT THIS SAME LEVEL of abstraction.
-
-IMPORTANT: The catalog is for NAMING CONSISTENCY only. Do NOT create nodes
-for skills that are not required by the given questions.`,
-
-  scopeConstraint: `
-=== WEB DEVELOPMENT SCOPE CONSTRAINT ===
-
-This is a web development course covering HTML, CSS, JavaScript, Dynamic 
-Web Apps, React JS, and Generative AI integration. Students build 
-real-world web applications.
-
-Skills should reflect web development concepts at the appropriate level 
-of abstraction. Do NOT create hyper-specific skills for individual CSS 
-properties or HTML tags — group them into transferable capabilities.`,
-
-  curriculumSequence: `
-=== CURRICULUM SEQUENCE ===
-
-Topics are taught in this order. Use this to inform prerequisite edges --
-skills from earlier topics should generally be prerequisites for skills
-in later topics:
-
-HTML (Course 1):
-1. Introduction to HTML
-2. HTML Elements
-3. HTML Forms and Tables
-4. HTML Attributes and General
-
-CSS (Course 2):
-5. Introduction To CSS And CSS Selectors
-6. CSS Properties
-7. CSS Display And Position
-8. CSS Layouts And Box Model
-9. CSS Selectors
-10. CSS Flexbox
-11. CSS Grid
-12. CSS Media Queries
-13. CSS General
-
-JS (Course 3):
-14. Introduction to JavaScript
-15. DOM And Events
-16. Schedulers & Callback Functions
-17. Storage Mechanisms
-18. Network & HTTP Requests
-19. Asynchronous JS and Error Handling
-20. JS General
-
-JS Coding (Course 4):
-21. Variables
-22. Data Types
-23. Operators
-24. Conditional Statements
-25. Functions
-26. Loops
-27. Recursion
-
-React (Course 5):
-28. Introduction to React
-29. React Components & Props
-30. useState Hook
-31. useEffect Hook
-32. More React Hooks
-33. React Router
-34. Authentication & Authorisation
-35. React Lists & Forms
-36. React General`,
-
-  inputFormatDescription: `
-=== INPUT FORMAT ===
-
-Questions may be in EITHER format:
-
-FORMAT 1 - Structured (with headers):
-- Question: The task description
-- Input: Expected input format/types
-- Output: Expected output format/types
-- Explanation: Solution approach
-
-FORMAT 2 - Free-form:
-Questions are plain text descriptions of web development tasks, 
-design challenges, or coding problems. They may describe UI to build,
-features to implement, or concepts to demonstrate.
-
-Both formats are valid. Analyze whatever is provided.`,
-
-  exampleIPA: `
-=== EXAMPLE IPA/LTA ANALYSIS ===
-
-Question (free-form):
-Create a responsive navigation bar with a hamburger menu for mobile. 
-The nav should have links to Home, About, and Contact pages. Use flexbox 
-for desktop layout and a toggle button for mobile.
-
-IPA Trace:
-1. PERCEIVE: Need a nav bar with 3 links, responsive with mobile hamburger
-2. ENCODE: Structure as nav element with ul/li for links, button for toggle
-3. RETRIEVE: Flexbox for layout, media queries for responsive, JS for toggle
-4. DECIDE: Use semantic HTML nav, CSS flexbox + media query, JS click handler
-5. EXECUTE: Build HTML structure, CSS flex layout, media query breakpoint, JS toggle
-6. MONITOR: Test responsive behavior, verify hamburger works
-
-LTA Extraction:
-- PERCEIVE: html_semantic_elements (declarative)
-- ENCODE: html_elements (procedural)
-- RETRIEVE: css_flexbox, css_media_queries (declarative)
-- DECIDE: css_responsive_design (strategic)
-- EXECUTE: js_dom_manipulation, js_event_handling (procedural)
-- MONITOR: css_responsive_design (conditional)
-
-After normalization:
-- html_semantic_elements (foundational)
-- html_elements (foundational)
-- css_flexbox (core)
-- css_media_queries (core)
-- css_responsive_design (applied)
-- js_dom_manipulation (core)
-- js_event_handling (core)`,
-
-  curriculumTopics: [
-    "Introduction to HTML",
-    "HTML Elements",
-    "HTML Forms and Tables",
-    "HTML Attributes and General",
-    "Introduction To CSS And CSS Selectors",
-    "CSS Properties",
-    "CSS Display And Position",
-    "CSS Layouts And Box Model",
-    "CSS Selectors",
-    "CSS Flexbox",
-    "CSS Grid",
-    "CSS Media Queries",
-    "CSS General",
-    "Introduction to JavaScript",
-    "DOM And Events",
-    "Schedulers & Callback Functions",
-    "Storage Mechanisms",
-    "Network & HTTP Requests",
-    "Asynchronous JS and Error Handling",
-    "JS General",
-    "Variables",
-    "Data Types",
-    "Operators",
-    "Conditional Statements",
-    "Functions",
-    "Loops",
-    "Recursion",
-    "Introduction to React",
-    "React Components & Props",
-    "useState Hook",
-    "useEffect Hook",
-    "More React Hooks",
-    "React Router",
-    "Authentication & Authorisation",
-    "React Lists & Forms",
-    "React General",
-  ],
-
-  skillTopicMap: {
-    html_document_structure: 1,
-    html_elements: 2,
-    html_forms: 3,
-    html_tables: 3,
-    html_attributes: 4,
-    html_semantic_elements: 4,
-    css_selectors: 5,
-    css_properties: 6,
-    css_positioning: 7,
-    css_box_model: 8,
-    css_flexbox: 10,
-    css_grid: 11,
-    css_media_queries: 12,
-    css_responsive_design: 12,
-    css_transitions: 13,
-    css_animations: 13,
-    js_dom_manipulation: 15,
-    js_event_handling: 15,
-    js_async_await: 16,
-    js_promises: 16,
-    js_fetch_api: 18,
-    js_error_handling: 19,
-    js_variables: 21,
-    js_operators: 23,
-    js_conditionals: 24,
-    js_functions: 25,
-    js_loops: 26,
-    js_arrays: 26,
-    js_objects: 25,
-    js_string_methods: 22,
-    js_modules: 20,
-    js_classes: 20,
-    react_components: 28,
-    react_jsx: 28,
-    react_props: 29,
-    react_state: 30,
-    react_effects: 31,
-    react_routing: 33,
-    react_lists_keys: 35,
-    ai_prompt_engineering: 20,
-    ai_api_integration: 18,
-    ai_workflow_design: 20,
-  },
+const TRACE_OUTPUT_FORMAT = `
 
-  independentFoundational: new Set([
-    'html_document_structure', 'html_elements', 'css_selectors', 'js_variables'
-  ]),
-
-  mandatoryEdges: [
-    { from: 'html_elements', to: 'html_forms', reason: 'forms use HTML elements' },
-    { from: 'html_elements', to: 'html_tables', reason: 'tables use HTML elements' },
-    { from: 'html_elements', to: 'html_semantic_elements', reason: 'semantic elements build on basic element knowledge' },
-    { from: 'html_attributes', to: 'html_forms', reason: 'forms require attribute knowledge' },
-    { from: 'css_selectors', to: 'css_properties', reason: 'applying properties requires selector knowledge' },
-    { from: 'css_properties', to: 'css_box_model', reason: 'box model uses CSS properties' },
-    { from: 'css_box_model', to: 'css_flexbox', reason: 'flexbox builds on box model understanding' },
-    { from: 'css_box_model', to: 'css_grid', reason: 'grid builds on box model understanding' },
-    { from: 'css_properties', to: 'css_positioning', reason: 'positioning uses CSS properties' },
-    { from: 'css_properties', to: 'css_transitions', reason: 'transitions animate CSS properties' },
-    { from: 'css_transitions', to: 'css_animations', reason: 'animations build on transition concepts' },
-    { from: 'css_flexbox', to: 'css_responsive_design', reason: 'responsive design uses flexbox' },
-    { from: 'css_media_queries', to: 'css_responsive_design', reason: 'responsive design uses media queries' },
-    { from: 'js_variables', to: 'js_conditionals', reason: 'conditionals operate on variables' },
-    { from: 'js_variables', to: 'js_loops', reason: 'loops operate on variables' },
-    { from: 'js_variables', to: 'js_functions', reason: 'functions use variables' },
-    { from: 'js_conditionals', to: 'js_loops', reason: 'loops use conditional logic' },
-    { from: 'js_functions', to: 'js_dom_manipulation', reason: 'DOM manipulation uses functions' },
-    { from: 'js_dom_manipulation', to: 'js_event_handling', reason: 'event handling requires DOM access' },
-    { from: 'js_functions', to: 'js_async_await', reason: 'async/await uses function concepts' },
-    { from: 'js_promises', to: 'js_async_await', reason: 'async/await is syntactic sugar for promises' },
-    { from: 'js_async_await', to: 'js_fetch_api', reason: 'fetch API uses async/await' },
-    { from: 'js_functions', to: 'js_classes', reason: 'classes use function concepts' },
-    { from: 'js_objects', to: 'js_classes', reason: 'classes are object blueprints' },
-    { from: 'html_elements', to: 'react_jsx', reason: 'JSX builds on HTML knowledge' },
-    { from: 'js_functions', to: 'react_components', reason: 'React components are functions' },
-    { from: 'react_components', to: 'react_state', reason: 'state management requires component knowledge' },
-    { from: 'react_components', to: 'react_props', reason: 'props require component knowledge' },
-    { from: 'react_state', to: 'react_effects', reason: 'effects respond to state changes' },
-    { from: 'js_fetch_api', to: 'ai_api_integration', reason: 'AI API integration uses fetch' },
-    { from: 'ai_prompt_engineering', to: 'ai_workflow_design', reason: 'workflow design builds on prompt engineering' },
-    { from: 'ai_api_integration', to: 'ai_workflow_design', reason: 'workflow design chains API calls' },
-  ],
-};
-
-// ============================================================
-// SHARED PROMPT SECTIONS
-// ============================================================
+  "ipaByQuestion": {
+    "Question text": [
+      {
+        "step": 1,
+        "type": "PERCEIVE",
+        "operation": "What the student does at this step",
+        "knowledgeItems": [
+          {"id": "skill_id", "type": "declarative", "content": "What must be known to perform this step"}
+        ]
+      }
+    ]
+  },`;
 
-function buildSystemPrompt(config: DomainConfig): string {
+function buildSystemPrompt(config: DomainConfig, includeTrace = false, extraChecks = ""): string {
   return `You are a Knowledge Graph Engineer tasked with constructing a Knowledge Graph of Knowledge Points (KPs) from a set of questions.
 
 The goal is to identify the underlying cognitive capabilities required to solve the questions and organize them into a reusable knowledge graph.
@@ -966,7 +404,7 @@ PHASE 6: JSON OUTPUT FORMAT
 
 Return the final knowledge graph using the following strict JSON structure. The schema must remain unchanged.
 
-IMPORTANT: Do NOT include "ipaByQuestion" in your output. Output ONLY these fields:
+${includeTrace ? TRACE_OUTPUT_RULE : NO_TRACE_OUTPUT_RULE}
 
 {
   "globalNodes": [
@@ -992,7 +430,8 @@ IMPORTANT: Do NOT include "ipaByQuestion" in your output. Output ONLY these fiel
       "from": "prerequisite_skill_id",
       "to": "dependent_skill_id",
       "reason": "Why B cannot be performed reliably without A",
-      "relationshipType": "requires"
+      "relationshipType": "requires",
+      "confidence": 0.9
     }
   ],
   
@@ -1002,9 +441,10 @@ IMPORTANT: Do NOT include "ipaByQuestion" in your output. Output ONLY these fiel
       "executionOrder": ["skill1", "skill2"],
       "validationStatus": "valid",
       "primarySkills": ["skill2"],
-      "skillWeights": {"skill2": 0.6, "skill1": 0.4}
+      "skillWeights": {"skill2": 0.6, "skill1": 0.4},
+      "skillConfidence": {"skill2": 0.95, "skill1": 0.8}
     }
-  },
+  },${includeTrace ? TRACE_OUTPUT_FORMAT : ''}
   
   "courses": {
     "Default": {
@@ -1034,6 +474,14 @@ For EACH question, estimate the cognitive load distribution across its required
     
 4. ALWAYS output primarySkills as an ARRAY in questionPaths
 
+=== CONFIDENCE SCORES ===
+
+Rate how certain you are of every edge and every question-to-skill mapping, from 0.0 to 1.0:
+- 0.9-1.0: the dependency or mapping is unambiguous
+- 0.6-0.9: likely, but a reasonable expert could disagree
+- below 0.6: a guess; the item will be flagged for human review
+Give every edge a "confidence" and every question path a "skillConfidence" entry for each of its requiredNodes. Do not inflate scores.
+
 === QUALITY VALIDATION (MANDATORY - FAIL = REDO) ===
 
 Before outputting, you MUST verify and FIX if any check fails:
@@ -1064,7 +512,7 @@ Before outputting, you MUST verify and FIX if any check fails:
    If any non-foundational node has zero incoming edges, add the 
    appropriate prerequisite edge.
 3. Verify every MANDATORY edge pair: if both nodes exist, the 
-   edge must exist.
+   edge must exist.${extraChecks}
 
 === TARGET METRICS ===
 
@@ -1080,10 +528,6 @@ Output ONLY valid JSON, no explanation.`;
 // SHARED UTILITY FUNCTIONS
 // ============================================================
 
-function getDomainConfig(domain: string): DomainConfig {
-  return domain === 'web' ? WEB_CONFIG : PYTHON_CONFIG;
-}
-
 function getCurriculumPosition(topic: string, config: DomainConfig): number {
   if (config.curriculumTopics.length === 0) return -1;
   const lower = topic.toLowerCase();
@@ -1125,123 +569,312 @@ You are EXTENDING an existing skill graph. CRITICAL RULES:
 Existing skills (MUST reuse these IDs when capability matches):
 `;
 
-function isLikelyTruncatedJson(text: string): boolean {
-  const openCurly = (text.match(/\{/g) || []).length;
-  const closeCurly = (text.match(/\}/g) || []).length;
-  const openSquare = (text.match(/\[/g) || []).length;
-  const closeSquare = (text.match(/\]/g) || []).length;
-  return openCurly !== closeCurly || openSquare !== closeSquare;
+// ============================================================
+// PROMPT VERSIONS
+// ============================================================
+//
+// Every generated graph records the prompt version that produced it, and
+// evaluate-prompts compares versions on a fixed question set. When changing
+// buildSystemPrompt or incrementalPromptAddition, add a new entry (keeping the
+// old one so it can still be evaluated), register its id in
+// _shared/promptVersions.ts and point CURRENT_PROMPT_VERSION at it once it wins.
+
+interface PromptVersion {
+  description: string;
+  buildSystemPrompt: (config: DomainConfig, includeTrace: boolean) => string;
+  incrementalAddition: string;
 }
 
-function attemptJsonRepair(text: string): any | null {
-  console.log("[IPA/LTA] Attempting JSON repair for truncated response...");
-  let repaired = text.trim();
-  let openCurly = 0;
-  let openSquare = 0;
-  let lastValidPos = 0;
-  
-  for (let i = 0; i < repaired.length; i++) {
-    const char = repaired[i];
-    if (char === '{') openCurly++;
-    else if (char === '}') {
-      openCurly--;
-      if (openCurly >= 0 && openSquare >= 0) lastValidPos = i + 1;
-    }
-    else if (char === '[') openSquare++;
-    else if (char === ']') {
-      openSquare--;
-      if (openCurly >= 0 && openSquare >= 0) lastValidPos = i + 1;
-    }
-  }
-  
-  if (lastValidPos > 0 && lastValidPos < repaired.length) {
-    repaired = repaired.substring(0, lastValidPos);
-  }
-  
-  while (openSquare > 0) { repaired += ']'; openSquare--; }
-  while (openCurly > 0) { repaired += '}'; openCurly--; }
-  
-  repaired = repaired.replace(/,\s*}/g, '}').replace(/,\s*]/g, ']');
-  
-  try {
-    const parsed = JSON.parse(repaired);
-    console.log("[IPA/LTA] JSON repair successful!");
-    return parsed;
-  } catch (e) {
-    console.error("[IPA/LTA] JSON repair failed:", (e as Error).message);
-    return null;
-  }
+// Extra self-check for ipa-lta-2: merge skills that never occur apart
+const CO_OCCURRENCE_CHECK = `
+4. List every pair of skills that appear together in EVERY question that
+   requires either of them. Each such pair is one capability split in two:
+   merge it into a single skill and rewire its edges and question paths.
+5. For every skill required by exactly one question, generalize it so it
+   covers other questions in this set, or fold it into the closest skill.`;
+
+const PROMPT_VERSIONS: Record<PromptVersionId, PromptVersion> = {
+  "ipa-lta-1": {
+    description: "IPA/LTA extraction with necessity-tested edges, skill weights and confidence scores",
+    buildSystemPrompt,
+    incrementalAddition: incrementalPromptAddition,
+  },
+  "ipa-lta-2": {
+    description: "ipa-lta-1 plus a co-occurrence merge and single-use skill check before output",
+    buildSystemPrompt: (config, includeTrace) => buildSystemPrompt(config, includeTrace, CO_OCCURRENCE_CHECK),
+    incrementalAddition: incrementalPromptAddition,
+  },
+};
+
+// Output budget for a generation call; the provider caps it to the model's context window
+const GENERATION_MAX_TOKENS = 65536;
+
+interface ExistingNode {
+  id: string;
+  name: string;
+  tier?: string;
+  description?: string;
 }
 
-function calculateMaxTokens(questionCount: number, isIncremental: boolean, existingNodeCount: number = 0): number {
-  // Always request max output to avoid truncation — Gemini 2.5 Flash supports up to 65536
-  const maxTokens = 65536;
-  console.log(`[IPA/LTA] Calculated max_tokens: ${maxTokens} for ${questionCount} questions (existing nodes: ${existingNodeCount})`);
-  return maxTokens;
+// ─── Progress events (streamed as NDJSON when the request sets `stream`) ───
+
+type RepairStep =
+  | "topicFilter"
+  | "independenceRule"
+  | "mandatoryEdges"
+  | "stripBidirectional"
+  | "transitiveReduce"
+  | "breakCycles"
+  | "orphanCleanup";
+
+export type GenerationEvent =
+  | { type: "started"; questions: number; domain: string; version: number; promptVersion: string; existingSkills: number }
+  | { type: "questions_analyzed"; count: number }
+  | { type: "skills_proposed"; count: number; skills: { id: string; name: string }[] }
+  | { type: "edges_proposed"; count: number }
+  | { type: "repair"; step: RepairStep; unit: "skills" | "edges"; before: number; after: number };
+
+type EmitEvent = (event: GenerationEvent) => void;
+
+interface GenerationRequest {
+  questions: string[];
+  existingNodes?: ExistingNode[];
+  topicMap?: Record<string, string>;
+  includeTrace?: boolean;      // Keep the IPA/LTA trace per question in `ipaByQuestion`
+  promptVersion: PromptVersionId;
+  config: DomainConfig;
+  llm: LlmProvider;
+  streamReply?: boolean;       // Stream the model reply so progress is reported while it is written
 }
 
-function extractJsonFromResponse(response: string): any {
-  let cleaned = response
-    .replace(/```json\s*/gi, "")
-    .replace(/```\s*/g, "")
-    .trim();
+type GeneratedQuestionPath = string[] | {
+  requiredNodes?: string[];
+  executionOrder?: string[];
+  primarySkills?: string[];
+  skillWeights?: Record<string, number>;
+  skillConfidence?: unknown;
+};
 
-  const jsonStart = cleaned.indexOf("{");
-  const jsonEnd = cleaned.lastIndexOf("}");
+// The model's graph as parsed from its reply, repaired in place by generateGraph
+interface GeneratedGraph {
+  globalNodes?: { id: string; name: string; level: number; [k: string]: unknown }[];
+  edges?: { from: string; to: string; confidence?: unknown; [k: string]: unknown }[];
+  questionPaths?: Record<string, GeneratedQuestionPath>;
+  courses?: unknown;
+  ipaByQuestion?: unknown;
+  domainConfig?: { domain: string; version: number };
+  promptVersion?: string;
+}
 
-  if (jsonStart === -1 || jsonEnd === -1) {
-    const arrayStart = cleaned.indexOf("[");
-    const arrayEnd = cleaned.lastIndexOf("]");
-    if (arrayStart === -1 || arrayEnd === -1) {
-      throw new Error("No JSON object or array found in response");
+// Sections of the reply counted while it streams
+type ReplySection = "questionPaths" | "globalNodes" | "edges";
+const REPLY_SECTIONS = new Set<string>(["questionPaths", "globalNodes", "edges"]);
+
+// At most one event per section in this interval while the reply streams
+const LIVE_EVENT_INTERVAL_MS = 1000;
+
+/**
+ * Incremental scanner over the model's JSON reply. Calls `onElement` with the
+ * text of each element of the top-level questionPaths, globalNodes and edges
+ * sections as soon as the element is closed.
+ */
+function createReplyScanner(onElement: (section: ReplySection, text: string) => void) {
+  let text = "";
+  let pos = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = 0;
+  let lastKey = "";
+  let section: ReplySection | null = null;
+  let elementStart = -1;
+
+  return {
+    reset() {
+      text = "";
+      pos = depth = 0;
+      inString = escaped = false;
+      lastKey = "";
+      section = null;
+      elementStart = -1;
+    },
+    feed(chunk: string) {
+      text += chunk;
+      for (; pos < text.length; pos++) {
+        const char = text[pos];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (char === "\\") escaped = true;
+          else if (char === '"') {
+            inString = false;
+            if (depth === 1) lastKey = text.slice(stringStart + 1, pos);
+          }
+          continue;
+        }
+        if (char === '"') {
+          // Prose or code fences before the root object are skipped
+          if (depth > 0) {
+            inString = true;
+            stringStart = pos;
+          }
+        } else if (char === "{" || char === "[") {
+          depth++;
+          if (depth === 2) section = REPLY_SECTIONS.has(lastKey) ? lastKey as ReplySection : null;
+          else if (depth === 3 && section) elementStart = pos;
+        } else if (char === "}" || char === "]") {
+          if (depth === 3 && section && elementStart >= 0) {
+            onElement(section, text.slice(elementStart, pos + 1));
+            elementStart = -1;
+          }
+          depth = Math.max(0, depth - 1);
+          if (depth < 2) section = null;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Turn the streamed reply into questions_analyzed, skills_proposed and
+ * edges_proposed events. Each event carries the increase over what was already
+ * reported, so a retried reply does not count elements twice; `finish`
+ * reports whatever the parsed reply holds beyond the streamed counts.
+ */
+function createLiveProgress(emit: EmitEvent) {
+  const reported: Record<ReplySection, number> = { questionPaths: 0, globalNodes: 0, edges: 0 };
+  let seen: Record<ReplySection, number> = { questionPaths: 0, globalNodes: 0, edges: 0 };
+  let skills: { id: string; name: string }[] = [];
+  let lastFlush = 0;
+
+  const flush = () => {
+    lastFlush = Date.now();
+    if (seen.questionPaths > reported.questionPaths) {
+      emit({ type: "questions_analyzed", count: seen.questionPaths - reported.questionPaths });
+      reported.questionPaths = seen.questionPaths;
     }
-    cleaned = cleaned.substring(arrayStart, arrayEnd + 1);
-  } else {
-    cleaned = cleaned.substring(jsonStart, jsonEnd + 1);
-  }
+    if (seen.globalNodes > reported.globalNodes) {
+      const added = skills.slice(reported.globalNodes, seen.globalNodes).filter(skill => skill.id);
+      emit({ type: "skills_proposed", count: seen.globalNodes - reported.globalNodes, skills: added });
+      reported.globalNodes = seen.globalNodes;
+    }
+    if (seen.edges > reported.edges) {
+      emit({ type: "edges_proposed", count: seen.edges - reported.edges });
+      reported.edges = seen.edges;
+    }
+  };
+
+  const scanner = createReplyScanner((section, text) => {
+    seen[section]++;
+    if (section === "globalNodes") {
+      try {
+        const node = JSON.parse(text) as { id?: unknown; name?: unknown };
+        skills.push({ id: String(node.id ?? ""), name: String(node.name ?? node.id ?? "") });
+      } catch {
+        skills.push({ id: "", name: "" });
+      }
+    }
+    if (Date.now() - lastFlush >= LIVE_EVENT_INTERVAL_MS) flush();
+  });
 
-  cleaned = cleaned
-    .replace(/\r\n/g, "\n")
-    .replace(/\r/g, "\n")
-    .replace(/\n+/g, " ")
-    .replace(/\t+/g, " ")
-    .trim();
+  return {
+    stream: {
+      start() {
+        scanner.reset();
+        seen = { questionPaths: 0, globalNodes: 0, edges: 0 };
+        skills = [];
+      },
+      delta: (text: string) => scanner.feed(text),
+    },
+    finish(graphData: GeneratedGraph) {
+      const nodes = Array.isArray(graphData.globalNodes) ? graphData.globalNodes : [];
+      seen = {
+        questionPaths: Object.keys(graphData.questionPaths || {}).length,
+        globalNodes: nodes.length,
+        edges: Array.isArray(graphData.edges) ? graphData.edges.length : 0,
+      };
+      skills = nodes.map(n => ({ id: n.id, name: n.name }));
+      flush();
+    },
+  };
+}
 
-  try {
-    return JSON.parse(cleaned);
-  } catch (e) {
-    cleaned = cleaned
-      .replace(/,\s*}/g, "}")
-      .replace(/,\s*]/g, "]")
-      .replace(/[\x00-\x1F\x7F]/g, "");
+function clampConfidence(value: unknown): number | undefined {
+  const n = typeof value === "string" ? parseFloat(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n)) return undefined;
+  return Math.round(Math.min(1, Math.max(0, n)) * 100) / 100;
+}
 
-    try {
-      return JSON.parse(cleaned);
-    } catch (secondError) {
-      console.error("Failed to parse JSON even after fixes. First 500 chars:", cleaned.substring(0, 500));
-      console.error("Last 500 chars:", cleaned.substring(cleaned.length - 500));
-
-      if (isLikelyTruncatedJson(cleaned)) {
-        const repaired = attemptJsonRepair(cleaned);
-        if (repaired) {
-          console.log("[IPA/LTA] Successfully recovered partial response");
-          return repaired;
-        }
-        throw new Error(
-          "AI response appears truncated (incomplete JSON). Try reducing the number of questions or splitting them into smaller batches."
-        );
-      }
+/**
+ * Clamp edge and question→skill confidences to 0-1 and drop scores for skills
+ * a question no longer requires. Missing scores stay missing (unknown).
+ */
+function normalizeConfidences(graphData: {
+  edges?: { confidence?: unknown }[];
+  questionPaths?: Record<string, { requiredNodes?: string[]; skillConfidence?: unknown } | string[]>;
+}) {
+  for (const edge of graphData.edges || []) {
+    const confidence = clampConfidence(edge.confidence);
+    if (confidence === undefined) delete edge.confidence;
+    else edge.confidence = confidence;
+  }
 
-      throw new Error(`Failed to parse AI response as JSON: ${(secondError as Error).message}`);
+  for (const path of Object.values(graphData.questionPaths || {})) {
+    if (!path || Array.isArray(path) || !path.skillConfidence || typeof path.skillConfidence !== "object") continue;
+    const required = new Set<string>(path.requiredNodes || []);
+    const cleaned: Record<string, number> = {};
+    for (const [skillId, value] of Object.entries(path.skillConfidence)) {
+      const confidence = clampConfidence(value);
+      if (required.has(skillId) && confidence !== undefined) cleaned[skillId] = confidence;
     }
+    path.skillConfidence = cleaned;
   }
 }
 
-interface ExistingNode {
-  id: string;
-  name: string;
-  tier?: string;
-  description?: string;
+const IPA_STEP_TYPES = new Set(["PERCEIVE", "ENCODE", "RETRIEVE", "DECIDE", "EXECUTE", "MONITOR"]);
+const LTA_KNOWLEDGE_TYPES = new Set(["declarative", "procedural", "conditional", "strategic"]);
+
+interface TraceStep {
+  step: number;
+  type: string;
+  operation: string;
+  knowledgeItems: { id: string; type: string; content: string }[];
+}
+
+/**
+ * Keep well-formed IPA traces for questions in the graph, with knowledge items
+ * pointing only at skills that survived post-processing.
+ */
+function sanitizeIpaTraces(
+  raw: unknown,
+  questionTexts: Set<string>,
+  skillIds: Set<string>
+): Record<string, TraceStep[]> {
+  const traces: Record<string, TraceStep[]> = {};
+  if (!raw || typeof raw !== "object") return traces;
+
+  for (const [question, steps] of Object.entries(raw as Record<string, unknown>)) {
+    if (!questionTexts.has(question) || !Array.isArray(steps)) continue;
+    const cleaned: TraceStep[] = [];
+    for (const rawStep of steps) {
+      const step = rawStep as Partial<TraceStep> | null;
+      if (!step || typeof step.operation !== "string" || !IPA_STEP_TYPES.has(String(step.type))) continue;
+      const items = Array.isArray(step.knowledgeItems) ? step.knowledgeItems : [];
+      cleaned.push({
+        step: cleaned.length + 1,
+        type: String(step.type),
+        operation: step.operation,
+        knowledgeItems: items
+          .filter(item => item && skillIds.has(item.id))
+          .map(item => ({
+            id: item.id,
+            type: LTA_KNOWLEDGE_TYPES.has(item.type) ? item.type : "procedural",
+            content: typeof item.content === "string" ? item.content : "",
+          })),
+      });
+    }
+    if (cleaned.length > 0) traces[question] = cleaned;
+  }
+  return traces;
 }
 
 function transitiveReduce(edges: { from: string; to: string; [k: string]: unknown }[]): typeof edges {
@@ -1375,7 +1008,7 @@ function injectMandatoryEdges(
     if (nodeIds.has(me.from) && nodeIds.has(me.to)) {
       const key = `${me.from}->${me.to}`;
       if (!edgeSet.has(key)) {
-        edges.push({ from: me.from, to: me.to, reason: me.reason, relationshipType: 'requires' });
+        edges.push({ from: me.from, to: me.to, reason: me.reason, relationshipType: 'requires', confidence: 1 });
         edgeSet.add(key);
         injected++;
         console.log(`[IPA/LTA] Injected mandatory edge: ${me.from} -> ${me.to}`);
@@ -1390,85 +1023,56 @@ function injectMandatoryEdges(
 }
 
 // ============================================================
-// MAIN HANDLER
+// GENERATION PIPELINE
 // ============================================================
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+/**
+ * Prompt the model, then filter and repair its graph. Each stage reports
+ * through `emit` so streaming callers can show progress; with `streamReply`
+ * questions, skills and edges are reported while the model writes them.
+ */
+async function generateGraph(
+  { questions, existingNodes, topicMap, includeTrace = false, promptVersion, config, llm, streamReply = false }: GenerationRequest,
+  emit: EmitEvent
+): Promise<GeneratedGraph> {
+  const isIncremental = existingNodes && existingNodes.length > 0;
+  console.log(`[IPA/LTA] Generating knowledge graph for ${questions.length} questions (domain: ${config.domain} v${config.version}, prompt: ${promptVersion}, incremental: ${isIncremental}, existing skills: ${existingNodes?.length || 0})`);
+  emit({ type: "started", questions: questions.length, domain: config.domain, version: config.version, promptVersion, existingSkills: existingNodes?.length || 0 });
+
+  // Build the prompt based on version, mode and domain
+  const prompt = PROMPT_VERSIONS[promptVersion];
+  let fullSystemPrompt = prompt.buildSystemPrompt(config, includeTrace);
+  
+  if (isIncremental) {
+    const nodeList = existingNodes!
+      .map(n => `- ${n.id}: "${n.name}"${n.tier ? ` [${n.tier}]` : ''}${n.description ? ` - ${n.description.substring(0, 60)}...` : ''}`)
+      .join('\n');
+    fullSystemPrompt += prompt.incrementalAddition + nodeList;
   }
 
-  try {
-    let body: { questions?: string[]; existingNodes?: ExistingNode[]; topicMap?: Record<string, string>; domain?: string };
-    try {
-      const text = await req.text();
-      if (!text || text.trim() === '') {
-        return new Response(
-          JSON.stringify({ error: "Request body is empty" }),
-          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+  const targetMinSkills = Math.ceil(questions.length / 15);
+  const targetMaxSkills = Math.ceil(questions.length / 5);
+
+  // Format questions with topic context if topicMap is provided
+  let questionsBlock: string;
+  if (topicMap && Object.keys(topicMap).length > 0) {
+    let currentTopic = '';
+    const lines: string[] = [];
+    questions.forEach((q: string, i: number) => {
+      const topic = topicMap[String(i)] || 'General';
+      if (topic !== currentTopic) {
+        currentTopic = topic;
+        const pos = getCurriculumPosition(topic, config);
+        lines.push(`\n--- Topic: ${topic}${pos > 0 ? ` (Position ${pos} in curriculum)` : ''} ---`);
       }
-      body = JSON.parse(text);
-    } catch (parseErr) {
-      console.error("[IPA/LTA] Failed to parse request body:", parseErr);
-      return new Response(
-        JSON.stringify({ error: "Invalid JSON in request body" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-    
-    const { questions, existingNodes, topicMap, domain } = body;
-    const config = getDomainConfig(domain || 'python');
-    
-    if (!questions || !Array.isArray(questions) || questions.length === 0) {
-      return new Response(
-        JSON.stringify({ error: "No questions provided" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-    
-    const OPENROUTER_API_KEY = Deno.env.get("OPENROUTER_API_KEY");
-    
-    if (!OPENROUTER_API_KEY) {
-      throw new Error("OPENROUTER_API_KEY is not configured");
-    }
-
-    const isIncremental = existingNodes && existingNodes.length > 0;
-    console.log(`[IPA/LTA] Generating knowledge graph for ${questions.length} questions (domain: ${domain || 'python'}, incremental: ${isIncremental}, existing skills: ${existingNodes?.length || 0})`);
-
-    // Build the prompt based on mode and domain
-    let fullSystemPrompt = buildSystemPrompt(config);
-    
-    if (isIncremental) {
-      const nodeList = existingNodes!
-        .map(n => `- ${n.id}: "${n.name}"${n.tier ? ` [${n.tier}]` : ''}${n.description ? ` - ${n.description.substring(0, 60)}...` : ''}`)
-        .join('\n');
-      fullSystemPrompt += incrementalPromptAddition + nodeList;
-    }
-
-    const targetMinSkills = Math.ceil(questions.length / 15);
-    const targetMaxSkills = Math.ceil(questions.length / 5);
-
-    // Format questions with topic context if topicMap is provided
-    let questionsBlock: string;
-    if (topicMap && Object.keys(topicMap).length > 0) {
-      let currentTopic = '';
-      const lines: string[] = [];
-      questions.forEach((q: string, i: number) => {
-        const topic = topicMap[String(i)] || 'General';
-        if (topic !== currentTopic) {
-          currentTopic = topic;
-          const pos = getCurriculumPosition(topic, config);
-          lines.push(`\n--- Topic: ${topic}${pos > 0 ? ` (Position ${pos} in curriculum)` : ''} ---`);
-        }
-        lines.push(`${i + 1}. ${q}`);
-      });
-      questionsBlock = lines.join('\n');
-    } else {
-      questionsBlock = questions.map((q: string, i: number) => `${i + 1}. ${q}`).join('\n');
-    }
+      lines.push(`${i + 1}. ${q}`);
+    });
+    questionsBlock = lines.join('\n');
+  } else {
+    questionsBlock = questions.map((q: string, i: number) => `${i + 1}. ${q}`).join('\n');
+  }
 
-    const userPrompt = `Questions to analyze using IPA/LTA methodology:
+  const userPrompt = `Questions to analyze using IPA/LTA methodology:
 ${questionsBlock}
 
 === ANALYSIS INSTRUCTIONS ===
@@ -1485,336 +1089,297 @@ ${questionsBlock}
 - Ensure 60%+ skill reuse across questions
 ${isIncremental ? '- REUSE existing skill IDs when IPA/LTA maps to same capability\n- Return ONLY new skills, but include all necessary edges' : ''}
 
-CRITICAL: Do NOT include "ipaByQuestion" in your output. Output ONLY: globalNodes, edges, questionPaths, courses.
+${includeTrace
+  ? 'CRITICAL: Output globalNodes, edges, questionPaths, courses AND ipaByQuestion with a step-by-step trace for every question.'
+  : 'CRITICAL: Do NOT include "ipaByQuestion" in your output. Output ONLY: globalNodes, edges, questionPaths, courses.'}
 
 Generate the knowledge graph JSON.`;
 
-    const model = "deepseek/deepseek-v3.2";
-    const maxTokens = calculateMaxTokens(questions.length, isIncremental ?? false, existingNodes?.length || 0);
+  console.log(`[IPA/LTA] Requesting up to ${GENERATION_MAX_TOKENS} output tokens from ${llm.name} (${llm.model})`);
+
+  // Retry the entire AI call if JSON parsing fails (model sometimes outputs malformed JSON)
+  const live = createLiveProgress(emit);
+  const { data: graphData } = await completeJson<GeneratedGraph>(llm, {
+    messages: [
+      { role: "system", content: fullSystemPrompt },
+      { role: "user", content: userPrompt },
+    ],
+    maxTokens: GENERATION_MAX_TOKENS,
+    temperature: 0.2,
+    ...(streamReply ? { stream: live.stream } : {}),
+  }, { parseRetries: 3, tag: "[IPA/LTA]" });
+  live.finish(graphData);
+
+  // === PROGRAMMATIC POST-GENERATION NODE FILTER ===
+  // Only apply topic filtering if the domain has a skill topic map
+  if (graphData.globalNodes && Array.isArray(graphData.globalNodes) && topicMap && Object.keys(topicMap).length > 0 && Object.keys(config.skillTopicMap).length > 0) {
+    let maxTopicPosition = 0;
+    for (const topic of Object.values(topicMap)) {
+      const pos = getCurriculumPosition(topic as string, config);
+      if (pos > maxTopicPosition) maxTopicPosition = pos;
+    }
     
-    const MAX_RETRIES = 3;
-    let lastError: string = "AI processing failed";
-    let data: any = null;
-    let content: string | null = null;
-
-    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-      try {
-        const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${OPENROUTER_API_KEY}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model,
-            messages: [
-              { role: "system", content: fullSystemPrompt },
-              { role: "user", content: userPrompt },
-            ],
-            max_tokens: maxTokens,
-            temperature: 0.2,
-          }),
+    if (maxTopicPosition > 0) {
+      const removedNodes = new Set<string>();
+      graphData.globalNodes = graphData.globalNodes.filter((node: { id: string }) => {
+        const allowedTopic = config.skillTopicMap[node.id];
+        if (allowedTopic !== undefined && allowedTopic > maxTopicPosition) {
+          console.warn(`[IPA/LTA] Topic filter: removed node "${node.id}" (topic ${allowedTopic}) — exceeds max topic position ${maxTopicPosition}`);
+          removedNodes.add(node.id);
+          return false;
+        }
+        return true;
+      });
+      
+      if (removedNodes.size > 0 && graphData.edges && Array.isArray(graphData.edges)) {
+        graphData.edges = graphData.edges.filter((e: { from: string; to: string }) => {
+          if (removedNodes.has(e.from) || removedNodes.has(e.to)) {
+            console.warn(`[IPA/LTA] Topic filter: removed edge ${e.from} -> ${e.to}`);
+            return false;
+          }
+          return true;
         });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          lastError = errorData.error?.message || `AI error (${response.status})`;
-          console.error(`[IPA/LTA] AI attempt ${attempt}/${MAX_RETRIES} failed:`, response.status, JSON.stringify(errorData));
-
-          if (response.status === 429) {
-            if (attempt < MAX_RETRIES) {
-              const retryAfter = response.headers.get('Retry-After');
-              const waitMs = retryAfter ? parseInt(retryAfter) * 1000 : Math.pow(2, attempt) * 10000;
-              console.log(`[IPA/LTA] Rate limited (429). Waiting ${waitMs / 1000}s before retry ${attempt + 1}/${MAX_RETRIES}...`);
-              await new Promise(r => setTimeout(r, waitMs));
-              continue;
+      }
+      
+      if (removedNodes.size > 0 && graphData.questionPaths) {
+        for (const [question, path] of Object.entries(graphData.questionPaths)) {
+          if (Array.isArray(path)) {
+            graphData.questionPaths[question] = (path as string[]).filter((id: string) => !removedNodes.has(id));
+          } else {
+            const p = path as any;
+            if (p.requiredNodes) p.requiredNodes = p.requiredNodes.filter((id: string) => !removedNodes.has(id));
+            if (p.executionOrder) p.executionOrder = p.executionOrder.filter((id: string) => !removedNodes.has(id));
+            if (p.skillWeights) {
+              for (const id of removedNodes) delete p.skillWeights[id];
             }
-            return new Response(JSON.stringify({ error: "Too many requests. Please wait a moment and try again." }), {
-              status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" },
-            });
-          }
-          if (response.status === 402) {
-            return new Response(JSON.stringify({ error: "AI credits depleted. Please add credits to your Lovable workspace." }), {
-              status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" },
-            });
-          }
-          if (response.status === 401) {
-            return new Response(JSON.stringify({ error: "AI authentication failed. Please contact support." }), {
-              status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" },
-            });
-          }
-
-          if (response.status >= 500 && attempt < MAX_RETRIES) {
-            const delay = attempt * 2000;
-            console.log(`[IPA/LTA] Retrying in ${delay}ms...`);
-            await new Promise(r => setTimeout(r, delay));
-            continue;
+            if (p.primarySkills) p.primarySkills = p.primarySkills.filter((id: string) => !removedNodes.has(id));
           }
-
-          return new Response(JSON.stringify({ error: lastError }), {
-            status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" },
-          });
         }
-
-        const rawText = await response.text();
-        if (!rawText || rawText.trim().length === 0) {
-          console.warn(`[IPA/LTA] Empty response body on attempt ${attempt}/${MAX_RETRIES}`);
-          lastError = "AI returned an empty response";
-          if (attempt < MAX_RETRIES) {
-            const delay = attempt * 2000;
-            await new Promise(r => setTimeout(r, delay));
-            continue;
-          }
-          return new Response(
-            JSON.stringify({ error: "AI returned an empty response after multiple attempts. Please try again." }),
-            { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
+      }
+      
+      console.log(`[IPA/LTA] Topic filter: removed ${removedNodes.size} out-of-sequence nodes (max topic: ${maxTopicPosition})`);
+      emit({ type: "repair", step: "topicFilter", unit: "skills", before: graphData.globalNodes.length + removedNodes.size, after: graphData.globalNodes.length });
+    }
+  }
+  
+  // === INDEPENDENCE RULE ENFORCEMENT ===
+  if (graphData.edges && Array.isArray(graphData.edges)) {
+    const beforeIndep = graphData.edges.length;
+    graphData.edges = graphData.edges.filter((e: { from: string; to: string }) => {
+      if (config.independentFoundational.has(e.to)) {
+        console.warn(`[IPA/LTA] Independence rule: removed edge ${e.from} -> ${e.to} (target is foundational)`);
+        return false;
+      }
+      return true;
+    });
+    if (graphData.edges.length < beforeIndep) {
+      console.log(`[IPA/LTA] Independence rule: removed ${beforeIndep - graphData.edges.length} edges pointing into foundational skills`);
+    }
+    emit({ type: "repair", step: "independenceRule", unit: "edges", before: beforeIndep, after: graphData.edges.length });
+  }
+  
+  // Inject mandatory edges
+  if (graphData.globalNodes && Array.isArray(graphData.globalNodes) && graphData.edges && Array.isArray(graphData.edges)) {
+    const allNodesForInjection = [...graphData.globalNodes];
+    if (existingNodes) {
+      for (const en of existingNodes) {
+        if (!allNodesForInjection.some((n: { id: string }) => n.id === en.id)) {
+          allNodesForInjection.push(en as any);
         }
+      }
+    }
+    const beforeMandatory = graphData.edges.length;
+    graphData.edges = injectMandatoryEdges(allNodesForInjection, graphData.edges, config);
+    emit({ type: "repair", step: "mandatoryEdges", unit: "edges", before: beforeMandatory, after: graphData.edges.length });
+  }
 
-        data = JSON.parse(rawText);
-        
-        const finishReason = data.choices?.[0]?.finish_reason;
-        console.log(`[IPA/LTA] Lovable AI finish reason: ${finishReason}`);
-        if (finishReason === 'length') {
-          console.warn('[IPA/LTA] Response was truncated due to max tokens limit');
-        }
+  // Post-processing: strip bidirectional edges to enforce DAG
+  if (graphData.edges && Array.isArray(graphData.edges)) {
+    const beforeStrip = graphData.edges.length;
+    const edgeSet = new Set<string>();
+    graphData.edges = graphData.edges.filter((edge: { from: string; to: string }) => {
+      const key = `${edge.from}:${edge.to}`;
+      const reverseKey = `${edge.to}:${edge.from}`;
+      if (edgeSet.has(key) || edgeSet.has(reverseKey) || edge.from === edge.to) {
+        console.warn(`[IPA/LTA] Stripped cycle/duplicate edge: ${edge.from} -> ${edge.to}`);
+        return false;
+      }
+      edgeSet.add(key);
+      return true;
+    });
 
-        content = data.choices?.[0]?.message?.content;
-
-        const choiceError = data.choices?.[0]?.error;
-        if ((!content || content.trim() === '') && choiceError) {
-          const providerMsg = choiceError.message || 'Unknown provider error';
-          console.warn(`[IPA/LTA] Upstream provider error on attempt ${attempt}/${MAX_RETRIES}: ${providerMsg}`);
-          lastError = `AI service temporarily unavailable (${providerMsg})`;
-          if (attempt < MAX_RETRIES) {
-            const delay = attempt * 2000;
-            await new Promise(r => setTimeout(r, delay));
-            continue;
-          }
-          return new Response(
-            JSON.stringify({ error: `${lastError}. Please try again.` }),
-            { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
+    emit({ type: "repair", step: "stripBidirectional", unit: "edges", before: beforeStrip, after: graphData.edges.length });
 
-        if (!content || content.trim() === '') {
-          console.warn(`[IPA/LTA] No content on attempt ${attempt}/${MAX_RETRIES}. Response: ${JSON.stringify(data).substring(0, 200)}`);
-          lastError = "AI returned an empty response";
-          if (attempt < MAX_RETRIES) {
-            const delay = attempt * 2000;
-            await new Promise(r => setTimeout(r, delay));
-            continue;
-          }
-          return new Response(
-            JSON.stringify({ error: "AI returned an empty response after multiple attempts. Please try again." }),
-            { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
+    const beforeReduce = graphData.edges.length;
+    graphData.edges = transitiveReduce(graphData.edges);
+    emit({ type: "repair", step: "transitiveReduce", unit: "edges", before: beforeReduce, after: graphData.edges.length });
 
-        break;
+    const beforeBreak = graphData.edges.length;
+    graphData.edges = breakCycles(graphData.edges);
+    emit({ type: "repair", step: "breakCycles", unit: "edges", before: beforeBreak, after: graphData.edges.length });
 
-      } catch (fetchErr) {
-        console.error(`[IPA/LTA] Fetch/parse error on attempt ${attempt}/${MAX_RETRIES}:`, fetchErr);
-        lastError = fetchErr instanceof Error ? fetchErr.message : "AI request failed";
-        if (attempt < MAX_RETRIES) {
-          const delay = attempt * 2000;
-          await new Promise(r => setTimeout(r, delay));
-          continue;
-        }
-        return new Response(
-          JSON.stringify({ error: "AI returned an invalid response after multiple attempts. Please try again." }),
-          { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+    if (graphData.globalNodes && Array.isArray(graphData.globalNodes)) {
+      const nodeIds = new Set(graphData.globalNodes.map((n: { id: string }) => n.id));
+      if (existingNodes) {
+        for (const en of existingNodes) nodeIds.add(en.id);
+      }
+      const beforeOrphan = graphData.edges.length;
+      graphData.edges = graphData.edges.filter((e: { from: string; to: string }) => 
+        nodeIds.has(e.from) && nodeIds.has(e.to)
+      );
+      if (graphData.edges.length < beforeOrphan) {
+        console.warn(`[IPA/LTA] Orphan cleanup: removed ${beforeOrphan - graphData.edges.length} dangling edges`);
       }
+      emit({ type: "repair", step: "orphanCleanup", unit: "edges", before: beforeOrphan, after: graphData.edges.length });
+
+      recomputeLevels(graphData.globalNodes, graphData.edges);
     }
+  }
 
-    // Retry the entire AI call if JSON parsing fails (model sometimes outputs malformed JSON)
-    const JSON_PARSE_RETRIES = 3;
-    let graphData;
-    
-    for (let parseAttempt = 1; parseAttempt <= JSON_PARSE_RETRIES; parseAttempt++) {
+  normalizeConfidences(graphData);
+
+  // IPA/LTA traces are opt-in; otherwise anything the model volunteered is dropped
+  if (includeTrace) {
+    const skillIds = new Set<string>([
+      ...(graphData.globalNodes || []).map((n: { id: string }) => n.id),
+      ...(existingNodes || []).map(n => n.id),
+    ]);
+    graphData.ipaByQuestion = sanitizeIpaTraces(
+      graphData.ipaByQuestion,
+      new Set(Object.keys(graphData.questionPaths || {})),
+      skillIds
+    );
+  } else {
+    delete graphData.ipaByQuestion;
+  }
+
+  const nodeCount = graphData.globalNodes?.length || 0;
+  const edgeCount = graphData.edges?.length || 0;
+  const questionCount = Object.keys(graphData.questionPaths || {}).length;
+  const ipaCount = Object.keys(graphData.ipaByQuestion || {}).length;
+  const edgeDensity = nodeCount > 0 ? (edgeCount / nodeCount).toFixed(2) : 0;
+  
+  console.log(`[IPA/LTA] Generated knowledge graph:`);
+  console.log(`  - Skills: ${nodeCount} (target: ${targetMinSkills}-${targetMaxSkills})`);
+  console.log(`  - Edges: ${edgeCount} (density: ${edgeDensity} per node)`);
+  console.log(`  - Question mappings: ${questionCount}`);
+  console.log(`  - IPA traces: ${ipaCount}`);
+
+  // Record which config and prompt produced the graph
+  graphData.domainConfig = { domain: config.domain, version: config.version };
+  graphData.promptVersion = promptVersion;
+
+  return graphData;
+}
+
+/**
+ * Stream progress events as NDJSON, ending with a "result" or "error" line
+ */
+function streamGeneration(request: GenerationRequest): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    async start(controller) {
+      const send = (line: unknown) => controller.enqueue(encoder.encode(JSON.stringify(line) + "\n"));
       try {
-        graphData = extractJsonFromResponse(content);
-        break; // success
-      } catch (parseError) {
-        console.error(`[IPA/LTA] JSON extraction error (attempt ${parseAttempt}/${JSON_PARSE_RETRIES}):`, parseError);
-        
-        if (parseAttempt >= JSON_PARSE_RETRIES) {
-          return new Response(
-            JSON.stringify({ error: "AI returned malformed JSON after multiple attempts. Please try again." }),
-            { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-          );
-        }
-        
-        // Re-call the AI to get a fresh response
-        console.log(`[IPA/LTA] Re-requesting AI response due to malformed JSON...`);
-        const retryResponse = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${OPENROUTER_API_KEY}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model,
-            messages: [
-              { role: "system", content: fullSystemPrompt },
-              { role: "user", content: userPrompt },
-            ],
-            max_tokens: maxTokens,
-            temperature: 0.2,
-          }),
+        const graph = await generateGraph({ ...request, streamReply: true }, send);
+        send({ type: "result", graph });
+      } catch (error) {
+        console.error("[IPA/LTA] generate-graph error:", error);
+        send({
+          type: "error",
+          error: error instanceof Error ? error.message : "Unknown error",
+          status: error instanceof LlmError ? error.status : 500,
         });
-        
-        if (!retryResponse.ok) {
-          console.error(`[IPA/LTA] Retry AI call failed: ${retryResponse.status}`);
-          continue;
-        }
-        
-        const retryData = await retryResponse.json();
-        content = retryData.choices?.[0]?.message?.content;
-        if (!content || content.trim() === '') {
-          console.warn(`[IPA/LTA] Retry returned empty content`);
-          continue;
-        }
+      } finally {
+        controller.close();
       }
-    }
+    },
+  });
 
-    // === PROGRAMMATIC POST-GENERATION NODE FILTER ===
-    // Only apply topic filtering if the domain has a skill topic map
-    if (graphData.globalNodes && Array.isArray(graphData.globalNodes) && topicMap && Object.keys(topicMap).length > 0 && Object.keys(config.skillTopicMap).length > 0) {
-      let maxTopicPosition = 0;
-      for (const topic of Object.values(topicMap)) {
-        const pos = getCurriculumPosition(topic as string, config);
-        if (pos > maxTopicPosition) maxTopicPosition = pos;
-      }
-      
-      if (maxTopicPosition > 0) {
-        const removedNodes = new Set<string>();
-        graphData.globalNodes = graphData.globalNodes.filter((node: { id: string }) => {
-          const allowedTopic = config.skillTopicMap[node.id];
-          if (allowedTopic !== undefined && allowedTopic > maxTopicPosition) {
-            console.warn(`[IPA/LTA] Topic filter: removed node "${node.id}" (topic ${allowedTopic}) — exceeds max topic position ${maxTopicPosition}`);
-            removedNodes.add(node.id);
-            return false;
-          }
-          return true;
-        });
-        
-        if (removedNodes.size > 0 && graphData.edges && Array.isArray(graphData.edges)) {
-          graphData.edges = graphData.edges.filter((e: { from: string; to: string }) => {
-            if (removedNodes.has(e.from) || removedNodes.has(e.to)) {
-              console.warn(`[IPA/LTA] Topic filter: removed edge ${e.from} -> ${e.to}`);
-              return false;
-            }
-            return true;
-          });
-        }
-        
-        if (removedNodes.size > 0 && graphData.questionPaths) {
-          for (const [question, path] of Object.entries(graphData.questionPaths)) {
-            if (Array.isArray(path)) {
-              graphData.questionPaths[question] = (path as string[]).filter((id: string) => !removedNodes.has(id));
-            } else {
-              const p = path as any;
-              if (p.requiredNodes) p.requiredNodes = p.requiredNodes.filter((id: string) => !removedNodes.has(id));
-              if (p.executionOrder) p.executionOrder = p.executionOrder.filter((id: string) => !removedNodes.has(id));
-              if (p.skillWeights) {
-                for (const id of removedNodes) delete p.skillWeights[id];
-              }
-              if (p.primarySkills) p.primarySkills = p.primarySkills.filter((id: string) => !removedNodes.has(id));
-            }
-          }
-        }
-        
-        console.log(`[IPA/LTA] Topic filter: removed ${removedNodes.size} out-of-sequence nodes (max topic: ${maxTopicPosition})`);
+  return new Response(body, {
+    headers: { ...corsHeaders, "Content-Type": "application/x-ndjson" },
+  });
+}
+
+// ============================================================
+// MAIN HANDLER
+// ============================================================
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    let body: {
+      questions?: string[];
+      existingNodes?: ExistingNode[];
+      topicMap?: Record<string, string>;
+      domain?: string;
+      domainVersion?: number;
+      forceRefresh?: boolean;
+      stream?: boolean;        // Respond with NDJSON progress events instead of one JSON body
+      includeTrace?: boolean;  // Return the IPA/LTA trace per question
+      promptVersion?: string;  // A PROMPT_VERSION_IDS entry; defaults to CURRENT_PROMPT_VERSION
+    };
+    try {
+      const text = await req.text();
+      if (!text || text.trim() === '') {
+        return new Response(
+          JSON.stringify({ error: "Request body is empty" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
       }
+      body = JSON.parse(text);
+    } catch (parseErr) {
+      console.error("[IPA/LTA] Failed to parse request body:", parseErr);
+      return new Response(
+        JSON.stringify({ error: "Invalid JSON in request body" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
     
-    // === INDEPENDENCE RULE ENFORCEMENT ===
-    if (graphData.edges && Array.isArray(graphData.edges)) {
-      const beforeIndep = graphData.edges.length;
-      graphData.edges = graphData.edges.filter((e: { from: string; to: string }) => {
-        if (config.independentFoundational.has(e.to)) {
-          console.warn(`[IPA/LTA] Independence rule: removed edge ${e.from} -> ${e.to} (target is foundational)`);
-          return false;
-        }
-        return true;
-      });
-      if (graphData.edges.length < beforeIndep) {
-        console.log(`[IPA/LTA] Independence rule: removed ${beforeIndep - graphData.edges.length} edges pointing into foundational skills`);
-      }
-    }
+    const { questions, existingNodes, topicMap, domain = DEFAULT_DOMAIN, domainVersion, forceRefresh = false, stream = false, includeTrace = false, promptVersion = CURRENT_PROMPT_VERSION } = body;
     
-    // Inject mandatory edges
-    if (graphData.globalNodes && Array.isArray(graphData.globalNodes) && graphData.edges && Array.isArray(graphData.edges)) {
-      const allNodesForInjection = [...graphData.globalNodes];
-      if (existingNodes) {
-        for (const en of existingNodes) {
-          if (!allNodesForInjection.some((n: { id: string }) => n.id === en.id)) {
-            allNodesForInjection.push(en as any);
-          }
-        }
-      }
-      graphData.edges = injectMandatoryEdges(allNodesForInjection, graphData.edges, config);
+    if (!questions || !Array.isArray(questions) || questions.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "No questions provided" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    // Post-processing: strip bidirectional edges to enforce DAG
-    if (graphData.edges && Array.isArray(graphData.edges)) {
-      const edgeSet = new Set<string>();
-      graphData.edges = graphData.edges.filter((edge: { from: string; to: string }) => {
-        const key = `${edge.from}:${edge.to}`;
-        const reverseKey = `${edge.to}:${edge.from}`;
-        if (edgeSet.has(key) || edgeSet.has(reverseKey) || edge.from === edge.to) {
-          console.warn(`[IPA/LTA] Stripped cycle/duplicate edge: ${edge.from} -> ${edge.to}`);
-          return false;
-        }
-        edgeSet.add(key);
-        return true;
-      });
-
-      graphData.edges = transitiveReduce(graphData.edges);
-      graphData.edges = breakCycles(graphData.edges);
+    if (!isPromptVersion(promptVersion)) {
+      return new Response(
+        JSON.stringify({ error: unknownPromptVersionMessage(promptVersion) }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-      if (graphData.globalNodes && Array.isArray(graphData.globalNodes)) {
-        const nodeIds = new Set(graphData.globalNodes.map((n: { id: string }) => n.id));
-        if (existingNodes) {
-          for (const en of existingNodes) nodeIds.add(en.id);
-        }
-        const beforeOrphan = graphData.edges.length;
-        graphData.edges = graphData.edges.filter((e: { from: string; to: string }) => 
-          nodeIds.has(e.from) && nodeIds.has(e.to)
-        );
-        if (graphData.edges.length < beforeOrphan) {
-          console.warn(`[IPA/LTA] Orphan cleanup: removed ${beforeOrphan - graphData.edges.length} dangling edges`);
-        }
+    let config: DomainConfig;
+    try {
+      config = await loadDomainConfig(createServiceClient(), domain, domainVersion);
+    } catch (configErr) {
+      console.error("[IPA/LTA] Domain config error:", configErr);
+      return new Response(
+        JSON.stringify({ error: configErr instanceof Error ? configErr.message : "Unknown domain" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    
+    const llm = withResponseCache(createLlmProvider("[IPA/LTA]"), { functionName: "generate-graph", forceRefresh });
 
-        recomputeLevels(graphData.globalNodes, graphData.edges);
-      }
+    const request: GenerationRequest = { questions, existingNodes, topicMap, includeTrace, promptVersion, config, llm };
+    if (stream) {
+      return streamGeneration(request);
     }
 
-    const nodeCount = graphData.globalNodes?.length || 0;
-    const edgeCount = graphData.edges?.length || 0;
-    const questionCount = Object.keys(graphData.questionPaths || {}).length;
-    const ipaCount = Object.keys(graphData.ipaByQuestion || {}).length;
-    const edgeDensity = nodeCount > 0 ? (edgeCount / nodeCount).toFixed(2) : 0;
-    
-    console.log(`[IPA/LTA] Generated knowledge graph:`);
-    console.log(`  - Skills: ${nodeCount} (target: ${targetMinSkills}-${targetMaxSkills})`);
-    console.log(`  - Edges: ${edgeCount} (density: ${edgeDensity} per node)`);
-    console.log(`  - Question mappings: ${questionCount}`);
-    console.log(`  - IPA traces: ${ipaCount}`);
+    const graphData = await generateGraph(request, () => {});
 
     return new Response(JSON.stringify(graphData), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error) {
     console.error("[IPA/LTA] generate-graph error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return llmErrorResponse(error, corsHeaders);
   }
 });
@@ -0,0 +1,687 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { createServiceClient } from "../_shared/domainConfig.ts";
+import { isPromptVersion, unknownPromptVersionMessage } from "../_shared/promptVersions.ts";
+
+// ============================================================
+// GENERATION JOBS
+// ============================================================
+//
+// Runs the graph-generation batch loop server-side. A job row holds the
+// questions and run settings; generation_job_batches holds one row per batch
+// with its status, attempts and generate-graph result. Clients only create
+// and control jobs, and follow them over realtime. Batches call generate-graph
+// in streaming mode and its progress events land in generation_job_events.
+//
+// A worker invocation claims the job through a lease, processes waves of
+// batches until its time budget is spent, then releases the lease and hands
+// the job to a fresh invocation ("continue"). Retry back-off never sleeps past
+// the budget: a batch that would wait longer goes back to pending with a
+// retry_after time and the next worker picks it up. If a worker dies, the
+// lease expires and any client watching the job can "resume" it.
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+// Batch sizing (previously in useBatchGeneration)
+const BASE_BATCH_SIZE = 5;
+const MIN_BATCH_SIZE = 3;
+const DELAY_BETWEEN_BATCHES_MS = 800;
+const TURBO_BATCH_SIZE = 5;
+const TURBO_CONCURRENCY = 4;
+const TURBO_DELAY_MS = 300;
+const EXISTING_NODES_CAP = 80;
+
+// Retries
+const MAX_BATCH_ATTEMPTS = 3;          // generate-graph calls per batch before it is marked failed
+const MAX_RETRY_BATCHES = 10;          // Failed batches requeued once at the end of a run
+const RETRY_FAILURE_RATE_LIMIT = 0.5;  // Above this the API is likely down; skip the retry wave
+
+// Worker lifetime
+const WORKER_BUDGET_MS = 60_000;       // No new wave, attempt or sleep runs past this; the job is handed on
+const LEASE_MS = 5 * 60_000;           // Longer than any single invocation can run
+
+const ACTIVE_STATUSES = ["queued", "classifying", "running"];
+
+type JobStatus = "queued" | "classifying" | "running" | "paused" | "completed" | "failed" | "cancelled";
+
+interface NodeSummary {
+  id: string;
+  name: string;
+  tier?: string;
+  description?: string;
+}
+
+interface JobRow {
+  id: string;
+  graph_id: string | null;
+  status: JobStatus;
+  domain: string | null;
+  turbo: boolean;
+  force_refresh: boolean;
+  include_trace: boolean;
+  prompt_version: string | null;
+  questions: string[];
+  topic_map: Record<string, string> | null;
+  existing_nodes: NodeSummary[];
+  total_batches: number;
+}
+
+interface BatchResult {
+  globalNodes?: NodeSummary[];
+  error?: string;
+}
+
+interface BatchRow {
+  id: string;
+  batch_index: number;
+  questions: string[];
+  topic_map: Record<string, string> | null;
+  attempts: number;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Sleep, but never past the worker's deadline
+function sleepUntilDeadline(ms: number, deadline: number): Promise<void> {
+  return sleep(Math.max(0, Math.min(ms, deadline - Date.now())));
+}
+
+function retryDelayMs(attempt: number, status: number | undefined): number {
+  return status === 429 ? Math.pow(2, attempt) * 30_000 : 5_000;
+}
+
+function getAdaptiveBatchSize(existingNodeCount: number): number {
+  if (existingNodeCount > 50) return MIN_BATCH_SIZE;
+  if (existingNodeCount > 20) return 4;
+  if (existingNodeCount > 10) return 5;
+  return BASE_BATCH_SIZE;
+}
+
+function capExistingNodes(nodes: NodeSummary[]): NodeSummary[] | undefined {
+  if (nodes.length === 0) return undefined;
+  if (nodes.length <= EXISTING_NODES_CAP) return nodes;
+  return nodes.slice(-EXISTING_NODES_CAP);
+}
+
+interface StreamOutcome {
+  data: BatchResult | null;
+  error: string | null;
+  status?: number;
+}
+
+/**
+ * Call generate-graph in streaming mode. Progress events are recorded in
+ * generation_job_events as they arrive so clients can follow the batch live;
+ * the final "result" line carries the batch graph.
+ */
+async function streamGenerateGraph(
+  supabase: SupabaseClient,
+  jobId: string,
+  batchIndex: number,
+  body: Record<string, unknown>
+): Promise<StreamOutcome> {
+  const res = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/generate-graph`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+  });
+
+  // Validation and config errors are returned before streaming starts
+  if (!res.ok || !res.body) {
+    const errBody = await res.json().catch(() => null) as { error?: string } | null;
+    return { data: null, error: errBody?.error || `generate-graph returned ${res.status}`, status: res.status };
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  let outcome: StreamOutcome = { data: null, error: "Stream ended without a result" };
+
+  const handleLine = async (line: string) => {
+    if (!line.trim()) return;
+    const event = JSON.parse(line) as { type: string; graph?: BatchResult; error?: string; status?: number };
+    if (event.type === "result") {
+      outcome = { data: event.graph ?? null, error: null };
+    } else if (event.type === "error") {
+      outcome = { data: null, error: event.error || "Unknown error", status: event.status };
+    } else {
+      const { type, ...payload } = event;
+      const { error } = await supabase
+        .from("generation_job_events")
+        .insert({ job_id: jobId, batch_index: batchIndex, event_type: type, payload });
+      if (error) console.error(`[generation-jobs] ${jobId}: failed to record ${type} event:`, error);
+    }
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffered += value;
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    for (const line of lines) await handleLine(line);
+  }
+  await handleLine(buffered);
+
+  return outcome;
+}
+
+// ─── Job state ───
+
+async function loadJob(supabase: SupabaseClient, jobId: string): Promise<JobRow | null> {
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .select("id, graph_id, status, domain, turbo, force_refresh, include_trace, prompt_version, questions, topic_map, existing_nodes, total_batches")
+    .eq("id", jobId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as JobRow | null;
+}
+
+async function updateJob(supabase: SupabaseClient, jobId: string, fields: Record<string, unknown>) {
+  const { error } = await supabase.from("generation_jobs").update(fields).eq("id", jobId);
+  if (error) throw error;
+}
+
+/**
+ * Take the job's lease. Fails when another live worker holds it or the job
+ * is not active.
+ */
+async function claimLease(supabase: SupabaseClient, jobId: string): Promise<boolean> {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .update({
+      lease_expires_at: new Date(now.getTime() + LEASE_MS).toISOString(),
+      heartbeat_at: now.toISOString(),
+    })
+    .eq("id", jobId)
+    .in("status", ACTIVE_STATUSES)
+    .or(`lease_expires_at.is.null,lease_expires_at.lt.${now.toISOString()}`)
+    .select("id");
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+function heartbeat(supabase: SupabaseClient, jobId: string, fields: Record<string, unknown> = {}) {
+  const now = Date.now();
+  return updateJob(supabase, jobId, {
+    ...fields,
+    heartbeat_at: new Date(now).toISOString(),
+    lease_expires_at: new Date(now + LEASE_MS).toISOString(),
+  });
+}
+
+/**
+ * Recount batch outcomes onto the job row
+ */
+async function syncCounters(supabase: SupabaseClient, job: JobRow, accumulated: NodeSummary[]) {
+  const { data, error } = await supabase
+    .from("generation_job_batches")
+    .select("status")
+    .eq("job_id", job.id);
+  if (error) throw error;
+  const rows = data || [];
+  const counters = {
+    completed_batches: rows.filter(r => r.status === "completed").length,
+    failed_batches: rows.filter(r => r.status === "failed").length,
+    skills_discovered: Math.max(0, accumulated.length - job.existing_nodes.length),
+  };
+  await heartbeat(supabase, job.id, counters);
+  return counters;
+}
+
+// ─── Planning ───
+
+/**
+ * Classify untagged turbo runs, then split the questions into batch rows
+ */
+async function planBatches(supabase: SupabaseClient, job: JobRow): Promise<number> {
+  let topicMap = job.topic_map || {};
+  const hasRealTopics = Object.values(topicMap).some(t => t !== "General");
+
+  if (job.turbo && !hasRealTopics) {
+    await updateJob(supabase, job.id, { status: "classifying" });
+    const { data, error } = await supabase.functions.invoke("classify-questions", {
+      body: { questions: job.questions, domain: job.domain || "python", forceRefresh: job.force_refresh },
+    });
+    if (error || data?.error) {
+      // Generation still works without topics
+      console.warn(`[generation-jobs] ${job.id}: classification failed, continuing without topics:`, error || data.error);
+    } else {
+      topicMap = data?.topicMap || {};
+      console.log(`[generation-jobs] ${job.id}: classified ${Object.keys(topicMap).length} questions`);
+    }
+  }
+
+  const batchSize = job.turbo ? TURBO_BATCH_SIZE : getAdaptiveBatchSize(job.existing_nodes.length);
+  const rows = [];
+  for (let i = 0; i < job.questions.length; i += batchSize) {
+    const batchMap: Record<string, string> = {};
+    for (let j = 0; j < batchSize && i + j < job.questions.length; j++) {
+      const topic = topicMap[String(i + j)];
+      if (topic) batchMap[String(j)] = topic;
+    }
+    rows.push({
+      job_id: job.id,
+      batch_index: rows.length,
+      questions: job.questions.slice(i, i + batchSize),
+      topic_map: batchMap,
+    });
+  }
+
+  // Ignore rows a previous worker inserted before it died
+  const { error } = await supabase
+    .from("generation_job_batches")
+    .upsert(rows, { onConflict: "job_id,batch_index", ignoreDuplicates: true });
+  if (error) throw error;
+
+  await updateJob(supabase, job.id, {
+    status: "running",
+    topic_map: topicMap,
+    total_batches: rows.length,
+    started_at: new Date().toISOString(),
+  });
+  console.log(`[generation-jobs] ${job.id}: planned ${rows.length} batches of ${batchSize} (${job.turbo ? "turbo" : "standard"})`);
+  return rows.length;
+}
+
+// ─── Batch execution ───
+
+async function loadAccumulatedNodes(supabase: SupabaseClient, job: JobRow): Promise<NodeSummary[]> {
+  const { data, error } = await supabase
+    .from("generation_job_batches")
+    .select("batch_index, nodes:result->globalNodes")
+    .eq("job_id", job.id)
+    .eq("status", "completed")
+    .order("batch_index");
+  if (error) throw error;
+
+  const accumulated = [...job.existing_nodes];
+  for (const row of data || []) {
+    mergeNodeSummaries(accumulated, (row.nodes as NodeSummary[] | null) || []);
+  }
+  return accumulated;
+}
+
+function mergeNodeSummaries(accumulated: NodeSummary[], nodes: NodeSummary[]) {
+  for (const node of nodes) {
+    if (!accumulated.some(n => n.id === node.id)) {
+      accumulated.push({ id: node.id, name: node.name, tier: node.tier, description: node.description });
+    }
+  }
+}
+
+/**
+ * Run one batch through generate-graph with retries, recording the outcome
+ * on its row. Returns the result, or null when every attempt failed or the
+ * batch was deferred because its back-off would run past `deadline`.
+ */
+async function runBatch(
+  supabase: SupabaseClient,
+  job: JobRow,
+  batch: BatchRow,
+  accumulated: NodeSummary[],
+  deadline: number,
+  onRateLimit: () => void
+): Promise<BatchResult | null> {
+  const hasTopics = Object.values(batch.topic_map || {}).some(t => t !== "General");
+  let attempts = batch.attempts;
+  let lastError = "";
+
+  // A deferred batch continues its round of attempts where it stopped
+  for (let attempt = batch.attempts % MAX_BATCH_ATTEMPTS; attempt < MAX_BATCH_ATTEMPTS; attempt++) {
+    attempts++;
+    await supabase
+      .from("generation_job_batches")
+      .update({ status: "running", attempts, retry_after: null, started_at: new Date().toISOString() })
+      .eq("id", batch.id);
+
+    let outcome: StreamOutcome;
+    try {
+      outcome = await streamGenerateGraph(supabase, job.id, batch.batch_index, {
+        questions: batch.questions,
+        existingNodes: capExistingNodes(accumulated),
+        ...(hasTopics ? { topicMap: batch.topic_map } : {}),
+        ...(job.domain ? { domain: job.domain } : {}),
+        ...(job.force_refresh ? { forceRefresh: true } : {}),
+        ...(job.include_trace ? { includeTrace: true } : {}),
+        ...(job.prompt_version ? { promptVersion: job.prompt_version } : {}),
+      });
+    } catch (streamErr) {
+      outcome = { data: null, error: streamErr instanceof Error ? streamErr.message : "Stream failed" };
+    }
+    const { data, error, status } = outcome;
+
+    if (!error && data && !data.error) {
+      await supabase
+        .from("generation_job_batches")
+        .update({
+          status: "completed",
+          result: data,
+          error: null,
+          skills_proposed: (data.globalNodes || []).length,
+          completed_at: new Date().toISOString(),
+        })
+        .eq("id", batch.id);
+      return data;
+    }
+
+    lastError = data?.error || error || "Unknown error";
+    console.warn(`[generation-jobs] ${job.id}: batch ${batch.batch_index} attempt ${attempts} failed (${status ?? "no status"}): ${lastError}`);
+    if (status === 429) onRateLimit();
+    if (attempt === MAX_BATCH_ATTEMPTS - 1) break;
+
+    const delay = retryDelayMs(attempt, status);
+    if (Date.now() + delay > deadline) {
+      await supabase
+        .from("generation_job_batches")
+        .update({ status: "pending", error: lastError, retry_after: new Date(Date.now() + delay).toISOString() })
+        .eq("id", batch.id);
+      console.log(`[generation-jobs] ${job.id}: batch ${batch.batch_index} deferred ${Math.round(delay / 1000)}s past this worker`);
+      return null;
+    }
+    await sleep(delay);
+  }
+
+  await supabase
+    .from("generation_job_batches")
+    .update({ status: "failed", error: lastError, completed_at: new Date().toISOString() })
+    .eq("id", batch.id);
+  return null;
+}
+
+/**
+ * Requeue failed batches once, unless most of the run failed
+ */
+async function queueRetryWave(supabase: SupabaseClient, job: JobRow, totalBatches: number): Promise<boolean> {
+  const { data: failed, error } = await supabase
+    .from("generation_job_batches")
+    .select("id, attempts")
+    .eq("job_id", job.id)
+    .eq("status", "failed")
+    .order("batch_index");
+  if (error) throw error;
+
+  const retryable = (failed || []).filter(b => b.attempts <= MAX_BATCH_ATTEMPTS);
+  if (retryable.length === 0) return false;
+  if ((failed || []).length / Math.max(1, totalBatches) > RETRY_FAILURE_RATE_LIMIT) {
+    console.error(`[generation-jobs] ${job.id}: ${(failed || []).length}/${totalBatches} batches failed, skipping retry wave`);
+    return false;
+  }
+
+  const ids = retryable.slice(0, MAX_RETRY_BATCHES).map(b => b.id);
+  const { error: requeueError } = await supabase
+    .from("generation_job_batches")
+    .update({ status: "pending" })
+    .in("id", ids);
+  if (requeueError) throw requeueError;
+  console.log(`[generation-jobs] ${job.id}: retrying ${ids.length} failed batches`);
+  return true;
+}
+
+// ─── Worker ───
+
+async function handOff(jobId: string) {
+  const res = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/generation-jobs`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+    },
+    body: JSON.stringify({ action: "continue", jobId }),
+  });
+  await res.body?.cancel();
+}
+
+async function runJob(jobId: string) {
+  const supabase = createServiceClient();
+  const deadline = Date.now() + WORKER_BUDGET_MS;
+
+  if (!await claimLease(supabase, jobId)) {
+    console.log(`[generation-jobs] ${jobId}: lease held elsewhere or job inactive`);
+    return;
+  }
+
+  let handedOff = false;
+  try {
+    let job = await loadJob(supabase, jobId);
+    if (!job) return;
+
+    const totalBatches = job.total_batches || await planBatches(supabase, job);
+    job = (await loadJob(supabase, jobId))!;
+
+    // Batches left running by a worker that died go back in the queue
+    await supabase
+      .from("generation_job_batches")
+      .update({ status: "pending" })
+      .eq("job_id", jobId)
+      .eq("status", "running");
+
+    const accumulated = await loadAccumulatedNodes(supabase, job);
+    const concurrency = job.turbo ? TURBO_CONCURRENCY : 1;
+    const delayMs = job.turbo ? TURBO_DELAY_MS : DELAY_BETWEEN_BATCHES_MS;
+
+    while (true) {
+      const { data: statusRow } = await supabase.from("generation_jobs").select("status").eq("id", jobId).single();
+      if (statusRow?.status !== "running") {
+        console.log(`[generation-jobs] ${jobId}: stopped (${statusRow?.status})`);
+        return;
+      }
+
+      if (Date.now() >= deadline) {
+        await updateJob(supabase, jobId, { lease_expires_at: null });
+        handedOff = true;
+        await handOff(jobId);
+        return;
+      }
+
+      const { data: wave, error: waveError } = await supabase
+        .from("generation_job_batches")
+        .select("id, batch_index, questions, topic_map, attempts")
+        .eq("job_id", jobId)
+        .eq("status", "pending")
+        .or(`retry_after.is.null,retry_after.lte.${new Date().toISOString()}`)
+        .order("batch_index")
+        .limit(concurrency);
+      if (waveError) throw waveError;
+
+      if (!wave || wave.length === 0) {
+        // Deferred batches still backing off: wait for the first, or hand on at the deadline
+        const { data: waiting, error: waitingError } = await supabase
+          .from("generation_job_batches")
+          .select("retry_after")
+          .eq("job_id", jobId)
+          .eq("status", "pending")
+          .order("retry_after")
+          .limit(1);
+        if (waitingError) throw waitingError;
+        if (waiting && waiting.length > 0) {
+          await sleepUntilDeadline(Date.parse(waiting[0].retry_after) - Date.now(), deadline);
+          continue;
+        }
+
+        if (await queueRetryWave(supabase, job, totalBatches)) continue;
+
+        const counters = await syncCounters(supabase, job, accumulated);
+        const status: JobStatus = counters.completed_batches === 0 && counters.failed_batches > 0 ? "failed" : "completed";
+        await updateJob(supabase, jobId, {
+          status,
+          error: status === "failed" ? "Every batch failed" : null,
+          completed_at: new Date().toISOString(),
+          lease_expires_at: null,
+        });
+        console.log(`[generation-jobs] ${jobId}: ${status} (${counters.completed_batches} completed, ${counters.failed_batches} failed, ${counters.skills_discovered} new skills)`);
+        return;
+      }
+
+      // Every batch in a wave sees the same accumulated skills, as in the old client loop
+      const waveStart = Date.now();
+      const context = [...accumulated];
+      let rateLimited = false;
+      const results = await Promise.all(
+        (wave as BatchRow[]).map(batch => runBatch(supabase, job!, batch, context, deadline, () => { rateLimited = true; }))
+      );
+      for (const result of results) {
+        if (result) mergeNodeSummaries(accumulated, result.globalNodes || []);
+      }
+
+      await syncCounters(supabase, job, accumulated);
+      console.log(`[generation-jobs] ${jobId}: wave of ${wave.length} finished in ${((Date.now() - waveStart) / 1000).toFixed(1)}s`);
+
+      if (rateLimited) await sleepUntilDeadline(30_000, deadline);
+      await sleepUntilDeadline(delayMs, deadline);
+    }
+  } catch (err) {
+    console.error(`[generation-jobs] ${jobId}: worker error:`, err);
+    await updateJob(supabase, jobId, {
+      status: "failed",
+      error: err instanceof Error ? err.message : "Worker error",
+      lease_expires_at: null,
+    }).catch(() => {});
+  } finally {
+    if (!handedOff) {
+      await supabase.from("generation_jobs").update({ lease_expires_at: null }).eq("id", jobId);
+    }
+  }
+}
+
+// ─── Actions ───
+
+async function startJob(supabase: SupabaseClient, body: Record<string, unknown>) {
+  const questions = body.questions as string[] | undefined;
+  if (!Array.isArray(questions) || questions.length === 0) {
+    return jsonResponse({ error: "No questions provided" }, 400);
+  }
+  const promptVersion = body.promptVersion as string | undefined;
+  if (promptVersion && !isPromptVersion(promptVersion)) {
+    return jsonResponse({ error: unknownPromptVersionMessage(promptVersion) }, 400);
+  }
+
+  const { data, error } = await supabase
+    .from("generation_jobs")
+    .insert({
+      graph_id: (body.graphId as string) || null,
+      domain: (body.domain as string) || null,
+      turbo: !!body.turbo,
+      force_refresh: !!body.forceRefresh,
+      include_trace: !!body.includeTrace,
+      prompt_version: promptVersion || null,
+      questions,
+      topic_map: (body.topicMap as Record<string, string>) || null,
+      existing_nodes: (body.existingNodes as NodeSummary[]) || [],
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+
+  EdgeRuntime.waitUntil(runJob(data.id));
+  return jsonResponse({ jobId: data.id });
+}
+
+async function resumeJob(supabase: SupabaseClient, jobId: string) {
+  const job = await loadJob(supabase, jobId);
+  if (!job) return jsonResponse({ error: "Job not found" }, 404);
+  if (job.status === "cancelled" || job.status === "completed") {
+    return jsonResponse({ error: `Job is ${job.status}` }, 409);
+  }
+
+  if (job.status === "paused" || job.status === "failed") {
+    // A job that failed before planning starts over from planning
+    await updateJob(supabase, jobId, { status: job.total_batches > 0 ? "running" : "queued", error: null });
+  }
+  EdgeRuntime.waitUntil(runJob(jobId));
+  return jsonResponse({ jobId });
+}
+
+async function retryFailedBatches(supabase: SupabaseClient, jobId: string) {
+  const { data, error } = await supabase
+    .from("generation_job_batches")
+    .update({ status: "pending", attempts: 0, error: null, retry_after: null })
+    .eq("job_id", jobId)
+    .eq("status", "failed")
+    .select("id");
+  if (error) throw error;
+  const requeued = (data || []).length;
+  // Nothing failed at batch level (e.g. the worker itself crashed): just resume
+  if (requeued === 0) return await resumeJob(supabase, jobId);
+
+  await updateJob(supabase, jobId, {
+    status: "running",
+    error: null,
+    completed_at: null,
+    applied_at: null,
+    failed_batches: 0,
+  });
+  EdgeRuntime.waitUntil(runJob(jobId));
+  return jsonResponse({ jobId, requeued });
+}
+
+async function setStatus(supabase: SupabaseClient, jobId: string, status: "paused" | "cancelled") {
+  const allowed = status === "paused" ? ACTIVE_STATUSES : [...ACTIVE_STATUSES, "paused", "failed", "completed"];
+  const { error } = await supabase
+    .from("generation_jobs")
+    .update({ status })
+    .eq("id", jobId)
+    .in("status", allowed);
+  if (error) throw error;
+  return jsonResponse({ jobId, status });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid JSON in request body" }, 400);
+    }
+
+    const supabase = createServiceClient();
+    const action = body.action as string;
+    const jobId = body.jobId as string | undefined;
+
+    if (action === "start") return await startJob(supabase, body);
+    if (!jobId) return jsonResponse({ error: "jobId required" }, 400);
+
+    switch (action) {
+      case "continue":
+        EdgeRuntime.waitUntil(runJob(jobId));
+        return jsonResponse({ jobId });
+      case "resume":
+        return await resumeJob(supabase, jobId);
+      case "retry":
+        return await retryFailedBatches(supabase, jobId);
+      case "pause":
+        return await setStatus(supabase, jobId, "paused");
+      case "cancel":
+        return await setStatus(supabase, jobId, "cancelled");
+      default:
+        return jsonResponse({ error: `Unknown action "${action}"` }, 400);
+    }
+  } catch (error) {
+    console.error("generation-jobs error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
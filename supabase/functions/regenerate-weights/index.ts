@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { withResponseCache } from "../_shared/aiCache.ts";
+import { createLlmProvider, extractJsonFromResponse, llmErrorResponse } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -50,45 +52,13 @@ interface QuestionInput {
   skills: string[];
 }
 
-function extractJsonFromResponse(response: string): any {
-  let cleaned = response
-    .replace(/```json\s*/gi, "")
-    .replace(/```\s*/g, "")
-    .trim();
-
-  const jsonStart = cleaned.indexOf("{");
-  const jsonEnd = cleaned.lastIndexOf("}");
-
-  if (jsonStart === -1 || jsonEnd === -1) {
-    throw new Error("No JSON object found in response");
-  }
-  
-  cleaned = cleaned.substring(jsonStart, jsonEnd + 1);
-  cleaned = cleaned
-    .replace(/\r\n/g, "\n")
-    .replace(/\r/g, "\n")
-    .replace(/\n+/g, " ")
-    .replace(/\t+/g, " ")
-    .trim();
-
-  try {
-    return JSON.parse(cleaned);
-  } catch (e) {
-    cleaned = cleaned
-      .replace(/,\s*}/g, "}")
-      .replace(/,\s*]/g, "]")
-      .replace(/[\x00-\x1F\x7F]/g, "");
-    return JSON.parse(cleaned);
-  }
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    let body: { questions?: QuestionInput[] };
+    let body: { questions?: QuestionInput[]; forceRefresh?: boolean };
     try {
       const text = await req.text();
       if (!text || text.trim() === '') {
@@ -106,7 +76,7 @@ serve(async (req) => {
       );
     }
     
-    const { questions } = body;
+    const { questions, forceRefresh = false } = body;
     
     if (!questions || !Array.isArray(questions) || questions.length === 0) {
       return new Response(
@@ -115,11 +85,7 @@ serve(async (req) => {
       );
     }
     
-    const OPENROUTER_API_KEY = Deno.env.get("OPENROUTER_API_KEY");
-    
-    if (!OPENROUTER_API_KEY) {
-      throw new Error("OPENROUTER_API_KEY is not configured");
-    }
+    const llm = withResponseCache(createLlmProvider("[regenerate-weights]"), { functionName: "regenerate-weights", forceRefresh });
 
     console.log(`[regenerate-weights] Analyzing ${questions.length} questions for primary skills and weights`);
 
@@ -142,71 +108,18 @@ For each question, distribute weight equally among all skills (1/n each, summing
 
 Return JSON with the NUMERIC INDEX (1, 2, 3, etc.) as keys. Do NOT use any other identifiers.`;
 
-    const model = "deepseek/deepseek-v3.2";
     const maxTokens = Math.min(4000 + questions.length * 200, 16000);
-    
-    const MAX_RETRIES = 3;
-    let response: Response | null = null;
-
-    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-      response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${OPENROUTER_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model,
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userPrompt },
-          ],
-          max_tokens: maxTokens,
-          temperature: 0.1,
-        }),
-      });
-
-      if (response.ok) break;
-
-      const errorData = await response.json().catch(() => ({}));
-      console.error(`[regenerate-weights] AI error (attempt ${attempt}/${MAX_RETRIES}):`, response.status, JSON.stringify(errorData));
-
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Too many requests. Please wait and try again." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-
-      // Retry on 5xx errors (transient)
-      if (response.status >= 500 && attempt < MAX_RETRIES) {
-        const delay = attempt * 2000;
-        console.log(`[regenerate-weights] Retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        continue;
-      }
 
-      return new Response(JSON.stringify({ error: errorData.error?.message || "AI processing failed" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    if (!response || !response.ok) {
-      return new Response(JSON.stringify({ error: "AI processing failed after retries" }), {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-
-    if (!content) {
-      throw new Error("No content in AI response");
-    }
+    const { content } = await llm.complete({
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      maxTokens,
+      temperature: 0.1,
+    });
 
-    const rawData = extractJsonFromResponse(content);
+    const rawData = extractJsonFromResponse(content, "[regenerate-weights]") as Record<string, unknown>;
     
     // Remap numeric indices back to real UUIDs
     const weightData: Record<string, any> = {};
@@ -236,12 +149,6 @@ Return JSON with the NUMERIC INDEX (1, 2, 3, etc.) as keys. Do NOT use any other
     });
   } catch (error) {
     console.error("[regenerate-weights] error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return llmErrorResponse(error, corsHeaders);
   }
 });
@@ -0,0 +1,10 @@
+-- Per-graph retention decay settings (FSRS-style stability model)
+-- NULL = use application defaults (decay disabled)
+ALTER TABLE public.knowledge_graphs
+  ADD COLUMN IF NOT EXISTS decay_config jsonb DEFAULT NULL;
+
+COMMENT ON COLUMN public.knowledge_graphs.decay_config IS 'Retention decay toggle and parameters: enabled, initialStability, decay, growth, stabilityDamping, retrievabilityGain, lapseFactor, minStability';
+
+-- Stability is now tracked in days and starts at the initial stability
+ALTER TABLE public.student_kp_mastery
+  ALTER COLUMN stability SET DEFAULT 14.0;
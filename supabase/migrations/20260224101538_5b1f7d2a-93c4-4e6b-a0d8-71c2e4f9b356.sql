@@ -0,0 +1,21 @@
+-- Fitted Bayesian Knowledge Tracing parameters per skill
+CREATE TABLE public.skill_bkt_params (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  graph_id UUID NOT NULL REFERENCES public.knowledge_graphs(id) ON DELETE CASCADE,
+  skill_id TEXT NOT NULL,
+  prior NUMERIC NOT NULL,
+  learn NUMERIC NOT NULL,
+  guess NUMERIC NOT NULL,
+  slip NUMERIC NOT NULL,
+  observation_count INTEGER NOT NULL DEFAULT 0,
+  log_likelihood NUMERIC,
+  fitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(graph_id, skill_id)
+);
+
+ALTER TABLE public.skill_bkt_params ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on skill_bkt_params" ON public.skill_bkt_params
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_skill_bkt_params_graph ON public.skill_bkt_params(graph_id);
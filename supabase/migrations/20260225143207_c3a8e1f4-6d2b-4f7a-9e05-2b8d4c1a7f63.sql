@@ -0,0 +1,11 @@
+-- Empirical (IRT) question difficulty calibrated from student attempts
+ALTER TABLE public.questions
+  ADD COLUMN irt_difficulty NUMERIC DEFAULT NULL,
+  ADD COLUMN irt_discrimination NUMERIC DEFAULT NULL,
+  ADD COLUMN irt_model TEXT DEFAULT NULL,
+  ADD COLUMN irt_response_count INTEGER DEFAULT NULL,
+  ADD COLUMN irt_calibrated_at TIMESTAMP WITH TIME ZONE DEFAULT NULL;
+
+COMMENT ON COLUMN public.questions.irt_difficulty IS 'IRT difficulty (b) on the ability logit scale; higher = harder';
+COMMENT ON COLUMN public.questions.irt_discrimination IS 'IRT discrimination (a); 1.0 under the 1PL model';
+COMMENT ON COLUMN public.questions.irt_model IS 'Model used for calibration: 1pl or 2pl';
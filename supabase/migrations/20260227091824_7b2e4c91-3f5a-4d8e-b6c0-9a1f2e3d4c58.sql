@@ -0,0 +1,19 @@
+-- Attempt count per KP so unassessed skills can be told apart from failed ones
+ALTER TABLE public.student_kp_mastery
+  ADD COLUMN attempt_count INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.student_kp_mastery.attempt_count IS 'Attempts on questions mapped to this KP; 0 = no direct evidence';
+
+-- Backfill from the attempt log
+UPDATE public.student_kp_mastery m
+SET attempt_count = counts.n
+FROM (
+  SELECT a.graph_id, a.student_id, s.skill_id, COUNT(*) AS n
+  FROM public.student_attempts a
+  JOIN public.questions q ON q.id = a.question_id
+  CROSS JOIN LATERAL unnest(q.skills) AS s(skill_id)
+  GROUP BY a.graph_id, a.student_id, s.skill_id
+) counts
+WHERE m.graph_id = counts.graph_id
+  AND m.student_id = counts.student_id
+  AND m.skill_id = counts.skill_id;
@@ -0,0 +1,5 @@
+-- Per-graph policy for how much credit a correct answer earns
+ALTER TABLE public.knowledge_graphs
+  ADD COLUMN IF NOT EXISTS credit_policy jsonb DEFAULT NULL;
+
+COMMENT ON COLUMN public.knowledge_graphs.credit_policy IS 'Mastery crediting policy: scaleByIndependence, applyLevelMultipliers';
@@ -0,0 +1,5 @@
+-- Per-dimension coding rubric marks for an attempt (CODING_RUBRIC_DIMENSIONS)
+ALTER TABLE public.student_attempts
+  ADD COLUMN IF NOT EXISTS rubric_marks jsonb DEFAULT NULL;
+
+COMMENT ON COLUMN public.student_attempts.rubric_marks IS 'Rubric marks keyed by dimension (programming, analytical, optimization, design); solution_score is their share of the maximum';
@@ -0,0 +1,791 @@
+-- Versioned domain configurations shared by the graph-generation edge functions
+CREATE TABLE public.domain_configs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  domain TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  label TEXT NOT NULL,
+  config JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(domain, version)
+);
+
+COMMENT ON COLUMN public.domain_configs.config IS 'skillCatalog, scopeConstraint, curriculumSequence, inputFormatDescription, exampleIPA, curriculumTopics, skillTopicMap, independentFoundational, mandatoryEdges, grouping';
+COMMENT ON COLUMN public.domain_configs.is_active IS 'Edge functions use the highest active version of a domain unless a version is requested';
+
+ALTER TABLE public.domain_configs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on domain_configs" ON public.domain_configs
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_domain_configs_domain ON public.domain_configs(domain, version DESC);
+
+-- Seed with the configurations previously hard-coded in generate-graph,
+-- classify-questions and auto-group-skills
+INSERT INTO public.domain_configs (domain, version, label, config, notes) VALUES (
+  'python', 1, 'Python', $config${
+  "skillCatalog": "\n=== REFERENCE SKILL CATALOG (MAP TO THESE FIRST) ===\n\nBefore creating ANY new skill, check if it maps to this catalog:\n\nFOUNDATIONAL (Level 0):\n- variable_assignment: Storing values in named containers\n- arithmetic_operations: +, -, *, /, %, //\n- comparison_operators: ==, !=, <, >, <=, >=\n- boolean_logic: and, or, not operations\n- type_recognition: Identifying int, str, list, dict, etc.\n\nCORE (Level 1-2):\n- conditional_branching: if/elif/else control flow\n- loop_iteration: for and while loops\n- list_operations: indexing, slicing, append, extend\n- dictionary_operations: key access, update, iteration\n- string_methods: split, join, strip, replace, find\n- function_definition: def, parameters, return\n- function_calls: invoking functions with arguments\n\nAPPLIED (Level 3-4):\n- nested_iteration: loops within loops\n- accumulator_pattern: building results through iteration\n- search_pattern: finding elements in collections\n- filter_pattern: selecting elements by condition\n- transform_pattern: mapping elements to new values\n- input_parsing: converting string input to structured data\n- output_formatting: building formatted string output\n\nADVANCED (Level 5+):\n- recursion: self-referential function calls\n- list_comprehension: compact list building syntax\n- file_io: reading and writing files\n- exception_handling: try/except/finally\n- class_definition: OOP class creation\n- object_methods: instance methods and attributes\n\nONLY create a new skill if NONE of the above apply.\nWhen creating new skills, they must be AT THIS SAME LEVEL of abstraction.\n\nIMPORTANT: The catalog is for NAMING CONSISTENCY only. Do NOT create nodes\nfor skills that are not required by the given questions. If no question\nrequires loop_iteration, do NOT include it in the output. The catalog\ntells you WHAT TO CALL a skill if you need it, not which skills to include.\n\nCURRICULUM AWARENESS: When questions are tagged with a topic, do NOT\ncreate skill nodes from topics that come LATER in the curriculum sequence.\nFor example, if all questions are from \"Operators & Conditional Statements\"\n(Topic 3), do NOT create loop_iteration (Topic 5), function_calls (Topic 9),\nor any other skill that belongs to a later topic. Only create skills that\na student would have encountered BY that point in the curriculum.",
+  "scopeConstraint": "\n=== PROGRAMMING FOUNDATIONS SCOPE CONSTRAINT ===\n\nThis is a Programming Foundations course. Students solve problems using \nbruteforce methods ONLY. Do NOT create skills for advanced algorithmic \npatterns: Sliding Window, Two Pointers, Greedy Algorithm, Dynamic \nProgramming, Kadane's Algorithm, Divide and Conquer, Binary Search \noptimization, Backtracking, Graph Algorithms, or Trie structures.\n\nIf a problem could be solved with an advanced pattern, map it to the \nfundamental bruteforce skills (e.g., nested_iteration, accumulator_pattern, \nsearch_pattern, filter_pattern).\n\nREPETITION WITHOUT LOOPS: If a problem asks to repeat an action a small \nfixed number of times (e.g., \"print Hello 3 times\"), and the question \nbelongs to a topic BEFORE \"Loops\" (Topic 5) in the curriculum, map it \nto basic_output (repeated print statements), NOT to loop_iteration. \nOnly use loop_iteration when the question is FROM Topic 5 or later, \nOR when the repetition count is variable/large.",
+  "curriculumSequence": "\n=== CURRICULUM SEQUENCE ===\n\nTopics are taught in this order. Use this to inform prerequisite edges -- \nskills from earlier topics should generally be prerequisites for skills \nin later topics:\n\n1. Introduction to Python\n2. I/O Basics\n3. Operators & Conditional Statements\n4. Nested Conditions\n5. Loops\n6. Loop Control Statements\n7. Comparing Strings & Naming Variables\n8. Lists\n9. Functions\n10. Recursion\n11. Tuples & Sets\n12. Intro to Matrices & Shorthand Expressions\n13. Dictionaries\n14. Introduction to Object Oriented Programming\n15. Abstraction and Polymorphism\n16. Miscellaneous Topics\n17. Problem Solving",
+  "inputFormatDescription": "\n=== INPUT FORMAT ===\n\nQuestions are provided in a simple structured format with these sections:\n- Question: The task description\n- Input: Expected input format/types\n- Output: Expected output format/types  \n- Explanation: Solution approach, algorithm description, or hints\n\nMultiple questions are separated by new \"Question:\" sections.\n\nUse ALL sections when performing IPA analysis:\n- Explanation informs the DECIDE and EXECUTE steps with solution strategy\n- Input/Output sections clarify data type handling requirements",
+  "exampleIPA": "\n=== EXAMPLE IPA/LTA ANALYSIS ===\n\nQuestion (structured format):\nQuestion: Count frequency of each word in a sentence.\nInput: A string containing words separated by spaces.\nOutput: A dictionary mapping each word to its frequency count.\nExplanation: Split the string by spaces, iterate through words, and use a dictionary to track counts. Normalize case for consistency.\n\nIPA Trace:\n1. PERCEIVE: Input is a string with spaces separating words (from Input section)\n2. ENCODE: Split string into list of words, normalize case (from Explanation)\n3. RETRIEVE: Dictionary can map word → count (from Output section)\n4. DECIDE: Use accumulator pattern with dictionary (from Explanation)\n5. EXECUTE: For each word, check if in dict, then increment or initialize\n6. MONITOR: Verify counts are correct, handle empty input\n\nLTA Extraction:\n- PERCEIVE step requires: string_recognition (declarative)\n- ENCODE step requires: string_split_method (procedural)\n- RETRIEVE step requires: dictionary_concept (declarative)\n- DECIDE step requires: accumulator_pattern_selection (strategic)\n- EXECUTE step requires: dictionary_operations (procedural), loop_iteration (procedural)\n- MONITOR step requires: edge_case_handling (conditional)\n\nAfter normalization, this maps to skills like:\n- string_methods (core, procedural)\n- dictionary_operations (core, procedural)\n- loop_iteration (core, procedural)\n- accumulator_pattern (applied, strategic)",
+  "curriculumTopics": [
+    "Introduction to Python",
+    "I/O Basics",
+    "Operators & Conditional Statements",
+    "Nested Conditions",
+    "Loops",
+    "Loop Control Statements",
+    "Comparing Strings & Naming Variables",
+    "Lists",
+    "Functions",
+    "Recursion",
+    "Tuples & Sets",
+    "Intro to Matrices & Shorthand Expressions",
+    "Dictionaries",
+    "Introduction to Object Oriented Programming",
+    "Abstraction and Polymorphism",
+    "Miscellaneous Topics",
+    "Problem Solving"
+  ],
+  "skillTopicMap": {
+    "variable_assignment": 1,
+    "type_recognition": 1,
+    "basic_output": 2,
+    "basic_input": 2,
+    "type_conversion": 2,
+    "string_concatenation": 2,
+    "string_indexing": 2,
+    "string_slicing": 2,
+    "string_repetition": 2,
+    "sequence_length_retrieval": 2,
+    "arithmetic_operations": 3,
+    "comparison_operators": 3,
+    "boolean_logic": 3,
+    "conditional_branching": 3,
+    "conditional_expression": 3,
+    "numeric_rounding": 3,
+    "nested_conditions": 4,
+    "loop_iteration": 5,
+    "accumulator_pattern": 5,
+    "search_pattern": 5,
+    "filter_pattern": 5,
+    "transform_pattern": 5,
+    "input_parsing": 5,
+    "nested_iteration": 5,
+    "geometric_pattern_generation": 5,
+    "integer_digit_extraction": 5,
+    "loop_control_statements": 6,
+    "string_methods": 7,
+    "formatted_output": 7,
+    "output_formatting": 7,
+    "character_encoding_conversion": 7,
+    "list_operations": 8,
+    "list_comprehension": 8,
+    "list_aggregation": 8,
+    "list_sorting": 8,
+    "sequence_rotation": 8,
+    "function_definition": 9,
+    "function_calls": 9,
+    "recursion": 10,
+    "tuple_operations": 11,
+    "set_operations": 11,
+    "matrix_operations": 12,
+    "matrix_construction": 12,
+    "matrix_element_access": 12,
+    "matrix_transposition": 12,
+    "matrix_rotation": 12,
+    "matrix_diagonal_traversal": 12,
+    "dictionary_operations": 13,
+    "class_definition": 14,
+    "object_methods": 14,
+    "encapsulation_concepts": 14,
+    "abstraction": 15,
+    "polymorphism": 15,
+    "inheritance": 15,
+    "class_inheritance": 15,
+    "abstract_class_interaction": 15,
+    "method_overriding": 15,
+    "file_io": 16,
+    "exception_handling": 16,
+    "datetime_manipulation": 16,
+    "problem_solving": 17,
+    "algorithmic_thinking": 17,
+    "debugging": 17,
+    "backtracking_pattern": 17,
+    "deferred_modification_pattern": 17,
+    "stateful_computation_simulation": 17,
+    "subproblem_enumeration_pattern": 17
+  },
+  "independentFoundational": [
+    "variable_assignment",
+    "basic_output",
+    "arithmetic_operations",
+    "type_recognition"
+  ],
+  "mandatoryEdges": [
+    {
+      "from": "variable_assignment",
+      "to": "basic_input",
+      "reason": "input() requires storing the result in a variable"
+    },
+    {
+      "from": "variable_assignment",
+      "to": "type_conversion",
+      "reason": "type conversion operates on values stored in variables"
+    },
+    {
+      "from": "variable_assignment",
+      "to": "string_concatenation",
+      "reason": "concatenation operates on values in variables"
+    },
+    {
+      "from": "variable_assignment",
+      "to": "string_indexing",
+      "reason": "indexing requires a string stored in a variable"
+    },
+    {
+      "from": "variable_assignment",
+      "to": "string_repetition",
+      "reason": "repetition operates on strings in variables"
+    },
+    {
+      "from": "variable_assignment",
+      "to": "sequence_length_retrieval",
+      "reason": "len() operates on values stored in variables"
+    },
+    {
+      "from": "type_recognition",
+      "to": "type_conversion",
+      "reason": "must recognize types before converting between them"
+    },
+    {
+      "from": "arithmetic_operations",
+      "to": "comparison_operators",
+      "reason": "comparisons often involve computed values"
+    },
+    {
+      "from": "comparison_operators",
+      "to": "conditional_branching",
+      "reason": "conditions use comparison operators"
+    },
+    {
+      "from": "conditional_branching",
+      "to": "nested_conditions",
+      "reason": "nesting requires understanding single conditions"
+    },
+    {
+      "from": "variable_assignment",
+      "to": "loop_iteration",
+      "reason": "loops operate on variables"
+    },
+    {
+      "from": "loop_iteration",
+      "to": "accumulator_pattern",
+      "reason": "accumulating requires looping"
+    },
+    {
+      "from": "loop_iteration",
+      "to": "search_pattern",
+      "reason": "searching requires iterating"
+    },
+    {
+      "from": "string_indexing",
+      "to": "string_slicing",
+      "reason": "slicing builds on indexing concepts"
+    },
+    {
+      "from": "conditional_branching",
+      "to": "filter_pattern",
+      "reason": "filtering requires if/else logic"
+    },
+    {
+      "from": "basic_output",
+      "to": "formatted_output",
+      "reason": "formatted output builds on basic print knowledge"
+    },
+    {
+      "from": "loop_iteration",
+      "to": "nested_iteration",
+      "reason": "nested loops require understanding single loops"
+    },
+    {
+      "from": "loop_iteration",
+      "to": "set_operations",
+      "reason": "building sets requires iteration"
+    },
+    {
+      "from": "list_operations",
+      "to": "set_operations",
+      "reason": "sets are often created from lists"
+    },
+    {
+      "from": "loop_iteration",
+      "to": "list_operations",
+      "reason": "list building requires looping"
+    },
+    {
+      "from": "loop_iteration",
+      "to": "filter_pattern",
+      "reason": "filtering requires iterating"
+    },
+    {
+      "from": "loop_iteration",
+      "to": "transform_pattern",
+      "reason": "transforming requires iterating"
+    },
+    {
+      "from": "conditional_branching",
+      "to": "loop_iteration",
+      "reason": "loops use conditions for termination"
+    },
+    {
+      "from": "class_definition",
+      "to": "abstraction",
+      "reason": "abstraction builds on class concepts"
+    },
+    {
+      "from": "class_definition",
+      "to": "polymorphism",
+      "reason": "polymorphism requires OOP basics"
+    },
+    {
+      "from": "class_definition",
+      "to": "inheritance",
+      "reason": "inheritance requires class knowledge"
+    }
+  ]
+}$config$::jsonb, 'Initial version'
+);
+
+INSERT INTO public.domain_configs (domain, version, label, config, notes) VALUES (
+  'web', 1, 'HTML/CSS/JS/React/AI', $config${
+  "skillCatalog": "\n=== REFERENCE SKILL CATALOG (MAP TO THESE FIRST) ===\n\nBefore creating ANY new skill, check if it maps to this catalog:\n\nHTML:\n- html_document_structure: DOCTYPE, html, head, body tags\n- html_elements: headings, paragraphs, lists, links, images, div, span\n- html_attributes: id, class, src, href, alt, style attributes\n- html_forms: form, input, textarea, select, button, labels\n- html_tables: table, tr, td, th, thead, tbody\n- html_semantic_elements: header, footer, nav, main, section, article, aside\n\nCSS:\n- css_selectors: element, class, id, descendant, pseudo-class selectors\n- css_properties: color, font, background, border, margin, padding\n- css_box_model: margin, border, padding, content, width/height\n- css_flexbox: display flex, justify-content, align-items, flex-direction\n- css_grid: display grid, grid-template, gap, grid areas\n- css_positioning: static, relative, absolute, fixed, sticky, z-index\n- css_responsive_design: media queries, viewport units, fluid layouts\n- css_media_queries: breakpoints, min-width, max-width queries\n- css_animations: keyframes, animation properties, timing functions\n- css_transitions: transition properties, hover effects, timing\n\nJavaScript:\n- js_variables: let, const, var, data types, scope\n- js_operators: arithmetic, comparison, logical, ternary\n- js_conditionals: if/else, switch, ternary expressions\n- js_loops: for, while, do-while, for...of, for...in\n- js_arrays: creation, methods (push, pop, map, filter, reduce)\n- js_objects: creation, properties, methods, destructuring\n- js_functions: declaration, expression, arrow functions, parameters\n- js_string_methods: split, join, trim, replace, includes, template literals\n- js_dom_manipulation: querySelector, createElement, innerHTML, classList\n- js_event_handling: addEventListener, event types, event delegation\n- js_async_await: async functions, await, error handling\n- js_promises: creation, then/catch, Promise.all\n- js_fetch_api: fetch, GET/POST requests, response handling\n- js_modules: import/export, default exports, named exports\n- js_classes: class syntax, constructor, methods, inheritance\n- js_error_handling: try/catch/finally, custom errors\n\nReact:\n- react_components: functional components, JSX syntax\n- react_jsx: JSX expressions, conditional rendering, lists\n- react_state: useState, state management, immutability\n- react_props: prop passing, destructuring, children\n- react_effects: useEffect, side effects, cleanup\n- react_routing: React Router, routes, navigation\n- react_lists_keys: rendering lists, key prop\n\nGen AI:\n- ai_prompt_engineering: prompt design, context, instructions\n- ai_api_integration: calling AI APIs, handling responses\n- ai_workflow_design: chaining AI calls, processing pipelines\n\nONLY create a new skill if NONE of the above apply.\nWhen creating new skills, they must be AT THIS SAME LEVEL of abstraction.\n\nIMPORTANT: The catalog is for NAMING CONSISTENCY only. Do NOT create nodes\nfor skills that are not required by the given questions.",
+  "scopeConstraint": "\n=== WEB DEVELOPMENT SCOPE CONSTRAINT ===\n\nThis is a web development course covering HTML, CSS, JavaScript, Dynamic \nWeb Apps, React JS, and Generative AI integration. Students build \nreal-world web applications.\n\nSkills should reflect web development concepts at the appropriate level \nof abstraction. Do NOT create hyper-specific skills for individual CSS \nproperties or HTML tags — group them into transferable capabilities.",
+  "curriculumSequence": "\n=== CURRICULUM SEQUENCE ===\n\nTopics are taught in this order. Use this to inform prerequisite edges --\nskills from earlier topics should generally be prerequisites for skills\nin later topics:\n\nHTML (Course 1):\n1. Introduction to HTML\n2. HTML Elements\n3. HTML Forms and Tables\n4. HTML Attributes and General\n\nCSS (Course 2):\n5. Introduction To CSS And CSS Selectors\n6. CSS Properties\n7. CSS Display And Position\n8. CSS Layouts And Box Model\n9. CSS Selectors\n10. CSS Flexbox\n11. CSS Grid\n12. CSS Media Queries\n13. CSS General\n\nJS (Course 3):\n14. Introduction to JavaScript\n15. DOM And Events\n16. Schedulers & Callback Functions\n17. Storage Mechanisms\n18. Network & HTTP Requests\n19. Asynchronous JS and Error Handling\n20. JS General\n\nJS Coding (Course 4):\n21. Variables\n22. Data Types\n23. Operators\n24. Conditional Statements\n25. Functions\n26. Loops\n27. Recursion\n\nReact (Course 5):\n28. Introduction to React\n29. React Components & Props\n30. useState Hook\n31. useEffect Hook\n32. More React Hooks\n33. React Router\n34. Authentication & Authorisation\n35. React Lists & Forms\n36. React General",
+  "inputFormatDescription": "\n=== INPUT FORMAT ===\n\nQuestions may be in EITHER format:\n\nFORMAT 1 - Structured (with headers):\n- Question: The task description\n- Input: Expected input format/types\n- Output: Expected output format/types\n- Explanation: Solution approach\n\nFORMAT 2 - Free-form:\nQuestions are plain text descriptions of web development tasks, \ndesign challenges, or coding problems. They may describe UI to build,\nfeatures to implement, or concepts to demonstrate.\n\nBoth formats are valid. Analyze whatever is provided.",
+  "exampleIPA": "\n=== EXAMPLE IPA/LTA ANALYSIS ===\n\nQuestion (free-form):\nCreate a responsive navigation bar with a hamburger menu for mobile. \nThe nav should have links to Home, About, and Contact pages. Use flexbox \nfor desktop layout and a toggle button for mobile.\n\nIPA Trace:\n1. PERCEIVE: Need a nav bar with 3 links, responsive with mobile hamburger\n2. ENCODE: Structure as nav element with ul/li for links, button for toggle\n3. RETRIEVE: Flexbox for layout, media queries for responsive, JS for toggle\n4. DECIDE: Use semantic HTML nav, CSS flexbox + media query, JS click handler\n5. EXECUTE: Build HTML structure, CSS flex layout, media query breakpoint, JS toggle\n6. MONITOR: Test responsive behavior, verify hamburger works\n\nLTA Extraction:\n- PERCEIVE: html_semantic_elements (declarative)\n- ENCODE: html_elements (procedural)\n- RETRIEVE: css_flexbox, css_media_queries (declarative)\n- DECIDE: css_responsive_design (strategic)\n- EXECUTE: js_dom_manipulation, js_event_handling (procedural)\n- MONITOR: css_responsive_design (conditional)\n\nAfter normalization:\n- html_semantic_elements (foundational)\n- html_elements (foundational)\n- css_flexbox (core)\n- css_media_queries (core)\n- css_responsive_design (applied)\n- js_dom_manipulation (core)\n- js_event_handling (core)",
+  "curriculumTopics": [
+    "Introduction to HTML",
+    "HTML Elements",
+    "HTML Forms and Tables",
+    "HTML Attributes and General",
+    "Introduction To CSS And CSS Selectors",
+    "CSS Properties",
+    "CSS Display And Position",
+    "CSS Layouts And Box Model",
+    "CSS Selectors",
+    "CSS Flexbox",
+    "CSS Grid",
+    "CSS Media Queries",
+    "CSS General",
+    "Introduction to JavaScript",
+    "DOM And Events",
+    "Schedulers & Callback Functions",
+    "Storage Mechanisms",
+    "Network & HTTP Requests",
+    "Asynchronous JS and Error Handling",
+    "JS General",
+    "Variables",
+    "Data Types",
+    "Operators",
+    "Conditional Statements",
+    "Functions",
+    "Loops",
+    "Recursion",
+    "Introduction to React",
+    "React Components & Props",
+    "useState Hook",
+    "useEffect Hook",
+    "More React Hooks",
+    "React Router",
+    "Authentication & Authorisation",
+    "React Lists & Forms",
+    "React General"
+  ],
+  "skillTopicMap": {
+    "html_document_structure": 1,
+    "html_elements": 2,
+    "html_forms": 3,
+    "html_tables": 3,
+    "html_attributes": 4,
+    "html_semantic_elements": 4,
+    "css_selectors": 5,
+    "css_properties": 6,
+    "css_positioning": 7,
+    "css_box_model": 8,
+    "css_flexbox": 10,
+    "css_grid": 11,
+    "css_media_queries": 12,
+    "css_responsive_design": 12,
+    "css_transitions": 13,
+    "css_animations": 13,
+    "js_dom_manipulation": 15,
+    "js_event_handling": 15,
+    "js_async_await": 16,
+    "js_promises": 16,
+    "js_fetch_api": 18,
+    "js_error_handling": 19,
+    "js_variables": 21,
+    "js_operators": 23,
+    "js_conditionals": 24,
+    "js_functions": 25,
+    "js_loops": 26,
+    "js_arrays": 26,
+    "js_objects": 25,
+    "js_string_methods": 22,
+    "js_modules": 20,
+    "js_classes": 20,
+    "react_components": 28,
+    "react_jsx": 28,
+    "react_props": 29,
+    "react_state": 30,
+    "react_effects": 31,
+    "react_routing": 33,
+    "react_lists_keys": 35,
+    "ai_prompt_engineering": 20,
+    "ai_api_integration": 18,
+    "ai_workflow_design": 20
+  },
+  "independentFoundational": [
+    "html_document_structure",
+    "html_elements",
+    "css_selectors",
+    "js_variables"
+  ],
+  "mandatoryEdges": [
+    {
+      "from": "html_elements",
+      "to": "html_forms",
+      "reason": "forms use HTML elements"
+    },
+    {
+      "from": "html_elements",
+      "to": "html_tables",
+      "reason": "tables use HTML elements"
+    },
+    {
+      "from": "html_elements",
+      "to": "html_semantic_elements",
+      "reason": "semantic elements build on basic element knowledge"
+    },
+    {
+      "from": "html_attributes",
+      "to": "html_forms",
+      "reason": "forms require attribute knowledge"
+    },
+    {
+      "from": "css_selectors",
+      "to": "css_properties",
+      "reason": "applying properties requires selector knowledge"
+    },
+    {
+      "from": "css_properties",
+      "to": "css_box_model",
+      "reason": "box model uses CSS properties"
+    },
+    {
+      "from": "css_box_model",
+      "to": "css_flexbox",
+      "reason": "flexbox builds on box model understanding"
+    },
+    {
+      "from": "css_box_model",
+      "to": "css_grid",
+      "reason": "grid builds on box model understanding"
+    },
+    {
+      "from": "css_properties",
+      "to": "css_positioning",
+      "reason": "positioning uses CSS properties"
+    },
+    {
+      "from": "css_properties",
+      "to": "css_transitions",
+      "reason": "transitions animate CSS properties"
+    },
+    {
+      "from": "css_transitions",
+      "to": "css_animations",
+      "reason": "animations build on transition concepts"
+    },
+    {
+      "from": "css_flexbox",
+      "to": "css_responsive_design",
+      "reason": "responsive design uses flexbox"
+    },
+    {
+      "from": "css_media_queries",
+      "to": "css_responsive_design",
+      "reason": "responsive design uses media queries"
+    },
+    {
+      "from": "js_variables",
+      "to": "js_conditionals",
+      "reason": "conditionals operate on variables"
+    },
+    {
+      "from": "js_variables",
+      "to": "js_loops",
+      "reason": "loops operate on variables"
+    },
+    {
+      "from": "js_variables",
+      "to": "js_functions",
+      "reason": "functions use variables"
+    },
+    {
+      "from": "js_conditionals",
+      "to": "js_loops",
+      "reason": "loops use conditional logic"
+    },
+    {
+      "from": "js_functions",
+      "to": "js_dom_manipulation",
+      "reason": "DOM manipulation uses functions"
+    },
+    {
+      "from": "js_dom_manipulation",
+      "to": "js_event_handling",
+      "reason": "event handling requires DOM access"
+    },
+    {
+      "from": "js_functions",
+      "to": "js_async_await",
+      "reason": "async/await uses function concepts"
+    },
+    {
+      "from": "js_promises",
+      "to": "js_async_await",
+      "reason": "async/await is syntactic sugar for promises"
+    },
+    {
+      "from": "js_async_await",
+      "to": "js_fetch_api",
+      "reason": "fetch API uses async/await"
+    },
+    {
+      "from": "js_functions",
+      "to": "js_classes",
+      "reason": "classes use function concepts"
+    },
+    {
+      "from": "js_objects",
+      "to": "js_classes",
+      "reason": "classes are object blueprints"
+    },
+    {
+      "from": "html_elements",
+      "to": "react_jsx",
+      "reason": "JSX builds on HTML knowledge"
+    },
+    {
+      "from": "js_functions",
+      "to": "react_components",
+      "reason": "React components are functions"
+    },
+    {
+      "from": "react_components",
+      "to": "react_state",
+      "reason": "state management requires component knowledge"
+    },
+    {
+      "from": "react_components",
+      "to": "react_props",
+      "reason": "props require component knowledge"
+    },
+    {
+      "from": "react_state",
+      "to": "react_effects",
+      "reason": "effects respond to state changes"
+    },
+    {
+      "from": "js_fetch_api",
+      "to": "ai_api_integration",
+      "reason": "AI API integration uses fetch"
+    },
+    {
+      "from": "ai_prompt_engineering",
+      "to": "ai_workflow_design",
+      "reason": "workflow design builds on prompt engineering"
+    },
+    {
+      "from": "ai_api_integration",
+      "to": "ai_workflow_design",
+      "reason": "workflow design chains API calls"
+    }
+  ],
+  "grouping": {
+    "topics": [
+      "HTML",
+      "CSS",
+      "JS",
+      "JS Coding",
+      "React"
+    ],
+    "subtopics": [
+      {
+        "name": "Introduction to HTML",
+        "topic": 1
+      },
+      {
+        "name": "HTML Elements",
+        "topic": 1
+      },
+      {
+        "name": "HTML Forms and Tables",
+        "topic": 1
+      },
+      {
+        "name": "HTML Attributes and General",
+        "topic": 1
+      },
+      {
+        "name": "Introduction To CSS And CSS Selectors",
+        "topic": 2
+      },
+      {
+        "name": "CSS Properties",
+        "topic": 2
+      },
+      {
+        "name": "CSS Display And Position",
+        "topic": 2
+      },
+      {
+        "name": "CSS Layouts And Box Model",
+        "topic": 2
+      },
+      {
+        "name": "CSS Selectors",
+        "topic": 2
+      },
+      {
+        "name": "CSS Flexbox",
+        "topic": 2
+      },
+      {
+        "name": "CSS Grid",
+        "topic": 2
+      },
+      {
+        "name": "CSS Media Queries",
+        "topic": 2
+      },
+      {
+        "name": "CSS General",
+        "topic": 2
+      },
+      {
+        "name": "Introduction to JavaScript",
+        "topic": 3
+      },
+      {
+        "name": "DOM And Events",
+        "topic": 3
+      },
+      {
+        "name": "Schedulers and Callback Functions",
+        "topic": 3
+      },
+      {
+        "name": "Storage Mechanisms",
+        "topic": 3
+      },
+      {
+        "name": "Network and HTTP Requests",
+        "topic": 3
+      },
+      {
+        "name": "Asynchronous JS and Error Handling",
+        "topic": 3
+      },
+      {
+        "name": "JS General",
+        "topic": 3
+      },
+      {
+        "name": "Variables",
+        "topic": 4
+      },
+      {
+        "name": "Data Types",
+        "topic": 4
+      },
+      {
+        "name": "Operators",
+        "topic": 4
+      },
+      {
+        "name": "Conditional Statements",
+        "topic": 4
+      },
+      {
+        "name": "Functions",
+        "topic": 4
+      },
+      {
+        "name": "Loops",
+        "topic": 4
+      },
+      {
+        "name": "Recursion",
+        "topic": 4
+      },
+      {
+        "name": "Introduction to React",
+        "topic": 5
+      },
+      {
+        "name": "React Components and Props",
+        "topic": 5
+      },
+      {
+        "name": "useState Hook",
+        "topic": 5
+      },
+      {
+        "name": "useEffect Hook",
+        "topic": 5
+      },
+      {
+        "name": "More React Hooks",
+        "topic": 5
+      },
+      {
+        "name": "React Router",
+        "topic": 5
+      },
+      {
+        "name": "Authentication and Authorisation",
+        "topic": 5
+      },
+      {
+        "name": "React Lists and Forms",
+        "topic": 5
+      },
+      {
+        "name": "React General",
+        "topic": 5
+      }
+    ],
+    "skillSubtopicMap": {
+      "html_semantic_elements": 0,
+      "html_elements": 1,
+      "html_forms": 2,
+      "html_attributes": 3,
+      "html_basics": 0,
+      "css_selectors": 4,
+      "css_properties": 5,
+      "css_positioning": 6,
+      "css_box_model": 7,
+      "css_specificity": 8,
+      "css_flexbox": 9,
+      "css_grid": 10,
+      "css_media_queries": 11,
+      "css_responsive_design": 11,
+      "css_transforms": 12,
+      "css_utility_frameworks": 12,
+      "css_transform": 12,
+      "css_z_index": 6,
+      "css_grid_alignment": 10,
+      "css_flexbox_layout": 9,
+      "css_basics": 4,
+      "css_styling_and_layout": 7,
+      "tailwind_css_utility_classes": 12,
+      "js_closures": 13,
+      "js_console_output": 13,
+      "js_dom_manipulation": 14,
+      "js_event_handling": 14,
+      "js_timed_events": 15,
+      "js_timers": 15,
+      "js_browser_storage": 16,
+      "js_local_storage_api": 16,
+      "js_fetch_api": 17,
+      "api_http_requests": 17,
+      "rss_feed_integration": 17,
+      "js_async_await": 18,
+      "js_promises": 18,
+      "js_error_handling": 18,
+      "js_modules": 19,
+      "js_classes": 19,
+      "js_constructor_functions": 19,
+      "js_date_object_manipulation": 19,
+      "exception_handling": 18,
+      "js_spread_rest_operators": 19,
+      "class_definition": 19,
+      "object_methods": 19,
+      "js_date_object": 19,
+      "js_core_logic": 19,
+      "date_fns_usage": 19,
+      "google_sheets_api_integration": 19,
+      "ai_api_integration": 19,
+      "ai_prompt_engineering": 19,
+      "ai_workflow_design": 19,
+      "n8n_workflow_design": 19,
+      "n8n_ai_workflow_automation": 19,
+      "n8n_ai_agent_usage": 19,
+      "n8n_expression_language": 19,
+      "n8n_trigger_node_usage": 19,
+      "js_variables": 20,
+      "js_string_methods": 21,
+      "js_arrays": 21,
+      "js_objects": 21,
+      "js_in_place_manipulation": 21,
+      "js_data_structures_set": 21,
+      "regex_basics": 21,
+      "js_operators": 22,
+      "js_conditionals": 23,
+      "input_validation": 23,
+      "js_functions": 24,
+      "algorithm_two_sum_hash_map": 24,
+      "js_loops": 25,
+      "js_loop_control_statements": 25,
+      "nested_iteration": 25,
+      "accumulator_pattern": 25,
+      "algorithm_intersection": 25,
+      "algorithm_prime_check": 25,
+      "algorithm_set_difference": 25,
+      "algorithm_sorting": 25,
+      "algorithm_two_pointers": 25,
+      "js_recursion": 26,
+      "algorithm_recursion": 26,
+      "variable_assignment": 20,
+      "basic_output": 20,
+      "basic_input": 20,
+      "input_parsing": 20,
+      "formatted_output": 20,
+      "input_output_formatting": 20,
+      "type_conversion": 21,
+      "type_recognition": 21,
+      "string_indexing": 21,
+      "list_operations": 21,
+      "dictionary_operations": 21,
+      "comparison_operators": 22,
+      "arithmetic_operations": 22,
+      "boolean_logic": 22,
+      "conditional_branching": 23,
+      "function_definition": 24,
+      "function_calls": 24,
+      "loop_iteration": 25,
+      "search_pattern": 25,
+      "loop_control_statements": 25,
+      "iterative_control_flow": 25,
+      "react_jsx": 27,
+      "react_components": 28,
+      "react_props": 28,
+      "react_state": 29,
+      "react_context_api": 31,
+      "react_routing": 32,
+      "react_protected_routes": 33,
+      "react_lists_keys": 34,
+      "react_component_data_flow": 28,
+      "react_component_fundamentals": 27,
+      "react_conditional_rendering": 34,
+      "react_effects": 30,
+      "html_document_structure": 0
+    }
+  }
+}$config$::jsonb, 'Initial version'
+);
@@ -0,0 +1,24 @@
+-- Record-and-replay cache for AI responses, keyed by a hash of model, prompt and parameters
+CREATE TABLE public.ai_response_cache (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cache_key TEXT NOT NULL UNIQUE,
+  function_name TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  request_params JSONB,
+  content TEXT NOT NULL,
+  finish_reason TEXT,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.ai_response_cache.cache_key IS 'SHA-256 of model, prompt messages, temperature and max tokens';
+COMMENT ON COLUMN public.ai_response_cache.request_params IS 'temperature, maxTokens, promptChars';
+
+ALTER TABLE public.ai_response_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on ai_response_cache" ON public.ai_response_cache
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_ai_response_cache_function ON public.ai_response_cache(function_name, last_used_at DESC);
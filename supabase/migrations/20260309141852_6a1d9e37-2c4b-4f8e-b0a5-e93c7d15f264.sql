@@ -0,0 +1,70 @@
+-- Server-side graph generation jobs. The generation-jobs edge function runs the
+-- batch loop; clients create jobs, control them through status and follow
+-- progress over realtime.
+CREATE TABLE public.generation_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  graph_id UUID REFERENCES public.knowledge_graphs(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'classifying', 'running', 'paused', 'completed', 'failed', 'cancelled')),
+  domain TEXT,
+  turbo BOOLEAN NOT NULL DEFAULT false,
+  force_refresh BOOLEAN NOT NULL DEFAULT false,
+  questions JSONB NOT NULL,
+  topic_map JSONB,
+  existing_nodes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  total_batches INTEGER NOT NULL DEFAULT 0,
+  completed_batches INTEGER NOT NULL DEFAULT 0,
+  failed_batches INTEGER NOT NULL DEFAULT 0,
+  skills_discovered INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  lease_expires_at TIMESTAMP WITH TIME ZONE,
+  heartbeat_at TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  applied_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.generation_jobs.existing_nodes IS 'Skills already in the graph when the job started ({id, name, tier, description}), sent to generate-graph as context';
+COMMENT ON COLUMN public.generation_jobs.lease_expires_at IS 'Set by the worker that owns the job; an expired lease lets another invocation take over';
+COMMENT ON COLUMN public.generation_jobs.applied_at IS 'When a client merged the finished job into its graph view';
+
+CREATE TABLE public.generation_job_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.generation_jobs(id) ON DELETE CASCADE,
+  batch_index INTEGER NOT NULL,
+  questions JSONB NOT NULL,
+  topic_map JSONB,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  result JSONB,
+  skills_proposed INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(job_id, batch_index)
+);
+
+COMMENT ON COLUMN public.generation_job_batches.result IS 'generate-graph response for the batch (globalNodes, edges, courses, questionPaths)';
+
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.generation_job_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on generation_jobs" ON public.generation_jobs
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations on generation_job_batches" ON public.generation_job_batches
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_generation_jobs_graph ON public.generation_jobs(graph_id, created_at DESC);
+CREATE INDEX idx_generation_job_batches_job ON public.generation_job_batches(job_id, batch_index);
+
+CREATE TRIGGER update_generation_jobs_updated_at
+  BEFORE UPDATE ON public.generation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.generation_jobs, public.generation_job_batches;
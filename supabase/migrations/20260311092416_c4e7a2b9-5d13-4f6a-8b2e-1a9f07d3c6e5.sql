@@ -0,0 +1,20 @@
+-- Progress events streamed by generate-graph while a job batch runs
+CREATE TABLE public.generation_job_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.generation_jobs(id) ON DELETE CASCADE,
+  batch_index INTEGER NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('started', 'questions_analyzed', 'skills_proposed', 'edges_proposed', 'repair')),
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.generation_job_events.payload IS 'Event body as emitted by generate-graph (counts, proposed skills, repair step before/after)';
+
+ALTER TABLE public.generation_job_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on generation_job_events" ON public.generation_job_events
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_generation_job_events_job ON public.generation_job_events(job_id, created_at);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.generation_job_events;
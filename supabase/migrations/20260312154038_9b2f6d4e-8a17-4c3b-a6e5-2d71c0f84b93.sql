@@ -0,0 +1,8 @@
+-- Opt-in IPA/LTA traces: requested per generation job, stored per question
+ALTER TABLE public.generation_jobs
+  ADD COLUMN include_trace BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.questions
+  ADD COLUMN ipa_trace JSONB;
+
+COMMENT ON COLUMN public.questions.ipa_trace IS 'IPA steps (PERCEIVE..MONITOR) for the question, each with the LTA knowledge items and the skill ids they map to';
@@ -0,0 +1,9 @@
+-- Model confidence on prerequisite edges and question→skill mappings
+ALTER TABLE public.skill_edges
+  ADD COLUMN confidence REAL CHECK (confidence IS NULL OR (confidence >= 0 AND confidence <= 1));
+
+ALTER TABLE public.questions
+  ADD COLUMN skill_confidence JSONB;
+
+COMMENT ON COLUMN public.skill_edges.confidence IS '0-1 model certainty in the prerequisite; 1 once confirmed by a reviewer, NULL when unscored';
+COMMENT ON COLUMN public.questions.skill_confidence IS 'Map of skill id to 0-1 model certainty that the question requires that skill';
@@ -0,0 +1,46 @@
+-- Versioned generate-graph prompts and A/B evaluation runs
+ALTER TABLE public.knowledge_graphs
+  ADD COLUMN prompt_version TEXT;
+
+ALTER TABLE public.generation_jobs
+  ADD COLUMN prompt_version TEXT;
+
+COMMENT ON COLUMN public.knowledge_graphs.prompt_version IS 'generate-graph prompt version that produced the latest generated content';
+COMMENT ON COLUMN public.generation_jobs.prompt_version IS 'Prompt version requested for every batch; NULL uses the current version';
+
+-- Fixed question sets with an optional hand-built gold-standard graph
+CREATE TABLE public.prompt_eval_sets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  domain TEXT,
+  questions JSONB NOT NULL,
+  gold_graph JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.prompt_eval_sets.gold_graph IS 'Reference graph ({ globalNodes, edges, questionPaths }) to measure agreement against';
+
+-- One comparison of two prompt versions over an evaluation set
+CREATE TABLE public.prompt_eval_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  eval_set_id UUID NOT NULL REFERENCES public.prompt_eval_sets(id) ON DELETE CASCADE,
+  version_a TEXT NOT NULL,
+  version_b TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  report JSONB,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.prompt_eval_runs.report IS 'Metrics per version and their differences, filled in when the run completes';
+
+ALTER TABLE public.prompt_eval_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.prompt_eval_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on prompt_eval_sets" ON public.prompt_eval_sets
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Allow all operations on prompt_eval_runs" ON public.prompt_eval_runs
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_prompt_eval_runs_set ON public.prompt_eval_runs(eval_set_id, created_at);
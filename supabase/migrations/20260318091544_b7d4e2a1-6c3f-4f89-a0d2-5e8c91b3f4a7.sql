@@ -0,0 +1,54 @@
+-- Immutable graph versions: every save (manual or autosave) records a full snapshot
+CREATE TABLE public.graph_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  graph_id UUID NOT NULL REFERENCES public.knowledge_graphs(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  author TEXT,
+  message TEXT,
+  is_autosave BOOLEAN NOT NULL DEFAULT false,
+  snapshot JSONB NOT NULL,
+  total_skills INTEGER NOT NULL DEFAULT 0,
+  total_edges INTEGER NOT NULL DEFAULT 0,
+  total_questions INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (graph_id, version_number)
+);
+
+COMMENT ON COLUMN public.graph_versions.snapshot IS 'KnowledgeGraph as saved: globalNodes, edges, courses, questionPaths, ipaByQuestion, promptVersion';
+
+ALTER TABLE public.graph_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on graph_versions" ON public.graph_versions
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_graph_versions_graph ON public.graph_versions(graph_id, version_number DESC);
+
+-- Number versions per graph; the advisory lock serializes concurrent saves of one graph
+CREATE OR REPLACE FUNCTION public.assign_graph_version_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.graph_id::text));
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO NEW.version_number
+  FROM public.graph_versions
+  WHERE graph_id = NEW.graph_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER assign_graph_versions_number
+  BEFORE INSERT ON public.graph_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_graph_version_number();
+
+-- Versions are never edited; restoring one saves it again as a new version
+CREATE OR REPLACE FUNCTION public.prevent_graph_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'graph versions are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_graph_versions_update
+  BEFORE UPDATE ON public.graph_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_graph_version_update();
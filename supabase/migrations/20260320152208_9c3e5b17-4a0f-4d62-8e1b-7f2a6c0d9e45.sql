@@ -0,0 +1,158 @@
+-- Delta saves: the client sends only changed rows and one function applies them atomically
+ALTER TABLE public.knowledge_graphs
+  ADD COLUMN revision INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.knowledge_graphs.revision IS 'Incremented by every save_graph_delta call; a save based on an older revision is rejected';
+
+-- Delta upserts look questions up by text within a graph
+CREATE INDEX IF NOT EXISTS idx_questions_graph_text ON public.questions(graph_id, question_text);
+
+-- Apply a save delta in one transaction.
+-- p_graph_id NULL creates the graph. p_expected_revision is the revision the
+-- client loaded; if another save landed since, raises SQLSTATE PT409 (HTTP 409).
+-- Upserts only write the columns the editor owns, so subtopic_id, difficulty
+-- and IRT columns on existing rows are kept.
+CREATE OR REPLACE FUNCTION public.save_graph_delta(
+  p_graph_id UUID,
+  p_expected_revision INTEGER,
+  p_graph JSONB,
+  p_upsert_skills JSONB DEFAULT '[]'::jsonb,
+  p_delete_skills TEXT[] DEFAULT '{}',
+  p_upsert_edges JSONB DEFAULT '[]'::jsonb,
+  p_delete_edges JSONB DEFAULT '[]'::jsonb,
+  p_upsert_questions JSONB DEFAULT '[]'::jsonb,
+  p_delete_questions TEXT[] DEFAULT '{}',
+  p_version JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_graph_id UUID := p_graph_id;
+  v_revision INTEGER;
+  v_version_number INTEGER;
+BEGIN
+  IF v_graph_id IS NULL THEN
+    INSERT INTO public.knowledge_graphs (name, description, total_skills, total_questions, prompt_version, revision)
+    VALUES (
+      p_graph->>'name',
+      p_graph->>'description',
+      COALESCE((p_graph->>'total_skills')::integer, 0),
+      COALESCE((p_graph->>'total_questions')::integer, 0),
+      p_graph->>'prompt_version',
+      1
+    )
+    RETURNING id, revision INTO v_graph_id, v_revision;
+  ELSE
+    SELECT revision INTO v_revision
+    FROM public.knowledge_graphs
+    WHERE id = v_graph_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Graph % not found', v_graph_id USING ERRCODE = 'PT404';
+    END IF;
+
+    IF p_expected_revision IS NOT NULL AND v_revision <> p_expected_revision THEN
+      RAISE EXCEPTION 'Graph changed since it was loaded'
+        USING ERRCODE = 'PT409',
+              DETAIL = format('Current revision %s, loaded revision %s', v_revision, p_expected_revision);
+    END IF;
+
+    UPDATE public.knowledge_graphs SET
+      name = p_graph->>'name',
+      description = p_graph->>'description',
+      total_skills = COALESCE((p_graph->>'total_skills')::integer, total_skills),
+      total_questions = COALESCE((p_graph->>'total_questions')::integer, total_questions),
+      prompt_version = COALESCE(p_graph->>'prompt_version', prompt_version),
+      revision = revision + 1
+    WHERE id = v_graph_id
+    RETURNING revision INTO v_revision;
+  END IF;
+
+  -- Deletes
+  DELETE FROM public.skill_edges e
+  USING jsonb_to_recordset(p_delete_edges) AS d(from_skill TEXT, to_skill TEXT)
+  WHERE e.graph_id = v_graph_id AND e.from_skill = d.from_skill AND e.to_skill = d.to_skill;
+
+  DELETE FROM public.skills
+  WHERE graph_id = v_graph_id AND skill_id = ANY(p_delete_skills);
+
+  DELETE FROM public.questions
+  WHERE graph_id = v_graph_id AND question_text = ANY(p_delete_questions);
+
+  -- Skills
+  INSERT INTO public.skills (graph_id, skill_id, name, tier, level, description, transferable_contexts)
+  SELECT v_graph_id, s.skill_id, s.name, s.tier, s.level, s.description, s.transferable_contexts
+  FROM jsonb_to_recordset(p_upsert_skills) AS s(
+    skill_id TEXT, name TEXT, tier TEXT, level INTEGER, description TEXT, transferable_contexts JSONB
+  )
+  ON CONFLICT (graph_id, skill_id) DO UPDATE SET
+    name = EXCLUDED.name,
+    tier = EXCLUDED.tier,
+    level = EXCLUDED.level,
+    description = EXCLUDED.description,
+    transferable_contexts = EXCLUDED.transferable_contexts;
+
+  -- Edges
+  INSERT INTO public.skill_edges (graph_id, from_skill, to_skill, relationship_type, reason, confidence)
+  SELECT v_graph_id, e.from_skill, e.to_skill, e.relationship_type, e.reason, e.confidence
+  FROM jsonb_to_recordset(p_upsert_edges) AS e(
+    from_skill TEXT, to_skill TEXT, relationship_type TEXT, reason TEXT, confidence REAL
+  )
+  ON CONFLICT (graph_id, from_skill, to_skill) DO UPDATE SET
+    relationship_type = EXCLUDED.relationship_type,
+    reason = EXCLUDED.reason,
+    confidence = EXCLUDED.confidence;
+
+  -- Questions have no unique key on their text, so update matches and insert the rest
+  CREATE TEMP TABLE _delta_questions ON COMMIT DROP AS
+  SELECT *
+  FROM jsonb_to_recordset(p_upsert_questions) AS q(
+    question_text TEXT, skills TEXT[], primary_skills TEXT[], skill_weights JSONB,
+    skill_confidence JSONB, test_cases JSONB, ipa_trace JSONB
+  );
+
+  UPDATE public.questions t SET
+    skills = q.skills,
+    primary_skills = q.primary_skills,
+    skill_weights = q.skill_weights,
+    skill_confidence = q.skill_confidence,
+    test_cases = q.test_cases,
+    ipa_trace = q.ipa_trace
+  FROM _delta_questions q
+  WHERE t.graph_id = v_graph_id AND t.question_text = q.question_text;
+
+  INSERT INTO public.questions (graph_id, question_text, skills, primary_skills, skill_weights, skill_confidence, test_cases, ipa_trace)
+  SELECT v_graph_id, q.question_text, q.skills, q.primary_skills, q.skill_weights, q.skill_confidence, q.test_cases, q.ipa_trace
+  FROM _delta_questions q
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.questions t
+    WHERE t.graph_id = v_graph_id AND t.question_text = q.question_text
+  );
+
+  DROP TABLE _delta_questions;
+
+  -- Version snapshot, in the same transaction as the rows it describes
+  IF p_version IS NOT NULL THEN
+    INSERT INTO public.graph_versions (
+      graph_id, author, message, is_autosave, snapshot, total_skills, total_edges, total_questions
+    )
+    VALUES (
+      v_graph_id,
+      p_version->>'author',
+      p_version->>'message',
+      COALESCE((p_version->>'is_autosave')::boolean, false),
+      p_version->'snapshot',
+      COALESCE((p_version->>'total_skills')::integer, 0),
+      COALESCE((p_version->>'total_edges')::integer, 0),
+      COALESCE((p_version->>'total_questions')::integer, 0)
+    )
+    RETURNING version_number INTO v_version_number;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'graph_id', v_graph_id,
+    'revision', v_revision,
+    'version_number', v_version_number
+  );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,20 @@
+-- Prompt evaluations run in budgeted worker invocations, like generation jobs:
+-- progress is saved after every batch and the run is handed to a fresh
+-- invocation before the edge function wall-clock limit. A run whose worker
+-- stops heartbeating is marked failed.
+ALTER TABLE public.prompt_eval_runs
+  ADD COLUMN batch_size INTEGER NOT NULL DEFAULT 5,
+  ADD COLUMN force_refresh BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN progress JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN lease_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN heartbeat_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.prompt_eval_runs.progress IS 'Per-version state ({ a, b }: next batch, batch counts, accumulated graph, repair totals) saved after every batch';
+COMMENT ON COLUMN public.prompt_eval_runs.lease_expires_at IS 'Set by the worker that owns the run; an expired lease lets another invocation take over';
+COMMENT ON COLUMN public.prompt_eval_runs.heartbeat_at IS 'Refreshed after every batch; runs that stop heartbeating are marked failed';
+
+-- Runs started before this change have no saved progress and cannot continue
+UPDATE public.prompt_eval_runs
+SET status = 'failed', error = 'Interrupted before resumable evaluation runs'
+WHERE status = 'running';
@@ -0,0 +1,7 @@
+-- Batches whose proposals a client has already reviewed. Resuming or retrying
+-- a job only offers batches outside this list, so accepted or rejected skills
+-- and edges are not proposed again.
+ALTER TABLE public.generation_jobs
+  ADD COLUMN applied_batch_ids UUID[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.generation_jobs.applied_batch_ids IS 'generation_job_batches ids already merged into the graph or discarded through review';
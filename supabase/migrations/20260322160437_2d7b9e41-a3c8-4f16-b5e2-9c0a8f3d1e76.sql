@@ -0,0 +1,6 @@
+-- A batch whose back-off would outlast the worker's time budget goes back to
+-- pending with the time it may be retried; the next worker skips it until then.
+ALTER TABLE public.generation_job_batches
+  ADD COLUMN retry_after TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.generation_job_batches.retry_after IS 'Earliest time a deferred batch may be attempted again';